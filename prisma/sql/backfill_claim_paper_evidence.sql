@@ -0,0 +1,24 @@
+-- Backfill ClaimPaper evidence columns from extractionJson
+--
+-- Run once after `prisma db push` adds population, duration, effectSize,
+-- limitations and relevanceScore to ClaimPaper. Extractions stored before
+-- then only kept these fields inside extractionJson. Safe to re-run: only
+-- rows whose columns are still empty are touched.
+--
+-- Structured effect estimates (effectMeasure, effectValue, effectCi*) and
+-- pValue were not extracted before v2, so they stay null until the claim is
+-- researched again.
+
+UPDATE "ClaimPaper"
+SET
+  "population"     = NULLIF("extractionJson"->>'population', ''),
+  "duration"       = NULLIF("extractionJson"->>'duration', ''),
+  "effectSize"     = NULLIF("extractionJson"->>'effectSize', ''),
+  "relevanceScore" = ("extractionJson"->>'relevanceScore')::double precision,
+  "limitations"    = COALESCE(
+    ARRAY(SELECT jsonb_array_elements_text("extractionJson"->'limitations')),
+    '{}'
+  )
+WHERE "extractionJson" IS NOT NULL
+  AND jsonb_typeof("extractionJson"->'limitations') = 'array'
+  AND "relevanceScore" IS NULL;
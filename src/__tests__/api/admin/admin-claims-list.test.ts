@@ -115,6 +115,50 @@ describe("GET /api/admin/claims", () => {
     );
   });
 
+  it("filters to confidence-flagged claims, alone or with a status", async () => {
+    mockAuth.mockResolvedValue(adminSession);
+    mockFindMany.mockResolvedValue([]);
+    mockCount.mockResolvedValue(0);
+
+    await GET(makeRequest({ flagged: "true" }));
+    expect(mockFindMany).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        where: { market: { aiConfidenceFlagged: true } },
+      }),
+    );
+
+    await GET(makeRequest({ status: "ACTIVE", flagged: "true" }));
+    expect(mockFindMany).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        where: { market: { status: "ACTIVE", aiConfidenceFlagged: true } },
+      }),
+    );
+  });
+
+  it("filters to resolved claims citing a retracted paper", async () => {
+    mockAuth.mockResolvedValue(adminSession);
+    mockFindMany.mockResolvedValue([]);
+    mockCount.mockResolvedValue(0);
+
+    await GET(makeRequest({ status: "RESOLVED", retracted: "true" }));
+    expect(mockFindMany).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        where: { market: { status: "RESOLVED", retractionFlagged: true } },
+      }),
+    );
+  });
+
+  it("ignores flagged=false", async () => {
+    mockAuth.mockResolvedValue(adminSession);
+    mockFindMany.mockResolvedValue([]);
+    mockCount.mockResolvedValue(0);
+
+    await GET(makeRequest({ flagged: "false" }));
+    expect(mockFindMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: {} }),
+    );
+  });
+
   it("supports pagination params", async () => {
     mockAuth.mockResolvedValue(adminSession);
     mockFindMany.mockResolvedValue([]);
@@ -0,0 +1,82 @@
+/**
+ * Tests for GET /api/admin/costs
+ *
+ * Mocks auth and the cost summary to test the admin costs route handler.
+ */
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { NextRequest } from "next/server";
+
+// ── Mocks ──────────────────────────────────────────────────────────────────
+
+const mockGetCostSummary = vi.fn();
+vi.mock("@/lib/llm-costs", () => ({
+  getCostSummary: () => mockGetCostSummary(),
+}));
+
+const mockAuth = vi.fn();
+vi.mock("@/lib/auth", () => ({
+  auth: () => mockAuth(),
+}));
+
+// Import AFTER mocks
+import { GET } from "@/app/api/admin/costs/route";
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+function makeRequest() {
+  return new NextRequest("http://localhost:3000/api/admin/costs");
+}
+
+const totals = { costUsd: 1.25, promptTokens: 80_000, completionTokens: 9_000, runs: 2 };
+
+const summary = {
+  today: totals,
+  month: { ...totals, costUsd: 18 },
+  budgets: { jobUsd: 0.5, monthlyUsd: 200 },
+  daily: [{ date: "2026-03-15", ...totals }],
+  monthly: [{ month: "2026-03", ...totals, costUsd: 18 }],
+  byStage: [{ stage: "EXTRACTION", model: "gpt-4o-mini", costUsd: 15, calls: 90 }],
+};
+
+// ── Tests ──────────────────────────────────────────────────────────────────
+
+describe("GET /api/admin/costs", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockAuth.mockResolvedValue({ user: { id: "admin-1", isAdmin: true } });
+    mockGetCostSummary.mockResolvedValue(summary);
+  });
+
+  it("returns 401 when not authenticated", async () => {
+    mockAuth.mockResolvedValue(null);
+
+    const res = await GET(makeRequest());
+
+    expect(res.status).toBe(401);
+  });
+
+  it("returns 403 for non-admin users", async () => {
+    mockAuth.mockResolvedValue({ user: { id: "user-1", isAdmin: false } });
+
+    const res = await GET(makeRequest());
+
+    expect(res.status).toBe(403);
+    expect(mockGetCostSummary).not.toHaveBeenCalled();
+  });
+
+  it("returns the cost summary", async () => {
+    const res = await GET(makeRequest());
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual(summary);
+  });
+
+  it("returns 500 when the summary fails", async () => {
+    mockGetCostSummary.mockRejectedValue(new Error("DB down"));
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    const res = await GET(makeRequest());
+
+    expect(res.status).toBe(500);
+  });
+});
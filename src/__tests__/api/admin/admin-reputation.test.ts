@@ -0,0 +1,147 @@
+/**
+ * Tests for POST /api/admin/claims/[claimId]/reputation/reverse
+ *
+ * Mocks Prisma, auth and the reputation service.
+ */
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { NextRequest } from "next/server";
+
+// ── Mocks ──────────────────────────────────────────────────────────────────
+
+const mockClaimFindUnique = vi.fn();
+const mockMarketUpdate = vi.fn();
+
+vi.mock("@/lib/prisma", () => ({
+  prisma: {
+    claim: {
+      findUnique: (...args: unknown[]) => mockClaimFindUnique(...args),
+    },
+    market: {
+      update: (...args: unknown[]) => mockMarketUpdate(...args),
+    },
+  },
+}));
+
+const mockAuth = vi.fn();
+vi.mock("@/lib/auth", () => ({
+  auth: () => mockAuth(),
+}));
+
+const mockReverse = vi.fn();
+const mockAward = vi.fn();
+vi.mock("@/lib/reputation-service", () => ({
+  reversePredictionReputation: (...args: unknown[]) => mockReverse(...args),
+  awardPredictionReputation: (...args: unknown[]) => mockAward(...args),
+}));
+
+// Import AFTER mocks
+import { POST } from "@/app/api/admin/claims/[claimId]/reputation/reverse/route";
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+function makeRequest(claimId: string, body: Record<string, unknown>) {
+  return new NextRequest(
+    `http://localhost:3000/api/admin/claims/${claimId}/reputation/reverse`,
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    },
+  );
+}
+
+function makeParams(claimId: string) {
+  return { params: Promise.resolve({ claimId }) };
+}
+
+const adminSession = { user: { id: "admin-1", isAdmin: true } };
+
+const resolvedClaim = {
+  id: "claim-1",
+  market: { id: "market-1", status: "RESOLVED", aiVerdict: "YES" },
+};
+
+// ── Tests ──────────────────────────────────────────────────────────────────
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockReverse.mockResolvedValue({ reversed: 2, errors: [] });
+  mockAward.mockResolvedValue({ correct: 1, wrong: 1, skipped: 0, errors: [] });
+});
+
+describe("POST /api/admin/claims/[claimId]/reputation/reverse", () => {
+  it("returns 401 when not authenticated", async () => {
+    mockAuth.mockResolvedValue(null);
+    const res = await POST(
+      makeRequest("claim-1", { reason: "Wrong verdict" }),
+      makeParams("claim-1"),
+    );
+    expect(res.status).toBe(401);
+  });
+
+  it("returns 403 when not admin", async () => {
+    mockAuth.mockResolvedValue({ user: { id: "user-1", isAdmin: false } });
+    const res = await POST(
+      makeRequest("claim-1", { reason: "Wrong verdict" }),
+      makeParams("claim-1"),
+    );
+    expect(res.status).toBe(403);
+  });
+
+  it("returns 400 without a reason", async () => {
+    mockAuth.mockResolvedValue(adminSession);
+    const res = await POST(makeRequest("claim-1", {}), makeParams("claim-1"));
+    expect(res.status).toBe(400);
+  });
+
+  it("returns 400 when the claim is not resolved", async () => {
+    mockAuth.mockResolvedValue(adminSession);
+    mockClaimFindUnique.mockResolvedValue({
+      ...resolvedClaim,
+      market: { ...resolvedClaim.market, status: "ACTIVE" },
+    });
+
+    const res = await POST(
+      makeRequest("claim-1", { reason: "Wrong verdict" }),
+      makeParams("claim-1"),
+    );
+    expect(res.status).toBe(400);
+    expect(mockReverse).not.toHaveBeenCalled();
+  });
+
+  it("reverses awards without re-scoring", async () => {
+    mockAuth.mockResolvedValue(adminSession);
+    mockClaimFindUnique.mockResolvedValue(resolvedClaim);
+
+    const res = await POST(
+      makeRequest("claim-1", { reason: "Wrong verdict" }),
+      makeParams("claim-1"),
+    );
+
+    expect(res.status).toBe(200);
+    expect(mockReverse).toHaveBeenCalledWith("claim-1", "admin-1", "Wrong verdict");
+    expect(mockAward).not.toHaveBeenCalled();
+    expect(mockMarketUpdate).not.toHaveBeenCalled();
+    const data = await res.json();
+    expect(data).toEqual({ reversal: { reversed: 2, errors: [] }, reaward: null });
+  });
+
+  it("re-scores voters against a corrected verdict", async () => {
+    mockAuth.mockResolvedValue(adminSession);
+    mockClaimFindUnique.mockResolvedValue(resolvedClaim);
+    mockMarketUpdate.mockResolvedValue({});
+
+    const res = await POST(
+      makeRequest("claim-1", { reason: "Wrong verdict", correctedVerdict: "NO" }),
+      makeParams("claim-1"),
+    );
+
+    expect(res.status).toBe(200);
+    expect(mockMarketUpdate).toHaveBeenCalledWith({
+      where: { id: "market-1" },
+      data: expect.objectContaining({ aiVerdict: "NO" }),
+    });
+    expect(mockAward).toHaveBeenCalledWith("claim-1", "NO", expect.any(String));
+    expect((await res.json()).reaward.correct).toBe(1);
+  });
+});
@@ -29,6 +29,19 @@ vi.mock("@/lib/auth", () => ({
   auth: () => mockAuth(),
 }));
 
+const mockSettleMarketStakes = vi.fn();
+const mockVoidMarket = vi.fn();
+vi.mock("@/lib/stake-pool", () => ({
+  settleMarketStakes: (...args: unknown[]) => mockSettleMarketStakes(...args),
+  voidMarket: (...args: unknown[]) => mockVoidMarket(...args),
+}));
+
+const mockAwardPredictionReputation = vi.fn();
+vi.mock("@/lib/reputation-service", () => ({
+  awardPredictionReputation: (...args: unknown[]) =>
+    mockAwardPredictionReputation(...args),
+}));
+
 // Import AFTER mocks
 import { POST } from "@/app/api/admin/claims/[claimId]/resolve/route";
 
@@ -138,15 +151,45 @@ describe("POST /api/admin/claims/[claimId]/resolve", () => {
     expect(data.error).toContain("no market");
   });
 
-  it("returns 409 when claim is already resolved", async () => {
+  it("returns 409 when claim is already resolved with another outcome", async () => {
     mockAuth.mockResolvedValue(adminSession);
     mockClaimFindUnique.mockResolvedValueOnce(resolvedClaim);
 
     const res = await POST(
-      makeRequest("claim-1", validResolveBody),
+      makeRequest("claim-1", { ...validResolveBody, aiVerdict: "NO" }),
       makeParams("claim-1"),
     );
     expect(res.status).toBe(409);
+    expect(mockSettleMarketStakes).not.toHaveBeenCalled();
+    expect(mockAwardPredictionReputation).not.toHaveBeenCalled();
+  });
+
+  it("re-runs settlement and awards for an already-resolved market", async () => {
+    mockAuth.mockResolvedValue(adminSession);
+    const resolvedAt = new Date("2026-03-01T12:00:00Z");
+    const stored = {
+      ...resolvedClaim,
+      market: { ...resolvedClaim.market, aiOutcome: "SUPPORTED", resolvedAt },
+    };
+    mockClaimFindUnique.mockResolvedValueOnce(stored).mockResolvedValueOnce(stored);
+    mockSettleMarketStakes.mockResolvedValue({ errors: [] });
+    mockAwardPredictionReputation.mockResolvedValue({ errors: [] });
+
+    const res = await POST(
+      makeRequest("claim-1", validResolveBody),
+      makeParams("claim-1"),
+    );
+
+    expect(res.status).toBe(200);
+    expect(mockMarketUpdate).not.toHaveBeenCalled();
+    expect(mockClaimUpdate).not.toHaveBeenCalled();
+    expect(mockSettleMarketStakes).toHaveBeenCalledWith("market-1", "YES");
+    // Same resolution ID as the first run, so nobody is awarded twice
+    expect(mockAwardPredictionReputation).toHaveBeenCalledWith(
+      "claim-1",
+      "YES",
+      String(resolvedAt.getTime()),
+    );
   });
 
   it("returns 400 for invalid input", async () => {
@@ -196,6 +239,7 @@ describe("POST /api/admin/claims/[claimId]/resolve", () => {
         data: expect.objectContaining({
           status: "RESOLVED",
           aiVerdict: "YES",
+          aiOutcome: "SUPPORTED",
           aiConfidence: 0.95,
           consensusSummary: validResolveBody.consensusSummary,
         }),
@@ -210,6 +254,135 @@ describe("POST /api/admin/claims/[claimId]/resolve", () => {
     );
   });
 
+  it("settles stake pools against the verdict", async () => {
+    mockAuth.mockResolvedValue(adminSession);
+    mockClaimFindUnique
+      .mockResolvedValueOnce(activeClaim)
+      .mockResolvedValueOnce(resolvedClaim);
+    mockMarketUpdate.mockResolvedValue({
+      ...activeClaim.market,
+      status: "RESOLVED",
+    });
+    mockClaimUpdate.mockResolvedValue(activeClaim);
+    const settlement = {
+      winningPool: 40,
+      losingPool: 10,
+      winners: 2,
+      losers: 1,
+      refunded: 0,
+      totalPaidOut: 49,
+      totalFeeBurned: 1,
+      errors: [],
+    };
+    mockSettleMarketStakes.mockResolvedValue(settlement);
+
+    const res = await POST(
+      makeRequest("claim-1", validResolveBody),
+      makeParams("claim-1"),
+    );
+
+    expect(res.status).toBe(200);
+    expect(mockSettleMarketStakes).toHaveBeenCalledWith("market-1", "YES");
+    const data = await res.json();
+    expect(data.settlement).toEqual(settlement);
+  });
+
+  it("awards prediction reputation against the verdict", async () => {
+    mockAuth.mockResolvedValue(adminSession);
+    mockClaimFindUnique
+      .mockResolvedValueOnce(activeClaim)
+      .mockResolvedValueOnce(resolvedClaim);
+    mockMarketUpdate.mockResolvedValue({
+      ...activeClaim.market,
+      status: "RESOLVED",
+    });
+    mockClaimUpdate.mockResolvedValue(activeClaim);
+    const reputation = { correct: 3, wrong: 1, skipped: 0, errors: [] };
+    mockAwardPredictionReputation.mockResolvedValue(reputation);
+
+    const res = await POST(
+      makeRequest("claim-1", validResolveBody),
+      makeParams("claim-1"),
+    );
+
+    expect(res.status).toBe(200);
+    const [claimId, outcome, resolutionId] =
+      mockAwardPredictionReputation.mock.calls[0];
+    expect(claimId).toBe("claim-1");
+    expect(outcome).toBe("YES");
+    // Resolution ID is the resolvedAt written to the market
+    const { data } = mockMarketUpdate.mock.calls[0][0];
+    expect(resolutionId).toBe(String(data.resolvedAt.getTime()));
+    expect((await res.json()).reputation).toEqual(reputation);
+  });
+
+  it("rejects an outcome that disagrees with aiVerdict", async () => {
+    mockAuth.mockResolvedValue(adminSession);
+    const res = await POST(
+      makeRequest("claim-1", { ...validResolveBody, outcome: "CONTRADICTED" }),
+      makeParams("claim-1"),
+    );
+    expect(res.status).toBe(400);
+  });
+
+  it("resolves with a four-way outcome", async () => {
+    mockAuth.mockResolvedValue(adminSession);
+    mockClaimFindUnique
+      .mockResolvedValueOnce(activeClaim)
+      .mockResolvedValueOnce(resolvedClaim);
+    mockMarketUpdate.mockResolvedValue({ ...activeClaim.market });
+    mockClaimUpdate.mockResolvedValue(activeClaim);
+
+    const { aiVerdict: _omit, ...body } = validResolveBody;
+    const res = await POST(
+      makeRequest("claim-1", { ...body, outcome: "CONTRADICTED" }),
+      makeParams("claim-1"),
+    );
+
+    expect(res.status).toBe(200);
+    expect(mockMarketUpdate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({
+          aiVerdict: "NO",
+          aiOutcome: "CONTRADICTED",
+        }),
+      }),
+    );
+    expect(mockSettleMarketStakes).toHaveBeenCalledWith("market-1", "NO");
+  });
+
+  it("voids the market on a MIXED outcome", async () => {
+    mockAuth.mockResolvedValue(adminSession);
+    mockClaimFindUnique
+      .mockResolvedValueOnce(activeClaim)
+      .mockResolvedValueOnce(resolvedClaim);
+    mockMarketUpdate.mockResolvedValue({ ...activeClaim.market });
+    mockClaimUpdate.mockResolvedValue(activeClaim);
+    const voided = { stakesRefunded: 2, votesRefunded: 5, errors: [] };
+    mockVoidMarket.mockResolvedValue(voided);
+
+    const { aiVerdict: _omit, ...body } = validResolveBody;
+    const res = await POST(
+      makeRequest("claim-1", { ...body, outcome: "MIXED" }),
+      makeParams("claim-1"),
+    );
+
+    expect(res.status).toBe(200);
+    expect(mockMarketUpdate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({
+          status: "RESOLVED",
+          aiVerdict: null,
+          aiOutcome: "MIXED",
+        }),
+      }),
+    );
+    expect(mockVoidMarket).toHaveBeenCalledWith("market-1", "claim-1");
+    expect(mockSettleMarketStakes).not.toHaveBeenCalled();
+    expect(mockAwardPredictionReputation).not.toHaveBeenCalled();
+    expect((await res.json()).voided).toEqual(voided);
+  });
+
   it("returns 500 on database error", async () => {
     mockAuth.mockResolvedValue(adminSession);
     mockClaimFindUnique.mockRejectedValue(new Error("DB down"));
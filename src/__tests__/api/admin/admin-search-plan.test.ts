@@ -0,0 +1,263 @@
+/**
+ * Tests for GET/POST /api/admin/claims/[claimId]/search-plan
+ *
+ * Mocks Prisma, auth and the dossier job helpers to test viewing the stored search plan
+ * and re-running a dossier with edited queries and paper sources.
+ */
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { NextRequest } from "next/server";
+
+// ── Mocks ──────────────────────────────────────────────────────────────────
+
+const mockClaimFindUnique = vi.fn();
+const mockClaimUpdate = vi.fn();
+const mockDossierFindFirst = vi.fn();
+
+vi.mock("@/lib/prisma", () => ({
+  prisma: {
+    claim: {
+      findUnique: (...args: unknown[]) => mockClaimFindUnique(...args),
+      update: (...args: unknown[]) => mockClaimUpdate(...args),
+    },
+    dossierJob: {
+      findFirst: (...args: unknown[]) => mockDossierFindFirst(...args),
+    },
+  },
+}));
+
+const mockAuth = vi.fn();
+vi.mock("@/lib/auth", () => ({
+  auth: () => mockAuth(),
+}));
+
+const mockFindActive = vi.fn();
+const mockStart = vi.fn();
+vi.mock("@/lib/dossier-jobs", () => ({
+  findActiveDossierJob: (...args: unknown[]) => mockFindActive(...args),
+  startDossierJob: (...args: unknown[]) => mockStart(...args),
+}));
+
+// Import AFTER mocks
+import { GET, POST } from "@/app/api/admin/claims/[claimId]/search-plan/route";
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+const URL = "http://localhost:3000/api/admin/claims/claim-1/search-plan";
+
+function makeGet() {
+  return new NextRequest(URL);
+}
+
+function makePost(body: Record<string, unknown>) {
+  return new NextRequest(URL, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+}
+
+function makeParams(claimId = "claim-1") {
+  return { params: Promise.resolve({ claimId }) };
+}
+
+const adminSession = { user: { id: "admin-1", isAdmin: true } };
+const userSession = { user: { id: "user-1", isAdmin: false } };
+
+const claim = { id: "claim-1", title: "Creatine improves muscle strength" };
+
+const pico = {
+  population: null,
+  intervention: { term: "creatine", meshTerms: ["Creatine"], synonyms: [] },
+  comparator: null,
+  outcome: null,
+};
+
+const storedPlan = {
+  source: "llm",
+  pico,
+  pubmedQuery: '("Creatine"[MeSH Terms] OR "creatine"[Title/Abstract])',
+  semanticScholarQueries: [claim.title],
+  arxivQuery: claim.title,
+  arxivCategories: ["q-bio.QM"],
+};
+
+const editedQueries = {
+  pubmedQuery: '"Creatine"[MeSH Terms] AND "Muscle Strength"[MeSH Terms]',
+  semanticScholarQueries: ["creatine strength", "creatine 1RM"],
+  arxivQuery: "creatine strength",
+  arxivCategories: ["q-bio.QM", "stat.AP"],
+};
+
+// ── Tests ──────────────────────────────────────────────────────────────────
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe("GET /api/admin/claims/[claimId]/search-plan", () => {
+  it("returns 403 when not admin", async () => {
+    mockAuth.mockResolvedValue(userSession);
+    const res = await GET(makeGet(), makeParams());
+    expect(res.status).toBe(403);
+  });
+
+  it("returns 404 when claim not found", async () => {
+    mockAuth.mockResolvedValue(adminSession);
+    mockClaimFindUnique.mockResolvedValue(null);
+    const res = await GET(makeGet(), makeParams());
+    expect(res.status).toBe(404);
+  });
+
+  it("returns the plan stored on the latest run", async () => {
+    mockAuth.mockResolvedValue(adminSession);
+    mockClaimFindUnique.mockResolvedValue(claim);
+    mockDossierFindFirst.mockResolvedValue({
+      id: "dj-2",
+      status: "SUCCEEDED",
+      createdAt: new Date("2026-01-01"),
+      searchPlan: storedPlan,
+    });
+
+    const res = await GET(makeGet(), makeParams());
+    const data = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(data.jobId).toBe("dj-2");
+    expect(data.status).toBe("SUCCEEDED");
+    expect(data.searchPlan).toEqual(storedPlan);
+    expect(mockDossierFindFirst).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({ claimId: "claim-1" }),
+        orderBy: { createdAt: "desc" },
+      }),
+    );
+  });
+
+  it("returns the fallback plan before any run has planned", async () => {
+    mockAuth.mockResolvedValue(adminSession);
+    mockClaimFindUnique.mockResolvedValue(claim);
+    mockDossierFindFirst.mockResolvedValue(null);
+
+    const res = await GET(makeGet(), makeParams());
+    const data = await res.json();
+
+    expect(data.jobId).toBeNull();
+    expect(data.searchPlan.source).toBe("fallback");
+    expect(data.searchPlan.pubmedQuery).toBe(`${claim.title} systematic review`);
+  });
+
+  it("returns the claim's paper sources, or the defaults", async () => {
+    mockAuth.mockResolvedValue(adminSession);
+    mockDossierFindFirst.mockResolvedValue(null);
+
+    mockClaimFindUnique.mockResolvedValueOnce({ ...claim, paperSources: [] });
+    const defaults = await (await GET(makeGet(), makeParams())).json();
+    expect(defaults.paperSources).toEqual(["pubmed", "semanticScholar", "arxiv"]);
+
+    mockClaimFindUnique.mockResolvedValueOnce({
+      ...claim,
+      paperSources: ["clinicalTrials", "pubmed"],
+    });
+    const chosen = await (await GET(makeGet(), makeParams())).json();
+    expect(chosen.paperSources).toEqual(["pubmed", "clinicalTrials"]);
+  });
+});
+
+describe("POST /api/admin/claims/[claimId]/search-plan", () => {
+  it("returns 401 when not authenticated", async () => {
+    mockAuth.mockResolvedValue(null);
+    const res = await POST(makePost(editedQueries), makeParams());
+    expect(res.status).toBe(401);
+  });
+
+  it("returns 400 for an unknown arXiv category", async () => {
+    mockAuth.mockResolvedValue(adminSession);
+    const res = await POST(
+      makePost({ ...editedQueries, arxivCategories: ["hep-th"] }),
+      makeParams(),
+    );
+    expect(res.status).toBe(400);
+    expect((await res.json()).error).toBe("Unknown arXiv category");
+  });
+
+  it("returns 409 while a run is in progress", async () => {
+    mockAuth.mockResolvedValue(adminSession);
+    mockClaimFindUnique.mockResolvedValue(claim);
+    mockFindActive.mockResolvedValue({ id: "dj-3" });
+
+    const res = await POST(makePost(editedQueries), makeParams());
+
+    expect(res.status).toBe(409);
+    expect(mockStart).not.toHaveBeenCalled();
+  });
+
+  it("returns 409 for a resolved claim", async () => {
+    mockAuth.mockResolvedValue(adminSession);
+    mockClaimFindUnique.mockResolvedValue({ ...claim, market: { status: "RESOLVED" } });
+    mockFindActive.mockResolvedValue(null);
+
+    const res = await POST(makePost(editedQueries), makeParams());
+
+    expect(res.status).toBe(409);
+    expect(mockStart).not.toHaveBeenCalled();
+  });
+
+  it("stores the edited plan on a new job and enqueues it", async () => {
+    mockAuth.mockResolvedValue(adminSession);
+    mockClaimFindUnique.mockResolvedValue(claim);
+    mockFindActive.mockResolvedValue(null);
+    mockDossierFindFirst.mockResolvedValue({ id: "dj-2", searchPlan: storedPlan });
+    mockStart.mockResolvedValue({ id: "dj-4" });
+
+    const res = await POST(makePost(editedQueries), makeParams());
+    const data = await res.json();
+
+    expect(res.status).toBe(201);
+    expect(data.jobId).toBe("dj-4");
+    const expectedPlan = { ...editedQueries, source: "admin", pico };
+    expect(data.searchPlan).toEqual(expectedPlan);
+    expect(mockStart).toHaveBeenCalledWith({
+      claimId: "claim-1",
+      triggeredBy: "admin-1",
+      searchPlan: expectedPlan,
+    });
+    expect(mockClaimUpdate).not.toHaveBeenCalled();
+  });
+
+  it("saves new paper sources on the claim before re-running", async () => {
+    mockAuth.mockResolvedValue(adminSession);
+    mockClaimFindUnique.mockResolvedValue({ ...claim, paperSources: [] });
+    mockFindActive.mockResolvedValue(null);
+    mockDossierFindFirst.mockResolvedValue(null);
+    mockStart.mockResolvedValue({ id: "dj-5" });
+
+    const res = await POST(
+      makePost({ ...editedQueries, paperSources: ["europePmc", "crossref"] }),
+      makeParams(),
+    );
+    const data = await res.json();
+
+    expect(res.status).toBe(201);
+    expect(mockClaimUpdate).toHaveBeenCalledWith({
+      where: { id: "claim-1" },
+      data: { paperSources: ["europePmc", "crossref"] },
+    });
+    expect(data.paperSources).toEqual(["europePmc", "crossref"]);
+    // Sources belong to the claim, not the stored plan
+    expect(mockStart.mock.calls[0][0].searchPlan).not.toHaveProperty(
+      "paperSources",
+    );
+  });
+
+  it("returns 400 when no chosen source searches for papers", async () => {
+    mockAuth.mockResolvedValue(adminSession);
+    const res = await POST(
+      makePost({ ...editedQueries, paperSources: ["crossref"] }),
+      makeParams(),
+    );
+    expect(res.status).toBe(400);
+    expect((await res.json()).error).toBe(
+      "Choose at least one source that searches for papers",
+    );
+  });
+});
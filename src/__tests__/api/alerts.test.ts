@@ -0,0 +1,159 @@
+/**
+ * Tests for /api/alerts
+ *
+ * Mocks Prisma and auth to test listing a user's new-paper alerts and
+ * marking them read.
+ */
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { NextRequest } from "next/server";
+
+// ── Mocks ──────────────────────────────────────────────────────────────────
+
+const mockAlertFindMany = vi.fn();
+const mockAlertCount = vi.fn();
+const mockAlertUpdateMany = vi.fn();
+
+vi.mock("@/lib/prisma", () => ({
+  prisma: {
+    paperAlert: {
+      findMany: (...args: unknown[]) => mockAlertFindMany(...args),
+      count: (...args: unknown[]) => mockAlertCount(...args),
+      updateMany: (...args: unknown[]) => mockAlertUpdateMany(...args),
+    },
+  },
+}));
+
+const mockAuth = vi.fn();
+vi.mock("@/lib/auth", () => ({
+  auth: () => mockAuth(),
+}));
+
+// Import AFTER mocks
+import { GET, PATCH } from "@/app/api/alerts/route";
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+function makeGetRequest(query = "") {
+  return new NextRequest(`http://localhost:3000/api/alerts${query}`);
+}
+
+function makePatchRequest(body?: Record<string, unknown>) {
+  return new NextRequest("http://localhost:3000/api/alerts", {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+}
+
+// ── Tests ──────────────────────────────────────────────────────────────────
+
+describe("GET /api/alerts", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockAuth.mockResolvedValue({ user: { id: "user-1" } });
+    mockAlertFindMany.mockResolvedValue([
+      {
+        id: "alert-1",
+        readAt: null,
+        createdAt: new Date("2026-03-01T00:00:00Z"),
+        claim: { id: "claim-1", title: "Creatine increases muscle mass" },
+        paper: { id: "paper-1", title: "A new trial" },
+      },
+    ]);
+    mockAlertCount.mockResolvedValue(3);
+  });
+
+  it("returns 401 when not authenticated", async () => {
+    mockAuth.mockResolvedValue(null);
+
+    const res = await GET(makeGetRequest());
+
+    expect(res.status).toBe(401);
+  });
+
+  it("lists the user's alerts newest first with the unread count", async () => {
+    const res = await GET(makeGetRequest());
+    const data = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(data.alerts).toHaveLength(1);
+    expect(data.alerts[0].claim.id).toBe("claim-1");
+    expect(data.unreadCount).toBe(3);
+    expect(mockAlertFindMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { userId: "user-1" },
+        orderBy: { createdAt: "desc" },
+        take: 50,
+        skip: 0,
+      })
+    );
+    expect(mockAlertCount).toHaveBeenCalledWith({
+      where: { userId: "user-1", readAt: null },
+    });
+  });
+
+  it("filters to unread alerts and pages", async () => {
+    await GET(makeGetRequest("?unread=true&limit=10&offset=20"));
+
+    expect(mockAlertFindMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { userId: "user-1", readAt: null },
+        take: 10,
+        skip: 20,
+      })
+    );
+  });
+
+  it("returns 400 for an invalid limit", async () => {
+    const res = await GET(makeGetRequest("?limit=500"));
+
+    expect(res.status).toBe(400);
+    expect(mockAlertFindMany).not.toHaveBeenCalled();
+  });
+});
+
+describe("PATCH /api/alerts", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockAuth.mockResolvedValue({ user: { id: "user-1" } });
+    mockAlertUpdateMany.mockResolvedValue({ count: 2 });
+  });
+
+  it("returns 401 when not authenticated", async () => {
+    mockAuth.mockResolvedValue(null);
+
+    const res = await PATCH(makePatchRequest({}));
+
+    expect(res.status).toBe(401);
+  });
+
+  it("marks the given alerts read", async () => {
+    const res = await PATCH(makePatchRequest({ ids: ["alert-1", "alert-2"] }));
+
+    expect(await res.json()).toEqual({ marked: 2 });
+    expect(mockAlertUpdateMany).toHaveBeenCalledWith({
+      where: {
+        userId: "user-1",
+        readAt: null,
+        id: { in: ["alert-1", "alert-2"] },
+      },
+      data: { readAt: expect.any(Date) },
+    });
+  });
+
+  it("marks all unread alerts read without a body", async () => {
+    await PATCH(makePatchRequest());
+
+    expect(mockAlertUpdateMany).toHaveBeenCalledWith({
+      where: { userId: "user-1", readAt: null },
+      data: { readAt: expect.any(Date) },
+    });
+  });
+
+  it("returns 400 for an empty id list", async () => {
+    const res = await PATCH(makePatchRequest({ ids: [] }));
+
+    expect(res.status).toBe(400);
+    expect(mockAlertUpdateMany).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * Tests for /api/claims/[claimId]/alerts
+ *
+ * Mocks Prisma and auth to test subscribing to and unsubscribing from a
+ * claim's new-paper alerts.
+ */
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { NextRequest } from "next/server";
+
+// ── Mocks ──────────────────────────────────────────────────────────────────
+
+const mockClaimFindUnique = vi.fn();
+const mockSubscriptionFindUnique = vi.fn();
+const mockSubscriptionUpsert = vi.fn();
+const mockSubscriptionUpdateMany = vi.fn();
+
+vi.mock("@/lib/prisma", () => ({
+  prisma: {
+    claim: {
+      findUnique: (...args: unknown[]) => mockClaimFindUnique(...args),
+    },
+    alertSubscription: {
+      findUnique: (...args: unknown[]) => mockSubscriptionFindUnique(...args),
+      upsert: (...args: unknown[]) => mockSubscriptionUpsert(...args),
+      updateMany: (...args: unknown[]) => mockSubscriptionUpdateMany(...args),
+    },
+  },
+}));
+
+const mockAuth = vi.fn();
+vi.mock("@/lib/auth", () => ({
+  auth: () => mockAuth(),
+}));
+
+// Import AFTER mocks
+import { GET, POST, DELETE } from "@/app/api/claims/[claimId]/alerts/route";
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+function makeRequest(claimId: string, method: string) {
+  return new NextRequest(`http://localhost:3000/api/claims/${claimId}/alerts`, {
+    method,
+  });
+}
+
+function makeParams(claimId: string) {
+  return { params: Promise.resolve({ claimId }) };
+}
+
+// ── Tests ──────────────────────────────────────────────────────────────────
+
+describe("/api/claims/[claimId]/alerts", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockAuth.mockResolvedValue({ user: { id: "user-1" } });
+    mockClaimFindUnique.mockResolvedValue({ id: "claim-1" });
+    mockSubscriptionUpsert.mockResolvedValue({});
+    mockSubscriptionUpdateMany.mockResolvedValue({ count: 1 });
+  });
+
+  it.each([
+    ["GET", GET],
+    ["POST", POST],
+    ["DELETE", DELETE],
+  ])("%s returns 401 when not authenticated", async (method, handler) => {
+    mockAuth.mockResolvedValue(null);
+
+    const res = await handler(
+      makeRequest("claim-1", method),
+      makeParams("claim-1")
+    );
+
+    expect(res.status).toBe(401);
+  });
+
+  it("returns 400 for an invalid claim ID", async () => {
+    const res = await POST(makeRequest("x", "POST"), makeParams(""));
+
+    expect(res.status).toBe(400);
+    expect(mockSubscriptionUpsert).not.toHaveBeenCalled();
+  });
+
+  describe("GET", () => {
+    it("reports an active subscription", async () => {
+      mockSubscriptionFindUnique.mockResolvedValue({ isActive: true });
+
+      const res = await GET(makeRequest("claim-1", "GET"), makeParams("claim-1"));
+
+      expect(await res.json()).toEqual({ subscribed: true });
+      expect(mockSubscriptionFindUnique).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { claimId_userId: { claimId: "claim-1", userId: "user-1" } },
+        })
+      );
+    });
+
+    it("reports not subscribed without a subscription or after unsubscribing", async () => {
+      mockSubscriptionFindUnique.mockResolvedValueOnce(null);
+      mockSubscriptionFindUnique.mockResolvedValueOnce({ isActive: false });
+
+      const none = await GET(makeRequest("claim-1", "GET"), makeParams("claim-1"));
+      const inactive = await GET(makeRequest("claim-1", "GET"), makeParams("claim-1"));
+
+      expect(await none.json()).toEqual({ subscribed: false });
+      expect(await inactive.json()).toEqual({ subscribed: false });
+    });
+  });
+
+  describe("POST", () => {
+    it("subscribes, reactivating an earlier subscription", async () => {
+      const res = await POST(makeRequest("claim-1", "POST"), makeParams("claim-1"));
+
+      expect(res.status).toBe(200);
+      expect(await res.json()).toEqual({ subscribed: true });
+      expect(mockSubscriptionUpsert).toHaveBeenCalledWith({
+        where: { claimId_userId: { claimId: "claim-1", userId: "user-1" } },
+        create: { claimId: "claim-1", userId: "user-1" },
+        update: { isActive: true },
+      });
+    });
+
+    it("returns 404 for an unknown claim", async () => {
+      mockClaimFindUnique.mockResolvedValue(null);
+
+      const res = await POST(makeRequest("nope", "POST"), makeParams("nope"));
+
+      expect(res.status).toBe(404);
+      expect(mockSubscriptionUpsert).not.toHaveBeenCalled();
+    });
+
+    it("returns 500 when the database fails", async () => {
+      mockSubscriptionUpsert.mockRejectedValue(new Error("DB down"));
+      vi.spyOn(console, "error").mockImplementation(() => {});
+
+      const res = await POST(makeRequest("claim-1", "POST"), makeParams("claim-1"));
+
+      expect(res.status).toBe(500);
+    });
+  });
+
+  describe("DELETE", () => {
+    it("deactivates the user's subscription", async () => {
+      const res = await DELETE(makeRequest("claim-1", "DELETE"), makeParams("claim-1"));
+
+      expect(await res.json()).toEqual({ subscribed: false });
+      expect(mockSubscriptionUpdateMany).toHaveBeenCalledWith({
+        where: { claimId: "claim-1", userId: "user-1" },
+        data: { isActive: false },
+      });
+    });
+
+    it("succeeds when the user was never subscribed", async () => {
+      mockSubscriptionUpdateMany.mockResolvedValue({ count: 0 });
+
+      const res = await DELETE(makeRequest("claim-1", "DELETE"), makeParams("claim-1"));
+
+      expect(res.status).toBe(200);
+      expect(await res.json()).toEqual({ subscribed: false });
+    });
+  });
+});
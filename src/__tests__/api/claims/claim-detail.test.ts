@@ -29,6 +29,7 @@ vi.mock("@/lib/auth", () => ({
 
 // Import AFTER mocks
 import { GET } from "@/app/api/claims/[claimId]/route";
+import { excludeSupersededPreprints } from "@/lib/papers";
 
 // ── Helpers ────────────────────────────────────────────────────────────────
 
@@ -61,6 +62,7 @@ const fullClaim = {
     resolvedAt: null,
   },
   claimPapers: [],
+  verdicts: [],
 };
 
 // ── Tests ──────────────────────────────────────────────────────────────────
@@ -134,6 +136,7 @@ describe("GET /api/claims/[claimId]", () => {
       claimPapers: [
         {
           id: "cp-1",
+          paperId: "paper-1",
           stance: "SUPPORTS",
           aiSummary: "Strong evidence from RCT",
           studyType: "RCT",
@@ -158,6 +161,76 @@ describe("GET /api/claims/[claimId]", () => {
     expect(json.claimPapers[0].paper.title).toBe("Creatine and muscle hypertrophy");
   });
 
+  it("leaves out preprints superseded by a published version", async () => {
+    mockClaimFindUnique.mockResolvedValue(fullClaim);
+    mockAuth.mockResolvedValue(null);
+
+    await GET(makeRequest("claim-1"), makeParams("claim-1"));
+
+    const { include } = mockClaimFindUnique.mock.calls[0][0];
+    expect(include.claimPapers.where).toEqual(excludeSupersededPreprints("claim-1"));
+  });
+
+  it("returns the latest verdict's citations, ordered by key", async () => {
+    mockClaimFindUnique.mockResolvedValue({
+      ...fullClaim,
+      verdicts: [
+        {
+          citations: [
+            {
+              key: "P2",
+              paperId: "paper-2",
+              chunkId: null,
+              paper: { title: "Null RCT" },
+              chunk: null,
+            },
+            {
+              key: "P1.1",
+              paperId: "paper-1",
+              chunkId: "chunk-9",
+              paper: { title: "Creatine meta-analysis" },
+              chunk: { section: "results", content: "Strength rose 8%." },
+            },
+          ],
+        },
+      ],
+    });
+    mockAuth.mockResolvedValue(null);
+
+    const res = await GET(makeRequest("claim-1"), makeParams("claim-1"));
+    const json = await res.json();
+
+    expect(mockClaimFindUnique).toHaveBeenCalledWith(
+      expect.objectContaining({
+        include: expect.objectContaining({
+          verdicts: expect.objectContaining({
+            orderBy: { version: "desc" },
+            take: 1,
+          }),
+        }),
+      }),
+    );
+    expect(json.verdicts).toBeUndefined();
+    expect(json.citations).toEqual([
+      {
+        key: "P1.1",
+        paperId: "paper-1",
+        chunkId: "chunk-9",
+        paperTitle: "Creatine meta-analysis",
+        section: "results",
+        excerpt: "Strength rose 8%.",
+      },
+      {
+        key: "P2",
+        paperId: "paper-2",
+        chunkId: null,
+        paperTitle: "Null RCT",
+        section: null,
+        excerpt: null,
+      },
+    ]);
+  });
+
   it("queries vote with correct compound key", async () => {
     mockClaimFindUnique.mockResolvedValue(fullClaim);
     mockAuth.mockResolvedValue({ user: { id: "user-99" } });
@@ -0,0 +1,121 @@
+/**
+ * Tests for GET /api/claims/[claimId]/effects
+ */
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { NextRequest } from "next/server";
+
+// ── Mocks ──────────────────────────────────────────────────────────────────
+
+const mockClaimFindUnique = vi.fn();
+const mockClaimPaperFindMany = vi.fn();
+
+vi.mock("@/lib/prisma", () => ({
+  prisma: {
+    claim: { findUnique: (...a: unknown[]) => mockClaimFindUnique(...a) },
+    claimPaper: { findMany: (...a: unknown[]) => mockClaimPaperFindMany(...a) },
+  },
+}));
+
+import { GET } from "@/app/api/claims/[claimId]/effects/route";
+import { excludeSupersededPreprints } from "@/lib/papers";
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+function makeReq(claimId: string) {
+  return new NextRequest(`http://localhost:3000/api/claims/${claimId}/effects`);
+}
+function makeParams(claimId: string) {
+  return { params: Promise.resolve({ claimId }) };
+}
+
+function claimPaper(id: string, overrides: Record<string, unknown> = {}) {
+  return {
+    id,
+    studyType: "RCT",
+    stance: "SUPPORTS",
+    sampleSize: 120,
+    effectMeasure: "SMD",
+    effectValue: 0.4,
+    effectCiLower: 0.1,
+    effectCiUpper: 0.7,
+    paper: { id: `p-${id}`, title: `Trial ${id}`, publishedYear: 2022 },
+    ...overrides,
+  };
+}
+
+// ── Tests ──────────────────────────────────────────────────────────────────
+
+describe("GET /api/claims/[claimId]/effects", () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  it("returns 404 when claim not found", async () => {
+    mockClaimFindUnique.mockResolvedValue(null);
+    const res = await GET(makeReq("c1"), makeParams("c1"));
+    expect(res.status).toBe(404);
+  });
+
+  it("only reads extracted papers with a structured effect", async () => {
+    mockClaimFindUnique.mockResolvedValue({ id: "c1" });
+    mockClaimPaperFindMany.mockResolvedValue([]);
+
+    const res = await GET(makeReq("c1"), makeParams("c1"));
+    const body = await res.json();
+
+    expect(body).toEqual({ claimId: "c1", count: 0, plots: [] });
+    expect(mockClaimPaperFindMany.mock.calls[0][0].where).toEqual({
+      claimId: "c1",
+      ...excludeSupersededPreprints("c1"),
+      aiSummary: { not: null },
+      effectMeasure: { not: null },
+      effectValue: { not: null },
+    });
+  });
+
+  it("returns normalised studies grouped into plots", async () => {
+    mockClaimFindUnique.mockResolvedValue({ id: "c1" });
+    mockClaimPaperFindMany.mockResolvedValue([
+      claimPaper("a"),
+      claimPaper("b", { effectMeasure: "OR", effectValue: 2, effectCiLower: null, effectCiUpper: null }),
+      claimPaper("c", { effectMeasure: "PERCENT_CHANGE", effectValue: 8 }),
+    ]);
+
+    const res = await GET(makeReq("c1"), makeParams("c1"));
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(body.count).toBe(3);
+    expect(body.plots.map((p: { scale: string }) => p.scale)).toEqual([
+      "SMD",
+      "PERCENT_CHANGE",
+    ]);
+    expect(body.plots[0].studies[0]).toMatchObject({
+      claimPaperId: "a",
+      paperId: "p-a",
+      paperTitle: "Trial a",
+      stance: "SUPPORTS",
+      sampleSize: 120,
+      value: 0.4,
+      ciLower: 0.1,
+      ciUpper: 0.7,
+      approximate: false,
+      effect: { measure: "SMD", value: 0.4, ciLower: 0.1, ciUpper: 0.7 },
+    });
+  });
+
+  it("skips rows with an unknown measure or an inverted CI", async () => {
+    mockClaimFindUnique.mockResolvedValue({ id: "c1" });
+    mockClaimPaperFindMany.mockResolvedValue([
+      claimPaper("a", { effectMeasure: "NNT" }),
+      claimPaper("b", { effectCiLower: 0.9 }),
+    ]);
+
+    const body = await (await GET(makeReq("c1"), makeParams("c1"))).json();
+    expect(body.count).toBe(0);
+  });
+
+  it("returns 500 on unexpected error", async () => {
+    mockClaimFindUnique.mockRejectedValue(new Error("DB down"));
+    const res = await GET(makeReq("c1"), makeParams("c1"));
+    expect(res.status).toBe(500);
+  });
+});
@@ -17,6 +17,7 @@ vi.mock("@/lib/prisma", () => ({
 }));
 
 import { GET } from "@/app/api/claims/[claimId]/evidence/route";
+import { excludeSupersededPreprints } from "@/lib/papers";
 
 // ── Helpers ────────────────────────────────────────────────────────────────
 
@@ -38,8 +39,18 @@ const FAKE_CLAIM_PAPER = {
   aiSummary: "Strong evidence for creatine.",
   abstractSnippet: "This meta-analysis...",
   sampleSize: 500,
+  population: "trained adults",
+  duration: "8 weeks",
+  effectSize: "+8% strength",
+  pValue: 0.01,
+  limitations: ["Mostly male participants"],
+  relevanceScore: 0.95,
+  effectMeasure: "SMD",
+  effectValue: 0.45,
+  effectCiLower: 0.2,
+  effectCiUpper: 0.7,
   confidenceScore: 0.9,
-  extractionVersion: "v1",
+  extractionVersion: "v2",
   createdAt: new Date().toISOString(),
   paper: {
     id: "p1",
@@ -51,6 +62,8 @@ const FAKE_CLAIM_PAPER = {
     publishedYear: 2023,
     authors: ["Smith J"],
     fullTextUrl: "https://example.com/paper.pdf",
+    retractionStatus: "NONE",
+    retractionNoticeUrl: null,
   },
 };
 
@@ -80,6 +93,137 @@ describe("GET /api/claims/[claimId]/evidence", () => {
     expect(body.evidence[0].doi).toBe("10.1/test");
   });
 
+  it("returns the extracted study details and structured effect", async () => {
+    mockClaimFindUnique.mockResolvedValue({ id: "c1" });
+    mockClaimPaperFindMany.mockResolvedValue([
+      FAKE_CLAIM_PAPER,
+      { ...FAKE_CLAIM_PAPER, id: "cp-2", effectMeasure: null, effectValue: null },
+    ]);
+
+    const res = await GET(makeReq("c1"), makeParams("c1"));
+    const [withEffect, without] = (await res.json()).evidence;
+
+    expect(withEffect).toMatchObject({
+      population: "trained adults",
+      duration: "8 weeks",
+      effectSize: "+8% strength",
+      pValue: 0.01,
+      limitations: ["Mostly male participants"],
+      relevanceScore: 0.95,
+      effect: { measure: "SMD", value: 0.45, ciLower: 0.2, ciUpper: 0.7 },
+    });
+    expect(without.effect).toBeNull();
+  });
+
+  it("says how a snowballed paper was found", async () => {
+    mockClaimFindUnique.mockResolvedValue({ id: "c1" });
+    mockClaimPaperFindMany.mockResolvedValue([
+      FAKE_CLAIM_PAPER,
+      {
+        ...FAKE_CLAIM_PAPER,
+        id: "cp-2",
+        foundVia: "reference",
+        foundViaPaper: { id: "p1", title: "Creatine Meta-Analysis" },
+      },
+    ]);
+
+    const res = await GET(makeReq("c1"), makeParams("c1"));
+    const [searched, snowballed] = (await res.json()).evidence;
+
+    expect(searched.foundVia).toBeNull();
+    expect(snowballed.foundVia).toEqual({
+      link: "reference",
+      paperId: "p1",
+      paperTitle: "Creatine Meta-Analysis",
+    });
+    expect(mockClaimPaperFindMany.mock.calls[0][0].include.foundViaPaper).toEqual({
+      select: { id: true, title: true },
+    });
+  });
+
+  it("marks papers retracted since extraction", async () => {
+    mockClaimFindUnique.mockResolvedValue({ id: "c1" });
+    mockClaimPaperFindMany.mockResolvedValue([
+      FAKE_CLAIM_PAPER,
+      {
+        ...FAKE_CLAIM_PAPER,
+        id: "cp-2",
+        paper: {
+          ...FAKE_CLAIM_PAPER.paper,
+          retractionStatus: "RETRACTED",
+          retractionNoticeUrl: "https://pubmed.ncbi.nlm.nih.gov/99999/",
+        },
+      },
+    ]);
+
+    const res = await GET(makeReq("c1"), makeParams("c1"));
+    const [current, retracted] = (await res.json()).evidence;
+
+    expect(current.retraction).toBeNull();
+    expect(retracted.retraction).toEqual({
+      status: "RETRACTED",
+      noticeUrl: "https://pubmed.ncbi.nlm.nih.gov/99999/",
+    });
+  });
+
+  it("filters on study type, effect measure and relevance", async () => {
+    mockClaimFindUnique.mockResolvedValue({ id: "c1" });
+    mockClaimPaperFindMany.mockResolvedValue([]);
+
+    await GET(
+      makeReq("c1", { studyType: "RCT", effectMeasure: "SMD", minRelevance: "0.5" }),
+      makeParams("c1"),
+    );
+
+    const { where } = mockClaimPaperFindMany.mock.calls[0][0];
+    expect(where).toMatchObject({
+      studyType: "RCT",
+      effectMeasure: "SMD",
+      relevanceScore: { gte: 0.5 },
+    });
+  });
+
+  it("leaves out preprints superseded by a published version", async () => {
+    mockClaimFindUnique.mockResolvedValue({ id: "c1" });
+    mockClaimPaperFindMany.mockResolvedValue([]);
+
+    await GET(makeReq("c1"), makeParams("c1"));
+
+    const { where } = mockClaimPaperFindMany.mock.calls[0][0];
+    expect(where).toMatchObject(excludeSupersededPreprints("c1"));
+  });
+
+  it("filters on whether an effect was extracted", async () => {
+    mockClaimFindUnique.mockResolvedValue({ id: "c1" });
+    mockClaimPaperFindMany.mockResolvedValue([]);
+
+    await GET(makeReq("c1", { hasEffect: "true" }), makeParams("c1"));
+    await GET(makeReq("c1", { hasEffect: "false" }), makeParams("c1"));
+
+    expect(mockClaimPaperFindMany.mock.calls[0][0].where.effectValue).toEqual({ not: null });
+    expect(mockClaimPaperFindMany.mock.calls[1][0].where.effectValue).toBeNull();
+  });
+
+  it("sorts by effect size with unreported effects last", async () => {
+    mockClaimFindUnique.mockResolvedValue({ id: "c1" });
+    mockClaimPaperFindMany.mockResolvedValue([]);
+
+    await GET(makeReq("c1", { sort: "effectSize" }), makeParams("c1"));
+
+    const findManyArgs = mockClaimPaperFindMany.mock.calls[0][0];
+    expect(findManyArgs.orderBy).toEqual([
+      { effectValue: { sort: "desc", nulls: "last" } },
+      { confidenceScore: "desc" },
+    ]);
+  });
+
+  it("returns 400 for an out-of-range relevance or unknown measure", async () => {
+    const tooHigh = await GET(makeReq("c1", { minRelevance: "2" }), makeParams("c1"));
+    const unknown = await GET(makeReq("c1", { effectMeasure: "NNT" }), makeParams("c1"));
+    expect(tooHigh.status).toBe(400);
+    expect(unknown.status).toBe(400);
+  });
+
   it("returns empty array when no evidence exists", async () => {
     mockClaimFindUnique.mockResolvedValue({ id: "c1" });
     mockClaimPaperFindMany.mockResolvedValue([]);
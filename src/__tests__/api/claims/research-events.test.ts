@@ -0,0 +1,195 @@
+/**
+ * Tests for GET /api/claims/[claimId]/research/events
+ *
+ * Mocks Prisma and the dossier event subscription; reads the SSE stream.
+ */
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { NextRequest } from "next/server";
+import type { DossierEvent } from "@/lib/dossier-events";
+
+// ── Mocks ──────────────────────────────────────────────────────────────────
+
+const mockDossierJobFindFirst = vi.fn();
+const mockDossierJobFindUnique = vi.fn();
+
+vi.mock("@/lib/prisma", () => ({
+  prisma: {
+    dossierJob: {
+      findFirst: (...a: unknown[]) => mockDossierJobFindFirst(...a),
+      findUnique: (...a: unknown[]) => mockDossierJobFindUnique(...a),
+    },
+  },
+}));
+
+vi.mock("@/lib/redis", () => ({
+  redis: {},
+  createRedisConnection: vi.fn(),
+}));
+
+const mockSubscribe = vi.fn();
+const mockAtLimit = vi.fn();
+vi.mock("@/lib/dossier-events", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/dossier-events")>()),
+  subscribeDossierEvents: (...a: unknown[]) => mockSubscribe(...a),
+  atSubscriberLimit: () => mockAtLimit(),
+}));
+
+import { GET } from "@/app/api/claims/[claimId]/research/events/route";
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+function makeReq(claimId: string, signal?: AbortSignal) {
+  return new NextRequest(
+    `http://localhost:3000/api/claims/${claimId}/research/events`,
+    { signal },
+  );
+}
+function makeParams(claimId: string) {
+  return { params: Promise.resolve({ claimId }) };
+}
+
+/** The stream's messages, parsed, once it closes */
+async function readMessages(res: Response) {
+  const text = await res.text();
+  return text
+    .split("\n\n")
+    .filter((block) => block.startsWith("data: "))
+    .map((block) => JSON.parse(block.slice("data: ".length)));
+}
+
+const runningJob = {
+  id: "job-1",
+  status: "RUNNING",
+  progress: 40,
+  stage: "EMBEDDING",
+  error: null,
+};
+
+// ── Tests ──────────────────────────────────────────────────────────────────
+
+describe("GET /api/claims/[claimId]/research/events", () => {
+  const mockUnsubscribe = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockUnsubscribe.mockResolvedValue(undefined);
+    mockAtLimit.mockReturnValue(false);
+  });
+
+  it("returns 400 for an invalid claim ID", async () => {
+    const res = await GET(makeReq("x".repeat(101)), makeParams("x".repeat(101)));
+    expect(res.status).toBe(400);
+  });
+
+  it("returns 404 when no research has been started", async () => {
+    mockDossierJobFindFirst.mockResolvedValue(null);
+
+    const res = await GET(makeReq("c1"), makeParams("c1"));
+
+    expect(res.status).toBe(404);
+    expect(mockSubscribe).not.toHaveBeenCalled();
+  });
+
+  it("returns 503 while the process serves its most listeners", async () => {
+    mockDossierJobFindFirst.mockResolvedValue(runningJob);
+    mockAtLimit.mockReturnValue(true);
+
+    const res = await GET(makeReq("c1"), makeParams("c1"));
+
+    expect(res.status).toBe(503);
+    expect(res.headers.get("Retry-After")).toBe("30");
+    expect(mockSubscribe).not.toHaveBeenCalled();
+  });
+
+  it("sends only a snapshot for a finished job", async () => {
+    mockDossierJobFindFirst.mockResolvedValue({
+      ...runningJob,
+      status: "SUCCEEDED",
+      progress: 100,
+      stage: "SAVING",
+    });
+
+    const res = await GET(makeReq("c1"), makeParams("c1"));
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get("Content-Type")).toBe("text/event-stream");
+    expect(res.headers.get("Cache-Control")).toBe("no-cache, no-transform");
+    expect(await readMessages(res)).toEqual([
+      {
+        type: "snapshot",
+        jobId: "job-1",
+        status: "SUCCEEDED",
+        progress: 100,
+        stage: "SAVING",
+        stepLabel: "Complete",
+        error: null,
+      },
+    ]);
+    expect(mockSubscribe).not.toHaveBeenCalled();
+  });
+
+  it("streams live events after the snapshot until the run is done", async () => {
+    let onEvent: (event: DossierEvent) => void = () => {};
+    mockSubscribe.mockImplementation(async (_id, handler) => {
+      onEvent = handler;
+      // Published while the route reads the snapshot
+      handler({ type: "stage", stage: "RETRIEVAL", label: "Finding relevant passages", progress: 55 });
+      return mockUnsubscribe;
+    });
+    mockDossierJobFindFirst.mockResolvedValue(runningJob);
+    mockDossierJobFindUnique.mockResolvedValue(runningJob);
+
+    const res = await GET(makeReq("c1"), makeParams("c1"));
+    await vi.waitFor(() => expect(mockDossierJobFindUnique).toHaveBeenCalled());
+    onEvent({ type: "error", message: "Rate limited", paperTitle: "Paper A" });
+    onEvent({ type: "done", outcome: "SUPPORTED" });
+    onEvent({ type: "stage", stage: "SAVING", label: "Saving results", progress: 95 });
+
+    const messages = await readMessages(res);
+
+    expect(mockSubscribe).toHaveBeenCalledWith("job-1", expect.any(Function));
+    expect(messages.map((m) => m.type)).toEqual(["snapshot", "stage", "error", "done"]);
+    expect(messages[0]).toMatchObject({ status: "RUNNING", stepLabel: "Generating embeddings" });
+    expect(messages[1]).toMatchObject({ stage: "RETRIEVAL", progress: 55 });
+    expect(mockUnsubscribe).toHaveBeenCalled();
+  });
+
+  it("closes when the run finished while subscribing", async () => {
+    mockSubscribe.mockResolvedValue(mockUnsubscribe);
+    mockDossierJobFindFirst.mockResolvedValue(runningJob);
+    mockDossierJobFindUnique.mockResolvedValue({ ...runningJob, status: "FAILED", error: "boom" });
+
+    const res = await GET(makeReq("c1"), makeParams("c1"));
+    const messages = await readMessages(res);
+
+    expect(messages).toEqual([expect.objectContaining({ type: "snapshot", status: "FAILED", error: "boom" })]);
+    expect(mockUnsubscribe).toHaveBeenCalled();
+  });
+
+  it("unsubscribes when the client disconnects", async () => {
+    mockSubscribe.mockResolvedValue(mockUnsubscribe);
+    mockDossierJobFindFirst.mockResolvedValue(runningJob);
+    mockDossierJobFindUnique.mockResolvedValue(runningJob);
+    const abort = new AbortController();
+
+    const res = await GET(makeReq("c1", abort.signal), makeParams("c1"));
+    const reader = res.body!.getReader();
+    await reader.read(); // the snapshot
+    abort.abort();
+
+    expect(await reader.read()).toEqual({ done: true, value: undefined });
+    expect(mockUnsubscribe).toHaveBeenCalled();
+  });
+
+  it("ends the stream when live events are unavailable", async () => {
+    mockSubscribe.mockRejectedValue(new Error("Redis down"));
+    mockDossierJobFindFirst.mockResolvedValue(runningJob);
+    const consoleError = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    const res = await GET(makeReq("c1"), makeParams("c1"));
+
+    expect(res.status).toBe(200);
+    expect(await res.text()).toBe("");
+    expect(consoleError).toHaveBeenCalledWith("[Research Events] Error:", expect.any(Error));
+  });
+});
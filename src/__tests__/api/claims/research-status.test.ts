@@ -46,7 +46,8 @@ describe("GET /api/claims/[claimId]/research/status", () => {
     mockDossierJobFindFirst.mockResolvedValue({
       id: "job-1",
       status: "RUNNING",
-      progress: 45,
+      progress: 40,
+      stage: "EMBEDDING",
       error: null,
       startedAt: new Date().toISOString(),
       finishedAt: null,
@@ -57,7 +58,8 @@ describe("GET /api/claims/[claimId]/research/status", () => {
     const body = await res.json();
 
     expect(body.status).toBe("RUNNING");
-    expect(body.progress).toBe(45);
+    expect(body.progress).toBe(40);
+    expect(body.stage).toBe("EMBEDDING");
     expect(body.stepLabel).toBe("Generating embeddings");
   });
 
@@ -66,6 +68,7 @@ describe("GET /api/claims/[claimId]/research/status", () => {
       id: "job-1",
       status: "SUCCEEDED",
       progress: 100,
+      stage: "SAVING",
       error: null,
       startedAt: new Date().toISOString(),
       finishedAt: new Date().toISOString(),
@@ -83,7 +86,8 @@ describe("GET /api/claims/[claimId]/research/status", () => {
     mockDossierJobFindFirst.mockResolvedValue({
       id: "job-1",
       status: "FAILED",
-      progress: 30,
+      progress: 15,
+      stage: "SEARCHING",
       error: "PubMed connection failed",
       startedAt: new Date().toISOString(),
       finishedAt: new Date().toISOString(),
@@ -95,28 +99,28 @@ describe("GET /api/claims/[claimId]/research/status", () => {
 
     expect(body.status).toBe("FAILED");
     expect(body.error).toBe("PubMed connection failed");
+    expect(body.stepLabel).toBe("Failed while searching papers");
   });
 
-  it("maps progress to correct step labels", async () => {
-    const progressLabels: [number, string][] = [
-      [5, "Queued"],
-      [12, "Loading claim"],
-      [20, "Searching papers"],
-      [27, "Deduplicating results"],
-      [35, "Storing papers"],
-      [50, "Generating embeddings"],
-      [57, "Finding relevant passages"],
-      [70, "Extracting evidence"],
-      [90, "Synthesizing verdict"],
-      [97, "Saving results"],
-      [100, "Complete"],
+  it("maps pipeline stages to step labels", async () => {
+    const stageLabels: [string | null, string][] = [
+      [null, "Starting"],
+      ["PLANNING", "Planning searches"],
+      ["SEARCHING", "Searching papers"],
+      ["STORING", "Storing papers"],
+      ["EMBEDDING", "Generating embeddings"],
+      ["RETRIEVAL", "Finding relevant passages"],
+      ["EXTRACTION", "Extracting evidence"],
+      ["SYNTHESIS", "Synthesizing verdict"],
+      ["SAVING", "Saving results"],
     ];
 
-    for (const [progress, expected] of progressLabels) {
+    for (const [stage, expected] of stageLabels) {
       mockDossierJobFindFirst.mockResolvedValue({
         id: "job-1",
         status: "RUNNING",
-        progress,
+        progress: 0,
+        stage,
         error: null,
         startedAt: null,
         finishedAt: null,
@@ -129,6 +133,28 @@ describe("GET /api/claims/[claimId]/research/status", () => {
     }
   });
 
+  it("labels a queued job, and one waiting to retry", async () => {
+    for (const [stage, expected] of [
+      [null, "Queued"],
+      ["EXTRACTION", "Queued to retry"],
+    ]) {
+      mockDossierJobFindFirst.mockResolvedValue({
+        id: "job-1",
+        status: "QUEUED",
+        progress: 60,
+        stage,
+        error: "OpenAI timeout",
+        startedAt: null,
+        finishedAt: null,
+        createdAt: new Date().toISOString(),
+      });
+
+      const res = await GET(makeReq("c1"), makeParams("c1"));
+      const body = await res.json();
+      expect(body.stepLabel).toBe(expected);
+    }
+  });
+
   it("returns 500 on unexpected error", async () => {
     mockDossierJobFindFirst.mockRejectedValue(new Error("DB down"));
     const res = await GET(makeReq("c1"), makeParams("c1"));
@@ -7,35 +7,37 @@ import { NextRequest } from "next/server";
 // ── Mocks ──────────────────────────────────────────────────────────────────
 
 const mockClaimFindUnique = vi.fn();
-const mockDossierJobFindFirst = vi.fn();
-const mockDossierJobCreate = vi.fn();
 
 vi.mock("@/lib/prisma", () => ({
   prisma: {
     claim: { findUnique: (...a: unknown[]) => mockClaimFindUnique(...a) },
-    dossierJob: {
-      findFirst: (...a: unknown[]) => mockDossierJobFindFirst(...a),
-      create: (...a: unknown[]) => mockDossierJobCreate(...a),
-    },
   },
 }));
 
 const mockAuth = vi.fn();
 vi.mock("@/lib/auth", () => ({ auth: () => mockAuth() }));
 
-const mockEnqueue = vi.fn();
-vi.mock("@/lib/queue", () => ({
-  enqueueDossierJob: (...a: unknown[]) => mockEnqueue(...a),
+const mockFindActive = vi.fn();
+const mockStart = vi.fn();
+vi.mock("@/lib/dossier-jobs", () => ({
+  findActiveDossierJob: (...a: unknown[]) => mockFindActive(...a),
+  startDossierJob: (...a: unknown[]) => mockStart(...a),
 }));
 
 import { POST } from "@/app/api/claims/[claimId]/research/route";
 
 // ── Helpers ────────────────────────────────────────────────────────────────
 
-function makeReq(claimId: string) {
+function makeReq(claimId: string, body?: Record<string, unknown>) {
   return new NextRequest(
     `http://localhost:3000/api/claims/${claimId}/research`,
-    { method: "POST" },
+    {
+      method: "POST",
+      ...(body && {
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      }),
+    },
   );
 }
 
@@ -70,7 +72,7 @@ describe("POST /api/claims/[claimId]/research", () => {
   it("returns existing job if one is already in progress", async () => {
     mockAuth.mockResolvedValue({ user: { id: "u1", isAdmin: true } });
     mockClaimFindUnique.mockResolvedValue({ id: "c1" });
-    mockDossierJobFindFirst.mockResolvedValue({ id: "job-existing", status: "RUNNING" });
+    mockFindActive.mockResolvedValue({ id: "job-existing", status: "RUNNING" });
 
     const res = await POST(makeReq("c1"), makeParams("c1"));
     const body = await res.json();
@@ -78,15 +80,15 @@ describe("POST /api/claims/[claimId]/research", () => {
     expect(res.status).toBe(200);
     expect(body.jobId).toBe("job-existing");
     expect(body.status).toBe("RUNNING");
-    expect(mockDossierJobCreate).not.toHaveBeenCalled();
+    expect(mockFindActive).toHaveBeenCalledWith("c1");
+    expect(mockStart).not.toHaveBeenCalled();
   });
 
   it("creates a new dossier job and enqueues it", async () => {
     mockAuth.mockResolvedValue({ user: { id: "u1", isAdmin: true } });
     mockClaimFindUnique.mockResolvedValue({ id: "c1" });
-    mockDossierJobFindFirst.mockResolvedValue(null);
-    mockDossierJobCreate.mockResolvedValue({ id: "job-new" });
-    mockEnqueue.mockResolvedValue({});
+    mockFindActive.mockResolvedValue(null);
+    mockStart.mockResolvedValue({ id: "job-new", mode: "FULL" });
 
     const res = await POST(makeReq("c1"), makeParams("c1"));
     const body = await res.json();
@@ -94,7 +96,71 @@ describe("POST /api/claims/[claimId]/research", () => {
     expect(res.status).toBe(201);
     expect(body.jobId).toBe("job-new");
     expect(body.status).toBe("QUEUED");
-    expect(mockEnqueue).toHaveBeenCalledWith("c1", "u1");
+    expect(body.mode).toBe("FULL");
+    expect(mockStart).toHaveBeenCalledWith({
+      claimId: "c1",
+      triggeredBy: "u1",
+      mode: "FULL",
+    });
+  });
+
+  it("starts an incremental run when asked", async () => {
+    mockAuth.mockResolvedValue({ user: { id: "u1", isAdmin: true } });
+    mockClaimFindUnique.mockResolvedValue({ id: "c1" });
+    mockFindActive.mockResolvedValue(null);
+    mockStart.mockResolvedValue({ id: "job-new", mode: "INCREMENTAL" });
+
+    const res = await POST(makeReq("c1", { mode: "INCREMENTAL" }), makeParams("c1"));
+
+    expect(res.status).toBe(201);
+    expect(mockStart).toHaveBeenCalledWith(
+      expect.objectContaining({ mode: "INCREMENTAL" }),
+    );
+  });
+
+  it("refuses a full run on a resolved claim", async () => {
+    mockAuth.mockResolvedValue({ user: { id: "u1", isAdmin: true } });
+    mockClaimFindUnique.mockResolvedValue({
+      id: "c1",
+      market: { status: "RESOLVED" },
+    });
+    mockFindActive.mockResolvedValue(null);
+
+    const res = await POST(makeReq("c1"), makeParams("c1"));
+
+    expect(res.status).toBe(409);
+    expect(mockStart).not.toHaveBeenCalled();
+  });
+
+  it("still refreshes a resolved claim incrementally", async () => {
+    mockAuth.mockResolvedValue({ user: { id: "u1", isAdmin: true } });
+    mockClaimFindUnique.mockResolvedValue({
+      id: "c1",
+      market: { status: "RESOLVED" },
+    });
+    mockFindActive.mockResolvedValue(null);
+    mockStart.mockResolvedValue({ id: "job-new", mode: "INCREMENTAL" });
+
+    const res = await POST(makeReq("c1", { mode: "INCREMENTAL" }), makeParams("c1"));
+
+    expect(res.status).toBe(201);
+  });
+
+  it("returns 400 for an unknown mode", async () => {
+    mockAuth.mockResolvedValue({ user: { id: "u1", isAdmin: true } });
+    const res = await POST(makeReq("c1", { mode: "PARTIAL" }), makeParams("c1"));
+    expect(res.status).toBe(400);
+    expect(mockStart).not.toHaveBeenCalled();
+  });
+
+  it("returns 500 when the job cannot be queued", async () => {
+    mockAuth.mockResolvedValue({ user: { id: "u1", isAdmin: true } });
+    mockClaimFindUnique.mockResolvedValue({ id: "c1" });
+    mockFindActive.mockResolvedValue(null);
+    mockStart.mockRejectedValue(new Error("Redis unavailable"));
+
+    const res = await POST(makeReq("c1"), makeParams("c1"));
+    expect(res.status).toBe(500);
   });
 
   it("returns 500 on unexpected error", async () => {
@@ -0,0 +1,108 @@
+/**
+ * Tests for GET /api/claims/[claimId]/verdict/history
+ */
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { NextRequest } from "next/server";
+
+// ── Mocks ──────────────────────────────────────────────────────────────────
+
+const mockClaimFindUnique = vi.fn();
+const mockVerdictFindMany = vi.fn();
+const mockPaperFindMany = vi.fn();
+
+vi.mock("@/lib/prisma", () => ({
+  prisma: {
+    claim: { findUnique: (...a: unknown[]) => mockClaimFindUnique(...a) },
+    verdict: { findMany: (...a: unknown[]) => mockVerdictFindMany(...a) },
+    paper: { findMany: (...a: unknown[]) => mockPaperFindMany(...a) },
+  },
+}));
+
+import { GET } from "@/app/api/claims/[claimId]/verdict/history/route";
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+function makeReq(claimId: string) {
+  return new NextRequest(
+    new URL(`http://localhost:3000/api/claims/${claimId}/verdict/history`),
+  );
+}
+function makeParams(claimId: string) {
+  return { params: Promise.resolve({ claimId }) };
+}
+
+// ── Tests ──────────────────────────────────────────────────────────────────
+
+describe("GET /api/claims/[claimId]/verdict/history", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockClaimFindUnique.mockResolvedValue({ id: "c1" });
+  });
+
+  it("returns 404 when claim not found", async () => {
+    mockClaimFindUnique.mockResolvedValue(null);
+    const res = await GET(makeReq("c1"), makeParams("c1"));
+    expect(res.status).toBe(404);
+  });
+
+  it("returns an empty timeline for a claim never researched", async () => {
+    mockVerdictFindMany.mockResolvedValue([]);
+
+    const res = await GET(makeReq("c1"), makeParams("c1"));
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(body).toEqual({ claimId: "c1", versions: [] });
+    expect(mockPaperFindMany).not.toHaveBeenCalled();
+  });
+
+  it("returns versions with paper diffs", async () => {
+    mockVerdictFindMany.mockResolvedValue([
+      {
+        version: 1,
+        outcome: "MIXED",
+        confidence: 0.5,
+        evidenceCount: 2,
+        paperIds: ["p1", "p2"],
+        createdAt: new Date("2026-01-01T00:00:00Z"),
+      },
+      {
+        version: 2,
+        outcome: "SUPPORTED",
+        confidence: 0.8,
+        evidenceCount: 3,
+        paperIds: ["p2", "p3"],
+        createdAt: new Date("2026-02-01T00:00:00Z"),
+      },
+    ]);
+    mockPaperFindMany.mockResolvedValue([
+      { id: "p1", title: "Old trial" },
+      { id: "p2", title: "Meta-analysis" },
+      { id: "p3", title: "New RCT" },
+    ]);
+
+    const res = await GET(makeReq("c1"), makeParams("c1"));
+    const body = await res.json();
+
+    expect(mockPaperFindMany).toHaveBeenCalledWith({
+      where: { id: { in: ["p1", "p2", "p3"] } },
+      select: { id: true, title: true },
+    });
+    expect(body.versions).toHaveLength(2);
+    expect(body.versions[1]).toMatchObject({
+      version: 2,
+      outcome: "SUPPORTED",
+      confidence: 0.8,
+      evidenceCount: 3,
+      paperCount: 2,
+      addedPapers: [{ id: "p3", title: "New RCT" }],
+      removedPapers: [{ id: "p1", title: "Old trial" }],
+    });
+  });
+
+  it("returns 500 on unexpected error", async () => {
+    mockVerdictFindMany.mockRejectedValue(new Error("DB down"));
+    const res = await GET(makeReq("c1"), makeParams("c1"));
+    expect(res.status).toBe(500);
+  });
+});
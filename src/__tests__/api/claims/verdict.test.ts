@@ -8,6 +8,7 @@ import { NextRequest } from "next/server";
 
 const mockMarketFindUnique = vi.fn();
 const mockCreditEventFindFirst = vi.fn();
+const mockVerdictFindFirst = vi.fn();
 const mockAuth = vi.fn();
 
 vi.mock("@/lib/prisma", () => ({
@@ -16,6 +17,9 @@ vi.mock("@/lib/prisma", () => ({
     creditEvent: {
       findFirst: (...a: unknown[]) => mockCreditEventFindFirst(...a),
     },
+    verdict: {
+      findFirst: (...a: unknown[]) => mockVerdictFindFirst(...a),
+    },
   },
 }));
 
@@ -36,10 +40,47 @@ function makeParams(claimId: string) {
   return { params: Promise.resolve({ claimId }) };
 }
 
+const ACTIVE_MARKET = {
+  aiConfidence: 0.85,
+  aiVerdict: "YES",
+  consensusSummary: "Detailed summary from the market.",
+  lastDossierAt: new Date().toISOString(),
+  status: "ACTIVE",
+};
+
+const STORED_VERDICT = {
+  id: "v-2",
+  claimId: "c1",
+  version: 2,
+  outcome: "SUPPORTED",
+  confidence: 0.85,
+  effectDirection: "POSITIVE",
+  strengthOfEvidence: "STRONG",
+  shortSummary: "Creatine reliably improves strength.",
+  detailedSummary: "Meta-analyses show roughly 8% strength gains.",
+  keyFactors: ["Meta-analysis", "Large samples"],
+  caveats: ["Mostly male participants"],
+  whatWouldChangeVerdict: "A large null RCT.",
+  recommendedAction: "3-5g/day creatine monohydrate.",
+  evidenceCount: 12,
+  citations: [
+    {
+      key: "P1",
+      paperId: "paper-1",
+      chunkId: null,
+      paper: { title: "Creatine meta-analysis" },
+      chunk: null,
+    },
+  ],
+};
+
 // ── Tests ──────────────────────────────────────────────────────────────────
 
 describe("GET /api/claims/[claimId]/verdict", () => {
-  beforeEach(() => vi.clearAllMocks());
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockVerdictFindFirst.mockResolvedValue(STORED_VERDICT);
+  });
 
   it("returns 404 when market not found", async () => {
     mockMarketFindUnique.mockResolvedValue(null);
@@ -64,60 +105,47 @@ describe("GET /api/claims/[claimId]/verdict", () => {
     expect(body.status).toBe("RESEARCHING");
   });
 
-  it("returns free tier (short summary) for unauthenticated user", async () => {
-    mockMarketFindUnique.mockResolvedValue({
-      aiConfidence: 0.85,
-      aiVerdict: "YES",
-      consensusSummary:
-        "Creatine is well-supported for strength gains. Additional details here.",
-      lastDossierAt: new Date().toISOString(),
-      status: "ACTIVE",
-    });
+  it("returns stored free-tier fields for unauthenticated user", async () => {
+    mockMarketFindUnique.mockResolvedValue(ACTIVE_MARKET);
     mockAuth.mockResolvedValue(null);
 
     const res = await GET(makeReq("c1"), makeParams("c1"));
     const body = await res.json();
 
+    expect(mockVerdictFindFirst).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { claimId: "c1" },
+        orderBy: { version: "desc" },
+      }),
+    );
     expect(body.available).toBe(true);
     expect(body.verdict).toBe("Supported");
     expect(body.confidence).toBe(0.85);
     expect(body.unlocked).toBe(false);
-    expect(body.shortSummary).toBe(
-      "Creatine is well-supported for strength gains.",
-    );
+    expect(body.version).toBe(2);
+    expect(body.shortSummary).toBe("Creatine reliably improves strength.");
+    expect(body.strengthOfEvidence).toBe("STRONG");
+    expect(body.effectDirection).toBe("POSITIVE");
     expect(body.detailedSummary).toBeUndefined();
+    expect(body.caveats).toBeUndefined();
+    expect(body.citations).toBeUndefined();
   });
 
   it("returns free tier for authenticated user without unlock", async () => {
-    mockMarketFindUnique.mockResolvedValue({
-      aiConfidence: 0.3,
-      aiVerdict: "NO",
-      consensusSummary: "Evidence contradicts this claim.",
-      lastDossierAt: new Date().toISOString(),
-      status: "ACTIVE",
-    });
+    mockMarketFindUnique.mockResolvedValue(ACTIVE_MARKET);
     mockAuth.mockResolvedValue({ user: { id: "u1" } });
     mockCreditEventFindFirst.mockResolvedValue(null);
 
     const res = await GET(makeReq("c1"), makeParams("c1"));
     const body = await res.json();
 
-    expect(body.verdict).toBe("Contradicted");
     expect(body.unlocked).toBe(false);
-    expect(body.shortSummary).toBe("Evidence contradicts this claim.");
+    expect(body.shortSummary).toBe("Creatine reliably improves strength.");
     expect(body.detailedSummary).toBeUndefined();
   });
 
-  it("returns full detailed summary when unlocked", async () => {
-    const detailed =
-      "Creatine is well-supported for strength gains. The mechanism involves ATP regeneration. Multiple meta-analyses confirm this.";
-    mockMarketFindUnique.mockResolvedValue({
-      aiConfidence: 0.85,
-      aiVerdict: "YES",
-      consensusSummary: detailed,
-      lastDossierAt: new Date().toISOString(),
-      status: "ACTIVE",
-    });
+  it("returns the full stored analysis when unlocked", async () => {
+    mockMarketFindUnique.mockResolvedValue(ACTIVE_MARKET);
     mockAuth.mockResolvedValue({ user: { id: "u1" } });
     mockCreditEventFindFirst.mockResolvedValue({
       id: "ce-1",
@@ -128,11 +156,55 @@ describe("GET /api/claims/[claimId]/verdict", () => {
     const body = await res.json();
 
     expect(body.unlocked).toBe(true);
-    expect(body.detailedSummary).toBe(detailed);
-    expect(body.shortSummary).toBeUndefined();
+    expect(body.shortSummary).toBe(STORED_VERDICT.shortSummary);
+    expect(body.detailedSummary).toBe(STORED_VERDICT.detailedSummary);
+    expect(body.keyFactors).toEqual(STORED_VERDICT.keyFactors);
+    expect(body.caveats).toEqual(STORED_VERDICT.caveats);
+    expect(body.whatWouldChangeVerdict).toBe("A large null RCT.");
+    expect(body.recommendedAction).toBe("3-5g/day creatine monohydrate.");
+    expect(body.citations).toEqual([
+      {
+        key: "P1",
+        paperId: "paper-1",
+        chunkId: null,
+        paperTitle: "Creatine meta-analysis",
+        section: null,
+        excerpt: null,
+      },
+    ]);
+  });
+
+  it("labels the verdict from the stored outcome", async () => {
+    mockMarketFindUnique.mockResolvedValue({ ...ACTIVE_MARKET, aiVerdict: null });
+    mockVerdictFindFirst.mockResolvedValue({
+      ...STORED_VERDICT,
+      outcome: "INSUFFICIENT",
+      confidence: 0.6,
+    });
+    mockAuth.mockResolvedValue(null);
+
+    const res = await GET(makeReq("c1"), makeParams("c1"));
+    const body = await res.json();
+
+    expect(body.verdict).toBe("Insufficient");
   });
 
-  it("maps verdict labels correctly", async () => {
+  it("prefers the market outcome over the stored AI outcome", async () => {
+    mockMarketFindUnique.mockResolvedValue({
+      ...ACTIVE_MARKET,
+      aiVerdict: null,
+      aiOutcome: "MIXED",
+    });
+    mockAuth.mockResolvedValue(null);
+
+    const res = await GET(makeReq("c1"), makeParams("c1"));
+    const body = await res.json();
+
+    expect(body.verdict).toBe("Mixed");
+    expect(body.outcome).toBe("MIXED");
+  });
+
+  it("maps verdict labels for markets without a stored verdict", async () => {
     const cases: [string | null, number, string][] = [
       ["YES", 0.9, "Supported"],
       ["NO", 0.7, "Contradicted"],
@@ -142,35 +214,47 @@ describe("GET /api/claims/[claimId]/verdict", () => {
 
     for (const [aiVerdict, aiConfidence, expected] of cases) {
       vi.clearAllMocks();
+      mockVerdictFindFirst.mockResolvedValue(null);
       mockMarketFindUnique.mockResolvedValue({
+        ...ACTIVE_MARKET,
         aiConfidence,
         aiVerdict,
-        consensusSummary: "Test summary sentence.",
-        lastDossierAt: new Date().toISOString(),
-        status: "ACTIVE",
       });
       mockAuth.mockResolvedValue(null);
 
       const res = await GET(makeReq("c1"), makeParams("c1"));
       const body = await res.json();
       expect(body.verdict).toBe(expected);
+      expect(body.shortSummary).toBe("Detailed summary from the market.");
     }
   });
 
-  it("handles extractFirstSentence edge case with no text", async () => {
+  it("summarises the market's first sentence for free users without a stored verdict", async () => {
+    mockVerdictFindFirst.mockResolvedValue(null);
     mockMarketFindUnique.mockResolvedValue({
-      aiConfidence: 0.5,
-      aiVerdict: null,
-      consensusSummary: null,
-      lastDossierAt: new Date().toISOString(),
-      status: "ACTIVE",
+      ...ACTIVE_MARKET,
+      consensusSummary: "Creatine helps. Effects are larger in novices.",
     });
     mockAuth.mockResolvedValue(null);
 
     const res = await GET(makeReq("c1"), makeParams("c1"));
     const body = await res.json();
 
-    expect(body.shortSummary).toBe("No summary available.");
+    expect(body.shortSummary).toBe("Creatine helps.");
+    expect(body.detailedSummary).toBeUndefined();
+  });
+
+  it("falls back to the market summary when unlocked without a stored verdict", async () => {
+    mockVerdictFindFirst.mockResolvedValue(null);
+    mockMarketFindUnique.mockResolvedValue(ACTIVE_MARKET);
+    mockAuth.mockResolvedValue({ user: { id: "u1" } });
+    mockCreditEventFindFirst.mockResolvedValue({ id: "ce-1" });
+
+    const res = await GET(makeReq("c1"), makeParams("c1"));
+    const body = await res.json();
+
+    expect(body.detailedSummary).toBe("Detailed summary from the market.");
+    expect(body.keyFactors).toEqual([]);
   });
 
   it("returns 500 on unexpected error", async () => {
@@ -30,12 +30,16 @@ vi.mock("@/lib/auth", () => ({
 }));
 
 const mockSpendVoteCoins = vi.fn();
-vi.mock("@/lib/coin-service", () => ({
-  spendVoteCoins: (...args: unknown[]) => mockSpendVoteCoins(...args),
+const mockEscrowCoins = vi.fn();
+vi.mock("@/lib/coin-service", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/coin-service")>()),
+  applyVoteSpend: (...args: unknown[]) => mockSpendVoteCoins(...args),
+  applyEscrow: (...args: unknown[]) => mockEscrowCoins(...args),
 }));
 
 // Import AFTER mocks
 import { POST } from "@/app/api/claims/[claimId]/vote/route";
+import { CoinTransferError } from "@/lib/coin-service";
 
 // ── Helpers ────────────────────────────────────────────────────────────────
 
@@ -54,9 +58,28 @@ function makeParams(claimId: string) {
 const activeClaim = {
   id: "claim-1",
   title: "Creatine increases muscle mass",
-  market: { status: "ACTIVE" },
+  market: { id: "market-1", status: "ACTIVE" },
 };
 
+function mockVoteTransaction(side: string) {
+  mockTransaction.mockImplementation(async (fn: (tx: unknown) => unknown) => {
+    const tx = {
+      claimVote: {
+        create: vi.fn().mockResolvedValue({
+          id: "vote-staked",
+          side,
+          votedAt: new Date(),
+          revealAt: new Date(Date.now() + 6 * 60 * 60 * 1000),
+        }),
+      },
+      market: {
+        update: vi.fn().mockResolvedValue({}),
+      },
+    };
+    return fn(tx);
+  });
+}
+
 // ── Tests ──────────────────────────────────────────────────────────────────
 
 describe("POST /api/claims/[claimId]/vote", () => {
@@ -154,10 +177,10 @@ describe("POST /api/claims/[claimId]/vote", () => {
     mockAuth.mockResolvedValue({ user: { id: "user-1" } });
     mockClaimFindUnique.mockResolvedValue(activeClaim);
     mockVoteFindUnique.mockResolvedValue(null);
-    mockSpendVoteCoins.mockResolvedValue({
-      success: false,
-      error: "Insufficient credits: 0 available, 1 required",
-    });
+    mockSpendVoteCoins.mockRejectedValue(
+      new CoinTransferError("Insufficient credits: 0 available, 1 required"),
+    );
+    mockVoteTransaction("YES");
 
     const res = await POST(
       makeRequest("claim-1", { side: "YES" }),
@@ -210,22 +233,29 @@ describe("POST /api/claims/[claimId]/vote", () => {
     expect(json.vote.id).toBe("vote-new");
     expect(json.newBalance).toBe(4);
 
-    // Verify coin deduction was called
-    expect(mockSpendVoteCoins).toHaveBeenCalledWith("user-1", "claim-1");
+    // Verify coin deduction was called inside the transaction
+    expect(mockSpendVoteCoins).toHaveBeenCalledWith(
+      expect.objectContaining({ claimVote: expect.anything() }),
+      "user-1",
+      "claim-1",
+    );
 
     vi.useRealTimers();
   });
 
-  it("calls spendVoteCoins before creating the vote", async () => {
+  it("spends the vote coin before creating the vote", async () => {
     mockAuth.mockResolvedValue({ user: { id: "user-2" } });
     mockClaimFindUnique.mockResolvedValue(activeClaim);
     mockVoteFindUnique.mockResolvedValue(null);
 
-    // Coins fail → transaction should NOT be called
-    mockSpendVoteCoins.mockResolvedValue({
-      success: false,
-      error: "Insufficient credits",
-    });
+    // Coins fail → no vote is written
+    mockSpendVoteCoins.mockRejectedValue(
+      new CoinTransferError("Insufficient credits"),
+    );
+    const mockVoteCreate = vi.fn();
+    mockTransaction.mockImplementation(async (fn: (tx: unknown) => unknown) =>
+      fn({ claimVote: { create: mockVoteCreate }, market: { update: vi.fn() } }),
+    );
 
     await POST(
       makeRequest("claim-1", { side: "NO" }),
@@ -233,7 +263,7 @@ describe("POST /api/claims/[claimId]/vote", () => {
     );
 
     expect(mockSpendVoteCoins).toHaveBeenCalled();
-    expect(mockTransaction).not.toHaveBeenCalled();
+    expect(mockVoteCreate).not.toHaveBeenCalled();
   });
 
   it("accepts NO side", async () => {
@@ -273,6 +303,116 @@ describe("POST /api/claims/[claimId]/vote", () => {
     expect(json.vote.side).toBe("NO");
   });
 
+  it("escrows the stake on the chosen side", async () => {
+    mockAuth.mockResolvedValue({ user: { id: "user-1" } });
+    mockClaimFindUnique.mockResolvedValue(activeClaim);
+    mockVoteFindUnique.mockResolvedValue(null);
+    mockEscrowCoins.mockResolvedValue({ holdId: "hold-1", newBalance: 15 });
+    mockSpendVoteCoins.mockResolvedValue({
+      success: true,
+      newBalance: 14,
+      eventId: "evt-3",
+    });
+    mockVoteTransaction("NO");
+
+    const res = await POST(
+      makeRequest("claim-1", { side: "NO", stake: 5 }),
+      makeParams("claim-1"),
+    );
+
+    expect(res.status).toBe(201);
+    const json = await res.json();
+    expect(json.stake).toEqual({ holdId: "hold-1", amount: 5 });
+    expect(json.newBalance).toBe(14);
+    expect(mockEscrowCoins).toHaveBeenCalledWith(
+      expect.objectContaining({ claimVote: expect.anything() }),
+      "user-1",
+      "market-1",
+      5,
+      "NO",
+    );
+  });
+
+  it("does not escrow when no stake is given", async () => {
+    mockAuth.mockResolvedValue({ user: { id: "user-1" } });
+    mockClaimFindUnique.mockResolvedValue(activeClaim);
+    mockVoteFindUnique.mockResolvedValue(null);
+    mockSpendVoteCoins.mockResolvedValue({
+      success: true,
+      newBalance: 4,
+      eventId: "evt-4",
+    });
+    mockVoteTransaction("YES");
+
+    const res = await POST(
+      makeRequest("claim-1", { side: "YES" }),
+      makeParams("claim-1"),
+    );
+
+    expect(res.status).toBe(201);
+    expect((await res.json()).stake).toBeNull();
+    expect(mockEscrowCoins).not.toHaveBeenCalled();
+  });
+
+  it("returns 400 for an out-of-range stake", async () => {
+    mockAuth.mockResolvedValue({ user: { id: "user-1" } });
+
+    const res = await POST(
+      makeRequest("claim-1", { side: "YES", stake: 0 }),
+      makeParams("claim-1"),
+    );
+
+    expect(res.status).toBe(400);
+    expect(mockEscrowCoins).not.toHaveBeenCalled();
+  });
+
+  it("returns 400 without charging the vote when escrow fails", async () => {
+    mockAuth.mockResolvedValue({ user: { id: "user-1" } });
+    mockClaimFindUnique.mockResolvedValue(activeClaim);
+    mockVoteFindUnique.mockResolvedValue(null);
+    mockEscrowCoins.mockRejectedValue(
+      new CoinTransferError("Insufficient credits: 2 available, 10 required"),
+    );
+    mockVoteTransaction("YES");
+
+    const res = await POST(
+      makeRequest("claim-1", { side: "YES", stake: 10 }),
+      makeParams("claim-1"),
+    );
+
+    expect(res.status).toBe(400);
+    expect((await res.json()).error).toMatch(/insufficient/i);
+    expect(mockSpendVoteCoins).not.toHaveBeenCalled();
+  });
+
+  it("lets a user stake again after the vote coin could not be spent", async () => {
+    mockAuth.mockResolvedValue({ user: { id: "user-1" } });
+    mockClaimFindUnique.mockResolvedValue(activeClaim);
+    mockVoteFindUnique.mockResolvedValue(null);
+    mockEscrowCoins.mockResolvedValue({ holdId: "hold-2", newBalance: 1 });
+    mockSpendVoteCoins
+      .mockRejectedValueOnce(new CoinTransferError("Insufficient credits"))
+      .mockResolvedValueOnce({ success: true, newBalance: 0, eventId: "evt-5" });
+    mockVoteTransaction("YES");
+
+    const failed = await POST(
+      makeRequest("claim-1", { side: "YES", stake: 3 }),
+      makeParams("claim-1"),
+    );
+    expect(failed.status).toBe(400);
+
+    // The stake rolled back with the vote, so the retry escrows afresh
+    const retried = await POST(
+      makeRequest("claim-1", { side: "YES", stake: 3 }),
+      makeParams("claim-1"),
+    );
+
+    expect(retried.status).toBe(201);
+    expect((await retried.json()).stake).toEqual({ holdId: "hold-2", amount: 3 });
+    expect(mockEscrowCoins).toHaveBeenCalledTimes(2);
+    expect(mockTransaction).toHaveBeenCalledTimes(2);
+  });
+
   it("returns 500 on unexpected error", async () => {
     mockAuth.mockResolvedValue({ user: { id: "user-1" } });
     mockClaimFindUnique.mockRejectedValue(new Error("DB down"));
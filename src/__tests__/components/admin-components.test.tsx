@@ -1,5 +1,6 @@
 /**
- * Tests for Admin UI components: AdminClaimRow, AdminCreateClaim, AdminResolveModal
+ * Tests for Admin UI components: AdminClaimRow, AdminCreateClaim,
+ * AdminResolveModal, AdminSearchPlanModal, AdminCostSummary
  */
 import { describe, it, expect, vi, beforeEach } from "vitest";
 import { render, screen, fireEvent, waitFor } from "@testing-library/react";
@@ -7,6 +8,8 @@ import userEvent from "@testing-library/user-event";
 import { AdminClaimRow } from "@/components/admin/claim-row";
 import { AdminCreateClaim } from "@/components/admin/create-claim";
 import { AdminResolveModal } from "@/components/admin/resolve-modal";
+import { AdminSearchPlanModal } from "@/components/admin/search-plan-modal";
+import { AdminCostSummary } from "@/components/admin/cost-summary";
 
 // ── Test data ──────────────────────────────────────────────────────────────
 
@@ -119,6 +122,45 @@ describe("AdminClaimRow", () => {
     expect(screen.getByText("(88%)")).toBeInTheDocument();
   });
 
+  it("shows voided outcome for MIXED resolutions", () => {
+    const voided = {
+      ...resolvedClaim,
+      market: { ...resolvedClaim.market, aiVerdict: null, aiOutcome: "MIXED" },
+    };
+    renderRow(voided);
+    expect(screen.getByText("VOID (MIXED)")).toBeInTheDocument();
+  });
+
+  it("flags a verdict whose confidence disagrees with the evidence weights", () => {
+    const flagged = {
+      ...resolvedClaim,
+      market: {
+        ...resolvedClaim.market,
+        aiRuleConfidence: 0.4,
+        aiConfidenceFlagged: true,
+      },
+    };
+    renderRow(flagged);
+    expect(screen.getByText("Review confidence")).toHaveAttribute(
+      "title",
+      "LLM confidence 88% vs 40% from evidence weights",
+    );
+  });
+
+  it("shows no confidence flag by default", () => {
+    renderRow(resolvedClaim);
+    expect(screen.queryByText("Review confidence")).not.toBeInTheDocument();
+  });
+
+  it("flags a verdict that cites a since-retracted paper", () => {
+    const flagged = {
+      ...resolvedClaim,
+      market: { ...resolvedClaim.market, retractionFlagged: true },
+    };
+    renderRow(flagged);
+    expect(screen.getByText("Cites retracted paper")).toBeInTheDocument();
+  });
+
   it("shows Delete button for all claims", () => {
     renderRow(activeClaim);
     expect(screen.getByText("Delete")).toBeInTheDocument();
@@ -142,6 +184,28 @@ describe("AdminClaimRow", () => {
     expect(mockStatusChange).toHaveBeenCalledWith("claim-3", "ACTIVE");
   });
 
+  it("shows a Queries button only when onEditQueries is given", async () => {
+    renderRow(activeClaim);
+    expect(screen.queryByText("Queries")).not.toBeInTheDocument();
+
+    const onEditQueries = vi.fn();
+    render(
+      <table>
+        <tbody>
+          <AdminClaimRow
+            claim={activeClaim}
+            onDelete={mockDelete}
+            onStatusChange={mockStatusChange}
+            onResolve={mockResolve}
+            onEditQueries={onEditQueries}
+          />
+        </tbody>
+      </table>,
+    );
+    fireEvent.click(screen.getByText("Queries"));
+    expect(onEditQueries).toHaveBeenCalled();
+  });
+
   it("shows vote percentages", () => {
     renderRow(activeClaim);
     expect(screen.getByText("(89%)")).toBeInTheDocument(); // 100/112 ≈ 89%
@@ -246,6 +310,10 @@ describe("AdminResolveModal", () => {
     expect(screen.getByText(claim.title)).toBeInTheDocument();
     expect(screen.getByText("YES — Supported")).toBeInTheDocument();
     expect(screen.getByText("NO — Refuted")).toBeInTheDocument();
+    expect(screen.getByText("MIXED — Void, refund coins")).toBeInTheDocument();
+    expect(
+      screen.getByText("INSUFFICIENT — Void, refund coins"),
+    ).toBeInTheDocument();
     expect(screen.getByLabelText(/Confidence/)).toBeInTheDocument();
     expect(screen.getByLabelText(/Consensus Summary/)).toBeInTheDocument();
   });
@@ -292,6 +360,8 @@ describe("AdminResolveModal", () => {
         expect.objectContaining({ method: "POST" }),
       );
     });
+    const [, init] = (global.fetch as any).mock.calls[0];
+    expect(JSON.parse(init.body).outcome).toBe("SUPPORTED");
 
     await waitFor(() => {
       expect(mockResolved).toHaveBeenCalled();
@@ -324,3 +394,225 @@ describe("AdminResolveModal", () => {
     });
   });
 });
+
+// ── AdminSearchPlanModal ───────────────────────────────────────────────────
+
+describe("AdminSearchPlanModal", () => {
+  const mockClose = vi.fn();
+  const mockRerun = vi.fn();
+  const claim = { id: "claim-1", title: "Creatine increases muscle mass" };
+  const loaded = {
+    jobId: "dj-1",
+    status: "SUCCEEDED",
+    searchPlan: {
+      source: "llm",
+      pico: {
+        population: null,
+        intervention: { term: "creatine", meshTerms: ["Creatine"], synonyms: [] },
+        comparator: null,
+        outcome: { term: "muscle mass", meshTerms: [], synonyms: [] },
+      },
+      pubmedQuery: '"Creatine"[MeSH Terms]',
+      semanticScholarQueries: ["creatine muscle mass", "creatine lean mass"],
+      arxivQuery: "creatine muscle mass",
+      arxivCategories: ["q-bio.QM"],
+    },
+    paperSources: ["pubmed", "semanticScholar", "arxiv"],
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    global.fetch = vi.fn();
+  });
+
+  it("loads and shows the stored plan with its PICO breakdown", async () => {
+    (global.fetch as any).mockResolvedValue({
+      ok: true,
+      json: () => Promise.resolve(loaded),
+    });
+
+    render(
+      <AdminSearchPlanModal claim={claim} onClose={mockClose} onRerun={mockRerun} />,
+    );
+
+    await waitFor(() => {
+      expect(screen.getByLabelText("PubMed query")).toHaveValue(
+        '"Creatine"[MeSH Terms]',
+      );
+    });
+    expect(global.fetch).toHaveBeenCalledWith(
+      "/api/admin/claims/claim-1/search-plan",
+    );
+    expect(screen.getByText(/Planned by the LLM/)).toBeInTheDocument();
+    expect(screen.getByText("[MeSH: Creatine]")).toBeInTheDocument();
+    expect(screen.getByLabelText(/Semantic Scholar queries/)).toHaveValue(
+      "creatine muscle mass\ncreatine lean mass",
+    );
+    expect(screen.getByLabelText("q-bio.QM")).toBeChecked();
+    expect(screen.getByLabelText("stat.AP")).not.toBeChecked();
+    expect(screen.getByLabelText("PubMed")).toBeChecked();
+    expect(screen.getByLabelText("ClinicalTrials.gov")).not.toBeChecked();
+  });
+
+  it("submits the edited queries and calls onRerun", async () => {
+    const user = userEvent.setup();
+    (global.fetch as any)
+      .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(loaded) })
+      .mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve({ jobId: "dj-2" }),
+      });
+
+    render(
+      <AdminSearchPlanModal claim={claim} onClose={mockClose} onRerun={mockRerun} />,
+    );
+
+    const pubmed = await screen.findByLabelText("PubMed query");
+    await waitFor(() => expect(pubmed).toHaveValue('"Creatine"[MeSH Terms]'));
+    fireEvent.change(pubmed, { target: { value: "creatine[tiab]" } });
+    await user.click(screen.getByLabelText("stat.AP"));
+    await user.click(screen.getByLabelText("arXiv"));
+    await user.click(screen.getByLabelText("Europe PMC"));
+    await user.click(screen.getByRole("button", { name: "Save & Re-run" }));
+
+    await waitFor(() => expect(mockRerun).toHaveBeenCalled());
+    const [url, init] = (global.fetch as any).mock.calls[1];
+    expect(url).toBe("/api/admin/claims/claim-1/search-plan");
+    expect(JSON.parse(init.body)).toEqual({
+      pubmedQuery: "creatine[tiab]",
+      semanticScholarQueries: ["creatine muscle mass", "creatine lean mass"],
+      arxivQuery: "creatine muscle mass",
+      arxivCategories: ["q-bio.QM", "stat.AP"],
+      paperSources: ["pubmed", "semanticScholar", "europePmc"],
+    });
+  });
+
+  it("needs a source that searches before re-running", async () => {
+    const user = userEvent.setup();
+    (global.fetch as any).mockResolvedValue({
+      ok: true,
+      json: () => Promise.resolve({ ...loaded, paperSources: ["pubmed"] }),
+    });
+
+    render(
+      <AdminSearchPlanModal claim={claim} onClose={mockClose} onRerun={mockRerun} />,
+    );
+
+    await user.click(await screen.findByLabelText("Crossref metadata"));
+    await user.click(screen.getByLabelText("PubMed"));
+
+    expect(screen.getByRole("button", { name: "Save & Re-run" })).toBeDisabled();
+  });
+
+  it("shows the API error when re-running fails", async () => {
+    const user = userEvent.setup();
+    (global.fetch as any)
+      .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(loaded) })
+      .mockResolvedValueOnce({
+        ok: false,
+        json: () =>
+          Promise.resolve({
+            error: "Research is already in progress for this claim",
+          }),
+      });
+
+    render(
+      <AdminSearchPlanModal claim={claim} onClose={mockClose} onRerun={mockRerun} />,
+    );
+
+    await user.click(await screen.findByRole("button", { name: "Save & Re-run" }));
+
+    await waitFor(() => {
+      expect(
+        screen.getByText("Research is already in progress for this claim"),
+      ).toBeInTheDocument();
+    });
+    expect(mockRerun).not.toHaveBeenCalled();
+  });
+});
+
+// ── AdminCostSummary ───────────────────────────────────────────────────────
+
+describe("AdminCostSummary", () => {
+  const totals = { costUsd: 0.42, promptTokens: 90_000, completionTokens: 10_000, runs: 3 };
+  const summary = {
+    today: totals,
+    month: { ...totals, costUsd: 170, runs: 400 },
+    budgets: { jobUsd: 0.5, monthlyUsd: 200 },
+    daily: [
+      { date: "2026-03-14", ...totals, costUsd: 8.5 },
+      { date: "2026-03-15", ...totals, costUsd: 0.3 },
+    ],
+    monthly: [{ month: "2026-03", ...totals, costUsd: 170, runs: 400 }],
+    byStage: [
+      { stage: "EXTRACTION", model: "gpt-4o-mini", costUsd: 150, calls: 6000 },
+      { stage: "EMBEDDING", model: "text-embedding-3-small", costUsd: 0.004, calls: 900 },
+    ],
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    global.fetch = vi.fn();
+  });
+
+  it("shows today's and this month's spend against the budget", async () => {
+    (global.fetch as any).mockResolvedValue({
+      ok: true,
+      json: () => Promise.resolve(summary),
+    });
+
+    render(<AdminCostSummary />);
+
+    expect(await screen.findByText("$0.42")).toBeInTheDocument();
+    expect(global.fetch).toHaveBeenCalledWith("/api/admin/costs");
+    expect(screen.getByText("100,000 tokens · 3 runs")).toBeInTheDocument();
+    expect(screen.getByText(/of \$200\.00/)).toBeInTheDocument();
+    expect(screen.getByText("Per-run budget $0.50")).toBeInTheDocument();
+    expect(
+      screen.getByRole("progressbar", { name: "Monthly budget used" }),
+    ).toHaveAttribute("aria-valuenow", "85");
+  });
+
+  it("lists daily, monthly and per-stage totals", async () => {
+    (global.fetch as any).mockResolvedValue({
+      ok: true,
+      json: () => Promise.resolve(summary),
+    });
+
+    render(<AdminCostSummary />);
+
+    expect(await screen.findByText("2026-03-14")).toBeInTheDocument();
+    expect(screen.getByText("$8.50")).toBeInTheDocument();
+    expect(screen.getByText("2026-03")).toBeInTheDocument();
+    expect(screen.getByText("Extraction")).toBeInTheDocument();
+    expect(screen.getByText("$0.0040")).toBeInTheDocument();
+  });
+
+  it("hides the budget without one", async () => {
+    (global.fetch as any).mockResolvedValue({
+      ok: true,
+      json: () =>
+        Promise.resolve({ ...summary, budgets: { jobUsd: null, monthlyUsd: null } }),
+    });
+
+    render(<AdminCostSummary />);
+
+    await screen.findByText("This month");
+    expect(screen.queryByRole("progressbar")).not.toBeInTheDocument();
+    expect(screen.queryByText(/Per-run budget/)).not.toBeInTheDocument();
+  });
+
+  it("shows an error when costs can't be loaded", async () => {
+    (global.fetch as any).mockResolvedValue({
+      ok: false,
+      status: 403,
+      json: () => Promise.resolve({ error: "Forbidden" }),
+    });
+
+    render(<AdminCostSummary />);
+
+    expect(
+      await screen.findByText("Could not load LLM costs: Forbidden"),
+    ).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Tests for CitedSummary component.
+ */
+import { describe, it, expect } from "vitest";
+import { render, screen, within } from "@testing-library/react";
+import { CitedSummary, evidenceAnchorId } from "@/components/cited-summary";
+import type { ResolvedCitation } from "@/lib/citations";
+
+// ── Fixtures ───────────────────────────────────────────────────────────────
+
+const CITATIONS: ResolvedCitation[] = [
+  {
+    key: "P1",
+    paperId: "paper-1",
+    chunkId: null,
+    paperTitle: "Creatine meta-analysis",
+    section: null,
+    excerpt: null,
+  },
+  {
+    key: "P1.2",
+    paperId: "paper-1",
+    chunkId: "chunk-2",
+    paperTitle: "Creatine meta-analysis",
+    section: "results",
+    excerpt: "Strength rose 8%.",
+  },
+  {
+    key: "P2",
+    paperId: "paper-2",
+    chunkId: null,
+    paperTitle: "Null RCT in older adults",
+    section: null,
+    excerpt: null,
+  },
+];
+
+// ── Tests ──────────────────────────────────────────────────────────────────
+
+describe("CitedSummary", () => {
+  it("replaces markers with footnotes numbered per paper", () => {
+    render(
+      <CitedSummary
+        text="Strength rose [P1.2]. One trial disagreed [P2]. Meta-analyses agree [P1]."
+        citations={CITATIONS}
+      />,
+    );
+
+    const links = screen.getAllByTestId("citation-link");
+    expect(links.map((a) => a.textContent)).toEqual(["1", "2", "1"]);
+    expect(links.map((a) => a.getAttribute("href"))).toEqual([
+      "#evidence-paper-1",
+      "#evidence-paper-2",
+      "#evidence-paper-1",
+    ]);
+    expect(screen.queryByText(/\[P/)).toBeNull();
+  });
+
+  it("shows the cited passage in the excerpt tooltip", () => {
+    render(<CitedSummary text="Strength rose [P1.2]." citations={CITATIONS} />);
+    expect(screen.getByTestId("citation-link")).toHaveAttribute(
+      "title",
+      "Creatine meta-analysis (Results): “Strength rose 8%.”",
+    );
+  });
+
+  it("numbers a paper once when a marker cites several of its excerpts", () => {
+    render(
+      <CitedSummary
+        text="Strength rose [P1.1, P1.2, P2]."
+        citations={[
+          ...CITATIONS,
+          {
+            key: "P1.1",
+            paperId: "paper-1",
+            chunkId: "chunk-1",
+            paperTitle: "Creatine meta-analysis",
+            section: "abstract",
+            excerpt: "Twelve trials were pooled.",
+          },
+        ]}
+      />,
+    );
+
+    const links = screen.getAllByTestId("citation-link");
+    expect(links.map((a) => a.textContent)).toEqual(["1", "2"]);
+    expect(links[0].getAttribute("title")).toContain("Twelve trials were pooled.");
+    expect(links[0].getAttribute("title")).toContain("Strength rose 8%.");
+  });
+
+  it("lists each cited paper once under the summary", () => {
+    render(
+      <CitedSummary text="A [P1.2, P2]. B [P1]." citations={CITATIONS} />,
+    );
+    const footnotes = screen.getByTestId("citation-footnotes");
+    expect(
+      within(footnotes)
+        .getAllByRole("listitem")
+        .map((li) => li.textContent),
+    ).toEqual(["Creatine meta-analysis", "Null RCT in older adults"]);
+  });
+
+  it("drops markers with no stored citation", () => {
+    render(<CitedSummary text="Unsupported [P9]." citations={CITATIONS} />);
+    expect(screen.getByText("Unsupported.")).toBeInTheDocument();
+    expect(screen.queryByTestId("citation-link")).toBeNull();
+    expect(screen.queryByTestId("citation-footnotes")).toBeNull();
+  });
+
+  it("builds evidence anchor ids from the paper id", () => {
+    expect(evidenceAnchorId("abc")).toBe("evidence-abc");
+  });
+});
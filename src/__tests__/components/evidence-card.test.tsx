@@ -3,7 +3,11 @@
  */
 import { describe, it, expect } from "vitest";
 import { render, screen } from "@testing-library/react";
-import { EvidenceCard, type EvidenceCardData } from "@/components/evidence-card";
+import {
+  EvidenceCard,
+  formatEffect,
+  type EvidenceCardData,
+} from "@/components/evidence-card";
 
 // ── Helpers ────────────────────────────────────────────────────────────────
 
@@ -113,6 +117,49 @@ describe("EvidenceCard", () => {
     expect(screen.queryByText("View paper →")).toBeNull();
   });
 
+  it("says which review a snowballed paper was found from", () => {
+    render(
+      <EvidenceCard
+        evidence={makeEvidence({
+          foundVia: {
+            link: "citation",
+            paperId: "p-seed",
+            paperTitle: "Creatine and strength: a meta-analysis",
+          },
+        })}
+      />,
+    );
+    expect(screen.getByTestId("found-via")).toHaveTextContent(
+      "Found via citation of Creatine and strength: a meta-analysis",
+    );
+  });
+
+  it("shows no provenance for papers found by search", () => {
+    render(<EvidenceCard evidence={makeEvidence({ foundVia: null })} />);
+    expect(screen.queryByTestId("found-via")).toBeNull();
+  });
+
+  it("badges a retracted paper, linking the notice", () => {
+    render(
+      <EvidenceCard
+        evidence={makeEvidence({
+          retraction: {
+            status: "RETRACTED",
+            noticeUrl: "https://pubmed.ncbi.nlm.nih.gov/99999/",
+          },
+        })}
+      />,
+    );
+    const badge = screen.getByTestId("retraction-badge");
+    expect(badge).toHaveTextContent("Retracted");
+    expect(badge).toHaveAttribute("href", "https://pubmed.ncbi.nlm.nih.gov/99999/");
+  });
+
+  it("shows no retraction badge for papers in good standing", () => {
+    render(<EvidenceCard evidence={makeEvidence({ retraction: null })} />);
+    expect(screen.queryByTestId("retraction-badge")).toBeNull();
+  });
+
   it("hides stance badge when stance is null", () => {
     render(<EvidenceCard evidence={makeEvidence({ stance: null })} />);
     expect(screen.queryByTestId("stance-badge")).toBeNull();
@@ -123,8 +170,54 @@ describe("EvidenceCard", () => {
     expect(screen.getByText("75%")).toBeInTheDocument();
   });
 
+  it("shows population, duration and effect", () => {
+    render(
+      <EvidenceCard
+        evidence={makeEvidence({
+          population: "trained adults",
+          duration: "8 weeks",
+          effectSize: "+1.4 kg lean mass",
+          effect: { measure: "MD", value: 1.4, ciLower: 0.8, ciUpper: 2 },
+        })}
+      />,
+    );
+    expect(screen.getByText("trained adults")).toBeInTheDocument();
+    expect(screen.getByText("8 weeks")).toBeInTheDocument();
+    expect(screen.getByText("+1.4 kg lean mass")).toBeInTheDocument();
+    expect(
+      screen.getByText("Mean difference 1.4 (95% CI 0.8 to 2)"),
+    ).toBeInTheDocument();
+  });
+
+  it("hides study details when none were extracted", () => {
+    render(<EvidenceCard evidence={makeEvidence()} />);
+    expect(screen.queryByTestId("evidence-details")).toBeNull();
+  });
+
   it("has data-testid evidence-card on wrapper", () => {
     render(<EvidenceCard evidence={makeEvidence()} />);
     expect(screen.getByTestId("evidence-card")).toBeInTheDocument();
   });
+
+  it("is the anchor target for verdict citation footnotes", () => {
+    render(<EvidenceCard evidence={makeEvidence()} />);
+    expect(screen.getByTestId("evidence-card")).toHaveAttribute(
+      "id",
+      "evidence-p-1",
+    );
+  });
+});
+
+describe("formatEffect", () => {
+  it("labels the measure and rounds the estimate", () => {
+    expect(
+      formatEffect({ measure: "SMD", value: 0.456, ciLower: 0.123, ciUpper: 0.789 }),
+    ).toBe("SMD 0.46 (95% CI 0.12 to 0.79)");
+    expect(
+      formatEffect({ measure: "RR", value: 0.8, ciLower: null, ciUpper: null }),
+    ).toBe("Risk ratio 0.8");
+    expect(
+      formatEffect({ measure: "PERCENT_CHANGE", value: -2.1, ciLower: null, ciUpper: null }),
+    ).toBe("Change -2.1%");
+  });
 });
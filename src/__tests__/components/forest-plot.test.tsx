@@ -0,0 +1,137 @@
+/**
+ * Tests for ForestPlot component.
+ */
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen, waitFor } from "@testing-library/react";
+
+// ── Mocks ──────────────────────────────────────────────────────────────────
+
+// recharts measures the DOM, which jsdom can't do — render a stub chart
+// with one element per stance series
+vi.mock("recharts", () => {
+  const Stub = ({ children }: { children?: React.ReactNode }) => (
+    <div>{children}</div>
+  );
+  return {
+    ResponsiveContainer: Stub,
+    ScatterChart: Stub,
+    Scatter: ({ name, data }: { name: string; data: unknown[] }) => (
+      <div data-testid={`series-${name}`} data-points={data.length} />
+    ),
+    ErrorBar: () => null,
+    XAxis: () => null,
+    YAxis: () => null,
+    ZAxis: () => null,
+    ReferenceLine: () => null,
+    Tooltip: () => null,
+    Legend: () => null,
+  };
+});
+
+const mockFetch = vi.fn();
+vi.stubGlobal("fetch", mockFetch);
+
+import { ForestPlot } from "@/components/forest-plot";
+
+function study(id: string, overrides: Record<string, unknown> = {}) {
+  return {
+    claimPaperId: `cp-${id}`,
+    paperId: `p-${id}`,
+    paperTitle: `Trial ${id}`,
+    publishedYear: 2022,
+    studyType: "RCT",
+    stance: "SUPPORTS",
+    sampleSize: 1200,
+    effect: { measure: "SMD", value: 0.4, ciLower: 0.1, ciUpper: 0.7 },
+    value: 0.4,
+    ciLower: 0.1,
+    ciUpper: 0.7,
+    approximate: false,
+    ...overrides,
+  };
+}
+
+const SMD_PLOT = {
+  scale: "SMD",
+  label: "Standardised mean difference",
+  studies: [
+    study("a"),
+    study("b", { stance: "REFUTES" }),
+    study("c", {
+      stance: "SUPPORTS",
+      sampleSize: null,
+      effect: { measure: "RR", value: 0.8, ciLower: null, ciUpper: null },
+      value: -0.123,
+      ciLower: null,
+      ciUpper: null,
+      approximate: true,
+    }),
+  ],
+};
+
+function mockEffects(plots: unknown[]) {
+  mockFetch.mockResolvedValueOnce({
+    ok: true,
+    json: async () => ({ claimId: "c1", count: 0, plots }),
+  });
+}
+
+// ── Tests ──────────────────────────────────────────────────────────────────
+
+describe("ForestPlot", () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  it("renders nothing without quantitative evidence", async () => {
+    mockEffects([]);
+    const { container } = render(<ForestPlot claimId="c1" />);
+    await waitFor(() => expect(mockFetch).toHaveBeenCalled());
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it("plots one series per stance present", async () => {
+    mockEffects([SMD_PLOT]);
+    render(<ForestPlot claimId="c1" />);
+
+    await waitFor(() => {
+      expect(screen.getByTestId("forest-plot")).toBeInTheDocument();
+    });
+    expect(mockFetch).toHaveBeenCalledWith("/api/claims/c1/effects");
+    expect(screen.getByTestId("series-Supports")).toHaveAttribute("data-points", "2");
+    expect(screen.getByTestId("series-Refutes")).toHaveAttribute("data-points", "1");
+    expect(screen.queryByTestId("series-Neutral")).toBeNull();
+  });
+
+  it("lists each study with its reported estimate and flags conversions", async () => {
+    mockEffects([SMD_PLOT]);
+    render(<ForestPlot claimId="c1" />);
+
+    await waitFor(() => {
+      expect(screen.getAllByTestId("forest-plot-study")).toHaveLength(3);
+    });
+    const [first, , converted] = screen.getAllByTestId("forest-plot-study");
+    expect(first).toHaveTextContent("Trial a (2022) · n=1,200 · SMD 0.4 (95% CI 0.1 to 0.7)");
+    expect(converted).toHaveTextContent("Risk ratio 0.8 *");
+    expect(screen.getByText(/converted as if an odds ratio/)).toBeInTheDocument();
+  });
+
+  it("draws a separate plot per scale", async () => {
+    mockEffects([
+      SMD_PLOT,
+      { scale: "PERCENT_CHANGE", label: "Change (%)", studies: [study("d")] },
+    ]);
+    render(<ForestPlot claimId="c1" />);
+
+    await waitFor(() => {
+      expect(screen.getByTestId("forest-plot-PERCENT_CHANGE")).toBeInTheDocument();
+    });
+    expect(screen.getByTestId("forest-plot-SMD")).toBeInTheDocument();
+    expect(screen.getByText("Change (%)")).toBeInTheDocument();
+  });
+
+  it("renders nothing when the request fails", async () => {
+    mockFetch.mockRejectedValueOnce(new Error("network"));
+    const { container } = render(<ForestPlot claimId="c1" />);
+    await waitFor(() => expect(mockFetch).toHaveBeenCalled());
+    expect(container).toBeEmptyDOMElement();
+  });
+});
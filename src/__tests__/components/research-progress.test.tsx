@@ -11,6 +11,26 @@ vi.stubGlobal("fetch", mockFetch);
 
 import { ResearchProgress } from "@/components/research-progress";
 
+/** Stands in for the browser's EventSource, which jsdom lacks */
+class FakeEventSource {
+  static instances: FakeEventSource[] = [];
+  onmessage: ((event: { data: string }) => void) | null = null;
+  onerror: (() => void) | null = null;
+  closed = false;
+
+  constructor(public url: string) {
+    FakeEventSource.instances.push(this);
+  }
+
+  close() {
+    this.closed = true;
+  }
+
+  emit(data: object) {
+    act(() => this.onmessage?.({ data: JSON.stringify(data) }));
+  }
+}
+
 // ── Tests ──────────────────────────────────────────────────────────────────
 
 describe("ResearchProgress", () => {
@@ -181,4 +201,117 @@ describe("ResearchProgress", () => {
       screen.getByText("Failed to check research status"),
     ).toBeInTheDocument();
   });
+
+  // ── Live events ────────────────────────────────────────────────────────
+
+  describe("with live events", () => {
+    const running = { status: "RUNNING", progress: 15, stepLabel: "Searching papers" };
+
+    beforeEach(() => {
+      FakeEventSource.instances = [];
+      vi.stubGlobal("EventSource", FakeEventSource);
+      mockFetch.mockResolvedValue({ ok: true, json: async () => running });
+    });
+
+    afterEach(() => {
+      vi.stubGlobal("EventSource", undefined);
+    });
+
+    async function renderStreaming(props: { onComplete?: () => void } = {}) {
+      render(<ResearchProgress claimId="c1" pollInterval={1000} {...props} />);
+      await act(async () => {
+        await vi.advanceTimersByTimeAsync(0);
+      });
+      const [stream] = FakeEventSource.instances;
+      stream.emit({ type: "snapshot", jobId: "job-1", ...running });
+      return stream;
+    }
+
+    it("follows an active run over the stream instead of polling", async () => {
+      const stream = await renderStreaming();
+
+      expect(stream.url).toBe("/api/claims/c1/research/events");
+      await act(async () => {
+        await vi.advanceTimersByTimeAsync(5000);
+      });
+      expect(mockFetch).toHaveBeenCalledOnce();
+
+      stream.emit({ type: "stage", stage: "EXTRACTION", label: "Extracting evidence", progress: 60 });
+      stream.emit({
+        type: "sources",
+        counts: [
+          { source: "PubMed", papers: 12 },
+          { source: "arXiv", papers: 3 },
+        ],
+      });
+
+      expect(screen.getByText("Extracting evidence")).toBeInTheDocument();
+      expect(screen.getByText("60%")).toBeInTheDocument();
+      expect(screen.getByTestId("source-counts")).toHaveTextContent(
+        "Found 12 on PubMed · 3 on arXiv",
+      );
+    });
+
+    it("shows evidence cards as papers are extracted", async () => {
+      const stream = await renderStreaming();
+
+      stream.emit({
+        type: "evidence",
+        evidence: {
+          paperId: "p1",
+          paperTitle: "Creatine and Strength: A Meta-Analysis",
+          studyType: "Meta-analysis",
+          stance: "SUPPORTS",
+          summary: "Creatine increases strength by 8%.",
+          confidenceScore: 0.85,
+          evidenceWeight: 1,
+        },
+      });
+      stream.emit({ type: "error", message: "Rate limited", paperTitle: "Paper B" });
+
+      expect(screen.getByTestId("live-evidence")).toBeInTheDocument();
+      expect(screen.getByText("Evidence so far (1)")).toBeInTheDocument();
+      expect(screen.getByText("Creatine and Strength: A Meta-Analysis")).toBeInTheDocument();
+      expect(screen.getByText("Creatine increases strength by 8%.")).toBeInTheDocument();
+      expect(screen.getByText("Could not extract evidence from 1 paper")).toBeInTheDocument();
+    });
+
+    it("closes the stream and calls onComplete when the run is done", async () => {
+      const onComplete = vi.fn();
+      const stream = await renderStreaming({ onComplete });
+
+      stream.emit({ type: "done", outcome: "SUPPORTED" });
+
+      expect(stream.closed).toBe(true);
+      expect(onComplete).toHaveBeenCalledOnce();
+      expect(screen.getByTestId("research-complete")).toBeInTheDocument();
+    });
+
+    it("shows a retry, then the failure once the run gives up", async () => {
+      const stream = await renderStreaming();
+
+      stream.emit({ type: "error", message: "DB connection lost", retrying: true });
+      expect(screen.getByText("Research queued")).toBeInTheDocument();
+      expect(screen.getByText("Queued to retry")).toBeInTheDocument();
+      expect(stream.closed).toBe(false);
+
+      stream.emit({ type: "error", message: "DB connection lost", retrying: false });
+      expect(stream.closed).toBe(true);
+      expect(screen.getByTestId("research-failed")).toBeInTheDocument();
+      expect(screen.getByText("DB connection lost")).toBeInTheDocument();
+    });
+
+    it("falls back to polling when the stream fails", async () => {
+      const stream = await renderStreaming();
+
+      act(() => stream.onerror?.());
+      await act(async () => {
+        await vi.advanceTimersByTimeAsync(2000);
+      });
+
+      expect(stream.closed).toBe(true);
+      expect(mockFetch).toHaveBeenCalledTimes(4);
+      expect(FakeEventSource.instances).toHaveLength(1);
+    });
+  });
 });
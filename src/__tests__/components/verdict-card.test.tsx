@@ -74,6 +74,23 @@ describe("VerdictCard", () => {
     expect(screen.getByTestId("confidence-bar")).toBeInTheDocument();
   });
 
+  it.each([
+    ["Supported", "The evidence supports this claim.", "bg-green-100"],
+    ["Contradicted", "The evidence contradicts this claim.", "bg-red-100"],
+    ["Mixed", "Studies disagree — there is no clear answer yet.", "bg-yellow-100"],
+    ["Insufficient", "There isn't enough good evidence to judge this claim.", "bg-gray-100"],
+  ])("renders the %s state", (label, description, color) => {
+    render(
+      <VerdictCard
+        claimId="c1"
+        initialData={{ available: true, verdict: label, confidence: 0.6 }}
+      />,
+    );
+    expect(screen.getByTestId("verdict-badge")).toHaveTextContent(label);
+    expect(screen.getByTestId("verdict-badge").className).toContain(color);
+    expect(screen.getByTestId("verdict-description")).toHaveTextContent(description);
+  });
+
   it("shows unlock button for authenticated users on free tier", async () => {
     mockSession = { user: { id: "u1" } };
     mockStatus = "authenticated";
@@ -139,6 +156,70 @@ describe("VerdictCard", () => {
     expect(screen.queryByTestId("unlock-button")).toBeNull();
   });
 
+  it("renders structured verdict fields", async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        available: true,
+        verdict: "Supported",
+        confidence: 0.9,
+        unlocked: true,
+        strengthOfEvidence: "VERY_WEAK",
+        effectDirection: "POSITIVE",
+        detailedSummary: "Full analysis.",
+        keyFactors: ["Meta-analysis"],
+        caveats: ["Mostly male participants"],
+        whatWouldChangeVerdict: "A large null RCT.",
+        recommendedAction: "Take 3-5g/day.",
+      }),
+    });
+
+    render(<VerdictCard claimId="c1" />);
+    await waitFor(() => {
+      expect(screen.getByTestId("deep-analysis")).toBeInTheDocument();
+    });
+    expect(screen.getByTestId("evidence-strength")).toHaveTextContent(
+      "Evidence strength: Very weak · Effect: Positive",
+    );
+    expect(screen.getByText("Meta-analysis")).toBeInTheDocument();
+    expect(screen.getByText("Mostly male participants")).toBeInTheDocument();
+    expect(screen.getByText("A large null RCT.")).toBeInTheDocument();
+    expect(screen.getByText("Take 3-5g/day.")).toBeInTheDocument();
+  });
+
+  it("renders citation markers in the detailed summary as footnotes", async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        available: true,
+        verdict: "Supported",
+        confidence: 0.9,
+        unlocked: true,
+        detailedSummary: "Strength rose 8% [P1.1].",
+        citations: [
+          {
+            key: "P1.1",
+            paperId: "paper-1",
+            chunkId: "chunk-1",
+            paperTitle: "Creatine meta-analysis",
+            section: "results",
+            excerpt: "Strength rose 8%.",
+          },
+        ],
+      }),
+    });
+
+    render(<VerdictCard claimId="c1" />);
+    await waitFor(() => {
+      expect(screen.getByTestId("citation-link")).toBeInTheDocument();
+    });
+    expect(screen.getByTestId("deep-analysis")).not.toHaveTextContent("[P1.1]");
+    expect(screen.getByTestId("citation-link")).toHaveAttribute(
+      "href",
+      "#evidence-paper-1",
+    );
+  });
+
   it("handles unlock flow (click → success → refetch)", async () => {
     const user = userEvent.setup();
     mockSession = { user: { id: "u1" } };
@@ -0,0 +1,109 @@
+/**
+ * Tests for VerdictHistory component.
+ */
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen, waitFor } from "@testing-library/react";
+
+// ── Mocks ──────────────────────────────────────────────────────────────────
+
+// recharts measures the DOM, which jsdom can't do — render a stub chart
+vi.mock("recharts", () => {
+  const Stub = ({ children }: { children?: React.ReactNode }) => (
+    <div>{children}</div>
+  );
+  return {
+    ResponsiveContainer: Stub,
+    LineChart: ({ children }: { children?: React.ReactNode }) => (
+      <div data-testid="history-chart">{children}</div>
+    ),
+    Line: () => null,
+    XAxis: () => null,
+    YAxis: () => null,
+    Tooltip: () => null,
+    Legend: () => null,
+  };
+});
+
+const mockFetch = vi.fn();
+vi.stubGlobal("fetch", mockFetch);
+
+import { VerdictHistory } from "@/components/verdict-history";
+
+const V1 = {
+  version: 1,
+  outcome: "MIXED",
+  confidence: 0.5,
+  evidenceCount: 2,
+  paperCount: 2,
+  createdAt: "2026-01-01T00:00:00Z",
+  addedPapers: [
+    { id: "p1", title: "Old trial" },
+    { id: "p2", title: "Meta-analysis" },
+  ],
+  removedPapers: [],
+};
+
+const V2 = {
+  version: 2,
+  outcome: "SUPPORTED",
+  confidence: 0.8,
+  evidenceCount: 3,
+  paperCount: 2,
+  createdAt: "2026-02-01T00:00:00Z",
+  addedPapers: [{ id: "p3", title: "New RCT" }],
+  removedPapers: [{ id: "p1", title: "Old trial" }],
+};
+
+function mockHistory(versions: unknown[]) {
+  mockFetch.mockResolvedValueOnce({
+    ok: true,
+    json: async () => ({ claimId: "c1", versions }),
+  });
+}
+
+// ── Tests ──────────────────────────────────────────────────────────────────
+
+describe("VerdictHistory", () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  it("renders nothing when there are no versions", async () => {
+    mockHistory([]);
+    const { container } = render(<VerdictHistory claimId="c1" />);
+    await waitFor(() => expect(mockFetch).toHaveBeenCalled());
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it("lists a single version without a chart", async () => {
+    mockHistory([V1]);
+    render(<VerdictHistory claimId="c1" />);
+
+    await waitFor(() => {
+      expect(screen.getByTestId("verdict-history")).toBeInTheDocument();
+    });
+    expect(screen.queryByTestId("history-chart")).toBeNull();
+    expect(screen.getByText("Mixed")).toBeInTheDocument();
+  });
+
+  it("charts multiple versions and shows paper diffs, newest first", async () => {
+    mockHistory([V1, V2]);
+    render(<VerdictHistory claimId="c1" />);
+
+    await waitFor(() => {
+      expect(screen.getByTestId("history-chart")).toBeInTheDocument();
+    });
+    const items = screen.getAllByTestId("verdict-version");
+    expect(items[0]).toHaveTextContent("v2");
+    expect(items[0]).toHaveTextContent("Supported");
+    expect(items[0]).toHaveTextContent("80% confidence");
+    expect(screen.getByText("+ New RCT")).toBeInTheDocument();
+    expect(screen.getByText("− Old trial")).toBeInTheDocument();
+    expect(mockFetch).toHaveBeenCalledWith("/api/claims/c1/verdict/history");
+  });
+
+  it("renders nothing when the request fails", async () => {
+    mockFetch.mockRejectedValueOnce(new Error("network"));
+    const { container } = render(<VerdictHistory claimId="c1" />);
+    await waitFor(() => expect(mockFetch).toHaveBeenCalled());
+    expect(container).toBeEmptyDOMElement();
+  });
+});
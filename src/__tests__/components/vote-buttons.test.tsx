@@ -3,7 +3,7 @@
  *
  * Verifies: unauthenticated state, already-voted state,
  * market-not-active state, voting flow (success + error),
- * and loading state.
+ * optional stake, and loading state.
  */
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import { render, screen, waitFor } from "@testing-library/react";
@@ -177,6 +177,37 @@ describe("VoteButtons", () => {
     );
   });
 
+  it("sends the stake amount with the vote", async () => {
+    const user = userEvent.setup();
+    mockSession = { user: { id: "user-1" } };
+    mockStatus = "authenticated";
+
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        vote: { id: "v3", side: "YES", votedAt: new Date().toISOString(), revealAt: new Date().toISOString() },
+        stake: { holdId: "hold-1", amount: 5 },
+        newBalance: 4,
+      }),
+    });
+
+    render(<VoteButtons claimId="claim-3" marketStatus="ACTIVE" />);
+
+    await user.type(screen.getByTestId("stake-input"), "5");
+    await user.click(screen.getByText("YES (1 credit)"));
+
+    await waitFor(() => {
+      expect(screen.getByText("You voted")).toBeInTheDocument();
+    });
+
+    expect(mockFetch).toHaveBeenCalledWith(
+      "/api/claims/claim-3/vote",
+      expect.objectContaining({
+        body: JSON.stringify({ side: "YES", stake: 5 }),
+      }),
+    );
+  });
+
   it("shows error message when vote fails", async () => {
     const user = userEvent.setup();
     mockSession = { user: { id: "user-1" } };
@@ -0,0 +1,91 @@
+/**
+ * Tests for database-free chunk ranking (src/lib/chunk-ranking.ts)
+ *
+ * Covers cosine similarity and the in-memory search the retrieval eval uses
+ * in place of pgvector: threshold, paper filter, limit and grouping.
+ */
+import { describe, it, expect } from "vitest";
+import { cosineSimilarity, searchChunksInMemory } from "@/lib/chunk-ranking";
+
+function chunk(
+  id: string,
+  paperId: string,
+  embedding: number[],
+  section: "abstract" | "results" | null = null
+) {
+  return {
+    id,
+    paperId,
+    content: `Content of ${id}`,
+    chunkIndex: 0,
+    section,
+    sectionTitle: null,
+    startOffset: null,
+    endOffset: null,
+    embedding,
+  };
+}
+
+// ── cosineSimilarity ────────────────────────────────────────────────────
+
+describe("cosineSimilarity", () => {
+  it("is 1 for parallel vectors and 0 for orthogonal ones", () => {
+    expect(cosineSimilarity([1, 2], [2, 4])).toBeCloseTo(1);
+    expect(cosineSimilarity([1, 0], [0, 1])).toBe(0);
+  });
+
+  it("is 0 when either vector is all zeros", () => {
+    expect(cosineSimilarity([0, 0], [1, 1])).toBe(0);
+  });
+});
+
+// ── searchChunksInMemory ────────────────────────────────────────────────
+
+describe("searchChunksInMemory", () => {
+  const query = [1, 0];
+  const chunks = [
+    chunk("c1", "p1", [0.9, 0.1]),
+    chunk("c2", "p2", [1, 0]),
+    chunk("c3", "p1", [0.6, 0.4]),
+    chunk("c4", "p3", [0, 1]),
+  ];
+
+  it("orders papers by their best chunk and drops chunks below the threshold", () => {
+    const grouped = searchChunksInMemory(query, chunks, { minSimilarity: 0.5 });
+
+    expect([...grouped.keys()]).toEqual(["p2", "p1"]);
+    expect(grouped.get("p1")!.map((c) => c.id)).toEqual(["c1", "c3"]);
+    expect(grouped.get("p2")![0].similarity).toBeCloseTo(1);
+    expect(grouped.get("p2")![0]).not.toHaveProperty("embedding");
+  });
+
+  it("restricts to paperIds and keeps chunksPerPaper", () => {
+    const grouped = searchChunksInMemory(query, chunks, {
+      minSimilarity: 0,
+      paperIds: ["p1"],
+      chunksPerPaper: 1,
+    });
+    expect([...grouped.entries()].map(([id, cs]) => [id, cs.length])).toEqual([
+      ["p1", 1],
+    ]);
+  });
+
+  it("fetches limit × chunksPerPaper chunks before grouping", () => {
+    const grouped = searchChunksInMemory(query, chunks, {
+      minSimilarity: 0,
+      limit: 1,
+      chunksPerPaper: 2,
+    });
+    // Top two chunks overall: c2 (p2), c1 (p1)
+    expect([...grouped.keys()]).toEqual(["p2", "p1"]);
+  });
+
+  it("boosts preferred sections like the pgvector search", () => {
+    const grouped = searchChunksInMemory(
+      query,
+      [chunk("a", "p1", [1, 0.05], "abstract"), chunk("r", "p1", [1, 0.1], "results")],
+      { minSimilarity: 0, preferSections: ["results"] }
+    );
+    expect(grouped.get("p1")!.map((c) => c.id)).toEqual(["r", "a"]);
+  });
+});
@@ -2,10 +2,11 @@
  * Tests for text chunking utility (src/lib/chunker.ts)
  *
  * Validates splitting logic, overlap, edge cases (empty text, single
- * chunk, huge paragraphs, huge sentences), and token estimation.
+ * chunk, huge paragraphs, huge sentences), character offsets, section-tree
+ * chunking, and token estimation.
  */
 import { describe, it, expect } from "vitest";
-import { chunkText, estimateTokens } from "@/lib/chunker";
+import { chunkText, chunkSections, estimateTokens } from "@/lib/chunker";
 
 // ── estimateTokens ──────────────────────────────────────────────────────
 
@@ -136,4 +137,96 @@ describe("chunkText", () => {
     const chunks = chunkText(text);
     expect(chunks.length).toBeGreaterThan(0);
   });
+
+  it("reports offsets that tile the cleaned text, excluding overlap", () => {
+    const paragraphs = Array.from(
+      { length: 12 },
+      (_, i) => `Paragraph ${i} reports an outcome. `.repeat(6).trim()
+    );
+    const text = paragraphs.join("\n\n");
+    const chunks = chunkText(text, { maxChunkTokens: 100, overlapTokens: 20 });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks[0].startOffset).toBe(0);
+    expect(chunks[chunks.length - 1].endOffset).toBe(text.length);
+    for (let i = 0; i < chunks.length; i++) {
+      const own = text.slice(chunks[i].startOffset, chunks[i].endOffset);
+      expect(chunks[i].content.endsWith(own)).toBe(true);
+      if (i > 0) {
+        // Only the "\n\n" paragraph separator sits between spans
+        expect(chunks[i].startOffset - chunks[i - 1].endOffset).toBe(2);
+      }
+    }
+  });
+
+  it("offsets hard-split sentences by position", () => {
+    const text = "x".repeat(450);
+    const chunks = chunkText(text, { maxChunkTokens: 50, overlapTokens: 0 });
+    expect(chunks.map((c) => [c.startOffset, c.endOffset])).toEqual([
+      [0, 200],
+      [200, 400],
+      [400, 450],
+    ]);
+  });
+});
+
+// ── chunkSections ───────────────────────────────────────────────────────
+
+describe("chunkSections", () => {
+  it("tags chunks with their section and numbers them across the paper", () => {
+    const chunks = chunkSections([
+      { name: "abstract", text: "Creatine increased strength." },
+      {
+        name: "discussion",
+        title: "Discussion",
+        text: "Gains were modest.",
+        children: [
+          {
+            name: "limitations",
+            title: "Limitations",
+            text: "Participants were mostly male.",
+          },
+        ],
+      },
+      { name: "figure", title: "Figure 1", text: "Figure 1 Strength by week." },
+    ]);
+
+    expect(
+      chunks.map((c) => [c.chunkIndex, c.section, c.sectionTitle, c.content])
+    ).toEqual([
+      [0, "abstract", undefined, "Creatine increased strength."],
+      [1, "discussion", "Discussion", "Gains were modest."],
+      [2, "limitations", "Limitations", "Participants were mostly male."],
+      [3, "figure", "Figure 1", "Figure 1 Strength by week."],
+    ]);
+  });
+
+  it("never lets a chunk straddle two sections", () => {
+    const long = "Sentence about methods. ".repeat(60);
+    const chunks = chunkSections(
+      [
+        { name: "methods", text: long },
+        { name: "results", text: "Strength rose 8%." },
+      ],
+      { maxChunkTokens: 100, overlapTokens: 20 }
+    );
+
+    const results = chunks.filter((c) => c.section === "results");
+    expect(results).toHaveLength(1);
+    expect(results[0].content).toBe("Strength rose 8%.");
+    expect(results[0].startOffset).toBe(0);
+    expect(chunks.every((c, i) => c.chunkIndex === i)).toBe(true);
+  });
+
+  it("skips sections with no text but still walks their children", () => {
+    const chunks = chunkSections([
+      {
+        name: "methods",
+        text: "",
+        children: [{ name: "methods", title: "Participants", text: "120 adults." }],
+      },
+    ]);
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0].sectionTitle).toBe("Participants");
+  });
 });
@@ -0,0 +1,71 @@
+/**
+ * Tests for verdict citation keys and marker parsing (src/lib/citations.ts)
+ */
+import { describe, it, expect } from "vitest";
+import {
+  paperCitationKey,
+  excerptCitationKey,
+  paperKeyOf,
+  extractCitationKeys,
+  splitCitations,
+  resolveCitationSources,
+} from "@/lib/citations";
+
+describe("citation keys", () => {
+  it("numbers papers and excerpts from 1", () => {
+    expect(paperCitationKey(0)).toBe("P1");
+    expect(excerptCitationKey("P3", 1)).toBe("P3.2");
+    expect(paperKeyOf("P3.2")).toBe("P3");
+    expect(paperKeyOf("P3")).toBe("P3");
+  });
+});
+
+describe("splitCitations", () => {
+  it("separates text from single and grouped markers", () => {
+    expect(
+      splitCitations("Strength rose [P1]. Two trials agreed [P2.1, P3]; one did not.")
+    ).toEqual([
+      { type: "text", text: "Strength rose" },
+      { type: "cite", keys: ["P1"] },
+      { type: "text", text: ". Two trials agreed" },
+      { type: "cite", keys: ["P2.1", "P3"] },
+      { type: "text", text: "; one did not." },
+    ]);
+  });
+
+  it("leaves other bracketed text alone", () => {
+    expect(splitCitations("Dose [5 g/day] matters [P1]")).toEqual([
+      { type: "text", text: "Dose [5 g/day] matters" },
+      { type: "cite", keys: ["P1"] },
+    ]);
+  });
+
+  it("returns plain text unchanged", () => {
+    expect(splitCitations("No citations.")).toEqual([
+      { type: "text", text: "No citations." },
+    ]);
+  });
+});
+
+describe("extractCitationKeys", () => {
+  it("lists keys once, in order of first appearance", () => {
+    expect(extractCitationKeys("A [P2]. B [P1.1; P2]. C [P1.1].")).toEqual([
+      "P2",
+      "P1.1",
+    ]);
+  });
+});
+
+describe("resolveCitationSources", () => {
+  it("keeps known keys and drops invented ones", () => {
+    const sources = [
+      { key: "P1", paperId: "a", chunkId: null },
+      { key: "P1.1", paperId: "a", chunkId: "c1" },
+      { key: "P2", paperId: "b", chunkId: null },
+    ];
+    expect(resolveCitationSources("X [P1.1, P9]. Y [P2].", sources)).toEqual([
+      sources[1],
+      sources[2],
+    ]);
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Tests for the ClinicalTrials.gov client (src/lib/clinical-trials.ts)
+ *
+ * Runs parseClinicalTrialsSearch against a recorded v2 `/studies`
+ * response in src/__tests__/fixtures/clinical-trials, and checks request
+ * construction and error handling with mocked fetch.
+ */
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { readFileSync } from "fs";
+import path from "path";
+import {
+  CLINICAL_TRIALS_BASE_URL,
+  getClinicalTrialUrl,
+  parseClinicalTrialsSearch,
+  searchClinicalTrials,
+} from "@/lib/clinical-trials";
+
+// ── Fixtures ────────────────────────────────────────────────────────────
+
+function loadFixture(name: string): unknown {
+  return JSON.parse(
+    readFileSync(
+      path.join(__dirname, "..", "fixtures", "clinical-trials", name),
+      "utf-8"
+    )
+  );
+}
+
+const STUDIES = loadFixture("studies.json");
+
+const mockFetch = vi.fn();
+vi.stubGlobal("fetch", mockFetch);
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+// ── Tests ───────────────────────────────────────────────────────────────
+
+describe("parseClinicalTrialsSearch", () => {
+  it("skips studies without an NCT number", () => {
+    const { trials } = parseClinicalTrialsSearch(STUDIES);
+    expect(trials.map((t) => t.nctId)).toEqual(["NCT04512345", "NCT05598765"]);
+  });
+
+  it("extracts design, status and enrollment from a completed trial", () => {
+    const [trial] = parseClinicalTrialsSearch(STUDIES).trials;
+    expect(trial).toEqual({
+      nctId: "NCT04512345",
+      title:
+        "Effects of Creatine Supplementation During Resistance Training on Muscle Strength in Adults Over 65: A Randomized Placebo-Controlled Trial",
+      briefSummary:
+        "Participants will take creatine monohydrate (0.1 g/kg/day) or placebo during 12 weeks of supervised resistance training. Leg press and chest press strength are the primary outcomes.",
+      overallStatus: "COMPLETED",
+      studyType: "INTERVENTIONAL",
+      phases: ["PHASE2", "PHASE3"],
+      enrollment: 120,
+      startYear: 2020,
+      investigators: ["Darren Candow, PhD"],
+      hasResults: true,
+    });
+  });
+
+  it("falls back to the brief title and the lead sponsor", () => {
+    const trial = parseClinicalTrialsSearch(STUDIES).trials[1];
+    expect(trial.title).toBe("Creatine for Post-COVID Fatigue");
+    expect(trial.investigators).toEqual(["University of Novi Sad"]);
+    expect(trial.briefSummary).toBeUndefined();
+    expect(trial.startYear).toBe(2022);
+    expect(trial.hasResults).toBe(false);
+  });
+
+  it("drops the 'NA' phase used for non-drug trials", () => {
+    expect(parseClinicalTrialsSearch(STUDIES).trials[1].phases).toEqual([]);
+  });
+
+  it("returns no trials for an empty response", () => {
+    expect(parseClinicalTrialsSearch({})).toEqual({ trials: [] });
+  });
+});
+
+describe("getClinicalTrialUrl", () => {
+  it("links to the public study page", () => {
+    expect(getClinicalTrialUrl("NCT04512345")).toBe(
+      "https://clinicaltrials.gov/study/NCT04512345"
+    );
+  });
+});
+
+describe("searchClinicalTrials", () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+  });
+
+  it("sends the query as a free-text term with the page size", async () => {
+    mockFetch.mockResolvedValue(jsonResponse(STUDIES));
+
+    const result = await searchClinicalTrials("creatine strength", {
+      maxResults: 10,
+    });
+
+    const url = new URL(mockFetch.mock.calls[0][0]);
+    expect(`${url.origin}${url.pathname}`).toBe(
+      `${CLINICAL_TRIALS_BASE_URL}/studies`
+    );
+    expect(url.searchParams.get("query.term")).toBe("creatine strength");
+    expect(url.searchParams.get("pageSize")).toBe("10");
+    expect(url.searchParams.get("format")).toBe("json");
+    expect(result.trials).toHaveLength(2);
+  });
+
+  it("filters to studies first posted since a date", async () => {
+    mockFetch.mockResolvedValue(jsonResponse(STUDIES));
+
+    await searchClinicalTrials("creatine", {
+      since: new Date("2026-01-10T08:00:00Z"),
+    });
+
+    const url = new URL(mockFetch.mock.calls[0][0]);
+    expect(url.searchParams.get("filter.advanced")).toBe(
+      "AREA[StudyFirstPostDate]RANGE[2026-01-10,MAX]"
+    );
+  });
+
+  it("throws on a non-OK response", async () => {
+    mockFetch.mockResolvedValue(
+      new Response("bad", { status: 400, statusText: "Bad Request" })
+    );
+
+    await expect(searchClinicalTrials("creatine")).rejects.toThrow(
+      "ClinicalTrials.gov search failed: 400 Bad Request"
+    );
+  });
+});
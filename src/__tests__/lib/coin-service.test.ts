@@ -0,0 +1,155 @@
+/**
+ * Tests for stake escrow, vote spends and refunds (src/lib/coin-service.ts)
+ *
+ * Prisma is mocked; `$transaction` runs its callback against the same mock.
+ */
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("@/lib/prisma", () => {
+  const prisma = {
+    user: { findUnique: vi.fn(), update: vi.fn() },
+    creditEvent: { findUnique: vi.fn(), create: vi.fn() },
+    coinHold: { findUnique: vi.fn(), create: vi.fn(), updateMany: vi.fn() },
+    $transaction: vi.fn(),
+  };
+  prisma.$transaction.mockImplementation((fn: (tx: unknown) => unknown) => fn(prisma));
+  return { prisma };
+});
+
+import { prisma } from "@/lib/prisma";
+import {
+  applyVoteSpend,
+  CoinTransferError,
+  escrowCoins,
+  refundStake,
+} from "@/lib/coin-service";
+
+const mockUserFindUnique = vi.mocked(prisma.user.findUnique);
+const mockUserUpdate = vi.mocked(prisma.user.update);
+const mockEventFindUnique = vi.mocked(prisma.creditEvent.findUnique);
+const mockEventCreate = vi.mocked(prisma.creditEvent.create);
+const mockHoldFindUnique = vi.mocked(prisma.coinHold.findUnique);
+const mockHoldCreate = vi.mocked(prisma.coinHold.create);
+const mockHoldUpdateMany = vi.mocked(prisma.coinHold.updateMany);
+
+const HOLD = {
+  id: "hold-1",
+  userId: "u1",
+  marketId: "m1",
+  amount: 20,
+  side: "YES",
+  status: "LOCKED",
+};
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockUserFindUnique.mockResolvedValue({ credits: 50 } as never);
+  mockEventFindUnique.mockResolvedValue(null);
+  mockEventCreate.mockResolvedValue({ id: "evt-1" } as never);
+  mockHoldCreate.mockResolvedValue(HOLD as never);
+  mockHoldUpdateMany.mockResolvedValue({ count: 1 } as never);
+});
+
+// ── escrowCoins ─────────────────────────────────────────────────────────
+
+describe("escrowCoins", () => {
+  it("debits the stake and creates the hold in one transaction", async () => {
+    mockHoldFindUnique.mockResolvedValue(null);
+
+    const result = await escrowCoins("u1", "m1", 20, "YES");
+
+    expect(result).toEqual({ success: true, holdId: "hold-1", newBalance: 30 });
+    expect(prisma.$transaction).toHaveBeenCalledOnce();
+    expect(mockUserUpdate).toHaveBeenCalledWith({
+      where: { id: "u1" },
+      data: { credits: 30 },
+    });
+    expect(mockEventCreate).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        type: "STAKE_ESCROW",
+        amount: -20,
+        idempotencyKey: "stake-escrow-u1-m1",
+      }),
+    });
+    expect(mockHoldCreate).toHaveBeenCalledWith({
+      data: { userId: "u1", marketId: "m1", amount: 20, side: "YES", status: "LOCKED" },
+    });
+  });
+
+  it("returns the existing hold while it is still locked", async () => {
+    mockHoldFindUnique.mockResolvedValue(HOLD as never);
+
+    const result = await escrowCoins("u1", "m1", 20, "YES");
+
+    expect(result).toEqual({ success: true, holdId: "hold-1" });
+    expect(mockUserUpdate).not.toHaveBeenCalled();
+  });
+
+  it("refuses to stake again once the hold was refunded", async () => {
+    mockHoldFindUnique.mockResolvedValue({ ...HOLD, status: "REFUNDED" } as never);
+
+    const result = await escrowCoins("u1", "m1", 20, "YES");
+
+    expect(result.success).toBe(false);
+    expect(result.holdId).toBeUndefined();
+    expect(mockHoldCreate).not.toHaveBeenCalled();
+  });
+
+  it("creates no hold when the user can't cover the stake", async () => {
+    mockHoldFindUnique.mockResolvedValue(null);
+    mockUserFindUnique.mockResolvedValue({ credits: 5 } as never);
+
+    const result = await escrowCoins("u1", "m1", 20, "YES");
+
+    expect(result).toEqual({
+      success: false,
+      error: "Insufficient credits: 5 available, 20 required",
+    });
+    expect(mockHoldCreate).not.toHaveBeenCalled();
+  });
+});
+
+// ── applyVoteSpend ──────────────────────────────────────────────────────
+
+describe("applyVoteSpend", () => {
+  it("throws a CoinTransferError so the caller's transaction rolls back", async () => {
+    mockUserFindUnique.mockResolvedValue({ credits: 0 } as never);
+
+    await expect(applyVoteSpend(prisma as never, "u1", "c1")).rejects.toThrow(
+      CoinTransferError,
+    );
+    expect(mockEventCreate).not.toHaveBeenCalled();
+  });
+});
+
+// ── refundStake ─────────────────────────────────────────────────────────
+
+describe("refundStake", () => {
+  it("returns the stake and marks the hold REFUNDED", async () => {
+    mockHoldFindUnique.mockResolvedValue(HOLD as never);
+
+    const result = await refundStake("hold-1");
+
+    expect(result.success).toBe(true);
+    expect(mockEventCreate).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        type: "STAKE_REFUND",
+        amount: 20,
+        idempotencyKey: "stake-refund-hold-1",
+      }),
+    });
+    expect(mockHoldUpdateMany).toHaveBeenCalledWith({
+      where: { id: "hold-1", status: "LOCKED" },
+      data: expect.objectContaining({ status: "REFUNDED" }),
+    });
+  });
+
+  it("won't refund a stake that was already paid out", async () => {
+    mockHoldFindUnique.mockResolvedValue({ ...HOLD, status: "RELEASED" } as never);
+
+    const result = await refundStake("hold-1");
+
+    expect(result.success).toBe(false);
+    expect(mockEventCreate).not.toHaveBeenCalled();
+  });
+});
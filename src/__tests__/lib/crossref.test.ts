@@ -0,0 +1,156 @@
+/**
+ * Tests for the Crossref client (src/lib/crossref.ts)
+ *
+ * Runs parseCrossrefWork against recorded `/works/{doi}` responses in
+ * src/__tests__/fixtures/crossref, and checks request construction, the
+ * polite-pool mailto and 404 handling with mocked fetch.
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { readFileSync } from "fs";
+import path from "path";
+import {
+  CROSSREF_BASE_URL,
+  getCrossrefWork,
+  parseCrossrefWork,
+} from "@/lib/crossref";
+
+// ── Fixtures ────────────────────────────────────────────────────────────
+
+function loadFixture(name: string): unknown {
+  return JSON.parse(
+    readFileSync(
+      path.join(__dirname, "..", "fixtures", "crossref", name),
+      "utf-8"
+    )
+  );
+}
+
+const JOURNAL_ARTICLE = loadFixture("work-journal-article.json");
+const PREPRINT = loadFixture("work-preprint.json");
+const RETRACTED = loadFixture("work-retracted.json");
+
+const mockFetch = vi.fn();
+vi.stubGlobal("fetch", mockFetch);
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+// ── Tests ───────────────────────────────────────────────────────────────
+
+describe("parseCrossrefWork", () => {
+  it("extracts DOI, title, journal and type from a journal article", () => {
+    const work = parseCrossrefWork(JOURNAL_ARTICLE)!;
+    expect(work).toMatchObject({
+      doi: "10.3390/nu15040912",
+      title:
+        "Effects of Creatine Supplementation on Muscle Strength in Older Adults: A Systematic Review and Meta-Analysis",
+      journal: "Nutrients",
+      type: "journal-article",
+      isPreprint: false,
+    });
+  });
+
+  it("joins given and family names, keeping organisation authors", () => {
+    const work = parseCrossrefWork(JOURNAL_ARTICLE)!;
+    expect(work.authors).toEqual([
+      "Michaela C. Devries",
+      "Stuart M. Phillips",
+      "Creatine Research Consortium",
+    ]);
+  });
+
+  it("uses the earliest of the print, online and issued years", () => {
+    expect(parseCrossrefWork(JOURNAL_ARTICLE)!.publishedYear).toBe(2023);
+  });
+
+  it("flattens the JATS abstract, dropping the 'Abstract' heading", () => {
+    expect(parseCrossrefWork(JOURNAL_ARTICLE)!.abstract).toBe(
+      "Background: Creatine is widely used to improve strength.\nResults: Twenty-two RCTs were included."
+    );
+  });
+
+  it("marks posted-content preprints and leaves the journal unset", () => {
+    const work = parseCrossrefWork(PREPRINT)!;
+    expect(work.isPreprint).toBe(true);
+    expect(work.type).toBe("posted-content");
+    expect(work.journal).toBeUndefined();
+    expect(work.abstract).toBeUndefined();
+    expect(work.publishedYear).toBe(2022);
+    expect(work.authors).toEqual(["Ali Gordji-Nejad"]);
+  });
+
+  it("reads update notices, normalising their types", () => {
+    const work = parseCrossrefWork(RETRACTED)!;
+    expect(work.updatedBy).toEqual([
+      { type: "retraction", doi: "10.1016/j.nut.2021.111190", source: "publisher" },
+      {
+        type: "expression_of_concern",
+        doi: "10.1016/j.nut.2020.110850",
+        source: "retraction-watch",
+      },
+    ]);
+    expect(work.updates).toEqual([]);
+  });
+
+  it("has no updates when the record lists none", () => {
+    const work = parseCrossrefWork(JOURNAL_ARTICLE)!;
+    expect(work.updatedBy).toEqual([]);
+    expect(work.updates).toEqual([]);
+  });
+
+  it("returns null for a response without a DOI", () => {
+    expect(parseCrossrefWork({ status: "ok", message: {} })).toBeNull();
+  });
+});
+
+describe("getCrossrefWork", () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("requests the encoded DOI", async () => {
+    vi.stubEnv("CROSSREF_MAILTO", "");
+    mockFetch.mockResolvedValue(jsonResponse(JOURNAL_ARTICLE));
+
+    const work = await getCrossrefWork("10.3390/nu15040912");
+
+    expect(mockFetch).toHaveBeenCalledWith(
+      `${CROSSREF_BASE_URL}/works/10.3390%2Fnu15040912`
+    );
+    expect(work?.journal).toBe("Nutrients");
+  });
+
+  it("adds the mailto parameter when CROSSREF_MAILTO is set", async () => {
+    vi.stubEnv("CROSSREF_MAILTO", "team@example.org");
+    mockFetch.mockResolvedValue(jsonResponse(JOURNAL_ARTICLE));
+
+    await getCrossrefWork("10.3390/nu15040912");
+
+    const url = new URL(mockFetch.mock.calls[0][0]);
+    expect(url.searchParams.get("mailto")).toBe("team@example.org");
+  });
+
+  it("resolves to null when Crossref has no record", async () => {
+    mockFetch.mockResolvedValue(new Response("Resource not found.", { status: 404 }));
+
+    expect(await getCrossrefWork("10.5281/zenodo.123")).toBeNull();
+  });
+
+  it("throws on other non-OK responses", async () => {
+    mockFetch.mockResolvedValue(
+      new Response("error", { status: 500, statusText: "Internal Server Error" })
+    );
+
+    await expect(getCrossrefWork("10.3390/nu15040912")).rejects.toThrow(
+      "Crossref lookup failed: 500 Internal Server Error"
+    );
+  });
+});
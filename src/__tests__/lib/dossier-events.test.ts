@@ -0,0 +1,155 @@
+/**
+ * Tests for live dossier events (src/lib/dossier-events.ts)
+ *
+ * Runs against a mocked Redis client and subscriber connection. The module
+ * keeps one subscriber connection for the process, so each test
+ * unsubscribes what it subscribed.
+ */
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { EventEmitter } from "events";
+
+const mockPublish = vi.fn();
+const subscriber = Object.assign(new EventEmitter(), {
+  subscribe: vi.fn(),
+  unsubscribe: vi.fn(),
+});
+const mockCreateConnection = vi.fn(() => subscriber);
+
+vi.mock("@/lib/redis", () => ({
+  redis: { publish: (...a: unknown[]) => mockPublish(...a) },
+  createRedisConnection: () => mockCreateConnection(),
+}));
+
+import {
+  dossierEventChannel,
+  atSubscriberLimit,
+  isFinalEvent,
+  MAX_EVENT_SUBSCRIBERS,
+  publishDossierEvent,
+  subscribeDossierEvents,
+  type DossierEvent,
+} from "@/lib/dossier-events";
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  subscriber.subscribe.mockResolvedValue(1);
+  subscriber.unsubscribe.mockResolvedValue(0);
+});
+
+const done: DossierEvent = { type: "done", outcome: "SUPPORTED" };
+
+// ── Helpers ─────────────────────────────────────────────────────────────
+
+describe("isFinalEvent", () => {
+  it("is final when the run is done or has failed for good", () => {
+    expect(isFinalEvent(done)).toBe(true);
+    expect(isFinalEvent({ type: "error", message: "boom", retrying: false })).toBe(true);
+  });
+
+  it("is not final for a retry or a single paper's error", () => {
+    expect(isFinalEvent({ type: "error", message: "boom", retrying: true })).toBe(false);
+    expect(isFinalEvent({ type: "error", message: "boom", paperTitle: "A" })).toBe(false);
+    expect(
+      isFinalEvent({ type: "stage", stage: "SAVING", label: "Saving results", progress: 95 })
+    ).toBe(false);
+  });
+});
+
+// ── Publish / subscribe ─────────────────────────────────────────────────
+
+describe("publishDossierEvent", () => {
+  it("publishes the event as JSON on the run's channel", async () => {
+    await publishDossierEvent("dj-1", done);
+
+    expect(mockPublish).toHaveBeenCalledWith("dossier-events:dj-1", JSON.stringify(done));
+  });
+
+  it("never throws when Redis is unavailable", async () => {
+    mockPublish.mockRejectedValue(new Error("Connection refused"));
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    await expect(publishDossierEvent("dj-1", done)).resolves.toBeUndefined();
+    expect(warn).toHaveBeenCalled();
+  });
+});
+
+describe("subscribeDossierEvents", () => {
+  it("delivers the run's events and unsubscribes its channel when done", async () => {
+    const onEvent = vi.fn();
+
+    const unsubscribe = await subscribeDossierEvents("dj-1", onEvent);
+    subscriber.emit("message", dossierEventChannel("dj-1"), JSON.stringify(done));
+    subscriber.emit("message", dossierEventChannel("dj-2"), JSON.stringify(done));
+    subscriber.emit("message", dossierEventChannel("dj-1"), "not json");
+    await unsubscribe();
+
+    expect(subscriber.subscribe).toHaveBeenCalledWith("dossier-events:dj-1");
+    expect(onEvent).toHaveBeenCalledTimes(1);
+    expect(onEvent).toHaveBeenCalledWith(done);
+    expect(subscriber.unsubscribe).toHaveBeenCalledWith("dossier-events:dj-1");
+  });
+
+  it("shares one connection and keeps a channel while anyone listens", async () => {
+    const first = vi.fn();
+    const second = vi.fn();
+
+    const stopFirst = await subscribeDossierEvents("dj-1", first);
+    const stopSecond = await subscribeDossierEvents("dj-1", second);
+    await stopFirst();
+    expect(subscriber.unsubscribe).not.toHaveBeenCalled();
+
+    subscriber.emit("message", dossierEventChannel("dj-1"), JSON.stringify(done));
+    await stopSecond();
+
+    expect(first).not.toHaveBeenCalled();
+    expect(second).toHaveBeenCalledWith(done);
+    expect(subscriber.unsubscribe).toHaveBeenCalledOnce();
+    // The connection from earlier tests is reused, not made per subscriber
+    expect(mockCreateConnection).not.toHaveBeenCalled();
+  });
+
+  it("refuses listeners past the process's limit", async () => {
+    const stops = await Promise.all(
+      Array.from({ length: MAX_EVENT_SUBSCRIBERS }, (_, i) =>
+        subscribeDossierEvents(`dj-${i}`, vi.fn())
+      )
+    );
+    expect(atSubscriberLimit()).toBe(true);
+
+    await expect(subscribeDossierEvents("dj-extra", vi.fn())).rejects.toThrow(
+      `Already serving ${MAX_EVENT_SUBSCRIBERS} event subscribers`
+    );
+
+    await Promise.all(stops.map((stop) => stop()));
+    expect(atSubscriberLimit()).toBe(false);
+  });
+
+  it("rethrows and stops listening when subscribing fails", async () => {
+    subscriber.subscribe.mockRejectedValue(new Error("Connection refused"));
+    const onEvent = vi.fn();
+
+    await expect(subscribeDossierEvents("dj-1", onEvent)).rejects.toThrow(
+      "Connection refused"
+    );
+    subscriber.emit("message", dossierEventChannel("dj-1"), JSON.stringify(done));
+    expect(onEvent).not.toHaveBeenCalled();
+    expect(subscriber.unsubscribe).toHaveBeenCalledWith("dossier-events:dj-1");
+  });
+
+  it("gives up when Redis doesn't confirm the subscription", async () => {
+    vi.useFakeTimers();
+    try {
+      subscriber.subscribe.mockReturnValue(new Promise(() => {}));
+
+      const subscribing = subscribeDossierEvents("dj-1", vi.fn());
+      const rejected = expect(subscribing).rejects.toThrow(
+        "Timed out subscribing to dossier events"
+      );
+      await vi.advanceTimersByTimeAsync(5_000);
+      await rejected;
+      expect(atSubscriberLimit()).toBe(false);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * Tests for dossier job lifecycle (src/lib/dossier-jobs.ts)
+ *
+ * Prisma and the queue are mocked: checks that a run's DossierJob row and
+ * BullMQ job are created together under a run-scoped ID, that a failed
+ * enqueue fails the row, and that an active row whose queue job is gone is
+ * failed instead of blocking new runs.
+ */
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("@/lib/prisma", () => ({
+  prisma: {
+    dossierJob: {
+      create: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+      findFirst: vi.fn(),
+    },
+  },
+}));
+
+vi.mock("@/lib/queue", () => ({
+  dossierQueueJobId: (id: string) => `dossier-${id}`,
+  enqueueDossierJob: vi.fn(),
+  getDossierJobStatus: vi.fn(),
+}));
+
+import { prisma } from "@/lib/prisma";
+import { enqueueDossierJob, getDossierJobStatus } from "@/lib/queue";
+import { findActiveDossierJob, startDossierJob } from "@/lib/dossier-jobs";
+
+const mockCreate = vi.mocked(prisma.dossierJob.create);
+const mockUpdate = vi.mocked(prisma.dossierJob.update);
+const mockUpdateMany = vi.mocked(prisma.dossierJob.updateMany);
+const mockFindFirst = vi.mocked(prisma.dossierJob.findFirst);
+const mockEnqueue = vi.mocked(enqueueDossierJob);
+const mockQueueStatus = vi.mocked(getDossierJobStatus);
+
+const NOW = new Date("2026-03-01T12:00:00Z");
+
+function storedJob(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "dj-1",
+    claimId: "claim-1",
+    status: "QUEUED",
+    mode: "FULL",
+    createdAt: new Date("2026-03-01T11:00:00Z"),
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe("startDossierJob", () => {
+  it("creates the row, then enqueues a job named after it", async () => {
+    mockCreate.mockResolvedValue(storedJob({ mode: "INCREMENTAL" }) as never);
+
+    const job = await startDossierJob({
+      claimId: "claim-1",
+      triggeredBy: "admin-1",
+      mode: "INCREMENTAL",
+    });
+
+    expect(mockCreate).toHaveBeenCalledWith({
+      data: {
+        claimId: "claim-1",
+        mode: "INCREMENTAL",
+        requestHash: expect.stringMatching(/^research-claim-1-\d+$/),
+      },
+    });
+    expect(mockEnqueue).toHaveBeenCalledWith("claim-1", "dj-1", "admin-1");
+    expect(job.id).toBe("dj-1");
+  });
+
+  it("stores an admin search plan on the row", async () => {
+    mockCreate.mockResolvedValue(storedJob() as never);
+    const searchPlan = {
+      source: "admin" as const,
+      pico: null,
+      pubmedQuery: "creatine[tiab]",
+      semanticScholarQueries: ["creatine"],
+      arxivQuery: "creatine",
+      arxivCategories: [],
+    };
+
+    await startDossierJob({ claimId: "claim-1", triggeredBy: "admin-1", searchPlan });
+
+    expect(mockCreate.mock.calls[0][0].data).toMatchObject({
+      mode: "FULL",
+      searchPlan,
+    });
+  });
+
+  it("fails the row when the job cannot be enqueued", async () => {
+    mockCreate.mockResolvedValue(storedJob() as never);
+    mockEnqueue.mockRejectedValue(new Error("Redis unavailable"));
+
+    await expect(
+      startDossierJob({ claimId: "claim-1", triggeredBy: "admin-1" })
+    ).rejects.toThrow("Redis unavailable");
+
+    expect(mockUpdate).toHaveBeenCalledWith({
+      where: { id: "dj-1" },
+      data: {
+        status: "FAILED",
+        finishedAt: expect.any(Date),
+        error: "Could not queue research: Redis unavailable",
+      },
+    });
+  });
+});
+
+describe("findActiveDossierJob", () => {
+  it("returns null when nothing is queued or running", async () => {
+    mockFindFirst.mockResolvedValue(null);
+
+    expect(await findActiveDossierJob("claim-1", NOW)).toBeNull();
+    expect(mockFindFirst.mock.calls[0][0]!.where).toEqual({
+      claimId: "claim-1",
+      status: { in: ["QUEUED", "RUNNING"] },
+    });
+  });
+
+  it("returns a row whose queue job is still live", async () => {
+    mockFindFirst.mockResolvedValue(storedJob({ status: "RUNNING" }) as never);
+    mockQueueStatus.mockResolvedValue({ state: "active" } as never);
+
+    const job = await findActiveDossierJob("claim-1", NOW);
+
+    expect(mockQueueStatus).toHaveBeenCalledWith("dossier-dj-1");
+    expect(job?.id).toBe("dj-1");
+    expect(mockUpdateMany).not.toHaveBeenCalled();
+  });
+
+  it("trusts a just-created row without asking the queue", async () => {
+    mockFindFirst.mockResolvedValue(
+      storedJob({ createdAt: new Date("2026-03-01T11:59:50Z") }) as never
+    );
+
+    expect(await findActiveDossierJob("claim-1", NOW)).not.toBeNull();
+    expect(mockQueueStatus).not.toHaveBeenCalled();
+  });
+
+  it("fails a row whose queue job is gone", async () => {
+    mockFindFirst.mockResolvedValue(storedJob() as never);
+    mockQueueStatus.mockResolvedValue(null);
+
+    expect(await findActiveDossierJob("claim-1", NOW)).toBeNull();
+    expect(mockUpdateMany).toHaveBeenCalledWith({
+      where: { id: "dj-1", status: "QUEUED" },
+      data: {
+        status: "FAILED",
+        finishedAt: NOW,
+        error: "Queue job lost before the run finished",
+      },
+    });
+  });
+
+  it("fails a row whose queue job finished without updating it", async () => {
+    mockFindFirst.mockResolvedValue(storedJob({ status: "RUNNING" }) as never);
+    mockQueueStatus.mockResolvedValue({ state: "failed" } as never);
+
+    expect(await findActiveDossierJob("claim-1", NOW)).toBeNull();
+    expect(mockUpdateMany.mock.calls[0][0].data).toMatchObject({
+      error: "Queue job failed without finishing the run",
+    });
+  });
+});
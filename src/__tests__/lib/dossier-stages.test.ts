@@ -0,0 +1,96 @@
+/**
+ * Tests for dossier pipeline stages (src/lib/dossier-stages.ts)
+ *
+ * Labels are pure; checkpoints run against a mocked Prisma client.
+ */
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("@/lib/prisma", () => ({
+  prisma: {
+    dossierCheckpoint: {
+      findMany: vi.fn(),
+      upsert: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+  },
+}));
+
+import { prisma } from "@/lib/prisma";
+import {
+  clearCheckpoints,
+  DOSSIER_STAGES,
+  getStageLabel,
+  loadCheckpoints,
+  saveCheckpoint,
+} from "@/lib/dossier-stages";
+
+const mockFindMany = vi.mocked(prisma.dossierCheckpoint.findMany);
+const mockUpsert = vi.mocked(prisma.dossierCheckpoint.upsert);
+const mockDeleteMany = vi.mocked(prisma.dossierCheckpoint.deleteMany);
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+// ── Stages ──────────────────────────────────────────────────────────────
+
+describe("DOSSIER_STAGES", () => {
+  it("advances progress through the pipeline", () => {
+    const progress = Object.values(DOSSIER_STAGES).map((s) => s.progress);
+    expect(progress).toEqual([...progress].sort((a, b) => a - b));
+    expect(progress.every((p) => p > 0 && p < 100)).toBe(true);
+  });
+});
+
+describe("getStageLabel", () => {
+  it("labels a running job by its stage", () => {
+    expect(getStageLabel("RUNNING", "EXTRACTION")).toBe("Extracting evidence");
+    expect(getStageLabel("RUNNING", null)).toBe("Starting");
+  });
+
+  it("labels queued, retrying, finished and failed jobs", () => {
+    expect(getStageLabel("QUEUED", null)).toBe("Queued");
+    expect(getStageLabel("QUEUED", "EMBEDDING")).toBe("Queued to retry");
+    expect(getStageLabel("SUCCEEDED", "SAVING")).toBe("Complete");
+    expect(getStageLabel("FAILED", "STORING")).toBe("Failed while storing papers");
+  });
+});
+
+// ── Checkpoints ─────────────────────────────────────────────────────────
+
+describe("checkpoints", () => {
+  it("loads the run's checkpoints by stage", async () => {
+    mockFindMany.mockResolvedValue([
+      { stage: "SEARCHING", output: [{ title: "A" }] },
+      { stage: "EMBEDDING", output: { chunkIds: ["c1"], skipped: 0 } },
+    ] as never);
+
+    const checkpoints = await loadCheckpoints("dj-1");
+
+    expect(mockFindMany).toHaveBeenCalledWith({
+      where: { dossierJobId: "dj-1" },
+      select: { stage: true, output: true },
+    });
+    expect([...checkpoints.keys()]).toEqual(["SEARCHING", "EMBEDDING"]);
+    expect(checkpoints.get("EMBEDDING")).toEqual({ chunkIds: ["c1"], skipped: 0 });
+  });
+
+  it("saves a stage's output as plain JSON", async () => {
+    await saveCheckpoint("dj-1", "STORING", {
+      paperIds: ["p1"],
+      preprint: undefined,
+    });
+
+    expect(mockUpsert).toHaveBeenCalledWith({
+      where: { dossierJobId_stage: { dossierJobId: "dj-1", stage: "STORING" } },
+      create: { dossierJobId: "dj-1", stage: "STORING", output: { paperIds: ["p1"] } },
+      update: { output: { paperIds: ["p1"] } },
+    });
+  });
+
+  it("clears the run's checkpoints", async () => {
+    await clearCheckpoints("dj-1");
+
+    expect(mockDeleteMany).toHaveBeenCalledWith({ where: { dossierJobId: "dj-1" } });
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Tests for forest-plot effect normalising (src/lib/effect-sizes.ts)
+ *
+ * Covers the ratio → SMD conversion, pass-through scales, unplottable
+ * estimates, and grouping/ordering into plots.
+ */
+import { describe, it, expect } from "vitest";
+import {
+  buildForestPlots,
+  normaliseEffect,
+  type ForestStudyInput,
+} from "@/lib/effect-sizes";
+import type { EffectEstimate } from "@/lib/prompts";
+
+function study(
+  id: string,
+  effect: EffectEstimate,
+  overrides: Partial<ForestStudyInput> = {}
+): ForestStudyInput {
+  return {
+    claimPaperId: `cp-${id}`,
+    paperId: `p-${id}`,
+    paperTitle: `Study ${id}`,
+    publishedYear: 2020,
+    studyType: "RCT",
+    stance: "SUPPORTS",
+    sampleSize: 100,
+    effect,
+    ...overrides,
+  };
+}
+
+// ── normaliseEffect ─────────────────────────────────────────────────────
+
+describe("normaliseEffect", () => {
+  it("converts odds ratios to SMD with the logit method", () => {
+    expect(
+      normaliseEffect({ measure: "OR", value: 2, ciLower: 1.5, ciUpper: 3 })
+    ).toEqual({
+      scale: "SMD",
+      value: 0.382,
+      ciLower: 0.224,
+      ciUpper: 0.606,
+      approximate: false,
+    });
+  });
+
+  it("reads risk and hazard ratios as odds ratios, marked approximate", () => {
+    const rr = normaliseEffect({ measure: "RR", value: 0.5, ciLower: null, ciUpper: null });
+    const hr = normaliseEffect({ measure: "HR", value: 1, ciLower: null, ciUpper: null });
+    expect(rr).toMatchObject({ scale: "SMD", value: -0.382, approximate: true });
+    expect(hr).toMatchObject({ scale: "SMD", value: 0, approximate: true });
+  });
+
+  it("keeps SMD, mean differences and percent changes on their own scales", () => {
+    const effect = { value: 1.4, ciLower: 0.8, ciUpper: 2 };
+    expect(normaliseEffect({ measure: "SMD", ...effect })).toEqual({
+      scale: "SMD",
+      ...effect,
+      approximate: false,
+    });
+    expect(normaliseEffect({ measure: "MD", ...effect })?.scale).toBe("MD");
+    expect(normaliseEffect({ measure: "PERCENT_CHANGE", ...effect })?.scale).toBe(
+      "PERCENT_CHANGE"
+    );
+  });
+
+  it("returns null for OTHER and non-positive ratios", () => {
+    expect(normaliseEffect({ measure: "OTHER", value: 3, ciLower: null, ciUpper: null })).toBeNull();
+    expect(normaliseEffect({ measure: "OR", value: 0, ciLower: null, ciUpper: null })).toBeNull();
+    expect(
+      normaliseEffect({ measure: "OR", value: 2, ciLower: 0, ciUpper: 4 })?.ciLower
+    ).toBeNull();
+  });
+});
+
+// ── buildForestPlots ────────────────────────────────────────────────────
+
+describe("buildForestPlots", () => {
+  it("groups studies by scale in a fixed order, oldest first", () => {
+    const plots = buildForestPlots([
+      study("pct", { measure: "PERCENT_CHANGE", value: 8, ciLower: null, ciUpper: null }),
+      study("new", { measure: "SMD", value: 0.3, ciLower: 0.1, ciUpper: 0.5 }, { publishedYear: 2024 }),
+      study("old", { measure: "OR", value: 2, ciLower: null, ciUpper: null }, { publishedYear: 2010 }),
+      study("undated", { measure: "SMD", value: 0.1, ciLower: null, ciUpper: null }, { publishedYear: null }),
+      study("other", { measure: "OTHER", value: 1, ciLower: null, ciUpper: null }),
+    ]);
+
+    expect(plots.map((p) => p.scale)).toEqual(["SMD", "PERCENT_CHANGE"]);
+    expect(plots[0].label).toBe("Standardised mean difference");
+    expect(plots[0].studies.map((s) => s.claimPaperId)).toEqual([
+      "cp-old",
+      "cp-new",
+      "cp-undated",
+    ]);
+    expect(plots[0].studies[0]).toMatchObject({
+      value: 0.382,
+      effect: { measure: "OR", value: 2 },
+    });
+  });
+
+  it("returns no plots when nothing can be plotted", () => {
+    expect(buildForestPlots([])).toEqual([]);
+    expect(
+      buildForestPlots([study("x", { measure: "OTHER", value: 1, ciLower: null, ciUpper: null })])
+    ).toEqual([]);
+  });
+});
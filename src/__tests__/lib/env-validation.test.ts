@@ -108,6 +108,14 @@ describe("checkProductionReadiness", () => {
     expect(warnings.some((w) => w.includes("OPENAI_API_KEY"))).toBe(true);
   });
 
+  it("warns when the fake LLM provider is enabled", () => {
+    const { warnings } = checkProductionReadiness({
+      ...VALID_ENV,
+      LLM_PROVIDER: "fake",
+    });
+    expect(warnings.some((w) => w.includes("Fake LLM provider"))).toBe(true);
+  });
+
   it("no OAuth warning when Google is configured", () => {
     const { warnings } = checkProductionReadiness({
       ...VALID_ENV,
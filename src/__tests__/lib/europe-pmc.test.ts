@@ -0,0 +1,140 @@
+/**
+ * Tests for the Europe PMC client (src/lib/europe-pmc.ts)
+ *
+ * Runs parseEuropePmcSearch against a recorded `resultType=core` search
+ * response in src/__tests__/fixtures/europe-pmc, and checks request
+ * construction and error handling with mocked fetch.
+ */
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { readFileSync } from "fs";
+import path from "path";
+import {
+  EUROPE_PMC_BASE_URL,
+  parseEuropePmcSearch,
+  searchEuropePmc,
+} from "@/lib/europe-pmc";
+
+// ── Fixtures ────────────────────────────────────────────────────────────
+
+function loadFixture(name: string): unknown {
+  return JSON.parse(
+    readFileSync(
+      path.join(__dirname, "..", "fixtures", "europe-pmc", name),
+      "utf-8"
+    )
+  );
+}
+
+const SEARCH = loadFixture("search-core.json");
+
+const mockFetch = vi.fn();
+vi.stubGlobal("fetch", mockFetch);
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+// ── Tests ───────────────────────────────────────────────────────────────
+
+describe("parseEuropePmcSearch", () => {
+  it("reads the hit count and skips records without a title", () => {
+    const result = parseEuropePmcSearch(SEARCH);
+    expect(result.hitCount).toBe(1842);
+    expect(result.articles.map((a) => a.id)).toEqual(["36812345", "PPR612345"]);
+  });
+
+  it("extracts identifiers, journal and year from a MEDLINE record", () => {
+    const [article] = parseEuropePmcSearch(SEARCH).articles;
+    expect(article).toMatchObject({
+      source: "MED",
+      pmid: "36812345",
+      pmcid: "PMC9956789",
+      doi: "10.3390/nu15040912",
+      journal: "Nutrients",
+      publishedYear: 2023,
+      isPreprint: false,
+    });
+    expect(article.authors).toEqual(["Devries MC", "Phillips SM", "Candow DG"]);
+  });
+
+  it("drops the trailing period from titles", () => {
+    const [article] = parseEuropePmcSearch(SEARCH).articles;
+    expect(article.title).toBe(
+      "Effects of Creatine Supplementation on Muscle Strength in Older Adults: A Systematic Review and Meta-Analysis"
+    );
+  });
+
+  it("strips inline HTML from abstracts, keeping headings on their own lines", () => {
+    const [article] = parseEuropePmcSearch(SEARCH).articles;
+    expect(article.abstract).toBe(
+      "Background\nCreatine is widely used to improve strength.\nResults\nTwenty-two RCTs (n = 721) were included. Creatine increased chest press strength (SMD 0.35, 95% CI 0.14 to 0.56)."
+    );
+  });
+
+  it("prefers the open-access HTML link over PDF and subscription links", () => {
+    const [article] = parseEuropePmcSearch(SEARCH).articles;
+    expect(article.fullTextUrl).toBe("https://europepmc.org/articles/PMC9956789");
+  });
+
+  it("marks PPR records as preprints and splits the author string", () => {
+    const preprint = parseEuropePmcSearch(SEARCH).articles[1];
+    expect(preprint.isPreprint).toBe(true);
+    expect(preprint.pmid).toBeUndefined();
+    expect(preprint.journal).toBeUndefined();
+    expect(preprint.fullTextUrl).toBeUndefined();
+    expect(preprint.authors).toEqual(["Gordji-Nejad A", "Matusch A", "Li S"]);
+    expect(preprint.abstract).toBe(
+      "We tested whether a single high dose of creatine offsets cognitive decline during sleep deprivation."
+    );
+  });
+
+  it("returns no articles for an empty response", () => {
+    expect(parseEuropePmcSearch({})).toEqual({ hitCount: 0, articles: [] });
+  });
+});
+
+describe("searchEuropePmc", () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+  });
+
+  it("requests core results as JSON with the page size", async () => {
+    mockFetch.mockResolvedValue(jsonResponse(SEARCH));
+
+    const result = await searchEuropePmc("creatine strength", { maxResults: 5 });
+
+    const url = new URL(mockFetch.mock.calls[0][0]);
+    expect(`${url.origin}${url.pathname}`).toBe(`${EUROPE_PMC_BASE_URL}/search`);
+    expect(url.searchParams.get("query")).toBe("creatine strength");
+    expect(url.searchParams.get("format")).toBe("json");
+    expect(url.searchParams.get("resultType")).toBe("core");
+    expect(url.searchParams.get("pageSize")).toBe("5");
+    expect(result.articles).toHaveLength(2);
+  });
+
+  it("filters to records first indexed since a date", async () => {
+    mockFetch.mockResolvedValue(jsonResponse(SEARCH));
+
+    await searchEuropePmc("creatine strength", {
+      since: new Date("2026-01-10T08:00:00Z"),
+    });
+
+    const url = new URL(mockFetch.mock.calls[0][0]);
+    expect(url.searchParams.get("query")).toBe(
+      "(creatine strength) AND FIRST_IDATE:[2026-01-10 TO 3000-12-31]"
+    );
+  });
+
+  it("throws on a non-OK response", async () => {
+    mockFetch.mockResolvedValue(
+      new Response("busy", { status: 503, statusText: "Service Unavailable" })
+    );
+
+    await expect(searchEuropePmc("creatine")).rejects.toThrow(
+      "Europe PMC search failed: 503 Service Unavailable"
+    );
+  });
+});
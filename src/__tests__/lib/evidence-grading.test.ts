@@ -0,0 +1,145 @@
+/**
+ * Tests for evidence grading (src/lib/evidence-grading.ts)
+ *
+ * Covers design levels, rating down, certainty bands, card weight, the
+ * rule-based verdict confidence and the review threshold.
+ */
+import { describe, it, expect } from "vitest";
+import {
+  CONFIDENCE_REVIEW_THRESHOLD,
+  gradeEvidence,
+  needsConfidenceReview,
+  ruleBasedConfidence,
+  type GradingInput,
+} from "@/lib/evidence-grading";
+
+const NOW = new Date("2026-06-01");
+
+function input(overrides: Partial<GradingInput> = {}): GradingInput {
+  return {
+    studyType: "RCT",
+    sampleSize: 500,
+    relevanceScore: 1,
+    limitations: [],
+    publishedYear: 2024,
+    ...overrides,
+  };
+}
+
+// ── gradeEvidence ───────────────────────────────────────────────────────
+
+describe("gradeEvidence", () => {
+  it("starts from the study design level", () => {
+    expect(gradeEvidence(input({ studyType: "Meta-analysis" }), NOW).quality).toBe(1);
+    expect(gradeEvidence(input({ studyType: "RCT" }), NOW).quality).toBe(0.8);
+    expect(gradeEvidence(input({ studyType: "Cohort" }), NOW).quality).toBe(0.55);
+    expect(gradeEvidence(input({ studyType: "In vitro" }), NOW).quality).toBe(0.15);
+  });
+
+  it("ranks a meta-analysis above an in-vitro study", () => {
+    const meta = gradeEvidence(input({ studyType: "Meta-analysis" }), NOW);
+    const vitro = gradeEvidence(input({ studyType: "In vitro" }), NOW);
+    expect(meta.weight).toBeGreaterThan(vitro.weight);
+  });
+
+  it("rates down small and unreported samples", () => {
+    expect(gradeEvidence(input({ sampleSize: 20 }), NOW).quality).toBe(0.65);
+    expect(gradeEvidence(input({ sampleSize: 50 }), NOW).quality).toBe(0.7);
+    expect(gradeEvidence(input({ sampleSize: 200 }), NOW).quality).toBe(0.75);
+    expect(gradeEvidence(input({ sampleSize: null }), NOW).quality).toBe(0.75);
+  });
+
+  it("rates down each limitation, up to a cap", () => {
+    expect(gradeEvidence(input({ limitations: ["a", "b"] }), NOW).quality).toBe(0.74);
+    const many = Array.from({ length: 10 }, (_, i) => `limitation ${i}`);
+    expect(gradeEvidence(input({ limitations: many }), NOW).quality).toBe(0.65);
+  });
+
+  it("rates down papers under an expression of concern", () => {
+    expect(
+      gradeEvidence(input({ retractionStatus: "EXPRESSION_OF_CONCERN" }), NOW).quality
+    ).toBe(0.55);
+    expect(gradeEvidence(input({ retractionStatus: "NONE" }), NOW).quality).toBe(0.8);
+  });
+
+  it("rates down older papers", () => {
+    expect(gradeEvidence(input({ publishedYear: 2014 }), NOW).quality).toBe(0.75);
+    expect(gradeEvidence(input({ publishedYear: 2000 }), NOW).quality).toBe(0.7);
+    expect(gradeEvidence(input({ publishedYear: null }), NOW).quality).toBe(0.8);
+  });
+
+  it("never drops quality below the floor", () => {
+    const grade = gradeEvidence(
+      input({
+        studyType: "Expert opinion",
+        sampleSize: null,
+        limitations: ["a", "b", "c", "d", "e", "f"],
+        publishedYear: 1990,
+      }),
+      NOW
+    );
+    expect(grade.quality).toBe(0.05);
+    expect(grade.certainty).toBe("VERY_LOW");
+  });
+
+  it("maps quality to a certainty band", () => {
+    expect(gradeEvidence(input({ studyType: "Meta-analysis" }), NOW).certainty).toBe("HIGH");
+    expect(gradeEvidence(input({ studyType: "Cohort" }), NOW).certainty).toBe("MODERATE");
+    expect(gradeEvidence(input({ studyType: "Cross-sectional" }), NOW).certainty).toBe("LOW");
+    expect(gradeEvidence(input({ studyType: "Animal study" }), NOW).certainty).toBe("VERY_LOW");
+  });
+
+  it("weights quality by relevance", () => {
+    const grade = gradeEvidence(
+      input({ studyType: "Meta-analysis", sampleSize: 350, limitations: ["x"], relevanceScore: 0.95 }),
+      NOW
+    );
+    expect(grade).toEqual({ quality: 0.97, certainty: "HIGH", weight: 0.92 });
+  });
+});
+
+// ── ruleBasedConfidence ─────────────────────────────────────────────────
+
+describe("ruleBasedConfidence", () => {
+  const mixed = [
+    { stance: "SUPPORTS", evidenceWeight: 1 },
+    { stance: "SUPPORTS", evidenceWeight: 1 },
+    { stance: "CONTRADICTS", evidenceWeight: 1 },
+  ];
+
+  it("scales consistency by the amount of evidence", () => {
+    expect(ruleBasedConfidence(mixed.slice(0, 2), "SUPPORTED")).toBe(0.63);
+    expect(ruleBasedConfidence(mixed, "SUPPORTED")).toBe(0.52);
+    expect(ruleBasedConfidence(mixed, "CONTRADICTED")).toBe(0.26);
+  });
+
+  it("rates MIXED by how evenly the weight is split", () => {
+    expect(ruleBasedConfidence(mixed, "MIXED")).toBe(0.39);
+    expect(ruleBasedConfidence(mixed.slice(0, 2), "MIXED")).toBe(0);
+  });
+
+  it("is most confident in INSUFFICIENT when nothing is directional", () => {
+    expect(ruleBasedConfidence([], "INSUFFICIENT")).toBe(1);
+    expect(ruleBasedConfidence(mixed, "INSUFFICIENT")).toBe(0.22);
+    expect(ruleBasedConfidence([], "SUPPORTED")).toBe(0);
+  });
+
+  it("ignores off-topic and ungraded cards", () => {
+    const noisy = [
+      ...mixed.slice(0, 2),
+      { stance: "INSUFFICIENT", evidenceWeight: 1 },
+      { stance: "CONTRADICTS" },
+    ];
+    expect(ruleBasedConfidence(noisy, "SUPPORTED")).toBe(0.63);
+  });
+});
+
+// ── needsConfidenceReview ───────────────────────────────────────────────
+
+describe("needsConfidenceReview", () => {
+  it("flags gaps wider than the threshold", () => {
+    expect(needsConfidenceReview(0.9, 0.9 - CONFIDENCE_REVIEW_THRESHOLD - 0.01)).toBe(true);
+    expect(needsConfidenceReview(0.3, 0.8)).toBe(true);
+    expect(needsConfidenceReview(0.8, 0.7)).toBe(false);
+  });
+});
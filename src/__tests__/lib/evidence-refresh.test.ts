@@ -0,0 +1,102 @@
+/**
+ * Tests for the scheduled evidence refresh (src/lib/evidence-refresh.ts)
+ *
+ * Prisma and the dossier job helpers are mocked: checks which claims are
+ * picked, that each gets an incremental run, and that claims with a run in
+ * progress or a failed enqueue don't stop the rest.
+ */
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("@/lib/prisma", () => ({
+  prisma: {
+    market: { findMany: vi.fn() },
+  },
+}));
+
+vi.mock("@/lib/dossier-jobs", () => ({
+  findActiveDossierJob: vi.fn(),
+  startDossierJob: vi.fn(),
+}));
+
+import { prisma } from "@/lib/prisma";
+import { findActiveDossierJob, startDossierJob } from "@/lib/dossier-jobs";
+import { scheduleEvidenceRefresh } from "@/lib/evidence-refresh";
+
+const mockFindMany = vi.mocked(prisma.market.findMany);
+const mockFindActive = vi.mocked(findActiveDossierJob);
+const mockStart = vi.mocked(startDossierJob);
+
+const NOW = new Date("2026-03-15T00:00:00Z");
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockFindMany.mockResolvedValue([
+    { claimId: "claim-1" },
+    { claimId: "claim-2" },
+  ] as never);
+  mockFindActive.mockResolvedValue(null);
+  mockStart.mockResolvedValue({} as never);
+});
+
+describe("scheduleEvidenceRefresh", () => {
+  it("picks the stalest open and resolved claims past the cut-off", async () => {
+    await scheduleEvidenceRefresh({ now: NOW, maxAgeDays: 14, limit: 10 });
+
+    expect(mockFindMany).toHaveBeenCalledWith({
+      where: {
+        status: { in: ["ACTIVE", "RESOLVED"] },
+        lastDossierAt: { lt: new Date("2026-03-01T00:00:00Z") },
+      },
+      orderBy: { lastDossierAt: "asc" },
+      take: 10,
+      select: { claimId: true },
+    });
+  });
+
+  it("defaults to claims a week stale, 50 at a time", async () => {
+    await scheduleEvidenceRefresh({ now: NOW });
+
+    expect(mockFindMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({
+          lastDossierAt: { lt: new Date("2026-03-08T00:00:00Z") },
+        }),
+        take: 50,
+      })
+    );
+  });
+
+  it("queues an incremental system run for each claim", async () => {
+    const result = await scheduleEvidenceRefresh({ now: NOW });
+
+    expect(result).toEqual({ queued: ["claim-1", "claim-2"], skipped: 0, failed: 0 });
+    expect(mockStart).toHaveBeenCalledWith({
+      claimId: "claim-1",
+      triggeredBy: "system",
+      mode: "INCREMENTAL",
+    });
+    expect(mockFindActive).toHaveBeenCalledWith("claim-1", NOW);
+  });
+
+  it("skips claims with a run in progress", async () => {
+    mockFindActive.mockResolvedValueOnce({ id: "dj-running" } as never);
+
+    const result = await scheduleEvidenceRefresh({ now: NOW });
+
+    expect(result).toEqual({ queued: ["claim-2"], skipped: 1, failed: 0 });
+    expect(mockStart).toHaveBeenCalledTimes(1);
+  });
+
+  it("reports a claim that could not be queued and carries on", async () => {
+    mockStart.mockRejectedValueOnce(new Error("Redis down"));
+    const onError = vi.fn();
+
+    const result = await scheduleEvidenceRefresh({ now: NOW, onError });
+
+    expect(result).toEqual({ queued: ["claim-2"], skipped: 0, failed: 1 });
+    expect(onError).toHaveBeenCalledWith(
+      "Could not queue a refresh for claim claim-1",
+      expect.any(Error)
+    );
+  });
+});
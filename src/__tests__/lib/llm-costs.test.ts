@@ -0,0 +1,253 @@
+/**
+ * Tests for LLM cost accounting (src/lib/llm-costs.ts)
+ *
+ * Pricing and budget parsing are pure; the ledger and totals run against a
+ * mocked Prisma client.
+ */
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("@/lib/prisma", () => ({
+  prisma: {
+    dossierCost: {
+      createMany: vi.fn(),
+      aggregate: vi.fn(),
+      groupBy: vi.fn(),
+    },
+    $queryRaw: vi.fn(),
+  },
+}));
+
+import { prisma } from "@/lib/prisma";
+import {
+  CostLedger,
+  estimateCostUsd,
+  getCostBudgets,
+  getCostSummary,
+  jobCostUsd,
+  modelPrice,
+  monthToDateCostUsd,
+} from "@/lib/llm-costs";
+
+const mockCreateMany = vi.mocked(prisma.dossierCost.createMany);
+const mockAggregate = vi.mocked(prisma.dossierCost.aggregate);
+const mockGroupBy = vi.mocked(prisma.dossierCost.groupBy);
+const mockQueryRaw = vi.mocked(prisma.$queryRaw);
+
+const NOW = new Date("2026-03-15T12:00:00Z");
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockCreateMany.mockResolvedValue({ count: 2 });
+});
+
+// ── Pricing ─────────────────────────────────────────────────────────────
+
+describe("estimateCostUsd", () => {
+  it("prices prompt and completion tokens per million", () => {
+    expect(estimateCostUsd("gpt-4o-mini", 1_000_000, 1_000_000)).toBeCloseTo(0.75);
+    expect(estimateCostUsd("text-embedding-3-small", 500_000, 0)).toBeCloseTo(0.01);
+  });
+
+  it("matches dated snapshots to the longest model name", () => {
+    expect(modelPrice("gpt-4o-mini-2024-07-18")).toEqual({ input: 0.15, output: 0.6 });
+    expect(modelPrice("gpt-4o-2024-08-06")).toEqual({ input: 2.5, output: 10 });
+  });
+
+  it("charges nothing for unpriced models", () => {
+    expect(modelPrice("llama3.1:8b")).toBeNull();
+    expect(estimateCostUsd("llama3.1:8b", 10_000, 10_000)).toBe(0);
+  });
+});
+
+describe("getCostBudgets", () => {
+  it("has no budgets by default and treats blank values as unset", () => {
+    expect(getCostBudgets({ DOSSIER_JOB_BUDGET_USD: "" })).toEqual({
+      jobUsd: null,
+      monthlyUsd: null,
+    });
+  });
+
+  it("reads both budgets", () => {
+    expect(
+      getCostBudgets({ DOSSIER_JOB_BUDGET_USD: "0.5", LLM_MONTHLY_BUDGET_USD: "200" })
+    ).toEqual({ jobUsd: 0.5, monthlyUsd: 200 });
+  });
+
+  it("rejects non-positive budgets", () => {
+    expect(() => getCostBudgets({ LLM_MONTHLY_BUDGET_USD: "-1" })).toThrow(
+      /Invalid budget config: LLM_MONTHLY_BUDGET_USD/
+    );
+  });
+});
+
+// ── Ledger ──────────────────────────────────────────────────────────────
+
+describe("CostLedger", () => {
+  it("prices each call and saves it with its stage", async () => {
+    const ledger = new CostLedger("dj-1");
+    ledger.record({
+      stage: "extraction",
+      model: "gpt-4o-mini",
+      promptTokens: 2000,
+      completionTokens: 500,
+    });
+    ledger.record({
+      stage: "embedding",
+      model: "text-embedding-3-small",
+      promptTokens: 10_000,
+      completionTokens: 0,
+    });
+
+    expect(ledger.totalUsd).toBeCloseTo(0.0006 + 0.0002);
+    expect(await ledger.save()).toBe(2);
+    expect(mockCreateMany).toHaveBeenCalledWith({
+      data: [
+        {
+          dossierJobId: "dj-1",
+          stage: "EXTRACTION",
+          model: "gpt-4o-mini",
+          promptTokens: 2000,
+          completionTokens: 500,
+          costUsd: expect.closeTo(0.0006),
+        },
+        expect.objectContaining({ stage: "EMBEDDING", completionTokens: 0 }),
+      ],
+    });
+  });
+
+  it("saves each entry once", async () => {
+    const ledger = new CostLedger("dj-1");
+    ledger.record({ stage: "planning", model: "gpt-4o-mini", promptTokens: 1, completionTokens: 1 });
+
+    await ledger.save();
+    expect(await ledger.save()).toBe(0);
+    expect(mockCreateMany).toHaveBeenCalledTimes(1);
+  });
+
+  it("is over budget once spend reaches it", () => {
+    const ledger = new CostLedger("dj-1", 0.001);
+    const call = { stage: "extraction" as const, model: "gpt-4o-mini", promptTokens: 4000, completionTokens: 0 };
+
+    ledger.record(call);
+    expect(ledger.overBudget).toBe(false);
+    ledger.record(call);
+    expect(ledger.overBudget).toBe(true);
+  });
+
+  it("counts what earlier attempts of the run spent", () => {
+    const ledger = new CostLedger("dj-1", 0.001, 0.0008);
+    expect(ledger.totalUsd).toBe(0.0008);
+    expect(ledger.overBudget).toBe(false);
+
+    ledger.record({ stage: "extraction", model: "gpt-4o-mini", promptTokens: 4000, completionTokens: 0 });
+    expect(ledger.overBudget).toBe(true);
+  });
+
+  it("is never over budget without one", () => {
+    const ledger = new CostLedger("dj-1");
+    ledger.record({ stage: "synthesis", model: "gpt-4o", promptTokens: 1e6, completionTokens: 1e6 });
+    expect(ledger.overBudget).toBe(false);
+  });
+});
+
+// ── Totals ──────────────────────────────────────────────────────────────
+
+describe("jobCostUsd", () => {
+  it("sums the costs saved for one run", async () => {
+    mockAggregate.mockResolvedValue({ _sum: { costUsd: 0.4 } } as never);
+
+    expect(await jobCostUsd("dj-1")).toBe(0.4);
+    expect(mockAggregate).toHaveBeenCalledWith({
+      where: { dossierJobId: "dj-1" },
+      _sum: { costUsd: true },
+    });
+  });
+
+  it("is zero for a first attempt", async () => {
+    mockAggregate.mockResolvedValue({ _sum: { costUsd: null } } as never);
+
+    expect(await jobCostUsd("dj-1")).toBe(0);
+  });
+});
+
+describe("monthToDateCostUsd", () => {
+  it("sums costs since the start of the UTC month", async () => {
+    mockAggregate.mockResolvedValue({ _sum: { costUsd: 12.5 } } as never);
+
+    expect(await monthToDateCostUsd(NOW)).toBe(12.5);
+    expect(mockAggregate).toHaveBeenCalledWith({
+      where: { createdAt: { gte: new Date("2026-03-01T00:00:00Z") } },
+      _sum: { costUsd: true },
+    });
+  });
+
+  it("is zero without any costs", async () => {
+    mockAggregate.mockResolvedValue({ _sum: { costUsd: null } } as never);
+
+    expect(await monthToDateCostUsd(NOW)).toBe(0);
+  });
+});
+
+describe("getCostSummary", () => {
+  const totals = { costUsd: 1.5, promptTokens: 90_000, completionTokens: 20_000, runs: 3 };
+
+  beforeEach(() => {
+    mockQueryRaw
+      .mockResolvedValueOnce([
+        { bucket: new Date("2026-03-14T00:00:00Z"), ...totals },
+        { bucket: new Date("2026-03-15T00:00:00Z"), ...totals, costUsd: 0.25 },
+      ] as never)
+      .mockResolvedValueOnce([
+        { bucket: new Date("2026-02-01T00:00:00Z"), ...totals, costUsd: 40 },
+        { bucket: new Date("2026-03-01T00:00:00Z"), ...totals, costUsd: 9 },
+      ] as never);
+    mockGroupBy.mockResolvedValue([
+      { stage: "EMBEDDING", model: "text-embedding-3-small", _sum: { costUsd: 0.5 }, _count: { _all: 20 } },
+      { stage: "EXTRACTION", model: "gpt-4o-mini", _sum: { costUsd: 7 }, _count: { _all: 45 } },
+    ] as never);
+  });
+
+  it("returns today's and this month's totals with the series", async () => {
+    const summary = await getCostSummary(NOW);
+
+    expect(summary.today).toEqual({ ...totals, costUsd: 0.25 });
+    expect(summary.month).toEqual({ ...totals, costUsd: 9 });
+    expect(summary.daily.map((d) => d.date)).toEqual(["2026-03-14", "2026-03-15"]);
+    expect(summary.monthly).toEqual([
+      { month: "2026-02", ...totals, costUsd: 40 },
+      { month: "2026-03", ...totals, costUsd: 9 },
+    ]);
+  });
+
+  it("lists this month's spend by stage, most expensive first", async () => {
+    const summary = await getCostSummary(NOW);
+
+    expect(summary.byStage).toEqual([
+      { stage: "EXTRACTION", model: "gpt-4o-mini", costUsd: 7, calls: 45 },
+      { stage: "EMBEDDING", model: "text-embedding-3-small", costUsd: 0.5, calls: 20 },
+    ]);
+    expect(mockGroupBy).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { createdAt: { gte: new Date("2026-03-01T00:00:00Z") } },
+      })
+    );
+  });
+
+  it("reports zero for a day without calls", async () => {
+    mockQueryRaw.mockReset();
+    mockQueryRaw.mockResolvedValue([] as never);
+
+    const summary = await getCostSummary(NOW);
+
+    expect(summary.today).toEqual({ costUsd: 0, promptTokens: 0, completionTokens: 0, runs: 0 });
+    expect(summary.daily).toEqual([]);
+  });
+
+  it("windows the series to 30 days and 12 months", async () => {
+    await getCostSummary(NOW);
+
+    const [daily, monthly] = mockQueryRaw.mock.calls;
+    expect(daily).toContainEqual(new Date("2026-02-14T00:00:00Z"));
+    expect(monthly).toContainEqual(new Date("2025-04-01T00:00:00Z"));
+  });
+});
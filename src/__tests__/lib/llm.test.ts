@@ -0,0 +1,367 @@
+/**
+ * Tests for the LLM & embedding provider layer (src/lib/llm.ts)
+ *
+ * Covers env config parsing, provider selection, the OpenAI-compatible
+ * request shape, usage reporting, schema validation with repair, and
+ * determinism of the offline fakes. Runs under node:
+ * the OpenAI SDK refuses to construct a client in jsdom.
+ *
+ * @vitest-environment node
+ */
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("@/lib/openai", () => ({
+  openai: {
+    chat: { completions: { create: vi.fn() } },
+    embeddings: { create: vi.fn() },
+  },
+}));
+
+import { z } from "zod";
+import { openai } from "@/lib/openai";
+import { queryPlanSchema } from "@/lib/prompts";
+import {
+  getLlmConfig,
+  getLlmProvider,
+  getEmbeddingProvider,
+  completeJson,
+  withUsage,
+  FakeLlmProvider,
+  FakeEmbeddingProvider,
+  LlmValidationError,
+  EMBEDDING_DIMENSIONS,
+  type LlmProvider,
+} from "@/lib/llm";
+
+const mockChatCreate = vi.mocked(openai.chat.completions.create);
+const mockEmbeddingsCreate = vi.mocked(openai.embeddings.create);
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+// ── getLlmConfig ────────────────────────────────────────────────────────
+
+describe("getLlmConfig", () => {
+  it("defaults to OpenAI with the previous hard-coded settings", () => {
+    const config = getLlmConfig({});
+    expect(config.provider).toBe("openai");
+    expect(config.embeddingProvider).toBe("openai");
+    expect(config.embeddingModel).toBe("text-embedding-3-small");
+    expect(config.tasks).toEqual({
+      planning: { model: "gpt-4o-mini", temperature: 0.2, maxTokens: 600 },
+      extraction: { model: "gpt-4o-mini", temperature: 0.2, maxTokens: 800 },
+      synthesis: { model: "gpt-4o-mini", temperature: 0.3, maxTokens: 1200 },
+    });
+  });
+
+  it("reads per-task overrides and treats blank values as unset", () => {
+    const config = getLlmConfig({
+      LLM_SYNTHESIS_MODEL: "gpt-4o",
+      LLM_SYNTHESIS_TEMPERATURE: "0",
+      LLM_EXTRACTION_MAX_TOKENS: "600",
+      LLM_EXTRACTION_MODEL: "",
+    });
+    expect(config.tasks.synthesis).toEqual({
+      model: "gpt-4o",
+      temperature: 0,
+      maxTokens: 1200,
+    });
+    expect(config.tasks.extraction.model).toBe("gpt-4o-mini");
+    expect(config.tasks.extraction.maxTokens).toBe(600);
+  });
+
+  it("requires a base URL for the local provider", () => {
+    expect(() => getLlmConfig({ LLM_PROVIDER: "local" })).toThrow(
+      "LLM_BASE_URL is required"
+    );
+    expect(
+      getLlmConfig({
+        LLM_PROVIDER: "local",
+        LLM_BASE_URL: "http://localhost:11434/v1",
+      }).baseUrl
+    ).toBe("http://localhost:11434/v1");
+  });
+
+  it("rejects unknown providers and invalid numbers", () => {
+    expect(() => getLlmConfig({ LLM_PROVIDER: "anthropic" })).toThrow(
+      "Invalid LLM config: LLM_PROVIDER"
+    );
+    expect(() => getLlmConfig({ LLM_EXTRACTION_TEMPERATURE: "hot" })).toThrow(
+      "Invalid LLM config: LLM_EXTRACTION_TEMPERATURE"
+    );
+  });
+});
+
+// ── Provider selection ──────────────────────────────────────────────────
+
+describe("getLlmProvider / getEmbeddingProvider", () => {
+  it("selects providers by name", () => {
+    const local = getLlmConfig({
+      LLM_PROVIDER: "local",
+      EMBEDDING_PROVIDER: "fake",
+      LLM_BASE_URL: "http://localhost:8080/v1",
+    });
+    expect(getLlmProvider(local).name).toBe("local");
+    expect(getEmbeddingProvider(local).name).toBe("fake");
+    expect(getLlmProvider(getLlmConfig({})).name).toBe("openai");
+  });
+
+  it("sends the task's model settings in JSON mode", async () => {
+    mockChatCreate.mockResolvedValueOnce({
+      choices: [{ message: { content: '{"ok":true}' } }],
+      usage: { prompt_tokens: 120, completion_tokens: 30 },
+    } as never);
+
+    const provider = getLlmProvider(
+      getLlmConfig({ LLM_SYNTHESIS_MODEL: "gpt-4o" })
+    );
+    const result = await provider.complete({
+      task: "synthesis",
+      system: "sys",
+      user: "usr",
+    });
+
+    expect(mockChatCreate).toHaveBeenCalledWith({
+      model: "gpt-4o",
+      response_format: { type: "json_object" },
+      messages: [
+        { role: "system", content: "sys" },
+        { role: "user", content: "usr" },
+      ],
+      temperature: 0.3,
+      max_tokens: 1200,
+    });
+    expect(result).toEqual({
+      content: '{"ok":true}',
+      model: "gpt-4o",
+      usage: { promptTokens: 120, completionTokens: 30 },
+    });
+  });
+
+  it("returns null content when the model replies with nothing", async () => {
+    mockChatCreate.mockResolvedValueOnce({ choices: [] } as never);
+    const result = await getLlmProvider(getLlmConfig({})).complete({
+      task: "extraction",
+      system: "s",
+      user: "u",
+    });
+    expect(result.content).toBeNull();
+  });
+
+  it("rejects embeddings that don't fit the vector column", async () => {
+    mockEmbeddingsCreate.mockResolvedValueOnce({
+      data: [{ embedding: [0.1, 0.2] }],
+    } as never);
+    const provider = getEmbeddingProvider(getLlmConfig({}));
+    await expect(provider.embed(["text"])).rejects.toThrow(
+      `returned 2 dimensions; expected ${EMBEDDING_DIMENSIONS}`
+    );
+  });
+
+  it("reports embedding token usage", async () => {
+    mockEmbeddingsCreate.mockResolvedValueOnce({
+      data: [{ embedding: new Array(EMBEDDING_DIMENSIONS).fill(0) }],
+      usage: { prompt_tokens: 42, total_tokens: 42 },
+    } as never);
+    const onUsage = vi.fn();
+
+    await getEmbeddingProvider(getLlmConfig({})).embed(["text"], onUsage);
+
+    expect(onUsage).toHaveBeenCalledWith({
+      stage: "embedding",
+      model: "text-embedding-3-small",
+      promptTokens: 42,
+      completionTokens: 0,
+    });
+  });
+});
+
+// ── withUsage ───────────────────────────────────────────────────────────
+
+describe("withUsage", () => {
+  const request = { task: "synthesis" as const, system: "s", user: "u" };
+
+  it("reports each completion's usage with its task", async () => {
+    mockChatCreate.mockResolvedValueOnce({
+      choices: [{ message: { content: "{}" } }],
+      usage: { prompt_tokens: 1200, completion_tokens: 300, total_tokens: 1500 },
+    } as never);
+    const onUsage = vi.fn();
+    const provider = withUsage(getLlmProvider(getLlmConfig({})), onUsage);
+
+    const result = await provider.complete(request);
+
+    expect(result.content).toBe("{}");
+    expect(provider.name).toBe("openai");
+    expect(onUsage).toHaveBeenCalledWith({
+      stage: "synthesis",
+      model: "gpt-4o-mini",
+      promptTokens: 1200,
+      completionTokens: 300,
+    });
+  });
+
+  it("reports nothing for completions without usage", async () => {
+    const onUsage = vi.fn();
+    const provider = withUsage(
+      getLlmProvider(getLlmConfig({ LLM_PROVIDER: "fake" })),
+      onUsage
+    );
+
+    await provider.complete(request);
+
+    expect(onUsage).not.toHaveBeenCalled();
+  });
+});
+
+// ── completeJson ────────────────────────────────────────────────────────
+
+describe("completeJson", () => {
+  const schema = z.object({ stance: z.enum(["SUPPORTS", "CONTRADICTS"]) });
+  const request = { task: "extraction" as const, system: "sys", user: "prompt" };
+
+  function scripted(...contents: (string | null)[]) {
+    const complete = vi.fn();
+    for (const content of contents) {
+      complete.mockResolvedValueOnce({ content, model: "m" });
+    }
+    const provider: LlmProvider = { name: "fake", complete };
+    return { provider, complete };
+  }
+
+  it("returns a valid response without repairing", async () => {
+    const { provider, complete } = scripted('{"stance":"SUPPORTS"}');
+    const onInvalid = vi.fn();
+
+    await expect(
+      completeJson(provider, request, schema, onInvalid)
+    ).resolves.toEqual({ stance: "SUPPORTS" });
+    expect(complete).toHaveBeenCalledTimes(1);
+    expect(onInvalid).not.toHaveBeenCalled();
+  });
+
+  it("sends one repair prompt with the validation errors", async () => {
+    const { provider, complete } = scripted(
+      '{"stance":"PARTIALLY_SUPPORTS"}',
+      '{"stance":"SUPPORTS"}'
+    );
+    const onInvalid = vi.fn();
+
+    const result = await completeJson(provider, request, schema, onInvalid);
+
+    expect(result).toEqual({ stance: "SUPPORTS" });
+    const repair = complete.mock.calls[1][0];
+    expect(repair.task).toBe("extraction");
+    expect(repair.system).toBe("sys");
+    expect(repair.user).toContain("prompt");
+    expect(repair.user).toContain('{"stance":"PARTIALLY_SUPPORTS"}');
+    expect(repair.user).toMatch(/- stance: Invalid enum value/);
+    expect(onInvalid).toHaveBeenCalledWith({
+      task: "extraction",
+      attempt: 1,
+      errors: [expect.stringMatching(/^stance: /)],
+    });
+  });
+
+  it("reports malformed JSON as a validation error", async () => {
+    const { provider } = scripted("not json", '{"stance":"CONTRADICTS"}');
+    const onInvalid = vi.fn();
+
+    await completeJson(provider, request, schema, onInvalid);
+
+    expect(onInvalid.mock.calls[0][0].errors[0]).toMatch(
+      /^Response is not valid JSON/
+    );
+  });
+
+  it("throws after the repair is also invalid", async () => {
+    const { provider, complete } = scripted('{"stance":1}', '{"stance":2}');
+    const onInvalid = vi.fn();
+
+    await expect(
+      completeJson(provider, request, schema, onInvalid)
+    ).rejects.toBeInstanceOf(LlmValidationError);
+    expect(complete).toHaveBeenCalledTimes(2);
+    expect(onInvalid).toHaveBeenCalledTimes(2);
+    expect(onInvalid.mock.calls[1][0].attempt).toBe(2);
+  });
+
+  it("returns null when the model returns nothing", async () => {
+    const { provider, complete } = scripted(null);
+    await expect(completeJson(provider, request, schema)).resolves.toBeNull();
+    expect(complete).toHaveBeenCalledTimes(1);
+  });
+});
+
+// ── Fakes ───────────────────────────────────────────────────────────────
+
+describe("FakeLlmProvider", () => {
+  const provider = new FakeLlmProvider(getLlmConfig({}).tasks);
+
+  it("returns a schema-valid query plan for the claim", async () => {
+    const result = await provider.complete({
+      task: "planning",
+      system: "s",
+      user: 'Claim: "Creatine improves strength"\n\narXiv categories:',
+    });
+    const plan = queryPlanSchema.parse(JSON.parse(result.content!));
+    expect(plan.intervention.term).toBe("Creatine improves strength");
+  });
+
+  it("returns well-formed extraction and synthesis JSON", async () => {
+    const extraction = await provider.complete({
+      task: "extraction",
+      system: "s",
+      user: "paper A",
+    });
+    const synthesis = await provider.complete({
+      task: "synthesis",
+      system: "s",
+      user: "claim B",
+    });
+
+    expect(JSON.parse(extraction.content!)).toMatchObject({
+      stance: expect.stringMatching(/SUPPORTS|CONTRADICTS|NEUTRAL/),
+      keyFindings: expect.any(Array),
+    });
+    expect(JSON.parse(synthesis.content!)).toMatchObject({
+      verdict: expect.stringMatching(/SUPPORTED|CONTRADICTED|MIXED/),
+      strengthOfEvidence: "WEAK",
+    });
+    expect(mockChatCreate).not.toHaveBeenCalled();
+  });
+
+  it("is deterministic for the same prompt", async () => {
+    const request = { task: "extraction" as const, system: "s", user: "same" };
+    const a = await provider.complete(request);
+    const b = await provider.complete(request);
+    expect(a).toEqual(b);
+  });
+});
+
+describe("FakeEmbeddingProvider", () => {
+  const provider = new FakeEmbeddingProvider();
+  const cosine = (a: number[], b: number[]) =>
+    a.reduce((sum, v, i) => sum + v * b[i], 0);
+
+  it("returns unit vectors of the column width", async () => {
+    const [vector] = await provider.embed(["creatine improves strength"]);
+    expect(vector).toHaveLength(EMBEDDING_DIMENSIONS);
+    expect(cosine(vector, vector)).toBeCloseTo(1);
+  });
+
+  it("ranks texts sharing words above unrelated ones", async () => {
+    const [query, related, unrelated] = await provider.embed([
+      "creatine strength",
+      "creatine increased leg press strength",
+      "vitamin d and sleep quality",
+    ]);
+    expect(cosine(query, related)).toBeGreaterThan(cosine(query, unrelated));
+  });
+
+  it("never calls the embeddings API", async () => {
+    await provider.embed(["x"]);
+    expect(mockEmbeddingsCreate).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Tests for new-paper alerts (src/lib/paper-alerts.ts)
+ *
+ * `mightChangeVerdict` is pure; `notifySubscribers` runs against mocked
+ * Prisma and queue modules.
+ */
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("@/lib/prisma", () => ({
+  prisma: {
+    alertSubscription: { findMany: vi.fn() },
+  },
+}));
+
+vi.mock("@/lib/queue", () => ({
+  enqueuePaperAlerts: vi.fn(),
+}));
+
+import { prisma } from "@/lib/prisma";
+import { enqueuePaperAlerts } from "@/lib/queue";
+import {
+  mightChangeVerdict,
+  notifySubscribers,
+  type NewFinding,
+} from "@/lib/paper-alerts";
+
+const mockFindMany = vi.mocked(prisma.alertSubscription.findMany);
+const mockEnqueue = vi.mocked(enqueuePaperAlerts);
+
+function finding(overrides: Partial<NewFinding> = {}): NewFinding {
+  return {
+    paperId: "paper-1",
+    stance: "CONTRADICTS",
+    relevanceScore: 0.9,
+    evidenceWeight: 0.8,
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe("mightChangeVerdict", () => {
+  it("flags a strong paper taking the opposite side of the verdict", () => {
+    expect(mightChangeVerdict(finding({ stance: "CONTRADICTS" }), "SUPPORTED")).toBe(true);
+    expect(mightChangeVerdict(finding({ stance: "SUPPORTS" }), "CONTRADICTED")).toBe(true);
+  });
+
+  it("ignores papers agreeing with the verdict", () => {
+    expect(mightChangeVerdict(finding({ stance: "SUPPORTS" }), "SUPPORTED")).toBe(false);
+    expect(mightChangeVerdict(finding({ stance: "CONTRADICTS" }), "CONTRADICTED")).toBe(false);
+  });
+
+  it("flags any decisive paper without a decisive verdict", () => {
+    for (const outcome of ["MIXED", "INSUFFICIENT", null, undefined] as const) {
+      expect(mightChangeVerdict(finding({ stance: "SUPPORTS" }), outcome)).toBe(true);
+    }
+  });
+
+  it("ignores neutral and inconclusive papers", () => {
+    expect(mightChangeVerdict(finding({ stance: "NEUTRAL" }), null)).toBe(false);
+    expect(mightChangeVerdict(finding({ stance: "INSUFFICIENT" }), null)).toBe(false);
+  });
+
+  it("ignores weakly relevant or low-weight papers", () => {
+    expect(mightChangeVerdict(finding({ relevanceScore: 0.69 }), "SUPPORTED")).toBe(false);
+    expect(mightChangeVerdict(finding({ evidenceWeight: 0.49 }), "SUPPORTED")).toBe(false);
+    expect(
+      mightChangeVerdict(finding({ relevanceScore: 0.7, evidenceWeight: 0.5 }), "SUPPORTED")
+    ).toBe(true);
+  });
+});
+
+describe("notifySubscribers", () => {
+  it("queues alerts for every active subscriber", async () => {
+    mockFindMany.mockResolvedValue([{ userId: "user-1" }, { userId: "user-2" }] as never);
+
+    const notified = await notifySubscribers("claim-1", "dj-1", ["paper-1", "paper-2"]);
+
+    expect(notified).toBe(2);
+    expect(mockFindMany).toHaveBeenCalledWith({
+      where: { claimId: "claim-1", isActive: true },
+      select: { userId: true },
+    });
+    expect(mockEnqueue).toHaveBeenCalledWith(
+      "claim-1",
+      "dj-1",
+      ["paper-1", "paper-2"],
+      ["user-1", "user-2"]
+    );
+  });
+
+  it("queues nothing without subscribers", async () => {
+    mockFindMany.mockResolvedValue([]);
+
+    expect(await notifySubscribers("claim-1", "dj-1", ["paper-1"])).toBe(0);
+    expect(mockEnqueue).not.toHaveBeenCalled();
+  });
+
+  it("skips the lookup without papers", async () => {
+    expect(await notifySubscribers("claim-1", "dj-1", [])).toBe(0);
+    expect(mockFindMany).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,274 @@
+/**
+ * Tests for the paper source registry (src/lib/paper-sources.ts)
+ *
+ * The API clients are mocked; covers per-claim source resolution, each
+ * search source's use of the search plan, and Crossref enrichment.
+ */
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+// ── Mocks ───────────────────────────────────────────────────────────────
+
+const mockSearchPubMed = vi.fn();
+const mockFetchPubMedArticles = vi.fn();
+const mockSearchHealthPapers = vi.fn();
+const mockSearchArxivHealth = vi.fn();
+const mockSearchEuropePmc = vi.fn();
+const mockSearchClinicalTrials = vi.fn();
+const mockGetCrossrefWork = vi.fn();
+
+vi.mock("@/lib/pubmed", () => ({
+  searchPubMed: (...args: unknown[]) => mockSearchPubMed(...args),
+  fetchPubMedArticles: (...args: unknown[]) => mockFetchPubMedArticles(...args),
+}));
+vi.mock("@/lib/semantic-scholar", () => ({
+  searchHealthPapers: (...args: unknown[]) => mockSearchHealthPapers(...args),
+}));
+vi.mock("@/lib/arxiv", () => ({
+  searchArxivHealth: (...args: unknown[]) => mockSearchArxivHealth(...args),
+}));
+vi.mock("@/lib/europe-pmc", () => ({
+  searchEuropePmc: (...args: unknown[]) => mockSearchEuropePmc(...args),
+}));
+vi.mock("@/lib/clinical-trials", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/clinical-trials")>()),
+  searchClinicalTrials: (...args: unknown[]) => mockSearchClinicalTrials(...args),
+}));
+vi.mock("@/lib/crossref", () => ({
+  getCrossrefWork: (...args: unknown[]) => mockGetCrossrefWork(...args),
+}));
+
+import { getPaperSources, PAPER_SOURCES } from "@/lib/paper-sources";
+import type { SearchQueries } from "@/lib/search-plan";
+import type { UnifiedPaper } from "@/lib/papers";
+
+// ── Fixtures ────────────────────────────────────────────────────────────
+
+const QUERIES: SearchQueries = {
+  pubmedQuery: "creatine[tiab] AND strength[tiab]",
+  semanticScholarQueries: ["creatine strength", "creatine older adults"],
+  arxivQuery: "creatine muscle",
+  arxivCategories: ["q-bio.QM"],
+};
+
+function search(id: keyof typeof PAPER_SOURCES, since?: Date) {
+  const source = PAPER_SOURCES[id];
+  if (source.kind !== "search") throw new Error(`${id} is not a search source`);
+  return source.search(QUERIES, 5, { since });
+}
+
+function enrich(papers: UnifiedPaper[]) {
+  const source = PAPER_SOURCES.crossref;
+  if (source.kind !== "metadata") throw new Error("crossref is not metadata");
+  return source.enrich(papers);
+}
+
+const WORK = {
+  doi: "10.1/a",
+  abstract: "Crossref abstract",
+  authors: ["Ada Lovelace"],
+  journal: "Nutrients",
+  publishedYear: 2023,
+  type: "journal-article",
+  isPreprint: false,
+  updatedBy: [],
+  updates: [],
+};
+
+// ── Tests ───────────────────────────────────────────────────────────────
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe("getPaperSources", () => {
+  it("uses PubMed, Semantic Scholar and arXiv when nothing is chosen", () => {
+    const { search, metadata } = getPaperSources([]);
+    expect(search.map((s) => s.id)).toEqual(["pubmed", "semanticScholar", "arxiv"]);
+    expect(metadata).toEqual([]);
+  });
+
+  it("splits chosen sources into search and metadata, in registry order", () => {
+    const { search, metadata } = getPaperSources([
+      "crossref",
+      "clinicalTrials",
+      "pubmed",
+    ]);
+    expect(search.map((s) => s.id)).toEqual(["pubmed", "clinicalTrials"]);
+    expect(metadata.map((s) => s.id)).toEqual(["crossref"]);
+  });
+
+  it("labels every source", () => {
+    for (const source of Object.values(PAPER_SOURCES)) {
+      expect(source.label).toBeTruthy();
+    }
+  });
+});
+
+describe("search sources", () => {
+  it("PubMed searches with the boolean query and fetches the hits", async () => {
+    mockSearchPubMed.mockResolvedValue({ ids: ["111"], count: 1 });
+    mockFetchPubMedArticles.mockResolvedValue([
+      { pmid: "111", title: "Creatine RCT", abstract: "A", authors: [] },
+    ]);
+
+    const papers = await search("pubmed");
+
+    expect(mockSearchPubMed).toHaveBeenCalledWith(QUERIES.pubmedQuery, {
+      maxResults: 5,
+    });
+    expect(mockFetchPubMedArticles).toHaveBeenCalledWith(["111"]);
+    expect(papers.map((p) => p.pmid)).toEqual(["111"]);
+  });
+
+  it("PubMed skips the fetch when the search finds nothing", async () => {
+    mockSearchPubMed.mockResolvedValue({ ids: [], count: 0 });
+
+    expect(await search("pubmed")).toEqual([]);
+    expect(mockFetchPubMedArticles).not.toHaveBeenCalled();
+  });
+
+  it("Semantic Scholar runs each of its queries", async () => {
+    mockSearchHealthPapers.mockResolvedValue({ papers: [] });
+
+    await search("semanticScholar");
+
+    expect(mockSearchHealthPapers.mock.calls).toEqual([
+      ["creatine strength", 5, undefined],
+      ["creatine older adults", 5, undefined],
+    ]);
+  });
+
+  it("arXiv searches with the query and categories", async () => {
+    mockSearchArxivHealth.mockResolvedValue({ articles: [] });
+
+    await search("arxiv");
+
+    expect(mockSearchArxivHealth).toHaveBeenCalledWith(
+      "creatine muscle",
+      5,
+      ["q-bio.QM"],
+      undefined,
+    );
+  });
+
+  it("Europe PMC and ClinicalTrials.gov search with the plain query", async () => {
+    mockSearchEuropePmc.mockResolvedValue({
+      hitCount: 1,
+      articles: [
+        {
+          id: "PPR1",
+          source: "PPR",
+          doi: "10.1101/2024.01.01.1",
+          title: "Creatine preprint",
+          authors: [],
+          isPreprint: true,
+        },
+      ],
+    });
+    mockSearchClinicalTrials.mockResolvedValue({
+      trials: [
+        {
+          nctId: "NCT01",
+          title: "Creatine trial",
+          phases: [],
+          investigators: [],
+          hasResults: false,
+        },
+      ],
+    });
+
+    const [europePmc, trials] = [
+      await search("europePmc"),
+      await search("clinicalTrials"),
+    ];
+
+    expect(mockSearchEuropePmc).toHaveBeenCalledWith("creatine strength", {
+      maxResults: 5,
+    });
+    expect(mockSearchClinicalTrials).toHaveBeenCalledWith("creatine strength", {
+      maxResults: 5,
+    });
+    expect(europePmc[0].doi).toBe("10.1101/2024.01.01.1");
+    expect(trials[0].nctId).toBe("NCT01");
+  });
+
+  it("passes an incremental run's start date to every source", async () => {
+    const since = new Date("2026-01-10T00:00:00Z");
+    mockSearchPubMed.mockResolvedValue({ count: 0, ids: [] });
+    mockSearchHealthPapers.mockResolvedValue({ papers: [] });
+    mockSearchArxivHealth.mockResolvedValue({ articles: [] });
+    mockSearchEuropePmc.mockResolvedValue({ hitCount: 0, articles: [] });
+    mockSearchClinicalTrials.mockResolvedValue({ trials: [] });
+
+    for (const id of ["pubmed", "semanticScholar", "arxiv", "europePmc", "clinicalTrials"] as const) {
+      await search(id, since);
+    }
+
+    expect(mockSearchPubMed).toHaveBeenCalledWith(expect.any(String), {
+      maxResults: 5,
+      since,
+    });
+    expect(mockSearchHealthPapers).toHaveBeenCalledWith(expect.any(String), 5, since);
+    expect(mockSearchArxivHealth).toHaveBeenCalledWith(
+      expect.any(String),
+      5,
+      expect.any(Array),
+      since,
+    );
+    expect(mockSearchEuropePmc).toHaveBeenCalledWith(expect.any(String), {
+      maxResults: 5,
+      since,
+    });
+    expect(mockSearchClinicalTrials).toHaveBeenCalledWith(expect.any(String), {
+      maxResults: 5,
+      since,
+    });
+  });
+});
+
+describe("Crossref enrichment", () => {
+  it("fills missing fields for papers with a DOI", async () => {
+    mockGetCrossrefWork.mockResolvedValue(WORK);
+
+    const [paper] = await enrich([{ title: "A", doi: "10.1/a", authors: [] }]);
+
+    expect(mockGetCrossrefWork).toHaveBeenCalledWith("10.1/a");
+    expect(paper).toMatchObject({
+      abstract: "Crossref abstract",
+      journal: "Nutrients",
+      publishedYear: 2023,
+      authors: ["Ada Lovelace"],
+    });
+  });
+
+  it("skips papers without a DOI or without gaps", async () => {
+    const complete = {
+      title: "B",
+      doi: "10.1/b",
+      abstract: "Abstract",
+      authors: ["Bob"],
+      journal: "BMJ",
+      publishedYear: 2020,
+    };
+
+    const papers = await enrich([{ title: "No DOI", authors: [] }, complete]);
+
+    expect(mockGetCrossrefWork).not.toHaveBeenCalled();
+    expect(papers[1]).toBe(complete);
+  });
+
+  it("keeps a paper unchanged when its lookup fails", async () => {
+    mockGetCrossrefWork
+      .mockRejectedValueOnce(new Error("Crossref lookup failed: 500"))
+      .mockResolvedValueOnce(WORK);
+    const failing = { title: "A", doi: "10.1/x", authors: [] };
+
+    const papers = await enrich([
+      failing,
+      { title: "B", doi: "10.1/a", authors: [] },
+    ]);
+
+    expect(papers[0]).toBe(failing);
+    expect(papers[1].journal).toBe("Nutrients");
+  });
+});
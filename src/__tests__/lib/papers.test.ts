@@ -0,0 +1,519 @@
+/**
+ * Tests for unified papers (src/lib/papers.ts)
+ *
+ * Covers the source converters and Crossref enrichment, the section tree
+ * used for chunking, deduplication by DOI, PMID, arXiv ID, trial
+ * registration and normalised title, and near-duplicate matching with
+ * preprint/published linking.
+ */
+import { describe, it, expect } from "vitest";
+import {
+  authorOverlap,
+  deduplicatePapers,
+  excludeSupersededPreprints,
+  fromClinicalTrial,
+  fromEuropePmc,
+  fromSemanticScholar,
+  isPreprint,
+  paperSections,
+  titleSimilarity,
+  withCrossrefMetadata,
+} from "@/lib/papers";
+
+// ── Converters ──────────────────────────────────────────────────────────
+
+describe("fromSemanticScholar", () => {
+  it("maps external IDs and drops null fields", () => {
+    const paper = fromSemanticScholar({
+      paperId: "s2-1",
+      externalIds: { DOI: "10.1/a", PubMed: "123", PubMedCentral: "PMC9" },
+      title: "Paper A",
+      abstract: null,
+      tldr: null,
+      authors: [{ name: "Ada" }],
+      year: null,
+      citationCount: 0,
+      journal: { name: "Nature" },
+      publicationTypes: null,
+    });
+
+    expect(paper).toEqual({
+      title: "Paper A",
+      abstract: undefined,
+      doi: "10.1/a",
+      pmid: "123",
+      pmcid: "PMC9",
+      arxivId: undefined,
+      semanticScholarId: "s2-1",
+      authors: ["Ada"],
+      journal: "Nature",
+      publishedYear: undefined,
+    });
+  });
+});
+
+describe("fromEuropePmc", () => {
+  const article = {
+    id: "36812345",
+    source: "MED",
+    pmid: "36812345",
+    pmcid: "PMC9956789",
+    doi: "10.3390/nu15040912",
+    title: "Creatine and strength",
+    abstract: "Abstract",
+    authors: ["Devries MC"],
+    journal: "Nutrients",
+    publishedYear: 2023,
+    fullTextUrl: "https://europepmc.org/articles/PMC9956789",
+    isPreprint: false,
+  };
+
+  it("maps identifiers and the open-access link", () => {
+    expect(fromEuropePmc(article)).toEqual({
+      title: "Creatine and strength",
+      abstract: "Abstract",
+      doi: "10.3390/nu15040912",
+      pmid: "36812345",
+      pmcid: "PMC9956789",
+      authors: ["Devries MC"],
+      journal: "Nutrients",
+      publishedYear: 2023,
+      fullTextUrl: "https://europepmc.org/articles/PMC9956789",
+    });
+  });
+
+  it("leaves the journal unset for preprints", () => {
+    const paper = fromEuropePmc({
+      ...article,
+      id: "PPR612345",
+      source: "PPR",
+      pmid: undefined,
+      pmcid: undefined,
+      doi: "10.1101/2022.11.03.22281902",
+      journal: "medRxiv",
+      isPreprint: true,
+    });
+    expect(paper.journal).toBeUndefined();
+    expect(isPreprint(paper)).toBe(true);
+  });
+});
+
+describe("fromClinicalTrial", () => {
+  const trial = {
+    nctId: "NCT04512345",
+    title: "Creatine During Resistance Training in Adults Over 65",
+    briefSummary: "Creatine or placebo for 12 weeks.",
+    overallStatus: "ACTIVE_NOT_RECRUITING",
+    studyType: "INTERVENTIONAL",
+    phases: ["PHASE2", "PHASE3"],
+    enrollment: 120,
+    startYear: 2020,
+    investigators: ["Darren Candow"],
+    hasResults: false,
+  };
+
+  it("prefixes the summary with the design and status", () => {
+    const paper = fromClinicalTrial(trial);
+    expect(paper.abstract).toBe(
+      "Registered trial NCT04512345 (Phase 2/Phase 3; interventional; status active not recruiting; enrollment 120; no results posted).\nCreatine or placebo for 12 weeks."
+    );
+  });
+
+  it("maps the registry ID, investigators, start year and record URL", () => {
+    expect(fromClinicalTrial(trial)).toMatchObject({
+      title: "Creatine During Resistance Training in Adults Over 65",
+      nctId: "NCT04512345",
+      authors: ["Darren Candow"],
+      publishedYear: 2020,
+      fullTextUrl: "https://clinicaltrials.gov/study/NCT04512345",
+    });
+  });
+
+  it("uses the header alone when there is no summary", () => {
+    const paper = fromClinicalTrial({
+      ...trial,
+      briefSummary: undefined,
+      phases: [],
+      enrollment: undefined,
+      hasResults: true,
+    });
+    expect(paper.abstract).toBe(
+      "Registered trial NCT04512345 (interventional; status active not recruiting; results posted)."
+    );
+  });
+});
+
+describe("withCrossrefMetadata", () => {
+  const work = {
+    doi: "10.1/a",
+    abstract: "Crossref abstract",
+    authors: ["Ada Lovelace"],
+    journal: "Nutrients",
+    publishedYear: 2023,
+    type: "journal-article",
+    isPreprint: false,
+    updatedBy: [],
+    updates: [],
+  };
+
+  it("fills missing fields from the Crossref record", () => {
+    const paper = withCrossrefMetadata(
+      { title: "Paper A", doi: "10.1/a", authors: [] },
+      work
+    );
+    expect(paper).toEqual({
+      title: "Paper A",
+      doi: "10.1/a",
+      abstract: "Crossref abstract",
+      authors: ["Ada Lovelace"],
+      journal: "Nutrients",
+      publishedYear: 2023,
+      retraction: { status: "NONE" },
+    });
+  });
+
+  it("applies a retraction in the Crossref record over the source's status", () => {
+    const paper = withCrossrefMetadata(
+      { title: "Paper A", doi: "10.1/a", authors: [], retraction: { status: "NONE" } },
+      {
+        ...work,
+        updatedBy: [{ type: "retraction", doi: "10.1/notice", source: "publisher" }],
+      }
+    );
+    expect(paper.retraction).toEqual({
+      status: "RETRACTED",
+      noticeUrl: "https://doi.org/10.1/notice",
+    });
+  });
+
+  it("keeps fields the source already supplied", () => {
+    const paper = withCrossrefMetadata(
+      {
+        title: "Paper A",
+        doi: "10.1/a",
+        abstract: "PubMed abstract",
+        authors: ["Lovelace A"],
+        journal: "Nutrients (Basel)",
+        publishedYear: 2022,
+      },
+      work
+    );
+    expect(paper.abstract).toBe("PubMed abstract");
+    expect(paper.authors).toEqual(["Lovelace A"]);
+    expect(paper.journal).toBe("Nutrients (Basel)");
+    expect(paper.publishedYear).toBe(2022);
+  });
+});
+
+// ── paperSections ───────────────────────────────────────────────────────
+
+describe("paperSections", () => {
+  it("skips abstracts too short to chunk", () => {
+    expect(paperSections("Too short.", undefined)).toEqual([]);
+  });
+
+  it("puts the abstract ahead of full-text sections", () => {
+    const abstract = "A".repeat(60);
+    const sections = paperSections(abstract, {
+      pmcid: "PMC1",
+      title: "Paper",
+      sections: [{ name: "results", text: "Results text" }],
+    });
+    expect(sections.map((s) => s.name)).toEqual(["abstract", "results"]);
+  });
+});
+
+// ── deduplicatePapers (pure function) ───────────────────────────────────
+
+describe("deduplicatePapers", () => {
+  it("deduplicates by DOI", () => {
+    const papers = [
+      { title: "Paper A", doi: "10.1/a", authors: ["X"] },
+      { title: "Paper A copy", doi: "10.1/a", authors: ["Y"], pmid: "99" },
+    ];
+    const result = deduplicatePapers(papers);
+    expect(result).toHaveLength(1);
+    expect(result[0].title).toBe("Paper A");
+    // Identifiers merged from duplicate
+    expect(result[0].pmid).toBe("99");
+  });
+
+  it("deduplicates by PMID", () => {
+    const papers = [
+      { title: "Paper A", pmid: "123", authors: [] },
+      { title: "Paper B", pmid: "123", doi: "10.1/x", authors: [] },
+    ];
+    const result = deduplicatePapers(papers);
+    expect(result).toHaveLength(1);
+    expect(result[0].doi).toBe("10.1/x"); // merged
+  });
+
+  it("deduplicates by arXiv ID", () => {
+    const papers = [
+      { title: "Paper", arxivId: "2301.00001", authors: [] },
+      { title: "Paper dup", arxivId: "2301.00001", authors: ["Bob"] },
+    ];
+    const result = deduplicatePapers(papers);
+    expect(result).toHaveLength(1);
+  });
+
+  it("deduplicates by trial registration", () => {
+    const papers = [
+      { title: "Creatine in older adults", nctId: "NCT04512345", authors: [] },
+      { title: "Creatine trial", nctId: "NCT04512345", authors: ["Candow D"] },
+    ];
+    const result = deduplicatePapers(papers);
+    expect(result).toHaveLength(1);
+    expect(result[0].authors).toEqual(["Candow D"]);
+  });
+
+  it("deduplicates by normalised title", () => {
+    const papers = [
+      { title: "Creatine & Strength!", authors: ["A"] },
+      { title: "creatine  strength", authors: ["B"] },
+    ];
+    const result = deduplicatePapers(papers);
+    expect(result).toHaveLength(1);
+  });
+
+  it("keeps papers with different identifiers", () => {
+    const papers = [
+      { title: "Paper One", doi: "10.1/a", authors: [] },
+      { title: "Paper Two", doi: "10.1/b", authors: [] },
+      { title: "Paper Three", pmid: "999", authors: [] },
+    ];
+    const result = deduplicatePapers(papers);
+    expect(result).toHaveLength(3);
+  });
+
+  it("merges missing fields from duplicates", () => {
+    const papers = [
+      { title: "Study X", doi: "10.1/x", authors: ["A"] },
+      {
+        title: "Study X",
+        doi: "10.1/x",
+        abstract: "Abstract text",
+        journal: "Nature",
+        publishedYear: 2024,
+        authors: [],
+      },
+    ];
+    const result = deduplicatePapers(papers);
+    expect(result).toHaveLength(1);
+    expect(result[0].abstract).toBe("Abstract text");
+    expect(result[0].journal).toBe("Nature");
+    expect(result[0].publishedYear).toBe(2024);
+    expect(result[0].authors).toEqual(["A"]); // kept from first (non-empty)
+  });
+
+  it("keeps the more severe retraction status of duplicates", () => {
+    const papers = [
+      { title: "Paper A", doi: "10.1/a", authors: [] },
+      {
+        title: "Paper A",
+        doi: "10.1/a",
+        pmid: "1",
+        authors: [],
+        retraction: { status: "RETRACTED" as const, noticeUrl: "https://pubmed.ncbi.nlm.nih.gov/2/" },
+      },
+      { title: "Paper A", pmid: "1", authors: [], retraction: { status: "NONE" as const } },
+    ];
+    const [paper] = deduplicatePapers(papers);
+    expect(paper.retraction).toEqual({
+      status: "RETRACTED",
+      noticeUrl: "https://pubmed.ncbi.nlm.nih.gov/2/",
+    });
+  });
+});
+
+// ── Near-duplicates ─────────────────────────────────────────────────────
+
+const TITLE = "Creatine supplementation and lean mass in older adults";
+
+describe("titleSimilarity", () => {
+  it("ignores order, case, punctuation and stopwords", () => {
+    expect(
+      titleSimilarity(TITLE, "Lean Mass in Older Adults: Creatine Supplementation")
+    ).toBe(1);
+  });
+
+  it("scores a subtitle addition as the shorter title's overlap", () => {
+    expect(
+      titleSimilarity(TITLE, `${TITLE}: a randomised controlled trial`)
+    ).toBe(1);
+    expect(
+      titleSimilarity(TITLE, "Creatine supplementation and lean mass in elderly adults")
+    ).toBeCloseTo(0.83, 2);
+  });
+
+  it("only matches short titles exactly", () => {
+    expect(titleSimilarity("Vitamin D", "Vitamin D and sleep")).toBe(0);
+    expect(titleSimilarity("Vitamin D", "vitamin d")).toBe(1);
+  });
+});
+
+describe("authorOverlap", () => {
+  it("matches surnames across name formats", () => {
+    expect(authorOverlap(["Smith JA", "Lee K"], ["John Smith", "Kim Lee"])).toBe(1);
+    expect(authorOverlap(["Smith, John"], ["Smith J", "Jones P"])).toBe(1);
+    expect(authorOverlap(["Smith J", "Lee K"], ["Jones P", "Lee K"])).toBe(0.5);
+  });
+
+  it("is null when either list is empty", () => {
+    expect(authorOverlap([], ["Smith J"])).toBeNull();
+  });
+});
+
+describe("isPreprint", () => {
+  it("recognises preprint servers", () => {
+    expect(isPreprint({ title: "T", doi: "10.1101/2024.01.01.123", authors: [] })).toBe(true);
+    expect(isPreprint({ title: "T", arxivId: "2401.00001", authors: [] })).toBe(true);
+  });
+
+  it("treats anything indexed in PubMed or a journal as published", () => {
+    expect(isPreprint({ title: "T", doi: "10.1016/j.x", authors: [] })).toBe(false);
+    expect(isPreprint({ title: "T", arxivId: "2401.00001", pmid: "1", authors: [] })).toBe(false);
+    expect(isPreprint({ title: "T", doi: "10.1101/x", journal: "Cell", authors: [] })).toBe(false);
+  });
+});
+
+describe("deduplicatePapers near-duplicates", () => {
+  it("merges a near-identical title from the same authors", () => {
+    const result = deduplicatePapers([
+      { title: TITLE, pmid: "1", authors: ["Smith J", "Lee K"], publishedYear: 2023 },
+      {
+        title: `${TITLE}: a randomised trial`,
+        semanticScholarId: "s2-1",
+        authors: ["John Smith", "Kim Lee"],
+        publishedYear: 2023,
+      },
+    ]);
+    expect(result).toHaveLength(1);
+    expect(result[0].semanticScholarId).toBe("s2-1");
+  });
+
+  it("merges a borderline title only with matching authors", () => {
+    const other = "Creatine supplementation and lean mass in elderly adults";
+    expect(
+      deduplicatePapers([
+        { title: TITLE, authors: ["Smith J"] },
+        { title: other, authors: ["Smith J"] },
+      ])
+    ).toHaveLength(1);
+    expect(
+      deduplicatePapers([
+        { title: TITLE, authors: [] },
+        { title: other, authors: [] },
+      ])
+    ).toHaveLength(2);
+  });
+
+  it("keeps similar titles from different authors or years apart", () => {
+    expect(
+      deduplicatePapers([
+        { title: TITLE, authors: ["Smith J"] },
+        { title: TITLE.toUpperCase() + " (replication)", authors: ["Garcia M"] },
+      ])
+    ).toHaveLength(2);
+    expect(
+      deduplicatePapers([
+        { title: TITLE, authors: [], publishedYear: 2010 },
+        { title: `${TITLE}: update`, authors: [], publishedYear: 2020 },
+      ])
+    ).toHaveLength(2);
+  });
+
+  it("keeps papers whose DOIs differ", () => {
+    const result = deduplicatePapers([
+      { title: TITLE, doi: "10.1/a", authors: ["Smith J"] },
+      { title: `${TITLE}: part 2`, doi: "10.1/b", authors: ["Smith J"] },
+    ]);
+    expect(result).toHaveLength(2);
+  });
+
+  it("confirms a borderline title by abstract similarity", () => {
+    const papers = [
+      { title: TITLE, authors: [] },
+      { title: "Creatine supplementation and lean mass in elderly adults", authors: [] },
+    ];
+    const options = {
+      abstractEmbeddings: [[1, 0], [0.99, 0.1]],
+      minAbstractSimilarity: 0.95,
+    };
+    expect(deduplicatePapers(papers, options)).toHaveLength(1);
+    expect(
+      deduplicatePapers(papers, { ...options, abstractEmbeddings: [[1, 0], [0, 1]] })
+    ).toHaveLength(2);
+  });
+});
+
+describe("deduplicatePapers preprints", () => {
+  const preprint = {
+    title: TITLE,
+    doi: "10.1101/2022.05.01.490000",
+    authors: ["John Smith", "Kim Lee"],
+    publishedYear: 2022,
+  };
+  const published = {
+    title: `${TITLE}: a randomised controlled trial`,
+    doi: "10.1093/ajcn/nqab001",
+    pmid: "3456",
+    journal: "Am J Clin Nutr",
+    authors: ["Smith J", "Lee K"],
+    publishedYear: 2023,
+  };
+
+  it("attaches the preprint to the published paper", () => {
+    const result = deduplicatePapers([{ ...published }, { ...preprint }]);
+    expect(result).toHaveLength(1);
+    expect(result[0].pmid).toBe("3456");
+    expect(result[0].preprint?.doi).toBe(preprint.doi);
+  });
+
+  it("swaps the published paper into a preprint's place", () => {
+    const result = deduplicatePapers([
+      { title: "Unrelated cohort study of sleep duration", authors: [] },
+      { ...preprint },
+      { ...published },
+    ]);
+    expect(result.map((p) => p.pmid ?? null)).toEqual([null, "3456"]);
+    expect(result[1].preprint?.doi).toBe(preprint.doi);
+  });
+
+  it("merges later copies of the preprint into the attached one", () => {
+    const result = deduplicatePapers([
+      { ...published },
+      { ...preprint },
+      { ...preprint, abstract: "Preprint abstract", semanticScholarId: "s2-pre" },
+    ]);
+    expect(result).toHaveLength(1);
+    expect(result[0].preprint?.semanticScholarId).toBe("s2-pre");
+    expect(result[0].abstract).toBeUndefined();
+  });
+});
+
+describe("deduplicatePapers preprints (exact titles)", () => {
+  it("links rather than merges a preprint with the same title", () => {
+    const result = deduplicatePapers([
+      { title: TITLE, arxivId: "2201.00001", authors: ["Smith J"] },
+      { title: TITLE, pmid: "77", authors: ["Smith J"] },
+      { title: TITLE, semanticScholarId: "s2-pub", journal: "BMJ", authors: [] },
+    ]);
+    expect(result).toHaveLength(1);
+    expect(result[0]).toMatchObject({ pmid: "77", semanticScholarId: "s2-pub" });
+    expect(result[0].preprint).toMatchObject({ arxivId: "2201.00001" });
+    expect(result[0].preprint?.pmid).toBeUndefined();
+  });
+});
+
+describe("excludeSupersededPreprints", () => {
+  it("filters out preprints whose published version is on the claim", () => {
+    expect(excludeSupersededPreprints("c1")).toEqual({
+      NOT: {
+        paper: {
+          publishedVersion: { is: { claimPapers: { some: { claimId: "c1" } } } },
+        },
+      },
+    });
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * Tests for PMC full-text parsing (src/lib/pmc-fulltext.ts)
+ *
+ * Runs parseJatsXml against recorded efetch (db=pmc) responses in
+ * src/__tests__/fixtures/pmc and checks section classification, the
+ * subsection tree, figure/table extraction and the no-body fallback.
+ */
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { readFileSync } from "fs";
+import path from "path";
+import {
+  parseJatsXml,
+  classifySection,
+  fetchPMCFullText,
+} from "@/lib/pmc-fulltext";
+
+// ── Fixtures ────────────────────────────────────────────────────────────
+
+function loadFixture(name: string): string {
+  return readFileSync(
+    path.join(__dirname, "..", "fixtures", "pmc", name),
+    "utf-8"
+  );
+}
+
+const OA_XML = loadFixture("creatine-rct.xml");
+const NO_BODY_XML = loadFixture("no-body.xml");
+
+// ── Tests ───────────────────────────────────────────────────────────────
+
+describe("parseJatsXml", () => {
+  it("extracts PMC ID and title", () => {
+    const doc = parseJatsXml(OA_XML)!;
+    expect(doc.pmcid).toBe("PMC8765432");
+    expect(doc.title).toBe(
+      "Creatine monohydrate and lower-body strength in older adults: a randomized controlled trial"
+    );
+  });
+
+  it("classifies body sections in document order, then figures and tables", () => {
+    const doc = parseJatsXml(OA_XML)!;
+    expect(doc.sections.map((s) => [s.name, s.title])).toEqual([
+      ["introduction", "Introduction"],
+      ["methods", "Materials and methods"],
+      ["results", "Results"],
+      ["discussion", "Discussion"],
+      ["conclusion", "Conclusions"],
+      ["figure", "Figure 1"],
+      ["table", "Table 1"],
+    ]);
+  });
+
+  it("keeps inline markup text with its surrounding spacing", () => {
+    const doc = parseJatsXml(OA_XML)!;
+    const results = doc.sections.find((s) => s.name === "results")!;
+    expect(results.text).toBe(
+      "Leg-press 1RM increased by 18.2 kg with creatine versus 11.4 kg with placebo (p = 0.003; Table 1)."
+    );
+  });
+
+  it("nests subsections, inheriting the parent name when unclassified", () => {
+    const doc = parseJatsXml(OA_XML)!;
+    const methods = doc.sections.find((s) => s.name === "methods")!;
+    expect(methods.text).toBe("");
+    expect(methods.children).toEqual([
+      {
+        name: "methods",
+        title: "Participants",
+        text: "We randomized 120 community-dwelling adults aged 65–80 to creatine (5 g/day) or placebo for 24 weeks.",
+      },
+      {
+        name: "methods",
+        title: "Outcomes",
+        text: [
+          "The primary outcome was one-repetition maximum (1RM) leg press.",
+          "• Secondary: lean mass by DXA",
+          "• Secondary: chair-stand time",
+        ].join("\n\n"),
+      },
+    ]);
+  });
+
+  it("classifies a limitations subsection on its own", () => {
+    const doc = parseJatsXml(OA_XML)!;
+    const discussion = doc.sections.find((s) => s.name === "discussion")!;
+    expect(discussion.children).toEqual([
+      {
+        name: "limitations",
+        title: "Strengths and limitations",
+        text: "Participants were mostly white and the trial was not powered for falls.",
+      },
+    ]);
+  });
+
+  it("renders figure captions", () => {
+    const doc = parseJatsXml(OA_XML)!;
+    const figure = doc.sections.find((s) => s.name === "figure")!;
+    expect(figure.text).toBe("Figure 1 Leg-press 1RM over 24 weeks by group.");
+  });
+
+  it("renders tables as caption plus pipe-separated rows", () => {
+    const doc = parseJatsXml(OA_XML)!;
+    const table = doc.sections.find((s) => s.name === "table")!;
+    expect(table.text).toBe(
+      [
+        "Table 1 Change from baseline at 24 weeks",
+        "Outcome | Creatine (n = 60) | Placebo (n = 60)",
+        "Leg press 1RM (kg) | 18.2 | 11.4",
+        "Lean mass (kg) | 1.3 | 0.4",
+      ].join("\n")
+    );
+  });
+
+  it("drops acknowledgements and back matter", () => {
+    const doc = parseJatsXml(OA_XML)!;
+    const allText = JSON.stringify(doc.sections);
+    expect(allText).not.toContain("We thank the participants");
+    expect(allText).not.toContain("Cruz-Jentoft");
+  });
+
+  it("returns null when the publisher withholds the body", () => {
+    expect(parseJatsXml(NO_BODY_XML)).toBeNull();
+  });
+
+  it("returns null for an empty article set", () => {
+    expect(parseJatsXml("<pmc-articleset></pmc-articleset>")).toBeNull();
+  });
+});
+
+describe("classifySection", () => {
+  it.each([
+    ["Background", undefined, "introduction"],
+    ["Methods", undefined, "methods"],
+    ["Patients and Study Design", undefined, "methods"],
+    ["Results and Discussion", undefined, "results"],
+    ["Main findings", undefined, "results"],
+    ["", "discussion", "discussion"],
+    ["Strengths and Limitations", undefined, "limitations"],
+    ["Safety", undefined, "other"],
+  ])("classifies %j (sec-type %s) as %s", (title, secType, expected) => {
+    expect(classifySection(title, secType)).toBe(expected);
+  });
+});
+
+describe("fetchPMCFullText", () => {
+  const mockFetch = vi.fn();
+
+  beforeEach(() => {
+    vi.stubGlobal("fetch", mockFetch);
+    mockFetch.mockReset();
+  });
+
+  it("requests the numeric PMC ID and parses the response", async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      text: async () => OA_XML,
+    });
+
+    const doc = await fetchPMCFullText("PMC8765432");
+
+    const url = new URL(mockFetch.mock.calls[0][0]);
+    expect(url.pathname).toMatch(/efetch\.fcgi$/);
+    expect(url.searchParams.get("db")).toBe("pmc");
+    expect(url.searchParams.get("id")).toBe("8765432");
+    expect(doc?.sections).toHaveLength(7);
+  });
+
+  it("throws on HTTP errors", async () => {
+    mockFetch.mockResolvedValueOnce({ ok: false, statusText: "Too Many Requests" });
+    await expect(fetchPMCFullText("PMC1")).rejects.toThrow(
+      "PMC fetch failed: Too Many Requests"
+    );
+  });
+});
@@ -3,13 +3,21 @@
  *
  * Validates prompt builder output, ensuring correct structure, field
  * inclusion/exclusion, and that system prompts contain required schema keys.
+ * Also checks the zod output schemas and the repair prompt.
  */
 import { describe, it, expect } from "vitest";
 import {
+  buildQueryPlanningPrompt,
+  QUERY_PLANNING_SYSTEM,
+  queryPlanSchema,
   buildEvidenceExtractionPrompt,
   buildVerdictSynthesisPrompt,
   EVIDENCE_EXTRACTION_SYSTEM,
   VERDICT_SYNTHESIS_SYSTEM,
+  extractedEvidenceSchema,
+  synthesisVerdictSchema,
+  buildRepairPrompt,
+  MAX_SYNTHESIS_EXCERPT_CHARS,
 } from "@/lib/prompts";
 import type {
   EvidenceExtractionInput,
@@ -29,6 +37,8 @@ describe("system prompts", () => {
       "population",
       "duration",
       "effectSize",
+      "effect",
+      "pValue",
       "keyFindings",
       "limitations",
       "relevanceScore",
@@ -61,10 +71,69 @@ describe("system prompts", () => {
     expect(EVIDENCE_EXTRACTION_SYSTEM).toContain("relevanceScore");
   });
 
+  it("verdict synthesis system prompt asks for inline citation keys", () => {
+    expect(VERDICT_SYNTHESIS_SYSTEM).toContain("[P2]");
+    expect(VERDICT_SYNTHESIS_SYSTEM).toContain("[P2.1]");
+    expect(VERDICT_SYNTHESIS_SYSTEM).toContain("Use only keys that appear in the input");
+  });
+
   it("verdict synthesis system prompt mentions study quality hierarchy", () => {
     expect(VERDICT_SYNTHESIS_SYSTEM).toContain("meta-analyses");
     expect(VERDICT_SYNTHESIS_SYSTEM).toContain("RCTs");
   });
+
+  it("verdict synthesis system prompt weighs evidence over paper counts", () => {
+    expect(VERDICT_SYNTHESIS_SYSTEM).toContain("Evidence weight");
+    expect(VERDICT_SYNTHESIS_SYSTEM).toContain("not the number of papers");
+  });
+});
+
+// ── buildQueryPlanningPrompt ────────────────────────────────────────────
+
+describe("buildQueryPlanningPrompt", () => {
+  it("includes the claim and the arXiv categories on offer", () => {
+    const prompt = buildQueryPlanningPrompt({
+      claimTitle: "Creatine improves strength",
+      claimDescription: "In trained adults",
+      arxivCategories: { "q-bio.QM": "Quantitative Methods" },
+    });
+    expect(prompt).toContain('Claim: "Creatine improves strength"');
+    expect(prompt).toContain('Description: "In trained adults"');
+    expect(prompt).toContain("- q-bio.QM: Quantitative Methods");
+  });
+
+  it("system prompt asks for PICO elements with MeSH terms", () => {
+    for (const key of ["population", "intervention", "comparator", "outcome", "meshTerms", "searchPhrases", "arxivCategories"]) {
+      expect(QUERY_PLANNING_SYSTEM).toContain(`"${key}"`);
+    }
+    expect(QUERY_PLANNING_SYSTEM).toContain("never invent headings");
+  });
+});
+
+describe("queryPlanSchema", () => {
+  const concept = { term: "creatine", meshTerms: ["Creatine"], synonyms: [] };
+  const valid = {
+    population: null,
+    intervention: concept,
+    comparator: null,
+    outcome: { ...concept, term: "strength" },
+    searchPhrases: ["creatine strength"],
+    arxivCategories: [],
+  };
+
+  it("accepts a plan with optional elements set to null", () => {
+    expect(queryPlanSchema.safeParse(valid).success).toBe(true);
+  });
+
+  it("requires an intervention with a term", () => {
+    expect(
+      queryPlanSchema.safeParse({ ...valid, intervention: null }).success
+    ).toBe(false);
+    expect(
+      queryPlanSchema.safeParse({ ...valid, intervention: { ...concept, term: "" } })
+        .success
+    ).toBe(false);
+  });
 });
 
 // ── buildEvidenceExtractionPrompt ───────────────────────────────────────
@@ -133,6 +202,7 @@ describe("buildEvidenceExtractionPrompt", () => {
 describe("buildVerdictSynthesisPrompt", () => {
   const cards: EvidenceCardForSynthesis[] = [
     {
+      citationKey: "P1",
       paperTitle: "Creatine RCT",
       publishedYear: 2023,
       studyType: "RCT",
@@ -142,6 +212,7 @@ describe("buildVerdictSynthesisPrompt", () => {
       keyFindings: ["+1.4 kg lean mass", "No adverse effects"],
     },
     {
+      citationKey: "P2",
       paperTitle: "Creatine Review",
       studyType: "Meta-analysis",
       sampleSize: null,
@@ -176,6 +247,56 @@ describe("buildVerdictSynthesisPrompt", () => {
     expect(prompt).toContain("Paper 2: Creatine Review");
   });
 
+  it("gives each paper its citation key", () => {
+    const prompt = buildVerdictSynthesisPrompt({
+      claimTitle: "Test",
+      evidenceCards: cards,
+    });
+    expect(prompt).toContain("Paper 1: Creatine RCT (2023)\n- Cite as: [P1]");
+    expect(prompt).toContain("Paper 2: Creatine Review\n- Cite as: [P2]");
+  });
+
+  it("lists keyed excerpts with section labels, truncating long ones", () => {
+    const prompt = buildVerdictSynthesisPrompt({
+      claimTitle: "Test",
+      evidenceCards: [
+        {
+          ...cards[0],
+          excerpts: [
+            { citationKey: "P1.1", sectionLabel: "Results", text: "Lean mass\n rose 1.4 kg." },
+            { citationKey: "P1.2", text: "x".repeat(MAX_SYNTHESIS_EXCERPT_CHARS + 50) },
+          ],
+        },
+      ],
+    });
+    expect(prompt).toContain("- Excerpt [P1.1]: (Results) Lean mass rose 1.4 kg.");
+    const long = prompt.split("\n").find((l) => l.startsWith("- Excerpt [P1.2]"))!;
+    expect(long.endsWith("…")).toBe(true);
+    expect(long.length).toBeLessThanOrEqual(
+      "- Excerpt [P1.2]: ".length + MAX_SYNTHESIS_EXCERPT_CHARS
+    );
+  });
+
+  it("shows each graded card's evidence weight and certainty", () => {
+    const prompt = buildVerdictSynthesisPrompt({
+      claimTitle: "Test",
+      evidenceCards: [
+        { ...cards[0], evidenceWeight: 0.6, certainty: "MODERATE" },
+        { ...cards[1], evidenceWeight: 0.05, certainty: "VERY_LOW" },
+      ],
+    });
+    expect(prompt).toContain("- Stance: SUPPORTS\n- Evidence weight: 0.60 (moderate certainty)");
+    expect(prompt).toContain("- Evidence weight: 0.05 (very low certainty)");
+  });
+
+  it("omits the weight line for ungraded cards", () => {
+    const prompt = buildVerdictSynthesisPrompt({
+      claimTitle: "Test",
+      evidenceCards: cards,
+    });
+    expect(prompt).not.toContain("Evidence weight:");
+  });
+
   it("shows 'not reported' for null sample size", () => {
     const prompt = buildVerdictSynthesisPrompt({
       claimTitle: "Test",
@@ -217,3 +338,95 @@ describe("buildVerdictSynthesisPrompt", () => {
     expect(prompt).not.toContain("(undefined)");
   });
 });
+
+// ── Output schemas ──────────────────────────────────────────────────────
+
+describe("extractedEvidenceSchema", () => {
+  const valid = {
+    stance: "SUPPORTS",
+    confidence: 0.8,
+    summary: "Creatine improved strength.",
+    studyType: "RCT",
+    sampleSize: 120,
+    population: "older adults",
+    duration: "24 weeks",
+    effectSize: "+6.8 kg leg press",
+    effect: { measure: "MD", value: 6.8, ciLower: 2.1, ciUpper: 11.5 },
+    pValue: 0.004,
+    keyFindings: ["Greater 1RM gains"],
+    limitations: ["Single site"],
+    relevanceScore: 0.9,
+  };
+
+  it("accepts a well-formed response", () => {
+    expect(extractedEvidenceSchema.safeParse(valid).success).toBe(true);
+    expect(
+      extractedEvidenceSchema.safeParse({ ...valid, sampleSize: null }).success
+    ).toBe(true);
+  });
+
+  it("accepts an unreported effect, CI or p-value", () => {
+    const noCi = { ...valid.effect, ciLower: null, ciUpper: null };
+    expect(extractedEvidenceSchema.safeParse({ ...valid, effect: noCi }).success).toBe(true);
+    expect(
+      extractedEvidenceSchema.safeParse({ ...valid, effect: null, pValue: null }).success
+    ).toBe(true);
+  });
+
+  it.each([
+    ["an unknown stance", { stance: "PARTIALLY_SUPPORTS" }, "stance"],
+    ["a string sample size", { sampleSize: "120" }, "sampleSize"],
+    ["an unknown study type", { studyType: "Pilot" }, "studyType"],
+    ["confidence above 1", { confidence: 85 }, "confidence"],
+    ["a missing field", { keyFindings: undefined }, "keyFindings"],
+    ["an unknown effect measure", { effect: { ...valid.effect, measure: "NNT" } }, ["effect", "measure"]],
+    ["an inverted CI", { effect: { ...valid.effect, ciLower: 12 } }, "effect"],
+    ["a p-value above 1", { pValue: 5 }, "pValue"],
+  ])("rejects %s", (_label, patch, path) => {
+    const result = extractedEvidenceSchema.safeParse({ ...valid, ...patch });
+    expect(result.success).toBe(false);
+    expect(result.error!.issues[0].path).toEqual([path].flat());
+  });
+});
+
+describe("synthesisVerdictSchema", () => {
+  const valid = {
+    verdict: "MIXED",
+    confidence: 0.5,
+    effectDirection: "VARIABLE",
+    shortSummary: "Studies disagree.",
+    detailedSummary: "Two RCTs found benefits, one did not.",
+    strengthOfEvidence: "MODERATE",
+    keyFactors: ["Conflicting RCTs"],
+    caveats: [],
+    whatWouldChangeVerdict: "A large pre-registered trial.",
+    recommendedAction: "No change.",
+  };
+
+  it("accepts a well-formed response", () => {
+    expect(synthesisVerdictSchema.safeParse(valid).success).toBe(true);
+  });
+
+  it("rejects verdicts outside the four outcomes", () => {
+    const result = synthesisVerdictSchema.safeParse({
+      ...valid,
+      verdict: "LIKELY_SUPPORTED",
+    });
+    expect(result.success).toBe(false);
+  });
+});
+
+describe("buildRepairPrompt", () => {
+  it("repeats the request with the invalid response and each error", () => {
+    const prompt = buildRepairPrompt("Claim: \"X\"", '{"stance":"MAYBE"}', [
+      "stance: Invalid enum value",
+      "sampleSize: Expected number, received string",
+    ]);
+
+    expect(prompt.startsWith('Claim: "X"')).toBe(true);
+    expect(prompt).toContain('{"stance":"MAYBE"}');
+    expect(prompt).toContain("- stance: Invalid enum value");
+    expect(prompt).toContain("- sampleSize: Expected number, received string");
+    expect(prompt).toContain("Return the corrected JSON object only");
+  });
+});
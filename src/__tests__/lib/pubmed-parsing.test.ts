@@ -152,6 +152,76 @@ const MEDLINE_DATE_XML = `<?xml version="1.0" ?>
   </PubmedArticle>
 </PubmedArticleSet>`;
 
+/** A retracted article and the retraction notice for it */
+const RETRACTION_XML = `<?xml version="1.0" ?>
+<PubmedArticleSet>
+  <PubmedArticle>
+    <MedlineCitation Status="MEDLINE" Owner="NLM">
+      <PMID Version="1">30987654</PMID>
+      <Article PubModel="Print-Electronic">
+        <Journal>
+          <Title>Nutrition</Title>
+          <JournalIssue>
+            <PubDate>
+              <Year>2019</Year>
+            </PubDate>
+          </JournalIssue>
+        </Journal>
+        <ArticleTitle>Intermittent fasting reverses type 2 diabetes: a randomised controlled trial</ArticleTitle>
+        <PublicationTypeList>
+          <PublicationType UI="D016449">Randomized Controlled Trial</PublicationType>
+          <PublicationType UI="D016441">Retracted Publication</PublicationType>
+        </PublicationTypeList>
+      </Article>
+      <CommentsCorrectionsList>
+        <CommentsCorrections RefType="RetractionIn">
+          <RefSource>Nutrition. 2021 Feb;84:111190</RefSource>
+          <PMID Version="1">33571234</PMID>
+        </CommentsCorrections>
+        <CommentsCorrections RefType="Cites">
+          <RefSource>Diabetes Care. 2015;38:1</RefSource>
+          <PMID Version="1">25000001</PMID>
+        </CommentsCorrections>
+      </CommentsCorrectionsList>
+    </MedlineCitation>
+    <PubmedData>
+      <ArticleIdList>
+        <ArticleId IdType="pubmed">30987654</ArticleId>
+      </ArticleIdList>
+    </PubmedData>
+  </PubmedArticle>
+  <PubmedArticle>
+    <MedlineCitation Status="PubMed-not-MEDLINE" Owner="NLM">
+      <PMID Version="1">33571234</PMID>
+      <Article PubModel="Print-Electronic">
+        <Journal>
+          <Title>Nutrition</Title>
+          <JournalIssue>
+            <PubDate>
+              <Year>2021</Year>
+            </PubDate>
+          </JournalIssue>
+        </Journal>
+        <ArticleTitle>Retraction notice to "Intermittent fasting reverses type 2 diabetes"</ArticleTitle>
+        <PublicationTypeList>
+          <PublicationType UI="D016440">Retraction of Publication</PublicationType>
+        </PublicationTypeList>
+      </Article>
+      <CommentsCorrectionsList>
+        <CommentsCorrections RefType="RetractionOf">
+          <RefSource>Nutrition. 2019 Aug;64:1-8</RefSource>
+          <PMID Version="1">30987654</PMID>
+        </CommentsCorrections>
+      </CommentsCorrectionsList>
+    </MedlineCitation>
+    <PubmedData>
+      <ArticleIdList>
+        <ArticleId IdType="pubmed">33571234</ArticleId>
+      </ArticleIdList>
+    </PubmedData>
+  </PubmedArticle>
+</PubmedArticleSet>`;
+
 /** Empty response (no articles) */
 const EMPTY_XML = `<?xml version="1.0" ?>
 <PubmedArticleSet></PubmedArticleSet>`;
@@ -254,4 +324,25 @@ describe("parsePubMedXml", () => {
     expect(second.authors).toEqual(["Garcia Maria"]);
     expect(second.pmcid).toBeUndefined();
   });
+
+  it("extracts publication types", () => {
+    const [retracted, notice] = parsePubMedXml(RETRACTION_XML);
+    expect(retracted.publicationTypes).toEqual([
+      "Randomized Controlled Trial",
+      "Retracted Publication",
+    ]);
+    expect(notice.publicationTypes).toEqual(["Retraction of Publication"]);
+  });
+
+  it("keeps retraction links from CommentsCorrections, ignoring citations", () => {
+    const [retracted, notice] = parsePubMedXml(RETRACTION_XML);
+    expect(retracted.notices).toEqual([{ type: "RetractionIn", pmid: "33571234" }]);
+    expect(notice.notices).toEqual([{ type: "RetractionOf", pmid: "30987654" }]);
+  });
+
+  it("returns empty publication types and notices when absent", () => {
+    const [article] = parsePubMedXml(SINGLE_ARTICLE_XML);
+    expect(article.publicationTypes).toEqual([]);
+    expect(article.notices).toEqual([]);
+  });
 });
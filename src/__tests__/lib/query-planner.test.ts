@@ -0,0 +1,68 @@
+/**
+ * Tests for dossier query planning (src/lib/query-planner.ts)
+ *
+ * Covers the planning request, the empty-response fallback, and a full
+ * offline plan from the fake provider.
+ */
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("@/lib/openai", () => ({
+  openai: { chat: { completions: { create: vi.fn() } } },
+}));
+
+import { planSearch } from "@/lib/query-planner";
+import { fallbackSearchPlan, searchPlanSchema } from "@/lib/search-plan";
+import { FakeLlmProvider, getLlmConfig, type LlmProvider } from "@/lib/llm";
+import type { QueryPlan } from "@/lib/prompts";
+
+const CLAIM = "Creatine improves muscle strength";
+
+const PLAN: QueryPlan = {
+  population: null,
+  intervention: { term: "creatine", meshTerms: ["Creatine"], synonyms: [] },
+  comparator: null,
+  outcome: { term: "strength", meshTerms: ["Muscle Strength"], synonyms: [] },
+  searchPhrases: ["creatine strength"],
+  arxivCategories: ["q-bio.QM"],
+};
+
+// ── planSearch ──────────────────────────────────────────────────────────
+
+describe("planSearch", () => {
+  it("plans with the planning task and the claim in the prompt", async () => {
+    const complete = vi.fn().mockResolvedValue({
+      content: JSON.stringify(PLAN),
+      model: "m",
+    });
+    const llm: LlmProvider = { name: "openai", complete };
+
+    const plan = await planSearch(llm, {
+      title: CLAIM,
+      description: "Does it?",
+    });
+
+    const [request] = complete.mock.calls[0];
+    expect(request.task).toBe("planning");
+    expect(request.user).toContain(`Claim: "${CLAIM}"`);
+    expect(request.user).toContain("Description: \"Does it?\"");
+    expect(plan.source).toBe("llm");
+  });
+
+  it("returns the fallback plan when the model returns nothing", async () => {
+    const llm: LlmProvider = {
+      name: "openai",
+      complete: vi.fn().mockResolvedValue({ content: null, model: "m" }),
+    };
+    await expect(planSearch(llm, { title: CLAIM })).resolves.toEqual(
+      fallbackSearchPlan(CLAIM)
+    );
+  });
+
+  it("produces a valid plan offline on the fake provider", async () => {
+    const llm = new FakeLlmProvider(getLlmConfig({}).tasks);
+    const plan = await planSearch(llm, { title: CLAIM });
+
+    expect(plan.pubmedQuery).toBe(`"${CLAIM}"[Title/Abstract]`);
+    expect(searchPlanSchema.safeParse(plan).success).toBe(true);
+  });
+});
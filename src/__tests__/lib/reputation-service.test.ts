@@ -0,0 +1,205 @@
+/**
+ * Tests for prediction reputation (src/lib/reputation-service.ts)
+ *
+ * Mocks Prisma to verify atomic event + balance writes, difficulty
+ * scaling, idempotent re-runs, and admin reversals.
+ */
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Prisma } from "@prisma/client";
+
+const mockTx = {
+  reputationEvent: { create: vi.fn() },
+  user: { update: vi.fn() },
+};
+
+vi.mock("@/lib/prisma", () => ({
+  prisma: {
+    claim: { findUnique: vi.fn() },
+    reputationEvent: { findUnique: vi.fn(), findMany: vi.fn() },
+    $transaction: vi.fn((fn: (tx: unknown) => unknown) => fn(mockTx)),
+  },
+}));
+
+import { prisma } from "@/lib/prisma";
+import {
+  changeReputation,
+  awardPredictionReputation,
+  reversePredictionReputation,
+} from "@/lib/reputation-service";
+
+const mockClaimFindUnique = vi.mocked(prisma.claim.findUnique);
+const mockEventFindUnique = vi.mocked(prisma.reputationEvent.findUnique);
+const mockEventFindMany = vi.mocked(prisma.reputationEvent.findMany);
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockEventFindUnique.mockResolvedValue(null);
+  mockTx.reputationEvent.create.mockImplementation(({ data }) =>
+    Promise.resolve({ id: `evt-${data.userId}`, ...data }),
+  );
+  mockTx.user.update.mockResolvedValue({});
+});
+
+// ── changeReputation ────────────────────────────────────────────────────
+
+describe("changeReputation", () => {
+  it("writes the event and increments reputation in one transaction", async () => {
+    const result = await changeReputation({
+      userId: "u1",
+      type: "CORRECT_PREDICTION",
+      points: 25,
+      idempotencyKey: "k1",
+    });
+
+    expect(result).toEqual({ success: true, eventId: "evt-u1", applied: true });
+    expect(prisma.$transaction).toHaveBeenCalledTimes(1);
+    expect(mockTx.user.update).toHaveBeenCalledWith({
+      where: { id: "u1" },
+      data: { reputation: { increment: 25 } },
+    });
+  });
+
+  it("is a no-op when the idempotency key was already used", async () => {
+    mockEventFindUnique.mockResolvedValue({ id: "evt-old" } as never);
+
+    const result = await changeReputation({
+      userId: "u1",
+      type: "CORRECT_PREDICTION",
+      points: 25,
+      idempotencyKey: "k1",
+    });
+
+    expect(result).toEqual({ success: true, eventId: "evt-old", applied: false });
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
+
+  it("treats a unique-key race as already applied", async () => {
+    mockTx.reputationEvent.create.mockRejectedValue(
+      new Prisma.PrismaClientKnownRequestError("Unique constraint", {
+        code: "P2002",
+        clientVersion: "test",
+      }),
+    );
+
+    const result = await changeReputation({
+      userId: "u1",
+      type: "WRONG_PREDICTION",
+      points: -12,
+      idempotencyKey: "k1",
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.applied).toBe(false);
+  });
+
+  it("returns an error result on other failures", async () => {
+    mockTx.reputationEvent.create.mockRejectedValue(new Error("DB down"));
+
+    const result = await changeReputation({
+      userId: "u1",
+      type: "WRONG_PREDICTION",
+      points: -12,
+    });
+
+    expect(result).toMatchObject({ success: false, error: "DB down" });
+  });
+});
+
+// ── awardPredictionReputation ───────────────────────────────────────────
+
+describe("awardPredictionReputation", () => {
+  it("scores each voter by difficulty", async () => {
+    mockClaimFindUnique.mockResolvedValue({
+      difficulty: "HARD",
+      claimVotes: [
+        { userId: "u1", side: "YES" },
+        { userId: "u2", side: "NO" },
+        { userId: "u3", side: "YES" },
+      ],
+    } as never);
+
+    const summary = await awardPredictionReputation("claim-1", "YES", "1000");
+
+    expect(summary).toEqual({ correct: 2, wrong: 1, skipped: 0, errors: [] });
+    expect(mockTx.reputationEvent.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        userId: "u1",
+        type: "CORRECT_PREDICTION",
+        points: 30,
+        claimId: "claim-1",
+        idempotencyKey: "prediction-claim-1-u1-1000",
+      }),
+    });
+    expect(mockTx.reputationEvent.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        userId: "u2",
+        type: "WRONG_PREDICTION",
+        points: -15,
+      }),
+    });
+  });
+
+  it("skips voters already scored for this resolution", async () => {
+    mockClaimFindUnique.mockResolvedValue({
+      difficulty: "EASY",
+      claimVotes: [{ userId: "u1", side: "NO" }],
+    } as never);
+    mockEventFindUnique.mockResolvedValue({ id: "evt-old" } as never);
+
+    const summary = await awardPredictionReputation("claim-1", "NO", "1000");
+
+    expect(summary).toEqual({ correct: 0, wrong: 0, skipped: 1, errors: [] });
+    expect(mockTx.user.update).not.toHaveBeenCalled();
+  });
+
+  it("reports a missing claim", async () => {
+    mockClaimFindUnique.mockResolvedValue(null);
+
+    const summary = await awardPredictionReputation("missing", "YES", "1");
+
+    expect(summary.errors).toEqual(["Claim missing not found"]);
+  });
+});
+
+// ── reversePredictionReputation ─────────────────────────────────────────
+
+describe("reversePredictionReputation", () => {
+  it("writes opposite ADMIN_ADJUSTMENT events keyed by the award", async () => {
+    mockEventFindMany.mockResolvedValue([
+      { id: "a1", userId: "u1", points: 25 },
+      { id: "a2", userId: "u2", points: -12 },
+    ] as never);
+
+    const summary = await reversePredictionReputation(
+      "claim-1",
+      "admin-1",
+      "Verdict corrected",
+    );
+
+    expect(summary).toEqual({ reversed: 2, errors: [] });
+    expect(mockTx.reputationEvent.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        userId: "u1",
+        type: "ADMIN_ADJUSTMENT",
+        points: -25,
+        idempotencyKey: "prediction-reversal-a1",
+      }),
+    });
+    expect(mockTx.user.update).toHaveBeenCalledWith({
+      where: { id: "u2" },
+      data: { reputation: { increment: 12 } },
+    });
+  });
+
+  it("does not reverse the same award twice", async () => {
+    mockEventFindMany.mockResolvedValue([
+      { id: "a1", userId: "u1", points: 25 },
+    ] as never);
+    mockEventFindUnique.mockResolvedValue({ id: "rev-a1" } as never);
+
+    const summary = await reversePredictionReputation("claim-1", "admin-1", "again");
+
+    expect(summary.reversed).toBe(0);
+    expect(mockTx.user.update).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,230 @@
+/**
+ * Tests for the stored-paper retraction check (src/lib/retraction-check.ts)
+ *
+ * PubMed, Crossref and Prisma are mocked: checks which papers are
+ * selected, how source statuses are combined and written back, failure
+ * handling, and flagging of resolved claims whose latest verdict relied on
+ * a newly retracted paper.
+ */
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("@/lib/prisma", () => ({
+  prisma: {
+    paper: { findMany: vi.fn(), update: vi.fn() },
+    claim: { findMany: vi.fn() },
+    market: { updateMany: vi.fn() },
+  },
+}));
+
+vi.mock("@/lib/pubmed", () => ({
+  fetchPubMedArticles: vi.fn(),
+}));
+
+vi.mock("@/lib/crossref", () => ({
+  getCrossrefWork: vi.fn(),
+}));
+
+import { prisma } from "@/lib/prisma";
+import { fetchPubMedArticles } from "@/lib/pubmed";
+import { getCrossrefWork } from "@/lib/crossref";
+import {
+  checkStoredPapers,
+  flagClaimsCitingRetracted,
+} from "@/lib/retraction-check";
+
+const mockFindPapers = vi.mocked(prisma.paper.findMany);
+const mockUpdatePaper = vi.mocked(prisma.paper.update);
+const mockFindClaims = vi.mocked(prisma.claim.findMany);
+const mockUpdateMarkets = vi.mocked(prisma.market.updateMany);
+const mockFetchArticles = vi.mocked(fetchPubMedArticles);
+const mockGetWork = vi.mocked(getCrossrefWork);
+
+const NOW = new Date("2026-03-01T00:00:00Z");
+
+function storedPaper(overrides: Record<string, unknown>) {
+  return {
+    id: "p1",
+    pmid: null,
+    doi: null,
+    retractionStatus: "NONE",
+    retractionNoticeUrl: null,
+    ...overrides,
+  };
+}
+
+function crossrefWork(updatedBy: { type: string; doi?: string }[] = []) {
+  return {
+    doi: "10.1/a",
+    authors: [],
+    type: "journal-article",
+    isPreprint: false,
+    updatedBy,
+    updates: [],
+  };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockFetchArticles.mockResolvedValue([]);
+  mockGetWork.mockResolvedValue(null);
+  mockFindClaims.mockResolvedValue([]);
+  mockUpdateMarkets.mockResolvedValue({ count: 0 });
+});
+
+describe("checkStoredPapers", () => {
+  it("selects unretracted papers not checked since the cut-off, oldest first", async () => {
+    mockFindPapers.mockResolvedValue([]);
+
+    await checkStoredPapers({ maxAgeDays: 10, limit: 50, now: NOW });
+
+    const query = mockFindPapers.mock.calls[0][0]!;
+    expect(query.where).toMatchObject({
+      retractionStatus: { in: ["NONE", "EXPRESSION_OF_CONCERN"] },
+      OR: [
+        { retractionCheckedAt: null },
+        { retractionCheckedAt: { lt: new Date("2026-02-19T00:00:00Z") } },
+      ],
+    });
+    expect(query.take).toBe(50);
+    expect(query.orderBy).toEqual({ retractionCheckedAt: { sort: "asc", nulls: "first" } });
+  });
+
+  it("stores a retraction found in PubMed and flags claims citing it", async () => {
+    mockFindPapers.mockResolvedValue([
+      storedPaper({ id: "p1", pmid: "111" }),
+      storedPaper({ id: "p2", pmid: "222" }),
+    ] as never);
+    mockFetchArticles.mockResolvedValue([
+      {
+        pmid: "111",
+        title: "Retracted trial",
+        authors: [],
+        publicationTypes: ["Retracted Publication"],
+        notices: [{ type: "RetractionIn", pmid: "999" }],
+      },
+      { pmid: "222", title: "Fine trial", authors: [], publicationTypes: [], notices: [] },
+    ]);
+    mockFindClaims.mockResolvedValue([
+      { id: "claim-1", verdicts: [{ paperIds: ["p1"], citations: [] }] },
+    ] as never);
+    mockUpdateMarkets.mockResolvedValue({ count: 1 });
+
+    const result = await checkStoredPapers({ now: NOW });
+
+    // Flagged before the status is stored, only for the changed paper
+    expect(mockFindClaims).toHaveBeenCalledOnce();
+    expect(mockUpdateMarkets.mock.invocationCallOrder[0]).toBeLessThan(
+      mockUpdatePaper.mock.invocationCallOrder[0],
+    );
+
+    expect(mockFetchArticles).toHaveBeenCalledWith(["111", "222"]);
+    expect(mockUpdatePaper).toHaveBeenCalledWith({
+      where: { id: "p1" },
+      data: {
+        retractionStatus: "RETRACTED",
+        retractionNoticeUrl: "https://pubmed.ncbi.nlm.nih.gov/999/",
+        retractionCheckedAt: NOW,
+      },
+    });
+    expect(mockUpdatePaper).toHaveBeenCalledWith({
+      where: { id: "p2" },
+      data: { retractionStatus: "NONE", retractionNoticeUrl: null, retractionCheckedAt: NOW },
+    });
+    expect(result).toEqual({
+      checked: 2,
+      changed: 1,
+      newlyRetracted: ["p1"],
+      flaggedClaims: 1,
+    });
+  });
+
+  it("combines PubMed and Crossref, keeping the more severe status", async () => {
+    mockFindPapers.mockResolvedValue([
+      storedPaper({ pmid: "111", doi: "10.1/a" }),
+    ] as never);
+    mockFetchArticles.mockResolvedValue([
+      { pmid: "111", title: "Trial", authors: [], publicationTypes: [], notices: [] },
+    ]);
+    mockGetWork.mockResolvedValue(
+      crossrefWork([{ type: "expression_of_concern", doi: "10.1/eoc" }])
+    );
+
+    const result = await checkStoredPapers({ now: NOW });
+
+    expect(mockGetWork).toHaveBeenCalledWith("10.1/a");
+    expect(mockUpdatePaper.mock.calls[0][0].data).toMatchObject({
+      retractionStatus: "EXPRESSION_OF_CONCERN",
+      retractionNoticeUrl: "https://doi.org/10.1/eoc",
+    });
+    expect(result.changed).toBe(1);
+    expect(result.newlyRetracted).toEqual([]);
+    // A new expression of concern flags claims too
+    expect(mockFindClaims).toHaveBeenCalledOnce();
+  });
+
+  it("leaves papers unchecked when every source fails", async () => {
+    mockFindPapers.mockResolvedValue([
+      storedPaper({ pmid: "111", doi: "10.1/a" }),
+    ] as never);
+    mockFetchArticles.mockRejectedValue(new Error("PubMed fetch failed: Bad Gateway"));
+    mockGetWork.mockRejectedValue(new Error("Crossref lookup failed: 503"));
+    const onError = vi.fn();
+
+    const result = await checkStoredPapers({ now: NOW, onError });
+
+    expect(mockUpdatePaper).not.toHaveBeenCalled();
+    expect(result.checked).toBe(0);
+    expect(onError).toHaveBeenCalledTimes(2);
+  });
+
+  it("records a check when only one source answers", async () => {
+    mockFindPapers.mockResolvedValue([storedPaper({ doi: "10.1/a" })] as never);
+    mockGetWork.mockResolvedValue(null); // Not registered with Crossref
+
+    const result = await checkStoredPapers({ now: NOW });
+
+    expect(mockFetchArticles).not.toHaveBeenCalled();
+    expect(mockUpdatePaper.mock.calls[0][0].data).toMatchObject({
+      retractionStatus: "NONE",
+      retractionCheckedAt: NOW,
+    });
+    expect(result.checked).toBe(1);
+  });
+});
+
+describe("flagClaimsCitingRetracted", () => {
+  it("does nothing without retracted papers", async () => {
+    expect(await flagClaimsCitingRetracted([])).toBe(0);
+    expect(mockFindClaims).not.toHaveBeenCalled();
+  });
+
+  it("flags only claims whose latest verdict relied on a retracted paper", async () => {
+    mockFindClaims.mockResolvedValue([
+      { id: "claim-1", verdicts: [{ paperIds: [], citations: [{ id: "c1" }] }] },
+      // Retrieved for the verdict but not cited inline
+      { id: "claim-2", verdicts: [{ paperIds: ["p0", "p1"], citations: [] }] },
+      // An earlier verdict relied on it; the current one doesn't
+      { id: "claim-3", verdicts: [{ paperIds: ["p0"], citations: [] }] },
+    ] as never);
+    mockUpdateMarkets.mockResolvedValue({ count: 2 });
+
+    const flagged = await flagClaimsCitingRetracted(["p1"]);
+
+    expect(mockFindClaims.mock.calls[0][0]!.where).toEqual({
+      market: { status: "RESOLVED", retractionFlagged: false },
+      verdicts: {
+        some: {
+          OR: [
+            { paperIds: { hasSome: ["p1"] } },
+            { citations: { some: { paperId: { in: ["p1"] } } } },
+          ],
+        },
+      },
+    });
+    expect(mockUpdateMarkets).toHaveBeenCalledWith({
+      where: { claimId: { in: ["claim-1", "claim-2"] } },
+      data: { retractionFlagged: true },
+    });
+    expect(flagged).toBe(2);
+  });
+});
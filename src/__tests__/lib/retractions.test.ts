@@ -0,0 +1,175 @@
+/**
+ * Tests for retraction status (src/lib/retractions.ts)
+ *
+ * Covers reading status from PubMed publication types and
+ * CommentsCorrections links, from Crossref update metadata, and combining
+ * statuses from several sources.
+ */
+import { describe, it, expect } from "vitest";
+import {
+  isExcludedFromEvidence,
+  retractionFromCrossref,
+  retractionFromPubMed,
+  worseRetraction,
+} from "@/lib/retractions";
+import type { PubMedArticle } from "@/lib/pubmed";
+import type { CrossrefWork } from "@/lib/crossref";
+
+const ARTICLE: PubMedArticle = {
+  pmid: "30987654",
+  title: "Intermittent fasting reverses type 2 diabetes",
+  authors: [],
+  publicationTypes: ["Randomized Controlled Trial"],
+  notices: [],
+};
+
+const WORK: CrossrefWork = {
+  doi: "10.1016/j.nut.2019.03.011",
+  authors: [],
+  type: "journal-article",
+  isPreprint: false,
+  updatedBy: [],
+  updates: [],
+};
+
+describe("retractionFromPubMed", () => {
+  it("finds no notice on an ordinary article", () => {
+    expect(retractionFromPubMed(ARTICLE)).toEqual({ status: "NONE" });
+  });
+
+  it("marks a Retracted Publication, linking the RetractionIn notice", () => {
+    const info = retractionFromPubMed({
+      ...ARTICLE,
+      publicationTypes: ["Randomized Controlled Trial", "Retracted Publication"],
+      notices: [{ type: "RetractionIn", pmid: "33571234" }],
+    });
+    expect(info).toEqual({
+      status: "RETRACTED",
+      noticeUrl: "https://pubmed.ncbi.nlm.nih.gov/33571234/",
+    });
+  });
+
+  it("treats a RetractionIn link alone as retracted", () => {
+    const info = retractionFromPubMed({
+      ...ARTICLE,
+      notices: [{ type: "RetractionIn" }],
+    });
+    expect(info).toEqual({ status: "RETRACTED", noticeUrl: undefined });
+  });
+
+  it("marks retraction notices as notices", () => {
+    const info = retractionFromPubMed({
+      ...ARTICLE,
+      publicationTypes: ["Retraction of Publication"],
+      notices: [{ type: "RetractionOf", pmid: "30987654" }],
+    });
+    expect(info).toEqual({ status: "NOTICE" });
+  });
+
+  it("marks an expression of concern", () => {
+    const info = retractionFromPubMed({
+      ...ARTICLE,
+      notices: [{ type: "ExpressionOfConcernIn", pmid: "35000001" }],
+    });
+    expect(info).toEqual({
+      status: "EXPRESSION_OF_CONCERN",
+      noticeUrl: "https://pubmed.ncbi.nlm.nih.gov/35000001/",
+    });
+  });
+
+  it("handles articles parsed without publication types", () => {
+    const { publicationTypes: _types, notices: _notices, ...bare } = ARTICLE;
+    expect(retractionFromPubMed(bare)).toEqual({ status: "NONE" });
+  });
+});
+
+describe("retractionFromCrossref", () => {
+  it("finds no notice on a work without updates", () => {
+    expect(retractionFromCrossref(WORK)).toEqual({ status: "NONE" });
+  });
+
+  it("marks a retraction, preferring it over an expression of concern", () => {
+    const info = retractionFromCrossref({
+      ...WORK,
+      updatedBy: [
+        { type: "expression_of_concern", doi: "10.1/eoc" },
+        { type: "retraction", doi: "10.1/retraction", source: "retraction-watch" },
+      ],
+    });
+    expect(info).toEqual({
+      status: "RETRACTED",
+      noticeUrl: "https://doi.org/10.1/retraction",
+    });
+  });
+
+  it("treats withdrawals as retractions", () => {
+    const info = retractionFromCrossref({
+      ...WORK,
+      updatedBy: [{ type: "withdrawal", doi: "10.1/withdrawal" }],
+    });
+    expect(info.status).toBe("RETRACTED");
+  });
+
+  it("ignores corrections", () => {
+    const info = retractionFromCrossref({
+      ...WORK,
+      updatedBy: [{ type: "correction", doi: "10.1/erratum" }],
+    });
+    expect(info).toEqual({ status: "NONE" });
+  });
+
+  it("marks an expression of concern", () => {
+    const info = retractionFromCrossref({
+      ...WORK,
+      updatedBy: [{ type: "expression_of_concern", doi: "10.1/eoc" }],
+    });
+    expect(info).toEqual({
+      status: "EXPRESSION_OF_CONCERN",
+      noticeUrl: "https://doi.org/10.1/eoc",
+    });
+  });
+
+  it("marks a work that updates another as a notice", () => {
+    const info = retractionFromCrossref({
+      ...WORK,
+      updates: [{ type: "retraction", doi: "10.1/original" }],
+    });
+    expect(info).toEqual({ status: "NOTICE" });
+  });
+});
+
+describe("worseRetraction", () => {
+  it("keeps the more severe status and its notice", () => {
+    expect(
+      worseRetraction(
+        { status: "EXPRESSION_OF_CONCERN", noticeUrl: "https://doi.org/10.1/eoc" },
+        { status: "RETRACTED", noticeUrl: "https://doi.org/10.1/r" }
+      )
+    ).toEqual({ status: "RETRACTED", noticeUrl: "https://doi.org/10.1/r" });
+  });
+
+  it("never clears a retraction", () => {
+    expect(
+      worseRetraction({ status: "RETRACTED" }, { status: "NONE" }).status
+    ).toBe("RETRACTED");
+  });
+
+  it("fills a missing notice from a source with the same status", () => {
+    expect(
+      worseRetraction(
+        { status: "RETRACTED" },
+        { status: "RETRACTED", noticeUrl: "https://doi.org/10.1/r" }
+      )
+    ).toEqual({ status: "RETRACTED", noticeUrl: "https://doi.org/10.1/r" });
+  });
+});
+
+describe("isExcludedFromEvidence", () => {
+  it("excludes retracted papers and notices only", () => {
+    expect(isExcludedFromEvidence("RETRACTED")).toBe(true);
+    expect(isExcludedFromEvidence("NOTICE")).toBe(true);
+    expect(isExcludedFromEvidence("EXPRESSION_OF_CONCERN")).toBe(false);
+    expect(isExcludedFromEvidence("NONE")).toBe(false);
+    expect(isExcludedFromEvidence(undefined)).toBe(false);
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * Tests for the offline retrieval eval (src/lib/retrieval-eval.ts)
+ *
+ * Covers the metrics, the stub LLM, a full run over a small gold set with
+ * the fake embedder, report determinism, and baseline comparison. Runs
+ * under node: the OpenAI SDK refuses to construct a client in jsdom.
+ *
+ * @vitest-environment node
+ */
+import { describe, it, expect } from "vitest";
+import { readFileSync } from "fs";
+import path from "path";
+import { FakeEmbeddingProvider } from "@/lib/llm";
+import {
+  compareSummaries,
+  goldSetSchema,
+  recallAtK,
+  reciprocalRank,
+  runRetrievalEval,
+  StubLlmProvider,
+  type GoldSet,
+} from "@/lib/retrieval-eval";
+import { RETRIEVAL_SETTINGS } from "@/lib/retrieval-settings";
+
+// ── Fixtures ────────────────────────────────────────────────────────────
+
+const CLAIM = "Creatine supplementation increases muscle strength";
+
+function pubmed(pmid: string, title: string, abstract: string) {
+  return { pmid, title, abstract, authors: [] };
+}
+
+const GOLD: GoldSet = goldSetSchema.parse({
+  claims: [
+    {
+      id: "creatine",
+      title: CLAIM,
+      relevantPmids: ["1", "2"],
+      expectedVerdict: "SUPPORTED",
+      stances: { "1": "SUPPORTS", "2": "SUPPORTS", "3": "CONTRADICTS" },
+      sources: {
+        pubmed: [
+          pubmed("3", "Sauna use and sleep", "Sauna bathing before bed shortened sleep onset in sixty adults who were followed for two weeks."),
+          pubmed("1", "Creatine and strength", "Creatine supplementation increases muscle strength during resistance training in adults, a meta-analysis of trials found."),
+          pubmed("2", "Creatine in older adults", "In older adults creatine supplementation increases muscle strength gains from resistance training compared with placebo."),
+        ],
+        semanticScholar: [
+          {
+            paperId: "s2-1",
+            externalIds: { PubMed: "1" },
+            title: "Creatine and strength",
+            abstract: null,
+            tldr: null,
+            authors: [],
+            year: 2020,
+            citationCount: 0,
+            journal: null,
+            publicationTypes: null,
+          },
+        ],
+      },
+    },
+  ],
+});
+
+const OPTIONS = {
+  goldSetName: "test.json",
+  settings: RETRIEVAL_SETTINGS,
+  embeddings: new FakeEmbeddingProvider(),
+  k: [1, 3],
+};
+
+// ── Metrics ─────────────────────────────────────────────────────────────
+
+describe("recallAtK", () => {
+  it("counts relevant items within the cut-off", () => {
+    expect(recallAtK(["a", "b", "c"], ["a", "c"], 1)).toBe(0.5);
+    expect(recallAtK(["a", "b", "c"], ["a", "c"], 3)).toBe(1);
+    expect(recallAtK([], ["a"], 5)).toBe(0);
+  });
+});
+
+describe("reciprocalRank", () => {
+  it("uses the rank of the first relevant item", () => {
+    expect(reciprocalRank(["x", "a", "b"], ["b", "a"])).toBe(0.5);
+    expect(reciprocalRank(["x"], ["a"])).toBe(0);
+  });
+});
+
+// ── StubLlmProvider ─────────────────────────────────────────────────────
+
+describe("StubLlmProvider", () => {
+  const llm = new StubLlmProvider(new Map([["Paper A", "CONTRADICTS"]]));
+
+  it("extracts the stance recorded for the paper in the prompt", async () => {
+    const known = await llm.complete({
+      task: "extraction",
+      system: "",
+      user: 'Claim: "c"\n\nPaper title: "Paper A"',
+    });
+    const unknown = await llm.complete({
+      task: "extraction",
+      system: "",
+      user: 'Claim: "c"\n\nPaper title: "Paper B"',
+    });
+    expect(JSON.parse(known.content!).stance).toBe("CONTRADICTS");
+    expect(JSON.parse(unknown.content!).stance).toBe("INSUFFICIENT");
+  });
+
+  it("needs a 2:1 lead for a one-sided verdict", async () => {
+    const verdictFor = async (stances: string[]) => {
+      const { content } = await llm.complete({
+        task: "synthesis",
+        system: "",
+        user: stances.map((s) => `- Stance: ${s}`).join("\n"),
+      });
+      return JSON.parse(content!).verdict;
+    };
+
+    expect(await verdictFor(["SUPPORTS", "SUPPORTS", "CONTRADICTS"])).toBe("SUPPORTED");
+    expect(await verdictFor(["SUPPORTS", "CONTRADICTS", "CONTRADICTS"])).toBe("CONTRADICTED");
+    expect(await verdictFor(["SUPPORTS", "SUPPORTS", "SUPPORTS", "CONTRADICTS", "CONTRADICTS"])).toBe("MIXED");
+    expect(await verdictFor(["NEUTRAL", "INSUFFICIENT"])).toBe("INSUFFICIENT");
+  });
+});
+
+// ── runRetrievalEval ────────────────────────────────────────────────────
+
+describe("runRetrievalEval", () => {
+  it("dedups, ranks and scores each claim", async () => {
+    const report = await runRetrievalEval(GOLD, OPTIONS);
+    const [claim] = report.claims;
+
+    expect(claim.papersFound).toBe(4);
+    expect(claim.papersAfterDedup).toBe(3);
+    expect(claim.ranked.slice(0, 2).sort()).toEqual(["1", "2"]);
+    expect(claim.ranked).not.toContain("3");
+    expect(claim.recallAtK).toEqual({ "1": 0.5, "3": 1 });
+    expect(claim.reciprocalRank).toBe(1);
+    // The off-topic paper still reaches synthesis, as in the worker
+    expect(claim.verdict).toBe("SUPPORTED");
+    expect(claim.verdictAgrees).toBe(true);
+
+    expect(report.summary).toEqual({
+      claims: 1,
+      recallAtK: { "1": 0.5, "3": 1 },
+      mrr: 1,
+      verdictAgreement: 1,
+    });
+    expect(report.embeddingModel).toBe("fake-hashed-bow");
+    expect(report.settings).toEqual(RETRIEVAL_SETTINGS);
+  });
+
+  it("ranks nothing when no chunk clears the threshold", async () => {
+    const report = await runRetrievalEval(GOLD, {
+      ...OPTIONS,
+      settings: { ...RETRIEVAL_SETTINGS, minSimilarity: 0.99 },
+    });
+    expect(report.claims[0].ranked).toEqual([]);
+    expect(report.summary.mrr).toBe(0);
+  });
+
+  it("produces identical JSON for the shipped gold set on every run", async () => {
+    const file = path.join(process.cwd(), "src/eval/fixtures/gold-claims.json");
+    const gold = goldSetSchema.parse(JSON.parse(readFileSync(file, "utf8")));
+
+    const first = await runRetrievalEval(gold, OPTIONS);
+    const second = await runRetrievalEval(gold, OPTIONS);
+
+    expect(JSON.stringify(first)).toBe(JSON.stringify(second));
+    expect(first.claims.length).toBe(gold.claims.length);
+  });
+});
+
+// ── compareSummaries ────────────────────────────────────────────────────
+
+describe("compareSummaries", () => {
+  it("reports per-metric changes for shared cut-offs", () => {
+    const deltas = compareSummaries(
+      { claims: 2, recallAtK: { "5": 0.5 }, mrr: 0.75, verdictAgreement: 1 },
+      { claims: 2, recallAtK: { "5": 0.8, "10": 1 }, mrr: 0.5, verdictAgreement: 1 }
+    );
+    expect(deltas).toEqual({ "recall@5": 0.3, mrr: -0.25, verdictAgreement: 0 });
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * Tests for dossier search plans (src/lib/search-plan.ts)
+ *
+ * Covers the MeSH boolean PubMed builder, turning a model plan into
+ * per-source queries, the title-only fallback, edited-query validation and
+ * per-claim source selection.
+ */
+import { describe, it, expect } from "vitest";
+import {
+  buildPubMedQuery,
+  toSearchPlan,
+  fallbackSearchPlan,
+  searchQueriesSchema,
+  paperSourcesSchema,
+  resolvePaperSourceIds,
+  plainQuery,
+  DEFAULT_PAPER_SOURCES,
+} from "@/lib/search-plan";
+import { ARXIV_HEALTH_CATEGORIES } from "@/lib/arxiv";
+import type { QueryPlan } from "@/lib/prompts";
+
+const CLAIM = "Creatine improves muscle strength";
+
+const PLAN: QueryPlan = {
+  population: {
+    term: "resistance-trained adults",
+    meshTerms: ["Resistance Training"],
+    synonyms: [],
+  },
+  intervention: {
+    term: "creatine",
+    meshTerms: ["Creatine"],
+    synonyms: ["creatine monohydrate", "Creatine"],
+  },
+  comparator: { term: "placebo", meshTerms: ["Placebos"], synonyms: [] },
+  outcome: {
+    term: "muscle strength",
+    meshTerms: ["Muscle Strength"],
+    synonyms: ["1RM"],
+  },
+  searchPhrases: ["creatine supplementation strength", CLAIM.toLowerCase()],
+  arxivCategories: ["q-bio.QM", "astro-ph.GA"],
+};
+
+// ── buildPubMedQuery ────────────────────────────────────────────────────
+
+describe("buildPubMedQuery", () => {
+  it("ORs MeSH and free-text terms per element and ANDs the elements", () => {
+    expect(buildPubMedQuery(PLAN)).toBe(
+      '("Creatine"[MeSH Terms] OR "creatine"[Title/Abstract] OR "creatine monohydrate"[Title/Abstract])' +
+        ' AND ("Muscle Strength"[MeSH Terms] OR "muscle strength"[Title/Abstract] OR "1RM"[Title/Abstract])' +
+        ' AND ("Resistance Training"[MeSH Terms] OR "resistance-trained adults"[Title/Abstract])'
+    );
+  });
+
+  it("leaves out the comparator and missing elements", () => {
+    const query = buildPubMedQuery({
+      ...PLAN,
+      population: null,
+      outcome: null,
+    });
+    expect(query).not.toContain("Placebos");
+    expect(query).not.toContain(" AND ");
+  });
+
+  it("strips quotes and brackets from terms", () => {
+    const query = buildPubMedQuery({
+      population: null,
+      intervention: { term: 'vitamin "D" [high dose]', meshTerms: [], synonyms: [] },
+      comparator: null,
+      outcome: null,
+    });
+    expect(query).toBe('"vitamin D high dose"[Title/Abstract]');
+  });
+});
+
+// ── toSearchPlan / fallbackSearchPlan ───────────────────────────────────
+
+describe("toSearchPlan", () => {
+  it("builds queries for every source from the model plan", () => {
+    const plan = toSearchPlan(CLAIM, PLAN);
+
+    expect(plan.source).toBe("llm");
+    expect(plan.pico?.intervention.term).toBe("creatine");
+    expect(plan.pubmedQuery).toBe(buildPubMedQuery(PLAN));
+    expect(plan.semanticScholarQueries).toEqual([
+      CLAIM,
+      "creatine supplementation strength",
+    ]);
+    expect(plan.arxivQuery).toBe(CLAIM);
+    expect(plan.arxivCategories).toEqual(["q-bio.QM"]);
+  });
+
+  it("searches every health category when none usable were chosen", () => {
+    const plan = toSearchPlan(CLAIM, { ...PLAN, arxivCategories: ["hep-th"] });
+    expect(plan.arxivCategories).toEqual(Object.keys(ARXIV_HEALTH_CATEGORIES));
+  });
+
+  it("falls back to the title query when no element yields terms", () => {
+    const plan = toSearchPlan(CLAIM, {
+      ...PLAN,
+      population: null,
+      outcome: null,
+      intervention: { term: '""', meshTerms: [], synonyms: [] },
+    });
+    expect(plan.pubmedQuery).toBe(`${CLAIM} systematic review`);
+  });
+});
+
+describe("fallbackSearchPlan", () => {
+  it("reproduces the title-only queries", () => {
+    expect(fallbackSearchPlan(CLAIM)).toEqual({
+      source: "fallback",
+      pico: null,
+      pubmedQuery: `${CLAIM} systematic review`,
+      semanticScholarQueries: [CLAIM],
+      arxivQuery: CLAIM,
+      arxivCategories: Object.keys(ARXIV_HEALTH_CATEGORIES),
+    });
+  });
+});
+
+// ── Schemas ─────────────────────────────────────────────────────────────
+
+describe("searchQueriesSchema", () => {
+  const queries = {
+    pubmedQuery: "creatine[tiab]",
+    semanticScholarQueries: ["creatine"],
+    arxivQuery: "creatine",
+    arxivCategories: ["stat.AP"],
+  };
+
+  it("accepts edited queries", () => {
+    expect(searchQueriesSchema.safeParse(queries).success).toBe(true);
+  });
+
+  it("rejects unknown arXiv categories and too many S2 queries", () => {
+    expect(
+      searchQueriesSchema.safeParse({ ...queries, arxivCategories: ["hep-th"] })
+        .success
+    ).toBe(false);
+    expect(
+      searchQueriesSchema.safeParse({
+        ...queries,
+        semanticScholarQueries: ["a", "b", "c", "d"],
+      }).success
+    ).toBe(false);
+  });
+});
+
+describe("paperSourcesSchema", () => {
+  it("accepts known sources and an empty choice", () => {
+    expect(paperSourcesSchema.safeParse(["pubmed", "crossref"]).success).toBe(true);
+    expect(paperSourcesSchema.safeParse([]).success).toBe(true);
+  });
+
+  it("rejects unknown sources", () => {
+    expect(paperSourcesSchema.safeParse(["scopus"]).success).toBe(false);
+  });
+
+  it("requires a source that searches for papers", () => {
+    const result = paperSourcesSchema.safeParse(["crossref"]);
+    expect(result.success).toBe(false);
+    expect(result.error?.errors[0].message).toBe(
+      "Choose at least one source that searches for papers"
+    );
+  });
+});
+
+describe("resolvePaperSourceIds", () => {
+  it("falls back to the defaults when nothing is chosen", () => {
+    expect(resolvePaperSourceIds([])).toEqual(DEFAULT_PAPER_SOURCES);
+    expect(resolvePaperSourceIds(null)).toEqual(DEFAULT_PAPER_SOURCES);
+  });
+
+  it("returns chosen sources in registry order, ignoring unknown IDs", () => {
+    expect(
+      resolvePaperSourceIds(["crossref", "retired", "europePmc", "pubmed"])
+    ).toEqual(["pubmed", "europePmc", "crossref"]);
+  });
+});
+
+describe("plainQuery", () => {
+  it("uses the first Semantic Scholar query, else the arXiv query", () => {
+    const queries = {
+      pubmedQuery: "creatine[tiab]",
+      semanticScholarQueries: ["creatine strength", "creatine power"],
+      arxivQuery: "creatine",
+      arxivCategories: [],
+    };
+    expect(plainQuery(queries)).toBe("creatine strength");
+    expect(plainQuery({ ...queries, semanticScholarQueries: [] })).toBe("creatine");
+  });
+});
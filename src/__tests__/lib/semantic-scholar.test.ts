@@ -9,6 +9,8 @@ import {
   searchSemanticScholar,
   getSemanticScholarPaper,
   getRecommendations,
+  getPaperReferences,
+  getPaperCitations,
   searchHealthPapers,
 } from "@/lib/semantic-scholar";
 
@@ -76,6 +78,17 @@ describe("searchSemanticScholar", () => {
     expect(url).toContain("fields=");
   });
 
+  it("filters by publication date when given a start date", async () => {
+    mockFetch.mockResolvedValueOnce(
+      jsonResponse({ total: 0, offset: 0, data: [] })
+    );
+
+    await searchSemanticScholar("creatine", 10, 0, new Date("2026-01-10T08:00:00Z"));
+
+    const [url] = mockFetch.mock.calls[0];
+    expect(url).toContain("publicationDateOrYear=2026-01-10%3A");
+  });
+
   it("returns parsed papers", async () => {
     mockFetch.mockResolvedValueOnce(
       jsonResponse({ total: 2, offset: 0, data: [PAPER_A, PAPER_B] })
@@ -189,6 +202,56 @@ describe("getRecommendations", () => {
   });
 });
 
+// ── getPaperReferences / getPaperCitations ──────────────────────────────
+
+describe("getPaperReferences", () => {
+  it("returns resolved cited papers without requesting TLDRs", async () => {
+    const { tldr: _tldr, ...withoutTldr } = PAPER_A;
+    mockFetch.mockResolvedValueOnce(
+      jsonResponse({
+        offset: 0,
+        data: [
+          { citedPaper: withoutTldr },
+          { citedPaper: { paperId: null, title: "Unresolved reference" } },
+        ],
+      })
+    );
+
+    const refs = await getPaperReferences("abc123", 10);
+    expect(refs).toEqual([{ ...withoutTldr, tldr: null }]);
+
+    const url = new URL(mockFetch.mock.calls[0][0]);
+    expect(url.pathname).toBe("/graph/v1/paper/abc123/references");
+    expect(url.searchParams.get("limit")).toBe("10");
+    expect(url.searchParams.get("fields")).not.toContain("tldr");
+  });
+
+  it("throws on error", async () => {
+    mockFetch.mockResolvedValueOnce(
+      new Response("Error", { status: 404, statusText: "Not Found" })
+    );
+
+    await expect(getPaperReferences("missing")).rejects.toThrow(
+      "Semantic Scholar references failed: 404 Not Found"
+    );
+  });
+});
+
+describe("getPaperCitations", () => {
+  it("returns the citing papers", async () => {
+    mockFetch.mockResolvedValueOnce(
+      jsonResponse({ offset: 0, data: [{ citingPaper: PAPER_B }] })
+    );
+
+    const citing = await getPaperCitations("abc123");
+    expect(citing.map((p) => p.paperId)).toEqual(["def456"]);
+
+    const [url] = mockFetch.mock.calls[0];
+    expect(url).toContain("/paper/abc123/citations");
+    expect(url).toContain("limit=20");
+  });
+});
+
 // ── searchHealthPapers ──────────────────────────────────────────────────
 
 describe("searchHealthPapers", () => {
@@ -0,0 +1,183 @@
+/**
+ * Tests for citation snowballing (src/lib/snowball.ts)
+ *
+ * The Semantic Scholar client is mocked; covers seed selection, the
+ * reference → citation → recommendation order, provenance, skipping papers
+ * already found, the budget, and per-seed failures.
+ */
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+// ── Mocks ───────────────────────────────────────────────────────────────
+
+const mockGetPaper = vi.fn();
+const mockReferences = vi.fn();
+const mockCitations = vi.fn();
+const mockRecommendations = vi.fn();
+
+vi.mock("@/lib/semantic-scholar", () => ({
+  getSemanticScholarPaper: (...args: unknown[]) => mockGetPaper(...args),
+  getPaperReferences: (...args: unknown[]) => mockReferences(...args),
+  getPaperCitations: (...args: unknown[]) => mockCitations(...args),
+  getRecommendations: (...args: unknown[]) => mockRecommendations(...args),
+}));
+
+import {
+  isEvidenceSynthesis,
+  selectSnowballSeeds,
+  snowball,
+} from "@/lib/snowball";
+import type { UnifiedPaper } from "@/lib/papers";
+
+// ── Fixtures ────────────────────────────────────────────────────────────
+
+const REVIEW: UnifiedPaper = {
+  title: "Creatine and muscle strength: a systematic review and meta-analysis",
+  doi: "10.1/review",
+  semanticScholarId: "s2-review",
+  authors: ["Smith J"],
+};
+
+const RCT: UnifiedPaper = {
+  title: "Creatine supplementation in older adults: a randomised trial",
+  doi: "10.1/rct",
+  authors: ["Doe A"],
+};
+
+function s2Paper(paperId: string, doi?: string) {
+  return {
+    paperId,
+    externalIds: doi ? { DOI: doi } : null,
+    title: `Paper ${paperId}`,
+    abstract: null,
+    tldr: null,
+    authors: [],
+    year: 2020,
+    citationCount: 0,
+    journal: null,
+    publicationTypes: null,
+  };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockReferences.mockResolvedValue([]);
+  mockCitations.mockResolvedValue([]);
+  mockRecommendations.mockResolvedValue([]);
+});
+
+// ── Tests ───────────────────────────────────────────────────────────────
+
+describe("isEvidenceSynthesis", () => {
+  it("recognises systematic reviews and meta-analyses by title", () => {
+    for (const title of [
+      "Creatine: a systematic review",
+      "A meta-analysis of creatine trials",
+      "Creatine and strength: a metaanalysis",
+      "Meta-analyses of supplement trials",
+      "Creatine supplementation: an umbrella review",
+      "Systematically reviewing creatine",
+    ]) {
+      expect(isEvidenceSynthesis({ title })).toBe(true);
+    }
+  });
+
+  it("does not treat primary studies or narrative reviews as syntheses", () => {
+    expect(isEvidenceSynthesis(RCT)).toBe(false);
+    expect(isEvidenceSynthesis({ title: "Creatine: a narrative review" })).toBe(false);
+  });
+});
+
+describe("selectSnowballSeeds", () => {
+  it("keeps syntheses in retrieval order, up to the limit", () => {
+    const second = { ...REVIEW, title: "Creatine in ageing: a meta-analysis" };
+    expect(selectSnowballSeeds([RCT, REVIEW, second], 1)).toEqual([REVIEW]);
+    expect(selectSnowballSeeds([RCT, REVIEW, second])).toEqual([REVIEW, second]);
+  });
+});
+
+describe("snowball", () => {
+  it("takes references, then citations, then recommendations, with provenance", async () => {
+    mockReferences.mockResolvedValue([s2Paper("ref-1")]);
+    mockCitations.mockResolvedValue([s2Paper("cite-1")]);
+    mockRecommendations.mockResolvedValue([s2Paper("rec-1")]);
+
+    const candidates = await snowball([REVIEW, RCT], { budget: 10, perLink: 5 });
+
+    expect(mockReferences).toHaveBeenCalledWith("s2-review", 5);
+    expect(mockCitations).toHaveBeenCalledWith("s2-review", 5);
+    expect(mockRecommendations).toHaveBeenCalledWith("s2-review", 5);
+    expect(
+      candidates.map((p) => [p.semanticScholarId, p.foundVia?.link])
+    ).toEqual([
+      ["ref-1", "reference"],
+      ["cite-1", "citation"],
+      ["rec-1", "recommendation"],
+    ]);
+    expect(candidates[0].foundVia?.seed).toBe(REVIEW);
+  });
+
+  it("skips papers already found and repeats across links", async () => {
+    mockReferences.mockResolvedValue([
+      s2Paper("s2-rct", "10.1/RCT"),
+      s2Paper("ref-1"),
+    ]);
+    mockCitations.mockResolvedValue([s2Paper("ref-1"), s2Paper("s2-review")]);
+
+    const candidates = await snowball([REVIEW, RCT], { budget: 10 });
+
+    expect(candidates.map((p) => p.semanticScholarId)).toEqual(["ref-1"]);
+  });
+
+  it("stops once the budget is spent", async () => {
+    mockReferences.mockResolvedValue([
+      s2Paper("ref-1"),
+      s2Paper("ref-2"),
+      s2Paper("ref-3"),
+    ]);
+
+    const candidates = await snowball([REVIEW], { budget: 2 });
+
+    expect(candidates).toHaveLength(2);
+    expect(mockCitations).not.toHaveBeenCalled();
+  });
+
+  it("does nothing without budget or seeds", async () => {
+    expect(await snowball([REVIEW], { budget: 0 })).toEqual([]);
+    expect(await snowball([RCT], { budget: 10 })).toEqual([]);
+    expect(mockReferences).not.toHaveBeenCalled();
+  });
+
+  it("looks up the Semantic Scholar ID of a seed found elsewhere", async () => {
+    mockGetPaper.mockResolvedValue(s2Paper("s2-looked-up"));
+    const pubmedReview = {
+      title: "Creatine and strength: a meta-analysis",
+      pmid: "12345",
+      authors: [],
+    };
+
+    await snowball([pubmedReview], { budget: 10 });
+
+    expect(mockGetPaper).toHaveBeenCalledWith("PMID:12345");
+    expect(mockReferences).toHaveBeenCalledWith("s2-looked-up", 10);
+  });
+
+  it("reports a failing seed and moves on to the next", async () => {
+    const second = {
+      ...REVIEW,
+      title: "Creatine in ageing: a meta-analysis",
+      semanticScholarId: "s2-second",
+    };
+    mockReferences
+      .mockRejectedValueOnce(new Error("Semantic Scholar references failed: 500"))
+      .mockResolvedValueOnce([s2Paper("ref-2")]);
+    const onSeedError = vi.fn();
+
+    const candidates = await snowball([REVIEW, second], {
+      budget: 10,
+      onSeedError,
+    });
+
+    expect(onSeedError).toHaveBeenCalledWith(REVIEW, expect.any(Error));
+    expect(candidates.map((p) => p.foundVia?.seed)).toEqual([second]);
+  });
+});
@@ -0,0 +1,310 @@
+/**
+ * Tests for pari-mutuel stake pools (src/lib/stake-pool.ts)
+ *
+ * Covers the pure payout calculation and the settlement orchestration,
+ * with Prisma and the coin service mocked.
+ */
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("@/lib/prisma", () => ({
+  prisma: {
+    coinHold: {
+      findMany: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    creditEvent: {
+      findMany: vi.fn(),
+    },
+  },
+}));
+
+vi.mock("@/lib/coin-service", () => ({
+  transferCoins: vi.fn(),
+  refundStake: vi.fn(),
+}));
+
+import { prisma } from "@/lib/prisma";
+import { transferCoins, refundStake } from "@/lib/coin-service";
+import {
+  calculatePoolPayouts,
+  settleMarketStakes,
+  voidMarket,
+  type PoolHold,
+} from "@/lib/stake-pool";
+
+const mockFindMany = vi.mocked(prisma.coinHold.findMany);
+const mockUpdateMany = vi.mocked(prisma.coinHold.updateMany);
+const mockCreditFindMany = vi.mocked(prisma.creditEvent.findMany);
+const mockTransfer = vi.mocked(transferCoins);
+const mockRefund = vi.mocked(refundStake);
+
+// ── Fixtures ────────────────────────────────────────────────────────────
+
+const HOLDS: PoolHold[] = [
+  { id: "h1", userId: "u1", amount: 30, side: "YES" },
+  { id: "h2", userId: "u2", amount: 10, side: "YES" },
+  { id: "h3", userId: "u3", amount: 40, side: "NO" },
+];
+
+const OK = { success: true, newBalance: 100, eventId: "evt" };
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockUpdateMany.mockResolvedValue({ count: 1 } as never);
+  mockTransfer.mockResolvedValue(OK);
+  mockRefund.mockResolvedValue(OK);
+});
+
+// ── calculatePoolPayouts ────────────────────────────────────────────────
+
+describe("calculatePoolPayouts", () => {
+  it("splits the losing pool pro-rata among winners", () => {
+    const plan = calculatePoolPayouts(HOLDS, "YES", 0);
+
+    expect(plan.winningPool).toBe(40);
+    expect(plan.losingPool).toBe(40);
+    expect(plan.payouts).toEqual([
+      { holdId: "h1", userId: "u1", stake: 30, winnings: 30, fee: 0 },
+      { holdId: "h2", userId: "u2", stake: 10, winnings: 10, fee: 0 },
+    ]);
+    expect(plan.forfeited).toEqual(["h3"]);
+    expect(plan.refunded).toEqual([]);
+    expect(plan.dust).toBe(0);
+  });
+
+  it("burns the house fee from winnings", () => {
+    const plan = calculatePoolPayouts(HOLDS, "YES", 0.1);
+
+    expect(plan.payouts[0]).toMatchObject({ winnings: 30, fee: 3 });
+    expect(plan.payouts[1]).toMatchObject({ winnings: 10, fee: 1 });
+    expect(plan.totalFeeBurned).toBe(4);
+  });
+
+  it("floors winnings and reports rounding dust", () => {
+    const holds: PoolHold[] = [
+      { id: "a", userId: "u1", amount: 1, side: "NO" },
+      { id: "b", userId: "u2", amount: 2, side: "NO" },
+      { id: "c", userId: "u3", amount: 10, side: "YES" },
+    ];
+    const plan = calculatePoolPayouts(holds, "NO", 0);
+
+    // 1×10/3 = 3.33 → 3, 2×10/3 = 6.67 → 6
+    expect(plan.payouts.map((p) => p.winnings)).toEqual([3, 6]);
+    expect(plan.dust).toBe(1);
+  });
+
+  it("refunds everyone when nobody backed the winning side", () => {
+    const plan = calculatePoolPayouts(
+      HOLDS.filter((h) => h.side === "YES"),
+      "NO",
+    );
+
+    expect(plan.payouts).toEqual([]);
+    expect(plan.forfeited).toEqual([]);
+    expect(plan.refunded).toEqual(["h1", "h2"]);
+  });
+
+  it("refunds everyone when the losing pool is empty", () => {
+    const plan = calculatePoolPayouts(
+      HOLDS.filter((h) => h.side === "NO"),
+      "NO",
+    );
+
+    expect(plan.payouts).toEqual([]);
+    expect(plan.refunded).toEqual(["h3"]);
+  });
+
+  it("refunds holds without a side", () => {
+    const plan = calculatePoolPayouts(
+      [...HOLDS, { id: "h4", userId: "u4", amount: 5, side: null }],
+      "YES",
+    );
+
+    expect(plan.refunded).toEqual(["h4"]);
+    expect(plan.winningPool).toBe(40);
+  });
+
+  it("never pays out more than the total pool", () => {
+    const holds: PoolHold[] = [
+      { id: "a", userId: "u1", amount: 7, side: "YES" },
+      { id: "b", userId: "u2", amount: 13, side: "YES" },
+      { id: "c", userId: "u3", amount: 3, side: "NO" },
+      { id: "d", userId: "u4", amount: 29, side: "NO" },
+    ];
+    const plan = calculatePoolPayouts(holds, "YES");
+    const paid = plan.payouts.reduce(
+      (sum, p) => sum + p.stake + p.winnings - p.fee,
+      0,
+    );
+
+    expect(paid + plan.totalFeeBurned + plan.dust).toBe(52);
+  });
+});
+
+// ── settleMarketStakes ──────────────────────────────────────────────────
+
+describe("settleMarketStakes", () => {
+  it("pays winners, burns fees and forfeits losers", async () => {
+    mockFindMany.mockResolvedValue(
+      HOLDS.map((h) => ({ ...h, status: "LOCKED" })) as never,
+    );
+
+    const result = await settleMarketStakes("market-1", "YES");
+
+    expect(mockTransfer).toHaveBeenCalledWith(
+      expect.objectContaining({
+        userId: "u1",
+        type: "STAKE_PAYOUT",
+        amount: 60,
+        idempotencyKey: "stake-payout-h1",
+      }),
+    );
+    expect(mockTransfer).toHaveBeenCalledWith(
+      expect.objectContaining({
+        userId: "u2",
+        type: "STAKE_PAYOUT",
+        amount: 20,
+        idempotencyKey: "stake-payout-h2",
+      }),
+    );
+    expect(mockTransfer).toHaveBeenCalledWith(
+      expect.objectContaining({
+        userId: "u1",
+        type: "HOUSE_FEE_BURN",
+        amount: -1,
+        idempotencyKey: "house-fee-h1",
+      }),
+    );
+    expect(mockUpdateMany).toHaveBeenCalledWith({
+      where: { id: { in: ["h3"] }, status: "LOCKED" },
+      data: expect.objectContaining({ status: "FORFEITED" }),
+    });
+    expect(result).toMatchObject({
+      winningPool: 40,
+      losingPool: 40,
+      winners: 2,
+      losers: 1,
+      errors: [],
+    });
+  });
+
+  it("skips holds that were already settled", async () => {
+    mockFindMany.mockResolvedValue([
+      { ...HOLDS[0], status: "RELEASED" },
+      { ...HOLDS[1], status: "LOCKED" },
+      { ...HOLDS[2], status: "FORFEITED" },
+    ] as never);
+
+    await settleMarketStakes("market-1", "YES");
+
+    const payoutKeys = mockTransfer.mock.calls
+      .map(([opts]) => opts.idempotencyKey)
+      .filter((k) => k?.startsWith("stake-payout"));
+    expect(payoutKeys).toEqual(["stake-payout-h2"]);
+    // Pool sizes still computed over every hold
+    expect(mockTransfer).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: "u2", amount: 20 }),
+    );
+  });
+
+  it("leaves refunded stakes out of both pools", async () => {
+    mockFindMany.mockResolvedValue(
+      HOLDS.map((h) => ({ ...h, status: "LOCKED" })) as never,
+    );
+
+    const result = await settleMarketStakes("market-1", "YES");
+
+    expect(mockFindMany).toHaveBeenCalledWith({
+      where: { marketId: "market-1", status: { not: "REFUNDED" } },
+      select: { id: true, userId: true, amount: true, side: true, status: true },
+    });
+    expect(result).toMatchObject({ winningPool: 40, losingPool: 40 });
+  });
+
+  it("leaves a hold locked and reports the error when a payout fails", async () => {
+    mockFindMany.mockResolvedValue(
+      HOLDS.map((h) => ({ ...h, status: "LOCKED" })) as never,
+    );
+    mockTransfer.mockResolvedValueOnce({
+      success: false,
+      newBalance: 0,
+      eventId: "",
+      error: "DB down",
+    });
+
+    const result = await settleMarketStakes("market-1", "YES");
+
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0]).toContain("h1");
+    expect(mockUpdateMany).not.toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { id: "h1", status: "LOCKED" },
+      }),
+    );
+  });
+
+  it("refunds stakes when there is no counterparty", async () => {
+    mockFindMany.mockResolvedValue([
+      { ...HOLDS[0], status: "LOCKED" },
+    ] as never);
+
+    const result = await settleMarketStakes("market-1", "NO");
+
+    expect(mockRefund).toHaveBeenCalledWith("h1");
+    expect(mockTransfer).not.toHaveBeenCalled();
+    expect(result.refunded).toBe(1);
+  });
+});
+
+// ── voidMarket ──────────────────────────────────────────────────────────
+
+describe("voidMarket", () => {
+  it("refunds locked stakes and every vote spend", async () => {
+    mockFindMany.mockResolvedValue([{ id: "h1" }, { id: "h3" }] as never);
+    mockCreditFindMany.mockResolvedValue([
+      { id: "e1", userId: "u1", amount: -1 },
+      { id: "e2", userId: "u2", amount: -1 },
+    ] as never);
+
+    const result = await voidMarket("market-1", "claim-1");
+
+    expect(mockFindMany).toHaveBeenCalledWith({
+      where: { marketId: "market-1", status: "LOCKED" },
+      select: { id: true },
+    });
+    expect(mockRefund).toHaveBeenCalledWith("h1");
+    expect(mockRefund).toHaveBeenCalledWith("h3");
+    expect(mockCreditFindMany).toHaveBeenCalledWith({
+      where: { type: "VOTE_SPENT", refId: "claim-1" },
+      select: { id: true, userId: true, amount: true },
+    });
+    expect(mockTransfer).toHaveBeenCalledWith(
+      expect.objectContaining({
+        userId: "u2",
+        type: "VOTE_REFUND",
+        amount: 1,
+        idempotencyKey: "vote-refund-e2",
+      }),
+    );
+    expect(result).toEqual({ stakesRefunded: 2, votesRefunded: 2, errors: [] });
+  });
+
+  it("reports failed refunds and carries on", async () => {
+    mockFindMany.mockResolvedValue([{ id: "h1" }] as never);
+    mockCreditFindMany.mockResolvedValue([
+      { id: "e1", userId: "u1", amount: -1 },
+    ] as never);
+    mockRefund.mockResolvedValueOnce({
+      success: false,
+      newBalance: 0,
+      eventId: "",
+      error: "DB down",
+    });
+
+    const result = await voidMarket("market-1", "claim-1");
+
+    expect(result.stakesRefunded).toBe(0);
+    expect(result.votesRefunded).toBe(1);
+    expect(result.errors).toEqual(["Refund for hold h1: DB down"]);
+  });
+});
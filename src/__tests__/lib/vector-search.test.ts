@@ -2,7 +2,8 @@
  * Tests for pgvector similarity search (src/lib/vector-search.ts)
  *
  * Mocks Prisma raw SQL methods to validate query construction,
- * parameter passing, result mapping, and the group-by-paper helper.
+ * parameter passing, result mapping, content-hash idempotency, and the
+ * group-by-paper helper.
  */
 import { describe, it, expect, vi, beforeEach } from "vitest";
 
@@ -21,6 +22,8 @@ import {
   storeChunkWithEmbedding,
   storeChunksWithEmbeddings,
   searchChunksGroupedByPaper,
+  findEmbeddedChunkKeys,
+  hashChunkContent,
 } from "@/lib/vector-search";
 
 const mockQuery = vi.mocked(prisma.$queryRawUnsafe);
@@ -119,11 +122,29 @@ describe("searchSimilarChunks", () => {
 
     const results = await searchSimilarChunks(FAKE_EMBEDDING);
 
+    const noSection = { section: null, sectionTitle: null, startOffset: null, endOffset: null };
     expect(results).toEqual([
-      { id: "chunk-1", paperId: "paper-1", content: "Creatine improves strength.", chunkIndex: 0, similarity: 0.92 },
-      { id: "chunk-2", paperId: "paper-2", content: "Protein timing is less important.", chunkIndex: 0, similarity: 0.85 },
+      { id: "chunk-1", paperId: "paper-1", content: "Creatine improves strength.", chunkIndex: 0, ...noSection, similarity: 0.92 },
+      { id: "chunk-2", paperId: "paper-2", content: "Protein timing is less important.", chunkIndex: 0, ...noSection, similarity: 0.85 },
     ]);
   });
+
+  it("selects and maps section metadata", async () => {
+    mockQuery.mockResolvedValueOnce([
+      { ...ROW_C, section: "results", sectionTitle: "Results", startOffset: 120, endOffset: 180 },
+    ]);
+
+    const [result] = await searchSimilarChunks(FAKE_EMBEDDING);
+
+    const [sql] = mockQuery.mock.calls[0];
+    expect(sql).toContain('"sectionTitle"');
+    expect(result).toMatchObject({
+      section: "results",
+      sectionTitle: "Results",
+      startOffset: 120,
+      endOffset: 180,
+    });
+  });
 });
 
 // ── storeChunkWithEmbedding ─────────────────────────────────────────────
@@ -153,6 +174,43 @@ describe("storeChunkWithEmbedding", () => {
     expect(tokenCount).toBe(5);
   });
 
+  it("stores section metadata after the core columns", async () => {
+    mockExecute.mockResolvedValueOnce(1);
+
+    await storeChunkWithEmbedding({
+      paperId: "paper-1",
+      content: "Strength rose 8%.",
+      chunkIndex: 3,
+      embedding: FAKE_EMBEDDING,
+      section: "results",
+      sectionTitle: "Results",
+      startOffset: 0,
+      endOffset: 17,
+    });
+
+    const [sql, ...params] = mockExecute.mock.calls[0];
+    expect(sql).toContain('section, "sectionTitle", "startOffset", "endOffset"');
+    expect(params.slice(6, 10)).toEqual(["results", "Results", 0, 17]);
+  });
+
+  it("upserts on paper + content hash with a deterministic id", async () => {
+    mockExecute.mockResolvedValue(1);
+    const chunk = {
+      paperId: "paper-1",
+      content: "Some text",
+      chunkIndex: 0,
+      embedding: FAKE_EMBEDDING,
+    };
+
+    const first = await storeChunkWithEmbedding(chunk);
+    const second = await storeChunkWithEmbedding({ ...chunk, chunkIndex: 4 });
+
+    expect(second).toBe(first);
+    const [sql, ...params] = mockExecute.mock.calls[0];
+    expect(sql).toContain('ON CONFLICT ("paperId", "contentHash") DO UPDATE');
+    expect(params[10]).toBe(hashChunkContent("Some text"));
+  });
+
   it("uses provided id when given", async () => {
     mockExecute.mockResolvedValueOnce(1);
 
@@ -186,7 +244,57 @@ describe("storeChunksWithEmbeddings", () => {
     ]);
 
     expect(ids).toHaveLength(2);
-    expect(mockTxExecute).toHaveBeenCalledTimes(2);
+    // One cleanup of unhashed legacy rows, then one upsert per chunk
+    expect(mockTxExecute).toHaveBeenCalledTimes(3);
+    const [cleanupSql, paperIds] = mockTxExecute.mock.calls[0];
+    expect(cleanupSql).toContain('"contentHash" IS NULL');
+    expect(paperIds).toEqual(["p1"]);
+    // Legacy callers without sections store NULLs
+    expect(mockTxExecute.mock.calls[1].slice(7, 11)).toEqual([null, null, null, null]);
+  });
+
+  it("returns the same ids when the same chunks are stored twice", async () => {
+    const mockTxExecute = vi.fn().mockResolvedValue(1);
+    mockTransaction.mockImplementation(async (cb: any) =>
+      cb({ $executeRawUnsafe: mockTxExecute })
+    );
+    const chunks = [
+      { paperId: "p1", content: "A", chunkIndex: 0, embedding: [1, 2, 3] },
+      { paperId: "p2", content: "A", chunkIndex: 0, embedding: [1, 2, 3] },
+    ];
+
+    const first = await storeChunksWithEmbeddings(chunks);
+    const second = await storeChunksWithEmbeddings(chunks);
+
+    expect(second).toEqual(first);
+    // Same text in different papers is still two rows
+    expect(first[0]).not.toBe(first[1]);
+  });
+});
+
+// ── findEmbeddedChunkKeys ───────────────────────────────────────────────
+
+describe("findEmbeddedChunkKeys", () => {
+  it("returns paper:hash keys for chunks that already have embeddings", async () => {
+    mockQuery.mockResolvedValueOnce([{ paperId: "p1", contentHash: "h1" }]);
+
+    const keys = await findEmbeddedChunkKeys([
+      { paperId: "p1", contentHash: "h1" },
+      { paperId: "p1", contentHash: "h2" },
+      { paperId: "p2", contentHash: "h1" },
+    ]);
+
+    expect(keys).toEqual(new Set(["p1:h1"]));
+    const [sql, paperIds, hashes] = mockQuery.mock.calls[0];
+    expect(sql).toContain("embedding IS NOT NULL");
+    expect(paperIds).toEqual(["p1", "p2"]);
+    expect(hashes).toEqual(["h1", "h2"]);
+  });
+
+  it("skips the query when there is nothing to look up", async () => {
+    const keys = await findEmbeddedChunkKeys([]);
+    expect(keys.size).toBe(0);
+    expect(mockQuery).not.toHaveBeenCalled();
   });
 });
 
@@ -233,4 +341,23 @@ describe("searchChunksGroupedByPaper", () => {
     // Both belong to paper-1, within default limit of 3
     expect(grouped.get("paper-1")).toHaveLength(2);
   });
+
+  it("ranks preferred sections ahead of near-equal matches", async () => {
+    mockQuery.mockResolvedValueOnce([
+      { ...ROW_A, id: "intro", section: "introduction", similarity: 0.9 },
+      { ...ROW_A, id: "methods", section: "methods", similarity: 0.88 },
+      { ...ROW_A, id: "results", section: "results", similarity: 0.87 },
+      { ...ROW_A, id: "legacy", similarity: 0.6 },
+    ]);
+
+    const grouped = await searchChunksGroupedByPaper(FAKE_EMBEDDING, {
+      chunksPerPaper: 2,
+      preferSections: ["results", "conclusion"],
+    });
+
+    const chunks = grouped.get("paper-1")!;
+    expect(chunks.map((c) => c.id)).toEqual(["results", "intro"]);
+    // Reported similarity is not inflated by the boost
+    expect(chunks[0].similarity).toBe(0.87);
+  });
 });
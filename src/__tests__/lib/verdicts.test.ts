@@ -0,0 +1,274 @@
+/**
+ * Tests for verdict persistence (src/lib/verdicts.ts)
+ */
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const mockTx = {
+  verdict: { findFirst: vi.fn(), findUnique: vi.fn(), create: vi.fn() },
+};
+
+vi.mock("@/lib/prisma", () => ({
+  prisma: {
+    verdict: { findFirst: vi.fn() },
+    $transaction: vi.fn((fn: (tx: unknown) => unknown) => fn(mockTx)),
+  },
+}));
+
+import {
+  buildVerdictHistory,
+  formatCitations,
+  saveVerdict,
+  toVerdictOutcome,
+} from "@/lib/verdicts";
+import type { SynthesisVerdict } from "@/lib/prompts";
+
+const VERDICT: SynthesisVerdict = {
+  verdict: "MIXED",
+  confidence: 0.55,
+  effectDirection: "VARIABLE",
+  shortSummary: "Results are mixed.",
+  detailedSummary: "Some trials show benefit, others do not.",
+  strengthOfEvidence: "MODERATE",
+  keyFactors: ["Conflicting RCTs"],
+  caveats: ["Small samples"],
+  whatWouldChangeVerdict: "A large pre-registered RCT.",
+  recommendedAction: "Not worth it for most people.",
+};
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockTx.verdict.create.mockImplementation(({ data }) =>
+    Promise.resolve({ id: "v-new", ...data }),
+  );
+});
+
+describe("toVerdictOutcome", () => {
+  it("accepts the four outcomes case-insensitively", () => {
+    expect(toVerdictOutcome("SUPPORTED")).toBe("SUPPORTED");
+    expect(toVerdictOutcome("contradicted")).toBe("CONTRADICTED");
+    expect(toVerdictOutcome("Mixed")).toBe("MIXED");
+  });
+
+  it("treats unknown values as INSUFFICIENT", () => {
+    expect(toVerdictOutcome("PROBABLY")).toBe("INSUFFICIENT");
+  });
+});
+
+describe("saveVerdict", () => {
+  it("stores the first verdict for a claim as version 1", async () => {
+    mockTx.verdict.findFirst.mockResolvedValue(null);
+
+    const saved = await saveVerdict({
+      claimId: "c1",
+      dossierJobId: "dj-1",
+      verdict: VERDICT,
+      evidenceCount: 4,
+    });
+
+    expect(saved.version).toBe(1);
+    expect(mockTx.verdict.create).toHaveBeenCalledWith({
+      data: {
+        claimId: "c1",
+        dossierJobId: "dj-1",
+        version: 1,
+        outcome: "MIXED",
+        confidence: 0.55,
+        ruleConfidence: null,
+        confidenceFlagged: false,
+        effectDirection: "VARIABLE",
+        strengthOfEvidence: "MODERATE",
+        shortSummary: "Results are mixed.",
+        detailedSummary: "Some trials show benefit, others do not.",
+        keyFactors: ["Conflicting RCTs"],
+        caveats: ["Small samples"],
+        whatWouldChangeVerdict: "A large pre-registered RCT.",
+        recommendedAction: "Not worth it for most people.",
+        evidenceCount: 4,
+        paperIds: [],
+      },
+    });
+  });
+
+  it("increments the version from the latest stored verdict", async () => {
+    mockTx.verdict.findFirst.mockResolvedValue({ version: 3 });
+
+    const saved = await saveVerdict({
+      claimId: "c1",
+      verdict: VERDICT,
+      evidenceCount: 2,
+    });
+
+    expect(saved.version).toBe(4);
+    expect(saved.dossierJobId).toBeNull();
+  });
+
+  it("returns the verdict a retried run already saved", async () => {
+    const existing = { id: "v-1", dossierJobId: "dj-1", version: 2 };
+    mockTx.verdict.findUnique.mockResolvedValue(existing);
+
+    const saved = await saveVerdict({
+      claimId: "c1",
+      dossierJobId: "dj-1",
+      verdict: VERDICT,
+      evidenceCount: 4,
+    });
+
+    expect(saved).toBe(existing);
+    expect(mockTx.verdict.findUnique).toHaveBeenCalledWith({
+      where: { dossierJobId: "dj-1" },
+    });
+    expect(mockTx.verdict.create).not.toHaveBeenCalled();
+  });
+
+  it("stores the rule-based confidence and review flag", async () => {
+    mockTx.verdict.findFirst.mockResolvedValue(null);
+
+    await saveVerdict({
+      claimId: "c1",
+      verdict: VERDICT,
+      evidenceCount: 2,
+      ruleConfidence: 0.2,
+      confidenceFlagged: true,
+    });
+
+    expect(mockTx.verdict.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        confidence: 0.55,
+        ruleConfidence: 0.2,
+        confidenceFlagged: true,
+      }),
+    });
+  });
+
+  it("fills missing list fields from partial LLM output", async () => {
+    mockTx.verdict.findFirst.mockResolvedValue(null);
+    const partial = {
+      verdict: "SUPPORTED",
+      confidence: 0.7,
+    } as unknown as SynthesisVerdict;
+
+    await saveVerdict({ claimId: "c1", verdict: partial, evidenceCount: 1 });
+
+    expect(mockTx.verdict.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        shortSummary: "",
+        keyFactors: [],
+        caveats: [],
+        recommendedAction: null,
+      }),
+    });
+  });
+});
+
+describe("saveVerdict citations", () => {
+  const sources = [
+    { key: "P1", paperId: "paper-1", chunkId: null },
+    { key: "P1.1", paperId: "paper-1", chunkId: "chunk-1" },
+    { key: "P2", paperId: "paper-2", chunkId: null },
+  ];
+
+  it("stores a row for each key the summary cites", async () => {
+    mockTx.verdict.findFirst.mockResolvedValue(null);
+
+    await saveVerdict({
+      claimId: "c1",
+      verdict: {
+        ...VERDICT,
+        detailedSummary: "Strength rose [P1.1], though one trial disagreed [P2, P7].",
+      },
+      evidenceCount: 2,
+      citationSources: sources,
+    });
+
+    const { data } = mockTx.verdict.create.mock.calls[0][0];
+    expect(data.citations).toEqual({
+      create: [
+        { key: "P1.1", paperId: "paper-1", chunkId: "chunk-1" },
+        { key: "P2", paperId: "paper-2", chunkId: null },
+      ],
+    });
+  });
+
+  it("skips the relation when nothing is cited", async () => {
+    mockTx.verdict.findFirst.mockResolvedValue(null);
+
+    await saveVerdict({
+      claimId: "c1",
+      verdict: VERDICT,
+      evidenceCount: 2,
+      citationSources: sources,
+    });
+
+    const { data } = mockTx.verdict.create.mock.calls[0][0];
+    expect(data).not.toHaveProperty("citations");
+  });
+});
+
+describe("formatCitations", () => {
+  it("flattens rows, orders keys numerically and trims long excerpts", () => {
+    const row = (key: string, content: string | null) => ({
+      key,
+      paperId: `paper-${key}`,
+      chunkId: content ? `chunk-${key}` : null,
+      paper: { title: `Title ${key}` },
+      chunk: content ? { section: "results", content } : null,
+    });
+
+    const citations = formatCitations([
+      row("P10", null),
+      row("P2.1", "x".repeat(400)),
+      row("P2", null),
+    ]);
+
+    expect(citations.map((c) => c.key)).toEqual(["P2", "P2.1", "P10"]);
+    expect(citations[0]).toEqual({
+      key: "P2",
+      paperId: "paper-P2",
+      chunkId: null,
+      paperTitle: "Title P2",
+      section: null,
+      excerpt: null,
+    });
+    expect(citations[1].section).toBe("results");
+    expect(citations[1].excerpt!.length).toBeLessThanOrEqual(280);
+    expect(citations[1].excerpt!.endsWith("…")).toBe(true);
+  });
+});
+
+describe("buildVerdictHistory", () => {
+  const titles = new Map([
+    ["p1", "Paper one"],
+    ["p2", "Paper two"],
+    ["p3", "Paper three"],
+  ]);
+
+  function row(version: number, paperIds: string[]) {
+    return {
+      version,
+      outcome: "SUPPORTED" as const,
+      confidence: 0.5 + version / 10,
+      evidenceCount: paperIds.length,
+      paperIds,
+      createdAt: new Date(`2026-01-0${version}T00:00:00Z`),
+    };
+  }
+
+  it("orders versions and diffs papers against the previous version", () => {
+    const history = buildVerdictHistory(
+      [row(2, ["p2", "p3"]), row(1, ["p1", "p2"])],
+      titles,
+    );
+
+    expect(history.map((h) => h.version)).toEqual([1, 2]);
+    expect(history[0].addedPapers.map((p) => p.id)).toEqual(["p1", "p2"]);
+    expect(history[0].removedPapers).toEqual([]);
+    expect(history[1].addedPapers).toEqual([{ id: "p3", title: "Paper three" }]);
+    expect(history[1].removedPapers).toEqual([{ id: "p1", title: "Paper one" }]);
+    expect(history[1].paperCount).toBe(2);
+  });
+
+  it("falls back to the paper ID when the title is unknown", () => {
+    const history = buildVerdictHistory([row(1, ["gone"])], titles);
+    expect(history[0].addedPapers).toEqual([{ id: "gone", title: "gone" }]);
+  });
+});
@@ -3,9 +3,18 @@
  *
  * Mocks every external dependency (Prisma, OpenAI, PubMed, arXiv,
  * Semantic Scholar, vector search) and validates the orchestration
- * logic, deduplication, error handling, and progress reporting.
+ * logic, deduplication, snowballing, error handling, and progress
+ * reporting.
  */
-import { describe, it, expect, vi, beforeEach, type Mock } from "vitest";
+import {
+  describe,
+  it,
+  expect,
+  vi,
+  beforeEach,
+  afterEach,
+  type Mock,
+} from "vitest";
 
 // ── Mock all external modules ───────────────────────────────────────────
 
@@ -19,7 +28,12 @@ vi.mock("bullmq", () => {
     on = vi.fn();
     close = vi.fn();
   }
-  return { Worker: WorkerMock, Job: class {}, Queue: class {} };
+  return {
+    Worker: WorkerMock,
+    Job: class {},
+    Queue: class {},
+    UnrecoverableError: class extends Error {},
+  };
 });
 
 vi.mock("@/lib/queue", () => ({
@@ -30,10 +44,12 @@ vi.mock("@/lib/queue", () => ({
 vi.mock("@/lib/prisma", () => ({
   prisma: {
     claim: { findUnique: vi.fn() },
-    dossierJob: { updateMany: vi.fn() },
+    dossierJob: { updateMany: vi.fn(), update: vi.fn(), findUnique: vi.fn() },
     paper: { findFirst: vi.fn(), create: vi.fn(), update: vi.fn() },
-    claimPaper: { upsert: vi.fn(), update: vi.fn() },
-    market: { updateMany: vi.fn() },
+    claimPaper: { upsert: vi.fn(), update: vi.fn(), findMany: vi.fn() },
+    market: { updateMany: vi.fn(), findUnique: vi.fn() },
+    dossierCost: { createMany: vi.fn(), aggregate: vi.fn() },
+    dossierCheckpoint: { findMany: vi.fn(), upsert: vi.fn(), deleteMany: vi.fn() },
     $queryRawUnsafe: vi.fn(),
     $executeRawUnsafe: vi.fn(),
     $transaction: vi.fn(),
@@ -45,17 +61,20 @@ vi.mock("@/lib/pubmed", () => ({
   fetchPubMedArticles: vi.fn(),
 }));
 
-vi.mock("@/lib/arxiv", () => ({
+vi.mock("@/lib/arxiv", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/arxiv")>()),
   searchArxivHealth: vi.fn(),
 }));
 
 vi.mock("@/lib/semantic-scholar", () => ({
   searchHealthPapers: vi.fn(),
+  getSemanticScholarPaper: vi.fn(),
+  getPaperReferences: vi.fn(),
+  getPaperCitations: vi.fn(),
+  getRecommendations: vi.fn(),
 }));
 
 vi.mock("@/lib/openai", () => ({
-  generateEmbedding: vi.fn(),
-  generateEmbeddings: vi.fn(),
   openai: {
     chat: {
       completions: {
@@ -65,13 +84,51 @@ vi.mock("@/lib/openai", () => ({
   },
 }));
 
-vi.mock("@/lib/vector-search", () => ({
+vi.mock("@/lib/llm", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/llm")>()),
+  generateEmbedding: vi.fn(),
+  generateEmbeddings: vi.fn(),
+}));
+
+vi.mock("@/lib/vector-search", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/vector-search")>()),
   storeChunksWithEmbeddings: vi.fn(),
   searchChunksGroupedByPaper: vi.fn(),
+  findEmbeddedChunkKeys: vi.fn(),
 }));
 
-vi.mock("@/lib/chunker", () => ({
-  chunkText: vi.fn(),
+vi.mock("@/lib/chunker", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/chunker")>()),
+  chunkSections: vi.fn(),
+}));
+
+vi.mock("@/lib/pmc-fulltext", () => ({
+  fetchPMCFullText: vi.fn(),
+}));
+
+vi.mock("@/lib/query-planner", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/query-planner")>()),
+  planSearch: vi.fn(),
+}));
+
+vi.mock("@/lib/verdicts", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/verdicts")>()),
+  saveVerdict: vi.fn(),
+}));
+
+vi.mock("@/lib/paper-alerts", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/paper-alerts")>()),
+  notifySubscribers: vi.fn(),
+}));
+
+vi.mock("@/lib/dossier-events", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/dossier-events")>()),
+  publishDossierEvent: vi.fn(),
+}));
+
+vi.mock("@/lib/retraction-check", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/retraction-check")>()),
+  flagClaimsCitingRetracted: vi.fn(),
 }));
 
 // ── Imports (after mocks) ───────────────────────────────────────────────
@@ -79,38 +136,73 @@ vi.mock("@/lib/chunker", () => ({
 import { prisma } from "@/lib/prisma";
 import { searchPubMed, fetchPubMedArticles } from "@/lib/pubmed";
 import { searchArxivHealth } from "@/lib/arxiv";
-import { searchHealthPapers } from "@/lib/semantic-scholar";
-import { generateEmbedding, generateEmbeddings, openai } from "@/lib/openai";
+import {
+  searchHealthPapers,
+  getPaperReferences,
+  getPaperCitations,
+  getRecommendations,
+} from "@/lib/semantic-scholar";
+import { openai } from "@/lib/openai";
+import {
+  generateEmbedding,
+  generateEmbeddings,
+  FakeEmbeddingProvider,
+} from "@/lib/llm";
 import {
   storeChunksWithEmbeddings,
   searchChunksGroupedByPaper,
+  findEmbeddedChunkKeys,
+  hashChunkContent,
 } from "@/lib/vector-search";
-import { chunkText } from "@/lib/chunker";
-import {
-  processDossierJob,
-  deduplicatePapers,
-} from "@/workers/dossier-worker";
+import { chunkSections } from "@/lib/chunker";
+import { fetchPMCFullText } from "@/lib/pmc-fulltext";
+import { saveVerdict } from "@/lib/verdicts";
+import { notifySubscribers } from "@/lib/paper-alerts";
+import { publishDossierEvent } from "@/lib/dossier-events";
+import { flagClaimsCitingRetracted } from "@/lib/retraction-check";
+import { planSearch } from "@/lib/query-planner";
+import { fallbackSearchPlan } from "@/lib/search-plan";
+import { processDossierJob } from "@/workers/dossier-worker";
 
 // ── Typed mocks ─────────────────────────────────────────────────────────
 
 const mockFindUnique = vi.mocked(prisma.claim.findUnique);
-const mockDossierUpdate = vi.mocked(prisma.dossierJob.updateMany);
+const mockDossierStatus = vi.mocked(prisma.dossierJob.updateMany);
+const mockDossierUpdate = vi.mocked(prisma.dossierJob.update);
+const mockDossierFindUnique = vi.mocked(prisma.dossierJob.findUnique);
 const mockPaperFindFirst = vi.mocked(prisma.paper.findFirst);
 const mockPaperCreate = vi.mocked(prisma.paper.create);
 const mockClaimPaperUpsert = vi.mocked(prisma.claimPaper.upsert);
 const mockClaimPaperUpdate = vi.mocked(prisma.claimPaper.update);
+const mockClaimPaperFindMany = vi.mocked(prisma.claimPaper.findMany);
 const mockMarketUpdate = vi.mocked(prisma.market.updateMany);
+const mockMarketFindUnique = vi.mocked(prisma.market.findUnique);
+const mockCostCreateMany = vi.mocked(prisma.dossierCost.createMany);
+const mockCostAggregate = vi.mocked(prisma.dossierCost.aggregate);
+const mockCheckpointFindMany = vi.mocked(prisma.dossierCheckpoint.findMany);
+const mockCheckpointUpsert = vi.mocked(prisma.dossierCheckpoint.upsert);
+const mockCheckpointDelete = vi.mocked(prisma.dossierCheckpoint.deleteMany);
 
 const mockSearchPubMed = vi.mocked(searchPubMed);
 const mockFetchArticles = vi.mocked(fetchPubMedArticles);
 const mockSearchArxiv = vi.mocked(searchArxivHealth);
 const mockSearchS2 = vi.mocked(searchHealthPapers);
+const mockS2References = vi.mocked(getPaperReferences);
+const mockS2Citations = vi.mocked(getPaperCitations);
+const mockS2Recommendations = vi.mocked(getRecommendations);
 const mockGenEmbedding = vi.mocked(generateEmbedding);
 const mockGenEmbeddings = vi.mocked(generateEmbeddings);
 const mockChatCreate = vi.mocked(openai.chat.completions.create);
 const mockStoreChunks = vi.mocked(storeChunksWithEmbeddings);
 const mockSearchGrouped = vi.mocked(searchChunksGroupedByPaper);
-const mockChunkText = vi.mocked(chunkText);
+const mockFindEmbedded = vi.mocked(findEmbeddedChunkKeys);
+const mockChunkSections = vi.mocked(chunkSections);
+const mockFetchFullText = vi.mocked(fetchPMCFullText);
+const mockSaveVerdict = vi.mocked(saveVerdict);
+const mockNotifySubscribers = vi.mocked(notifySubscribers);
+const mockPublishEvent = vi.mocked(publishDossierEvent);
+const mockFlagClaims = vi.mocked(flagClaimsCitingRetracted);
+const mockPlanSearch = vi.mocked(planSearch);
 
 // ── Fixtures ────────────────────────────────────────────────────────────
 
@@ -171,6 +263,8 @@ const FAKE_EVIDENCE = {
   population: "trained adults",
   duration: "8 weeks",
   effectSize: "+8% strength",
+  effect: { measure: "PERCENT_CHANGE", value: 8, ciLower: 5.5, ciUpper: 10.5 },
+  pValue: 0.001,
   keyFindings: ["8% average strength increase", "Most effective for upper body"],
   limitations: ["Mostly male participants"],
   relevanceScore: 0.95,
@@ -192,7 +286,7 @@ const FAKE_VERDICT = {
 function createMockJob(claimId: string = CLAIM_ID) {
   return {
     id: "job-1",
-    data: { claimId, triggeredBy: "user-1" },
+    data: { claimId, dossierJobId: "dj-1", triggeredBy: "user-1" },
     updateProgress: vi.fn(),
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   } as any;
@@ -202,6 +296,17 @@ function createMockJob(claimId: string = CLAIM_ID) {
 
 beforeEach(() => {
   vi.clearAllMocks();
+  // Planning has its own tests; default to the title-only queries
+  mockPlanSearch.mockImplementation(async (_llm, claim) =>
+    fallbackSearchPlan(claim.title)
+  );
+  // A first attempt: nothing to resume from, nothing spent
+  mockCheckpointFindMany.mockResolvedValue([]);
+  mockCostAggregate.mockResolvedValue({ _sum: { costUsd: null } } as never);
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
 });
 
 /**
@@ -225,6 +330,11 @@ function wireUpSuccessPath() {
     papers: [S2_PAPER as never],
   });
 
+  // Step 4: snowballing from the meta-analysis finds nothing new
+  mockS2References.mockResolvedValue([]);
+  mockS2Citations.mockResolvedValue([]);
+  mockS2Recommendations.mockResolvedValue([]);
+
   // Step 5: paper upsert
   mockPaperFindFirst.mockResolvedValue(null);
   mockPaperCreate.mockImplementation(({ data }: { data: { title: string } }) =>
@@ -233,11 +343,19 @@ function wireUpSuccessPath() {
   mockClaimPaperUpsert.mockResolvedValue({} as never);
 
   // Step 6: chunking + embedding
-  mockChunkText.mockReturnValue([
-    { content: "chunk one content", chunkIndex: 0, estimatedTokens: 50 },
+  mockChunkSections.mockReturnValue([
+    {
+      content: "chunk one content",
+      chunkIndex: 0,
+      estimatedTokens: 50,
+      startOffset: 0,
+      endOffset: 17,
+      section: "abstract",
+    },
   ]);
   mockGenEmbeddings.mockResolvedValue([[0.1, 0.2, 0.3]]);
   mockStoreChunks.mockResolvedValue(["chunk-id-1"]);
+  mockFindEmbedded.mockResolvedValue(new Set());
 
   // Step 7: vector search
   mockGenEmbedding.mockResolvedValue([0.1, 0.2, 0.3]);
@@ -260,89 +378,17 @@ function wireUpSuccessPath() {
   mockClaimPaperUpdate.mockResolvedValue({} as never);
 
   // DB updates
-  mockDossierUpdate.mockResolvedValue({ count: 1 } as never);
+  mockDossierStatus.mockResolvedValue({ count: 1 } as never);
+  mockDossierFindUnique.mockResolvedValue({ searchPlan: null, mode: "FULL" } as never);
+  mockSaveVerdict.mockResolvedValue({ id: "v-1", version: 1 } as never);
   mockMarketUpdate.mockResolvedValue({ count: 1 } as never);
 }
 
-// ── deduplicatePapers (pure function) ───────────────────────────────────
-
-describe("deduplicatePapers", () => {
-  it("deduplicates by DOI", () => {
-    const papers = [
-      { title: "Paper A", doi: "10.1/a", authors: ["X"] },
-      { title: "Paper A copy", doi: "10.1/a", authors: ["Y"], pmid: "99" },
-    ];
-    const result = deduplicatePapers(papers);
-    expect(result).toHaveLength(1);
-    expect(result[0].title).toBe("Paper A");
-    // Identifiers merged from duplicate
-    expect(result[0].pmid).toBe("99");
-  });
-
-  it("deduplicates by PMID", () => {
-    const papers = [
-      { title: "Paper A", pmid: "123", authors: [] },
-      { title: "Paper B", pmid: "123", doi: "10.1/x", authors: [] },
-    ];
-    const result = deduplicatePapers(papers);
-    expect(result).toHaveLength(1);
-    expect(result[0].doi).toBe("10.1/x"); // merged
-  });
-
-  it("deduplicates by arXiv ID", () => {
-    const papers = [
-      { title: "Paper", arxivId: "2301.00001", authors: [] },
-      { title: "Paper dup", arxivId: "2301.00001", authors: ["Bob"] },
-    ];
-    const result = deduplicatePapers(papers);
-    expect(result).toHaveLength(1);
-  });
-
-  it("deduplicates by normalised title", () => {
-    const papers = [
-      { title: "Creatine & Strength!", authors: ["A"] },
-      { title: "creatine  strength", authors: ["B"] },
-    ];
-    const result = deduplicatePapers(papers);
-    expect(result).toHaveLength(1);
-  });
-
-  it("keeps papers with different identifiers", () => {
-    const papers = [
-      { title: "Paper One", doi: "10.1/a", authors: [] },
-      { title: "Paper Two", doi: "10.1/b", authors: [] },
-      { title: "Paper Three", pmid: "999", authors: [] },
-    ];
-    const result = deduplicatePapers(papers);
-    expect(result).toHaveLength(3);
-  });
-
-  it("merges missing fields from duplicates", () => {
-    const papers = [
-      { title: "Study X", doi: "10.1/x", authors: ["A"] },
-      {
-        title: "Study X",
-        doi: "10.1/x",
-        abstract: "Abstract text",
-        journal: "Nature",
-        publishedYear: 2024,
-        authors: [],
-      },
-    ];
-    const result = deduplicatePapers(papers);
-    expect(result).toHaveLength(1);
-    expect(result[0].abstract).toBe("Abstract text");
-    expect(result[0].journal).toBe("Nature");
-    expect(result[0].publishedYear).toBe(2024);
-    expect(result[0].authors).toEqual(["A"]); // kept from first (non-empty)
-  });
-});
-
 // ── processDossierJob ───────────────────────────────────────────────────
 
 describe("processDossierJob", () => {
   it("throws when claim not found", async () => {
-    mockDossierUpdate.mockResolvedValue({ count: 1 } as never);
+    mockDossierStatus.mockResolvedValue({ count: 1 } as never);
     mockFindUnique.mockResolvedValue(null);
 
     const job = createMockJob();
@@ -350,7 +396,7 @@ describe("processDossierJob", () => {
   });
 
   it("marks job as succeeded with no verdict when no papers found", async () => {
-    mockDossierUpdate.mockResolvedValue({ count: 1 } as never);
+    mockDossierStatus.mockResolvedValue({ count: 1 } as never);
     mockFindUnique.mockResolvedValue(FAKE_CLAIM as never);
     mockSearchPubMed.mockResolvedValue({ count: 0, ids: [] });
     mockSearchArxiv.mockResolvedValue({ totalResults: 0, articles: [] });
@@ -385,7 +431,7 @@ describe("processDossierJob", () => {
     expect(mockClaimPaperUpsert).toHaveBeenCalled();
 
     // ── Chunking + embedding
-    expect(mockChunkText).toHaveBeenCalled();
+    expect(mockChunkSections).toHaveBeenCalled();
     expect(mockGenEmbeddings).toHaveBeenCalled();
     expect(mockStoreChunks).toHaveBeenCalled();
 
@@ -408,6 +454,21 @@ describe("processDossierJob", () => {
       })
     );
 
+    // ── Full verdict persisted against the running DossierJob
+    expect(mockSaveVerdict).toHaveBeenCalledWith({
+      claimId: CLAIM_ID,
+      dossierJobId: "dj-1",
+      verdict: FAKE_VERDICT,
+      evidenceCount: 2,
+      paperIds: expect.arrayContaining([expect.stringMatching(/^db-/)]),
+      citationSources: [
+        { key: "P1", paperId: expect.stringMatching(/^db-/), chunkId: null },
+        { key: "P2", paperId: expect.stringMatching(/^db-/), chunkId: null },
+      ],
+      ruleConfidence: 0.6,
+      confidenceFlagged: false,
+    });
+
     // ── Job marked succeeded
     expect(mockDossierUpdate).toHaveBeenCalledWith(
       expect.objectContaining({
@@ -422,6 +483,348 @@ describe("processDossierJob", () => {
     expect(job.updateProgress).toHaveBeenCalledWith(100);
   });
 
+  it("stores a full run's verdict without reopening a resolved market", async () => {
+    wireUpSuccessPath();
+    // The settled market doesn't match the unresolved filter
+    mockMarketUpdate.mockImplementation((async ({ where }: { where: { status?: unknown } }) => ({
+      count: where.status ? 0 : 1,
+    })) as never);
+
+    await processDossierJob(createMockJob());
+
+    expect(mockSaveVerdict).toHaveBeenCalledOnce();
+    expect(mockMarketUpdate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { claimId: CLAIM_ID, status: { not: "RESOLVED" } },
+      })
+    );
+    expect(mockMarketUpdate).toHaveBeenLastCalledWith({
+      where: { claimId: CLAIM_ID },
+      data: { lastDossierAt: expect.any(Date) },
+    });
+    expect(mockDossierUpdate).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({ status: "SUCCEEDED" }),
+      })
+    );
+  });
+
+  it("chunks the abstract and PMC full-text sections as one section tree", async () => {
+    wireUpSuccessPath();
+    mockFetchArticles.mockResolvedValue([
+      { ...PUBMED_ARTICLE, pmcid: "PMC777" } as never,
+    ]);
+    const fullTextSections = [
+      { name: "results" as const, title: "Results", text: "Strength rose 8% versus placebo." },
+      { name: "table" as const, title: "Table 1", text: "Outcome | Creatine | Placebo" },
+    ];
+    mockFetchFullText.mockResolvedValue({
+      pmcid: "PMC777",
+      title: PUBMED_ARTICLE.title,
+      sections: fullTextSections,
+    });
+    mockChunkSections.mockImplementation((sections) =>
+      sections.map((section, i) => ({
+        content: section.text,
+        chunkIndex: i,
+        estimatedTokens: 10,
+        startOffset: 0,
+        endOffset: section.text.length,
+        section: section.name,
+        sectionTitle: section.title,
+      }))
+    );
+
+    await processDossierJob(createMockJob());
+
+    expect(mockFetchFullText).toHaveBeenCalledWith("PMC777");
+    expect(mockChunkSections).toHaveBeenCalledWith(
+      [{ name: "abstract", text: PUBMED_ARTICLE.abstract }, ...fullTextSections],
+      { maxChunkTokens: 400, overlapTokens: 80 }
+    );
+    const stored = mockStoreChunks.mock.calls[0][0];
+    expect(stored).toContainEqual(
+      expect.objectContaining({
+        content: "Strength rose 8% versus placebo.",
+        chunkIndex: 1,
+        section: "results",
+        sectionTitle: "Results",
+        startOffset: 0,
+        endOffset: 32,
+      })
+    );
+  });
+
+  it("prefers results chunks and labels excerpts by section", async () => {
+    wireUpSuccessPath();
+    // mockPaperCreate ids papers as `db-<first 8 chars of title>`
+    mockSearchGrouped.mockResolvedValue(
+      new Map([
+        [
+          "db-Creatine",
+          [
+            {
+              id: "ch-1",
+              paperId: "db-Creatine",
+              content: "Strength rose 8%.",
+              chunkIndex: 4,
+              section: "results",
+              sectionTitle: "Results",
+              startOffset: 0,
+              endOffset: 17,
+              similarity: 0.8,
+            },
+          ],
+        ],
+      ])
+    );
+
+    await processDossierJob(createMockJob());
+
+    expect(mockSearchGrouped).toHaveBeenCalledWith(
+      expect.any(Array),
+      expect.objectContaining({ preferSections: ["results", "conclusion"] })
+    );
+    const prompts = mockChatCreate.mock.calls.map(
+      ([params]) => params.messages[1].content
+    );
+    expect(prompts).toContainEqual(
+      expect.stringContaining("[Results] Strength rose 8%.")
+    );
+  });
+
+  it("keys evidence cards and their excerpts for citation", async () => {
+    wireUpSuccessPath();
+    mockSearchGrouped.mockResolvedValue(
+      new Map([
+        [
+          "db-Creatine",
+          [
+            {
+              id: "ch-1",
+              paperId: "db-Creatine",
+              content: "Strength rose 8%.",
+              chunkIndex: 4,
+              section: "results",
+              sectionTitle: "Results",
+              startOffset: 0,
+              endOffset: 17,
+              similarity: 0.8,
+            },
+          ],
+        ],
+      ])
+    );
+
+    await processDossierJob(createMockJob());
+
+    const synthesisPrompt = mockChatCreate.mock.calls[2][0].messages[1].content;
+    expect(synthesisPrompt).toContain("- Cite as: [P1]");
+    expect(synthesisPrompt).toMatch(
+      /- Excerpt \[P\d\.1\]: \(Results\) Strength rose 8%\./
+    );
+
+    const { citationSources } = mockSaveVerdict.mock.calls[0][0];
+    expect(citationSources).toContainEqual({
+      key: expect.stringMatching(/^P\d\.1$/),
+      paperId: "db-Creatine",
+      chunkId: "ch-1",
+    });
+  });
+
+  it("falls back to the abstract when full text cannot be fetched", async () => {
+    wireUpSuccessPath();
+    mockFetchArticles.mockResolvedValue([
+      { ...PUBMED_ARTICLE, pmcid: "PMC777" } as never,
+    ]);
+    mockFetchFullText.mockRejectedValue(new Error("PMC fetch failed: Bad Gateway"));
+
+    await processDossierJob(createMockJob());
+
+    const stored = mockStoreChunks.mock.calls[0][0];
+    expect(stored.length).toBeGreaterThan(0);
+    expect(mockChunkSections.mock.calls[0][0]).toEqual([
+      { name: "abstract", text: PUBMED_ARTICLE.abstract },
+    ]);
+    expect(mockDossierUpdate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({ status: "SUCCEEDED" }),
+      })
+    );
+  });
+
+  it("embeds only chunks that are not already stored", async () => {
+    wireUpSuccessPath();
+    mockChunkSections.mockReturnValue([
+      { content: "already embedded", chunkIndex: 0, estimatedTokens: 4, startOffset: 0, endOffset: 16, section: "abstract" },
+      { content: "new text", chunkIndex: 1, estimatedTokens: 2, startOffset: 0, endOffset: 8, section: "results" },
+    ]);
+    const knownHash = hashChunkContent("already embedded");
+    mockFindEmbedded.mockImplementation(async (chunks) => {
+      return new Set(
+        chunks
+          .filter((c) => c.contentHash === knownHash)
+          .map((c) => `${c.paperId}:${c.contentHash}`)
+      );
+    });
+
+    await processDossierJob(createMockJob());
+
+    const lookedUp = mockFindEmbedded.mock.calls[0][0];
+    expect(lookedUp).toContainEqual({
+      paperId: expect.stringMatching(/^db-/),
+      contentHash: knownHash,
+    });
+    const embeddedTexts = mockGenEmbeddings.mock.calls[0][0];
+    expect(embeddedTexts.every((t: string) => t === "new text")).toBe(true);
+    const stored = mockStoreChunks.mock.calls[0][0];
+    expect(stored.map((c) => c.content)).not.toContain("already embedded");
+  });
+
+  it("skips the embeddings API when every chunk is already stored", async () => {
+    wireUpSuccessPath();
+    mockFindEmbedded.mockImplementation(
+      async (chunks) => new Set(chunks.map((c) => `${c.paperId}:${c.contentHash}`))
+    );
+
+    await processDossierJob(createMockJob());
+
+    expect(mockGenEmbeddings).not.toHaveBeenCalled();
+    expect(mockStoreChunks).not.toHaveBeenCalled();
+    expect(mockDossierUpdate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({ status: "SUCCEEDED" }),
+      })
+    );
+  });
+
+  it("passes the configured model settings to the LLM", async () => {
+    wireUpSuccessPath();
+    vi.stubEnv("LLM_EXTRACTION_MODEL", "gpt-4o");
+    vi.stubEnv("LLM_SYNTHESIS_TEMPERATURE", "0");
+    vi.stubEnv("LLM_SYNTHESIS_MAX_TOKENS", "2000");
+
+    await processDossierJob(createMockJob());
+
+    const [extraction] = mockChatCreate.mock.calls[0];
+    const [synthesis] = mockChatCreate.mock.calls[2];
+    expect(extraction).toMatchObject({
+      model: "gpt-4o",
+      temperature: 0.2,
+      max_tokens: 800,
+    });
+    expect(synthesis).toMatchObject({
+      model: "gpt-4o-mini",
+      temperature: 0,
+      max_tokens: 2000,
+    });
+  });
+
+  it("runs offline end to end on the fake provider", async () => {
+    wireUpSuccessPath();
+    vi.stubEnv("LLM_PROVIDER", "fake");
+    mockChatCreate.mockReset();
+    const embedder = new FakeEmbeddingProvider();
+    mockGenEmbeddings.mockImplementation((texts) => embedder.embed(texts));
+    mockGenEmbedding.mockImplementation(
+      async (text) => (await embedder.embed([text]))[0]
+    );
+
+    await processDossierJob(createMockJob());
+
+    expect(mockChatCreate).not.toHaveBeenCalled();
+    expect(mockClaimPaperUpdate).toHaveBeenCalledTimes(2);
+    expect(mockSaveVerdict).toHaveBeenCalledTimes(1);
+    expect(mockMarketUpdate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({ status: "ACTIVE" }),
+      })
+    );
+  });
+
+  it("searches each source with the planned queries and stores the plan", async () => {
+    wireUpSuccessPath();
+    const plan = {
+      source: "llm" as const,
+      pico: null,
+      pubmedQuery: '"Creatine"[MeSH Terms] AND "Muscle Strength"[MeSH Terms]',
+      semanticScholarQueries: ["creatine strength", "creatine 1RM"],
+      arxivQuery: "creatine strength",
+      arxivCategories: ["q-bio.QM"],
+    };
+    mockPlanSearch.mockResolvedValue(plan);
+
+    await processDossierJob(createMockJob());
+
+    expect(mockPlanSearch).toHaveBeenCalledWith(
+      expect.anything(),
+      FAKE_CLAIM,
+      expect.any(Function)
+    );
+    expect(mockSearchPubMed).toHaveBeenCalledWith(plan.pubmedQuery, {
+      maxResults: 30,
+    });
+    expect(mockSearchS2.mock.calls.map(([q]) => q)).toEqual([
+      "creatine strength",
+      "creatine 1RM",
+    ]);
+    expect(mockSearchArxiv).toHaveBeenCalledWith(
+      "creatine strength",
+      30,
+      ["q-bio.QM"],
+      undefined
+    );
+    expect(mockDossierUpdate).toHaveBeenCalledWith({
+      where: { id: "dj-1" },
+      data: { searchPlan: plan },
+    });
+  });
+
+  it("reuses an admin-edited plan stored on the job", async () => {
+    wireUpSuccessPath();
+    const adminPlan = {
+      ...fallbackSearchPlan(FAKE_CLAIM.title),
+      source: "admin",
+      pubmedQuery: "creatine[tiab] AND strength[tiab]",
+    };
+    mockDossierFindUnique.mockResolvedValue({
+      searchPlan: adminPlan,
+      mode: "FULL",
+    } as never);
+
+    await processDossierJob(createMockJob());
+
+    expect(mockPlanSearch).not.toHaveBeenCalled();
+    expect(mockSearchPubMed).toHaveBeenCalledWith(adminPlan.pubmedQuery, {
+      maxResults: 30,
+    });
+    expect(mockDossierUpdate).not.toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({ searchPlan: expect.anything() }),
+      })
+    );
+  });
+
+  it("falls back to title queries when planning fails", async () => {
+    wireUpSuccessPath();
+    mockPlanSearch.mockRejectedValue(new Error("planner offline"));
+
+    await processDossierJob(createMockJob());
+
+    expect(mockSearchPubMed).toHaveBeenCalledWith(
+      `${FAKE_CLAIM.title} systematic review`,
+      { maxResults: 30 }
+    );
+    expect(mockDossierUpdate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: {
+          searchPlan: expect.objectContaining({ source: "fallback" }),
+        },
+      })
+    );
+    expect(mockSaveVerdict).toHaveBeenCalledTimes(1);
+  });
+
   it("updates progress through the pipeline", async () => {
     wireUpSuccessPath();
     const job = createMockJob();
@@ -477,7 +880,7 @@ describe("processDossierJob", () => {
   });
 
   it("marks job as FAILED on unrecoverable error", async () => {
-    mockDossierUpdate.mockResolvedValue({ count: 1 } as never);
+    mockDossierStatus.mockResolvedValue({ count: 1 } as never);
     mockFindUnique.mockResolvedValue(FAKE_CLAIM as never);
     // Force an error during search
     mockSearchPubMed.mockRejectedValue(new Error("PubMed down"));
@@ -500,9 +903,9 @@ describe("processDossierJob", () => {
     const job = createMockJob();
     await expect(processDossierJob(job)).rejects.toThrow("DB connection lost");
 
-    expect(mockDossierUpdate).toHaveBeenCalledWith(
+    expect(mockDossierStatus).toHaveBeenCalledWith(
       expect.objectContaining({
-        where: expect.objectContaining({ status: "RUNNING" }),
+        where: { id: "dj-1", status: "RUNNING" },
         data: expect.objectContaining({
           status: "FAILED",
           error: "DB connection lost",
@@ -542,7 +945,7 @@ describe("processDossierJob", () => {
     );
   });
 
-  it("maps MIXED verdict to null aiVerdict", async () => {
+  it("stores MIXED as aiOutcome with a null aiVerdict", async () => {
     wireUpSuccessPath();
     const mixedVerdict = { ...FAKE_VERDICT, verdict: "MIXED" };
     mockChatCreate.mockReset();
@@ -563,6 +966,7 @@ describe("processDossierJob", () => {
       expect.objectContaining({
         data: expect.objectContaining({
           aiVerdict: null,
+          aiOutcome: "MIXED",
         }),
       })
     );
@@ -595,6 +999,111 @@ describe("processDossierJob", () => {
     );
   });
 
+  it("stores every extracted field as a ClaimPaper column", async () => {
+    wireUpSuccessPath();
+    const noEffect = { ...FAKE_EVIDENCE, effectSize: "", effect: null, pValue: null };
+    mockChatCreate.mockReset();
+    mockChatCreate.mockResolvedValueOnce({
+      choices: [{ message: { content: JSON.stringify(FAKE_EVIDENCE) } }],
+    } as never);
+    mockChatCreate.mockResolvedValueOnce({
+      choices: [{ message: { content: JSON.stringify(noEffect) } }],
+    } as never);
+    mockChatCreate.mockResolvedValueOnce({
+      choices: [{ message: { content: JSON.stringify(FAKE_VERDICT) } }],
+    } as never);
+
+    await processDossierJob(createMockJob());
+
+    const [first, second] = mockClaimPaperUpdate.mock.calls.map(([{ data }]) => data);
+    expect(first).toMatchObject({
+      population: "trained adults",
+      duration: "8 weeks",
+      effectSize: "+8% strength",
+      pValue: 0.001,
+      limitations: ["Mostly male participants"],
+      relevanceScore: 0.95,
+      effectMeasure: "PERCENT_CHANGE",
+      effectValue: 8,
+      effectCiLower: 5.5,
+      effectCiUpper: 10.5,
+      extractionVersion: "v2",
+    });
+    expect(second).toMatchObject({
+      effectSize: null,
+      pValue: null,
+      effectMeasure: null,
+      effectValue: null,
+      effectCiLower: null,
+      effectCiUpper: null,
+    });
+  });
+
+  it("grades each paper and leads the synthesis prompt with the heaviest", async () => {
+    wireUpSuccessPath();
+    const inVitro = { ...FAKE_EVIDENCE, studyType: "In vitro" };
+    mockChatCreate.mockReset();
+    mockChatCreate.mockResolvedValueOnce({
+      choices: [{ message: { content: JSON.stringify(inVitro) } }],
+    } as never);
+    mockChatCreate.mockResolvedValueOnce({
+      choices: [{ message: { content: JSON.stringify(FAKE_EVIDENCE) } }],
+    } as never);
+    mockChatCreate.mockResolvedValueOnce({
+      choices: [{ message: { content: JSON.stringify(FAKE_VERDICT) } }],
+    } as never);
+
+    await processDossierJob(createMockJob());
+
+    const grades = mockClaimPaperUpdate.mock.calls.map(([{ data }]) => [
+      data.evidenceWeight,
+      data.evidenceCertainty,
+    ]);
+    expect(grades).toEqual([
+      [0.11, "VERY_LOW"],
+      [0.92, "HIGH"],
+    ]);
+
+    const synthesisPrompt = mockChatCreate.mock.calls[2][0].messages[1]
+      .content as string;
+    const heavy = synthesisPrompt.indexOf("- Evidence weight: 0.92 (high certainty)");
+    const light = synthesisPrompt.indexOf("- Evidence weight: 0.11 (very low certainty)");
+    expect(heavy).toBeGreaterThan(-1);
+    expect(light).toBeGreaterThan(heavy);
+  });
+
+  it("flags a verdict whose confidence the evidence weights do not back", async () => {
+    wireUpSuccessPath();
+    const weakEvidence = { ...FAKE_EVIDENCE, studyType: "Expert opinion" };
+    mockChatCreate.mockReset();
+    mockChatCreate.mockResolvedValueOnce({
+      choices: [{ message: { content: JSON.stringify(weakEvidence) } }],
+    } as never);
+    mockChatCreate.mockResolvedValueOnce({
+      choices: [{ message: { content: JSON.stringify(weakEvidence) } }],
+    } as never);
+    mockChatCreate.mockResolvedValueOnce({
+      choices: [
+        { message: { content: JSON.stringify({ ...FAKE_VERDICT, confidence: 0.95 }) } },
+      ],
+    } as never);
+
+    await processDossierJob(createMockJob());
+
+    expect(mockSaveVerdict).toHaveBeenCalledWith(
+      expect.objectContaining({ ruleConfidence: 0.07, confidenceFlagged: true })
+    );
+    expect(mockMarketUpdate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({
+          aiConfidence: 0.95,
+          aiRuleConfidence: 0.07,
+          aiConfidenceFlagged: true,
+        }),
+      })
+    );
+  });
+
   it("continues synthesis even if one paper extraction fails", async () => {
     wireUpSuccessPath();
 
@@ -646,6 +1155,114 @@ describe("processDossierJob", () => {
     );
   });
 
+  it("repairs an invalid extraction and records the failure on the job", async () => {
+    wireUpSuccessPath();
+    mockChatCreate.mockReset();
+    const respond = (body: object) =>
+      mockChatCreate.mockResolvedValueOnce({
+        choices: [{ message: { content: JSON.stringify(body) } }],
+      } as never);
+    respond({ ...FAKE_EVIDENCE, stance: "PARTIALLY_SUPPORTS" });
+    respond(FAKE_EVIDENCE); // repair
+    respond(FAKE_EVIDENCE);
+    respond(FAKE_VERDICT);
+
+    await processDossierJob(createMockJob());
+
+    expect(mockChatCreate).toHaveBeenCalledTimes(4);
+    const repairPrompt = mockChatCreate.mock.calls[1][0].messages[1].content;
+    expect(repairPrompt).toContain("PARTIALLY_SUPPORTS");
+    expect(repairPrompt).toMatch(/- stance: /);
+    expect(mockClaimPaperUpdate).toHaveBeenCalledTimes(2);
+    expect(mockDossierUpdate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({
+          status: "SUCCEEDED",
+          validationFailures: [
+            {
+              task: "extraction",
+              attempt: 1,
+              errors: [expect.stringMatching(/^stance: /)],
+              paperTitle: expect.any(String),
+            },
+          ],
+        }),
+      })
+    );
+  });
+
+  it("skips a paper whose repaired extraction is still invalid", async () => {
+    wireUpSuccessPath();
+    mockChatCreate.mockReset();
+    const respond = (body: object) =>
+      mockChatCreate.mockResolvedValueOnce({
+        choices: [{ message: { content: JSON.stringify(body) } }],
+      } as never);
+    respond({ ...FAKE_EVIDENCE, sampleSize: "350 adults" });
+    respond({ ...FAKE_EVIDENCE, sampleSize: "about 350" });
+    respond(FAKE_EVIDENCE);
+    respond(FAKE_VERDICT);
+
+    await processDossierJob(createMockJob());
+
+    // Nothing unvalidated reaches ClaimPaper
+    expect(mockClaimPaperUpdate).toHaveBeenCalledTimes(1);
+    expect(mockClaimPaperUpdate).not.toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({ sampleSize: expect.any(String) }),
+      })
+    );
+    expect(mockSaveVerdict).toHaveBeenCalledWith(
+      expect.objectContaining({ evidenceCount: 1 })
+    );
+    const finalUpdate = mockDossierUpdate.mock.calls.at(-1)![0];
+    expect(finalUpdate.data).toMatchObject({
+      status: "SUCCEEDED",
+      validationFailures: [
+        { task: "extraction", attempt: 1 },
+        { task: "extraction", attempt: 2 },
+      ],
+    });
+  });
+
+  it("saves no verdict when synthesis stays invalid", async () => {
+    wireUpSuccessPath();
+    mockChatCreate.mockReset();
+    const respond = (body: object) =>
+      mockChatCreate.mockResolvedValueOnce({
+        choices: [{ message: { content: JSON.stringify(body) } }],
+      } as never);
+    respond(FAKE_EVIDENCE);
+    respond(FAKE_EVIDENCE);
+    respond({ ...FAKE_VERDICT, verdict: "LIKELY" });
+    respond({ ...FAKE_VERDICT, verdict: "LIKELY" });
+
+    await processDossierJob(createMockJob());
+
+    expect(mockSaveVerdict).not.toHaveBeenCalled();
+    expect(mockMarketUpdate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: { lastDossierAt: expect.any(Date) },
+      })
+    );
+    const finalUpdate = mockDossierUpdate.mock.calls.at(-1)![0];
+    expect(finalUpdate.data).toMatchObject({
+      validationFailures: [
+        { task: "synthesis", attempt: 1 },
+        { task: "synthesis", attempt: 2 },
+      ],
+    });
+  });
+
+  it("leaves validationFailures unset when every response is valid", async () => {
+    wireUpSuccessPath();
+
+    await processDossierJob(createMockJob());
+
+    const finalUpdate = mockDossierUpdate.mock.calls.at(-1)![0];
+    expect(finalUpdate.data).not.toHaveProperty("validationFailures");
+  });
+
   it("uses existing paper when found in DB", async () => {
     wireUpSuccessPath();
     // Paper already exists in DB
@@ -680,6 +1297,988 @@ describe("processDossierJob", () => {
     );
   });
 
+  it("stores a preprint linked to its published version without evidence", async () => {
+    wireUpSuccessPath();
+    // arXiv returns the preprint of the PubMed paper
+    mockSearchArxiv.mockResolvedValue({
+      totalResults: 1,
+      articles: [
+        {
+          ...ARXIV_ARTICLE,
+          title: "Creatine and strength: a meta-analysis (preprint)",
+          authors: ["John Smith", "Anna Doe"],
+          publishedYear: 2022,
+        },
+      ],
+    });
+    mockPaperCreate.mockImplementation((({ data }: { data: { arxivId?: string } }) =>
+      Promise.resolve({ id: data.arxivId ? "db-preprint" : "db-published" })) as never
+    );
+    const mockPaperUpdate = vi.mocked(prisma.paper.update);
+    mockPaperUpdate.mockResolvedValue({} as never);
+    // One paper to extract, then synthesis
+    mockChatCreate.mockReset();
+    mockChatCreate.mockResolvedValueOnce({
+      choices: [{ message: { content: JSON.stringify(FAKE_EVIDENCE) } }],
+    } as never);
+    mockChatCreate.mockResolvedValueOnce({
+      choices: [{ message: { content: JSON.stringify(FAKE_VERDICT) } }],
+    } as never);
+
+    const job = createMockJob();
+    await processDossierJob(job);
+
+    const createdTitles = mockPaperCreate.mock.calls.map(
+      ([args]) => (args as { data: { title: string } }).data.title
+    );
+    expect(createdTitles).toEqual([
+      "Creatine and Strength: A Meta-Analysis",
+      "Creatine and strength: a meta-analysis (preprint)",
+    ]);
+    expect(mockPaperUpdate).toHaveBeenCalledWith({
+      where: { id: "db-preprint" },
+      data: { publishedVersionId: "db-published" },
+    });
+    // Only the published paper becomes evidence
+    expect(mockClaimPaperUpsert).toHaveBeenCalledTimes(1);
+    expect(mockClaimPaperUpsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        create: { claimId: CLAIM_ID, paperId: "db-published" },
+      })
+    );
+  });
+
+  it("snowballs from a meta-analysis and records how each paper was found", async () => {
+    wireUpSuccessPath();
+    const included = {
+      ...S2_PAPER,
+      paperId: "s2-included",
+      externalIds: { DOI: "10.9/included" },
+      title: "Resistance training with creatine in older women",
+      publicationTypes: null,
+    };
+    mockS2References.mockResolvedValue([included as never]);
+    mockS2Citations.mockResolvedValue([
+      // Already found by search: not a new candidate
+      { ...S2_PAPER, paperId: "s2-abc123" } as never,
+    ]);
+    mockChatCreate.mockReset();
+    mockChatCreate.mockResolvedValue({
+      choices: [{ message: { content: JSON.stringify(FAKE_EVIDENCE) } }],
+    } as never);
+
+    const job = createMockJob();
+    await processDossierJob(job);
+
+    // The seed is the merged PubMed / S2 meta-analysis
+    expect(mockS2References).toHaveBeenCalledWith("s2-abc123", 10);
+    expect(mockPaperCreate).toHaveBeenCalledWith({
+      data: expect.objectContaining({ semanticScholarId: "s2-included" }),
+    });
+    expect(mockClaimPaperUpsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        create: {
+          claimId: CLAIM_ID,
+          paperId: "db-Resistan",
+          foundVia: "reference",
+          foundViaPaperId: "db-Creatine",
+        },
+      })
+    );
+    // Searched papers carry no provenance
+    expect(mockClaimPaperUpsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        create: { claimId: CLAIM_ID, paperId: "db-Creatine" },
+      })
+    );
+    expect(mockClaimPaperUpsert).toHaveBeenCalledTimes(3);
+  });
+
+  it("carries on with the searched papers when snowballing fails", async () => {
+    wireUpSuccessPath();
+    mockS2References.mockRejectedValue(new Error("Semantic Scholar references failed: 429"));
+
+    const job = createMockJob();
+    await processDossierJob(job);
+
+    expect(mockClaimPaperUpsert).toHaveBeenCalledTimes(2);
+    expect(mockDossierUpdate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({ status: "SUCCEEDED" }),
+      })
+    );
+  });
+
+  it("stores retraction status and leaves retracted papers out of evidence", async () => {
+    wireUpSuccessPath();
+    mockFetchArticles.mockResolvedValue([
+      {
+        ...PUBMED_ARTICLE,
+        publicationTypes: ["Meta-Analysis", "Retracted Publication"],
+        notices: [{ type: "RetractionIn", pmid: "99999" }],
+      } as never,
+    ]);
+    // One extraction (the arXiv paper), then synthesis
+    mockChatCreate.mockReset();
+    mockChatCreate
+      .mockResolvedValueOnce({
+        choices: [{ message: { content: JSON.stringify(FAKE_EVIDENCE) } }],
+      } as never)
+      .mockResolvedValueOnce({
+        choices: [{ message: { content: JSON.stringify(FAKE_VERDICT) } }],
+      } as never);
+
+    await processDossierJob(createMockJob());
+
+    expect(mockPaperCreate).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        pmid: "12345",
+        retractionStatus: "RETRACTED",
+        retractionNoticeUrl: "https://pubmed.ncbi.nlm.nih.gov/99999/",
+      }),
+    });
+    // Stored and linked to the claim, but never searched or extracted
+    expect(mockClaimPaperUpsert).toHaveBeenCalledTimes(2);
+    expect(mockSearchGrouped.mock.calls[0][1]).toMatchObject({
+      paperIds: ["db-Machine "],
+    });
+    const extracted = mockClaimPaperUpdate.mock.calls.map(
+      ([args]) => args.where.claimId_paperId?.paperId
+    );
+    expect(extracted).toEqual(["db-Machine "]);
+    expect(mockChatCreate).toHaveBeenCalledTimes(2);
+  });
+
+  it("keeps a retraction found by the scheduled check when sources don't report it", async () => {
+    wireUpSuccessPath();
+    mockPaperFindFirst.mockImplementation((async ({ where }: { where: { OR: { pmid?: string }[] } }) =>
+      where.OR.some((clause) => clause.pmid === "12345")
+        ? {
+            id: "retracted-id",
+            doi: "10.1234/test",
+            pmid: "12345",
+            retractionStatus: "RETRACTED",
+            retractionNoticeUrl: "https://doi.org/10.1/notice",
+          }
+        : null) as never);
+    const mockPaperUpdate = vi.mocked(prisma.paper.update);
+    mockPaperUpdate.mockImplementation((async ({ data }: { data: object }) => ({
+      id: "retracted-id",
+      ...data,
+    })) as never);
+
+    await processDossierJob(createMockJob());
+
+    expect(mockPaperUpdate.mock.calls[0][0].data).toMatchObject({
+      retractionStatus: "RETRACTED",
+      retractionNoticeUrl: "https://doi.org/10.1/notice",
+    });
+    expect(mockSearchGrouped.mock.calls[0][1]?.paperIds).not.toContain("retracted-id");
+    // Already known: nothing new to flag
+    expect(mockFlagClaims).not.toHaveBeenCalled();
+  });
+
+  it("flags claims relying on a stored paper a source now reports retracted", async () => {
+    wireUpSuccessPath();
+    mockFetchArticles.mockResolvedValue([
+      {
+        ...PUBMED_ARTICLE,
+        publicationTypes: ["Meta-Analysis", "Retracted Publication"],
+        notices: [{ type: "RetractionIn", pmid: "99999" }],
+      } as never,
+    ]);
+    mockPaperFindFirst.mockImplementation((async ({ where }: { where: { OR: { pmid?: string }[] } }) =>
+      where.OR.some((clause) => clause.pmid === "12345")
+        ? {
+            id: "stored-id",
+            doi: "10.1234/test",
+            pmid: "12345",
+            retractionStatus: "NONE",
+            retractionNoticeUrl: null,
+          }
+        : null) as never);
+    const mockPaperUpdate = vi.mocked(prisma.paper.update);
+    mockPaperUpdate.mockImplementation((async ({ data }: { data: object }) => ({
+      id: "stored-id",
+      ...data,
+    })) as never);
+
+    await processDossierJob(createMockJob());
+
+    expect(mockFlagClaims).toHaveBeenCalledWith(["stored-id"]);
+    expect(mockFlagClaims.mock.invocationCallOrder[0]).toBeLessThan(
+      mockPaperUpdate.mock.invocationCallOrder[0]
+    );
+    expect(mockPaperUpdate.mock.calls[0][0].data).toMatchObject({
+      retractionStatus: "RETRACTED",
+    });
+  });
+
+  it("rates down a paper under an expression of concern", async () => {
+    wireUpSuccessPath();
+    mockFetchArticles.mockResolvedValue([
+      {
+        ...PUBMED_ARTICLE,
+        notices: [{ type: "ExpressionOfConcernIn", pmid: "99998" }],
+      } as never,
+    ]);
+
+    await processDossierJob(createMockJob());
+
+    const weights = Object.fromEntries(
+      mockClaimPaperUpdate.mock.calls.map(([args]) => [
+        args.where.claimId_paperId?.paperId,
+        args.data.evidenceWeight,
+      ])
+    );
+    // Same extraction for both papers; the flagged one loses 0.25 quality
+    expect(weights["db-Creatine"]).toBe(0.68);
+    expect(weights["db-Machine "]).toBe(0.92);
+  });
+
+  it("skips a job whose DossierJob is no longer active", async () => {
+    wireUpSuccessPath();
+    mockDossierStatus.mockResolvedValue({ count: 0 } as never);
+
+    await processDossierJob(createMockJob());
+
+    expect(mockDossierStatus).toHaveBeenCalledWith({
+      where: { id: "dj-1", status: { in: ["QUEUED", "RUNNING"] } },
+      data: { status: "RUNNING", startedAt: expect.any(Date), error: null },
+    });
+    expect(mockFindUnique).not.toHaveBeenCalled();
+    expect(mockDossierUpdate).not.toHaveBeenCalled();
+  });
+
+  it("puts the DossierJob back in the queue while BullMQ will retry", async () => {
+    wireUpSuccessPath();
+    mockPaperCreate.mockRejectedValue(new Error("DB connection lost"));
+    const job = { ...createMockJob(), attemptsMade: 1, opts: { attempts: 3 } };
+
+    await expect(processDossierJob(job)).rejects.toThrow("DB connection lost");
+
+    expect(mockDossierStatus).toHaveBeenLastCalledWith({
+      where: { id: "dj-1", status: "RUNNING" },
+      data: { status: "QUEUED", error: "DB connection lost" },
+    });
+  });
+
+  describe("incremental runs", () => {
+    const LAST_DOSSIER_AT = new Date("2026-01-10T00:00:00Z");
+    const PRIOR_EVIDENCE = [
+      {
+        // Found again by this run's search
+        paperId: "db-Creatine",
+        aiSummary: "Earlier meta-analysis summary.",
+        studyType: "Meta-analysis",
+        sampleSize: 350,
+        stance: "SUPPORTS",
+        evidenceWeight: 0.9,
+        evidenceCertainty: "HIGH",
+        extractionJson: FAKE_EVIDENCE,
+        paper: {
+          title: PUBMED_ARTICLE.title,
+          publishedYear: 2023,
+          retractionStatus: "NONE",
+        },
+      },
+      {
+        paperId: "db-older-rct",
+        aiSummary: "An older trial found no effect.",
+        studyType: "RCT",
+        sampleSize: 40,
+        stance: "REFUTES",
+        evidenceWeight: 0.5,
+        evidenceCertainty: "MODERATE",
+        extractionJson: null,
+        paper: { title: "Older RCT", publishedYear: 2015, retractionStatus: "NONE" },
+      },
+      {
+        paperId: "db-retracted",
+        aiSummary: "Since retracted.",
+        studyType: "RCT",
+        sampleSize: 20,
+        stance: "SUPPORTS",
+        evidenceWeight: 0.4,
+        evidenceCertainty: "LOW",
+        extractionJson: null,
+        paper: { title: "Retracted RCT", publishedYear: 2016, retractionStatus: "RETRACTED" },
+      },
+    ];
+
+    function wireUpIncremental() {
+      wireUpSuccessPath();
+      mockDossierFindUnique.mockResolvedValue({
+        searchPlan: null,
+        mode: "INCREMENTAL",
+      } as never);
+      mockMarketFindUnique.mockResolvedValue({ lastDossierAt: LAST_DOSSIER_AT } as never);
+      mockClaimPaperFindMany.mockResolvedValue(PRIOR_EVIDENCE as never);
+    }
+
+    it("searches only for papers since the last dossier, without snowballing", async () => {
+      wireUpIncremental();
+
+      await processDossierJob(createMockJob());
+
+      expect(mockSearchPubMed).toHaveBeenCalledWith(expect.any(String), {
+        maxResults: 30,
+        since: LAST_DOSSIER_AT,
+      });
+      expect(mockSearchS2).toHaveBeenCalledWith(
+        expect.any(String),
+        30,
+        LAST_DOSSIER_AT
+      );
+      expect(mockS2References).not.toHaveBeenCalled();
+      expect(mockS2Citations).not.toHaveBeenCalled();
+    });
+
+    it("extracts only new papers and synthesises with the stored evidence", async () => {
+      wireUpIncremental();
+      mockChatCreate.mockReset();
+      mockChatCreate
+        .mockResolvedValueOnce({
+          choices: [{ message: { content: JSON.stringify(FAKE_EVIDENCE) } }],
+        } as never)
+        .mockResolvedValueOnce({
+          choices: [{ message: { content: JSON.stringify(FAKE_VERDICT) } }],
+        } as never);
+
+      await processDossierJob(createMockJob());
+
+      const extracted = mockClaimPaperUpdate.mock.calls.map(
+        ([args]) => args.where.claimId_paperId?.paperId
+      );
+      expect(extracted).toEqual(["db-Machine "]);
+
+      const synthesisPrompt = mockChatCreate.mock.calls[1][0].messages[1]
+        .content as string;
+      expect(synthesisPrompt).toContain("Earlier meta-analysis summary.");
+      expect(synthesisPrompt).toContain("An older trial found no effect.");
+      expect(synthesisPrompt).not.toContain("Since retracted.");
+
+      const saved = mockSaveVerdict.mock.calls[0][0];
+      expect(saved.evidenceCount).toBe(3);
+      expect(saved.citationSources!.map((c) => c.paperId)).toEqual([
+        "db-Machine ",
+        "db-Creatine",
+        "db-older-rct",
+      ]);
+      expect([...saved.paperIds!].sort()).toEqual(
+        ["db-Creatine", "db-Machine ", "db-older-rct", "db-retracted"].sort()
+      );
+    });
+
+    it("counts prior refuting evidence, whatever format it was stored in", async () => {
+      wireUpIncremental();
+      mockClaimPaperFindMany.mockResolvedValue([
+        // Stored before effect / pValue were extracted
+        {
+          ...PRIOR_EVIDENCE[0],
+          paperId: "db-old-trial",
+          aiSummary: "An older trial saw strength fall.",
+          extractionJson: {
+            ...FAKE_EVIDENCE,
+            effect: undefined,
+            pValue: undefined,
+            stance: "CONTRADICTS",
+          },
+          paper: { title: "Old trial", publishedYear: 2012, retractionStatus: "NONE" },
+        },
+        // No extraction at all: only the ClaimPaper's REFUTES stance
+        PRIOR_EVIDENCE[1],
+      ] as never);
+      mockChatCreate.mockReset();
+      mockChatCreate
+        .mockResolvedValueOnce({
+          choices: [{ message: { content: JSON.stringify(FAKE_EVIDENCE) } }],
+        } as never)
+        .mockResolvedValueOnce({
+          choices: [{ message: { content: JSON.stringify(FAKE_EVIDENCE) } }],
+        } as never)
+        .mockResolvedValueOnce({
+          choices: [
+            {
+              message: {
+                content: JSON.stringify({ ...FAKE_VERDICT, verdict: "CONTRADICTED" }),
+              },
+            },
+          ],
+        } as never);
+
+      await processDossierJob(createMockJob());
+
+      const synthesisPrompt = mockChatCreate.mock.calls.at(-1)![0].messages[1]
+        .content as string;
+      expect(synthesisPrompt.match(/- Stance: CONTRADICTS/g)).toHaveLength(2);
+      expect(synthesisPrompt).not.toContain("- Stance: REFUTES");
+      // With the refuting papers dropped, the rules would give 0
+      expect(mockSaveVerdict.mock.calls[0][0].ruleConfidence).toBeGreaterThan(0);
+    });
+
+    it("still extracts papers an earlier attempt of the run linked", async () => {
+      wireUpIncremental();
+      const queuedAt = new Date("2026-02-01T09:00:00Z");
+      mockDossierFindUnique.mockResolvedValue({
+        searchPlan: null,
+        mode: "INCREMENTAL",
+        createdAt: queuedAt,
+      } as never);
+      // The first attempt linked the new paper, then failed while storing
+      const links = [
+        ...PRIOR_EVIDENCE.map((link) => ({ ...link, createdAt: LAST_DOSSIER_AT })),
+        {
+          ...PRIOR_EVIDENCE[0],
+          paperId: "db-Machine ",
+          aiSummary: null,
+          createdAt: new Date("2026-02-01T09:00:05Z"),
+        },
+      ];
+      mockClaimPaperFindMany.mockImplementation((async ({ where }: {
+        where: { createdAt?: { lt: Date } };
+      }) =>
+        links.filter((link) => !where.createdAt || link.createdAt < where.createdAt.lt)) as never);
+
+      await processDossierJob(createMockJob());
+
+      expect(mockClaimPaperFindMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { claimId: CLAIM_ID, createdAt: { lt: queuedAt } },
+        })
+      );
+      const extracted = mockClaimPaperUpdate.mock.calls.map(
+        ([args]) => args.where.claimId_paperId?.paperId
+      );
+      expect(extracted).toEqual(["db-Machine "]);
+    });
+
+    it("keeps the current verdict when no new evidence turns up", async () => {
+      wireUpIncremental();
+      mockClaimPaperFindMany.mockResolvedValue([
+        ...PRIOR_EVIDENCE,
+        { ...PRIOR_EVIDENCE[1], paperId: "db-Machine " },
+      ] as never);
+
+      await processDossierJob(createMockJob());
+
+      expect(mockChatCreate).not.toHaveBeenCalled();
+      expect(mockSaveVerdict).not.toHaveBeenCalled();
+      expect(mockMarketUpdate).toHaveBeenCalledWith({
+        where: { claimId: CLAIM_ID },
+        data: { lastDossierAt: expect.any(Date) },
+      });
+      expect(mockDossierUpdate).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          where: { id: "dj-1" },
+          data: expect.objectContaining({ status: "SUCCEEDED" }),
+        })
+      );
+    });
+
+    it("alerts subscribers to new papers that might change the verdict", async () => {
+      wireUpIncremental();
+      mockMarketFindUnique.mockResolvedValue({
+        lastDossierAt: LAST_DOSSIER_AT,
+        status: "ACTIVE",
+        aiOutcome: "CONTRADICTED",
+      } as never);
+      mockNotifySubscribers.mockResolvedValue(2);
+
+      await processDossierJob(createMockJob());
+
+      // The new meta-analysis supports a claim judged contradicted
+      expect(mockNotifySubscribers).toHaveBeenCalledWith(CLAIM_ID, "dj-1", [
+        "db-Machine ",
+      ]);
+    });
+
+    it("doesn't alert when new papers agree with the verdict", async () => {
+      wireUpIncremental();
+      mockMarketFindUnique.mockResolvedValue({
+        lastDossierAt: LAST_DOSSIER_AT,
+        status: "ACTIVE",
+        aiOutcome: "SUPPORTED",
+      } as never);
+
+      await processDossierJob(createMockJob());
+
+      expect(mockNotifySubscribers).not.toHaveBeenCalled();
+    });
+
+    it("stores new evidence for a resolved claim without re-synthesising", async () => {
+      wireUpIncremental();
+      mockMarketFindUnique.mockResolvedValue({
+        lastDossierAt: LAST_DOSSIER_AT,
+        status: "RESOLVED",
+        aiOutcome: "CONTRADICTED",
+      } as never);
+
+      await processDossierJob(createMockJob());
+
+      expect(mockClaimPaperUpdate).toHaveBeenCalled();
+      expect(mockSaveVerdict).not.toHaveBeenCalled();
+      expect(mockNotifySubscribers).toHaveBeenCalledWith(CLAIM_ID, "dj-1", [
+        "db-Machine ",
+      ]);
+      expect(mockDossierUpdate).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ status: "SUCCEEDED" }),
+        })
+      );
+    });
+
+    it("still succeeds when alerts can't be queued", async () => {
+      wireUpIncremental();
+      mockNotifySubscribers.mockRejectedValue(new Error("Redis down"));
+
+      await processDossierJob(createMockJob());
+
+      expect(mockNotifySubscribers).toHaveBeenCalled();
+      expect(mockDossierUpdate).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ status: "SUCCEEDED" }),
+        })
+      );
+    });
+
+    it("runs in full when the claim has no earlier dossier", async () => {
+      wireUpIncremental();
+      mockMarketFindUnique.mockResolvedValue({ lastDossierAt: null } as never);
+
+      await processDossierJob(createMockJob());
+
+      expect(mockSearchPubMed).toHaveBeenCalledWith(expect.any(String), {
+        maxResults: 30,
+      });
+      expect(mockClaimPaperFindMany).not.toHaveBeenCalled();
+      expect(mockChatCreate).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe("cost accounting", () => {
+    const USAGE = { prompt_tokens: 1000, completion_tokens: 200, total_tokens: 1200 };
+
+    function completion(content: unknown) {
+      return {
+        choices: [{ message: { content: JSON.stringify(content) } }],
+        usage: USAGE,
+      } as never;
+    }
+
+    afterEach(() => {
+      vi.unstubAllEnvs();
+    });
+
+    it("records each call's token usage in the run's cost ledger", async () => {
+      wireUpSuccessPath();
+      mockChatCreate.mockReset();
+      mockChatCreate
+        .mockResolvedValueOnce(completion(FAKE_EVIDENCE))
+        .mockResolvedValueOnce(completion(FAKE_EVIDENCE))
+        .mockResolvedValueOnce(completion(FAKE_VERDICT));
+      mockCostCreateMany.mockResolvedValue({ count: 3 });
+
+      await processDossierJob(createMockJob());
+
+      const { data } = mockCostCreateMany.mock.calls[0][0] as {
+        data: { stage: string; model: string; promptTokens: number }[];
+      };
+      expect(data.map((entry) => entry.stage)).toEqual([
+        "EXTRACTION",
+        "EXTRACTION",
+        "SYNTHESIS",
+      ]);
+      expect(data[0]).toMatchObject({
+        dossierJobId: "dj-1",
+        model: "gpt-4o-mini",
+        promptTokens: 1000,
+        completionTokens: 200,
+        costUsd: expect.closeTo(0.00027),
+      });
+    });
+
+    it("stops extracting once the run budget is reached", async () => {
+      vi.stubEnv("DOSSIER_JOB_BUDGET_USD", "0.0002");
+      wireUpSuccessPath();
+      mockChatCreate.mockReset();
+      mockChatCreate
+        .mockResolvedValueOnce(completion(FAKE_EVIDENCE))
+        .mockResolvedValueOnce(completion(FAKE_VERDICT));
+
+      await processDossierJob(createMockJob());
+
+      // One paper extracted, then the verdict from it alone
+      expect(mockClaimPaperUpdate).toHaveBeenCalledTimes(1);
+      expect(mockChatCreate).toHaveBeenCalledTimes(2);
+      expect(mockSaveVerdict.mock.calls[0][0].evidenceCount).toBe(1);
+    });
+
+    it("counts earlier attempts' costs against the run budget", async () => {
+      vi.stubEnv("DOSSIER_JOB_BUDGET_USD", "0.0002");
+      wireUpSuccessPath();
+      // The first attempt extracted one paper, then failed while saving
+      mockChatCreate.mockReset();
+      mockChatCreate
+        .mockResolvedValueOnce(completion(FAKE_EVIDENCE))
+        .mockResolvedValueOnce(completion(FAKE_VERDICT));
+      mockSaveVerdict.mockRejectedValueOnce(new Error("DB connection lost"));
+      const job = { ...createMockJob(), attemptsMade: 0, opts: { attempts: 3 } };
+      await expect(processDossierJob(job)).rejects.toThrow("DB connection lost");
+      const spent = mockCostCreateMany.mock.calls
+        .flatMap(([args]) => args!.data as { costUsd: number }[])
+        .reduce((sum, entry) => sum + entry.costUsd, 0);
+
+      // The retry has nothing to resume from and the budget already spent
+      vi.clearAllMocks();
+      wireUpSuccessPath();
+      mockCostAggregate.mockResolvedValue({ _sum: { costUsd: spent } } as never);
+      mockChatCreate.mockReset();
+
+      await processDossierJob(createMockJob());
+
+      expect(mockCostAggregate).toHaveBeenCalledWith({
+        where: { dossierJobId: "dj-1" },
+        _sum: { costUsd: true },
+      });
+      // Over budget from the start: no further LLM calls
+      expect(mockClaimPaperUpdate).not.toHaveBeenCalled();
+      expect(mockChatCreate).not.toHaveBeenCalled();
+    });
+
+    it("fails without retrying once the monthly budget is reached", async () => {
+      vi.stubEnv("LLM_MONTHLY_BUDGET_USD", "100");
+      wireUpSuccessPath();
+      mockCostAggregate.mockResolvedValue({ _sum: { costUsd: 100.4 } } as never);
+      const job = { ...createMockJob(), attemptsMade: 0, opts: { attempts: 3 } };
+
+      await expect(processDossierJob(job)).rejects.toThrow(
+        "Monthly LLM budget of $100 reached ($100.40 spent)"
+      );
+
+      expect(mockFindUnique).not.toHaveBeenCalled();
+      expect(mockDossierStatus).toHaveBeenLastCalledWith({
+        where: { id: "dj-1", status: "RUNNING" },
+        data: expect.objectContaining({ status: "FAILED" }),
+      });
+    });
+
+    it("runs while under the monthly budget", async () => {
+      vi.stubEnv("LLM_MONTHLY_BUDGET_USD", "100");
+      wireUpSuccessPath();
+      mockCostAggregate.mockResolvedValue({ _sum: { costUsd: 12 } } as never);
+
+      await processDossierJob(createMockJob());
+
+      expect(mockSaveVerdict).toHaveBeenCalled();
+    });
+
+    it("saves the costs of a failed run", async () => {
+      wireUpSuccessPath();
+      mockChatCreate.mockReset();
+      mockChatCreate
+        .mockResolvedValueOnce(completion(FAKE_EVIDENCE))
+        .mockResolvedValueOnce(completion(FAKE_EVIDENCE))
+        .mockResolvedValueOnce(completion(FAKE_VERDICT));
+      mockSaveVerdict.mockRejectedValue(new Error("DB connection lost"));
+
+      await expect(processDossierJob(createMockJob())).rejects.toThrow(
+        "DB connection lost"
+      );
+
+      expect(mockCostCreateMany).toHaveBeenCalledWith({
+        data: expect.arrayContaining([
+          expect.objectContaining({ stage: "SYNTHESIS" }),
+        ]),
+      });
+    });
+  });
+
+  describe("stage checkpoints", () => {
+    /** Checkpoint rows as a retry would load them, from a run's upserts */
+    function savedCheckpoints(...stages: string[]) {
+      return mockCheckpointUpsert.mock.calls
+        .map(([args]) => args.create)
+        .filter((row) => stages.includes(row.stage))
+        .map((row) => ({
+          stage: row.stage,
+          output: JSON.parse(JSON.stringify(row.output)),
+        }));
+    }
+
+    it("records each stage on the DossierJob and checkpoints its output", async () => {
+      wireUpSuccessPath();
+
+      await processDossierJob(createMockJob());
+
+      const stages = mockDossierUpdate.mock.calls
+        .map(([args]) => args.data.stage)
+        .filter(Boolean);
+      expect(stages).toEqual([
+        "PLANNING",
+        "SEARCHING",
+        "STORING",
+        "EMBEDDING",
+        "RETRIEVAL",
+        "EXTRACTION",
+        "SYNTHESIS",
+        "SAVING",
+      ]);
+      expect(mockDossierUpdate).toHaveBeenCalledWith({
+        where: { id: "dj-1" },
+        data: { stage: "EMBEDDING", progress: 40 },
+      });
+      expect(mockCheckpointUpsert.mock.calls.map(([args]) => args.create.stage)).toEqual([
+        "SEARCHING",
+        "STORING",
+        "EMBEDDING",
+        "RETRIEVAL",
+        "EXTRACTION",
+        "SYNTHESIS",
+      ]);
+      const [embedded] = savedCheckpoints("EMBEDDING");
+      expect(embedded.output).toEqual({ chunkIds: ["chunk-id-1"], skipped: 0 });
+      // A finished run won't be resumed
+      expect(mockCheckpointDelete).toHaveBeenCalledWith({ where: { dossierJobId: "dj-1" } });
+    });
+
+    it("resumes a retried run after its last completed stage", async () => {
+      wireUpSuccessPath();
+      await processDossierJob(createMockJob());
+      const checkpoints = savedCheckpoints(
+        "SEARCHING",
+        "STORING",
+        "EMBEDDING",
+        "RETRIEVAL",
+        "EXTRACTION"
+      );
+
+      vi.clearAllMocks();
+      wireUpSuccessPath();
+      mockCheckpointFindMany.mockResolvedValue(checkpoints as never);
+      mockChatCreate.mockReset();
+      mockChatCreate.mockResolvedValueOnce({
+        choices: [{ message: { content: JSON.stringify(FAKE_VERDICT) } }],
+      } as never);
+
+      await processDossierJob(createMockJob());
+
+      expect(mockSearchPubMed).not.toHaveBeenCalled();
+      expect(mockPaperCreate).not.toHaveBeenCalled();
+      expect(mockGenEmbeddings).not.toHaveBeenCalled();
+      expect(mockGenEmbedding).not.toHaveBeenCalled();
+      expect(mockClaimPaperUpdate).not.toHaveBeenCalled();
+      // Only synthesis runs again, from the checkpointed evidence
+      expect(mockChatCreate).toHaveBeenCalledTimes(1);
+      expect(mockSaveVerdict).toHaveBeenCalledWith(
+        expect.objectContaining({ evidenceCount: 2 })
+      );
+      const stages = mockDossierUpdate.mock.calls
+        .map(([args]) => args.data.stage)
+        .filter(Boolean);
+      expect(stages).toEqual(["PLANNING", "SYNTHESIS", "SAVING"]);
+    });
+
+    it("resumes a run that failed after saving its verdict", async () => {
+      wireUpSuccessPath();
+      mockMarketUpdate.mockImplementation((async ({ data }: { data: { status?: string } }) => {
+        if (data.status === "ACTIVE") throw new Error("DB connection lost");
+        return { count: 1 };
+      }) as never);
+      const job = { ...createMockJob(), attemptsMade: 0, opts: { attempts: 3 } };
+      await expect(processDossierJob(job)).rejects.toThrow("DB connection lost");
+      expect(mockSaveVerdict).toHaveBeenCalledOnce();
+      const checkpoints = savedCheckpoints(
+        "SEARCHING",
+        "STORING",
+        "EMBEDDING",
+        "RETRIEVAL",
+        "EXTRACTION",
+        "SYNTHESIS"
+      );
+
+      vi.clearAllMocks();
+      wireUpSuccessPath();
+      mockCheckpointFindMany.mockResolvedValue(checkpoints as never);
+
+      await processDossierJob(createMockJob());
+
+      // Saving again for the same run returns the stored verdict
+      expect(mockChatCreate).not.toHaveBeenCalled();
+      expect(mockSaveVerdict).toHaveBeenCalledWith(
+        expect.objectContaining({ claimId: CLAIM_ID, dossierJobId: "dj-1" })
+      );
+      expect(mockMarketUpdate).toHaveBeenCalledWith(
+        expect.objectContaining({ data: expect.objectContaining({ status: "ACTIVE" }) })
+      );
+      expect(mockDossierUpdate).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ status: "SUCCEEDED" }),
+        })
+      );
+    });
+
+    it("keeps snowball provenance when resuming from the candidate papers", async () => {
+      wireUpSuccessPath();
+      mockS2References.mockResolvedValue([
+        {
+          ...S2_PAPER,
+          paperId: "s2-included",
+          externalIds: { DOI: "10.9/included" },
+          title: "Resistance training with creatine in older women",
+          publicationTypes: null,
+        } as never,
+      ]);
+      mockPaperCreate.mockRejectedValueOnce(new Error("DB connection lost"));
+      const job = { ...createMockJob(), attemptsMade: 0, opts: { attempts: 3 } };
+      await expect(processDossierJob(job)).rejects.toThrow("DB connection lost");
+      const checkpoints = savedCheckpoints("SEARCHING");
+      // Still to be retried, so its checkpoints stay
+      expect(mockCheckpointDelete).not.toHaveBeenCalled();
+
+      vi.clearAllMocks();
+      wireUpSuccessPath();
+      mockCheckpointFindMany.mockResolvedValue(checkpoints as never);
+
+      await processDossierJob(createMockJob());
+
+      expect(mockS2References).not.toHaveBeenCalled();
+      expect(mockClaimPaperUpsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          create: {
+            claimId: CLAIM_ID,
+            paperId: "db-Resistan",
+            foundVia: "reference",
+            foundViaPaperId: "db-Creatine",
+          },
+        })
+      );
+    });
+
+    it("clears the checkpoints of a run that finally fails", async () => {
+      wireUpSuccessPath();
+      mockPaperCreate.mockRejectedValue(new Error("DB connection lost"));
+
+      await expect(processDossierJob(createMockJob())).rejects.toThrow();
+
+      expect(mockCheckpointDelete).toHaveBeenCalledWith({ where: { dossierJobId: "dj-1" } });
+    });
+  });
+
+  it("fails a job queued without a DossierJob without touching any run", async () => {
+    wireUpSuccessPath();
+    const job = createMockJob();
+    delete job.data.dossierJobId;
+
+    await expect(processDossierJob(job)).rejects.toThrow("no dossierJobId");
+
+    expect(mockDossierStatus).not.toHaveBeenCalled();
+    expect(mockDossierUpdate).not.toHaveBeenCalled();
+    expect(mockFindUnique).not.toHaveBeenCalled();
+  });
+
+  describe("live events", () => {
+    /** Events published for the run, in order */
+    function publishedEvents() {
+      return mockPublishEvent.mock.calls.map(([dossierJobId, event]) => {
+        expect(dossierJobId).toBe("dj-1");
+        return event;
+      });
+    }
+
+    it("publishes stages, source counts, evidence and the outcome", async () => {
+      wireUpSuccessPath();
+
+      await processDossierJob(createMockJob());
+
+      const events = publishedEvents();
+      expect(events.filter((e) => e.type === "stage").map((e) => e.stage)).toEqual([
+        "PLANNING",
+        "SEARCHING",
+        "STORING",
+        "EMBEDDING",
+        "RETRIEVAL",
+        "EXTRACTION",
+        "SYNTHESIS",
+        "SAVING",
+      ]);
+      expect(events).toContainEqual({
+        type: "stage",
+        stage: "EXTRACTION",
+        label: "Extracting evidence",
+        progress: 60,
+      });
+      const sources = events.find((e) => e.type === "sources");
+      expect(sources).toEqual({
+        type: "sources",
+        counts: expect.arrayContaining([
+          { source: "PubMed", papers: 1 },
+          { source: "arXiv", papers: 1 },
+        ]),
+      });
+      const evidence = events.filter((e) => e.type === "evidence");
+      expect(evidence).toHaveLength(2);
+      expect(evidence[0]).toEqual({
+        type: "evidence",
+        evidence: expect.objectContaining({
+          paperId: "db-Creatine",
+          paperTitle: PUBMED_ARTICLE.title,
+          pmid: "12345",
+          stance: "SUPPORTS",
+          summary: FAKE_EVIDENCE.summary,
+          confidenceScore: 0.85,
+        }),
+      });
+      expect(events.at(-1)).toEqual({ type: "done", outcome: "SUPPORTED" });
+    });
+
+    it("publishes a paper's extraction error and carries on", async () => {
+      wireUpSuccessPath();
+      mockChatCreate.mockReset();
+      mockChatCreate
+        .mockRejectedValueOnce(new Error("Rate limited"))
+        .mockResolvedValueOnce({
+          choices: [{ message: { content: JSON.stringify(FAKE_EVIDENCE) } }],
+        } as never)
+        .mockResolvedValueOnce({
+          choices: [{ message: { content: JSON.stringify(FAKE_VERDICT) } }],
+        } as never);
+
+      await processDossierJob(createMockJob());
+
+      const events = publishedEvents();
+      expect(events).toContainEqual({
+        type: "error",
+        message: expect.stringContaining("Rate limited"),
+        paperTitle: PUBMED_ARTICLE.title,
+      });
+      expect(events.filter((e) => e.type === "evidence")).toHaveLength(1);
+      expect(events.at(-1)).toEqual({ type: "done", outcome: "SUPPORTED" });
+    });
+
+    it("publishes a failed run, saying whether it will be retried", async () => {
+      wireUpSuccessPath();
+      mockPaperCreate.mockRejectedValue(new Error("DB connection lost"));
+      const job = { ...createMockJob(), attemptsMade: 0, opts: { attempts: 3 } };
+
+      await expect(processDossierJob(job)).rejects.toThrow();
+      expect(publishedEvents().at(-1)).toEqual({
+        type: "error",
+        message: "DB connection lost",
+        retrying: true,
+      });
+
+      mockPublishEvent.mockClear();
+      await expect(processDossierJob(createMockJob())).rejects.toThrow();
+      expect(publishedEvents().at(-1)).toEqual({
+        type: "error",
+        message: "DB connection lost",
+        retrying: false,
+      });
+      expect(publishedEvents().some((e) => e.type === "done")).toBe(false);
+    });
+  });
+
   it("skips chunking for papers with short/no abstracts", async () => {
     wireUpSuccessPath();
 
@@ -700,7 +2299,7 @@ describe("processDossierJob", () => {
     await processDossierJob(job);
 
     // Chunking should NOT have been called for this paper
-    expect(mockChunkText).not.toHaveBeenCalled();
+    expect(mockChunkSections).not.toHaveBeenCalled();
     expect(mockGenEmbeddings).not.toHaveBeenCalled();
   });
 });
@@ -0,0 +1,90 @@
+/**
+ * Tests for the paper alert worker (src/workers/paper-alert-worker.ts)
+ *
+ * Mocks Redis, BullMQ and Prisma and checks that alerts are stored only
+ * for users still subscribed, without repeating earlier alerts.
+ */
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+// Mock Redis + BullMQ to prevent connection attempts on import
+vi.mock("@/lib/redis", () => ({
+  createRedisConnection: vi.fn(() => ({})),
+}));
+
+vi.mock("bullmq", () => {
+  class WorkerMock {
+    on = vi.fn();
+    close = vi.fn();
+  }
+  return { Worker: WorkerMock, Job: class {}, Queue: class {} };
+});
+
+vi.mock("@/lib/queue", () => ({
+  QUEUE_NAMES: { PAPER_ALERTS: "paper-alerts" },
+}));
+
+vi.mock("@/lib/prisma", () => ({
+  prisma: {
+    alertSubscription: { findUnique: vi.fn() },
+    paperAlert: { createMany: vi.fn() },
+  },
+}));
+
+import type { Job } from "bullmq";
+import { prisma } from "@/lib/prisma";
+import type { PaperAlertJobData } from "@/lib/queue";
+import { processPaperAlertJob } from "@/workers/paper-alert-worker";
+
+const mockSubscriptionFindUnique = vi.mocked(prisma.alertSubscription.findUnique);
+const mockAlertCreateMany = vi.mocked(prisma.paperAlert.createMany);
+
+function createMockJob(): Job<PaperAlertJobData> {
+  return {
+    id: "alert-dj-1-user-1",
+    data: {
+      claimId: "claim-1",
+      userId: "user-1",
+      dossierJobId: "dj-1",
+      paperIds: ["paper-1", "paper-2"],
+    },
+  } as unknown as Job<PaperAlertJobData>;
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  mockSubscriptionFindUnique.mockResolvedValue({ isActive: true } as never);
+  mockAlertCreateMany.mockResolvedValue({ count: 2 });
+});
+
+describe("processPaperAlertJob", () => {
+  it("stores one alert per paper, skipping ones already sent", async () => {
+    const count = await processPaperAlertJob(createMockJob());
+
+    expect(count).toBe(2);
+    expect(mockAlertCreateMany).toHaveBeenCalledWith({
+      data: [
+        { userId: "user-1", claimId: "claim-1", paperId: "paper-1", dossierJobId: "dj-1" },
+        { userId: "user-1", claimId: "claim-1", paperId: "paper-2", dossierJobId: "dj-1" },
+      ],
+      skipDuplicates: true,
+    });
+  });
+
+  it("skips users who unsubscribed since the run", async () => {
+    mockSubscriptionFindUnique.mockResolvedValue({ isActive: false } as never);
+
+    expect(await processPaperAlertJob(createMockJob())).toBe(0);
+    expect(mockAlertCreateMany).not.toHaveBeenCalled();
+  });
+
+  it("skips users whose subscription is gone", async () => {
+    mockSubscriptionFindUnique.mockResolvedValue(null);
+
+    expect(await processPaperAlertJob(createMockJob())).toBe(0);
+    expect(mockSubscriptionFindUnique).toHaveBeenCalledWith({
+      where: { claimId_userId: { claimId: "claim-1", userId: "user-1" } },
+      select: { isActive: true },
+    });
+  });
+});
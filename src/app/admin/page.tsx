@@ -7,6 +7,8 @@ import { Footer } from "@/components/footer";
 import { AdminClaimRow } from "@/components/admin/claim-row";
 import { AdminCreateClaim } from "@/components/admin/create-claim";
 import { AdminResolveModal } from "@/components/admin/resolve-modal";
+import { AdminSearchPlanModal } from "@/components/admin/search-plan-modal";
+import { AdminCostSummary } from "@/components/admin/cost-summary";
 
 interface Market {
   id: string;
@@ -15,7 +17,11 @@ interface Market {
   noVotes: number;
   totalVotes: number;
   aiVerdict: string | null;
+  aiOutcome?: string | null;
   aiConfidence: number | null;
+  aiRuleConfidence?: number | null;
+  aiConfidenceFlagged?: boolean;
+  retractionFlagged?: boolean;
   consensusSummary: string | null;
   resolvedAt: string | null;
 }
@@ -44,8 +50,11 @@ export default function AdminPage() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [statusFilter, setStatusFilter] = useState<string>("");
+  const [flaggedOnly, setFlaggedOnly] = useState(false);
+  const [retractedOnly, setRetractedOnly] = useState(false);
   const [showCreate, setShowCreate] = useState(false);
   const [resolving, setResolving] = useState<AdminClaim | null>(null);
+  const [editingQueries, setEditingQueries] = useState<AdminClaim | null>(null);
 
   const fetchClaims = useCallback(async () => {
     setLoading(true);
@@ -53,6 +62,8 @@ export default function AdminPage() {
     try {
       const params = new URLSearchParams({ page: String(page), limit: "20" });
       if (statusFilter) params.set("status", statusFilter);
+      if (flaggedOnly) params.set("flagged", "true");
+      if (retractedOnly) params.set("retracted", "true");
 
       const res = await fetch(`/api/admin/claims?${params}`);
       if (!res.ok) {
@@ -68,7 +79,7 @@ export default function AdminPage() {
     } finally {
       setLoading(false);
     }
-  }, [page, statusFilter]);
+  }, [page, statusFilter, flaggedOnly, retractedOnly]);
 
   useEffect(() => {
     if (session?.user?.isAdmin) {
@@ -190,6 +201,9 @@ export default function AdminPage() {
           </div>
         </div>
 
+        {/* LLM spend */}
+        <AdminCostSummary />
+
         {/* Create form */}
         {showCreate && (
           <AdminCreateClaim
@@ -219,6 +233,28 @@ export default function AdminPage() {
             <option value="RESOLVED">Resolved</option>
             <option value="RESEARCHING">Researching</option>
           </select>
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={flaggedOnly}
+              onChange={(e) => {
+                setFlaggedOnly(e.target.checked);
+                setPage(1);
+              }}
+            />
+            Confidence flagged only
+          </label>
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={retractedOnly}
+              onChange={(e) => {
+                setRetractedOnly(e.target.checked);
+                setPage(1);
+              }}
+            />
+            Cites retracted paper only
+          </label>
           <span className="ml-auto text-sm text-muted-foreground">
             {total} claim{total !== 1 ? "s" : ""}
           </span>
@@ -261,6 +297,7 @@ export default function AdminPage() {
                     onDelete={handleDelete}
                     onStatusChange={handleStatusChange}
                     onResolve={() => setResolving(claim)}
+                    onEditQueries={() => setEditingQueries(claim)}
                   />
                 ))}
               </tbody>
@@ -302,6 +339,18 @@ export default function AdminPage() {
             }}
           />
         )}
+
+        {/* Search plan modal */}
+        {editingQueries && (
+          <AdminSearchPlanModal
+            claim={editingQueries}
+            onClose={() => setEditingQueries(null)}
+            onRerun={() => {
+              setEditingQueries(null);
+              fetchClaims();
+            }}
+          />
+        )}
       </main>
       <Footer />
     </div>
@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { adminLimiter } from "@/lib/rate-limit";
+import {
+  awardPredictionReputation,
+  reversePredictionReputation,
+} from "@/lib/reputation-service";
+import { sideToOutcome } from "@/lib/verdicts";
+
+const claimIdSchema = z.string().min(1).max(100);
+
+// ── POST /api/admin/claims/[claimId]/reputation/reverse ─────────────────
+// Admin-only: reverse the prediction reputation awarded when the claim was
+// resolved. If `correctedVerdict` is given, the market verdict is updated
+// and voters are re-scored against it. Stake pools are not re-settled.
+
+const reverseSchema = z.object({
+  reason: z.string().min(3).max(500),
+  correctedVerdict: z.enum(["YES", "NO"]).optional(),
+});
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ claimId: string }> },
+) {
+  const limited = adminLimiter.check(request);
+  if (limited) return limited;
+
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (!session.user.isAdmin) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { claimId: rawId } = await params;
+    const idParse = claimIdSchema.safeParse(rawId);
+    if (!idParse.success) {
+      return NextResponse.json({ error: "Invalid claim ID" }, { status: 400 });
+    }
+    const claimId = idParse.data;
+    const body = await request.json();
+    const parsed = reverseSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.errors[0].message },
+        { status: 400 },
+      );
+    }
+
+    const claim = await prisma.claim.findUnique({
+      where: { id: claimId },
+      include: { market: true },
+    });
+
+    if (!claim) {
+      return NextResponse.json({ error: "Claim not found" }, { status: 404 });
+    }
+
+    if (!claim.market || claim.market.status !== "RESOLVED") {
+      return NextResponse.json(
+        { error: "Claim is not resolved" },
+        { status: 400 },
+      );
+    }
+
+    const { reason, correctedVerdict } = parsed.data;
+
+    const reversal = await reversePredictionReputation(
+      claimId,
+      session.user.id,
+      reason,
+    );
+
+    let reaward = null;
+    if (correctedVerdict) {
+      const resolvedAt = new Date();
+      await prisma.market.update({
+        where: { id: claim.market.id },
+        data: {
+          aiVerdict: correctedVerdict,
+          aiOutcome: sideToOutcome(correctedVerdict),
+          resolvedAt,
+        },
+      });
+      reaward = await awardPredictionReputation(
+        claimId,
+        correctedVerdict,
+        String(resolvedAt.getTime()),
+      );
+    }
+
+    return NextResponse.json({ reversal, reaward });
+  } catch (error) {
+    console.error("[Admin Reverse Reputation] Error:", error);
+    return NextResponse.json(
+      { error: "Failed to reverse reputation" },
+      { status: 500 },
+    );
+  }
+}
@@ -3,17 +3,45 @@ import { z } from "zod";
 import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
 import { adminLimiter } from "@/lib/rate-limit";
+import { settleMarketStakes, voidMarket } from "@/lib/stake-pool";
+import { awardPredictionReputation } from "@/lib/reputation-service";
+import { outcomeToSide, sideToOutcome } from "@/lib/verdicts";
 
 const claimIdSchema = z.string().min(1).max(100);
 
 // ── POST /api/admin/claims/[claimId]/resolve ─────────────────────────────
-// Admin-only: resolve a claim with an AI verdict and confidence score.
-
-const resolveSchema = z.object({
-  aiVerdict: z.enum(["YES", "NO"]),
-  aiConfidence: z.number().min(0).max(1),
-  consensusSummary: z.string().min(10).max(5000),
-});
+// Admin-only: resolve a claim with a four-way outcome and confidence score.
+// `aiVerdict` (YES/NO) is still accepted in place of `outcome`.
+//
+// SUPPORTED / CONTRADICTED: settles the market's stake pools (winners are
+// paid from the losing pool, the house fee is burned, losing holds are
+// forfeited) and every voter gets CORRECT_PREDICTION / WRONG_PREDICTION
+// reputation scaled by difficulty.
+//
+// MIXED / INSUFFICIENT: the market is voided. Every stake and vote cost is
+// refunded and no reputation changes.
+//
+// Settlement and awards are idempotent, so resolving an already-RESOLVED
+// market with the same outcome re-runs them (e.g. after a partial failure)
+// without touching the market. A different outcome is a 409.
+
+const resolveSchema = z
+  .object({
+    outcome: z
+      .enum(["SUPPORTED", "CONTRADICTED", "MIXED", "INSUFFICIENT"])
+      .optional(),
+    aiVerdict: z.enum(["YES", "NO"]).optional(),
+    aiConfidence: z.number().min(0).max(1),
+    consensusSummary: z.string().min(10).max(5000),
+  })
+  .refine((d) => d.outcome || d.aiVerdict, {
+    message: "outcome or aiVerdict is required",
+  })
+  .refine(
+    (d) =>
+      !d.outcome || !d.aiVerdict || outcomeToSide(d.outcome) === d.aiVerdict,
+    { message: "outcome and aiVerdict disagree" },
+  );
 
 export async function POST(
   request: NextRequest,
@@ -64,32 +92,65 @@ export async function POST(
       );
     }
 
-    if (claim.market.status === "RESOLVED") {
-      return NextResponse.json(
-        { error: "Claim is already resolved" },
-        { status: 409 },
-      );
+    const { aiConfidence, consensusSummary } = parsed.data;
+    const outcome = parsed.data.outcome ?? sideToOutcome(parsed.data.aiVerdict!);
+    const aiVerdict = outcomeToSide(outcome);
+    let market = claim.market;
+    let resolvedAt = market.resolvedAt;
+
+    if (market.status === "RESOLVED") {
+      const storedOutcome =
+        market.aiOutcome ??
+        (market.aiVerdict ? sideToOutcome(market.aiVerdict) : null);
+      if (storedOutcome !== outcome) {
+        return NextResponse.json(
+          { error: `Claim is already resolved as ${storedOutcome}` },
+          { status: 409 },
+        );
+      }
+    } else {
+      resolvedAt = new Date();
+
+      // Update market with verdict
+      market = await prisma.market.update({
+        where: { id: market.id },
+        data: {
+          status: "RESOLVED",
+          aiVerdict,
+          aiOutcome: outcome,
+          aiConfidence,
+          consensusSummary,
+          resolvedAt,
+        },
+      });
+
+      // Also set the claim's revealAt to now so results are immediately visible
+      await prisma.claim.update({
+        where: { id: claimId },
+        data: { revealAt: new Date() },
+      });
     }
 
-    const { aiVerdict, aiConfidence, consensusSummary } = parsed.data;
-
-    // Update market with verdict
-    const market = await prisma.market.update({
-      where: { id: claim.market.id },
-      data: {
-        status: "RESOLVED",
-        aiVerdict,
-        aiConfidence,
-        consensusSummary,
-        resolvedAt: new Date(),
-      },
-    });
+    // No winning side — void the market and give everyone their coins back
+    if (!aiVerdict) {
+      const voided = await voidMarket(market.id, claimId);
+      const full = await prisma.claim.findUnique({
+        where: { id: claimId },
+        include: { market: true },
+      });
+      return NextResponse.json({ ...full, voided });
+    }
 
-    // Also set the claim's revealAt to now so results are immediately visible
-    await prisma.claim.update({
-      where: { id: claimId },
-      data: { revealAt: new Date() },
-    });
+    // Pay out stake pools against the final verdict
+    const settlement = await settleMarketStakes(market.id, aiVerdict);
+
+    // Score every voter against the verdict; keyed on the stored resolution
+    // so a re-run doesn't award twice
+    const reputation = await awardPredictionReputation(
+      claimId,
+      aiVerdict,
+      resolvedAt ? String(resolvedAt.getTime()) : market.id,
+    );
 
     // Return full updated claim
     const full = await prisma.claim.findUnique({
@@ -97,7 +158,7 @@ export async function POST(
       include: { market: true },
     });
 
-    return NextResponse.json(full);
+    return NextResponse.json({ ...full, settlement, reputation });
   } catch (error) {
     console.error("[Admin Resolve Claim] Error:", error);
     return NextResponse.json(
@@ -0,0 +1,192 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { Prisma } from "@prisma/client";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { findActiveDossierJob, startDossierJob } from "@/lib/dossier-jobs";
+import { adminLimiter } from "@/lib/rate-limit";
+import {
+  fallbackSearchPlan,
+  paperSourcesSchema,
+  resolvePaperSourceIds,
+  searchPlanSchema,
+  searchQueriesSchema,
+  type SearchPlan,
+} from "@/lib/search-plan";
+
+const claimIdSchema = z.string().min(1).max(100);
+
+/** Edited queries, plus the claim's paper sources when they change */
+const rerunSchema = searchQueriesSchema.extend({
+  paperSources: paperSourcesSchema.optional(),
+});
+
+/** Latest dossier run that recorded a search plan */
+async function findLatestPlan(claimId: string) {
+  const job = await prisma.dossierJob.findFirst({
+    where: { claimId, searchPlan: { not: Prisma.AnyNull } },
+    orderBy: { createdAt: "desc" },
+    select: { id: true, status: true, createdAt: true, searchPlan: true },
+  });
+  const plan = searchPlanSchema.safeParse(job?.searchPlan);
+  return job && plan.success ? { job, plan: plan.data } : null;
+}
+
+// ── GET /api/admin/claims/[claimId]/search-plan ─────────────────────────
+// Admin-only: the queries the latest dossier run searched with, and the
+// paper sources the claim searches. Before any run has planned, returns the
+// title-based fallback plan with jobId null.
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ claimId: string }> },
+) {
+  const limited = adminLimiter.check(request);
+  if (limited) return limited;
+
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (!session.user.isAdmin) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { claimId: rawId } = await params;
+    const idParse = claimIdSchema.safeParse(rawId);
+    if (!idParse.success) {
+      return NextResponse.json({ error: "Invalid claim ID" }, { status: 400 });
+    }
+    const claimId = idParse.data;
+
+    const claim = await prisma.claim.findUnique({
+      where: { id: claimId },
+      select: { id: true, title: true, paperSources: true },
+    });
+    if (!claim) {
+      return NextResponse.json({ error: "Claim not found" }, { status: 404 });
+    }
+
+    const latest = await findLatestPlan(claimId);
+
+    return NextResponse.json({
+      jobId: latest?.job.id ?? null,
+      status: latest?.job.status ?? null,
+      createdAt: latest?.job.createdAt ?? null,
+      searchPlan: latest?.plan ?? fallbackSearchPlan(claim.title),
+      paperSources: resolvePaperSourceIds(claim.paperSources),
+    });
+  } catch (error) {
+    console.error("[Admin Search Plan] Error:", error);
+    return NextResponse.json(
+      { error: "Failed to load search plan" },
+      { status: 500 },
+    );
+  }
+}
+
+// ── POST /api/admin/claims/[claimId]/search-plan ────────────────────────
+// Admin-only: re-run the dossier with edited queries. The plan is stored on
+// the new DossierJob up front, so the worker searches with it instead of
+// planning again. The previous run's PICO breakdown is kept for reference.
+// `paperSources`, when sent, replaces the claim's sources for this and
+// later runs. A resolved claim's outcome is settled, so it can't be re-run
+// (409).
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ claimId: string }> },
+) {
+  const limited = adminLimiter.check(request);
+  if (limited) return limited;
+
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (!session.user.isAdmin) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { claimId: rawId } = await params;
+    const idParse = claimIdSchema.safeParse(rawId);
+    if (!idParse.success) {
+      return NextResponse.json({ error: "Invalid claim ID" }, { status: 400 });
+    }
+    const claimId = idParse.data;
+    const body = await request.json();
+    const parsed = rerunSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.errors[0].message },
+        { status: 400 },
+      );
+    }
+
+    const claim = await prisma.claim.findUnique({
+      where: { id: claimId },
+      select: {
+        id: true,
+        paperSources: true,
+        market: { select: { status: true } },
+      },
+    });
+    if (!claim) {
+      return NextResponse.json({ error: "Claim not found" }, { status: 404 });
+    }
+    if (claim.market?.status === "RESOLVED") {
+      return NextResponse.json(
+        { error: "A resolved claim can't be re-run" },
+        { status: 409 },
+      );
+    }
+
+    const activeJob = await findActiveDossierJob(claimId);
+    if (activeJob) {
+      return NextResponse.json(
+        { error: "Research is already in progress for this claim" },
+        { status: 409 },
+      );
+    }
+
+    const { paperSources, ...queries } = parsed.data;
+    if (paperSources !== undefined) {
+      await prisma.claim.update({
+        where: { id: claimId },
+        data: { paperSources },
+      });
+    }
+
+    const latest = await findLatestPlan(claimId);
+    const searchPlan: SearchPlan = {
+      ...queries,
+      source: "admin",
+      pico: latest?.plan.pico ?? null,
+    };
+
+    const dossierJob = await startDossierJob({
+      claimId,
+      triggeredBy: session.user.id,
+      searchPlan,
+    });
+
+    return NextResponse.json(
+      {
+        jobId: dossierJob.id,
+        status: "QUEUED",
+        searchPlan,
+        paperSources: resolvePaperSourceIds(paperSources ?? claim.paperSources),
+      },
+      { status: 201 },
+    );
+  } catch (error) {
+    console.error("[Admin Search Plan Rerun] Error:", error);
+    return NextResponse.json(
+      { error: "Failed to re-run research" },
+      { status: 500 },
+    );
+  }
+}
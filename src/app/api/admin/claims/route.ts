@@ -6,12 +6,18 @@ import { adminLimiter } from "@/lib/rate-limit";
 
 const adminListSchema = z.object({
   status: z.enum(["RESEARCHING", "ACTIVE", "RESOLVED"]).optional(),
+  flagged: z.enum(["true", "false"]).optional(),
+  retracted: z.enum(["true", "false"]).optional(),
   page: z.coerce.number().int().min(1).default(1),
   limit: z.coerce.number().int().min(1).max(50).default(50),
 });
 
 // ── GET /api/admin/claims ────────────────────────────────────────────────
 // Admin-only: list all claims with full market details + stats.
+// `flagged=true` keeps claims whose latest verdict confidence disagrees with
+// the evidence-weight confidence (see src/lib/evidence-grading.ts);
+// `retracted=true` keeps resolved claims whose verdict cites a paper since
+// retracted (see src/lib/retraction-check.ts).
 
 export async function GET(request: NextRequest) {
   const limited = adminLimiter.check(request);
@@ -36,12 +42,16 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    const { status, page, limit } = parsed.data;
+    const { status, flagged, retracted, page, limit } = parsed.data;
     const skip = (page - 1) * limit;
 
     const where: Record<string, unknown> = {};
-    if (status) {
-      where.market = { status };
+    if (status || flagged === "true" || retracted === "true") {
+      where.market = {
+        ...(status && { status }),
+        ...(flagged === "true" && { aiConfidenceFlagged: true }),
+        ...(retracted === "true" && { retractionFlagged: true }),
+      };
     }
 
     const [claims, total] = await Promise.all([
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { getCostSummary } from "@/lib/llm-costs";
+import { adminLimiter } from "@/lib/rate-limit";
+
+// ── GET /api/admin/costs ─────────────────────────────────────────────────
+// Admin-only: LLM and embedding spend from the dossier cost ledger — today,
+// this month, the last 30 days and 12 months, this month by stage, and the
+// configured budgets (see src/lib/llm-costs.ts).
+
+export async function GET(request: NextRequest) {
+  const limited = adminLimiter.check(request);
+  if (limited) return limited;
+
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (!session.user.isAdmin) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    return NextResponse.json(await getCostSummary());
+  } catch (error) {
+    console.error("[Admin Costs] Error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch costs" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { actionLimiter, readLimiter } from "@/lib/rate-limit";
+
+const alertsQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+  unread: z.enum(["true", "false"]).optional(),
+});
+
+const markReadSchema = z.object({
+  /** Alerts to mark read; all of the user's unread alerts when omitted */
+  ids: z.array(z.string().min(1).max(100)).min(1).max(100).optional(),
+});
+
+/**
+ * GET /api/alerts
+ *
+ * Get the user's new-paper alerts, newest first (see src/lib/paper-alerts.ts)
+ * Query params: limit, offset, unread
+ */
+export async function GET(request: NextRequest) {
+  const limited = readLimiter.check(request);
+  if (limited) return limited;
+
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const params = Object.fromEntries(request.nextUrl.searchParams);
+    const parsed = alertsQuerySchema.safeParse(params);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.errors[0].message },
+        { status: 400 }
+      );
+    }
+
+    const { limit, offset, unread } = parsed.data;
+    const userId = session.user.id;
+
+    const [alerts, unreadCount] = await Promise.all([
+      prisma.paperAlert.findMany({
+        where: { userId, ...(unread === "true" && { readAt: null }) },
+        orderBy: { createdAt: "desc" },
+        take: limit,
+        skip: offset,
+        select: {
+          id: true,
+          readAt: true,
+          createdAt: true,
+          claim: { select: { id: true, title: true } },
+          paper: {
+            select: {
+              id: true,
+              title: true,
+              doi: true,
+              journal: true,
+              publishedYear: true,
+            },
+          },
+        },
+      }),
+      prisma.paperAlert.count({ where: { userId, readAt: null } }),
+    ]);
+
+    return NextResponse.json({ alerts, unreadCount });
+  } catch (error) {
+    console.error("[Alerts] Error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch alerts" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/alerts
+ *
+ * Mark alerts read
+ * Body: { ids?: string[] }
+ */
+export async function PATCH(request: NextRequest) {
+  const limited = actionLimiter.check(request);
+  if (limited) return limited;
+
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const parsed = markReadSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.errors[0].message },
+        { status: 400 }
+      );
+    }
+
+    const { ids } = parsed.data;
+    const { count } = await prisma.paperAlert.updateMany({
+      where: {
+        userId: session.user.id,
+        readAt: null,
+        ...(ids && { id: { in: ids } }),
+      },
+      data: { readAt: new Date() },
+    });
+
+    return NextResponse.json({ marked: count });
+  } catch (error) {
+    console.error("[Alerts Mark Read] Error:", error);
+    return NextResponse.json(
+      { error: "Failed to mark alerts read" },
+      { status: 500 }
+    );
+  }
+}
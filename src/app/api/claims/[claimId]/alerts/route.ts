@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { actionLimiter, readLimiter } from "@/lib/rate-limit";
+
+const claimIdSchema = z.string().min(1).max(100);
+
+// ── /api/claims/[claimId]/alerts ───────────────────────────────────────────
+// Authenticated users: subscribe to alerts about new papers that might
+// change the claim's verdict (src/lib/paper-alerts.ts). GET reports whether
+// the user is subscribed, POST subscribes, DELETE unsubscribes. POST and
+// DELETE are idempotent.
+
+async function resolveClaimId(
+  params: Promise<{ claimId: string }>,
+): Promise<string | null> {
+  const { claimId: rawId } = await params;
+  const idParse = claimIdSchema.safeParse(rawId);
+  return idParse.success ? idParse.data : null;
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ claimId: string }> },
+) {
+  const limited = readLimiter.check(request);
+  if (limited) return limited;
+
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const claimId = await resolveClaimId(params);
+    if (!claimId) {
+      return NextResponse.json({ error: "Invalid claim ID" }, { status: 400 });
+    }
+
+    const subscription = await prisma.alertSubscription.findUnique({
+      where: { claimId_userId: { claimId, userId: session.user.id } },
+      select: { isActive: true },
+    });
+
+    return NextResponse.json({ subscribed: subscription?.isActive ?? false });
+  } catch (error) {
+    console.error("[Claim Alerts] Error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch alert subscription" },
+      { status: 500 },
+    );
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ claimId: string }> },
+) {
+  const limited = actionLimiter.check(request);
+  if (limited) return limited;
+
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const claimId = await resolveClaimId(params);
+    if (!claimId) {
+      return NextResponse.json({ error: "Invalid claim ID" }, { status: 400 });
+    }
+
+    const claim = await prisma.claim.findUnique({
+      where: { id: claimId },
+      select: { id: true },
+    });
+    if (!claim) {
+      return NextResponse.json({ error: "Claim not found" }, { status: 404 });
+    }
+
+    const userId = session.user.id;
+    await prisma.alertSubscription.upsert({
+      where: { claimId_userId: { claimId, userId } },
+      create: { claimId, userId },
+      update: { isActive: true },
+    });
+
+    return NextResponse.json({ subscribed: true });
+  } catch (error) {
+    console.error("[Claim Alerts Subscribe] Error:", error);
+    return NextResponse.json(
+      { error: "Failed to subscribe" },
+      { status: 500 },
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ claimId: string }> },
+) {
+  const limited = actionLimiter.check(request);
+  if (limited) return limited;
+
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const claimId = await resolveClaimId(params);
+    if (!claimId) {
+      return NextResponse.json({ error: "Invalid claim ID" }, { status: 400 });
+    }
+
+    // Kept as inactive rather than deleted, like a resolved subscription
+    await prisma.alertSubscription.updateMany({
+      where: { claimId, userId: session.user.id },
+      data: { isActive: false },
+    });
+
+    return NextResponse.json({ subscribed: false });
+  } catch (error) {
+    console.error("[Claim Alerts Unsubscribe] Error:", error);
+    return NextResponse.json(
+      { error: "Failed to unsubscribe" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { readLimiter } from "@/lib/rate-limit";
+import { effectEstimateSchema } from "@/lib/prompts";
+import { buildForestPlots, type ForestStudyInput } from "@/lib/effect-sizes";
+import { excludeSupersededPreprints } from "@/lib/papers";
+
+const claimIdSchema = z.string().min(1).max(100);
+
+// ── GET /api/claims/[claimId]/effects ──────────────────────────────────────
+// Returns forest-plot data for a claim: every extracted study with a
+// structured effect estimate, normalised and grouped into one plot per
+// scale (see src/lib/effect-sizes.ts). Studies with no estimate, or one that
+// cannot be normalised, are left out.
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ claimId: string }> },
+) {
+  const limited = readLimiter.check(request);
+  if (limited) return limited;
+
+  try {
+    const { claimId: rawId } = await params;
+    const idParse = claimIdSchema.safeParse(rawId);
+    if (!idParse.success) {
+      return NextResponse.json({ error: "Invalid claim ID" }, { status: 400 });
+    }
+    const claimId = idParse.data;
+
+    const claim = await prisma.claim.findUnique({
+      where: { id: claimId },
+      select: { id: true },
+    });
+
+    if (!claim) {
+      return NextResponse.json({ error: "Claim not found" }, { status: 404 });
+    }
+
+    const claimPapers = await prisma.claimPaper.findMany({
+      where: {
+        claimId,
+        ...excludeSupersededPreprints(claimId),
+        aiSummary: { not: null },
+        effectMeasure: { not: null },
+        effectValue: { not: null },
+      },
+      select: {
+        id: true,
+        studyType: true,
+        stance: true,
+        sampleSize: true,
+        effectMeasure: true,
+        effectValue: true,
+        effectCiLower: true,
+        effectCiUpper: true,
+        paper: { select: { id: true, title: true, publishedYear: true } },
+      },
+    });
+
+    const studies: ForestStudyInput[] = [];
+    for (const cp of claimPapers) {
+      // Columns are free-form strings; skip anything the extraction schema
+      // would not have produced
+      const effect = effectEstimateSchema.safeParse({
+        measure: cp.effectMeasure,
+        value: cp.effectValue,
+        ciLower: cp.effectCiLower,
+        ciUpper: cp.effectCiUpper,
+      });
+      if (!effect.success) continue;
+
+      studies.push({
+        claimPaperId: cp.id,
+        paperId: cp.paper.id,
+        paperTitle: cp.paper.title,
+        publishedYear: cp.paper.publishedYear,
+        studyType: cp.studyType,
+        stance: cp.stance,
+        sampleSize: cp.sampleSize,
+        effect: effect.data,
+      });
+    }
+
+    const plots = buildForestPlots(studies);
+
+    return NextResponse.json({
+      claimId,
+      count: plots.reduce((total, plot) => total + plot.studies.length, 0),
+      plots,
+    });
+  } catch (error) {
+    console.error("[Effects] Error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch effects" },
+      { status: 500 },
+    );
+  }
+}
@@ -1,19 +1,36 @@
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
+import type { Prisma } from "@prisma/client";
 import { prisma } from "@/lib/prisma";
 import { readLimiter } from "@/lib/rate-limit";
+import { excludeSupersededPreprints } from "@/lib/papers";
 
 const claimIdSchema = z.string().min(1).max(100);
 
 const querySchema = z.object({
-  sort: z.enum(["relevance", "recency", "studyType"]).default("relevance"),
+  sort: z
+    .enum(["relevance", "recency", "studyType", "effectSize"])
+    .default("relevance"),
   stance: z.enum(["SUPPORTS", "REFUTES", "NEUTRAL"]).optional(),
+  studyType: z.string().min(1).max(50).optional(),
+  effectMeasure: z
+    .enum(["SMD", "MD", "PERCENT_CHANGE", "RR", "OR", "HR", "OTHER"])
+    .optional(),
+  hasEffect: z.enum(["true", "false"]).optional(),
+  minRelevance: z.coerce.number().min(0).max(1).optional(),
 });
 
 // ── GET /api/claims/[claimId]/evidence ─────────────────────────────────────
 // Returns evidence cards (ClaimPaper records) for a claim.
 // Each card includes: paper title, year, study type, stance, AI summary,
-// confidence, sample size.
+// confidence, sample size, population, duration and the reported effect
+// (free text plus a structured measure/value/CI when extracted), and for
+// papers found by citation snowballing, `foundVia`: the link and the review
+// it was found from. `retraction` is set for papers retracted or under an
+// expression of concern since their evidence was extracted.
+// Filters: stance, studyType, effectMeasure, hasEffect, minRelevance.
+// `sort=effectSize` orders by effect value, largest first; mix measures
+// with care (an RR of 1.2 and an SMD of 1.2 are not comparable).
 
 export async function GET(
   request: NextRequest,
@@ -39,7 +56,8 @@ export async function GET(
         { status: 400 },
       );
     }
-    const { sort, stance } = qParse.data;
+    const { sort, stance, studyType, effectMeasure, hasEffect, minRelevance } =
+      qParse.data;
 
     // Verify claim exists
     const claim = await prisma.claim.findUnique({
@@ -52,15 +70,33 @@ export async function GET(
     }
 
     // Build filter
-    const where: Record<string, unknown> = { claimId };
+    // A preprint whose published version is also listed is shown once
+    const where: Prisma.ClaimPaperWhereInput = {
+      claimId,
+      ...excludeSupersededPreprints(claimId),
+    };
     if (stance) {
       where.stance = stance;
     }
+    if (studyType) {
+      where.studyType = studyType;
+    }
+    if (effectMeasure) {
+      where.effectMeasure = effectMeasure;
+    }
+    if (hasEffect) {
+      where.effectValue = hasEffect === "true" ? { not: null } : null;
+    }
+    if (minRelevance !== undefined) {
+      where.relevanceScore = { gte: minRelevance };
+    }
     // Only return papers that have been processed (have an AI summary)
     where.aiSummary = { not: null };
 
     // Build sort order
-    let orderBy: Record<string, string>;
+    let orderBy:
+      | Prisma.ClaimPaperOrderByWithRelationInput
+      | Prisma.ClaimPaperOrderByWithRelationInput[];
     switch (sort) {
       case "recency":
         orderBy = { createdAt: "desc" };
@@ -68,6 +104,12 @@ export async function GET(
       case "studyType":
         orderBy = { studyType: "asc" };
         break;
+      case "effectSize":
+        orderBy = [
+          { effectValue: { sort: "desc", nulls: "last" } },
+          { confidenceScore: "desc" },
+        ];
+        break;
       case "relevance":
       default:
         orderBy = { confidenceScore: "desc" };
@@ -89,8 +131,11 @@ export async function GET(
             publishedYear: true,
             authors: true,
             fullTextUrl: true,
+            retractionStatus: true,
+            retractionNoticeUrl: true,
           },
         },
+        foundViaPaper: { select: { id: true, title: true } },
       },
     });
 
@@ -110,8 +155,37 @@ export async function GET(
       summary: cp.aiSummary,
       abstractSnippet: cp.abstractSnippet,
       sampleSize: cp.sampleSize,
+      population: cp.population,
+      duration: cp.duration,
+      effectSize: cp.effectSize,
+      effect:
+        cp.effectMeasure && cp.effectValue !== null
+          ? {
+              measure: cp.effectMeasure,
+              value: cp.effectValue,
+              ciLower: cp.effectCiLower,
+              ciUpper: cp.effectCiUpper,
+            }
+          : null,
+      pValue: cp.pValue,
+      limitations: cp.limitations,
+      relevanceScore: cp.relevanceScore,
       confidenceScore: cp.confidenceScore,
       extractionVersion: cp.extractionVersion,
+      foundVia: cp.foundVia
+        ? {
+            link: cp.foundVia,
+            paperId: cp.foundViaPaper?.id ?? null,
+            paperTitle: cp.foundViaPaper?.title ?? null,
+          }
+        : null,
+      retraction:
+        cp.paper.retractionStatus !== "NONE"
+          ? {
+              status: cp.paper.retractionStatus,
+              noticeUrl: cp.paper.retractionNoticeUrl,
+            }
+          : null,
       createdAt: cp.createdAt,
     }));
 
@@ -0,0 +1,189 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import type { DossierStage, JobStatus } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { readLimiter } from "@/lib/rate-limit";
+import { getStageLabel } from "@/lib/dossier-stages";
+import {
+  atSubscriberLimit,
+  isFinalEvent,
+  subscribeDossierEvents,
+  type DossierEvent,
+} from "@/lib/dossier-events";
+
+const claimIdSchema = z.string().min(1).max(100);
+
+/** How often to send a comment line so proxies keep an idle stream open */
+const HEARTBEAT_MS = 15_000;
+
+const jobSelect = {
+  id: true,
+  status: true,
+  progress: true,
+  stage: true,
+  error: true,
+} as const;
+
+interface JobRow {
+  id: string;
+  status: JobStatus;
+  progress: number;
+  stage: DossierStage | null;
+  error: string | null;
+}
+
+function isFinished(status: JobStatus): boolean {
+  return status === "SUCCEEDED" || status === "FAILED";
+}
+
+/** The job as the status route reports it, so the client can start from it */
+function snapshotEvent(job: JobRow) {
+  return {
+    type: "snapshot" as const,
+    jobId: job.id,
+    status: job.status,
+    progress: job.progress,
+    stage: job.stage,
+    stepLabel: getStageLabel(job.status, job.stage),
+    error: job.error,
+  };
+}
+
+// Unnamed SSE messages: a named "error" event would be indistinguishable
+// from EventSource's own connection errors on the client
+function formatMessage(data: unknown): string {
+  return `data: ${JSON.stringify(data)}\n\n`;
+}
+
+// ── GET /api/claims/[claimId]/research/events ──────────────────────────────
+// Stream the latest dossier job's progress as Server-Sent Events.
+// Sends a snapshot of the job, then the worker's live events (stage, sources,
+// evidence, error, done) until the run finishes or the client disconnects.
+// Each message is JSON with a `type`. A finished job gets only its snapshot.
+// Returns 503 while the process serves its most live listeners; the client
+// polls the status route instead.
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ claimId: string }> },
+) {
+  const limited = readLimiter.check(request);
+  if (limited) return limited;
+
+  try {
+    const { claimId: rawId } = await params;
+    const idParse = claimIdSchema.safeParse(rawId);
+    if (!idParse.success) {
+      return NextResponse.json({ error: "Invalid claim ID" }, { status: 400 });
+    }
+    const claimId = idParse.data;
+
+    const job = await prisma.dossierJob.findFirst({
+      where: { claimId },
+      orderBy: { createdAt: "desc" },
+      select: jobSelect,
+    });
+    if (!job) {
+      return NextResponse.json(
+        { error: "No research has been started" },
+        { status: 404 },
+      );
+    }
+
+    if (!isFinished(job.status) && atSubscriberLimit()) {
+      return NextResponse.json(
+        { error: "Too many live connections; poll the research status" },
+        { status: 503, headers: { "Retry-After": "30" } },
+      );
+    }
+
+    const encoder = new TextEncoder();
+    let closed = false;
+    let heartbeat: ReturnType<typeof setInterval> | undefined;
+    let unsubscribe: (() => Promise<void>) | null = null;
+    let stop = () => {};
+
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const write = (chunk: string) => {
+          if (!closed) controller.enqueue(encoder.encode(chunk));
+        };
+        stop = () => {
+          if (closed) return;
+          closed = true;
+          clearInterval(heartbeat);
+          request.signal.removeEventListener("abort", stop);
+          void unsubscribe?.();
+          try {
+            controller.close();
+          } catch {
+            // Already cancelled by the client
+          }
+        };
+        request.signal.addEventListener("abort", stop);
+
+        // Events that arrive before the snapshot is sent
+        let pending: DossierEvent[] | null = [];
+        const send = (event: DossierEvent) => {
+          write(formatMessage(event));
+          if (isFinalEvent(event)) stop();
+        };
+
+        try {
+          let current: JobRow = job;
+          if (!isFinished(job.status)) {
+            unsubscribe = await subscribeDossierEvents(job.id, (event) => {
+              if (pending) pending.push(event);
+              else send(event);
+            });
+            if (closed) {
+              await unsubscribe();
+              return;
+            }
+            // Re-read after subscribing so no event falls between the two
+            current =
+              (await prisma.dossierJob.findUnique({
+                where: { id: job.id },
+                select: jobSelect,
+              })) ?? job;
+          }
+
+          write(formatMessage(snapshotEvent(current)));
+          if (isFinished(current.status)) {
+            stop();
+            return;
+          }
+          const buffered = pending;
+          pending = null;
+          buffered.forEach(send);
+          if (!closed) {
+            heartbeat = setInterval(() => write(": keep-alive\n\n"), HEARTBEAT_MS);
+          }
+        } catch (error) {
+          // The client falls back to polling the status route
+          console.error("[Research Events] Error:", error);
+          stop();
+        }
+      },
+      cancel() {
+        stop();
+      },
+    });
+
+    return new NextResponse(stream, {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache, no-transform",
+        Connection: "keep-alive",
+        // Stop nginx buffering the stream
+        "X-Accel-Buffering": "no",
+      },
+    });
+  } catch (error) {
+    console.error("[Research Events] Error:", error);
+    return NextResponse.json(
+      { error: "Failed to stream research events" },
+      { status: 500 },
+    );
+  }
+}
@@ -2,14 +2,21 @@ import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
-import { enqueueDossierJob } from "@/lib/queue";
+import { findActiveDossierJob, startDossierJob } from "@/lib/dossier-jobs";
 import { actionLimiter } from "@/lib/rate-limit";
 
 const claimIdSchema = z.string().min(1).max(100);
 
+const researchSchema = z.object({
+  mode: z.enum(["FULL", "INCREMENTAL"]).default("FULL"),
+});
+
 // ── POST /api/claims/[claimId]/research ────────────────────────────────────
 // Trigger dossier generation for a claim.
 // Admin-only for now; enqueues a BullMQ job and returns the DossierJob ID.
+// Body (optional): { mode: "FULL" | "INCREMENTAL" }. An incremental run only
+// looks at papers that appeared since the last dossier. A resolved claim's
+// outcome is settled, so it only takes incremental runs (409 otherwise).
 
 export async function POST(
   request: NextRequest,
@@ -35,23 +42,35 @@ export async function POST(
     }
     const claimId = idParse.data;
 
+    // No body starts a full run
+    const body = await request.json().catch(() => ({}));
+    const parsed = researchSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.errors[0].message },
+        { status: 400 },
+      );
+    }
+
     // Verify claim exists
     const claim = await prisma.claim.findUnique({
       where: { id: claimId },
-      select: { id: true },
+      select: { id: true, market: { select: { status: true } } },
     });
 
     if (!claim) {
       return NextResponse.json({ error: "Claim not found" }, { status: 404 });
     }
 
+    if (parsed.data.mode === "FULL" && claim.market?.status === "RESOLVED") {
+      return NextResponse.json(
+        { error: "A resolved claim can only be refreshed incrementally" },
+        { status: 409 },
+      );
+    }
+
     // Check for an already running/queued job
-    const existingJob = await prisma.dossierJob.findFirst({
-      where: {
-        claimId,
-        status: { in: ["QUEUED", "RUNNING"] },
-      },
-    });
+    const existingJob = await findActiveDossierJob(claimId);
 
     if (existingJob) {
       return NextResponse.json({
@@ -61,21 +80,17 @@ export async function POST(
       });
     }
 
-    // Create DossierJob record
-    const dossierJob = await prisma.dossierJob.create({
-      data: {
-        claimId,
-        requestHash: `research-${claimId}-${Date.now()}`,
-      },
+    const dossierJob = await startDossierJob({
+      claimId,
+      triggeredBy: session.user.id,
+      mode: parsed.data.mode,
     });
 
-    // Enqueue BullMQ job
-    await enqueueDossierJob(claimId, session.user.id);
-
     return NextResponse.json(
       {
         jobId: dossierJob.id,
         status: "QUEUED",
+        mode: dossierJob.mode,
         message: "Research started",
       },
       { status: 201 },
@@ -2,12 +2,14 @@ import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 import { prisma } from "@/lib/prisma";
 import { readLimiter } from "@/lib/rate-limit";
+import { getStageLabel } from "@/lib/dossier-stages";
 
 const claimIdSchema = z.string().min(1).max(100);
 
 // ── GET /api/claims/[claimId]/research/status ──────────────────────────────
 // Poll dossier job progress for a claim.
-// Returns the latest job's status, progress (0-100), and any error.
+// Returns the latest job's status, pipeline stage, progress (0-100), and any
+// error.
 
 export async function GET(
   request: NextRequest,
@@ -32,6 +34,7 @@ export async function GET(
         id: true,
         status: true,
         progress: true,
+        stage: true,
         error: true,
         startedAt: true,
         finishedAt: true,
@@ -45,14 +48,12 @@ export async function GET(
       );
     }
 
-    // Build step label from progress
-    const stepLabel = getStepLabel(job.progress);
-
     return NextResponse.json({
       jobId: job.id,
       status: job.status,
       progress: job.progress,
-      stepLabel,
+      stage: job.stage,
+      stepLabel: getStageLabel(job.status, job.stage),
       error: job.error,
       startedAt: job.startedAt,
       finishedAt: job.finishedAt,
@@ -66,20 +67,3 @@ export async function GET(
     );
   }
 }
-
-/**
- * Map progress percentage to a human-readable step label.
- */
-function getStepLabel(progress: number): string {
-  if (progress < 10) return "Queued";
-  if (progress < 15) return "Loading claim";
-  if (progress < 25) return "Searching papers";
-  if (progress < 30) return "Deduplicating results";
-  if (progress < 40) return "Storing papers";
-  if (progress < 55) return "Generating embeddings";
-  if (progress < 60) return "Finding relevant passages";
-  if (progress < 85) return "Extracting evidence";
-  if (progress < 95) return "Synthesizing verdict";
-  if (progress < 100) return "Saving results";
-  return "Complete";
-}
@@ -3,12 +3,14 @@ import { z } from "zod";
 import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
 import { readLimiter } from "@/lib/rate-limit";
+import { excludeSupersededPreprints } from "@/lib/papers";
+import { citationSelect, formatCitations } from "@/lib/verdicts";
 
 const claimIdSchema = z.string().min(1).max(100);
 
 // ── GET /api/claims/[claimId] ──────────────────────────────────────────────
-// Public: get a single claim with market data and (optionally) the
-// current user's vote status.
+// Public: get a single claim with market data, the citations behind the
+// latest verdict's summary, and (optionally) the current user's vote status.
 
 export async function GET(
   request: NextRequest,
@@ -42,8 +44,10 @@ export async function GET(
           },
         },
         claimPapers: {
+          where: excludeSupersededPreprints(claimId),
           select: {
             id: true,
+            paperId: true,
             stance: true,
             aiSummary: true,
             studyType: true,
@@ -60,6 +64,11 @@ export async function GET(
           orderBy: { createdAt: "desc" },
           take: 10,
         },
+        verdicts: {
+          orderBy: { version: "desc" },
+          take: 1,
+          select: { citations: { select: citationSelect } },
+        },
       },
     });
 
@@ -84,7 +93,10 @@ export async function GET(
       userVote = vote;
     }
 
-    return NextResponse.json({ ...claim, userVote });
+    const { verdicts, ...detail } = claim;
+    const citations = formatCitations(verdicts[0]?.citations ?? []);
+
+    return NextResponse.json({ ...detail, citations, userVote });
   } catch (error) {
     console.error("[Claim Detail] Error:", error);
     return NextResponse.json(
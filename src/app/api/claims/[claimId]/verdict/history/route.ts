@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { readLimiter } from "@/lib/rate-limit";
+import { buildVerdictHistory } from "@/lib/verdicts";
+
+const claimIdSchema = z.string().min(1).max(100);
+
+// ── GET /api/claims/[claimId]/verdict/history ───────────────────────────
+// Returns every stored verdict version for a claim, oldest first: outcome,
+// confidence, evidence/paper counts, and the papers added and removed
+// since the previous version. Summaries stay behind /verdict's unlock tier.
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ claimId: string }> },
+) {
+  const limited = readLimiter.check(request);
+  if (limited) return limited;
+
+  try {
+    const { claimId: rawId } = await params;
+    const idParse = claimIdSchema.safeParse(rawId);
+    if (!idParse.success) {
+      return NextResponse.json({ error: "Invalid claim ID" }, { status: 400 });
+    }
+    const claimId = idParse.data;
+
+    const claim = await prisma.claim.findUnique({
+      where: { id: claimId },
+      select: { id: true },
+    });
+
+    if (!claim) {
+      return NextResponse.json({ error: "Claim not found" }, { status: 404 });
+    }
+
+    const versions = await prisma.verdict.findMany({
+      where: { claimId },
+      orderBy: { version: "asc" },
+      select: {
+        version: true,
+        outcome: true,
+        confidence: true,
+        evidenceCount: true,
+        paperIds: true,
+        createdAt: true,
+      },
+    });
+
+    const allPaperIds = [...new Set(versions.flatMap((v) => v.paperIds))];
+    const papers =
+      allPaperIds.length > 0
+        ? await prisma.paper.findMany({
+            where: { id: { in: allPaperIds } },
+            select: { id: true, title: true },
+          })
+        : [];
+
+    const history = buildVerdictHistory(
+      versions,
+      new Map(papers.map((p) => [p.id, p.title])),
+    );
+
+    return NextResponse.json({ claimId, versions: history });
+  } catch (error) {
+    console.error("[Verdict History] Error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch verdict history" },
+      { status: 500 },
+    );
+  }
+}
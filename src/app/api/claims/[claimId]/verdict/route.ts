@@ -1,17 +1,25 @@
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
+import type { VerdictOutcome } from "@prisma/client";
 import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
 import { readLimiter } from "@/lib/rate-limit";
+import { formatCitations, getLatestVerdict } from "@/lib/verdicts";
 
 const claimIdSchema = z.string().min(1).max(100);
 
 // ── GET /api/claims/[claimId]/verdict ──────────────────────────────────────
 // Returns the AI verdict for a claim.
 //
-// Free tier: short summary + verdict + confidence + strength.
-// Unlocked (5 coins via /unlock-analysis): adds detailed summary, caveats,
-// "what would change verdict", and recommended action.
+// Free tier: short summary + verdict + confidence + strength + direction.
+// Unlocked (5 coins via /unlock-analysis): adds detailed summary, key
+// factors, caveats, "what would change verdict", recommended action, and
+// the citations behind the summary's [P1]/[P1.2] markers.
+//
+// Fields come from the latest stored Verdict version; the label comes from
+// Market.aiOutcome. Markets researched before verdicts were versioned only
+// have Market.aiVerdict and Market.consensusSummary; their short summary is
+// the first sentence of the latter.
 
 export async function GET(
   request: NextRequest,
@@ -34,6 +42,7 @@ export async function GET(
       select: {
         aiConfidence: true,
         aiVerdict: true,
+        aiOutcome: true,
         consensusSummary: true,
         lastDossierAt: true,
         status: true,
@@ -67,29 +76,37 @@ export async function GET(
       unlocked = !!unlock;
     }
 
-    // --- Extract verdict details from consensusSummary ---
-    // The consensusSummary stores the detailedSummary from the SynthesisVerdict.
-    // For the "locked" tier, we produce a truncated version.
-
-    // Map aiVerdict (YES/NO/null) to verdict label
-    const verdictLabel = mapVerdictLabel(market.aiVerdict, market.aiConfidence);
+    const stored = await getLatestVerdict(claimId);
+    // Market outcome wins: an admin resolution may differ from the AI run
+    const outcome = market.aiOutcome ?? stored?.outcome ?? null;
 
     // Free response (always returned)
     const response: Record<string, unknown> = {
       available: true,
-      verdict: verdictLabel,
+      verdict: outcome
+        ? OUTCOME_LABELS[outcome]
+        : mapVerdictLabel(market.aiVerdict, market.aiConfidence),
+      outcome,
       aiVerdict: market.aiVerdict,
       confidence: market.aiConfidence,
       lastUpdated: market.lastDossierAt,
       unlocked,
+      version: stored?.version ?? null,
+      shortSummary:
+        stored?.shortSummary ?? extractFirstSentence(market.consensusSummary),
+      strengthOfEvidence: stored?.strengthOfEvidence ?? null,
+      effectDirection: stored?.effectDirection ?? null,
     };
 
     if (unlocked) {
       // Full deep analysis
-      response.detailedSummary = market.consensusSummary;
-    } else {
-      // Free tier: first sentence of consensus summary
-      response.shortSummary = extractFirstSentence(market.consensusSummary);
+      response.detailedSummary =
+        stored?.detailedSummary ?? market.consensusSummary;
+      response.keyFactors = stored?.keyFactors ?? [];
+      response.caveats = stored?.caveats ?? [];
+      response.whatWouldChangeVerdict = stored?.whatWouldChangeVerdict ?? null;
+      response.recommendedAction = stored?.recommendedAction ?? null;
+      response.citations = stored ? formatCitations(stored.citations) : [];
     }
 
     return NextResponse.json(response);
@@ -102,8 +119,16 @@ export async function GET(
   }
 }
 
+const OUTCOME_LABELS: Record<VerdictOutcome, string> = {
+  SUPPORTED: "Supported",
+  CONTRADICTED: "Contradicted",
+  MIXED: "Mixed",
+  INSUFFICIENT: "Insufficient",
+};
+
 /**
- * Map YES/NO/null verdict to a display label.
+ * Map YES/NO/null verdict to a display label (legacy markets without a
+ * four-way outcome).
  */
 function mapVerdictLabel(
   aiVerdict: string | null,
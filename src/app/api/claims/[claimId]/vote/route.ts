@@ -2,17 +2,30 @@ import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
-import { spendVoteCoins } from "@/lib/coin-service";
+import {
+  applyEscrow,
+  applyVoteSpend,
+  CoinTransferError,
+} from "@/lib/coin-service";
 import { actionLimiter } from "@/lib/rate-limit";
+import { STAKE_LIMITS } from "@/lib/utils";
 
 const claimIdSchema = z.string().min(1).max(100);
 
 // ── POST /api/claims/[claimId]/vote ────────────────────────────────────────
 // Authenticated users: place a YES/NO vote, deduct 1 coin.
-// Returns the created vote with its 6-hour reveal timer.
+// Optionally lock a `stake` in the market's YES/NO pool (paid out at
+// resolution). The stake, the coin and the vote commit together or not at
+// all. Returns the created vote with its 6-hour reveal timer.
 
 const voteSchema = z.object({
   side: z.enum(["YES", "NO"]),
+  stake: z
+    .number()
+    .int()
+    .min(STAKE_LIMITS.MIN)
+    .max(STAKE_LIMITS.MAX)
+    .optional(),
 });
 
 export async function POST(
@@ -47,12 +60,12 @@ export async function POST(
       );
     }
 
-    const { side } = parsed.data;
+    const { side, stake } = parsed.data;
 
     // Verify claim exists & is voteable
     const claim = await prisma.claim.findUnique({
       where: { id: claimId },
-      include: { market: { select: { status: true } } },
+      include: { market: { select: { id: true, status: true } } },
     });
 
     if (!claim) {
@@ -83,44 +96,51 @@ export async function POST(
       );
     }
 
-    // Deduct 1 coin
-    const coinResult = await spendVoteCoins(session.user.id, claimId);
-
-    if (!coinResult.success) {
-      return NextResponse.json(
-        { error: coinResult.error || "Insufficient credits" },
-        { status: 400 },
-      );
-    }
-
     const now = new Date();
     const revealAt = new Date(now.getTime() + 6 * 60 * 60 * 1000); // 6 hours
-
-    // Create vote + update market counts in a transaction
-    const vote = await prisma.$transaction(async (tx) => {
-      const newVote = await tx.claimVote.create({
-        data: {
-          claimId,
-          userId: session.user.id,
-          side,
-          votedAt: now,
-          revealAt,
-        },
-      });
-
-      // Update denormalized market vote counts
-      await tx.market.update({
-        where: { claimId },
-        data: {
-          totalVotes: { increment: 1 },
-          ...(side === "YES"
-            ? { yesVotes: { increment: 1 } }
-            : { noVotes: { increment: 1 } }),
-        },
+    const userId = session.user.id;
+    const marketId = claim.market.id;
+
+    // Lock the stake, spend the coin, and create the vote + update market
+    // counts in one transaction
+    let result;
+    try {
+      result = await prisma.$transaction(async (tx) => {
+        const escrow = stake
+          ? await applyEscrow(tx, userId, marketId, stake, side)
+          : null;
+        const spent = await applyVoteSpend(tx, userId, claimId);
+
+        const vote = await tx.claimVote.create({
+          data: {
+            claimId,
+            userId,
+            side,
+            votedAt: now,
+            revealAt,
+          },
+        });
+
+        // Update denormalized market vote counts
+        await tx.market.update({
+          where: { claimId },
+          data: {
+            totalVotes: { increment: 1 },
+            ...(side === "YES"
+              ? { yesVotes: { increment: 1 } }
+              : { noVotes: { increment: 1 } }),
+          },
+        });
+
+        return { vote, holdId: escrow?.holdId, newBalance: spent.newBalance };
       });
-
-      return newVote;
-    });
+    } catch (error) {
+      if (error instanceof CoinTransferError) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      throw error;
+    }
+    const { vote, holdId, newBalance } = result;
 
     return NextResponse.json(
       {
@@ -130,7 +150,8 @@ export async function POST(
           votedAt: vote.votedAt,
           revealAt: vote.revealAt,
         },
-        newBalance: coinResult.newBalance,
+        stake: holdId ? { holdId, amount: stake } : null,
+        newBalance,
       },
       { status: 201 },
     );
@@ -5,6 +5,10 @@ import Link from "next/link";
 import { Header } from "@/components/header";
 import { Footer } from "@/components/footer";
 import { VoteButtons } from "@/components/vote-buttons";
+import { VerdictHistory } from "@/components/verdict-history";
+import { ForestPlot } from "@/components/forest-plot";
+import { CitedSummary, evidenceAnchorId } from "@/components/cited-summary";
+import type { ResolvedCitation } from "@/lib/citations";
 
 interface Market {
   id: string;
@@ -13,6 +17,7 @@ interface Market {
   noVotes: number;
   totalVotes: number;
   aiVerdict?: string | null;
+  aiOutcome?: string | null;
   aiConfidence?: number | null;
   consensusSummary?: string | null;
   resolvedAt?: string | null;
@@ -20,6 +25,7 @@ interface Market {
 
 interface ClaimPaper {
   id: string;
+  paperId: string;
   stance?: string | null;
   aiSummary?: string | null;
   studyType?: string | null;
@@ -47,6 +53,8 @@ interface ClaimDetail {
   createdAt: string;
   market?: Market | null;
   claimPapers: ClaimPaper[];
+  /** Resolves the [P1]/[P1.2] markers in market.consensusSummary */
+  citations?: ResolvedCitation[];
   userVote?: UserVote | null;
 }
 
@@ -247,9 +255,32 @@ export default function ClaimDetailPage({
                   )}
                 </p>
                 {market.consensusSummary && (
-                  <p className="mt-2 text-sm text-muted-foreground">
-                    {market.consensusSummary}
-                  </p>
+                  <CitedSummary
+                    className="mt-2 text-sm text-muted-foreground"
+                    text={market.consensusSummary}
+                    citations={claim.citations ?? []}
+                  />
+                )}
+              </div>
+            )}
+
+            {/* Voided market — no winning side */}
+            {resolved && !market?.aiVerdict && market?.aiOutcome && (
+              <div className="mb-4 rounded-md bg-muted/50 p-3" data-testid="void-verdict">
+                <p className="text-sm font-medium">
+                  AI Verdict:{" "}
+                  <span className="text-yellow-600">{market.aiOutcome}</span>
+                </p>
+                <p className="mt-1 text-sm text-muted-foreground">
+                  No clear answer, so this market was voided and all vote and
+                  stake coins were refunded.
+                </p>
+                {market.consensusSummary && (
+                  <CitedSummary
+                    className="mt-2 text-sm text-muted-foreground"
+                    text={market.consensusSummary}
+                    citations={claim.citations ?? []}
+                  />
                 )}
               </div>
             )}
@@ -270,6 +301,12 @@ export default function ClaimDetailPage({
             />
           </div>
 
+          {/* Verdict history — shown alongside the revealed AI verdict */}
+          {resolved && <VerdictHistory claimId={claim.id} />}
+
+          {/* Effect sizes — renders nothing without quantitative evidence */}
+          {claim.claimPapers.length > 0 && <ForestPlot claimId={claim.id} />}
+
           {/* Evidence Papers */}
           {claim.claimPapers.length > 0 && (
             <section>
@@ -280,7 +317,8 @@ export default function ClaimDetailPage({
                 {claim.claimPapers.map((cp) => (
                   <div
                     key={cp.id}
-                    className={`rounded-lg border-l-4 p-4 ${
+                    id={evidenceAnchorId(cp.paperId)}
+                    className={`scroll-mt-20 rounded-lg border-l-4 p-4 target:ring-2 target:ring-primary ${
                       stanceColors[cp.stance ?? ""] ?? "border-muted bg-muted/30"
                     }`}
                   >
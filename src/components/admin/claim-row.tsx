@@ -11,7 +11,11 @@ interface AdminClaimRowProps {
       noVotes: number;
       totalVotes: number;
       aiVerdict: string | null;
+      aiOutcome?: string | null;
       aiConfidence: number | null;
+      aiRuleConfidence?: number | null;
+      aiConfidenceFlagged?: boolean;
+      retractionFlagged?: boolean;
     } | null;
     _count: {
       claimVotes: number;
@@ -22,6 +26,7 @@ interface AdminClaimRowProps {
   onDelete: (id: string) => void;
   onStatusChange: (id: string, status: string) => void;
   onResolve: () => void;
+  onEditQueries?: () => void;
 }
 
 const difficultyColors: Record<string, string> = {
@@ -36,11 +41,16 @@ const statusColors: Record<string, string> = {
   RESEARCHING: "text-amber-700 bg-amber-100",
 };
 
+function percent(value: number | null | undefined): string {
+  return `${Math.round((value ?? 0) * 100)}%`;
+}
+
 export function AdminClaimRow({
   claim,
   onDelete,
   onStatusChange,
   onResolve,
+  onEditQueries,
 }: AdminClaimRowProps) {
   const market = claim.market;
   const isResolved = market?.status === "RESOLVED";
@@ -66,6 +76,30 @@ export function AdminClaimRow({
           <span>{claim._count.claimVotes} votes</span>
           <span>·</span>
           <span>{claim._count.claimPapers} papers</span>
+          {market?.aiConfidenceFlagged && (
+            <>
+              <span>·</span>
+              <span
+                className="font-medium text-amber-600"
+                title={`LLM confidence ${percent(market.aiConfidence)} vs ${percent(
+                  market.aiRuleConfidence,
+                )} from evidence weights`}
+              >
+                Review confidence
+              </span>
+            </>
+          )}
+          {market?.retractionFlagged && (
+            <>
+              <span>·</span>
+              <span
+                className="font-medium text-red-600"
+                title="The verdict cites a paper that has since been retracted"
+              >
+                Cites retracted paper
+              </span>
+            </>
+          )}
         </div>
       </td>
 
@@ -122,6 +156,10 @@ export function AdminClaimRow({
               ({Math.round((market.aiConfidence ?? 0) * 100)}%)
             </span>
           </span>
+        ) : isResolved && market?.aiOutcome ? (
+          <span className="text-yellow-600" title="Market voided, coins refunded">
+            VOID ({market.aiOutcome})
+          </span>
         ) : (
           <span className="text-muted-foreground">—</span>
         )}
@@ -148,6 +186,15 @@ export function AdminClaimRow({
               Activate
             </button>
           )}
+          {onEditQueries && (
+            <button
+              onClick={onEditQueries}
+              className="rounded px-2 py-1 text-xs font-medium text-muted-foreground hover:bg-muted"
+              title="View, edit and re-run search queries"
+            >
+              Queries
+            </button>
+          )}
           <button
             onClick={() => onDelete(claim.id)}
             className="rounded px-2 py-1 text-xs font-medium text-destructive hover:bg-destructive/10"
@@ -0,0 +1,176 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { CostSummary, CostTotals } from "@/lib/llm-costs";
+
+type CostStage = CostSummary["byStage"][number]["stage"];
+
+const stageLabels: Record<CostStage, string> = {
+  PLANNING: "Planning",
+  EXTRACTION: "Extraction",
+  SYNTHESIS: "Synthesis",
+  EMBEDDING: "Embeddings",
+};
+
+function formatUsd(value: number): string {
+  return value > 0 && value < 0.01 ? `$${value.toFixed(4)}` : `$${value.toFixed(2)}`;
+}
+
+function formatTokens(totals: CostTotals): string {
+  const tokens = totals.promptTokens + totals.completionTokens;
+  return `${tokens.toLocaleString()} tokens · ${totals.runs} run${totals.runs !== 1 ? "s" : ""}`;
+}
+
+/** LLM and embedding spend from the dossier cost ledger (GET /api/admin/costs) */
+export function AdminCostSummary() {
+  const [summary, setSummary] = useState<CostSummary | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const res = await fetch("/api/admin/costs");
+        const data = await res.json().catch(() => null);
+        if (!res.ok) throw new Error(data?.error ?? `HTTP ${res.status}`);
+        if (!cancelled) setSummary(data);
+      } catch (err: any) {
+        if (!cancelled) setError(err.message);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  if (error) {
+    return (
+      <div className="mb-6 rounded-md bg-destructive/10 p-4 text-sm text-destructive">
+        Could not load LLM costs: {error}
+      </div>
+    );
+  }
+  if (!summary) {
+    return (
+      <p className="mb-6 text-sm text-muted-foreground">Loading LLM costs...</p>
+    );
+  }
+
+  const { today, month, budgets, daily, monthly, byStage } = summary;
+  const monthBudgetUsed =
+    budgets.monthlyUsd !== null ? month.costUsd / budgets.monthlyUsd : null;
+  const maxDaily = Math.max(...daily.map((d) => d.costUsd), 0);
+
+  return (
+    <section className="mb-6 rounded-lg border p-4" aria-label="LLM costs">
+      <div className="mb-4 flex items-baseline justify-between">
+        <h2 className="text-lg font-semibold">LLM Costs</h2>
+        {budgets.jobUsd !== null && (
+          <span className="text-xs text-muted-foreground">
+            Per-run budget {formatUsd(budgets.jobUsd)}
+          </span>
+        )}
+      </div>
+
+      <div className="mb-4 grid grid-cols-1 gap-4 sm:grid-cols-2">
+        <div className="rounded-lg border p-4">
+          <p className="text-xs text-muted-foreground">Today</p>
+          <p className="text-2xl font-bold">{formatUsd(today.costUsd)}</p>
+          <p className="text-xs text-muted-foreground">{formatTokens(today)}</p>
+        </div>
+        <div className="rounded-lg border p-4">
+          <p className="text-xs text-muted-foreground">This month</p>
+          <p className="text-2xl font-bold">
+            {formatUsd(month.costUsd)}
+            {budgets.monthlyUsd !== null && (
+              <span className="text-sm font-normal text-muted-foreground">
+                {" "}
+                of {formatUsd(budgets.monthlyUsd)}
+              </span>
+            )}
+          </p>
+          <p className="text-xs text-muted-foreground">{formatTokens(month)}</p>
+          {monthBudgetUsed !== null && (
+            <div
+              className="mt-2 h-2 rounded-full bg-muted"
+              role="progressbar"
+              aria-label="Monthly budget used"
+              aria-valuenow={Math.round(monthBudgetUsed * 100)}
+              aria-valuemin={0}
+              aria-valuemax={100}
+            >
+              <div
+                className={`h-2 rounded-full ${
+                  monthBudgetUsed >= 1
+                    ? "bg-destructive"
+                    : monthBudgetUsed >= 0.8
+                      ? "bg-amber-500"
+                      : "bg-primary"
+                }`}
+                style={{ width: `${Math.min(monthBudgetUsed, 1) * 100}%` }}
+              />
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 gap-4 lg:grid-cols-3">
+        <div>
+          <h3 className="mb-2 text-sm font-medium">Daily (last 30 days)</h3>
+          {daily.length === 0 ? (
+            <p className="text-xs text-muted-foreground">No calls recorded.</p>
+          ) : (
+            <ul className="space-y-1 text-xs">
+              {daily.map((day) => (
+                <li key={day.date} className="flex items-center gap-2">
+                  <span className="w-20 shrink-0 text-muted-foreground">{day.date}</span>
+                  <span className="h-2 flex-1 rounded-full bg-muted">
+                    <span
+                      className="block h-2 rounded-full bg-primary"
+                      style={{
+                        width: `${maxDaily > 0 ? (day.costUsd / maxDaily) * 100 : 0}%`,
+                      }}
+                    />
+                  </span>
+                  <span className="w-16 shrink-0 text-right">{formatUsd(day.costUsd)}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div>
+          <h3 className="mb-2 text-sm font-medium">Monthly</h3>
+          <table className="w-full text-xs">
+            <tbody className="divide-y">
+              {monthly.map((m) => (
+                <tr key={m.month}>
+                  <td className="py-1 text-muted-foreground">{m.month}</td>
+                  <td className="py-1 text-right">{formatUsd(m.costUsd)}</td>
+                  <td className="py-1 text-right text-muted-foreground">
+                    {m.runs} run{m.runs !== 1 ? "s" : ""}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div>
+          <h3 className="mb-2 text-sm font-medium">This month by stage</h3>
+          <table className="w-full text-xs">
+            <tbody className="divide-y">
+              {byStage.map((row) => (
+                <tr key={`${row.stage}-${row.model}`}>
+                  <td className="py-1">{stageLabels[row.stage]}</td>
+                  <td className="py-1 text-muted-foreground">{row.model}</td>
+                  <td className="py-1 text-right">{formatUsd(row.costUsd)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </section>
+  );
+}
@@ -2,6 +2,19 @@
 
 import { useState } from "react";
 
+type Outcome = "SUPPORTED" | "CONTRADICTED" | "MIXED" | "INSUFFICIENT";
+
+const outcomeOptions: { value: Outcome; label: string; color: string }[] = [
+  { value: "SUPPORTED", label: "YES — Supported", color: "text-green-600" },
+  { value: "CONTRADICTED", label: "NO — Refuted", color: "text-red-600" },
+  { value: "MIXED", label: "MIXED — Void, refund coins", color: "text-yellow-600" },
+  {
+    value: "INSUFFICIENT",
+    label: "INSUFFICIENT — Void, refund coins",
+    color: "text-muted-foreground",
+  },
+];
+
 interface AdminResolveModalProps {
   claim: {
     id: string;
@@ -16,7 +29,7 @@ export function AdminResolveModal({
   onClose,
   onResolved,
 }: AdminResolveModalProps) {
-  const [verdict, setVerdict] = useState<"YES" | "NO">("YES");
+  const [outcome, setOutcome] = useState<Outcome>("SUPPORTED");
   const [confidence, setConfidence] = useState("0.85");
   const [summary, setSummary] = useState("");
   const [submitting, setSubmitting] = useState(false);
@@ -32,7 +45,7 @@ export function AdminResolveModal({
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
-          aiVerdict: verdict,
+          outcome,
           aiConfidence: parseFloat(confidence),
           consensusSummary: summary.trim(),
         }),
@@ -73,31 +86,21 @@ export function AdminResolveModal({
             <label className="mb-2 block text-sm font-medium">
               AI Verdict
             </label>
-            <div className="flex gap-4">
-              <label className="flex items-center gap-2">
-                <input
-                  type="radio"
-                  name="verdict"
-                  value="YES"
-                  checked={verdict === "YES"}
-                  onChange={() => setVerdict("YES")}
-                />
-                <span className="text-sm text-green-600 font-medium">
-                  YES — Supported
-                </span>
-              </label>
-              <label className="flex items-center gap-2">
-                <input
-                  type="radio"
-                  name="verdict"
-                  value="NO"
-                  checked={verdict === "NO"}
-                  onChange={() => setVerdict("NO")}
-                />
-                <span className="text-sm text-red-600 font-medium">
-                  NO — Refuted
-                </span>
-              </label>
+            <div className="grid grid-cols-2 gap-2">
+              {outcomeOptions.map((option) => (
+                <label key={option.value} className="flex items-center gap-2">
+                  <input
+                    type="radio"
+                    name="outcome"
+                    value={option.value}
+                    checked={outcome === option.value}
+                    onChange={() => setOutcome(option.value)}
+                  />
+                  <span className={`text-sm font-medium ${option.color}`}>
+                    {option.label}
+                  </span>
+                </label>
+              ))}
             </div>
           </div>
 
@@ -0,0 +1,304 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { ARXIV_HEALTH_CATEGORIES } from "@/lib/arxiv";
+import type { PicoConcept, PicoElements } from "@/lib/prompts";
+import {
+  PAPER_SOURCE_IDS,
+  PAPER_SOURCE_LABELS,
+  type PaperSourceId,
+} from "@/lib/search-plan";
+
+interface SearchPlanResponse {
+  jobId: string | null;
+  status: string | null;
+  searchPlan: {
+    source: "llm" | "fallback" | "admin";
+    pico: PicoElements | null;
+    pubmedQuery: string;
+    semanticScholarQueries: string[];
+    arxivQuery: string;
+    arxivCategories: string[];
+  };
+  paperSources: PaperSourceId[];
+}
+
+const sourceLabels: Record<SearchPlanResponse["searchPlan"]["source"], string> = {
+  llm: "Planned by the LLM",
+  fallback: "Title-only fallback",
+  admin: "Edited by an admin",
+};
+
+const picoLabels: [keyof PicoElements, string][] = [
+  ["population", "Population"],
+  ["intervention", "Intervention"],
+  ["comparator", "Comparator"],
+  ["outcome", "Outcome"],
+];
+
+interface AdminSearchPlanModalProps {
+  claim: {
+    id: string;
+    title: string;
+  };
+  onClose: () => void;
+  onRerun: () => void;
+}
+
+export function AdminSearchPlanModal({
+  claim,
+  onClose,
+  onRerun,
+}: AdminSearchPlanModalProps) {
+  const [loaded, setLoaded] = useState<SearchPlanResponse | null>(null);
+  const [pubmedQuery, setPubmedQuery] = useState("");
+  const [s2Queries, setS2Queries] = useState("");
+  const [arxivQuery, setArxivQuery] = useState("");
+  const [categories, setCategories] = useState<string[]>([]);
+  const [sources, setSources] = useState<PaperSourceId[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const res = await fetch(`/api/admin/claims/${claim.id}/search-plan`);
+        const data = await res.json().catch(() => null);
+        if (!res.ok) throw new Error(data?.error ?? `HTTP ${res.status}`);
+        if (cancelled) return;
+        const plan = (data as SearchPlanResponse).searchPlan;
+        setLoaded(data);
+        setPubmedQuery(plan.pubmedQuery);
+        setS2Queries(plan.semanticScholarQueries.join("\n"));
+        setArxivQuery(plan.arxivQuery);
+        setCategories(plan.arxivCategories);
+        setSources((data as SearchPlanResponse).paperSources);
+      } catch (err: any) {
+        if (!cancelled) setError(err.message);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [claim.id]);
+
+  const toggleCategory = (code: string) => {
+    setCategories((current) =>
+      current.includes(code)
+        ? current.filter((c) => c !== code)
+        : [...current, code],
+    );
+  };
+
+  const toggleSource = (id: PaperSourceId) => {
+    setSources((current) =>
+      current.includes(id)
+        ? current.filter((s) => s !== id)
+        : [...current, id],
+    );
+  };
+
+  // Crossref only adds metadata to what the other sources find
+  const hasSearchSource = sources.some((id) => id !== "crossref");
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+
+    try {
+      const res = await fetch(`/api/admin/claims/${claim.id}/search-plan`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          pubmedQuery: pubmedQuery.trim(),
+          semanticScholarQueries: s2Queries
+            .split("\n")
+            .map((q) => q.trim())
+            .filter(Boolean),
+          arxivQuery: arxivQuery.trim(),
+          arxivCategories: categories,
+          paperSources: sources,
+        }),
+      });
+
+      if (!res.ok) {
+        const data = await res.json().catch(() => null);
+        throw new Error(data?.error ?? `HTTP ${res.status}`);
+      }
+
+      onRerun();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const pico = loaded?.searchPlan.pico;
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50"
+      role="dialog"
+      aria-label="Search Queries"
+    >
+      <div className="mx-4 max-h-[90vh] w-full max-w-2xl overflow-y-auto rounded-lg bg-background p-6 shadow-xl">
+        <h2 className="mb-2 text-lg font-bold">Search Queries</h2>
+        <p className="mb-1 text-sm text-muted-foreground">{claim.title}</p>
+        {loaded && (
+          <p className="mb-4 text-xs text-muted-foreground">
+            {loaded.jobId
+              ? `${sourceLabels[loaded.searchPlan.source]} · last run ${loaded.status?.toLowerCase()}`
+              : "Not researched yet — showing the default queries"}
+          </p>
+        )}
+
+        {error && (
+          <div className="mb-3 rounded-md bg-destructive/10 p-3 text-sm text-destructive">
+            {error}
+          </div>
+        )}
+
+        {!loaded && !error && (
+          <p className="py-6 text-center text-sm text-muted-foreground">
+            Loading queries...
+          </p>
+        )}
+
+        {loaded && (
+          <form onSubmit={handleSubmit}>
+            {/* PICO breakdown (read-only) */}
+            {pico && (
+              <dl className="mb-4 grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 rounded-md bg-muted/50 p-3 text-xs">
+                {picoLabels.map(([key, label]) => (
+                  <PicoRow key={key} label={label} concept={pico[key]} />
+                ))}
+              </dl>
+            )}
+
+            {/* Sources */}
+            <fieldset className="mb-4">
+              <legend className="mb-1 text-sm font-medium">Sources</legend>
+              <div className="grid grid-cols-2 gap-1">
+                {PAPER_SOURCE_IDS.map((id) => (
+                  <label key={id} className="flex items-center gap-2 text-xs">
+                    <input
+                      type="checkbox"
+                      checked={sources.includes(id)}
+                      onChange={() => toggleSource(id)}
+                    />
+                    {PAPER_SOURCE_LABELS[id]}
+                  </label>
+                ))}
+              </div>
+            </fieldset>
+
+            {/* PubMed */}
+            <div className="mb-4">
+              <label htmlFor="pubmed-query" className="mb-1 block text-sm font-medium">
+                PubMed query
+              </label>
+              <textarea
+                id="pubmed-query"
+                value={pubmedQuery}
+                onChange={(e) => setPubmedQuery(e.target.value)}
+                required
+                maxLength={4000}
+                rows={4}
+                className="w-full rounded-md border bg-background px-3 py-2 font-mono text-xs"
+              />
+            </div>
+
+            {/* Semantic Scholar */}
+            <div className="mb-4">
+              <label htmlFor="s2-queries" className="mb-1 block text-sm font-medium">
+                Semantic Scholar queries (one per line, up to 3)
+              </label>
+              <textarea
+                id="s2-queries"
+                value={s2Queries}
+                onChange={(e) => setS2Queries(e.target.value)}
+                required
+                rows={3}
+                className="w-full rounded-md border bg-background px-3 py-2 text-sm"
+              />
+            </div>
+
+            {/* arXiv */}
+            <div className="mb-4">
+              <label htmlFor="arxiv-query" className="mb-1 block text-sm font-medium">
+                arXiv query
+              </label>
+              <input
+                id="arxiv-query"
+                value={arxivQuery}
+                onChange={(e) => setArxivQuery(e.target.value)}
+                required
+                maxLength={300}
+                className="w-full rounded-md border bg-background px-3 py-1.5 text-sm"
+              />
+              <div className="mt-2 grid grid-cols-2 gap-1">
+                {Object.entries(ARXIV_HEALTH_CATEGORIES).map(([code, description]) => (
+                  <label key={code} className="flex items-center gap-2 text-xs">
+                    <input
+                      type="checkbox"
+                      checked={categories.includes(code)}
+                      onChange={() => toggleCategory(code)}
+                    />
+                    <span title={description}>{code}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            {/* Buttons */}
+            <div className="flex justify-end gap-3">
+              <button
+                type="button"
+                onClick={onClose}
+                className="rounded-md border px-4 py-2 text-sm"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={submitting || categories.length === 0 || !hasSearchSource}
+                className="rounded-md bg-primary px-4 py-2 text-sm font-medium text-primary-foreground hover:bg-primary/90 disabled:opacity-50"
+              >
+                {submitting ? "Starting..." : "Save & Re-run"}
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function PicoRow({
+  label,
+  concept,
+}: {
+  label: string;
+  concept: PicoConcept | null;
+}) {
+  return (
+    <>
+      <dt className="font-medium">{label}</dt>
+      <dd className="text-muted-foreground">
+        {concept ? (
+          <>
+            {concept.term}
+            {concept.meshTerms.length > 0 && (
+              <span className="ml-1">[MeSH: {concept.meshTerms.join(", ")}]</span>
+            )}
+          </>
+        ) : (
+          "—"
+        )}
+      </dd>
+    </>
+  );
+}
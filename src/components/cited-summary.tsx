@@ -0,0 +1,107 @@
+"use client";
+
+import { Fragment } from "react";
+import { SECTION_LABELS, type SectionName } from "@/lib/chunker";
+import {
+  paperKeyOf,
+  splitCitations,
+  type ResolvedCitation,
+} from "@/lib/citations";
+
+export interface CitedSummaryProps {
+  text: string;
+  citations: ResolvedCitation[];
+  className?: string;
+}
+
+/** DOM id of the evidence card for a paper — the target of footnote links */
+export function evidenceAnchorId(paperId: string): string {
+  return `evidence-${paperId}`;
+}
+
+/**
+ * Render a verdict summary with its [P1]/[P1.2] markers as numbered
+ * footnotes. Footnotes are numbered per paper in order of first citation and
+ * jump to that paper's evidence card; markers that don't resolve to a stored
+ * citation are dropped. A marker citing several excerpts of one paper shows
+ * its number once, with every passage in the tooltip.
+ */
+export function CitedSummary({ text, citations, className }: CitedSummaryProps) {
+  const byKey = new Map(citations.map((c) => [c.key, c]));
+  const numbers = new Map<string, number>();
+  const footnotes: ResolvedCitation[] = [];
+
+  const footnoteFor = (key: string) => {
+    const citation = byKey.get(key) ?? byKey.get(paperKeyOf(key));
+    if (!citation) return null;
+    const paperKey = paperKeyOf(citation.key);
+    if (!numbers.has(paperKey)) {
+      numbers.set(paperKey, numbers.size + 1);
+      footnotes.push(byKey.get(paperKey) ?? citation);
+    }
+    return { citation, number: numbers.get(paperKey)! };
+  };
+
+  const segments = splitCitations(text);
+  const body = segments.map((segment, i) => {
+    if (segment.type === "text") return <Fragment key={i}>{segment.text}</Fragment>;
+
+    // One link per paper, in order of its first key in the marker
+    const refs = new Map<number, ResolvedCitation[]>();
+    for (const key of segment.keys) {
+      const ref = footnoteFor(key);
+      if (!ref) continue;
+      refs.set(ref.number, [...(refs.get(ref.number) ?? []), ref.citation]);
+    }
+    if (refs.size === 0) return null;
+
+    return (
+      <sup key={i} className="ml-0.5">
+        {[...refs].map(([number, [citation, ...more]], j) => (
+          <Fragment key={citation.key}>
+            {j > 0 && ","}
+            <a
+              href={`#${evidenceAnchorId(citation.paperId)}`}
+              title={[citation, ...more].map(citationTitle).join("\n")}
+              className="text-primary hover:underline"
+              data-testid="citation-link"
+            >
+              {number}
+            </a>
+          </Fragment>
+        ))}
+      </sup>
+    );
+  });
+
+  return (
+    <div className={className}>
+      <p>{body}</p>
+      {footnotes.length > 0 && (
+        <ol
+          className="mt-3 list-decimal space-y-1 pl-5 text-xs text-muted-foreground"
+          data-testid="citation-footnotes"
+        >
+          {footnotes.map((citation) => (
+            <li key={citation.key}>
+              <a
+                href={`#${evidenceAnchorId(citation.paperId)}`}
+                className="hover:text-foreground hover:underline"
+              >
+                {citation.paperTitle}
+              </a>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
+
+/** Tooltip: paper title, plus the cited passage for excerpt keys */
+function citationTitle(citation: ResolvedCitation): string {
+  if (!citation.excerpt) return citation.paperTitle;
+  const label = SECTION_LABELS[citation.section as SectionName];
+  const section = label ? ` (${label})` : "";
+  return `${citation.paperTitle}${section}: “${citation.excerpt}”`;
+}
@@ -22,6 +22,7 @@ const TYPE_LABELS: Record<string, string> = {
   DAILY_LOGIN: "Daily login",
   STREAK_BONUS: "Streak bonus",
   VOTE_SPENT: "Vote placed",
+  STAKE_ESCROW: "Stake placed",
   DEEP_ANALYSIS_UNLOCK: "Deep analysis",
   CLAIM_PROPOSAL_DEPOSIT: "Claim proposal",
   BOUNTY_CONTRIBUTION: "Bounty contribution",
@@ -33,6 +34,8 @@ const TYPE_LABELS: Record<string, string> = {
   HOUSE_FEE_BURN: "House fee",
   DEPOSIT_REFUND: "Deposit refund",
   DEPOSIT_BURN: "Deposit forfeited",
+  STAKE_REFUND: "Stake refund",
+  VOTE_REFUND: "Vote refund",
   ADMIN_GRANT: "Admin adjustment",
   PURCHASE: "Purchase",
 };
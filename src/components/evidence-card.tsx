@@ -1,5 +1,9 @@
 "use client";
 
+import { evidenceAnchorId } from "@/components/cited-summary";
+import type { EffectEstimate } from "@/lib/prompts";
+import type { SnowballLink } from "@/lib/snowball";
+
 export interface EvidenceCardData {
   id: string;
   paperId: string;
@@ -16,7 +20,23 @@ export interface EvidenceCardData {
   summary?: string | null;
   abstractSnippet?: string | null;
   sampleSize?: number | null;
+  population?: string | null;
+  duration?: string | null;
+  /** Effect as the paper reports it, e.g. "+3.2 kg lean mass" */
+  effectSize?: string | null;
+  effect?: EffectEstimate | null;
   confidenceScore?: number | null;
+  /** Set when citation snowballing found the paper, from the review named */
+  foundVia?: {
+    link: SnowballLink;
+    paperId: string | null;
+    paperTitle: string | null;
+  } | null;
+  /** Set when the paper has been retracted or flagged since extraction */
+  retraction?: {
+    status: string;
+    noticeUrl: string | null;
+  } | null;
 }
 
 export interface EvidenceCardProps {
@@ -42,6 +62,51 @@ const studyTypeBadgeColors: Record<string, string> = {
   "Other": "bg-gray-100 text-gray-600",
 };
 
+const effectMeasureLabels: Record<string, string> = {
+  SMD: "SMD",
+  MD: "Mean difference",
+  PERCENT_CHANGE: "Change",
+  RR: "Risk ratio",
+  OR: "Odds ratio",
+  HR: "Hazard ratio",
+  OTHER: "Effect",
+};
+
+const foundViaLabels: Record<SnowballLink, string> = {
+  reference: "Found in the references of",
+  citation: "Found via citation of",
+  recommendation: "Recommended as similar to",
+};
+
+const retractionBadges: Record<string, { className: string; label: string }> = {
+  RETRACTED: { className: "bg-red-100 text-red-800", label: "Retracted" },
+  EXPRESSION_OF_CONCERN: {
+    className: "bg-amber-100 text-amber-800",
+    label: "Expression of concern",
+  },
+  NOTICE: { className: "bg-gray-100 text-gray-600", label: "Retraction notice" },
+};
+
+function formatNumber(value: number): string {
+  return Number(value.toFixed(2)).toString();
+}
+
+/**
+ * Format a structured effect, e.g. "SMD 0.45 (95% CI 0.2 to 0.7)".
+ */
+export function formatEffect(effect: EffectEstimate): string {
+  const label = effectMeasureLabels[effect.measure] ?? "Effect";
+  const value =
+    effect.measure === "PERCENT_CHANGE"
+      ? `${formatNumber(effect.value)}%`
+      : formatNumber(effect.value);
+  const ci =
+    effect.ciLower !== null && effect.ciUpper !== null
+      ? ` (95% CI ${formatNumber(effect.ciLower)} to ${formatNumber(effect.ciUpper)})`
+      : "";
+  return `${label} ${value}${ci}`;
+}
+
 /**
  * Build a link to the original paper source.
  */
@@ -63,10 +128,20 @@ export function EvidenceCard({ evidence }: EvidenceCardProps) {
     : null;
 
   const paperLink = getPaperLink(evidence);
+  const retractionBadge = evidence.retraction
+    ? retractionBadges[evidence.retraction.status] ?? null
+    : null;
+
+  const details: [string, string][] = [];
+  if (evidence.population) details.push(["Population", evidence.population]);
+  if (evidence.duration) details.push(["Duration", evidence.duration]);
+  if (evidence.effectSize) details.push(["Effect", evidence.effectSize]);
+  if (evidence.effect) details.push(["Estimate", formatEffect(evidence.effect)]);
 
   return (
     <div
-      className="rounded-lg border p-4 transition-colors hover:bg-muted/20"
+      id={evidenceAnchorId(evidence.paperId)}
+      className="scroll-mt-20 rounded-lg border p-4 transition-colors hover:bg-muted/20 target:ring-2 target:ring-primary"
       data-testid="evidence-card"
     >
       {/* Header: title + badges */}
@@ -111,9 +186,35 @@ export function EvidenceCard({ evidence }: EvidenceCardProps) {
           {evidence.sampleSize != null && (
             <span>n={evidence.sampleSize.toLocaleString()}</span>
           )}
+          {retractionBadge && (
+            <a
+              href={evidence.retraction?.noticeUrl ?? undefined}
+              target="_blank"
+              rel="noopener noreferrer"
+              className={`rounded px-1.5 py-0.5 font-medium ${retractionBadge.className}`}
+              data-testid="retraction-badge"
+            >
+              {retractionBadge.label}
+            </a>
+          )}
         </div>
       </div>
 
+      {/* Provenance of snowballed papers */}
+      {evidence.foundVia && (
+        <p
+          className="mb-1 text-xs text-muted-foreground"
+          data-testid="found-via"
+        >
+          {foundViaLabels[evidence.foundVia.link] ?? "Found via"}{" "}
+          {evidence.foundVia.paperTitle ? (
+            <span className="italic">{evidence.foundVia.paperTitle}</span>
+          ) : (
+            "a related review"
+          )}
+        </p>
+      )}
+
       {/* AI summary */}
       {evidence.summary && (
         <p className="text-sm text-muted-foreground leading-relaxed">
@@ -121,6 +222,21 @@ export function EvidenceCard({ evidence }: EvidenceCardProps) {
         </p>
       )}
 
+      {/* Study details: population, duration, effect */}
+      {details.length > 0 && (
+        <dl
+          className="mt-2 grid grid-cols-[auto_1fr] gap-x-2 gap-y-0.5 text-xs"
+          data-testid="evidence-details"
+        >
+          {details.map(([label, value]) => (
+            <div key={label} className="contents">
+              <dt className="text-muted-foreground">{label}:</dt>
+              <dd>{value}</dd>
+            </div>
+          ))}
+        </dl>
+      )}
+
       {/* Confidence score */}
       {evidence.confidenceScore != null && (
         <div className="mt-2 flex items-center gap-2">
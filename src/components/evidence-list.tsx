@@ -9,7 +9,7 @@ export interface EvidenceListProps {
   initialData?: EvidenceCardData[];
 }
 
-type SortOption = "relevance" | "recency" | "studyType";
+type SortOption = "relevance" | "recency" | "studyType" | "effectSize";
 type StanceFilter = "all" | "SUPPORTS" | "REFUTES" | "NEUTRAL";
 
 export function EvidenceList({ claimId, initialData }: EvidenceListProps) {
@@ -70,6 +70,7 @@ export function EvidenceList({ claimId, initialData }: EvidenceListProps) {
             <option value="relevance">By relevance</option>
             <option value="recency">By recency</option>
             <option value="studyType">By study type</option>
+            <option value="effectSize">By effect size</option>
           </select>
 
           {/* Stance filter */}
@@ -0,0 +1,178 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import {
+  ResponsiveContainer,
+  ScatterChart,
+  Scatter,
+  ErrorBar,
+  XAxis,
+  YAxis,
+  ZAxis,
+  ReferenceLine,
+  Tooltip,
+  Legend,
+} from "recharts";
+import { formatEffect } from "@/components/evidence-card";
+import type { ForestPlotData, ForestStudy } from "@/lib/effect-sizes";
+
+export interface ForestPlotProps {
+  claimId: string;
+}
+
+interface PlotPoint {
+  row: number;
+  value: number;
+  /** Distance to the CI bounds, [below, above] */
+  ci: [number, number];
+  size: number;
+  study: ForestStudy;
+}
+
+const stanceSeries: { stance: string; label: string; color: string }[] = [
+  { stance: "SUPPORTS", label: "Supports", color: "#16a34a" },
+  { stance: "REFUTES", label: "Refutes", color: "#dc2626" },
+  { stance: "NEUTRAL", label: "Neutral", color: "#ca8a04" },
+];
+
+const ROW_HEIGHT = 28;
+const MAX_LABEL_CHARS = 28;
+
+function studyLabel(study: ForestStudy): string {
+  const title =
+    study.paperTitle.length > MAX_LABEL_CHARS
+      ? `${study.paperTitle.slice(0, MAX_LABEL_CHARS - 1)}…`
+      : study.paperTitle;
+  return study.publishedYear ? `${title} (${study.publishedYear})` : title;
+}
+
+function toPoint(study: ForestStudy, index: number): PlotPoint {
+  return {
+    row: index + 1,
+    value: study.value,
+    ci: [
+      study.ciLower === null ? 0 : study.value - study.ciLower,
+      study.ciUpper === null ? 0 : study.ciUpper - study.value,
+    ],
+    size: study.sampleSize ?? 0,
+    study,
+  };
+}
+
+export function ForestPlot({ claimId }: ForestPlotProps) {
+  const [plots, setPlots] = useState<ForestPlotData[] | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetch(`/api/claims/${claimId}/effects`)
+      .then((res) => (res.ok ? res.json() : { plots: [] }))
+      .then((data) => {
+        if (!cancelled) setPlots(data.plots ?? []);
+      })
+      .catch(() => {
+        if (!cancelled) setPlots([]);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [claimId]);
+
+  // Only claims with quantitative evidence get a plot
+  if (!plots || plots.length === 0) return null;
+
+  return (
+    <section className="mb-6 rounded-lg border p-4" data-testid="forest-plot">
+      <h2 className="mb-1 text-xl font-semibold">Effect Sizes</h2>
+      <p className="mb-4 text-sm text-muted-foreground">
+        One row per study with its 95% confidence interval. Larger markers
+        are larger studies; the dashed line is no effect.
+      </p>
+
+      <div className="space-y-6">
+        {plots.map((plot) => (
+          <ScalePlot key={plot.scale} plot={plot} />
+        ))}
+      </div>
+    </section>
+  );
+}
+
+function ScalePlot({ plot }: { plot: ForestPlotData }) {
+  const points = plot.studies.map(toPoint);
+  const rows = points.map((p) => p.row);
+  const hasApproximate = plot.studies.some((s) => s.approximate);
+
+  return (
+    <div data-testid={`forest-plot-${plot.scale}`}>
+      <h3 className="mb-2 text-sm font-medium">{plot.label}</h3>
+
+      <div style={{ height: 80 + points.length * ROW_HEIGHT }}>
+        <ResponsiveContainer width="100%" height="100%">
+          <ScatterChart margin={{ left: 8, right: 16 }}>
+            <XAxis type="number" dataKey="value" fontSize={12} name={plot.label} />
+            <YAxis
+              type="number"
+              dataKey="row"
+              domain={[0, points.length + 1]}
+              ticks={rows}
+              tickFormatter={(row: number) =>
+                points[row - 1] ? studyLabel(points[row - 1].study) : ""
+              }
+              reversed
+              width={190}
+              fontSize={11}
+            />
+            <ZAxis type="number" dataKey="size" range={[40, 400]} />
+            <ReferenceLine x={0} stroke="#6b7280" strokeDasharray="4 4" />
+            <Tooltip
+              cursor={false}
+              content={({ active, payload }) => {
+                const point = payload?.[0]?.payload as PlotPoint | undefined;
+                if (!active || !point) return null;
+                return (
+                  <div className="rounded border bg-background p-2 text-xs shadow">
+                    <p className="font-medium">{point.study.paperTitle}</p>
+                    <p>{formatEffect(point.study.effect)}</p>
+                    {point.study.sampleSize != null && (
+                      <p>n={point.study.sampleSize.toLocaleString()}</p>
+                    )}
+                  </div>
+                );
+              }}
+            />
+            <Legend />
+            {stanceSeries.map(({ stance, label, color }) => {
+              const data = points.filter(
+                (p) => (p.study.stance ?? "NEUTRAL") === stance,
+              );
+              if (data.length === 0) return null;
+              return (
+                <Scatter key={stance} name={label} data={data} fill={color}>
+                  <ErrorBar dataKey="ci" direction="x" width={0} stroke={color} />
+                </Scatter>
+              );
+            })}
+          </ScatterChart>
+        </ResponsiveContainer>
+      </div>
+
+      <ul className="mt-2 space-y-0.5 text-xs text-muted-foreground">
+        {plot.studies.map((study) => (
+          <li key={study.claimPaperId} data-testid="forest-plot-study">
+            <span className="text-foreground">{studyLabel(study)}</span>
+            {study.sampleSize != null && ` · n=${study.sampleSize.toLocaleString()}`}
+            {` · ${formatEffect(study.effect)}`}
+            {study.approximate && " *"}
+          </li>
+        ))}
+      </ul>
+      {hasApproximate && (
+        <p className="mt-1 text-xs text-muted-foreground">
+          * Risk or hazard ratio converted as if an odds ratio; approximate.
+        </p>
+      )}
+    </div>
+  );
+}
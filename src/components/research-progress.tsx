@@ -1,6 +1,8 @@
 "use client";
 
-import { useState, useEffect, useRef, useCallback } from "react";
+import { useState, useEffect, useRef } from "react";
+import { EvidenceCard } from "@/components/evidence-card";
+import type { DossierEvent, LiveEvidence } from "@/lib/dossier-events";
 
 export interface ResearchProgressProps {
   claimId: string;
@@ -20,6 +22,24 @@ interface ResearchStatus {
   finishedAt?: string | null;
 }
 
+/** A message from GET /api/claims/[claimId]/research/events */
+type StreamMessage = DossierEvent | ({ type: "snapshot" } & ResearchStatus);
+
+interface SourceCount {
+  source: string;
+  papers: number;
+}
+
+function isActive(status: string): boolean {
+  return status === "QUEUED" || status === "RUNNING";
+}
+
+/**
+ * Research progress for a claim. It polls the status route, and while a run
+ * is active switches to the live event stream, showing each source's paper
+ * count and evidence cards as they are extracted. If the stream fails (or the
+ * browser has no EventSource) it keeps polling instead.
+ */
 export function ResearchProgress({
   claimId,
   onComplete,
@@ -27,39 +47,129 @@ export function ResearchProgress({
 }: ResearchProgressProps) {
   const [status, setStatus] = useState<ResearchStatus | null>(null);
   const [error, setError] = useState<string | null>(null);
-  const intervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  const [sources, setSources] = useState<SourceCount[]>([]);
+  const [evidence, setEvidence] = useState<LiveEvidence[]>([]);
+  const [failedPapers, setFailedPapers] = useState<string[]>([]);
   const onCompleteRef = useRef(onComplete);
   onCompleteRef.current = onComplete;
 
-  const fetchStatus = useCallback(async () => {
-    try {
-      const res = await fetch(`/api/claims/${claimId}/research/status`);
-      if (!res.ok) throw new Error("Failed to fetch status");
-      const data: ResearchStatus = await res.json();
-      setStatus(data);
-
-      // Stop polling when done
-      if (data.status === "SUCCEEDED" || data.status === "FAILED" || data.status === "NONE") {
-        if (intervalRef.current) {
-          clearInterval(intervalRef.current);
-          intervalRef.current = null;
-        }
-        if (data.status === "SUCCEEDED") {
+  useEffect(() => {
+    let cancelled = false;
+    let interval: ReturnType<typeof setInterval> | null = null;
+    let stream: EventSource | null = null;
+    let streamFailed = false;
+
+    const stopPolling = () => {
+      if (interval) {
+        clearInterval(interval);
+        interval = null;
+      }
+    };
+    const closeStream = () => {
+      stream?.close();
+      stream = null;
+    };
+    const updateStatus = (patch: Partial<ResearchStatus>) =>
+      setStatus((prev) => prev && { ...prev, ...patch });
+
+    // ── Live events ──
+    const handleMessage = (message: StreamMessage) => {
+      switch (message.type) {
+        case "snapshot":
+          setStatus(message);
+          if (!isActive(message.status)) {
+            closeStream();
+            if (message.status === "SUCCEEDED") onCompleteRef.current?.();
+          }
+          break;
+        case "stage":
+          updateStatus({
+            status: "RUNNING",
+            progress: message.progress,
+            stepLabel: message.label,
+          });
+          break;
+        case "sources":
+          setSources(message.counts);
+          break;
+        case "evidence":
+          // A retried run can extract a paper again
+          setEvidence((prev) => [
+            ...prev.filter((e) => e.paperId !== message.evidence.paperId),
+            message.evidence,
+          ]);
+          break;
+        case "error":
+          if ("paperTitle" in message) {
+            setFailedPapers((prev) => [...prev, message.paperTitle]);
+          } else if (message.retrying) {
+            updateStatus({ status: "QUEUED", stepLabel: "Queued to retry" });
+          } else {
+            closeStream();
+            updateStatus({ status: "FAILED", error: message.message });
+          }
+          break;
+        case "done":
+          closeStream();
+          updateStatus({ status: "SUCCEEDED", progress: 100, stepLabel: "Complete" });
           onCompleteRef.current?.();
+          break;
+      }
+    };
+
+    const openStream = () => {
+      stream = new EventSource(`/api/claims/${claimId}/research/events`);
+      stream.onmessage = (event) => {
+        if (!cancelled) handleMessage(JSON.parse(event.data));
+      };
+      // EventSource would reconnect by itself; go back to polling instead
+      stream.onerror = () => {
+        closeStream();
+        streamFailed = true;
+        if (!cancelled) startPolling();
+      };
+    };
+
+    // ── Polling ──
+    const fetchStatus = async () => {
+      try {
+        const res = await fetch(`/api/claims/${claimId}/research/status`);
+        if (!res.ok) throw new Error("Failed to fetch status");
+        const data: ResearchStatus = await res.json();
+        if (cancelled) return;
+        setStatus(data);
+
+        // Stop polling when done
+        if (!isActive(data.status)) {
+          stopPolling();
+          if (data.status === "SUCCEEDED") {
+            onCompleteRef.current?.();
+          }
+          return;
+        }
+
+        // Follow an active run live where the browser can
+        if (!stream && !streamFailed && typeof EventSource !== "undefined") {
+          stopPolling();
+          openStream();
         }
+      } catch {
+        if (!cancelled) setError("Failed to check research status");
       }
-    } catch {
-      setError("Failed to check research status");
-    }
-  }, [claimId]);
+    };
 
-  useEffect(() => {
-    fetchStatus();
-    intervalRef.current = setInterval(fetchStatus, pollInterval);
+    const startPolling = () => {
+      fetchStatus();
+      interval = setInterval(fetchStatus, pollInterval);
+    };
+
+    startPolling();
     return () => {
-      if (intervalRef.current) clearInterval(intervalRef.current);
+      cancelled = true;
+      stopPolling();
+      closeStream();
     };
-  }, [fetchStatus, pollInterval]);
+  }, [claimId, pollInterval]);
 
   if (error) {
     return (
@@ -138,6 +248,33 @@ export function ResearchProgress({
           {status.stepLabel}
         </p>
       )}
+
+      {/* Papers found per source */}
+      {sources.length > 0 && (
+        <p className="mt-2 text-xs text-blue-600" data-testid="source-counts">
+          Found{" "}
+          {sources.map((s) => `${s.papers} on ${s.source}`).join(" · ")}
+        </p>
+      )}
+
+      {failedPapers.length > 0 && (
+        <p className="mt-1 text-xs text-amber-700">
+          Could not extract evidence from {failedPapers.length} paper
+          {failedPapers.length !== 1 ? "s" : ""}
+        </p>
+      )}
+
+      {/* Evidence as it is extracted */}
+      {evidence.length > 0 && (
+        <div className="mt-4 space-y-3" data-testid="live-evidence">
+          <p className="text-xs font-medium text-blue-800">
+            Evidence so far ({evidence.length})
+          </p>
+          {evidence.map((e) => (
+            <EvidenceCard key={e.paperId} evidence={{ id: e.paperId, ...e }} />
+          ))}
+        </div>
+      )}
     </div>
   );
 }
@@ -2,6 +2,8 @@
 
 import { useState, useEffect } from "react";
 import { useSession } from "next-auth/react";
+import { CitedSummary } from "@/components/cited-summary";
+import type { ResolvedCitation } from "@/lib/citations";
 
 export interface VerdictCardProps {
   claimId: string;
@@ -12,12 +14,22 @@ export interface VerdictCardProps {
 export interface VerdictData {
   available: boolean;
   verdict?: string;
+  outcome?: string | null;
   aiVerdict?: string | null;
   confidence?: number | null;
   lastUpdated?: string | null;
   unlocked?: boolean;
-  shortSummary?: string;
-  detailedSummary?: string;
+  version?: number | null;
+  shortSummary?: string | null;
+  strengthOfEvidence?: string | null;
+  effectDirection?: string | null;
+  detailedSummary?: string | null;
+  keyFactors?: string[];
+  caveats?: string[];
+  whatWouldChangeVerdict?: string | null;
+  recommendedAction?: string | null;
+  /** Resolves [P1]/[P1.2] markers in detailedSummary */
+  citations?: ResolvedCitation[];
   status?: string;
   message?: string;
 }
@@ -29,6 +41,13 @@ const verdictColors: Record<string, string> = {
   Insufficient: "bg-gray-100 text-gray-600 border-gray-300",
 };
 
+const verdictDescriptions: Record<string, string> = {
+  Supported: "The evidence supports this claim.",
+  Contradicted: "The evidence contradicts this claim.",
+  Mixed: "Studies disagree — there is no clear answer yet.",
+  Insufficient: "There isn't enough good evidence to judge this claim.",
+};
+
 export function VerdictCard({ claimId, initialData }: VerdictCardProps) {
   const { data: session } = useSession();
   const [verdict, setVerdict] = useState<VerdictData | null>(initialData ?? null);
@@ -139,10 +158,41 @@ export function VerdictCard({ claimId, initialData }: VerdictCardProps) {
         )}
       </div>
 
+      {verdictDescriptions[verdictLabel] && (
+        <p className="text-sm font-medium mb-2" data-testid="verdict-description">
+          {verdictDescriptions[verdictLabel]}
+        </p>
+      )}
+
+      {verdict.strengthOfEvidence && (
+        <p className="text-xs text-muted-foreground mb-3" data-testid="evidence-strength">
+          Evidence strength: {formatEnum(verdict.strengthOfEvidence)}
+          {verdict.effectDirection && ` · Effect: ${formatEnum(verdict.effectDirection)}`}
+        </p>
+      )}
+
       {/* Summary */}
       {verdict.unlocked && verdict.detailedSummary ? (
-        <div className="prose prose-sm max-w-none">
-          <p>{verdict.detailedSummary}</p>
+        <div className="space-y-4 text-sm" data-testid="deep-analysis">
+          <CitedSummary
+            className="prose prose-sm max-w-none"
+            text={verdict.detailedSummary}
+            citations={verdict.citations ?? []}
+          />
+          <VerdictList title="Key factors" items={verdict.keyFactors} />
+          <VerdictList title="Caveats" items={verdict.caveats} />
+          {verdict.whatWouldChangeVerdict && (
+            <div>
+              <p className="font-medium">What would change this verdict</p>
+              <p className="text-muted-foreground">{verdict.whatWouldChangeVerdict}</p>
+            </div>
+          )}
+          {verdict.recommendedAction && (
+            <div>
+              <p className="font-medium">Recommended action</p>
+              <p className="text-muted-foreground">{verdict.recommendedAction}</p>
+            </div>
+          )}
         </div>
       ) : (
         <>
@@ -172,3 +222,23 @@ export function VerdictCard({ claimId, initialData }: VerdictCardProps) {
     </div>
   );
 }
+
+function VerdictList({ title, items }: { title: string; items?: string[] }) {
+  if (!items || items.length === 0) return null;
+  return (
+    <div>
+      <p className="font-medium">{title}</p>
+      <ul className="list-disc pl-5 text-muted-foreground">
+        {items.map((item) => (
+          <li key={item}>{item}</li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+/** "VERY_WEAK" → "Very weak" */
+function formatEnum(value: string): string {
+  const text = value.toLowerCase().replace(/_/g, " ");
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
@@ -0,0 +1,149 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import {
+  ResponsiveContainer,
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  Tooltip,
+  Legend,
+} from "recharts";
+
+export interface VerdictHistoryProps {
+  claimId: string;
+}
+
+interface PaperRef {
+  id: string;
+  title: string;
+}
+
+export interface VerdictHistoryEntry {
+  version: number;
+  outcome: string;
+  confidence: number;
+  evidenceCount: number;
+  paperCount: number;
+  createdAt: string;
+  addedPapers: PaperRef[];
+  removedPapers: PaperRef[];
+}
+
+const outcomeLabels: Record<string, { text: string; color: string }> = {
+  SUPPORTED: { text: "Supported", color: "text-green-700" },
+  CONTRADICTED: { text: "Contradicted", color: "text-red-700" },
+  MIXED: { text: "Mixed", color: "text-yellow-700" },
+  INSUFFICIENT: { text: "Insufficient", color: "text-gray-600" },
+};
+
+export function VerdictHistory({ claimId }: VerdictHistoryProps) {
+  const [versions, setVersions] = useState<VerdictHistoryEntry[] | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetch(`/api/claims/${claimId}/verdict/history`)
+      .then((res) => (res.ok ? res.json() : { versions: [] }))
+      .then((data) => {
+        if (!cancelled) setVersions(data.versions ?? []);
+      })
+      .catch(() => {
+        if (!cancelled) setVersions([]);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [claimId]);
+
+  // Nothing to chart until a claim has been researched at least once
+  if (!versions || versions.length === 0) return null;
+
+  const chartData = versions.map((v) => ({
+    name: `v${v.version}`,
+    confidence: Math.round(v.confidence * 100),
+    evidence: v.evidenceCount,
+  }));
+
+  return (
+    <section className="mb-6 rounded-lg border p-4" data-testid="verdict-history">
+      <h2 className="mb-4 text-xl font-semibold">Verdict History</h2>
+
+      {versions.length > 1 && (
+        <div className="mb-4 h-56">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={chartData}>
+              <XAxis dataKey="name" fontSize={12} />
+              <YAxis yAxisId="confidence" domain={[0, 100]} fontSize={12} unit="%" />
+              <YAxis yAxisId="evidence" orientation="right" allowDecimals={false} fontSize={12} />
+              <Tooltip />
+              <Legend />
+              <Line
+                yAxisId="confidence"
+                type="monotone"
+                dataKey="confidence"
+                name="Confidence"
+                stroke="#2563eb"
+              />
+              <Line
+                yAxisId="evidence"
+                type="monotone"
+                dataKey="evidence"
+                name="Evidence cards"
+                stroke="#16a34a"
+              />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+
+      <ol className="space-y-3">
+        {[...versions].reverse().map((v) => {
+          const label = outcomeLabels[v.outcome] ?? outcomeLabels.INSUFFICIENT;
+          return (
+            <li key={v.version} className="text-sm" data-testid="verdict-version">
+              <p>
+                <span className="font-medium">v{v.version}</span>
+                {" · "}
+                <span className={`font-medium ${label.color}`}>{label.text}</span>
+                {" · "}
+                {Math.round(v.confidence * 100)}% confidence
+                {" · "}
+                {v.evidenceCount} evidence / {v.paperCount} papers
+                <span className="text-muted-foreground">
+                  {" · "}
+                  {new Date(v.createdAt).toLocaleDateString()}
+                </span>
+              </p>
+              {v.version > 1 && (
+                <PaperDiff added={v.addedPapers} removed={v.removedPapers} />
+              )}
+            </li>
+          );
+        })}
+      </ol>
+    </section>
+  );
+}
+
+function PaperDiff({ added, removed }: { added: PaperRef[]; removed: PaperRef[] }) {
+  if (added.length === 0 && removed.length === 0) {
+    return <p className="text-xs text-muted-foreground">No change in papers</p>;
+  }
+  return (
+    <ul className="mt-1 space-y-0.5 text-xs">
+      {added.map((p) => (
+        <li key={`+${p.id}`} className="text-green-700">
+          + {p.title}
+        </li>
+      ))}
+      {removed.map((p) => (
+        <li key={`-${p.id}`} className="text-red-700">
+          − {p.title}
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -3,6 +3,7 @@
 import { useState } from "react";
 import { useSession } from "next-auth/react";
 import Link from "next/link";
+import { STAKE_LIMITS } from "@/lib/utils";
 
 export interface VoteButtonsProps {
   claimId: string;
@@ -24,6 +25,9 @@ export interface VoteButtonsProps {
  *  4. Ready to vote → green YES / red NO buttons
  *  5. Submitting → loading spinner
  *  6. Error → inline error message
+ *
+ * An optional stake locks extra coins in the YES/NO pool for the
+ * chosen side; winners split the losing pool when the claim resolves.
  */
 export function VoteButtons({
   claimId,
@@ -34,6 +38,7 @@ export function VoteButtons({
   const { data: session, status: authStatus } = useSession();
   const [submitting, setSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [stake, setStake] = useState("");
   const [localVote, setLocalVote] = useState<{
     side: string;
     revealAt: string;
@@ -121,11 +126,15 @@ export function VoteButtons({
     setSubmitting(true);
     setError(null);
 
+    const stakeAmount = parseInt(stake, 10);
+
     try {
       const res = await fetch(`/api/claims/${claimId}/vote`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ side }),
+        body: JSON.stringify(
+          stakeAmount > 0 ? { side, stake: stakeAmount } : { side },
+        ),
       });
 
       const data = await res.json();
@@ -170,6 +179,22 @@ export function VoteButtons({
           {submitting ? "…" : "NO (1 credit)"}
         </button>
       </div>
+      <label className="flex items-center gap-2 text-xs text-muted-foreground">
+        Stake (optional)
+        <input
+          type="number"
+          min={STAKE_LIMITS.MIN}
+          max={STAKE_LIMITS.MAX}
+          step={1}
+          value={stake}
+          onChange={(e) => setStake(e.target.value)}
+          disabled={submitting}
+          placeholder="0"
+          className="w-20 rounded-md border bg-background px-2 py-1 text-sm"
+          data-testid="stake-input"
+        />
+        coins on your pick
+      </label>
       {error && <p className="text-xs text-destructive">{error}</p>}
     </div>
   );
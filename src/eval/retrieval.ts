@@ -0,0 +1,164 @@
+/**
+ * Retrieval Eval
+ *
+ * Scores the dossier pipeline's retrieval against a gold set of claims
+ * (see src/lib/retrieval-eval.ts) and writes a JSON report. Runs offline:
+ * sources are recorded in the gold set, the LLM is a stub and, by default,
+ * embeddings come from the deterministic fake provider.
+ *
+ * Usage:
+ *   npm run eval:retrieval -- [options]
+ *
+ *   --gold <file>             gold set (default src/eval/fixtures/gold-claims.json)
+ *   --out <file>              write the JSON report here
+ *   --baseline <file>         print metric changes against an earlier report
+ *   --k <list>                recall cut-offs (default 3,5,10)
+ *   --embeddings <fake|configured>
+ *                             configured uses EMBEDDING_PROVIDER (network)
+ *   --min-similarity <n>      override RETRIEVAL_SETTINGS.minSimilarity
+ *   --chunks-per-paper <n>    override RETRIEVAL_SETTINGS.chunksPerPaper
+ *   --max-chunk-tokens <n>    override RETRIEVAL_SETTINGS.maxChunkTokens
+ *   --overlap-tokens <n>      override RETRIEVAL_SETTINGS.overlapTokens
+ *   --max-papers <n>          override RETRIEVAL_SETTINGS.maxPapersForEvidence
+ *   --dedup-abstract-similarity <n>
+ *                             confirm near-duplicate titles by abstract
+ *                             embeddings at this cosine similarity
+ *
+ * Exits non-zero on an invalid gold set or option.
+ */
+
+import { mkdirSync, readFileSync, writeFileSync } from "fs";
+import { basename, dirname } from "path";
+import { parseArgs } from "util";
+import { FakeEmbeddingProvider, getEmbeddingProvider } from "@/lib/llm";
+import {
+  compareSummaries,
+  goldSetSchema,
+  runRetrievalEval,
+  type RetrievalEvalReport,
+} from "@/lib/retrieval-eval";
+import {
+  RETRIEVAL_SETTINGS,
+  type RetrievalSettings,
+} from "@/lib/retrieval-settings";
+
+const DEFAULT_GOLD_SET = "src/eval/fixtures/gold-claims.json";
+
+// ── Options ─────────────────────────────────────────────────────────────
+
+const { values } = parseArgs({
+  options: {
+    gold: { type: "string", default: DEFAULT_GOLD_SET },
+    out: { type: "string" },
+    baseline: { type: "string" },
+    k: { type: "string", default: "3,5,10" },
+    embeddings: { type: "string", default: "fake" },
+    "min-similarity": { type: "string" },
+    "chunks-per-paper": { type: "string" },
+    "max-chunk-tokens": { type: "string" },
+    "overlap-tokens": { type: "string" },
+    "max-papers": { type: "string" },
+    "dedup-abstract-similarity": { type: "string" },
+  },
+});
+
+function numberOption(name: string, raw: string | undefined, fallback: number): number {
+  if (raw === undefined) return fallback;
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value < 0) {
+    throw new Error(`--${name} must be a non-negative number`);
+  }
+  return value;
+}
+
+/** Worker settings with any command-line overrides applied */
+function readSettings(): RetrievalSettings {
+  const override = (
+    name: keyof typeof values,
+    key: Exclude<keyof RetrievalSettings, "preferSections" | "dedupAbstractSimilarity">
+  ) => numberOption(name, values[name] as string | undefined, RETRIEVAL_SETTINGS[key]);
+
+  return {
+    ...RETRIEVAL_SETTINGS,
+    minSimilarity: override("min-similarity", "minSimilarity"),
+    chunksPerPaper: override("chunks-per-paper", "chunksPerPaper"),
+    maxChunkTokens: override("max-chunk-tokens", "maxChunkTokens"),
+    overlapTokens: override("overlap-tokens", "overlapTokens"),
+    maxPapersForEvidence: override("max-papers", "maxPapersForEvidence"),
+    dedupAbstractSimilarity:
+      values["dedup-abstract-similarity"] === undefined
+        ? RETRIEVAL_SETTINGS.dedupAbstractSimilarity
+        : numberOption(
+            "dedup-abstract-similarity",
+            values["dedup-abstract-similarity"],
+            0
+          ),
+  };
+}
+
+function readJson(file: string): unknown {
+  return JSON.parse(readFileSync(file, "utf8"));
+}
+
+// ── Run ─────────────────────────────────────────────────────────────────
+
+async function main() {
+  const k = values.k!.split(",").map((n) => numberOption("k", n.trim(), 0));
+  if (k.some((n) => !Number.isInteger(n) || n < 1)) {
+    throw new Error("--k must be a comma-separated list of positive integers");
+  }
+  if (values.embeddings !== "fake" && values.embeddings !== "configured") {
+    throw new Error("--embeddings must be fake or configured");
+  }
+
+  const gold = goldSetSchema.parse(readJson(values.gold!));
+  const report = await runRetrievalEval(gold, {
+    goldSetName: basename(values.gold!),
+    settings: readSettings(),
+    embeddings:
+      values.embeddings === "fake"
+        ? new FakeEmbeddingProvider()
+        : getEmbeddingProvider(),
+    k,
+  });
+
+  for (const claim of report.claims) {
+    const recall = Object.entries(claim.recallAtK)
+      .map(([cutoff, value]) => `R@${cutoff}=${value}`)
+      .join(" ");
+    const verdict = claim.verdictAgrees
+      ? claim.verdict
+      : `${claim.verdict ?? "none"} (expected ${claim.expectedVerdict})`;
+    console.log(
+      `${claim.id}: ${claim.papersFound} → ${claim.papersAfterDedup} papers, ${recall} RR=${claim.reciprocalRank}, verdict ${verdict}`
+    );
+  }
+
+  const { summary } = report;
+  console.log(
+    `\n${summary.claims} claims: ${Object.entries(summary.recallAtK)
+      .map(([cutoff, value]) => `recall@${cutoff}=${value}`)
+      .join(" ")} MRR=${summary.mrr} verdict agreement=${summary.verdictAgreement}`
+  );
+
+  if (values.baseline) {
+    const baseline = readJson(values.baseline) as RetrievalEvalReport;
+    const deltas = compareSummaries(baseline.summary, summary);
+    console.log(
+      `vs ${basename(values.baseline)}: ${Object.entries(deltas)
+        .map(([metric, delta]) => `${metric} ${delta >= 0 ? "+" : ""}${delta}`)
+        .join(" ")}`
+    );
+  }
+
+  if (values.out) {
+    mkdirSync(dirname(values.out), { recursive: true });
+    writeFileSync(values.out, `${JSON.stringify(report, null, 2)}\n`);
+    console.log(`Report written to ${values.out}`);
+  }
+}
+
+main().catch((err) => {
+  console.error("[Retrieval Eval] Error:", err instanceof Error ? err.message : err);
+  process.exit(1);
+});
@@ -25,6 +25,7 @@ export interface ArxivSearchResult {
 /**
  * Search arXiv for articles matching a query
  * Focus on health/biomedical categories: q-bio, physics.med-ph, stat.AP
+ * `since` keeps articles submitted on or after that date.
  */
 export async function searchArxiv(
   query: string,
@@ -32,9 +33,10 @@ export async function searchArxiv(
     maxResults?: number;
     start?: number;
     categories?: string[];
+    since?: Date;
   } = {}
 ): Promise<ArxivSearchResult> {
-  const { maxResults = 20, start = 0, categories = [] } = options;
+  const { maxResults = 20, start = 0, categories = [], since } = options;
 
   // Build search query
   let searchQuery = `all:${encodeURIComponent(query)}`;
@@ -45,6 +47,11 @@ export async function searchArxiv(
     searchQuery = `(${searchQuery})+AND+(${catFilter})`;
   }
 
+  if (since) {
+    const from = since.toISOString().slice(0, 16).replace(/[-T:]/g, "");
+    searchQuery = `(${searchQuery})+AND+submittedDate:[${from}+TO+300001010000]`;
+  }
+
   const params = new URLSearchParams({
     search_query: searchQuery,
     start: start.toString(),
@@ -67,26 +74,32 @@ export async function searchArxiv(
   return parseArxivResponse(xmlText);
 }
 
+/**
+ * Health-related arXiv categories, searched together by default. Query
+ * planning may narrow a search to a subset of these.
+ */
+export const ARXIV_HEALTH_CATEGORIES: Record<string, string> = {
+  "q-bio.QM": "Quantitative Methods (biology)",
+  "q-bio.TO": "Tissues and Organs",
+  "q-bio.NC": "Neurons and Cognition",
+  "physics.med-ph": "Medical Physics",
+  "stat.AP": "Statistics Applications",
+  "cs.LG": "Machine Learning (for health AI papers)",
+};
+
 /**
  * Search arXiv specifically for health/biomedical papers
  */
 export async function searchArxivHealth(
   query: string,
-  maxResults: number = 20
+  maxResults: number = 20,
+  categories: string[] = Object.keys(ARXIV_HEALTH_CATEGORIES),
+  since?: Date
 ): Promise<ArxivSearchResult> {
-  // Health-related arXiv categories
-  const healthCategories = [
-    "q-bio.QM", // Quantitative Methods (biology)
-    "q-bio.TO", // Tissues and Organs
-    "q-bio.NC", // Neurons and Cognition
-    "physics.med-ph", // Medical Physics
-    "stat.AP", // Statistics Applications
-    "cs.LG", // Machine Learning (for health AI papers)
-  ];
-
   return searchArxiv(query, {
     maxResults,
-    categories: healthCategories,
+    categories,
+    since,
   });
 }
 
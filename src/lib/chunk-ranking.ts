@@ -0,0 +1,95 @@
+/**
+ * Chunk Ranking
+ *
+ * The database-free half of vector search: how similarity-ordered chunks
+ * are grouped per paper, and the same search run over embeddings held in
+ * memory. `searchChunksGroupedByPaper` in `@/lib/vector-search` groups its
+ * pgvector results here; the offline retrieval eval uses
+ * `searchChunksInMemory`, so both rank chunks by the same rules.
+ */
+import type { GroupedSearchOptions, SimilarChunk } from "@/lib/vector-search";
+
+// ── Grouping ────────────────────────────────────────────────────────────
+
+/**
+ * Group similarity-ordered chunks by paper, keeping each paper's top
+ * `chunksPerPaper` after the preferred-section boost. Papers appear in the
+ * order of their best chunk.
+ */
+export function groupChunksByPaper(
+  results: SimilarChunk[],
+  options: Pick<
+    GroupedSearchOptions,
+    "chunksPerPaper" | "preferSections" | "sectionBoost"
+  > = {}
+): Map<string, SimilarChunk[]> {
+  const {
+    chunksPerPaper = 3,
+    preferSections = [],
+    sectionBoost = 0.05,
+  } = options;
+
+  const rank = (chunk: SimilarChunk) =>
+    chunk.similarity +
+    (chunk.section && preferSections.includes(chunk.section) ? sectionBoost : 0);
+  const allChunks =
+    preferSections.length > 0
+      ? [...results].sort((a, b) => rank(b) - rank(a))
+      : results;
+
+  const grouped = new Map<string, SimilarChunk[]>();
+  for (const chunk of allChunks) {
+    const existing = grouped.get(chunk.paperId) ?? [];
+    if (existing.length < chunksPerPaper) {
+      existing.push(chunk);
+      grouped.set(chunk.paperId, existing);
+    }
+  }
+
+  return grouped;
+}
+
+// ── In-memory search ────────────────────────────────────────────────────
+
+/**
+ * `searchChunksGroupedByPaper` over embeddings held in memory instead of
+ * pgvector: same threshold, limit and grouping rules.
+ */
+export function searchChunksInMemory(
+  queryEmbedding: number[],
+  chunks: Array<Omit<SimilarChunk, "similarity"> & { embedding: number[] }>,
+  options: GroupedSearchOptions = {}
+): Map<string, SimilarChunk[]> {
+  const {
+    limit = 10,
+    minSimilarity = 0.7,
+    paperIds,
+    chunksPerPaper = 3,
+    ...groupOpts
+  } = options;
+
+  const results = chunks
+    .filter((chunk) => !paperIds?.length || paperIds.includes(chunk.paperId))
+    .map(({ embedding, ...chunk }) => ({
+      ...chunk,
+      similarity: cosineSimilarity(queryEmbedding, embedding),
+    }))
+    .filter((chunk) => chunk.similarity >= minSimilarity)
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, limit * chunksPerPaper);
+
+  return groupChunksByPaper(results, { chunksPerPaper, ...groupOpts });
+}
+
+/** Cosine similarity, matching pgvector's `1 - (a <=> b)` */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
@@ -10,6 +10,10 @@
  *   - Split priority: paragraph > sentence > word (preserves semantics).
  *   - Token count is approximated at 1 token ≈ 4 chars (accurate enough for
  *     chunking; exact counting via tiktoken adds ~4 MB to the bundle).
+ *   - Full-text papers go through `chunkSections`, which walks a section tree
+ *     (abstract, methods, results, limitations, figure captions, …) and tags
+ *     every chunk with its section so retrieval can favour results and the UI
+ *     can say where a quote came from.
  */
 
 // ── Types ───────────────────────────────────────────────────────────────
@@ -21,6 +25,40 @@ export interface Chunk {
   chunkIndex: number;
   /** Approximate token count (chars / 4) */
   estimatedTokens: number;
+  /**
+   * Character span of the chunk's own text in the whitespace-normalised
+   * input. The overlap prefix borrowed from the previous chunk is excluded,
+   * so consecutive spans tile the text without gaps.
+   */
+  startOffset: number;
+  endOffset: number;
+}
+
+export type SectionName =
+  | "abstract"
+  | "introduction"
+  | "methods"
+  | "results"
+  | "discussion"
+  | "conclusion"
+  | "limitations"
+  | "figure"
+  | "table"
+  | "other";
+
+/** A node in a paper's section tree */
+export interface DocumentSection {
+  name: SectionName;
+  /** Heading as printed in the paper (e.g. "Materials and Methods") */
+  title?: string;
+  /** The section's own text, excluding its children */
+  text: string;
+  children?: DocumentSection[];
+}
+
+export interface SectionChunk extends Chunk {
+  section: SectionName;
+  sectionTitle?: string;
 }
 
 export interface ChunkOptions {
@@ -36,6 +74,20 @@ const CHARS_PER_TOKEN = 4;
 const DEFAULT_MAX_TOKENS = 500;
 const DEFAULT_OVERLAP_TOKENS = 100;
 
+/** Display names, e.g. for quoting "from the Results section" */
+export const SECTION_LABELS: Record<SectionName, string> = {
+  abstract: "Abstract",
+  introduction: "Introduction",
+  methods: "Methods",
+  results: "Results",
+  discussion: "Discussion",
+  conclusion: "Conclusion",
+  limitations: "Limitations",
+  figure: "Figure",
+  table: "Table",
+  other: "Body",
+};
+
 // ── Helpers ─────────────────────────────────────────────────────────────
 
 /** Approximate token count for a string. */
@@ -101,29 +153,44 @@ export function chunkText(text: string, options?: ChunkOptions): Chunk[] {
         content: cleaned,
         chunkIndex: 0,
         estimatedTokens: estimateTokens(cleaned),
+        startOffset: 0,
+        endOffset: cleaned.length,
       },
     ];
   }
 
+  // Every segment is a verbatim substring of `cleaned`, found in order, so
+  // a forward-moving cursor recovers its offset.
+  let cursor = 0;
+  const locate = (segment: string): number => {
+    const start = cleaned.indexOf(segment, cursor);
+    cursor = start + segment.length;
+    return start;
+  };
+
   // Split into paragraphs (double newline)
   const paragraphs = cleaned.split(/\n\n+/).filter((p) => p.length > 0);
 
   // Flatten paragraphs into sentence-level segments.  If a paragraph fits
   // within the chunk budget we keep it whole; otherwise we split by sentence.
-  const segments: string[] = [];
+  const segments: Array<{ text: string; start: number }> = [];
   for (const para of paragraphs) {
     if (para.length <= maxChars) {
-      segments.push(para);
+      segments.push({ text: para, start: locate(para) });
     } else {
       // Paragraph too large — split into sentences
       const sentences = splitSentences(para);
       for (const sentence of sentences) {
+        const sentenceStart = locate(sentence);
         if (sentence.length <= maxChars) {
-          segments.push(sentence);
+          segments.push({ text: sentence, start: sentenceStart });
         } else {
           // Single sentence exceeds limit — hard-split by chars
           for (let i = 0; i < sentence.length; i += maxChars) {
-            segments.push(sentence.slice(i, i + maxChars));
+            segments.push({
+              text: sentence.slice(i, i + maxChars),
+              start: sentenceStart + i,
+            });
           }
         }
       }
@@ -131,32 +198,37 @@ export function chunkText(text: string, options?: ChunkOptions): Chunk[] {
   }
 
   // Greedily pack segments into chunks
-  const rawChunks: string[] = [];
-  let current = "";
+  const rawChunks: Array<{ content: string; start: number; end: number }> = [];
+  let current: { content: string; start: number; end: number } | null = null;
 
   for (const segment of segments) {
-    const candidate = current.length === 0 ? segment : `${current}\n\n${segment}`;
-    if (candidate.length <= maxChars) {
-      current = candidate;
+    const end = segment.start + segment.text.length;
+    const candidate: string = current
+      ? `${current.content}\n\n${segment.text}`
+      : segment.text;
+    if (current && candidate.length <= maxChars) {
+      current = { content: candidate, start: current.start, end };
     } else {
-      if (current.length > 0) rawChunks.push(current);
-      current = segment;
+      if (current) rawChunks.push(current);
+      current = { content: segment.text, start: segment.start, end };
     }
   }
-  if (current.length > 0) rawChunks.push(current);
+  if (current) rawChunks.push(current);
 
   // Apply overlap
-  const chunks: Chunk[] = rawChunks.map((content, i) => {
+  const chunks: Chunk[] = rawChunks.map(({ content, start, end }, i) => {
     if (i === 0 || overlapChars === 0) {
       return {
         content,
         chunkIndex: i,
         estimatedTokens: estimateTokens(content),
+        startOffset: start,
+        endOffset: end,
       };
     }
 
     // Take the tail of the previous raw chunk as overlap prefix
-    const prevChunk = rawChunks[i - 1];
+    const prevChunk = rawChunks[i - 1].content;
     const overlapText = prevChunk.slice(-overlapChars);
     // Find a word boundary to avoid cutting mid-word
     const boundaryIdx = overlapText.indexOf(" ");
@@ -168,8 +240,42 @@ export function chunkText(text: string, options?: ChunkOptions): Chunk[] {
       content: withOverlap,
       chunkIndex: i,
       estimatedTokens: estimateTokens(withOverlap),
+      startOffset: start,
+      endOffset: end,
     };
   });
 
   return chunks;
 }
+
+/**
+ * Chunk a paper's section tree, tagging every chunk with its section.
+ *
+ * Sections are walked depth-first (a section's own text before its
+ * children) and each one is chunked independently, so no chunk straddles
+ * two sections. `chunkIndex` runs across the whole paper; offsets are
+ * relative to the owning section's text.
+ */
+export function chunkSections(
+  sections: DocumentSection[],
+  options?: ChunkOptions
+): SectionChunk[] {
+  const chunks: SectionChunk[] = [];
+
+  const walk = (nodes: DocumentSection[]) => {
+    for (const node of nodes) {
+      for (const chunk of chunkText(node.text, options)) {
+        chunks.push({
+          ...chunk,
+          chunkIndex: chunks.length,
+          section: node.name,
+          sectionTitle: node.title,
+        });
+      }
+      if (node.children) walk(node.children);
+    }
+  };
+  walk(sections);
+
+  return chunks;
+}
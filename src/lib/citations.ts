@@ -0,0 +1,112 @@
+/**
+ * Verdict Citations
+ *
+ * Citation keys tie sentences in a synthesised verdict back to the evidence
+ * that supports them:
+ *
+ *   P3    — the third evidence card sent to synthesis (a Paper)
+ *   P3.2  — the second retrieved excerpt of that paper (a DocumentChunk)
+ *
+ * Keys are assigned by the worker in the order cards are built, written into
+ * the synthesis prompt, and cited inline by the model as "[P3]" or
+ * "[P3.2, P5]". `saveVerdict` stores one VerdictCitation row per key the
+ * summary actually uses, so a key always resolves to the rows it named when
+ * the verdict was written.
+ *
+ * Pure string helpers only — safe to import from client components.
+ */
+
+// ── Types ───────────────────────────────────────────────────────────────
+
+/** What a key pointed at when the synthesis prompt was built */
+export interface CitationSource {
+  key: string;
+  paperId: string;
+  /** Set for excerpt keys (P3.2), null for paper keys (P3) */
+  chunkId: string | null;
+}
+
+/** A stored citation resolved for display */
+export interface ResolvedCitation extends CitationSource {
+  paperTitle: string;
+  section: string | null;
+  excerpt: string | null;
+}
+
+export type CitationSegment =
+  | { type: "text"; text: string }
+  | { type: "cite"; keys: string[] };
+
+// ── Constants ───────────────────────────────────────────────────────────
+
+const KEY = String.raw`P\d+(?:\.\d+)?`;
+
+/** "[P1]", "[P1.2]", "[P1, P3.2]" */
+const MARKER = new RegExp(String.raw`\[(${KEY}(?:\s*[,;]\s*${KEY})*)\]`, "g");
+
+// ── Keys ────────────────────────────────────────────────────────────────
+
+/** Key for the nth (0-based) evidence card */
+export function paperCitationKey(index: number): string {
+  return `P${index + 1}`;
+}
+
+/** Key for the nth (0-based) excerpt of a cited paper */
+export function excerptCitationKey(paperKey: string, index: number): string {
+  return `${paperKey}.${index + 1}`;
+}
+
+/** The paper key an excerpt key belongs to ("P3.2" → "P3") */
+export function paperKeyOf(key: string): string {
+  return key.split(".")[0];
+}
+
+// ── Parsing ─────────────────────────────────────────────────────────────
+
+/**
+ * Every key cited in `text`, in order of first appearance.
+ */
+export function extractCitationKeys(text: string): string[] {
+  const keys = new Set<string>();
+  for (const segment of splitCitations(text)) {
+    if (segment.type === "cite") segment.keys.forEach((k) => keys.add(k));
+  }
+  return [...keys];
+}
+
+/**
+ * Split text into plain runs and citation markers. Whitespace before a
+ * marker is dropped so footnotes sit against the preceding word.
+ */
+export function splitCitations(text: string): CitationSegment[] {
+  const segments: CitationSegment[] = [];
+  let last = 0;
+
+  for (const match of text.matchAll(MARKER)) {
+    const before = text.slice(last, match.index).replace(/\s+$/, "");
+    if (before) segments.push({ type: "text", text: before });
+    segments.push({
+      type: "cite",
+      keys: match[1].split(/[,;]/).map((k) => k.trim()),
+    });
+    last = match.index + match[0].length;
+  }
+
+  const rest = text.slice(last);
+  if (rest) segments.push({ type: "text", text: rest });
+  return segments;
+}
+
+/**
+ * Sources for the keys cited in `text`. Unknown keys — ones the model
+ * invented — are dropped.
+ */
+export function resolveCitationSources(
+  text: string,
+  sources: CitationSource[]
+): CitationSource[] {
+  const byKey = new Map(sources.map((s) => [s.key, s]));
+  return extractCitationKeys(text)
+    .map((key) => byKey.get(key))
+    .filter((s): s is CitationSource => s !== undefined);
+}
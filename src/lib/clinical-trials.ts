@@ -0,0 +1,130 @@
+/**
+ * ClinicalTrials.gov API Client (v2)
+ * Documentation: https://clinicaltrials.gov/data-api/api
+ *
+ * Registered trials, including ones that never published. A registration
+ * describes what a trial set out to measure; finding unpublished or
+ * terminated trials for an intervention is a check on publication bias.
+ * No API key.
+ */
+
+export const CLINICAL_TRIALS_BASE_URL = "https://clinicaltrials.gov/api/v2";
+
+// ── Types ───────────────────────────────────────────────────────────────
+
+export interface ClinicalTrial {
+  /** Registry ID, e.g. "NCT04512345" */
+  nctId: string;
+  title: string;
+  briefSummary?: string;
+  /** e.g. "COMPLETED", "RECRUITING", "TERMINATED" */
+  overallStatus?: string;
+  /** e.g. "INTERVENTIONAL", "OBSERVATIONAL" */
+  studyType?: string;
+  /** e.g. ["PHASE2", "PHASE3"]; empty for non-drug trials */
+  phases: string[];
+  enrollment?: number;
+  startYear?: number;
+  /** Overall officials, falling back to the lead sponsor */
+  investigators: string[];
+  hasResults: boolean;
+}
+
+export interface ClinicalTrialsSearchResult {
+  trials: ClinicalTrial[];
+}
+
+// ── Public API ──────────────────────────────────────────────────────────
+
+/**
+ * Search registered studies. `query` is free text, matched against
+ * conditions, interventions, titles and descriptions. `since` keeps
+ * studies first posted on or after that date.
+ */
+export async function searchClinicalTrials(
+  query: string,
+  options: { maxResults?: number; since?: Date } = {}
+): Promise<ClinicalTrialsSearchResult> {
+  const { maxResults = 20, since } = options;
+
+  const params = new URLSearchParams({
+    "query.term": query,
+    pageSize: String(Math.min(maxResults, 1000)),
+    format: "json",
+    ...(since && {
+      "filter.advanced": `AREA[StudyFirstPostDate]RANGE[${since.toISOString().slice(0, 10)},MAX]`,
+    }),
+  });
+
+  const response = await fetch(`${CLINICAL_TRIALS_BASE_URL}/studies?${params}`);
+
+  if (!response.ok) {
+    throw new Error(
+      `ClinicalTrials.gov search failed: ${response.status} ${response.statusText}`
+    );
+  }
+
+  return parseClinicalTrialsSearch(await response.json());
+}
+
+/** Public record page for a trial */
+export function getClinicalTrialUrl(nctId: string): string {
+  return `https://clinicaltrials.gov/study/${nctId}`;
+}
+
+// ── Parsing ─────────────────────────────────────────────────────────────
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+/**
+ * Parse a `/studies` response. Exported for testing.
+ */
+export function parseClinicalTrialsSearch(data: any): ClinicalTrialsSearchResult {
+  const studies: any[] = data?.studies ?? [];
+  return {
+    trials: studies
+      .map(parseOneStudy)
+      .filter((t): t is ClinicalTrial => t !== null),
+  };
+}
+
+function parseOneStudy(study: any): ClinicalTrial | null {
+  const protocol = study?.protocolSection;
+  const identification = protocol?.identificationModule;
+  const nctId: string | undefined = identification?.nctId;
+  const title: string | undefined =
+    identification?.officialTitle ?? identification?.briefTitle;
+  if (!nctId || !title) return null;
+
+  const officials: any[] =
+    protocol?.contactsLocationsModule?.overallOfficials ?? [];
+  const sponsor: string | undefined =
+    protocol?.sponsorCollaboratorsModule?.leadSponsor?.name;
+  const investigators = officials.length
+    ? officials.map((o: any) => o.name).filter(Boolean)
+    : sponsor
+      ? [sponsor]
+      : [];
+
+  const design = protocol?.designModule;
+  const startYear = parseInt(
+    String(protocol?.statusModule?.startDateStruct?.date ?? ""),
+    10
+  );
+  const enrollment = design?.enrollmentInfo?.count;
+
+  return {
+    nctId,
+    title,
+    briefSummary: protocol?.descriptionModule?.briefSummary ?? undefined,
+    overallStatus: protocol?.statusModule?.overallStatus ?? undefined,
+    studyType: design?.studyType ?? undefined,
+    phases: (design?.phases ?? []).filter((p: string) => p !== "NA"),
+    enrollment: Number.isInteger(enrollment) ? enrollment : undefined,
+    startYear: Number.isFinite(startYear) ? startYear : undefined,
+    investigators,
+    hasResults: Boolean(study?.hasResults),
+  };
+}
+
+/* eslint-enable @typescript-eslint/no-explicit-any */
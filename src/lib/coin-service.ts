@@ -9,7 +9,7 @@
  */
 
 import { prisma } from "@/lib/prisma";
-import { CreditEventType, Prisma } from "@prisma/client";
+import { CreditEventType, ForecastSide, Prisma } from "@prisma/client";
 
 export interface CoinTransferOptions {
   userId: string;
@@ -29,12 +29,42 @@ export interface CoinTransferResult {
   error?: string;
 }
 
+/** Thrown inside a transaction when a user can't cover a debit or stake */
+export class CoinTransferError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CoinTransferError";
+  }
+}
+
 /**
  * Transfer coins to/from a user with full audit trail
  * Positive amount = credit, negative = debit
  */
 export async function transferCoins(
   options: CoinTransferOptions
+): Promise<CoinTransferResult> {
+  try {
+    return await prisma.$transaction((tx) => applyTransfer(tx, options));
+  } catch (error) {
+    console.error("[CoinService] Transfer failed:", error);
+    return {
+      success: false,
+      newBalance: 0,
+      eventId: "",
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
+
+/**
+ * Move coins and record the ledger event inside an open transaction, so
+ * callers can commit other writes (e.g. a CoinHold) with it.
+ * Throws a CoinTransferError on insufficient credits.
+ */
+async function applyTransfer(
+  tx: Prisma.TransactionClient,
+  options: CoinTransferOptions
 ): Promise<CoinTransferResult> {
   const {
     userId,
@@ -47,90 +77,75 @@ export async function transferCoins(
     idempotencyKey,
   } = options;
 
-  try {
-    // Check for duplicate operation (idempotency)
-    if (idempotencyKey) {
-      const existing = await prisma.creditEvent.findUnique({
-        where: { idempotencyKey },
-      });
-
-      if (existing) {
-        const user = await prisma.user.findUnique({
-          where: { id: userId },
-          select: { credits: true },
-        });
-
-        return {
-          success: true,
-          newBalance: user?.credits || 0,
-          eventId: existing.id,
-        };
-      }
-    }
+  // Check for duplicate operation (idempotency)
+  if (idempotencyKey) {
+    const existing = await tx.creditEvent.findUnique({
+      where: { idempotencyKey },
+    });
 
-    // Execute transfer with transaction
-    const result = await prisma.$transaction(async (tx) => {
-      // Get current balance with lock
+    if (existing) {
       const user = await tx.user.findUnique({
         where: { id: userId },
         select: { credits: true },
       });
 
-      if (!user) {
-        throw new Error(`User ${userId} not found`);
-      }
+      return {
+        success: true,
+        newBalance: user?.credits || 0,
+        eventId: existing.id,
+      };
+    }
+  }
 
-      const balanceBefore = user.credits;
-      const balanceAfter = balanceBefore + amount;
+  // Get current balance with lock
+  const user = await tx.user.findUnique({
+    where: { id: userId },
+    select: { credits: true },
+  });
 
-      // Prevent negative balance (except for admin adjustments)
-      if (balanceAfter < 0 && type !== "ADMIN_GRANT") {
-        throw new Error(
-          `Insufficient credits: ${balanceBefore} available, ${Math.abs(
-            amount
-          )} required`
-        );
-      }
+  if (!user) {
+    throw new Error(`User ${userId} not found`);
+  }
 
-      // Update balance
-      await tx.user.update({
-        where: { id: userId },
-        data: { credits: balanceAfter },
-      });
+  const balanceBefore = user.credits;
+  const balanceAfter = balanceBefore + amount;
 
-      // Record in ledger
-      const event = await tx.creditEvent.create({
-        data: {
-          userId,
-          type,
-          amount,
-          balanceBefore,
-          balanceAfter,
-          note,
-          refType,
-          refId,
-          metadata: metadata ? (metadata as Prisma.JsonObject) : undefined,
-          idempotencyKey,
-        },
-      });
+  // Prevent negative balance (except for admin adjustments)
+  if (balanceAfter < 0 && type !== "ADMIN_GRANT") {
+    throw new CoinTransferError(
+      `Insufficient credits: ${balanceBefore} available, ${Math.abs(
+        amount
+      )} required`
+    );
+  }
 
-      return {
-        success: true,
-        newBalance: balanceAfter,
-        eventId: event.id,
-      };
-    });
+  // Update balance
+  await tx.user.update({
+    where: { id: userId },
+    data: { credits: balanceAfter },
+  });
 
-    return result;
-  } catch (error) {
-    console.error("[CoinService] Transfer failed:", error);
-    return {
-      success: false,
-      newBalance: 0,
-      eventId: "",
-      error: error instanceof Error ? error.message : "Unknown error",
-    };
-  }
+  // Record in ledger
+  const event = await tx.creditEvent.create({
+    data: {
+      userId,
+      type,
+      amount,
+      balanceBefore,
+      balanceAfter,
+      note,
+      refType,
+      refId,
+      metadata: metadata ? (metadata as Prisma.JsonObject) : undefined,
+      idempotencyKey,
+    },
+  });
+
+  return {
+    success: true,
+    newBalance: balanceAfter,
+    eventId: event.id,
+  };
 }
 
 /**
@@ -197,6 +212,17 @@ export async function grantDailyLogin(
   });
 }
 
+function voteSpend(userId: string, claimId: string): CoinTransferOptions {
+  return {
+    userId,
+    type: "VOTE_SPENT",
+    amount: -1,
+    note: "Voted on claim",
+    refType: "claim",
+    refId: claimId,
+  };
+}
+
 /**
  * Spend coins to vote on a claim
  */
@@ -204,14 +230,20 @@ export async function spendVoteCoins(
   userId: string,
   claimId: string
 ): Promise<CoinTransferResult> {
-  return transferCoins({
-    userId,
-    type: "VOTE_SPENT",
-    amount: -1,
-    note: "Voted on claim",
-    refType: "claim",
-    refId: claimId,
-  });
+  return transferCoins(voteSpend(userId, claimId));
+}
+
+/**
+ * Spend the vote coin inside an open transaction, so the vote is only
+ * written if it was paid for. Throws a CoinTransferError on insufficient
+ * credits.
+ */
+export async function applyVoteSpend(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  claimId: string
+): Promise<CoinTransferResult> {
+  return applyTransfer(tx, voteSpend(userId, claimId));
 }
 
 /**
@@ -299,60 +331,134 @@ export async function adminAdjustBalance(
 }
 
 /**
- * FUTURE Phase 2: Escrow coins for betting
+ * Phase 2: Escrow coins for pool betting
+ * Debits the stake and records a LOCKED CoinHold in one transaction.
+ * One stake per user per market: repeating it returns the LOCKED hold, and
+ * a hold that was already refunded or settled can't be staked again.
  */
 export async function escrowCoins(
   userId: string,
   marketId: string,
-  amount: number
-): Promise<{ success: boolean; holdId?: string; error?: string }> {
+  amount: number,
+  side: ForecastSide
+): Promise<{
+  success: boolean;
+  holdId?: string;
+  newBalance?: number;
+  error?: string;
+}> {
   try {
-    const result = await prisma.$transaction(async (tx) => {
-      // Deduct from balance
-      const user = await tx.user.findUnique({
-        where: { id: userId },
-        select: { credits: true },
-      });
+    const { holdId, newBalance } = await prisma.$transaction((tx) =>
+      applyEscrow(tx, userId, marketId, amount, side)
+    );
+    return { success: true, holdId, newBalance };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Escrow failed",
+    };
+  }
+}
 
-      if (!user || user.credits < amount) {
-        throw new Error("Insufficient credits");
-      }
+/**
+ * `escrowCoins` inside an open transaction, so the stake is only held if
+ * the caller's other writes (e.g. the vote) commit with it. Throws a
+ * CoinTransferError if the stake can't be covered or was already settled.
+ */
+export async function applyEscrow(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  marketId: string,
+  amount: number,
+  side: ForecastSide
+): Promise<{ holdId: string; newBalance?: number }> {
+  const existing = await tx.coinHold.findUnique({
+    where: { userId_marketId: { userId, marketId } },
+  });
 
-      await tx.user.update({
-        where: { id: userId },
-        data: { credits: { decrement: amount } },
-      });
+  if (existing) {
+    if (existing.status === "LOCKED") return { holdId: existing.id };
+    // The escrow debit was already returned or paid out
+    throw new CoinTransferError(
+      "Your stake on this market has already been returned or settled"
+    );
+  }
 
-      // Create hold record
-      const hold = await tx.coinHold.create({
-        data: {
-          userId,
-          marketId,
-          amount,
-          status: "LOCKED",
-        },
-      });
+  const transfer = await applyTransfer(tx, {
+    userId,
+    type: "STAKE_ESCROW",
+    amount: -amount,
+    note: `Staked on ${side}`,
+    refType: "market",
+    refId: marketId,
+    metadata: { side },
+    idempotencyKey: `stake-escrow-${userId}-${marketId}`,
+  });
+  const hold = await tx.coinHold.create({
+    data: {
+      userId,
+      marketId,
+      amount,
+      side,
+      status: "LOCKED",
+    },
+  });
+  return { holdId: hold.id, newBalance: transfer.newBalance };
+}
 
-      // Log in ledger
-      await tx.creditEvent.create({
-        data: {
-          userId,
-          type: "VOTE_SPENT", // Will be STAKE_ESCROW in Phase 2
-          amount: -amount,
-          refType: "market",
-          refId: marketId,
-          note: "Coins escrowed for betting",
-        },
-      });
+/**
+ * Phase 2: Return a locked stake to its owner (idempotent per hold)
+ * Used when a stake has no counterparty at settlement.
+ * The hold becomes REFUNDED, which takes it out of its side's pool.
+ */
+export async function refundStake(
+  holdId: string
+): Promise<CoinTransferResult> {
+  const hold = await prisma.coinHold.findUnique({ where: { id: holdId } });
 
-      return hold.id;
-    });
+  if (!hold) {
+    return {
+      success: false,
+      newBalance: 0,
+      eventId: "",
+      error: `Hold ${holdId} not found`,
+    };
+  }
+
+  // Paid out or forfeited at settlement: the stake is no longer held
+  if (hold.status !== "LOCKED" && hold.status !== "REFUNDED") {
+    return {
+      success: false,
+      newBalance: 0,
+      eventId: "",
+      error: `Hold ${holdId} is already ${hold.status.toLowerCase()}`,
+    };
+  }
 
-    return { success: true, holdId: result };
+  try {
+    return await prisma.$transaction(async (tx) => {
+      const result = await applyTransfer(tx, {
+        userId: hold.userId,
+        type: "STAKE_REFUND",
+        amount: hold.amount,
+        note: "Stake returned",
+        refType: "market",
+        refId: hold.marketId,
+        idempotencyKey: `stake-refund-${hold.id}`,
+      });
+      await tx.coinHold.updateMany({
+        where: { id: hold.id, status: "LOCKED" },
+        data: { status: "REFUNDED", releasedAt: new Date() },
+      });
+      return result;
+    });
   } catch (error) {
+    console.error("[CoinService] Stake refund failed:", error);
     return {
       success: false,
-      error: error instanceof Error ? error.message : "Escrow failed",
+      newBalance: 0,
+      eventId: "",
+      error: error instanceof Error ? error.message : "Unknown error",
     };
   }
 }
@@ -0,0 +1,139 @@
+/**
+ * Crossref REST API Client
+ * Documentation: https://api.crossref.org/swagger-ui/index.html
+ *
+ * Used for metadata enrichment, not search: given a DOI, Crossref returns
+ * the publisher's record — journal, issue date, authors and (for some
+ * publishers) the abstract. Its update metadata also records retractions
+ * and expressions of concern, from publishers and from the Retraction
+ * Watch database. Setting CROSSREF_MAILTO puts requests in the
+ * "polite" pool, which is faster and more reliable.
+ */
+
+export const CROSSREF_BASE_URL = "https://api.crossref.org";
+
+// ── Types ───────────────────────────────────────────────────────────────
+
+export interface CrossrefWork {
+  doi: string;
+  title?: string;
+  abstract?: string;
+  authors: string[];
+  /** Journal title; unset for preprints and other posted content */
+  journal?: string;
+  publishedYear?: number;
+  /** Crossref work type, e.g. "journal-article", "posted-content" */
+  type: string;
+  isPreprint: boolean;
+  /** Notices issued about this work: retractions, corrections, … */
+  updatedBy: CrossrefUpdate[];
+  /** Works this one is a notice about (set when this is a retraction notice) */
+  updates: CrossrefUpdate[];
+}
+
+export interface CrossrefUpdate {
+  /** Normalised update type, e.g. "retraction", "expression_of_concern", "correction" */
+  type: string;
+  /** DOI of the other side of the update (the notice, or the updated work) */
+  doi?: string;
+  /** Who asserted the update, e.g. "publisher", "retraction-watch" */
+  source?: string;
+}
+
+// ── Public API ──────────────────────────────────────────────────────────
+
+/**
+ * Fetch the Crossref record for a DOI. Resolves to null when Crossref has
+ * no record (404), e.g. for DOIs registered with DataCite.
+ */
+export async function getCrossrefWork(doi: string): Promise<CrossrefWork | null> {
+  const mailto = process.env.CROSSREF_MAILTO;
+  const query = mailto ? `?${new URLSearchParams({ mailto })}` : "";
+
+  const response = await fetch(
+    `${CROSSREF_BASE_URL}/works/${encodeURIComponent(doi)}${query}`
+  );
+
+  if (response.status === 404) return null;
+
+  if (!response.ok) {
+    throw new Error(
+      `Crossref lookup failed: ${response.status} ${response.statusText}`
+    );
+  }
+
+  return parseCrossrefWork(await response.json());
+}
+
+// ── Parsing ─────────────────────────────────────────────────────────────
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+/**
+ * Parse a `/works/{doi}` response. Exported for testing.
+ */
+export function parseCrossrefWork(data: any): CrossrefWork | null {
+  const work = data?.message;
+  if (!work?.DOI) return null;
+
+  const type = String(work.type ?? "");
+  const isPreprint = type === "posted-content" && work.subtype === "preprint";
+
+  const authors: string[] = (work.author ?? [])
+    .map((a: any) =>
+      a.family ? [a.given, a.family].filter(Boolean).join(" ") : (a.name ?? "")
+    )
+    .filter(Boolean);
+
+  return {
+    doi: String(work.DOI),
+    title: firstString(work.title),
+    abstract: work.abstract ? stripJats(work.abstract) : undefined,
+    authors,
+    journal: type === "journal-article" ? firstString(work["container-title"]) : undefined,
+    publishedYear: issuedYear(work),
+    type,
+    isPreprint,
+    updatedBy: parseUpdates(work["updated-by"]),
+    updates: parseUpdates(work["update-to"]),
+  };
+}
+
+function parseUpdates(entries: any): CrossrefUpdate[] {
+  if (!Array.isArray(entries)) return [];
+  return entries
+    .filter((u: any) => typeof u?.type === "string" && u.type)
+    .map((u: any) => ({
+      type: u.type.trim().toLowerCase().replace(/[\s-]+/g, "_"),
+      doi: u.DOI ? String(u.DOI) : undefined,
+      source: u.source ? String(u.source) : undefined,
+    }));
+}
+
+/** Earliest of print / online / issued dates */
+function issuedYear(work: any): number | undefined {
+  const years = ["published-print", "published-online", "issued"]
+    .map((key) => work?.[key]?.["date-parts"]?.[0]?.[0])
+    .filter((year): year is number => Number.isInteger(year));
+  return years.length > 0 ? Math.min(...years) : undefined;
+}
+
+/* eslint-enable @typescript-eslint/no-explicit-any */
+
+function firstString(values: unknown): string | undefined {
+  return Array.isArray(values) && typeof values[0] === "string" && values[0]
+    ? values[0]
+    : undefined;
+}
+
+/** Abstracts are JATS fragments: <jats:p>, <jats:title>, <jats:italic>… */
+function stripJats(text: string): string {
+  return text
+    .replace(/<jats:title>\s*Abstract\s*<\/jats:title>/gi, "")
+    .replace(/<\/jats:title>/g, ": ")
+    .replace(/<\/jats:p>/g, "\n")
+    .replace(/<[^>]+>/g, "")
+    .replace(/[ \t]+/g, " ")
+    .replace(/\n\s*/g, "\n")
+    .trim();
+}
@@ -0,0 +1,179 @@
+/**
+ * Dossier Events
+ *
+ * Live progress for a research run, over Redis pub/sub. The dossier worker
+ * publishes to the run's channel as it goes — stage transitions, how many
+ * papers each source found, each paper's evidence as it is extracted, and
+ * errors — and GET /api/claims/[claimId]/research/events streams them to
+ * the browser as Server-Sent Events.
+ *
+ * Events are fire-and-forget: nothing is stored, so a subscriber only sees
+ * what is published while it listens (the route sends a snapshot of the
+ * DossierJob first). Publishing never throws; a run doesn't fail because
+ * nobody can watch it. Subscribers in one process share a single Redis
+ * connection, up to `MAX_EVENT_SUBSCRIBERS` at once.
+ */
+import type {
+  DossierStage,
+  Stance,
+  VerdictOutcome,
+} from "@prisma/client";
+import type Redis from "ioredis";
+import { redis, createRedisConnection } from "@/lib/redis";
+import type { EffectEstimate } from "@/lib/prompts";
+
+// ── Types ───────────────────────────────────────────────────────────────
+
+/** A paper's extracted evidence, shaped for an evidence card */
+export interface LiveEvidence {
+  paperId: string;
+  paperTitle: string;
+  doi?: string | null;
+  pmid?: string | null;
+  arxivId?: string | null;
+  journal?: string | null;
+  publishedYear?: number | null;
+  studyType: string;
+  stance: Stance;
+  summary: string;
+  sampleSize?: number | null;
+  population?: string | null;
+  duration?: string | null;
+  effectSize?: string | null;
+  effect?: EffectEstimate | null;
+  confidenceScore: number;
+  evidenceWeight: number;
+}
+
+export type DossierEvent =
+  | { type: "stage"; stage: DossierStage; label: string; progress: number }
+  | { type: "sources"; counts: { source: string; papers: number }[] }
+  | { type: "evidence"; evidence: LiveEvidence }
+  /** A paper's extraction failed; the run carries on */
+  | { type: "error"; message: string; paperTitle: string }
+  /** The run failed; `retrying` while BullMQ has attempts left */
+  | { type: "error"; message: string; retrying: boolean }
+  | { type: "done"; outcome: VerdictOutcome | null };
+
+/** Most listeners one process serves at once, across all runs */
+export const MAX_EVENT_SUBSCRIBERS = 200;
+
+/** How long to wait for Redis to confirm a subscription */
+const SUBSCRIBE_TIMEOUT_MS = 5_000;
+
+// ── Helpers ─────────────────────────────────────────────────────────────
+
+export function dossierEventChannel(dossierJobId: string): string {
+  return `dossier-events:${dossierJobId}`;
+}
+
+/** The last event a run publishes: it succeeded, or failed for good */
+export function isFinalEvent(event: DossierEvent): boolean {
+  return (
+    event.type === "done" ||
+    (event.type === "error" && "retrying" in event && !event.retrying)
+  );
+}
+
+// ── Publish / subscribe ─────────────────────────────────────────────────
+
+export async function publishDossierEvent(
+  dossierJobId: string,
+  event: DossierEvent
+): Promise<void> {
+  try {
+    await redis.publish(dossierEventChannel(dossierJobId), JSON.stringify(event));
+  } catch (err) {
+    console.warn(`[Dossier Events] Could not publish ${event.type} event:`, err);
+  }
+}
+
+type Listener = (event: DossierEvent) => void;
+
+/** The process's subscribed connection, created on first use */
+let subscriber: Redis | null = null;
+/** Listeners by channel; a channel is subscribed while it has any */
+const listeners = new Map<string, Set<Listener>>();
+let listenerCount = 0;
+
+function sharedSubscriber(): Redis {
+  if (subscriber) return subscriber;
+  subscriber = createRedisConnection();
+  subscriber.on("message", (channel: string, message: string) => {
+    const channelListeners = listeners.get(channel);
+    if (!channelListeners) return;
+    let event: DossierEvent;
+    try {
+      event = JSON.parse(message);
+    } catch {
+      return; // Not one of ours
+    }
+    channelListeners.forEach((listener) => listener(event));
+  });
+  return subscriber;
+}
+
+/** Whether this process already serves as many listeners as it will */
+export function atSubscriberLimit(): boolean {
+  return listenerCount >= MAX_EVENT_SUBSCRIBERS;
+}
+
+/**
+ * Listen for a run's events on the process's shared subscriber connection.
+ * Throws when at `MAX_EVENT_SUBSCRIBERS`, or if Redis doesn't confirm the
+ * subscription in time. Call the returned function to stop listening; the
+ * channel is unsubscribed once its last listener leaves.
+ */
+export async function subscribeDossierEvents(
+  dossierJobId: string,
+  onEvent: (event: DossierEvent) => void
+): Promise<() => Promise<void>> {
+  if (atSubscriberLimit()) {
+    throw new Error(`Already serving ${MAX_EVENT_SUBSCRIBERS} event subscribers`);
+  }
+
+  const channel = dossierEventChannel(dossierJobId);
+  const connection = sharedSubscriber();
+  const channelListeners = listeners.get(channel) ?? new Set<Listener>();
+  listeners.set(channel, channelListeners);
+  // Its own function, so one callback can listen twice
+  const listener: Listener = (event) => onEvent(event);
+  channelListeners.add(listener);
+  listenerCount++;
+
+  let listening = true;
+  const unsubscribe = async () => {
+    if (!listening) return;
+    listening = false;
+    listenerCount--;
+    channelListeners.delete(listener);
+    if (channelListeners.size === 0 && listeners.get(channel) === channelListeners) {
+      listeners.delete(channel);
+      await connection.unsubscribe(channel).catch((err: unknown) => {
+        console.warn(`[Dossier Events] Could not unsubscribe from ${channel}:`, err);
+      });
+    }
+  };
+
+  // Commands queue while Redis is down; don't hold the request open on it
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  try {
+    await Promise.race([
+      connection.subscribe(channel),
+      new Promise((_, reject) => {
+        timer = setTimeout(
+          () => reject(new Error("Timed out subscribing to dossier events")),
+          SUBSCRIBE_TIMEOUT_MS
+        );
+      }),
+    ]);
+  } catch (err) {
+    // Not awaited: with Redis down, unsubscribing would queue too
+    void unsubscribe();
+    throw err;
+  } finally {
+    clearTimeout(timer);
+  }
+
+  return unsubscribe;
+}
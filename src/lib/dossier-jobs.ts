@@ -0,0 +1,119 @@
+/**
+ * Dossier Jobs
+ *
+ * A research run is a `DossierJob` row (what the app shows and polls) plus
+ * a BullMQ job (what the worker runs), keyed by the row's ID. These helpers
+ * keep the two in step:
+ *
+ *   - `startDossierJob` creates the row, then the queue job; if enqueueing
+ *     fails the row is failed rather than left QUEUED with nothing to run it.
+ *   - `findActiveDossierJob` returns the claim's QUEUED / RUNNING row, first
+ *     failing it if its queue job has disappeared or finished without the
+ *     worker updating it (e.g. Redis was flushed, or a worker was killed).
+ *
+ * The worker only ever updates the row named in its job data, and skips a
+ * job whose row is no longer active (src/workers/dossier-worker.ts).
+ */
+import type { DossierJob, DossierMode } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import {
+  dossierQueueJobId,
+  enqueueDossierJob,
+  getDossierJobStatus,
+} from "@/lib/queue";
+import type { SearchPlan } from "@/lib/search-plan";
+
+// ── Types ───────────────────────────────────────────────────────────────
+
+export interface StartDossierJobInput {
+  claimId: string;
+  triggeredBy: string; // userId or "system"
+  mode?: DossierMode;
+  /** Queries to search instead of planning them (admin re-runs) */
+  searchPlan?: SearchPlan;
+}
+
+// ── Constants ───────────────────────────────────────────────────────────
+
+/**
+ * A row this new may not have its queue job yet — `startDossierJob` is
+ * between creating one and the other
+ */
+const ENQUEUE_GRACE_MS = 60_000;
+
+/** Queue states in which the worker will still pick up or finish a job */
+const LIVE_QUEUE_STATES = new Set([
+  "waiting",
+  "waiting-children",
+  "prioritized",
+  "delayed",
+  "active",
+]);
+
+// ── Jobs ────────────────────────────────────────────────────────────────
+
+export async function startDossierJob({
+  claimId,
+  triggeredBy,
+  mode = "FULL",
+  searchPlan,
+}: StartDossierJobInput): Promise<DossierJob> {
+  const dossierJob = await prisma.dossierJob.create({
+    data: {
+      claimId,
+      mode,
+      requestHash: `research-${claimId}-${Date.now()}`,
+      ...(searchPlan && { searchPlan: JSON.parse(JSON.stringify(searchPlan)) }),
+    },
+  });
+
+  try {
+    await enqueueDossierJob(claimId, dossierJob.id, triggeredBy);
+  } catch (error) {
+    await prisma.dossierJob.update({
+      where: { id: dossierJob.id },
+      data: {
+        status: "FAILED",
+        finishedAt: new Date(),
+        error: `Could not queue research: ${error instanceof Error ? error.message : error}`,
+      },
+    });
+    throw error;
+  }
+
+  return dossierJob;
+}
+
+/**
+ * The claim's QUEUED or RUNNING dossier job, or null. A row whose queue job
+ * is gone is failed here, so it can't block new runs forever.
+ */
+export async function findActiveDossierJob(
+  claimId: string,
+  now = new Date()
+): Promise<DossierJob | null> {
+  const dossierJob = await prisma.dossierJob.findFirst({
+    where: { claimId, status: { in: ["QUEUED", "RUNNING"] } },
+    orderBy: { createdAt: "desc" },
+  });
+  if (!dossierJob) return null;
+  if (now.getTime() - dossierJob.createdAt.getTime() < ENQUEUE_GRACE_MS) {
+    return dossierJob;
+  }
+
+  const queueJob = await getDossierJobStatus(dossierQueueJobId(dossierJob.id));
+  if (queueJob && LIVE_QUEUE_STATES.has(queueJob.state)) return dossierJob;
+
+  // Only if the worker hasn't just finished it
+  await prisma.dossierJob.updateMany({
+    where: { id: dossierJob.id, status: dossierJob.status },
+    data: {
+      status: "FAILED",
+      finishedAt: now,
+      error: queueJob
+        ? `Queue job ${queueJob.state} without finishing the run`
+        : "Queue job lost before the run finished",
+    },
+  });
+  return null;
+}
@@ -0,0 +1,80 @@
+/**
+ * Dossier Stages
+ *
+ * The dossier worker runs as named stages (src/workers/dossier-worker.ts).
+ * The stage a run is in is stored on its `DossierJob`, which gives the run
+ * its progress and the label the research status route shows.
+ *
+ * When a stage completes, its output (candidate papers, stored paper IDs,
+ * chunk IDs, evidence) is saved as a `DossierCheckpoint`. A run that BullMQ
+ * retries loads its checkpoints and resumes after the last completed stage
+ * instead of searching and embedding again. Checkpoints only matter while a
+ * run can still be retried, so they are cleared once it succeeds or finally
+ * fails.
+ */
+import type { DossierStage, JobStatus, Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+
+// ── Constants ───────────────────────────────────────────────────────────
+
+/** Each stage's label and the progress (0–100) at which it starts */
+export const DOSSIER_STAGES: Record<
+  DossierStage,
+  { label: string; progress: number }
+> = {
+  PLANNING: { label: "Planning searches", progress: 5 },
+  SEARCHING: { label: "Searching papers", progress: 15 },
+  STORING: { label: "Storing papers", progress: 30 },
+  EMBEDDING: { label: "Generating embeddings", progress: 40 },
+  RETRIEVAL: { label: "Finding relevant passages", progress: 55 },
+  EXTRACTION: { label: "Extracting evidence", progress: 60 },
+  SYNTHESIS: { label: "Synthesizing verdict", progress: 85 },
+  SAVING: { label: "Saving results", progress: 95 },
+};
+
+// ── Labels ──────────────────────────────────────────────────────────────
+
+/** Human-readable step for a run, from its status and stage */
+export function getStageLabel(
+  status: JobStatus,
+  stage: DossierStage | null
+): string {
+  if (status === "SUCCEEDED") return "Complete";
+  // A QUEUED run with a stage is waiting for a retry
+  if (status === "QUEUED") return stage ? "Queued to retry" : "Queued";
+  if (!stage) return "Starting";
+  return status === "FAILED"
+    ? `Failed while ${DOSSIER_STAGES[stage].label.toLowerCase()}`
+    : DOSSIER_STAGES[stage].label;
+}
+
+// ── Checkpoints ─────────────────────────────────────────────────────────
+
+/** Outputs of the run's completed stages */
+export async function loadCheckpoints(
+  dossierJobId: string
+): Promise<Map<DossierStage, Prisma.JsonValue>> {
+  const rows = await prisma.dossierCheckpoint.findMany({
+    where: { dossierJobId },
+    select: { stage: true, output: true },
+  });
+  return new Map(rows.map((row) => [row.stage, row.output]));
+}
+
+/** Record a completed stage's output; it must serialise as JSON */
+export async function saveCheckpoint(
+  dossierJobId: string,
+  stage: DossierStage,
+  output: unknown
+): Promise<void> {
+  const json = JSON.parse(JSON.stringify(output)) as Prisma.InputJsonValue;
+  await prisma.dossierCheckpoint.upsert({
+    where: { dossierJobId_stage: { dossierJobId, stage } },
+    create: { dossierJobId, stage, output: json },
+    update: { output: json },
+  });
+}
+
+export async function clearCheckpoints(dossierJobId: string): Promise<void> {
+  await prisma.dossierCheckpoint.deleteMany({ where: { dossierJobId } });
+}
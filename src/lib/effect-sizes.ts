@@ -0,0 +1,134 @@
+/**
+ * Effect Sizes
+ *
+ * Puts the effect estimates extracted per paper (`EffectEstimate` in
+ * src/lib/prompts.ts) on scales that can share a forest plot.
+ *
+ * Standardised mean differences are the common scale. Odds ratios convert
+ * with Chinn's logit method, SMD = ln(OR) × √3 / π. Risk and hazard ratios
+ * are treated as odds ratios first, which only holds for rare outcomes, so
+ * those rows are marked approximate. Raw mean differences and percent
+ * changes cannot be standardised without each study's SD, so each gets a
+ * plot of its own. "OTHER" estimates are left out.
+ */
+import type { EffectEstimate } from "@/lib/prompts";
+
+// ── Types ───────────────────────────────────────────────────────────────
+
+/** Scale a forest plot is drawn on; no effect is 0 on every scale */
+export type EffectScale = "SMD" | "MD" | "PERCENT_CHANGE";
+
+export interface NormalisedEffect {
+  scale: EffectScale;
+  value: number;
+  ciLower: number | null;
+  ciUpper: number | null;
+  /** Converted with an assumption (RR/HR read as OR) */
+  approximate: boolean;
+}
+
+/** One study as stored, before normalising */
+export interface ForestStudyInput {
+  claimPaperId: string;
+  paperId: string;
+  paperTitle: string;
+  publishedYear: number | null;
+  studyType: string | null;
+  stance: string | null;
+  sampleSize: number | null;
+  /** The estimate as the paper reported it */
+  effect: EffectEstimate;
+}
+
+export type ForestStudy = ForestStudyInput & Omit<NormalisedEffect, "scale">;
+
+export interface ForestPlotData {
+  scale: EffectScale;
+  label: string;
+  studies: ForestStudy[];
+}
+
+// ── Constants ───────────────────────────────────────────────────────────
+
+/** Plot order and axis labels */
+export const EFFECT_SCALE_LABELS: Record<EffectScale, string> = {
+  SMD: "Standardised mean difference",
+  MD: "Mean difference (outcome units)",
+  PERCENT_CHANGE: "Change (%)",
+};
+
+/** ln(OR) → SMD factor (Chinn 2000) */
+const LOG_ODDS_TO_SMD = Math.sqrt(3) / Math.PI;
+
+// ── Normalising ─────────────────────────────────────────────────────────
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+function ratioToSmd(ratio: number | null): number | null {
+  if (ratio === null || ratio <= 0) return null;
+  return round(Math.log(ratio) * LOG_ODDS_TO_SMD);
+}
+
+/** Put one estimate on its plot scale; null when it cannot be plotted */
+export function normaliseEffect(effect: EffectEstimate): NormalisedEffect | null {
+  switch (effect.measure) {
+    case "OR":
+    case "RR":
+    case "HR": {
+      const value = ratioToSmd(effect.value);
+      if (value === null) return null;
+      return {
+        scale: "SMD",
+        value,
+        ciLower: ratioToSmd(effect.ciLower),
+        ciUpper: ratioToSmd(effect.ciUpper),
+        approximate: effect.measure !== "OR",
+      };
+    }
+    case "SMD":
+    case "MD":
+    case "PERCENT_CHANGE":
+      return {
+        scale: effect.measure,
+        value: effect.value,
+        ciLower: effect.ciLower,
+        ciUpper: effect.ciUpper,
+        approximate: false,
+      };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Group studies into one plot per scale, oldest study first (the usual
+ * forest-plot order). Scales without studies are omitted.
+ */
+export function buildForestPlots(studies: ForestStudyInput[]): ForestPlotData[] {
+  const byScale = new Map<EffectScale, ForestStudy[]>();
+
+  for (const study of studies) {
+    const normalised = normaliseEffect(study.effect);
+    if (!normalised) continue;
+    const { scale, ...point } = normalised;
+    const rows = byScale.get(scale) ?? [];
+    rows.push({ ...study, ...point });
+    byScale.set(scale, rows);
+  }
+
+  return (Object.keys(EFFECT_SCALE_LABELS) as EffectScale[])
+    .filter((scale) => byScale.has(scale))
+    .map((scale) => ({
+      scale,
+      label: EFFECT_SCALE_LABELS[scale],
+      studies: byScale
+        .get(scale)!
+        .sort(
+          (a, b) =>
+            (a.publishedYear ?? Infinity) - (b.publishedYear ?? Infinity) ||
+            a.paperTitle.localeCompare(b.paperTitle)
+        ),
+    }));
+}
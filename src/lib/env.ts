@@ -34,9 +34,21 @@ const envSchema = z.object({
   // OpenAI (required for moderation + future RAG)
   OPENAI_API_KEY: z.string().optional(),
 
+  // LLM provider layer (optional — defaults to OpenAI; see src/lib/llm.ts)
+  LLM_PROVIDER: z.enum(["openai", "local", "fake"]).optional(),
+  EMBEDDING_PROVIDER: z.enum(["openai", "local", "fake"]).optional(),
+  LLM_BASE_URL: z.string().url().optional(),
+
+  // LLM spend caps in USD (optional — see src/lib/llm-costs.ts)
+  DOSSIER_JOB_BUDGET_USD: z.coerce.number().positive().optional(),
+  LLM_MONTHLY_BUDGET_USD: z.coerce.number().positive().optional(),
+
   // PubMed (optional — increases rate limits from 3/s to 10/s)
   NCBI_API_KEY: z.string().optional(),
 
+  // Crossref (optional — contact address for the faster "polite" pool)
+  CROSSREF_MAILTO: z.string().email().optional(),
+
   // App URL (optional — defaults to https://healthproof.me)
   NEXT_PUBLIC_APP_URL: z.string().url().optional(),
   NEXTAUTH_URL: z.string().url().optional(),
@@ -119,6 +131,9 @@ export function checkProductionReadiness(env: Record<string, string | undefined>
   if (!env.REDIS_URL) warnings.push("REDIS_URL not set — BullMQ worker queue will not function");
   if (!env.OPENAI_API_KEY) warnings.push("OPENAI_API_KEY not set — moderation and AI features disabled");
   if (!env.NEXTAUTH_URL) warnings.push("NEXTAUTH_URL not set — auth redirects may fail");
+  if (env.LLM_PROVIDER === "fake" || env.EMBEDDING_PROVIDER === "fake") {
+    warnings.push("Fake LLM provider enabled — verdicts and embeddings are placeholder data");
+  }
 
   // At least one OAuth provider
   const hasGoogle = env.GOOGLE_CLIENT_ID && env.GOOGLE_CLIENT_SECRET;
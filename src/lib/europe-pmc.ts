@@ -0,0 +1,147 @@
+/**
+ * Europe PMC REST API Client
+ * Documentation: https://europepmc.org/RestfulWebService
+ *
+ * Europe PMC indexes PubMed plus Agricola, patents, theses and preprints
+ * (bioRxiv, medRxiv, Research Square…), and returns abstracts in the search
+ * response itself (`resultType=core`), so one request covers search and
+ * fetch. No API key; the service asks for modest request rates.
+ */
+
+export const EUROPE_PMC_BASE_URL =
+  "https://www.ebi.ac.uk/europepmc/webservices/rest";
+
+// ── Types ───────────────────────────────────────────────────────────────
+
+export interface EuropePmcArticle {
+  /** Europe PMC record ID (the PMID for MEDLINE records) */
+  id: string;
+  /** Record source: MED (PubMed), PMC, PPR (preprint), AGR, … */
+  source: string;
+  pmid?: string;
+  /** PMC identifier including the "PMC" prefix */
+  pmcid?: string;
+  doi?: string;
+  title: string;
+  abstract?: string;
+  authors: string[];
+  journal?: string;
+  publishedYear?: number;
+  fullTextUrl?: string;
+  isPreprint: boolean;
+}
+
+export interface EuropePmcSearchResult {
+  hitCount: number;
+  articles: EuropePmcArticle[];
+}
+
+// ── Public API ──────────────────────────────────────────────────────────
+
+/**
+ * Search Europe PMC. `query` uses Europe PMC syntax; plain phrases work.
+ * `since` keeps records first indexed on or after that date.
+ */
+export async function searchEuropePmc(
+  query: string,
+  options: { maxResults?: number; since?: Date } = {}
+): Promise<EuropePmcSearchResult> {
+  const { maxResults = 20, since } = options;
+
+  const params = new URLSearchParams({
+    query: since
+      ? `(${query}) AND FIRST_IDATE:[${since.toISOString().slice(0, 10)} TO 3000-12-31]`
+      : query,
+    format: "json",
+    resultType: "core",
+    pageSize: String(Math.min(maxResults, 1000)),
+  });
+
+  const response = await fetch(`${EUROPE_PMC_BASE_URL}/search?${params}`);
+
+  if (!response.ok) {
+    throw new Error(
+      `Europe PMC search failed: ${response.status} ${response.statusText}`
+    );
+  }
+
+  return parseEuropePmcSearch(await response.json());
+}
+
+// ── Parsing ─────────────────────────────────────────────────────────────
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+/**
+ * Parse a `resultType=core` search response. Exported for testing.
+ */
+export function parseEuropePmcSearch(data: any): EuropePmcSearchResult {
+  const results: any[] = data?.resultList?.result ?? [];
+  return {
+    hitCount: Number(data?.hitCount ?? 0),
+    articles: results
+      .map(parseOneResult)
+      .filter((a): a is EuropePmcArticle => a !== null),
+  };
+}
+
+function parseOneResult(result: any): EuropePmcArticle | null {
+  const title = stripMarkup(result?.title ?? "").replace(/\.$/, "");
+  if (!result?.id || !title) return null;
+
+  const authorList: any[] = result.authorList?.author ?? [];
+  const authors = authorList.length
+    ? authorList
+        .map((a: any) => a.fullName ?? a.collectiveName ?? "")
+        .filter(Boolean)
+    : splitAuthorString(result.authorString);
+
+  const year = parseInt(result.pubYear, 10);
+
+  return {
+    id: String(result.id),
+    source: String(result.source ?? ""),
+    pmid: result.pmid ? String(result.pmid) : undefined,
+    pmcid: result.pmcid ? String(result.pmcid) : undefined,
+    doi: result.doi ? String(result.doi) : undefined,
+    title,
+    abstract: result.abstractText ? stripMarkup(result.abstractText) : undefined,
+    authors,
+    journal: result.journalInfo?.journal?.title ?? undefined,
+    publishedYear: Number.isFinite(year) ? year : undefined,
+    fullTextUrl: openAccessUrl(result),
+    isPreprint: result.source === "PPR",
+  };
+}
+
+/** First open-access full-text link, preferring HTML over PDF */
+function openAccessUrl(result: any): string | undefined {
+  const urls: any[] = result?.fullTextUrlList?.fullTextUrl ?? [];
+  const open = urls.filter(
+    (u: any) => u?.availabilityCode === "OA" || u?.availabilityCode === "F"
+  );
+  const html = open.find((u: any) => u.documentStyle === "html");
+  return (html ?? open[0])?.url ?? undefined;
+}
+
+/* eslint-enable @typescript-eslint/no-explicit-any */
+
+/** "Smith J, Doe A." → ["Smith J", "Doe A"] */
+function splitAuthorString(authorString: unknown): string[] {
+  if (typeof authorString !== "string") return [];
+  return authorString
+    .replace(/\.$/, "")
+    .split(",")
+    .map((name) => name.trim())
+    .filter(Boolean);
+}
+
+/** Abstracts and titles carry inline HTML (<h4>, <i>, <sup>) */
+function stripMarkup(text: string): string {
+  return text
+    .replace(/<\/?h4>|<\/p>/gi, "\n")
+    .replace(/<[^>]+>/g, "")
+    .replace(/[ \t]+/g, " ")
+    .replace(/\n\s*/g, "\n")
+    .trim();
+}
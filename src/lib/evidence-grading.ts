@@ -0,0 +1,194 @@
+/**
+ * Evidence Grading
+ *
+ * Deterministic, GRADE-inspired scoring of each extracted evidence card, so
+ * verdict synthesis can weigh a meta-analysis above an in-vitro study
+ * instead of counting every paper equally.
+ *
+ * Like GRADE, a paper starts from a level set by its study design and is
+ * rated down for imprecision (small or unreported sample), risk of bias
+ * (limitations the extraction listed, or a journal's expression of
+ * concern) and age. The resulting quality maps to
+ * a certainty band; multiplied by the extraction's relevance score it gives
+ * the card's weight (0–1).
+ *
+ * The same weights give a rule-based verdict confidence. When it and the
+ * LLM's confidence disagree by more than `CONFIDENCE_REVIEW_THRESHOLD`, the
+ * verdict is flagged for admin review.
+ */
+import type { RetractionStatus } from "@prisma/client";
+import type {
+  EvidenceStance,
+  ExtractedEvidence,
+  StudyType,
+  VerdictOutcome,
+} from "@/lib/prompts";
+
+// ── Types ───────────────────────────────────────────────────────────────
+
+/** GRADE certainty bands */
+export type EvidenceCertainty = "HIGH" | "MODERATE" | "LOW" | "VERY_LOW";
+
+export interface EvidenceGrade {
+  /** Design level after rating down, 0.05–1 */
+  quality: number;
+  certainty: EvidenceCertainty;
+  /** quality × relevance: how much this card counts in synthesis */
+  weight: number;
+}
+
+export type GradingInput = Pick<
+  ExtractedEvidence,
+  "studyType" | "sampleSize" | "relevanceScore" | "limitations"
+> & {
+  publishedYear?: number | null;
+  retractionStatus?: RetractionStatus | null;
+};
+
+// ── Constants ───────────────────────────────────────────────────────────
+
+/** Starting level per study design */
+const DESIGN_LEVELS: Record<StudyType, number> = {
+  "Meta-analysis": 1,
+  "Systematic review": 0.9,
+  RCT: 0.8,
+  Cohort: 0.55,
+  "Case-control": 0.45,
+  "Cross-sectional": 0.35,
+  Other: 0.25,
+  "Animal study": 0.2,
+  "In vitro": 0.15,
+  "Expert opinion": 0.1,
+};
+
+/** Rate down per limitation the extraction listed, capped */
+const LIMITATION_PENALTY = 0.03;
+const MAX_LIMITATION_PENALTY = 0.15;
+
+/** Rate down a paper under an expression of concern (retracted papers are
+ *  not graded: the worker leaves them out) */
+const CONCERN_PENALTY = 0.25;
+
+const MIN_QUALITY = 0.05;
+
+/** Lower bound of each certainty band */
+const CERTAINTY_BANDS: [EvidenceCertainty, number][] = [
+  ["HIGH", 0.75],
+  ["MODERATE", 0.5],
+  ["LOW", 0.3],
+  ["VERY_LOW", 0],
+];
+
+/**
+ * Total card weight at which directional evidence counts as substantial:
+ * confidence reaches ~63% of its consistency at this weight, ~86% at twice it.
+ */
+const EVIDENCE_SATURATION = 2;
+
+/** LLM vs rule-based confidence gap that flags a verdict for review */
+export const CONFIDENCE_REVIEW_THRESHOLD = 0.25;
+
+// ── Grading ─────────────────────────────────────────────────────────────
+
+function imprecisionPenalty(sampleSize: number | null): number {
+  if (sampleSize === null) return 0.05;
+  if (sampleSize < 30) return 0.15;
+  if (sampleSize < 100) return 0.1;
+  if (sampleSize < 300) return 0.05;
+  return 0;
+}
+
+function agePenalty(publishedYear: number | null | undefined, now: Date): number {
+  if (!publishedYear) return 0;
+  const age = now.getFullYear() - publishedYear;
+  if (age > 20) return 0.1;
+  if (age > 10) return 0.05;
+  return 0;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+/** Grade one extracted evidence card */
+export function gradeEvidence(
+  input: GradingInput,
+  now: Date = new Date()
+): EvidenceGrade {
+  const level = DESIGN_LEVELS[input.studyType] ?? DESIGN_LEVELS.Other;
+  const limitationPenalty = Math.min(
+    input.limitations.length * LIMITATION_PENALTY,
+    MAX_LIMITATION_PENALTY
+  );
+
+  const quality = round(
+    clamp(
+      level -
+        imprecisionPenalty(input.sampleSize) -
+        limitationPenalty -
+        agePenalty(input.publishedYear, now) -
+        (input.retractionStatus === "EXPRESSION_OF_CONCERN" ? CONCERN_PENALTY : 0),
+      MIN_QUALITY,
+      1
+    )
+  );
+  const certainty = CERTAINTY_BANDS.find(([, min]) => quality >= min)![0];
+
+  return {
+    quality,
+    certainty,
+    weight: round(quality * clamp(input.relevanceScore, 0, 1)),
+  };
+}
+
+// ── Rule-based confidence ───────────────────────────────────────────────
+
+/**
+ * Confidence the weighted evidence supports `verdict`: how consistently the
+ * weight points that way, scaled by how much weight there is. Off-topic
+ * (INSUFFICIENT) and ungraded cards are ignored.
+ */
+export function ruleBasedConfidence(
+  cards: Array<{ stance: EvidenceStance | string; evidenceWeight?: number }>,
+  verdict: VerdictOutcome
+): number {
+  const sum = (stance: string) =>
+    cards
+      .filter((c) => c.stance === stance)
+      .reduce((total, c) => total + (c.evidenceWeight ?? 0), 0);
+  const supports = sum("SUPPORTS");
+  const contradicts = sum("CONTRADICTS");
+  const neutral = sum("NEUTRAL");
+  const directional = supports + contradicts;
+  const total = directional + neutral;
+
+  // Little directional evidence makes INSUFFICIENT more certain, not less
+  if (verdict === "INSUFFICIENT") {
+    return round(Math.exp(-directional / EVIDENCE_SATURATION));
+  }
+  if (total === 0) return 0;
+
+  const consistency =
+    verdict === "SUPPORTED"
+      ? supports / total
+      : verdict === "CONTRADICTED"
+        ? contradicts / total
+        : directional === 0
+          ? 0
+          : Math.min(supports, contradicts) / Math.max(supports, contradicts);
+  const amount = 1 - Math.exp(-total / EVIDENCE_SATURATION);
+
+  return round(consistency * amount);
+}
+
+/** True when the LLM's confidence is far enough from the rules to review */
+export function needsConfidenceReview(
+  llmConfidence: number,
+  ruleConfidence: number
+): boolean {
+  return Math.abs(llmConfidence - ruleConfidence) > CONFIDENCE_REVIEW_THRESHOLD;
+}
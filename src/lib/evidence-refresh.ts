@@ -0,0 +1,86 @@
+/**
+ * Scheduled Evidence Refresh
+ *
+ * New research keeps appearing after a claim's dossier is written. On a
+ * schedule (src/workers/refresh-evidence.ts), every ACTIVE or RESOLVED claim
+ * whose last dossier is older than the cut-off gets an INCREMENTAL dossier
+ * job: the worker searches its sources for papers that appeared since,
+ * extracts evidence from those not yet linked to the claim, and alerts
+ * subscribers to any that might change the verdict (src/lib/paper-alerts.ts).
+ * An ACTIVE claim's verdict is re-synthesised with the new evidence; a
+ * RESOLVED claim's settled outcome is left alone.
+ *
+ * Claims with a run already queued or running are skipped.
+ */
+import { prisma } from "@/lib/prisma";
+import { findActiveDossierJob, startDossierJob } from "@/lib/dossier-jobs";
+
+// ── Types ───────────────────────────────────────────────────────────────
+
+export interface EvidenceRefreshOptions {
+  /** Refresh claims whose last dossier is older than this (default 7) */
+  maxAgeDays?: number;
+  /** Most claims per run (default 50) */
+  limit?: number;
+  now?: Date;
+  onError?: (message: string, error: unknown) => void;
+}
+
+export interface EvidenceRefreshResult {
+  /** Claim IDs an incremental job was queued for */
+  queued: string[];
+  /** Claims that already had a run in progress */
+  skipped: number;
+  failed: number;
+}
+
+// ── Constants ───────────────────────────────────────────────────────────
+
+const DEFAULT_MAX_AGE_DAYS = 7;
+const DEFAULT_LIMIT = 50;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ── Refresh ─────────────────────────────────────────────────────────────
+
+export async function scheduleEvidenceRefresh(
+  options: EvidenceRefreshOptions = {}
+): Promise<EvidenceRefreshResult> {
+  const {
+    maxAgeDays = DEFAULT_MAX_AGE_DAYS,
+    limit = DEFAULT_LIMIT,
+    now = new Date(),
+    onError,
+  } = options;
+  const cutoff = new Date(now.getTime() - maxAgeDays * DAY_MS);
+
+  // Claims never researched have no date to refresh from
+  const markets = await prisma.market.findMany({
+    where: {
+      status: { in: ["ACTIVE", "RESOLVED"] },
+      lastDossierAt: { lt: cutoff },
+    },
+    orderBy: { lastDossierAt: "asc" },
+    take: limit,
+    select: { claimId: true },
+  });
+
+  const result: EvidenceRefreshResult = { queued: [], skipped: 0, failed: 0 };
+  for (const { claimId } of markets) {
+    try {
+      if (await findActiveDossierJob(claimId, now)) {
+        result.skipped++;
+        continue;
+      }
+      await startDossierJob({
+        claimId,
+        triggeredBy: "system",
+        mode: "INCREMENTAL",
+      });
+      result.queued.push(claimId);
+    } catch (err) {
+      onError?.(`Could not queue a refresh for claim ${claimId}`, err);
+      result.failed++;
+    }
+  }
+  return result;
+}
@@ -0,0 +1,279 @@
+/**
+ * LLM & Embedding Cost Accounting
+ *
+ * Every chat completion and embedding batch a dossier run makes is priced
+ * from the provider's reported token usage and recorded in the run's
+ * `DossierCost` ledger, tagged with its stage (planning, extraction,
+ * synthesis, embedding). Prices are OpenAI list prices per million tokens;
+ * models not listed (local or fake providers) cost nothing.
+ *
+ * Two optional budgets bound spend:
+ *   - DOSSIER_JOB_BUDGET_USD — per run. Once reached the worker stops
+ *     extracting further papers and synthesises from what it has.
+ *   - LLM_MONTHLY_BUDGET_USD — per calendar month (UTC), across runs. Once
+ *     reached new runs fail before spending anything, without retrying.
+ *
+ * `getCostSummary` gives the admin dashboard daily and monthly totals.
+ */
+import { Prisma, type CostStage } from "@prisma/client";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import type { LlmUsage } from "@/lib/llm";
+
+// ── Types ───────────────────────────────────────────────────────────────
+
+export interface ModelPrice {
+  /** USD per million prompt (input) tokens */
+  input: number;
+  /** USD per million completion (output) tokens */
+  output: number;
+}
+
+export interface CostBudgets {
+  jobUsd: number | null;
+  monthlyUsd: number | null;
+}
+
+export interface CostTotals {
+  costUsd: number;
+  promptTokens: number;
+  completionTokens: number;
+  /** Dossier runs that made at least one call */
+  runs: number;
+}
+
+export interface CostSummary {
+  today: CostTotals;
+  month: CostTotals;
+  budgets: CostBudgets;
+  /** Last 30 days, oldest first; days without calls are left out */
+  daily: (CostTotals & { date: string })[];
+  /** Last 12 months, oldest first */
+  monthly: (CostTotals & { month: string })[];
+  /** This month by stage and model, most expensive first */
+  byStage: { stage: CostStage; model: string; costUsd: number; calls: number }[];
+}
+
+// ── Constants ───────────────────────────────────────────────────────────
+
+/** List prices, matched by longest prefix so dated snapshots resolve */
+export const MODEL_PRICES: Record<string, ModelPrice> = {
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4.1-nano": { input: 0.1, output: 0.4 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "gpt-4.1": { input: 2, output: 8 },
+  "text-embedding-3-small": { input: 0.02, output: 0 },
+  "text-embedding-3-large": { input: 0.13, output: 0 },
+  "text-embedding-ada-002": { input: 0.1, output: 0 },
+};
+
+const DAILY_WINDOW_DAYS = 30;
+const MONTHLY_WINDOW_MONTHS = 12;
+
+const budgetEnvSchema = z.object({
+  DOSSIER_JOB_BUDGET_USD: z.coerce.number().positive().optional(),
+  LLM_MONTHLY_BUDGET_USD: z.coerce.number().positive().optional(),
+});
+
+// ── Pricing ─────────────────────────────────────────────────────────────
+
+export function modelPrice(model: string): ModelPrice | null {
+  const match = Object.keys(MODEL_PRICES)
+    .filter((name) => model === name || model.startsWith(`${name}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  return match ? MODEL_PRICES[match] : null;
+}
+
+/** Estimated USD for one call; 0 for unpriced models */
+export function estimateCostUsd(
+  model: string,
+  promptTokens: number,
+  completionTokens: number
+): number {
+  const price = modelPrice(model);
+  if (!price) return 0;
+  return (promptTokens * price.input + completionTokens * price.output) / 1e6;
+}
+
+/**
+ * Read the budgets from the environment. Blank variables count as unset.
+ * Throws on invalid values.
+ */
+export function getCostBudgets(
+  env: Record<string, string | undefined> = process.env
+): CostBudgets {
+  const present = Object.fromEntries(
+    Object.entries(env).filter(([, value]) => value !== undefined && value !== "")
+  );
+  const parsed = budgetEnvSchema.safeParse(present);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new Error(`Invalid budget config: ${issue.path.join(".")}: ${issue.message}`);
+  }
+  return {
+    jobUsd: parsed.data.DOSSIER_JOB_BUDGET_USD ?? null,
+    monthlyUsd: parsed.data.LLM_MONTHLY_BUDGET_USD ?? null,
+  };
+}
+
+// ── Ledger ──────────────────────────────────────────────────────────────
+
+/**
+ * One run's costs. `record` is a `UsageListener`; entries are held in
+ * memory and written by `save`, so a failed write never interrupts a call.
+ * `spentUsd` is what earlier attempts of the run already saved, so the
+ * budget covers the whole run rather than each retry.
+ */
+export class CostLedger {
+  private readonly pending: Prisma.DossierCostCreateManyInput[] = [];
+  private total: number;
+
+  constructor(
+    readonly dossierJobId: string,
+    readonly budgetUsd: number | null = null,
+    spentUsd = 0
+  ) {
+    this.total = spentUsd;
+  }
+
+  readonly record = (usage: LlmUsage): void => {
+    const costUsd = estimateCostUsd(
+      usage.model,
+      usage.promptTokens,
+      usage.completionTokens
+    );
+    this.pending.push({
+      dossierJobId: this.dossierJobId,
+      stage: usage.stage.toUpperCase() as CostStage,
+      model: usage.model,
+      promptTokens: usage.promptTokens,
+      completionTokens: usage.completionTokens,
+      costUsd,
+    });
+    this.total += costUsd;
+  };
+
+  /** USD recorded so far, saved or not, including earlier attempts */
+  get totalUsd(): number {
+    return this.total;
+  }
+
+  get overBudget(): boolean {
+    return this.budgetUsd !== null && this.total >= this.budgetUsd;
+  }
+
+  /** Write the entries recorded since the last save; returns how many */
+  async save(): Promise<number> {
+    if (this.pending.length === 0) return 0;
+    const entries = this.pending.splice(0);
+    const { count } = await prisma.dossierCost.createMany({ data: entries });
+    return count;
+  }
+}
+
+// ── Totals ──────────────────────────────────────────────────────────────
+
+function startOfUtcMonth(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+}
+
+/** USD recorded since the start of `now`'s calendar month (UTC) */
+export async function monthToDateCostUsd(now: Date = new Date()): Promise<number> {
+  const { _sum } = await prisma.dossierCost.aggregate({
+    where: { createdAt: { gte: startOfUtcMonth(now) } },
+    _sum: { costUsd: true },
+  });
+  return _sum.costUsd ?? 0;
+}
+
+/** USD already saved for one run, across its attempts */
+export async function jobCostUsd(dossierJobId: string): Promise<number> {
+  const { _sum } = await prisma.dossierCost.aggregate({
+    where: { dossierJobId },
+    _sum: { costUsd: true },
+  });
+  return _sum.costUsd ?? 0;
+}
+
+interface BucketRow {
+  bucket: Date;
+  costUsd: number;
+  promptTokens: number;
+  completionTokens: number;
+  runs: number;
+}
+
+async function totalsBy(unit: "day" | "month", since: Date): Promise<BucketRow[]> {
+  // Sums come back as float8 so they serialise as plain numbers
+  return prisma.$queryRaw<BucketRow[]>`
+    SELECT date_trunc(${unit}, "createdAt") AS "bucket",
+           SUM("costUsd")::float8 AS "costUsd",
+           SUM("promptTokens")::float8 AS "promptTokens",
+           SUM("completionTokens")::float8 AS "completionTokens",
+           COUNT(DISTINCT "dossierJobId")::float8 AS "runs"
+    FROM "DossierCost"
+    WHERE "createdAt" >= ${since}
+    GROUP BY 1
+    ORDER BY 1`;
+}
+
+function toTotals(row: Omit<BucketRow, "bucket"> | undefined): CostTotals {
+  return {
+    costUsd: row?.costUsd ?? 0,
+    promptTokens: row?.promptTokens ?? 0,
+    completionTokens: row?.completionTokens ?? 0,
+    runs: row?.runs ?? 0,
+  };
+}
+
+/** Daily and monthly totals for the admin dashboard */
+export async function getCostSummary(now: Date = new Date()): Promise<CostSummary> {
+  const monthStart = startOfUtcMonth(now);
+  const year = now.getUTCFullYear();
+  const month = now.getUTCMonth();
+  const dailySince = new Date(
+    Date.UTC(year, month, now.getUTCDate() - (DAILY_WINDOW_DAYS - 1))
+  );
+  const monthlySince = new Date(
+    Date.UTC(year, month - (MONTHLY_WINDOW_MONTHS - 1), 1)
+  );
+
+  const [days, months, stages] = await Promise.all([
+    totalsBy("day", dailySince),
+    totalsBy("month", monthlySince),
+    prisma.dossierCost.groupBy({
+      by: ["stage", "model"],
+      where: { createdAt: { gte: monthStart } },
+      _sum: { costUsd: true },
+      _count: { _all: true },
+    }),
+  ]);
+
+  const dayKey = (date: Date) => date.toISOString().slice(0, 10);
+  const monthKey = (date: Date) => date.toISOString().slice(0, 7);
+  const daily = days.map(({ bucket, ...totals }) => ({
+    date: dayKey(bucket),
+    ...toTotals(totals),
+  }));
+  const monthly = months.map(({ bucket, ...totals }) => ({
+    month: monthKey(bucket),
+    ...toTotals(totals),
+  }));
+
+  return {
+    today: toTotals(days.find((row) => dayKey(row.bucket) === dayKey(now))),
+    month: toTotals(months.find((row) => monthKey(row.bucket) === monthKey(now))),
+    budgets: getCostBudgets(),
+    daily,
+    monthly,
+    byStage: stages
+      .map((row) => ({
+        stage: row.stage,
+        model: row.model,
+        costUsd: row._sum.costUsd ?? 0,
+        calls: row._count._all,
+      }))
+      .sort((a, b) => b.costUsd - a.costUsd),
+  };
+}
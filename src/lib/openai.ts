@@ -1,6 +1,7 @@
 import OpenAI from "openai";
 
-// Singleton OpenAI client
+// Singleton OpenAI client. Chat and embeddings go through the provider layer
+// in `@/lib/llm`, which uses this client for the "openai" provider.
 const globalForOpenAI = globalThis as unknown as {
   openai: OpenAI | undefined;
 };
@@ -8,36 +9,13 @@ const globalForOpenAI = globalThis as unknown as {
 export const openai =
   globalForOpenAI.openai ??
   new OpenAI({
-    apiKey: process.env.OPENAI_API_KEY,
+    // Unset, the key fails on the first request rather than at import, so
+    // offline runs on the fake providers don't need one
+    apiKey: process.env.OPENAI_API_KEY ?? "",
   });
 
 if (process.env.NODE_ENV !== "production") globalForOpenAI.openai = openai;
 
-/**
- * Generate embeddings for text using text-embedding-3-small
- * Returns a 1536-dimensional vector
- */
-export async function generateEmbedding(text: string): Promise<number[]> {
-  const response = await openai.embeddings.create({
-    model: "text-embedding-3-small",
-    input: text,
-  });
-
-  return response.data[0].embedding;
-}
-
-/**
- * Generate embeddings for multiple texts in batch
- */
-export async function generateEmbeddings(texts: string[]): Promise<number[][]> {
-  const response = await openai.embeddings.create({
-    model: "text-embedding-3-small",
-    input: texts,
-  });
-
-  return response.data.map((item) => item.embedding);
-}
-
 /**
  * Moderate content using OpenAI's moderation API
  * Returns true if the content is safe, false if it's flagged
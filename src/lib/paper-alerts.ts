@@ -0,0 +1,87 @@
+/**
+ * New-Paper Alerts
+ *
+ * Users subscribe to a claim (`AlertSubscription`) to hear when new
+ * research might change its verdict. Scheduled evidence refreshes
+ * (src/lib/evidence-refresh.ts) run incremental dossier jobs; the worker
+ * checks each newly extracted paper with `mightChangeVerdict` against the
+ * verdict subscribers last saw and, for any that qualify, queues one
+ * paper-alerts job per subscriber. The paper-alerts worker
+ * (src/workers/paper-alert-worker.ts) stores them as `PaperAlert`s, listed
+ * by GET /api/alerts.
+ */
+import type { VerdictOutcome } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { enqueuePaperAlerts } from "@/lib/queue";
+import type { EvidenceStance } from "@/lib/prompts";
+
+// ── Types ───────────────────────────────────────────────────────────────
+
+/** A paper extracted by the current run */
+export interface NewFinding {
+  paperId: string;
+  stance: EvidenceStance;
+  relevanceScore: number;
+  evidenceWeight: number;
+}
+
+// ── Constants ───────────────────────────────────────────────────────────
+
+/** Below this the paper is only tangentially about the claim */
+export const ALERT_MIN_RELEVANCE = 0.7;
+
+/** Below this (e.g. in-vitro, small or heavily limited studies) one paper won't move a verdict */
+export const ALERT_MIN_WEIGHT = 0.5;
+
+// ── Alerts ──────────────────────────────────────────────────────────────
+
+/**
+ * Whether a new paper might change the verdict: relevant, well-weighted and
+ * taking a side the verdict doesn't. Without a decisive verdict (MIXED,
+ * INSUFFICIENT or none yet) any decisive paper qualifies.
+ */
+export function mightChangeVerdict(
+  finding: NewFinding,
+  outcome: VerdictOutcome | null | undefined
+): boolean {
+  if (finding.relevanceScore < ALERT_MIN_RELEVANCE) return false;
+  if (finding.evidenceWeight < ALERT_MIN_WEIGHT) return false;
+  if (finding.stance !== "SUPPORTS" && finding.stance !== "CONTRADICTS") {
+    return false;
+  }
+
+  switch (outcome) {
+    case "SUPPORTED":
+      return finding.stance === "CONTRADICTS";
+    case "CONTRADICTED":
+      return finding.stance === "SUPPORTS";
+    default:
+      return true;
+  }
+}
+
+/**
+ * Queue alerts about `paperIds` for everyone subscribed to the claim.
+ * Returns the number of subscribers notified.
+ */
+export async function notifySubscribers(
+  claimId: string,
+  dossierJobId: string,
+  paperIds: string[]
+): Promise<number> {
+  if (paperIds.length === 0) return 0;
+
+  const subscriptions = await prisma.alertSubscription.findMany({
+    where: { claimId, isActive: true },
+    select: { userId: true },
+  });
+  if (subscriptions.length === 0) return 0;
+
+  await enqueuePaperAlerts(
+    claimId,
+    dossierJobId,
+    paperIds,
+    subscriptions.map((s) => s.userId)
+  );
+  return subscriptions.length;
+}
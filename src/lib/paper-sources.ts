@@ -0,0 +1,192 @@
+/**
+ * Paper Source Registry
+ *
+ * Every literature source the dossier worker can use, behind one
+ * interface. Search sources turn a run's `SearchPlan` into `UnifiedPaper`s
+ * (worker step 3); metadata sources fill in fields on the deduplicated
+ * papers (end of step 4). Which sources run is chosen per claim
+ * (`Claim.paperSources`, resolved by `resolvePaperSourceIds`).
+ *
+ * Adding a source: write its API client and a recorded-fixture parsing
+ * test, a converter in src/lib/papers.ts, then an entry here and in
+ * `PAPER_SOURCE_IDS`.
+ */
+import { searchPubMed, fetchPubMedArticles } from "@/lib/pubmed";
+import { searchArxivHealth } from "@/lib/arxiv";
+import { searchHealthPapers } from "@/lib/semantic-scholar";
+import { searchEuropePmc } from "@/lib/europe-pmc";
+import { searchClinicalTrials } from "@/lib/clinical-trials";
+import { getCrossrefWork } from "@/lib/crossref";
+import {
+  fromArxiv,
+  fromClinicalTrial,
+  fromEuropePmc,
+  fromPubMed,
+  fromSemanticScholar,
+  withCrossrefMetadata,
+  type UnifiedPaper,
+} from "@/lib/papers";
+import {
+  PAPER_SOURCE_LABELS,
+  plainQuery,
+  resolvePaperSourceIds,
+  type PaperSourceId,
+  type SearchQueries,
+} from "@/lib/search-plan";
+
+// ── Types ───────────────────────────────────────────────────────────────
+
+/** A source that finds papers for a claim */
+export interface SearchPaperSource {
+  kind: "search";
+  id: PaperSourceId;
+  label: string;
+  search(
+    queries: SearchQueries,
+    maxResults: number,
+    options?: SearchOptions
+  ): Promise<UnifiedPaper[]>;
+}
+
+export interface SearchOptions {
+  /**
+   * Only papers that appeared on or after this date — by index, submission
+   * or publication date, whichever the source filters on
+   */
+  since?: Date;
+}
+
+/** A source that adds metadata to papers other sources found */
+export interface MetadataPaperSource {
+  kind: "metadata";
+  id: PaperSourceId;
+  label: string;
+  /** Resolves to the papers in the same order, enriched where possible */
+  enrich(papers: UnifiedPaper[]): Promise<UnifiedPaper[]>;
+}
+
+export type PaperSource = SearchPaperSource | MetadataPaperSource;
+
+// ── Sources ─────────────────────────────────────────────────────────────
+
+const pubmed: SearchPaperSource = {
+  kind: "search",
+  id: "pubmed",
+  label: PAPER_SOURCE_LABELS.pubmed,
+  async search(queries, maxResults, { since } = {}) {
+    const result = await searchPubMed(queries.pubmedQuery, { maxResults, since });
+    if (result.ids.length === 0) return [];
+    return (await fetchPubMedArticles(result.ids)).map(fromPubMed);
+  },
+};
+
+const semanticScholar: SearchPaperSource = {
+  kind: "search",
+  id: "semanticScholar",
+  label: PAPER_SOURCE_LABELS.semanticScholar,
+  async search(queries, maxResults, { since } = {}) {
+    // Sequential: the Semantic Scholar client is rate limited anyway
+    const papers: UnifiedPaper[] = [];
+    for (const query of queries.semanticScholarQueries) {
+      const result = await searchHealthPapers(query, maxResults, since);
+      papers.push(...result.papers.map(fromSemanticScholar));
+    }
+    return papers;
+  },
+};
+
+const arxiv: SearchPaperSource = {
+  kind: "search",
+  id: "arxiv",
+  label: PAPER_SOURCE_LABELS.arxiv,
+  async search(queries, maxResults, { since } = {}) {
+    const result = await searchArxivHealth(
+      queries.arxivQuery,
+      maxResults,
+      queries.arxivCategories,
+      since
+    );
+    return result.articles.map(fromArxiv);
+  },
+};
+
+const europePmc: SearchPaperSource = {
+  kind: "search",
+  id: "europePmc",
+  label: PAPER_SOURCE_LABELS.europePmc,
+  async search(queries, maxResults, { since } = {}) {
+    const result = await searchEuropePmc(plainQuery(queries), {
+      maxResults,
+      since,
+    });
+    return result.articles.map(fromEuropePmc);
+  },
+};
+
+const clinicalTrials: SearchPaperSource = {
+  kind: "search",
+  id: "clinicalTrials",
+  label: PAPER_SOURCE_LABELS.clinicalTrials,
+  async search(queries, maxResults, { since } = {}) {
+    const result = await searchClinicalTrials(plainQuery(queries), {
+      maxResults,
+      since,
+    });
+    return result.trials.map(fromClinicalTrial);
+  },
+};
+
+/** Crossref records are looked up one DOI at a time; cap per run */
+const MAX_CROSSREF_LOOKUPS = 40;
+
+const crossref: MetadataPaperSource = {
+  kind: "metadata",
+  id: "crossref",
+  label: PAPER_SOURCE_LABELS.crossref,
+  async enrich(papers) {
+    const enriched = [...papers];
+    let lookups = 0;
+    for (const [i, paper] of papers.entries()) {
+      if (!paper.doi || !isMissingMetadata(paper)) continue;
+      if (lookups++ >= MAX_CROSSREF_LOOKUPS) break;
+      // One bad DOI shouldn't cost the rest their metadata
+      const work = await getCrossrefWork(paper.doi).catch(() => null);
+      if (work) enriched[i] = withCrossrefMetadata(paper, work);
+    }
+    return enriched;
+  },
+};
+
+function isMissingMetadata(paper: UnifiedPaper): boolean {
+  return (
+    !paper.abstract ||
+    !paper.publishedYear ||
+    paper.authors.length === 0 ||
+    (!paper.journal && !paper.arxivId)
+  );
+}
+
+export const PAPER_SOURCES: Record<PaperSourceId, PaperSource> = {
+  pubmed,
+  semanticScholar,
+  arxiv,
+  europePmc,
+  clinicalTrials,
+  crossref,
+};
+
+// ── Resolution ──────────────────────────────────────────────────────────
+
+/** The sources a claim uses, split by kind, in registry order */
+export function getPaperSources(chosen: readonly string[] | null | undefined): {
+  search: SearchPaperSource[];
+  metadata: MetadataPaperSource[];
+} {
+  const sources = resolvePaperSourceIds(chosen).map((id) => PAPER_SOURCES[id]);
+  return {
+    search: sources.filter((s): s is SearchPaperSource => s.kind === "search"),
+    metadata: sources.filter(
+      (s): s is MetadataPaperSource => s.kind === "metadata"
+    ),
+  };
+}
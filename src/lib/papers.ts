@@ -0,0 +1,511 @@
+/**
+ * Unified Papers
+ *
+ * Search results from every paper source (PubMed, arXiv, Semantic Scholar,
+ * Europe PMC, ClinicalTrials.gov) are converted to one `UnifiedPaper` shape and deduplicated before they are stored, and
+ * `paperSections` gives the text each paper is chunked from. Shared by the
+ * dossier worker (steps 4–6) and the offline retrieval eval.
+ *
+ * Dedup merges exact identifier or title matches, then near-duplicates:
+ * titles with high token-set similarity, backed by author overlap, year
+ * proximity and (optionally) abstract embeddings. A near-duplicate pair of
+ * one preprint and one published paper is not merged: the published paper
+ * is kept and carries the preprint, which the worker stores and links to it
+ * so the two are never extracted as separate evidence.
+ */
+import type { PubMedArticle } from "@/lib/pubmed";
+import type { ArxivArticle } from "@/lib/arxiv";
+import type { SemanticScholarPaper } from "@/lib/semantic-scholar";
+import type { EuropePmcArticle } from "@/lib/europe-pmc";
+import type { CrossrefWork } from "@/lib/crossref";
+import {
+  getClinicalTrialUrl,
+  type ClinicalTrial,
+} from "@/lib/clinical-trials";
+import type { DocumentSection } from "@/lib/chunker";
+import type { PMCFullText } from "@/lib/pmc-fulltext";
+import type { SnowballProvenance } from "@/lib/snowball";
+import {
+  retractionFromCrossref,
+  retractionFromPubMed,
+  worseRetraction,
+  type RetractionInfo,
+} from "@/lib/retractions";
+import type { Prisma } from "@prisma/client";
+import { cosineSimilarity } from "@/lib/chunk-ranking";
+
+// ── Types ───────────────────────────────────────────────────────────────
+
+/** A search result from any source, normalised for dedup */
+export interface UnifiedPaper {
+  title: string;
+  abstract?: string;
+  doi?: string;
+  pmid?: string;
+  pmcid?: string;
+  arxivId?: string;
+  semanticScholarId?: string;
+  /** ClinicalTrials.gov registry ID */
+  nctId?: string;
+  authors: string[];
+  journal?: string;
+  publishedYear?: number;
+  fullTextUrl?: string;
+  /** Preprint of this paper found by dedup; stored and linked, not extracted */
+  preprint?: UnifiedPaper;
+  /** How snowballing found this paper; unset for search results */
+  foundVia?: SnowballProvenance;
+  /** Retraction status, from sources that report it (PubMed, Crossref) */
+  retraction?: RetractionInfo;
+}
+
+export interface DedupOptions {
+  /** Abstract embeddings, parallel to the papers passed in */
+  abstractEmbeddings?: (number[] | null)[];
+  /** Cosine similarity at which abstracts confirm a near-duplicate title */
+  minAbstractSimilarity?: number;
+}
+
+// ── Constants ───────────────────────────────────────────────────────────
+
+/** Title token-set similarity that needs no corroboration */
+const TITLE_MATCH = 0.9;
+/** Title similarity that counts with matching authors or abstracts */
+const TITLE_CANDIDATE = 0.7;
+/** Shorter titles only match exactly; too few words to compare */
+const MIN_TITLE_TOKENS = 4;
+const MIN_AUTHOR_OVERLAP = 0.5;
+/** Preprints often appear a year or two before publication */
+const MAX_YEAR_GAP = 2;
+
+const TITLE_STOPWORDS = new Set([
+  "a", "an", "and", "the", "of", "in", "on", "for", "to", "with", "by",
+  "at", "from", "as", "or", "is", "are", "vs", "versus",
+]);
+
+/** DOI prefixes of preprint servers (bioRxiv/medRxiv, arXiv, Research
+ *  Square, Preprints.org, OSF preprints, SSRN) */
+const PREPRINT_DOI_PREFIXES = [
+  "10.1101/",
+  "10.48550/",
+  "10.21203/",
+  "10.20944/",
+  "10.31219/",
+  "10.31234/",
+  "10.31235/",
+  "10.2139/",
+];
+
+// ── Helper: normalise title for fuzzy dedup ─────────────────────────────
+
+function normaliseTitle(title: string): string {
+  return title
+    .toLowerCase()
+    .replace(/[^a-z0-9 ]/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+// ── Near-duplicate matching ─────────────────────────────────────────────
+
+function titleTokens(title: string): Set<string> {
+  return new Set(
+    title
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter((token) => token && !TITLE_STOPWORDS.has(token))
+  );
+}
+
+/**
+ * Token-set similarity of two titles: shared words over the shorter
+ * title's words, ignoring case, punctuation, order and stopwords. A
+ * published title that adds a subtitle to its preprint's still scores 1.
+ */
+export function titleSimilarity(a: string, b: string): number {
+  const ta = titleTokens(a);
+  const tb = titleTokens(b);
+  const shorter = Math.min(ta.size, tb.size);
+  if (shorter === 0) return 0;
+  let shared = 0;
+  for (const token of ta) if (tb.has(token)) shared++;
+  if (shorter < MIN_TITLE_TOKENS) {
+    return shared === ta.size && shared === tb.size ? 1 : 0;
+  }
+  return shared / shorter;
+}
+
+/** Surname of "Smith JA" (PubMed), "Smith, John" or "John Smith" */
+function surname(name: string): string {
+  const trimmed = name.trim();
+  if (trimmed.includes(",")) return trimmed.split(",")[0].trim().toLowerCase();
+  const parts = trimmed.split(/\s+/);
+  const last = parts[parts.length - 1];
+  // Trailing initials mean the surname comes first
+  if (parts.length > 1 && /^[A-Z]{1,3}$/.test(last)) return parts[0].toLowerCase();
+  return last.toLowerCase();
+}
+
+/**
+ * Share of the shorter author list whose surname appears in the other.
+ * Null when either list is empty.
+ */
+export function authorOverlap(a: string[], b: string[]): number | null {
+  if (a.length === 0 || b.length === 0) return null;
+  const sa = new Set(a.map(surname));
+  const sb = new Set(b.map(surname));
+  let shared = 0;
+  for (const name of sa) if (sb.has(name)) shared++;
+  return shared / Math.min(sa.size, sb.size);
+}
+
+/** True for arXiv records and preprint-server DOIs without a journal */
+export function isPreprint(paper: UnifiedPaper): boolean {
+  if (paper.pmid || paper.journal) return false;
+  const doi = paper.doi?.toLowerCase();
+  if (doi) return PREPRINT_DOI_PREFIXES.some((prefix) => doi.startsWith(prefix));
+  return Boolean(paper.arxivId);
+}
+
+/** Same identifier type with different values: distinct records */
+function idsConflict(a: UnifiedPaper, b: UnifiedPaper): boolean {
+  const differ = (x?: string, y?: string) =>
+    Boolean(x && y && x.toLowerCase() !== y.toLowerCase());
+  return (
+    differ(a.doi, b.doi) ||
+    differ(a.pmid, b.pmid) ||
+    differ(a.arxivId, b.arxivId) ||
+    differ(a.nctId, b.nctId)
+  );
+}
+
+/**
+ * Whether two papers are the same work: similar titles, years within
+ * `MAX_YEAR_GAP`, and authors that overlap (or are unknown). Borderline
+ * titles need matching authors or, when given, similar abstracts.
+ */
+export function isNearDuplicate(
+  a: UnifiedPaper,
+  b: UnifiedPaper,
+  abstractSimilarity: number | null = null,
+  minAbstractSimilarity = 0.95
+): boolean {
+  const titles = titleSimilarity(a.title, b.title);
+  if (titles < TITLE_CANDIDATE) return false;
+
+  if (
+    a.publishedYear &&
+    b.publishedYear &&
+    Math.abs(a.publishedYear - b.publishedYear) > MAX_YEAR_GAP
+  ) {
+    return false;
+  }
+
+  const authors = authorOverlap(a.authors, b.authors);
+  if (authors !== null && authors < MIN_AUTHOR_OVERLAP) return false;
+
+  return (
+    titles >= TITLE_MATCH ||
+    authors !== null ||
+    (abstractSimilarity !== null && abstractSimilarity >= minAbstractSimilarity)
+  );
+}
+
+/**
+ * Embed the abstracts of `papers` for `DedupOptions.abstractEmbeddings`;
+ * papers without an abstract get null.
+ */
+export async function embedAbstracts(
+  papers: UnifiedPaper[],
+  embed: (texts: string[]) => Promise<number[][]>
+): Promise<(number[] | null)[]> {
+  const withAbstract = papers.filter((p) => p.abstract);
+  if (withAbstract.length === 0) return papers.map(() => null);
+  const vectors = await embed(withAbstract.map((p) => p.abstract!));
+  const byPaper = new Map(withAbstract.map((p, i) => [p, vectors[i]]));
+  return papers.map((p) => byPaper.get(p) ?? null);
+}
+
+/**
+ * ClaimPaper filter that hides a preprint when its published version is
+ * also evidence for the claim, so the pair is shown and counted once.
+ */
+export function excludeSupersededPreprints(
+  claimId: string
+): Prisma.ClaimPaperWhereInput {
+  return {
+    NOT: {
+      paper: {
+        publishedVersion: { is: { claimPapers: { some: { claimId } } } },
+      },
+    },
+  };
+}
+
+// ── Helper: build a paper's section tree for chunking ─────────────────
+
+export function paperSections(
+  abstract: string | undefined,
+  fullText: PMCFullText | undefined
+): DocumentSection[] {
+  const sections: DocumentSection[] = [];
+  if (abstract && abstract.length > 50) {
+    sections.push({ name: "abstract", text: abstract });
+  }
+  return sections.concat(fullText?.sections ?? []);
+}
+
+// ── Source → UnifiedPaper converters ─────────────────────────────────────
+
+export function fromPubMed(article: PubMedArticle): UnifiedPaper {
+  return {
+    title: article.title,
+    abstract: article.abstract,
+    doi: article.doi,
+    pmid: article.pmid,
+    pmcid: article.pmcid,
+    authors: article.authors,
+    journal: article.journal,
+    publishedYear: article.publishedYear,
+    fullTextUrl: article.fullTextUrl,
+    retraction: retractionFromPubMed(article),
+  };
+}
+
+export function fromArxiv(article: ArxivArticle): UnifiedPaper {
+  return {
+    title: article.title,
+    abstract: article.abstract,
+    doi: article.doi,
+    arxivId: article.arxivId,
+    authors: article.authors,
+    publishedYear: article.publishedYear,
+    fullTextUrl: article.pdfUrl,
+  };
+}
+
+export function fromSemanticScholar(paper: SemanticScholarPaper): UnifiedPaper {
+  return {
+    title: paper.title,
+    abstract: paper.abstract ?? undefined,
+    doi: paper.externalIds?.DOI,
+    pmid: paper.externalIds?.PubMed,
+    pmcid: paper.externalIds?.PubMedCentral,
+    arxivId: paper.externalIds?.ArXiv,
+    semanticScholarId: paper.paperId,
+    authors: paper.authors.map((a) => a.name),
+    journal: paper.journal?.name,
+    publishedYear: paper.year ?? undefined,
+  };
+}
+
+export function fromEuropePmc(article: EuropePmcArticle): UnifiedPaper {
+  return {
+    title: article.title,
+    abstract: article.abstract,
+    doi: article.doi,
+    pmid: article.pmid,
+    pmcid: article.pmcid,
+    authors: article.authors,
+    // Preprint records name the server as their "journal"
+    journal: article.isPreprint ? undefined : article.journal,
+    publishedYear: article.publishedYear,
+    fullTextUrl: article.fullTextUrl,
+  };
+}
+
+/**
+ * A registration has no abstract; its summary is prefixed with the design
+ * and status so extraction can grade it and spot unfinished trials.
+ */
+export function fromClinicalTrial(trial: ClinicalTrial): UnifiedPaper {
+  const design = [
+    trial.phases.map((p) => p.replace("PHASE", "Phase ")).join("/"),
+    trial.studyType?.toLowerCase(),
+    trial.overallStatus && `status ${trial.overallStatus.toLowerCase().replace(/_/g, " ")}`,
+    trial.enrollment !== undefined && `enrollment ${trial.enrollment}`,
+    trial.hasResults ? "results posted" : "no results posted",
+  ].filter(Boolean);
+  const header = `Registered trial ${trial.nctId} (${design.join("; ")}).`;
+
+  return {
+    title: trial.title,
+    abstract: trial.briefSummary ? `${header}\n${trial.briefSummary}` : header,
+    nctId: trial.nctId,
+    authors: trial.investigators,
+    publishedYear: trial.startYear,
+    fullTextUrl: getClinicalTrialUrl(trial.nctId),
+  };
+}
+
+/**
+ * Fill gaps in `paper` from its Crossref record. Fields a source already
+ * supplied are kept; a journal is only added for journal articles. The
+ * record's retraction notices are always applied.
+ */
+export function withCrossrefMetadata(
+  paper: UnifiedPaper,
+  work: CrossrefWork
+): UnifiedPaper {
+  return {
+    ...paper,
+    abstract: paper.abstract ?? work.abstract,
+    journal: paper.journal ?? work.journal,
+    publishedYear: paper.publishedYear ?? work.publishedYear,
+    authors: paper.authors.length > 0 ? paper.authors : work.authors,
+    retraction: mergeRetraction(paper.retraction, retractionFromCrossref(work)),
+  };
+}
+
+function mergeRetraction(
+  a: RetractionInfo | undefined,
+  b: RetractionInfo | undefined
+): RetractionInfo | undefined {
+  return a && b ? worseRetraction(a, b) : (a ?? b);
+}
+
+// ── Deduplication ───────────────────────────────────────────────────────
+
+/**
+ * Deduplicate papers by DOI > PMID > arXiv ID > normalised title, then by
+ * near-duplicate title (see `isNearDuplicate`). Merges identifiers from
+ * later duplicates into the first-seen copy. Papers whose IDs of the same
+ * kind differ are never merged, except as a preprint/published pair: the
+ * published paper keeps the list slot and the preprint hangs off it.
+ */
+export function deduplicatePapers(
+  papers: UnifiedPaper[],
+  options: DedupOptions = {}
+): UnifiedPaper[] {
+  const seen = new Map<string, UnifiedPaper>();
+  const titleIndex = new Map<string, string>(); // normTitle → dedup key
+  const embeddings = new Map<UnifiedPaper, number[] | null>();
+  const attachedTo = new Map<UnifiedPaper, UnifiedPaper>(); // preprint → published
+  const unique: UnifiedPaper[] = [];
+
+  function findById(paper: UnifiedPaper): UnifiedPaper | null {
+    // Priority: DOI > PMID > arXivId > NCT ID
+    const doi = paper.doi?.toLowerCase();
+    if (doi && seen.has(`doi:${doi}`)) return seen.get(`doi:${doi}`)!;
+    if (paper.pmid && seen.has(`pmid:${paper.pmid}`))
+      return seen.get(`pmid:${paper.pmid}`)!;
+    if (paper.arxivId && seen.has(`arxiv:${paper.arxivId}`))
+      return seen.get(`arxiv:${paper.arxivId}`)!;
+    if (paper.nctId && seen.has(`nct:${paper.nctId}`))
+      return seen.get(`nct:${paper.nctId}`)!;
+    return null;
+  }
+
+  function findByTitle(paper: UnifiedPaper): UnifiedPaper | null {
+    const existingKey = titleIndex.get(normaliseTitle(paper.title));
+    return existingKey ? seen.get(existingKey)! : null;
+  }
+
+  function findNear(paper: UnifiedPaper): UnifiedPaper | null {
+    const embedding = embeddings.get(paper) ?? null;
+    for (const candidate of unique) {
+      const other = embeddings.get(candidate) ?? null;
+      const abstracts =
+        embedding && other ? cosineSimilarity(embedding, other) : null;
+      if (
+        isNearDuplicate(
+          candidate,
+          paper,
+          abstracts,
+          options.minAbstractSimilarity
+        )
+      ) {
+        return candidate;
+      }
+    }
+    return null;
+  }
+
+  /** Point every key of `paper` at `target` */
+  function register(paper: UnifiedPaper, target: UnifiedPaper) {
+    const doi = paper.doi?.toLowerCase();
+    const normTitle = normaliseTitle(paper.title);
+    const primaryKey =
+      (doi ? `doi:${doi}` : null) ??
+      (paper.pmid ? `pmid:${paper.pmid}` : null) ??
+      (paper.arxivId ? `arxiv:${paper.arxivId}` : null) ??
+      (paper.nctId ? `nct:${paper.nctId}` : null) ??
+      `title:${normTitle}`;
+
+    if (doi) seen.set(`doi:${doi}`, target);
+    if (paper.pmid) seen.set(`pmid:${paper.pmid}`, target);
+    if (paper.arxivId) seen.set(`arxiv:${paper.arxivId}`, target);
+    if (paper.nctId) seen.set(`nct:${paper.nctId}`, target);
+    seen.set(primaryKey, target);
+    if (!titleIndex.has(normTitle)) titleIndex.set(normTitle, primaryKey);
+  }
+
+  function merge(target: UnifiedPaper, source: UnifiedPaper) {
+    if (!target.doi && source.doi) target.doi = source.doi;
+    if (!target.pmid && source.pmid) target.pmid = source.pmid;
+    if (!target.pmcid && source.pmcid) target.pmcid = source.pmcid;
+    if (!target.arxivId && source.arxivId) target.arxivId = source.arxivId;
+    if (!target.nctId && source.nctId) target.nctId = source.nctId;
+    if (!target.semanticScholarId && source.semanticScholarId)
+      target.semanticScholarId = source.semanticScholarId;
+    if (!target.abstract && source.abstract) target.abstract = source.abstract;
+    if (!target.fullTextUrl && source.fullTextUrl)
+      target.fullTextUrl = source.fullTextUrl;
+    if (!target.journal && source.journal) target.journal = source.journal;
+    if (!target.publishedYear && source.publishedYear)
+      target.publishedYear = source.publishedYear;
+    if (target.authors.length === 0 && source.authors.length > 0)
+      target.authors = source.authors;
+    if (source.retraction)
+      target.retraction = mergeRetraction(target.retraction, source.retraction);
+  }
+
+  /** Attach `preprint` to `published`, merging with any preprint already there */
+  function linkPreprint(published: UnifiedPaper, preprint: UnifiedPaper) {
+    if (published.preprint) merge(published.preprint, preprint);
+    else published.preprint = preprint;
+    attachedTo.set(published.preprint, published);
+    register(preprint, published.preprint);
+  }
+
+  papers.forEach((paper, i) => {
+    embeddings.set(paper, options.abstractEmbeddings?.[i] ?? null);
+
+    const sameId = findById(paper);
+    if (sameId) {
+      merge(sameId, paper);
+      return;
+    }
+
+    const sameTitle = findByTitle(paper);
+    let near = sameTitle ?? findNear(paper);
+    // Another published copy of an attached preprint belongs with its owner
+    if (near && attachedTo.has(near) && !isPreprint(paper)) {
+      near = attachedTo.get(near)!;
+    }
+    if (near) {
+      const nearIsPreprint = isPreprint(near);
+      if (isPreprint(paper) !== nearIsPreprint) {
+        if (nearIsPreprint) {
+          // The published version takes the preprint's slot
+          unique[unique.indexOf(near)] = paper;
+          register(paper, paper);
+          linkPreprint(paper, near);
+        } else {
+          linkPreprint(near, paper);
+        }
+        return;
+      }
+      if (sameTitle || !idsConflict(near, paper)) {
+        merge(near, paper);
+        register(paper, near);
+        return;
+      }
+    }
+
+    register(paper, paper);
+    unique.push(paper);
+  });
+
+  return unique;
+}
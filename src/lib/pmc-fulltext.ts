@@ -0,0 +1,314 @@
+/**
+ * PubMed Central Full-Text Client
+ *
+ * Fetches open-access articles from PMC as JATS XML (efetch, db=pmc) and
+ * flattens them into labelled sections so the dossier pipeline can embed
+ * methods, results and tables rather than abstracts alone.
+ *
+ * Design choices:
+ *   - Sections form a tree mirroring <sec> nesting; a subsection whose heading
+ *     doesn't classify on its own inherits its parent's name.
+ *   - Every <table-wrap> becomes its own "table" section (label, caption and
+ *     rows joined with " | ") so numeric results survive chunking.
+ *   - Every <fig> becomes a "figure" section holding its caption.
+ *   - Articles whose publisher withholds the XML body return no sections and
+ *     are reported as null — callers fall back to the abstract.
+ */
+import { XMLParser } from "fast-xml-parser";
+import { PUBMED_BASE_URL } from "@/lib/pubmed";
+import type { DocumentSection, SectionName } from "@/lib/chunker";
+
+// ── Types ───────────────────────────────────────────────────────────────
+
+export interface PMCFullText {
+  /** PMC identifier including the "PMC" prefix */
+  pmcid: string;
+  title: string;
+  /** Body sections in document order, then figures, then tables */
+  sections: DocumentSection[];
+}
+
+/** Node shape produced by fast-xml-parser with `preserveOrder: true` */
+type XmlNode = Record<string, unknown>;
+
+// ── Constants ───────────────────────────────────────────────────────────
+
+/**
+ * Shared parser for JATS. preserveOrder keeps mixed content
+ * (text interleaved with <italic>, <xref>, …) in document order, and
+ * trimValues is off so inline whitespace survives. JATS encodes most
+ * symbols as numeric character references (&#x2013;), hence htmlEntities.
+ */
+const jatsParser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: "@_",
+  parseTagValue: false,
+  preserveOrder: true,
+  trimValues: false,
+  htmlEntities: true,
+});
+
+/** Checked in order — "Results and Discussion" classifies as results */
+const SECTION_PATTERNS: [SectionName, RegExp][] = [
+  ["limitations", /limitation/i],
+  ["introduction", /intro|background/i],
+  ["methods", /method|materials|participants|study design|experimental/i],
+  ["results", /result|finding/i],
+  ["discussion", /discussion/i],
+  ["conclusion", /conclu/i],
+];
+
+/** Back-matter that sometimes sits inside <body> and carries no evidence */
+const SKIPPED_SECTION =
+  /acknowledg|funding|conflicts? of interest|competing interests|author contributions|supplementary|data availability/i;
+
+/** Elements whose content is never part of running text */
+const NON_TEXT_TAGS = new Set(["table-wrap", "fig", "supplementary-material"]);
+
+// ── Fetching ────────────────────────────────────────────────────────────
+
+/**
+ * Fetch an open-access article from PMC and parse it into sections.
+ * Returns null when the article has no retrievable body.
+ */
+export async function fetchPMCFullText(
+  pmcid: string
+): Promise<PMCFullText | null> {
+  const params = new URLSearchParams({
+    db: "pmc",
+    id: pmcid.replace(/^PMC/i, ""),
+    retmode: "xml",
+    ...(process.env.NCBI_API_KEY && { api_key: process.env.NCBI_API_KEY }),
+  });
+
+  const response = await fetch(`${PUBMED_BASE_URL}/efetch.fcgi?${params}`);
+
+  if (!response.ok) {
+    throw new Error(`PMC fetch failed: ${response.statusText}`);
+  }
+
+  return parseJatsXml(await response.text());
+}
+
+// ── Parsing ─────────────────────────────────────────────────────────────
+
+/**
+ * Parse a PMC efetch (JATS) response into sections.
+ * Returns null when the document has no article or no body text.
+ */
+export function parseJatsXml(xmlText: string): PMCFullText | null {
+  const doc = jatsParser.parse(xmlText) as XmlNode[];
+  const article = findFirst(doc, "article");
+  if (!article) return null;
+
+  const front = findFirst(childrenOf(article), "front");
+  const body = findFirst(childrenOf(article), "body");
+  if (!body) return null;
+
+  const sections: DocumentSection[] = [];
+
+  // Some articles put paragraphs directly in <body> without any <sec>
+  const looseParagraphs = childrenOf(body)
+    .filter((node) => tagOf(node) === "p")
+    .map((node) => textOf(childrenOf(node)))
+    .filter(Boolean);
+  if (looseParagraphs.length > 0) {
+    sections.push({ name: "other", text: looseParagraphs.join("\n\n") });
+  }
+
+  for (const sec of childrenOf(body).filter((node) => tagOf(node) === "sec")) {
+    const section = parseSection(sec, "other");
+    if (section) sections.push(section);
+  }
+
+  // Figures and tables may sit inside paragraphs or in a trailing <floats-group>
+  for (const fig of findAll(childrenOf(article), "fig")) {
+    const figure = parseFigure(fig);
+    if (figure) sections.push(figure);
+  }
+  for (const wrap of findAll(childrenOf(article), "table-wrap")) {
+    const table = parseTable(wrap);
+    if (table) sections.push(table);
+  }
+
+  if (sections.length === 0) return null;
+
+  const meta = front ? findFirst(childrenOf(front), "article-meta") : undefined;
+  const titleNode = meta ? findFirst(childrenOf(meta), "article-title") : undefined;
+
+  return {
+    pmcid: extractPmcId(meta),
+    title: titleNode ? textOf(childrenOf(titleNode)) : "",
+    sections,
+  };
+}
+
+/**
+ * Classify a section from its JATS sec-type attribute and printed title.
+ */
+export function classifySection(title: string, secType?: string): SectionName {
+  const label = `${secType ?? ""} ${title}`;
+  for (const [name, pattern] of SECTION_PATTERNS) {
+    if (pattern.test(label)) return name;
+  }
+  return "other";
+}
+
+function parseSection(
+  sec: XmlNode,
+  parentName: SectionName
+): DocumentSection | null {
+  const titleNode = childrenOf(sec).find((node) => tagOf(node) === "title");
+  const title = titleNode ? textOf(childrenOf(titleNode)) : "";
+  const secType = attrOf(sec, "sec-type");
+
+  if (SKIPPED_SECTION.test(`${secType ?? ""} ${title}`)) return null;
+
+  const ownName = classifySection(title, secType);
+  const name = ownName === "other" ? parentName : ownName;
+
+  const children = childrenOf(sec)
+    .filter((node) => tagOf(node) === "sec")
+    .map((node) => parseSection(node, name))
+    .filter((child): child is DocumentSection => child !== null);
+  const text = collectParagraphs(childrenOf(sec)).join("\n\n");
+  if (!text && children.length === 0) return null;
+
+  return {
+    name,
+    ...(title && { title }),
+    text,
+    ...(children.length > 0 && { children }),
+  };
+}
+
+/** A section's own paragraphs and list items, excluding subsections */
+function collectParagraphs(nodes: XmlNode[]): string[] {
+  const paragraphs: string[] = [];
+
+  for (const node of nodes) {
+    switch (tagOf(node)) {
+      case "p": {
+        const text = textOf(childrenOf(node));
+        if (text) paragraphs.push(text);
+        break;
+      }
+      case "list":
+        for (const item of findAll(childrenOf(node), "list-item")) {
+          const text = textOf(childrenOf(item));
+          if (text) paragraphs.push(`• ${text}`);
+        }
+        break;
+    }
+  }
+
+  return paragraphs;
+}
+
+function parseFigure(fig: XmlNode): DocumentSection | null {
+  const children = childrenOf(fig);
+  const labelNode = children.find((node) => tagOf(node) === "label");
+  const captionNode = children.find((node) => tagOf(node) === "caption");
+  if (!captionNode) return null;
+
+  const label = labelNode ? textOf(childrenOf(labelNode)) : "";
+  const caption = textOf(childrenOf(captionNode));
+  if (!caption) return null;
+
+  return {
+    name: "figure",
+    title: label || "Figure",
+    text: [label, caption].filter(Boolean).join(" "),
+  };
+}
+
+function parseTable(wrap: XmlNode): DocumentSection | null {
+  const children = childrenOf(wrap);
+  const labelNode = children.find((node) => tagOf(node) === "label");
+  const captionNode = children.find((node) => tagOf(node) === "caption");
+
+  const label = labelNode ? textOf(childrenOf(labelNode)) : "";
+  const caption = captionNode ? textOf(childrenOf(captionNode)) : "";
+
+  const rows = findAll(children, "tr")
+    .map((tr) =>
+      childrenOf(tr)
+        .filter((cell) => tagOf(cell) === "th" || tagOf(cell) === "td")
+        .map((cell) => textOf(childrenOf(cell)))
+        .join(" | ")
+    )
+    .filter((row) => row.replace(/[\s|]/g, "").length > 0);
+
+  if (rows.length === 0 && !caption) return null;
+
+  const heading = [label, caption].filter(Boolean).join(" ");
+  return {
+    name: "table",
+    title: label || "Table",
+    text: [heading, ...rows].filter(Boolean).join("\n"),
+  };
+}
+
+function extractPmcId(meta: XmlNode | undefined): string {
+  if (!meta) return "";
+  const ids = childrenOf(meta).filter((node) => tagOf(node) === "article-id");
+  const pmcNode = ids.find((node) =>
+    ["pmc", "pmcid"].includes(attrOf(node, "pub-id-type") ?? "")
+  );
+  if (!pmcNode) return "";
+  const id = textOf(childrenOf(pmcNode));
+  return id.startsWith("PMC") ? id : `PMC${id}`;
+}
+
+// ── XML helpers ─────────────────────────────────────────────────────────
+
+function tagOf(node: XmlNode): string | undefined {
+  return Object.keys(node).find((key) => key !== ":@");
+}
+
+function childrenOf(node: XmlNode): XmlNode[] {
+  const tag = tagOf(node);
+  const value = tag ? node[tag] : undefined;
+  return Array.isArray(value) ? (value as XmlNode[]) : [];
+}
+
+function attrOf(node: XmlNode, name: string): string | undefined {
+  const attrs = node[":@"] as Record<string, string> | undefined;
+  return attrs?.[`@_${name}`];
+}
+
+/** Depth-first search for the first element with the given tag */
+function findFirst(nodes: XmlNode[], tag: string): XmlNode | undefined {
+  for (const node of nodes) {
+    if (tagOf(node) === tag) return node;
+    const nested = findFirst(childrenOf(node), tag);
+    if (nested) return nested;
+  }
+  return undefined;
+}
+
+/** All elements with the given tag, in document order (not nested within each other) */
+function findAll(nodes: XmlNode[], tag: string): XmlNode[] {
+  const found: XmlNode[] = [];
+  for (const node of nodes) {
+    if (tagOf(node) === tag) found.push(node);
+    else found.push(...findAll(childrenOf(node), tag));
+  }
+  return found;
+}
+
+/** Concatenate inline text, skipping floats, and collapse whitespace */
+function textOf(nodes: XmlNode[]): string {
+  const parts: string[] = [];
+
+  const walk = (list: XmlNode[]) => {
+    for (const node of list) {
+      const tag = tagOf(node);
+      if (tag === "#text") parts.push(String(node["#text"]));
+      else if (tag && !NON_TEXT_TAGS.has(tag)) walk(childrenOf(node));
+    }
+  };
+  walk(nodes);
+
+  return parts.join("").replace(/\s+/g, " ").trim();
+}
@@ -1,18 +1,26 @@
 /**
- * LLM Prompt Templates for RAG Evidence Extraction & Verdict Synthesis
+ * LLM Prompt Templates for RAG Query Planning, Evidence Extraction &
+ * Verdict Synthesis
+ *
+ * Three prompt pairs:
+ *   Q. Query Planning — one call per claim before searching.
+ *      Input : claim + the arXiv categories on offer.
+ *      Output: PICO breakdown with MeSH headings and synonyms per element.
  *
- * Two prompt pairs:
  *   A. Evidence Extraction — one call per paper per claim.
  *      Input : claim + paper abstract + optional relevant chunks.
  *      Output: structured evidence card (stance, summary, study type, …).
  *
  *   B. Verdict Synthesis — one call per claim after all evidence is gathered.
- *      Input : claim + all evidence cards.
+ *      Input : claim + all evidence cards, heaviest first, each with its
+ *              evidence weight (see src/lib/evidence-grading.ts).
  *      Output: overall verdict with confidence, caveats, recommendation.
  *
- * Both prompts request JSON output via `response_format: { type: "json_object" }`
- * and target gpt-4o-mini for cost efficiency.
+ * All prompts request JSON output via `response_format: { type: "json_object" }`
+ * and target gpt-4o-mini for cost efficiency. Responses are validated against
+ * the zod schemas below; an invalid one gets a single repair prompt.
  */
+import { z } from "zod";
 
 // ── Types ───────────────────────────────────────────────────────────────
 
@@ -36,6 +44,28 @@ export type StudyType =
   | "Expert opinion"
   | "Other";
 
+/**
+ * Effect measure of a reported estimate. Ratios (RR, OR, HR) have no effect
+ * at 1; the others at 0.
+ */
+export type EffectMeasure =
+  | "SMD"
+  | "MD"
+  | "PERCENT_CHANGE"
+  | "RR"
+  | "OR"
+  | "HR"
+  | "OTHER";
+
+/** Primary effect estimate a paper reports for the claim's outcome */
+export interface EffectEstimate {
+  measure: EffectMeasure;
+  value: number;
+  /** 95% confidence interval bounds, when reported */
+  ciLower: number | null;
+  ciUpper: number | null;
+}
+
 /** Structured evidence extracted from a single paper */
 export interface ExtractedEvidence {
   stance: EvidenceStance;
@@ -46,6 +76,9 @@ export interface ExtractedEvidence {
   population: string;
   duration: string;
   effectSize: string;
+  /** Structured form of effectSize, null when the paper gives no number */
+  effect: EffectEstimate | null;
+  pValue: number | null;
   keyFindings: string[];
   limitations: string[];
   relevanceScore: number;
@@ -76,8 +109,119 @@ export interface SynthesisVerdict {
   recommendedAction: string;
 }
 
+/** One PICO element as search vocabulary */
+export interface PicoConcept {
+  /** Plain-language term, e.g. "creatine supplementation" */
+  term: string;
+  /** MeSH headings, e.g. ["Creatine", "Dietary Supplements"] */
+  meshTerms: string[];
+  /** Free-text synonyms and spelling variants */
+  synonyms: string[];
+}
+
+/** Population, intervention, comparator, outcome */
+export interface PicoElements {
+  population: PicoConcept | null;
+  intervention: PicoConcept;
+  comparator: PicoConcept | null;
+  outcome: PicoConcept | null;
+}
+
+/** Query plan proposed by the model for one claim */
+export interface QueryPlan extends PicoElements {
+  /** Alternative phrasings for keyword search engines (Semantic Scholar) */
+  searchPhrases: string[];
+  /** arXiv categories worth searching, from the list offered */
+  arxivCategories: string[];
+}
+
+// ── Output schemas ──────────────────────────────────────────────────────
+
+const score = z.number().min(0).max(1);
+
+export const effectEstimateSchema: z.ZodType<EffectEstimate> = z
+  .object({
+    measure: z.enum(["SMD", "MD", "PERCENT_CHANGE", "RR", "OR", "HR", "OTHER"]),
+    value: z.number(),
+    ciLower: z.number().nullable(),
+    ciUpper: z.number().nullable(),
+  })
+  .refine(
+    (e) => e.ciLower === null || e.ciUpper === null || e.ciLower <= e.ciUpper,
+    { message: "ciLower must not exceed ciUpper" }
+  );
+
+/** Runtime check for Prompt A responses — mirrors ExtractedEvidence */
+export const extractedEvidenceSchema: z.ZodType<ExtractedEvidence> = z.object({
+  stance: z.enum(["SUPPORTS", "CONTRADICTS", "NEUTRAL", "INSUFFICIENT"]),
+  confidence: score,
+  summary: z.string().min(1),
+  studyType: z.enum([
+    "Meta-analysis",
+    "Systematic review",
+    "RCT",
+    "Cohort",
+    "Case-control",
+    "Cross-sectional",
+    "Animal study",
+    "In vitro",
+    "Expert opinion",
+    "Other",
+  ]),
+  sampleSize: z.number().int().nonnegative().nullable(),
+  population: z.string(),
+  duration: z.string(),
+  effectSize: z.string(),
+  effect: effectEstimateSchema.nullable(),
+  pValue: score.nullable(),
+  keyFindings: z.array(z.string()),
+  limitations: z.array(z.string()),
+  relevanceScore: score,
+});
+
+/** Runtime check for Prompt B responses — mirrors SynthesisVerdict */
+export const synthesisVerdictSchema: z.ZodType<SynthesisVerdict> = z.object({
+  verdict: z.enum(["SUPPORTED", "MIXED", "INSUFFICIENT", "CONTRADICTED"]),
+  confidence: score,
+  effectDirection: z.enum(["POSITIVE", "NEGATIVE", "NEUTRAL", "VARIABLE"]),
+  shortSummary: z.string().min(1),
+  detailedSummary: z.string().min(1),
+  strengthOfEvidence: z.enum(["STRONG", "MODERATE", "WEAK", "VERY_WEAK"]),
+  keyFactors: z.array(z.string()),
+  caveats: z.array(z.string()),
+  whatWouldChangeVerdict: z.string(),
+  recommendedAction: z.string(),
+});
+
+const picoConceptSchema = z.object({
+  term: z.string().min(1),
+  meshTerms: z.array(z.string().min(1)),
+  synonyms: z.array(z.string().min(1)),
+});
+
+/** PICO elements — shared by query plans and stored search plans */
+export const picoElementsSchema = z.object({
+  population: picoConceptSchema.nullable(),
+  intervention: picoConceptSchema,
+  comparator: picoConceptSchema.nullable(),
+  outcome: picoConceptSchema.nullable(),
+});
+
+/** Runtime check for Prompt Q responses — mirrors QueryPlan */
+export const queryPlanSchema: z.ZodType<QueryPlan> = picoElementsSchema.extend({
+  searchPhrases: z.array(z.string().min(1)),
+  arxivCategories: z.array(z.string()),
+});
+
 // ── Input types (what the caller provides) ──────────────────────────────
 
+export interface QueryPlanningInput {
+  claimTitle: string;
+  claimDescription?: string;
+  /** arXiv category code → description */
+  arxivCategories: Record<string, string>;
+}
+
 export interface EvidenceExtractionInput {
   claimTitle: string;
   claimDescription?: string;
@@ -87,7 +231,18 @@ export interface EvidenceExtractionInput {
   relevantChunks?: string[];
 }
 
+/** A retrieved passage offered to synthesis under its own citation key */
+export interface CitedExcerpt {
+  /** e.g. "P3.2" — see src/lib/citations.ts */
+  citationKey: string;
+  /** Display label of the section it came from ("Results") */
+  sectionLabel?: string;
+  text: string;
+}
+
 export interface EvidenceCardForSynthesis {
+  /** e.g. "P3" — cited inline by the verdict */
+  citationKey: string;
   paperTitle: string;
   publishedYear?: number;
   studyType: string;
@@ -95,6 +250,11 @@ export interface EvidenceCardForSynthesis {
   stance: string;
   summary: string;
   keyFindings: string[];
+  excerpts?: CitedExcerpt[];
+  /** 0–1 weight from study design, sample, age, relevance and limitations */
+  evidenceWeight?: number;
+  /** GRADE certainty band, e.g. "MODERATE" */
+  certainty?: string;
 }
 
 export interface VerdictSynthesisInput {
@@ -102,8 +262,32 @@ export interface VerdictSynthesisInput {
   evidenceCards: EvidenceCardForSynthesis[];
 }
 
+// ── Constants ───────────────────────────────────────────────────────────
+
+/** Longest excerpt quoted per citation key in the synthesis prompt */
+export const MAX_SYNTHESIS_EXCERPT_CHARS = 400;
+
 // ── System prompts ──────────────────────────────────────────────────────
 
+export const QUERY_PLANNING_SYSTEM = `You are a medical librarian who builds literature searches for health and fitness claims. Given a claim, break it into PICO elements and supply the vocabulary needed to search PubMed, Semantic Scholar, and arXiv.
+
+Respond with a single JSON object (no markdown fences, no commentary) matching this exact schema:
+{
+  "population": { "term": "<who>", "meshTerms": ["<MeSH heading>"], "synonyms": ["<synonym>"] } | null,
+  "intervention": { "term": "<exposure or intervention>", "meshTerms": ["<MeSH heading>"], "synonyms": ["<synonym>"] },
+  "comparator": { "term": "<comparison>", "meshTerms": [], "synonyms": [] } | null,
+  "outcome": { "term": "<measured outcome>", "meshTerms": ["<MeSH heading>"], "synonyms": ["<synonym>"] } | null,
+  "searchPhrases": ["<2–3 alternative keyword phrasings of the claim>"],
+  "arxivCategories": ["<category code from the list given>"]
+}
+
+Rules:
+- meshTerms must be real MeSH descriptor names, spelled exactly as in MeSH. Leave the array empty if unsure — never invent headings.
+- synonyms are short free-text terms a paper title or abstract would use (brand names, abbreviations, spelling variants). At most 5 per element.
+- Set population to null when the claim applies to people in general; set comparator or outcome to null when the claim doesn't state one.
+- searchPhrases are plain keywords without boolean operators.
+- arxivCategories may be empty when arXiv is unlikely to hold relevant work.`;
+
 export const EVIDENCE_EXTRACTION_SYSTEM = `You are a scientific evidence analyst specializing in exercise science, nutrition, and fitness research. Given a health/fitness claim and a research paper, extract structured evidence.
 
 Respond with a single JSON object (no markdown fences, no commentary) matching this exact schema:
@@ -116,6 +300,8 @@ Respond with a single JSON object (no markdown fences, no commentary) matching t
   "population": "<e.g. trained males, elderly women, sedentary adults>",
   "duration": "<e.g. 8 weeks, 12 months, or empty string if unclear>",
   "effectSize": "<e.g. +3.2 kg lean mass, -2.1% body fat, or empty string if not reported>",
+  "effect": { "measure": "SMD" | "MD" | "PERCENT_CHANGE" | "RR" | "OR" | "HR" | "OTHER", "value": <number>, "ciLower": <number or null>, "ciUpper": <number or null> } | null,
+  "pValue": <number 0.0–1.0 or null>,
   "keyFindings": ["<finding 1>", "<finding 2>"],
   "limitations": ["<limitation 1>", "<limitation 2>"],
   "relevanceScore": <number 0.0–1.0, how directly relevant to the claim>
@@ -125,11 +311,14 @@ Rules:
 - Base your analysis ONLY on the information provided. Do not hallucinate data.
 - If the paper is not relevant to the claim, set stance to "INSUFFICIENT" and relevanceScore below 0.3.
 - confidence reflects how certain the paper's evidence is (consider sample size, design, controls).
-- relevanceScore reflects how directly the paper addresses the specific claim.`;
+- relevanceScore reflects how directly the paper addresses the specific claim.
+- effect is the primary estimate for the claim's outcome, as reported: a standardised (SMD) or raw (MD) mean difference, a percent change, or a risk / odds / hazard ratio. Use the paper's 95% CI; set ciLower and ciUpper to null if none is given, and effect to null if no number is reported.
+- pValue is the p-value for that estimate; use the threshold for reports like "p < 0.05", and null if none is reported.`;
 
 export const VERDICT_SYNTHESIS_SYSTEM = `You are a systematic review analyst for fitness and health claims. Given a claim and evidence extracted from multiple research papers, synthesize an overall verdict.
 
 Consider:
+- Evidence weight: each paper's weight (0–1) grades its study design, sample size, recency, relevance and limitations; papers are listed heaviest first
 - Study quality hierarchy: meta-analyses > RCTs > cohort studies > case studies > expert opinion
 - Sample sizes and statistical significance
 - Consistency of findings across studies
@@ -152,12 +341,37 @@ Respond with a single JSON object (no markdown fences, no commentary) matching t
 
 Rules:
 - Weight meta-analyses and systematic reviews more heavily than individual studies.
+- Decide by the balance of evidence weight, not the number of papers: several low-weight papers (animal, in vitro, expert opinion) should not outweigh a high-weight one.
 - If evidence is mixed, explain which direction the balance tilts and why.
 - Be honest about limitations — do not overstate confidence.
-- recommendedAction should be practical and understandable to a non-scientist.`;
+- recommendedAction should be practical and understandable to a non-scientist.
+- In detailedSummary, cite the evidence behind each factual sentence with the bracketed keys given in the input: [P2] for a paper, [P2.1] for a specific excerpt, [P2, P4.1] for several. Use only keys that appear in the input. Do not put citations in any other field.`;
 
 // ── Prompt builders ─────────────────────────────────────────────────────
 
+/**
+ * Build the user prompt for query planning (Prompt Q).
+ */
+export function buildQueryPlanningPrompt(input: QueryPlanningInput): string {
+  const parts: string[] = [];
+
+  parts.push(`Claim: "${input.claimTitle}"`);
+  if (input.claimDescription) {
+    parts.push(`Description: "${input.claimDescription}"`);
+  }
+  parts.push("");
+
+  parts.push("arXiv categories:");
+  for (const [code, description] of Object.entries(input.arxivCategories)) {
+    parts.push(`- ${code}: ${description}`);
+  }
+
+  parts.push("");
+  parts.push("Plan the literature search for this claim.");
+
+  return parts.join("\n");
+}
+
 /**
  * Build the user prompt for evidence extraction (Prompt A).
  */
@@ -205,13 +419,26 @@ export function buildVerdictSynthesisPrompt(
   input.evidenceCards.forEach((card, i) => {
     const yearStr = card.publishedYear ? ` (${card.publishedYear})` : "";
     parts.push(`Paper ${i + 1}: ${card.paperTitle}${yearStr}`);
+    parts.push(`- Cite as: [${card.citationKey}]`);
     parts.push(`- Study type: ${card.studyType}`);
     parts.push(`- Sample size: ${card.sampleSize ?? "not reported"}`);
     parts.push(`- Stance: ${card.stance}`);
+    if (card.evidenceWeight !== undefined) {
+      const certainty = card.certainty
+        ? ` (${card.certainty.toLowerCase().replace("_", " ")} certainty)`
+        : "";
+      parts.push(`- Evidence weight: ${card.evidenceWeight.toFixed(2)}${certainty}`);
+    }
     parts.push(`- Summary: ${card.summary}`);
     if (card.keyFindings.length > 0) {
       parts.push(`- Key findings: ${card.keyFindings.join("; ")}`);
     }
+    for (const excerpt of card.excerpts ?? []) {
+      const label = excerpt.sectionLabel ? `(${excerpt.sectionLabel}) ` : "";
+      parts.push(
+        `- Excerpt [${excerpt.citationKey}]: ${label}${truncateExcerpt(excerpt.text)}`
+      );
+    }
     parts.push("");
   });
 
@@ -219,3 +446,33 @@ export function buildVerdictSynthesisPrompt(
 
   return parts.join("\n");
 }
+
+/**
+ * Build the follow-up prompt sent when a response fails schema validation.
+ * Repeats the original request so a stateless provider has full context.
+ */
+export function buildRepairPrompt(
+  originalPrompt: string,
+  invalidResponse: string,
+  errors: string[]
+): string {
+  return [
+    originalPrompt,
+    "",
+    "Your previous response was not valid:",
+    invalidResponse,
+    "",
+    "Validation errors:",
+    ...errors.map((e) => `- ${e}`),
+    "",
+    "Return the corrected JSON object only, using exactly the fields and allowed values from the instructions.",
+  ].join("\n");
+}
+
+/** Keep synthesis prompts bounded when many papers bring full-text excerpts */
+function truncateExcerpt(text: string): string {
+  const flat = text.replace(/\s+/g, " ").trim();
+  return flat.length <= MAX_SYNTHESIS_EXCERPT_CHARS
+    ? flat
+    : `${flat.slice(0, MAX_SYNTHESIS_EXCERPT_CHARS - 1).trimEnd()}…`;
+}
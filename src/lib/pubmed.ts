@@ -4,7 +4,7 @@
  */
 import { XMLParser } from "fast-xml-parser";
 
-const PUBMED_BASE_URL = "https://eutils.ncbi.nlm.nih.gov/entrez/eutils";
+export const PUBMED_BASE_URL = "https://eutils.ncbi.nlm.nih.gov/entrez/eutils";
 
 /** Shared XML parser configured for PubMed efetch responses */
 const xmlParser = new XMLParser({
@@ -13,9 +13,39 @@ const xmlParser = new XMLParser({
   // Preserve numeric-looking node text as strings (e.g. PMIDs, DOIs)
   parseTagValue: false,
   isArray: (name) =>
-    ["PubmedArticle", "Author", "AbstractText", "ArticleId"].includes(name),
+    [
+      "PubmedArticle",
+      "Author",
+      "AbstractText",
+      "ArticleId",
+      "PublicationType",
+      "CommentsCorrections",
+    ].includes(name),
 });
 
+/**
+ * CommentsCorrections link types that mark an article as retracted or
+ * under an expression of concern, or as the notice itself
+ */
+export type PubMedNoticeType =
+  | "RetractionIn"
+  | "RetractionOf"
+  | "ExpressionOfConcernIn"
+  | "ExpressionOfConcernFor";
+
+const NOTICE_TYPES: PubMedNoticeType[] = [
+  "RetractionIn",
+  "RetractionOf",
+  "ExpressionOfConcernIn",
+  "ExpressionOfConcernFor",
+];
+
+export interface PubMedNotice {
+  type: PubMedNoticeType;
+  /** PMID of the linked article (the notice, or the article it concerns) */
+  pmid?: string;
+}
+
 export interface PubMedArticle {
   pmid: string;
   pmcid?: string;
@@ -26,6 +56,10 @@ export interface PubMedArticle {
   journal?: string;
   publishedYear?: number;
   fullTextUrl?: string;
+  /** e.g. "Randomized Controlled Trial", "Retracted Publication" */
+  publicationTypes?: string[];
+  /** Retraction and expression-of-concern links */
+  notices?: PubMedNotice[];
 }
 
 export interface PubMedSearchResult {
@@ -34,16 +68,18 @@ export interface PubMedSearchResult {
 }
 
 /**
- * Search PubMed for articles matching a query
+ * Search PubMed for articles matching a query. `since` keeps articles
+ * added to PubMed on or after that date (Entrez date).
  */
 export async function searchPubMed(
   query: string,
   options: {
     maxResults?: number;
     retStart?: number;
+    since?: Date;
   } = {}
 ): Promise<PubMedSearchResult> {
-  const { maxResults = 20, retStart = 0 } = options;
+  const { maxResults = 20, retStart = 0, since } = options;
 
   const params = new URLSearchParams({
     db: "pubmed",
@@ -51,6 +87,12 @@ export async function searchPubMed(
     retmax: maxResults.toString(),
     retstart: retStart.toString(),
     retmode: "json",
+    // mindate needs a maxdate; any far-future date leaves the range open
+    ...(since && {
+      datetype: "edat",
+      mindate: since.toISOString().slice(0, 10).replace(/-/g, "/"),
+      maxdate: "3000",
+    }),
     ...(process.env.NCBI_API_KEY && { api_key: process.env.NCBI_API_KEY }),
   });
 
@@ -150,7 +192,38 @@ function parseOneArticle(article: any): PubMedArticle {
   // Full-text URL (PMC)
   const fullTextUrl = pmcid ? getPMCFullTextUrl(pmcid) : undefined;
 
-  return { pmid, title, abstract, authors, journal, publishedYear, doi, pmcid, fullTextUrl };
+  // Publication types + retraction / concern notices
+  const typeList: any[] =
+    medline?.Article?.PublicationTypeList?.PublicationType ?? [];
+  const publicationTypes = typeList.map(nodeText).filter(Boolean);
+  const corrections: any[] =
+    medline?.CommentsCorrectionsList?.CommentsCorrections ?? [];
+  const notices: PubMedNotice[] = corrections
+    .filter((c: any) => NOTICE_TYPES.includes(c?.["@_RefType"]))
+    .map((c: any) => ({
+      type: c["@_RefType"],
+      pmid: nodeText(c.PMID) || undefined,
+    }));
+
+  return {
+    pmid,
+    title,
+    abstract,
+    authors,
+    journal,
+    publishedYear,
+    doi,
+    pmcid,
+    fullTextUrl,
+    publicationTypes,
+    notices,
+  };
+}
+
+/** Text of a node that may carry attributes (`{ "#text", "@_UI" }`) */
+function nodeText(node: any): string {
+  if (node === undefined || node === null) return "";
+  return String(typeof node === "object" ? (node["#text"] ?? "") : node).trim();
 }
 
 /** Collapse structured or plain abstract into a single string. */
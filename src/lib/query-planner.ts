@@ -0,0 +1,46 @@
+/**
+ * Dossier Query Planning
+ *
+ * Step 2 of the dossier pipeline: ask the planning model to break a claim
+ * into PICO elements with MeSH headings and synonyms, then build the
+ * per-source queries from them (see src/lib/search-plan.ts).
+ */
+import { ARXIV_HEALTH_CATEGORIES } from "@/lib/arxiv";
+import { completeJson, type LlmProvider, type LlmValidationFailure } from "@/lib/llm";
+import {
+  buildQueryPlanningPrompt,
+  queryPlanSchema,
+  QUERY_PLANNING_SYSTEM,
+} from "@/lib/prompts";
+import {
+  fallbackSearchPlan,
+  toSearchPlan,
+  type SearchPlan,
+} from "@/lib/search-plan";
+
+/**
+ * Ask the planning model for a PICO breakdown and build the search plan.
+ * Returns the fallback plan if the model returns nothing; throws on
+ * provider errors or a response that stays invalid after repair.
+ */
+export async function planSearch(
+  llm: LlmProvider,
+  claim: { title: string; description?: string | null },
+  onInvalid?: (failure: LlmValidationFailure) => void
+): Promise<SearchPlan> {
+  const plan = await completeJson(
+    llm,
+    {
+      task: "planning",
+      system: QUERY_PLANNING_SYSTEM,
+      user: buildQueryPlanningPrompt({
+        claimTitle: claim.title,
+        claimDescription: claim.description ?? undefined,
+        arxivCategories: ARXIV_HEALTH_CATEGORIES,
+      }),
+    },
+    queryPlanSchema,
+    onInvalid
+  );
+  return plan ? toSearchPlan(claim.title, plan) : fallbackSearchPlan(claim.title);
+}
@@ -10,12 +10,15 @@ export const QUEUE_NAMES = {
 // Job types for type safety
 export interface DossierJobData {
   claimId: string;
+  dossierJobId: string; // the DossierJob row this run reports to
   triggeredBy: string; // userId or "system"
 }
 
 export interface PaperAlertJobData {
   claimId: string;
   userId: string;
+  dossierJobId: string; // the refresh run that found the papers
+  paperIds: string[];
 }
 
 // Create queues (used by the web app to add jobs)
@@ -50,22 +53,46 @@ export const paperAlertQueue = new Queue<PaperAlertJobData>(
   }
 );
 
-// Helper to add a dossier generation job
+// BullMQ job ID for a DossierJob row. One per run: a claim-scoped ID would
+// be deduplicated against the previous run while BullMQ still retains it.
+export function dossierQueueJobId(dossierJobId: string): string {
+  return `dossier-${dossierJobId}`;
+}
+
+// Helper to add a dossier generation job. Create the DossierJob row first
+// (src/lib/dossier-jobs.ts does both).
 export async function enqueueDossierJob(
   claimId: string,
+  dossierJobId: string,
   triggeredBy: string
 ): Promise<Job<DossierJobData>> {
-  // Use claimId as job ID for idempotency - prevents duplicate jobs for same claim
   const job = await dossierQueue.add(
     "generate",
-    { claimId, triggeredBy },
+    { claimId, dossierJobId, triggeredBy },
     {
-      jobId: `dossier-${claimId}`,
+      jobId: dossierQueueJobId(dossierJobId),
     }
   );
   return job;
 }
 
+// Helper to add one paper-alert job per subscriber. Job IDs are per run and
+// user, so a retried dossier job doesn't alert anyone twice.
+export async function enqueuePaperAlerts(
+  claimId: string,
+  dossierJobId: string,
+  paperIds: string[],
+  userIds: string[]
+): Promise<Job<PaperAlertJobData>[]> {
+  return paperAlertQueue.addBulk(
+    userIds.map((userId) => ({
+      name: "notify",
+      data: { claimId, userId, dossierJobId, paperIds },
+      opts: { jobId: `alert-${dossierJobId}-${userId}` },
+    }))
+  );
+}
+
 // Helper to get job status
 export async function getDossierJobStatus(jobId: string) {
   const job = await dossierQueue.getJob(jobId);
@@ -0,0 +1,212 @@
+/**
+ * ReputationService - Prediction Scoring
+ *
+ * Reputation changes for resolved claims go through this service so that:
+ * - Every change is logged as a ReputationEvent
+ * - User.reputation is updated in the same transaction as the event
+ * - Awards are idempotent per voter per resolution (safe to re-run)
+ * - Admins can reverse awards when a resolution is corrected
+ */
+
+import { prisma } from "@/lib/prisma";
+import { ForecastSide, Prisma, ReputationEventType } from "@prisma/client";
+import { getReputationPoints } from "@/lib/utils";
+
+export interface ReputationChangeOptions {
+  userId: string;
+  type: ReputationEventType;
+  points: number;
+  claimId?: string;
+  note?: string;
+  metadata?: Record<string, unknown>;
+  idempotencyKey?: string;
+}
+
+export interface ReputationChangeResult {
+  success: boolean;
+  eventId: string;
+  /** False when the idempotency key had already been used */
+  applied: boolean;
+  error?: string;
+}
+
+export interface PredictionAwardSummary {
+  correct: number;
+  wrong: number;
+  skipped: number;
+  errors: string[];
+}
+
+export interface PredictionReversalSummary {
+  reversed: number;
+  errors: string[];
+}
+
+const PREDICTION_TYPES: ReputationEventType[] = [
+  "CORRECT_PREDICTION",
+  "WRONG_PREDICTION",
+];
+
+/**
+ * Record a reputation change and apply it to the user atomically.
+ * Positive points = gain, negative = loss.
+ */
+export async function changeReputation(
+  options: ReputationChangeOptions
+): Promise<ReputationChangeResult> {
+  const { userId, type, points, claimId, note, metadata, idempotencyKey } =
+    options;
+
+  try {
+    if (idempotencyKey) {
+      const existing = await prisma.reputationEvent.findUnique({
+        where: { idempotencyKey },
+      });
+
+      if (existing) {
+        return { success: true, eventId: existing.id, applied: false };
+      }
+    }
+
+    const event = await prisma.$transaction(async (tx) => {
+      const created = await tx.reputationEvent.create({
+        data: {
+          userId,
+          type,
+          points,
+          claimId,
+          note,
+          metadata: metadata ? (metadata as Prisma.JsonObject) : undefined,
+          idempotencyKey,
+        },
+      });
+
+      await tx.user.update({
+        where: { id: userId },
+        data: { reputation: { increment: points } },
+      });
+
+      return created;
+    });
+
+    return { success: true, eventId: event.id, applied: true };
+  } catch (error) {
+    // Lost a race on the idempotency key — the other writer applied it
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2002"
+    ) {
+      return { success: true, eventId: "", applied: false };
+    }
+
+    console.error("[ReputationService] Change failed:", error);
+    return {
+      success: false,
+      eventId: "",
+      applied: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
+
+/**
+ * Award CORRECT_PREDICTION / WRONG_PREDICTION to every voter on a claim,
+ * scaled by the claim's difficulty.
+ *
+ * `resolutionId` identifies this particular resolution (e.g. the market's
+ * resolvedAt timestamp) so a corrected resolution can award again after the
+ * previous awards were reversed.
+ */
+export async function awardPredictionReputation(
+  claimId: string,
+  outcome: ForecastSide,
+  resolutionId: string
+): Promise<PredictionAwardSummary> {
+  const claim = await prisma.claim.findUnique({
+    where: { id: claimId },
+    select: {
+      difficulty: true,
+      claimVotes: { select: { userId: true, side: true } },
+    },
+  });
+
+  const summary: PredictionAwardSummary = {
+    correct: 0,
+    wrong: 0,
+    skipped: 0,
+    errors: [],
+  };
+
+  if (!claim) {
+    summary.errors.push(`Claim ${claimId} not found`);
+    return summary;
+  }
+
+  for (const vote of claim.claimVotes) {
+    const isCorrect = vote.side === outcome;
+    const result = await changeReputation({
+      userId: vote.userId,
+      type: isCorrect ? "CORRECT_PREDICTION" : "WRONG_PREDICTION",
+      points: getReputationPoints(claim.difficulty, isCorrect),
+      claimId,
+      note: isCorrect ? "Correct prediction" : "Wrong prediction",
+      metadata: {
+        side: vote.side,
+        outcome,
+        difficulty: claim.difficulty,
+        resolutionId,
+      },
+      idempotencyKey: `prediction-${claimId}-${vote.userId}-${resolutionId}`,
+    });
+
+    if (!result.success) {
+      summary.errors.push(`User ${vote.userId}: ${result.error}`);
+    } else if (!result.applied) {
+      summary.skipped++;
+    } else if (isCorrect) {
+      summary.correct++;
+    } else {
+      summary.wrong++;
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * Admin: reverse every prediction award on a claim that has not already
+ * been reversed. Each reversal is an ADMIN_ADJUSTMENT event with the
+ * opposite points, keyed by the original event ID.
+ */
+export async function reversePredictionReputation(
+  claimId: string,
+  adminId: string,
+  reason: string
+): Promise<PredictionReversalSummary> {
+  const awards = await prisma.reputationEvent.findMany({
+    where: { claimId, type: { in: PREDICTION_TYPES } },
+    select: { id: true, userId: true, points: true },
+  });
+
+  const summary: PredictionReversalSummary = { reversed: 0, errors: [] };
+
+  for (const award of awards) {
+    const result = await changeReputation({
+      userId: award.userId,
+      type: "ADMIN_ADJUSTMENT",
+      points: -award.points,
+      claimId,
+      note: `Prediction reversed: ${reason}`,
+      metadata: { reversesEventId: award.id, adminId },
+      idempotencyKey: `prediction-reversal-${award.id}`,
+    });
+
+    if (!result.success) {
+      summary.errors.push(`Event ${award.id}: ${result.error}`);
+    } else if (result.applied) {
+      summary.reversed++;
+    }
+  }
+
+  return summary;
+}
@@ -0,0 +1,224 @@
+/**
+ * Retraction Check
+ *
+ * Re-checks stored papers' retraction status (src/lib/retractions.ts)
+ * against PubMed and Crossref, and flags resolved claims whose verdict
+ * relied on a paper since retracted or put under an expression of concern
+ * (`Market.retractionFlagged`) so an admin can re-research or re-resolve
+ * them. Run on a schedule: `npm run check:retractions`. The dossier worker
+ * flags the same way when a source reports a stored paper's new status.
+ */
+import { prisma } from "@/lib/prisma";
+import { fetchPubMedArticles } from "@/lib/pubmed";
+import { getCrossrefWork } from "@/lib/crossref";
+import type { RetractionStatus } from "@prisma/client";
+import {
+  retractionFromCrossref,
+  retractionFromPubMed,
+  worseRetraction,
+  type RetractionInfo,
+} from "@/lib/retractions";
+
+// ── Types ───────────────────────────────────────────────────────────────
+
+export interface RetractionCheckOptions {
+  /** Re-check papers last checked longer ago than this */
+  maxAgeDays?: number;
+  /** Most papers checked per run, least recently checked first */
+  limit?: number;
+  now?: Date;
+  /** Called when a source lookup fails; those papers stay unchecked */
+  onError?: (message: string, error: unknown) => void;
+}
+
+export interface RetractionCheckResult {
+  checked: number;
+  /** Papers whose status changed */
+  changed: number;
+  /** IDs of papers found retracted by this run */
+  newlyRetracted: string[];
+  /** Resolved claims flagged for review */
+  flaggedClaims: number;
+}
+
+// ── Constants ───────────────────────────────────────────────────────────
+
+const DEFAULT_MAX_AGE_DAYS = 30;
+const DEFAULT_LIMIT = 200;
+/** PMIDs per efetch request */
+const PUBMED_BATCH_SIZE = 200;
+
+// ── Stored papers ───────────────────────────────────────────────────────
+
+/**
+ * Re-check stored papers that haven't been checked within `maxAgeDays`
+ * against PubMed (batched) and Crossref (one DOI at a time), flagging
+ * resolved claims that relied on any paper newly found retracted or under
+ * concern. Papers already retracted, and notices, are final and not
+ * re-checked.
+ */
+export async function checkStoredPapers(
+  options: RetractionCheckOptions = {}
+): Promise<RetractionCheckResult> {
+  const {
+    maxAgeDays = DEFAULT_MAX_AGE_DAYS,
+    limit = DEFAULT_LIMIT,
+    now = new Date(),
+    onError,
+  } = options;
+  const cutoff = new Date(now.getTime() - maxAgeDays * 24 * 60 * 60 * 1000);
+
+  const papers = await prisma.paper.findMany({
+    where: {
+      retractionStatus: { in: ["NONE", "EXPRESSION_OF_CONCERN"] },
+      OR: [{ retractionCheckedAt: null }, { retractionCheckedAt: { lt: cutoff } }],
+      AND: [{ OR: [{ pmid: { not: null } }, { doi: { not: null } }] }],
+    },
+    select: {
+      id: true,
+      pmid: true,
+      doi: true,
+      retractionStatus: true,
+      retractionNoticeUrl: true,
+    },
+    orderBy: { retractionCheckedAt: { sort: "asc", nulls: "first" } },
+    take: limit,
+  });
+
+  const fromPubMed = await lookUpPubMed(
+    papers.flatMap((p) => (p.pmid ? [p.pmid] : [])),
+    onError
+  );
+
+  const result: RetractionCheckResult = {
+    checked: 0,
+    changed: 0,
+    newlyRetracted: [],
+    flaggedClaims: 0,
+  };
+
+  for (const paper of papers) {
+    const found: RetractionInfo[] = [];
+    const pubmed = paper.pmid ? fromPubMed.get(paper.pmid) : undefined;
+    if (pubmed) found.push(pubmed);
+    if (paper.doi) {
+      try {
+        const work = await getCrossrefWork(paper.doi);
+        found.push(work ? retractionFromCrossref(work) : { status: "NONE" });
+      } catch (err) {
+        onError?.(`Crossref lookup failed for ${paper.doi}`, err);
+      }
+    }
+    // Neither source answered: leave it for the next run
+    if (found.length === 0) continue;
+
+    const info = found.reduce(worseRetraction, {
+      status: paper.retractionStatus,
+      noticeUrl: paper.retractionNoticeUrl ?? undefined,
+    });
+    // Flag before storing the status: a retracted paper isn't checked again
+    if (flagsClaims(paper.retractionStatus, info.status)) {
+      result.flaggedClaims += await flagClaimsCitingRetracted([paper.id]);
+    }
+    await prisma.paper.update({
+      where: { id: paper.id },
+      data: {
+        retractionStatus: info.status,
+        retractionNoticeUrl: info.noticeUrl ?? null,
+        retractionCheckedAt: now,
+      },
+    });
+
+    result.checked++;
+    if (info.status !== paper.retractionStatus) {
+      result.changed++;
+      if (info.status === "RETRACTED") result.newlyRetracted.push(paper.id);
+    }
+  }
+
+  return result;
+}
+
+/** Status per PMID; PMIDs in a failed batch are left out */
+async function lookUpPubMed(
+  pmids: string[],
+  onError: RetractionCheckOptions["onError"]
+): Promise<Map<string, RetractionInfo>> {
+  const byPmid = new Map<string, RetractionInfo>();
+  for (let i = 0; i < pmids.length; i += PUBMED_BATCH_SIZE) {
+    const batch = pmids.slice(i, i + PUBMED_BATCH_SIZE);
+    try {
+      for (const article of await fetchPubMedArticles(batch)) {
+        byPmid.set(article.pmid, retractionFromPubMed(article));
+      }
+    } catch (err) {
+      onError?.(`PubMed fetch failed for ${batch.length} PMIDs`, err);
+    }
+  }
+  return byPmid;
+}
+
+// ── Flagging ────────────────────────────────────────────────────────────
+
+/** Whether a paper's status change should flag the claims relying on it */
+export function flagsClaims(
+  previous: RetractionStatus,
+  next: RetractionStatus
+): boolean {
+  return (
+    next !== previous && (next === "RETRACTED" || next === "EXPRESSION_OF_CONCERN")
+  );
+}
+
+/**
+ * Flag resolved claims whose current (latest) verdict relied on one of
+ * `paperIds` — retrieved for it (`Verdict.paperIds`) or cited inline — for
+ * an admin to re-research or re-resolve. Returns how many were newly
+ * flagged.
+ */
+export async function flagClaimsCitingRetracted(paperIds: string[]): Promise<number> {
+  if (paperIds.length === 0) return 0;
+
+  const claims = await prisma.claim.findMany({
+    where: {
+      market: { status: "RESOLVED", retractionFlagged: false },
+      verdicts: {
+        some: {
+          OR: [
+            { paperIds: { hasSome: paperIds } },
+            { citations: { some: { paperId: { in: paperIds } } } },
+          ],
+        },
+      },
+    },
+    select: {
+      id: true,
+      verdicts: {
+        orderBy: { version: "desc" },
+        take: 1,
+        select: {
+          paperIds: true,
+          citations: { where: { paperId: { in: paperIds } }, select: { id: true } },
+        },
+      },
+    },
+  });
+
+  const flagged = new Set(paperIds);
+  const affected = claims
+    .filter((claim) => {
+      const latest = claim.verdicts[0];
+      return (
+        !!latest &&
+        (latest.paperIds.some((id) => flagged.has(id)) || latest.citations.length > 0)
+      );
+    })
+    .map((claim) => claim.id);
+  if (affected.length === 0) return 0;
+
+  const { count } = await prisma.market.updateMany({
+    where: { claimId: { in: affected } },
+    data: { retractionFlagged: true },
+  });
+  return count;
+}
@@ -0,0 +1,120 @@
+/**
+ * Retraction Checks
+ *
+ * A retracted study must not count as evidence. Retraction state comes
+ * from PubMed — publication types ("Retracted Publication", "Retraction of
+ * Publication") and RetractionIn / ExpressionOfConcernIn links — and from
+ * Crossref update metadata, which carries publisher notices and the
+ * Retraction Watch database. The dossier worker records the status of
+ * every paper it stores and leaves retracted papers (and the notices
+ * themselves) out of evidence extraction; an expression of concern only
+ * rates a paper's evidence down (src/lib/evidence-grading.ts).
+ *
+ * Papers are retracted long after they are cited; stored papers are
+ * re-checked on a schedule by src/lib/retraction-check.ts.
+ */
+import type { RetractionStatus } from "@prisma/client";
+import type { PubMedArticle } from "@/lib/pubmed";
+import type { CrossrefWork } from "@/lib/crossref";
+
+// ── Types ───────────────────────────────────────────────────────────────
+
+export interface RetractionInfo {
+  status: RetractionStatus;
+  /** The retraction or concern notice, when the source links it */
+  noticeUrl?: string;
+}
+
+// ── Constants ───────────────────────────────────────────────────────────
+
+const SEVERITY: Record<RetractionStatus, number> = {
+  NONE: 0,
+  EXPRESSION_OF_CONCERN: 1,
+  NOTICE: 2,
+  RETRACTED: 3,
+};
+
+/** Crossref update types that withdraw a work */
+const CROSSREF_RETRACTION_TYPES = new Set(["retraction", "withdrawal", "removal"]);
+const CROSSREF_CONCERN_TYPE = "expression_of_concern";
+
+// ── Status ──────────────────────────────────────────────────────────────
+
+/** Retracted papers and notices are never extracted as evidence */
+export function isExcludedFromEvidence(
+  status: RetractionStatus | null | undefined
+): boolean {
+  return status === "RETRACTED" || status === "NOTICE";
+}
+
+/**
+ * The more severe of two statuses. Retractions are not undone, so a source
+ * that doesn't (yet) know about one never clears it.
+ */
+export function worseRetraction(a: RetractionInfo, b: RetractionInfo): RetractionInfo {
+  const [worse, other] =
+    SEVERITY[b.status] > SEVERITY[a.status] ? [b, a] : [a, b];
+  return {
+    status: worse.status,
+    noticeUrl:
+      worse.noticeUrl ??
+      (other.status === worse.status ? other.noticeUrl : undefined),
+  };
+}
+
+export function retractionFromPubMed(article: PubMedArticle): RetractionInfo {
+  const types = new Set(article.publicationTypes ?? []);
+  const notices = article.notices ?? [];
+  const linked = (type: string) => {
+    const notice = notices.find((n) => n.type === type);
+    return notice ? { noticeUrl: notice.pmid && pubMedUrl(notice.pmid) } : null;
+  };
+
+  const retractedIn = linked("RetractionIn");
+  if (types.has("Retracted Publication") || retractedIn) {
+    return { status: "RETRACTED", noticeUrl: retractedIn?.noticeUrl };
+  }
+  if (
+    types.has("Retraction of Publication") ||
+    types.has("Expression of Concern") ||
+    linked("RetractionOf") ||
+    linked("ExpressionOfConcernFor")
+  ) {
+    return { status: "NOTICE" };
+  }
+  const concernIn = linked("ExpressionOfConcernIn");
+  if (concernIn) {
+    return { status: "EXPRESSION_OF_CONCERN", noticeUrl: concernIn.noticeUrl };
+  }
+  return { status: "NONE" };
+}
+
+export function retractionFromCrossref(work: CrossrefWork): RetractionInfo {
+  const retraction = work.updatedBy.find((u) => CROSSREF_RETRACTION_TYPES.has(u.type));
+  if (retraction) {
+    return { status: "RETRACTED", noticeUrl: retraction.doi && doiUrl(retraction.doi) };
+  }
+  if (
+    work.updates.some(
+      (u) => CROSSREF_RETRACTION_TYPES.has(u.type) || u.type === CROSSREF_CONCERN_TYPE
+    )
+  ) {
+    return { status: "NOTICE" };
+  }
+  const concern = work.updatedBy.find((u) => u.type === CROSSREF_CONCERN_TYPE);
+  if (concern) {
+    return {
+      status: "EXPRESSION_OF_CONCERN",
+      noticeUrl: concern.doi && doiUrl(concern.doi),
+    };
+  }
+  return { status: "NONE" };
+}
+
+function pubMedUrl(pmid: string): string {
+  return `https://pubmed.ncbi.nlm.nih.gov/${pmid}/`;
+}
+
+function doiUrl(doi: string): string {
+  return `https://doi.org/${doi}`;
+}
@@ -0,0 +1,39 @@
+/**
+ * Retrieval Settings
+ *
+ * Chunk sizes and vector-search thresholds used by the dossier worker
+ * (steps 4 and 6–8). The offline retrieval eval (`npm run eval:retrieval`) starts
+ * from these and can override any of them, so a proposed change can be
+ * measured against the gold set before it lands here.
+ */
+import type { SectionName } from "@/lib/chunker";
+
+export interface RetrievalSettings {
+  /** Target tokens per chunk when splitting paper sections */
+  maxChunkTokens: number;
+  /** Tokens carried over from the previous chunk */
+  overlapTokens: number;
+  /** Cosine similarity floor for a chunk to count as relevant */
+  minSimilarity: number;
+  /** Best chunks kept per paper and shown to the extraction model */
+  chunksPerPaper: number;
+  /** Papers kept by vector search and sent to evidence extraction */
+  maxPapersForEvidence: number;
+  /** Sections ranked ahead of near-equal matches elsewhere */
+  preferSections: SectionName[];
+  /**
+   * Abstract cosine similarity that confirms a borderline near-duplicate
+   * title during dedup (step 4). Null skips embedding abstracts there.
+   */
+  dedupAbstractSimilarity: number | null;
+}
+
+export const RETRIEVAL_SETTINGS: RetrievalSettings = {
+  maxChunkTokens: 400,
+  overlapTokens: 80,
+  minSimilarity: 0.5,
+  chunksPerPaper: 3,
+  maxPapersForEvidence: 15,
+  preferSections: ["results", "conclusion"],
+  dedupAbstractSimilarity: null,
+};
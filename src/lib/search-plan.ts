@@ -0,0 +1,230 @@
+/**
+ * Dossier Search Plans
+ *
+ * The queries each literature source is searched with for one dossier run.
+ * Query planning (src/lib/query-planner.ts) breaks a claim into PICO
+ * elements (population, intervention, comparator, outcome) with MeSH
+ * headings and synonyms; the builders here turn that vocabulary into:
+ *
+ *   PubMed           — a boolean query, one OR-block per PICO element
+ *                      (MeSH heading OR title/abstract terms), ANDed together
+ *   Semantic Scholar — the claim title plus the model's alternative phrasings
+ *   arXiv            — the claim title, limited to the categories chosen
+ *
+ * Europe PMC and ClinicalTrials.gov reuse the plain-text phrasing
+ * (`plainQuery`). Which sources a claim searches is chosen per claim from
+ * `PAPER_SOURCE_IDS` (see src/lib/paper-sources.ts for the registry).
+ *
+ * The resulting `SearchPlan` is stored on the DossierJob so admins can see
+ * exactly what was searched, edit it, and re-run the dossier with their
+ * version. If planning fails the pipeline falls back to the original
+ * title-based queries.
+ *
+ * No LLM or server imports — shared by the worker and the admin API.
+ */
+import { z } from "zod";
+import { ARXIV_HEALTH_CATEGORIES } from "@/lib/arxiv";
+import {
+  picoElementsSchema,
+  type PicoConcept,
+  type PicoElements,
+  type QueryPlan,
+} from "@/lib/prompts";
+
+// ── Types ───────────────────────────────────────────────────────────────
+
+/** Where a search plan came from */
+export type SearchPlanSource = "llm" | "fallback" | "admin";
+
+/** The queries a dossier run searches with */
+export interface SearchQueries {
+  pubmedQuery: string;
+  semanticScholarQueries: string[];
+  arxivQuery: string;
+  arxivCategories: string[];
+}
+
+export interface SearchPlan extends SearchQueries {
+  source: SearchPlanSource;
+  /** The model's PICO breakdown, kept for auditing; null for fallback plans */
+  pico: PicoElements | null;
+}
+
+/** Every paper source the registry knows, in search order */
+export const PAPER_SOURCE_IDS = [
+  "pubmed",
+  "semanticScholar",
+  "arxiv",
+  "europePmc",
+  "clinicalTrials",
+  "crossref",
+] as const;
+
+export type PaperSourceId = (typeof PAPER_SOURCE_IDS)[number];
+
+// ── Constants ───────────────────────────────────────────────────────────
+
+export const PAPER_SOURCE_LABELS: Record<PaperSourceId, string> = {
+  pubmed: "PubMed",
+  semanticScholar: "Semantic Scholar",
+  arxiv: "arXiv",
+  europePmc: "Europe PMC",
+  clinicalTrials: "ClinicalTrials.gov",
+  crossref: "Crossref metadata",
+};
+
+/** Sources a claim uses until an admin picks its own */
+export const DEFAULT_PAPER_SOURCES: PaperSourceId[] = [
+  "pubmed",
+  "semanticScholar",
+  "arxiv",
+];
+
+/** Crossref only fills in metadata; a claim needs one source that searches */
+const METADATA_ONLY_SOURCES: PaperSourceId[] = ["crossref"];
+
+/** Semantic Scholar is rate limited — keep the number of searches small */
+export const MAX_SEMANTIC_SCHOLAR_QUERIES = 3;
+
+/** OR-ed terms per PICO element, so one element can't swamp the query */
+const MAX_TERMS_PER_CONCEPT = 8;
+
+const arxivCategory = z
+  .string()
+  .refine((code) => code in ARXIV_HEALTH_CATEGORIES, {
+    message: "Unknown arXiv category",
+  });
+
+/** The editable part of a plan — what admins submit on re-run */
+export const searchQueriesSchema = z.object({
+  pubmedQuery: z.string().trim().min(1).max(4000),
+  semanticScholarQueries: z
+    .array(z.string().trim().min(1).max(300))
+    .min(1)
+    .max(MAX_SEMANTIC_SCHOLAR_QUERIES),
+  arxivQuery: z.string().trim().min(1).max(300),
+  arxivCategories: z.array(arxivCategory).min(1),
+});
+
+/** A stored plan, as read back from DossierJob.searchPlan */
+export const searchPlanSchema: z.ZodType<SearchPlan> = searchQueriesSchema.extend({
+  source: z.enum(["llm", "fallback", "admin"]),
+  pico: picoElementsSchema.nullable(),
+});
+
+/** A claim's chosen sources; empty means the defaults */
+export const paperSourcesSchema = z
+  .array(z.enum(PAPER_SOURCE_IDS))
+  .refine(
+    (ids) =>
+      ids.length === 0 || ids.some((id) => !METADATA_ONLY_SOURCES.includes(id)),
+    { message: "Choose at least one source that searches for papers" }
+  );
+
+// ── Sources ─────────────────────────────────────────────────────────────
+
+/**
+ * The sources a claim searches, in registry order. `Claim.paperSources`
+ * is empty until an admin chooses, and unknown IDs are ignored.
+ */
+export function resolvePaperSourceIds(
+  chosen: readonly string[] | null | undefined
+): PaperSourceId[] {
+  const known = PAPER_SOURCE_IDS.filter((id) => chosen?.includes(id));
+  return known.length > 0 ? known : [...DEFAULT_PAPER_SOURCES];
+}
+
+// ── Query builders ──────────────────────────────────────────────────────
+
+/**
+ * Build a MeSH-aware boolean PubMed query from PICO elements:
+ *
+ *   ("Creatine"[MeSH Terms] OR "creatine"[Title/Abstract]) AND (…outcome…)
+ *
+ * Intervention, outcome and population are ANDed; the comparator is left
+ * out because requiring it ("placebo", "usual care") drops most abstracts.
+ */
+export function buildPubMedQuery(pico: PicoElements): string {
+  return [pico.intervention, pico.outcome, pico.population]
+    .filter((concept): concept is PicoConcept => concept !== null)
+    .map(conceptBlock)
+    .filter((block) => block !== "")
+    .join(" AND ");
+}
+
+/**
+ * Turn a model-proposed plan into concrete queries. Unknown arXiv
+ * categories are dropped; none left means every health category.
+ */
+export function toSearchPlan(claimTitle: string, plan: QueryPlan): SearchPlan {
+  const { searchPhrases, arxivCategories, ...pico } = plan;
+  const pubmedQuery = buildPubMedQuery(pico);
+  const categories = unique(arxivCategories).filter(
+    (code) => code in ARXIV_HEALTH_CATEGORIES
+  );
+
+  return {
+    source: "llm",
+    pico,
+    pubmedQuery: pubmedQuery || fallbackSearchPlan(claimTitle).pubmedQuery,
+    semanticScholarQueries: unique([claimTitle, ...searchPhrases]).slice(
+      0,
+      MAX_SEMANTIC_SCHOLAR_QUERIES
+    ),
+    arxivQuery: claimTitle,
+    arxivCategories:
+      categories.length > 0 ? categories : Object.keys(ARXIV_HEALTH_CATEGORIES),
+  };
+}
+
+/** The title-only queries used before query planning existed */
+export function fallbackSearchPlan(claimTitle: string): SearchPlan {
+  return {
+    source: "fallback",
+    pico: null,
+    pubmedQuery: `${claimTitle} systematic review`,
+    semanticScholarQueries: [claimTitle],
+    arxivQuery: claimTitle,
+    arxivCategories: Object.keys(ARXIV_HEALTH_CATEGORIES),
+  };
+}
+
+/**
+ * Plain-text query for sources without PubMed's field tags: the first
+ * Semantic Scholar phrasing, which is the claim title unless edited.
+ */
+export function plainQuery(queries: SearchQueries): string {
+  return queries.semanticScholarQueries[0] ?? queries.arxivQuery;
+}
+
+// ── Helpers ─────────────────────────────────────────────────────────────
+
+function conceptBlock(concept: PicoConcept): string {
+  const terms = unique([
+    ...concept.meshTerms.map((t) => `"${cleanTerm(t)}"[MeSH Terms]`),
+    ...[concept.term, ...concept.synonyms].map(
+      (t) => `"${cleanTerm(t)}"[Title/Abstract]`
+    ),
+  ])
+    .filter((t) => !t.startsWith('""'))
+    .slice(0, MAX_TERMS_PER_CONCEPT);
+
+  if (terms.length === 0) return "";
+  return terms.length === 1 ? terms[0] : `(${terms.join(" OR ")})`;
+}
+
+/** Strip characters that would break out of a quoted PubMed phrase */
+function cleanTerm(term: string): string {
+  return term.replace(/["[\]()]/g, " ").replace(/\s+/g, " ").trim();
+}
+
+/** Case-insensitive dedup that keeps the first spelling */
+function unique(values: string[]): string[] {
+  const seen = new Set<string>();
+  return values.filter((value) => {
+    const key = value.trim().toLowerCase();
+    if (!key || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
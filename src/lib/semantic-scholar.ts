@@ -24,6 +24,9 @@ const PAPER_FIELDS = [
   "publicationTypes",
 ].join(",");
 
+/** Citation and reference endpoints don't serve TLDRs */
+const LINKED_PAPER_FIELDS = PAPER_FIELDS.replace(",tldr", "");
+
 // ── Types ───────────────────────────────────────────────────────────────
 
 export interface SemanticScholarPaper {
@@ -105,17 +108,22 @@ async function rateLimitedFetch(
  * @param query  Free-text search (e.g. "creatine muscle mass")
  * @param limit  Max papers to return (1-100, default 20)
  * @param offset Pagination offset (default 0)
+ * @param since  Only papers published on or after this date
  */
 export async function searchSemanticScholar(
   query: string,
   limit = 20,
-  offset = 0
+  offset = 0,
+  since?: Date
 ): Promise<SemanticScholarSearchResult> {
   const params = new URLSearchParams({
     query,
     limit: String(Math.min(limit, 100)),
     offset: String(offset),
     fields: PAPER_FIELDS,
+    ...(since && {
+      publicationDateOrYear: `${since.toISOString().slice(0, 10)}:`,
+    }),
   });
 
   const response = await rateLimitedFetch(
@@ -196,16 +204,72 @@ export async function getRecommendations(
   return (data.recommendedPapers ?? []) as SemanticScholarPaper[];
 }
 
+/**
+ * Papers a given paper cites (its reference list). References Semantic
+ * Scholar couldn't resolve to a paper are skipped.
+ *
+ * @param paperId  Semantic Scholar paper ID
+ * @param limit    Max references (1-1000, default 20)
+ */
+export async function getPaperReferences(
+  paperId: string,
+  limit = 20
+): Promise<SemanticScholarPaper[]> {
+  return getLinkedPapers(paperId, "references", "citedPaper", limit);
+}
+
+/**
+ * Papers that cite a given paper.
+ *
+ * @param paperId  Semantic Scholar paper ID
+ * @param limit    Max citing papers (1-1000, default 20)
+ */
+export async function getPaperCitations(
+  paperId: string,
+  limit = 20
+): Promise<SemanticScholarPaper[]> {
+  return getLinkedPapers(paperId, "citations", "citingPaper", limit);
+}
+
+async function getLinkedPapers(
+  paperId: string,
+  endpoint: "references" | "citations",
+  key: "citedPaper" | "citingPaper",
+  limit: number
+): Promise<SemanticScholarPaper[]> {
+  const params = new URLSearchParams({
+    fields: LINKED_PAPER_FIELDS,
+    limit: String(Math.min(limit, 1000)),
+  });
+
+  const response = await rateLimitedFetch(
+    `${S2_BASE_URL}/paper/${encodeURIComponent(paperId)}/${endpoint}?${params}`
+  );
+
+  if (!response.ok) {
+    throw new Error(
+      `Semantic Scholar ${endpoint} failed: ${response.status} ${response.statusText}`
+    );
+  }
+
+  const data = await response.json();
+  return ((data.data ?? []) as Record<string, SemanticScholarPaper | null>[])
+    .map((edge) => edge[key])
+    .filter((paper): paper is SemanticScholarPaper => !!paper?.paperId)
+    .map((paper) => ({ ...paper, tldr: paper.tldr ?? null }));
+}
+
 /**
  * Convenience: search specifically for health/fitness research papers.
  * Appends relevant terms to improve result quality for our domain.
  */
 export async function searchHealthPapers(
   query: string,
-  limit = 20
+  limit = 20,
+  since?: Date
 ): Promise<SemanticScholarSearchResult> {
   // Semantic Scholar handles broad queries well — adding "study" nudges
   // toward empirical research rather than news articles.
   const refinedQuery = `${query} study`;
-  return searchSemanticScholar(refinedQuery, limit);
+  return searchSemanticScholar(refinedQuery, limit, 0, since);
 }
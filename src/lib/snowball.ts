@@ -0,0 +1,154 @@
+/**
+ * Citation Snowballing
+ *
+ * Keyword search misses studies that don't use the claim's wording. The
+ * evidence syntheses it does find — systematic reviews and meta-analyses —
+ * lead to more: the studies they include (their references), later work
+ * that cites them, and Semantic Scholar's recommendations for papers like
+ * them. The dossier worker runs this after the search sources (step 4) and
+ * stores each candidate's provenance on its ClaimPaper, so the evidence
+ * list can say how a paper was found.
+ *
+ * Candidates are only proposed, never extracted directly: they go through
+ * the same dedup, chunking and vector ranking as searched papers, and the
+ * stage stops once the job's paper budget is spent.
+ */
+import {
+  getPaperCitations,
+  getPaperReferences,
+  getRecommendations,
+  getSemanticScholarPaper,
+  type SemanticScholarPaper,
+} from "@/lib/semantic-scholar";
+import { fromSemanticScholar, type UnifiedPaper } from "@/lib/papers";
+
+// ── Types ───────────────────────────────────────────────────────────────
+
+/**
+ * How a candidate relates to its seed: the seed cites it ("reference"),
+ * it cites the seed ("citation"), or S2 recommends it ("recommendation")
+ */
+export type SnowballLink = "reference" | "citation" | "recommendation";
+
+export interface SnowballProvenance {
+  link: SnowballLink;
+  /** The review or meta-analysis the candidate was found from */
+  seed: UnifiedPaper;
+}
+
+export interface SnowballOptions {
+  /** Most candidates to return: what is left of the job's paper budget */
+  budget: number;
+  /** Reviews / meta-analyses to expand, best-ranked first */
+  maxSeeds?: number;
+  /** Papers taken per seed from each of references, citations, recommendations */
+  perLink?: number;
+  /** Called when a seed can't be expanded; the other seeds still run */
+  onSeedError?: (seed: UnifiedPaper, error: unknown) => void;
+}
+
+// ── Constants ───────────────────────────────────────────────────────────
+
+const DEFAULT_MAX_SEEDS = 3;
+const DEFAULT_PER_LINK = 10;
+
+/** References first: a review's included studies are the likeliest evidence */
+const LINK_ORDER: SnowballLink[] = ["reference", "citation", "recommendation"];
+
+const EVIDENCE_SYNTHESIS_TITLE =
+  /\b(systematic(ally)?\s+review|meta-?analy[sz](is|es)|umbrella\s+review|pooled\s+analysis)/i;
+
+// ── Seeds ───────────────────────────────────────────────────────────────
+
+/** True for papers titled as a systematic review or meta-analysis */
+export function isEvidenceSynthesis(paper: Pick<UnifiedPaper, "title">): boolean {
+  return EVIDENCE_SYNTHESIS_TITLE.test(paper.title);
+}
+
+/**
+ * The papers to snowball from: evidence syntheses in retrieval order
+ * (sources return results by relevance), at most `maxSeeds`.
+ */
+export function selectSnowballSeeds(
+  papers: UnifiedPaper[],
+  maxSeeds = DEFAULT_MAX_SEEDS
+): UnifiedPaper[] {
+  return papers.filter(isEvidenceSynthesis).slice(0, maxSeeds);
+}
+
+/** The ID Semantic Scholar knows a paper by, if it has one we can use */
+function semanticScholarLookupId(paper: UnifiedPaper): string | null {
+  if (paper.doi) return `DOI:${paper.doi}`;
+  if (paper.pmid) return `PMID:${paper.pmid}`;
+  if (paper.arxivId) return `ARXIV:${paper.arxivId}`;
+  return null;
+}
+
+// ── Snowballing ─────────────────────────────────────────────────────────
+
+/**
+ * Expand the top evidence syntheses in `papers` into new candidates, each
+ * carrying `foundVia`. Papers already in `papers` (by S2 ID, DOI or PMID)
+ * and repeats across seeds are skipped, so they don't use up the budget.
+ * Requests run one at a time; the Semantic Scholar client is rate limited.
+ */
+export async function snowball(
+  papers: UnifiedPaper[],
+  options: SnowballOptions
+): Promise<UnifiedPaper[]> {
+  const {
+    budget,
+    maxSeeds = DEFAULT_MAX_SEEDS,
+    perLink = DEFAULT_PER_LINK,
+    onSeedError,
+  } = options;
+  const candidates: UnifiedPaper[] = [];
+  if (budget <= 0) return candidates;
+
+  const known = new Set(papers.flatMap(paperKeys));
+  const fetchers: Record<SnowballLink, (id: string) => Promise<SemanticScholarPaper[]>> = {
+    reference: (id) => getPaperReferences(id, perLink),
+    citation: (id) => getPaperCitations(id, perLink),
+    recommendation: (id) => getRecommendations(id, perLink),
+  };
+
+  for (const seed of selectSnowballSeeds(papers, maxSeeds)) {
+    try {
+      const seedId = await resolveSemanticScholarId(seed);
+      if (!seedId) continue;
+
+      for (const link of LINK_ORDER) {
+        for (const found of await fetchers[link](seedId)) {
+          const paper = fromSemanticScholar(found);
+          const keys = paperKeys(paper);
+          if (keys.some((key) => known.has(key))) continue;
+          keys.forEach((key) => known.add(key));
+
+          candidates.push({ ...paper, foundVia: { link, seed } });
+          if (candidates.length >= budget) return candidates;
+        }
+      }
+    } catch (err) {
+      onSeedError?.(seed, err);
+    }
+  }
+
+  return candidates;
+}
+
+async function resolveSemanticScholarId(
+  paper: UnifiedPaper
+): Promise<string | null> {
+  if (paper.semanticScholarId) return paper.semanticScholarId;
+  const lookupId = semanticScholarLookupId(paper);
+  if (!lookupId) return null;
+  return (await getSemanticScholarPaper(lookupId))?.paperId ?? null;
+}
+
+function paperKeys(paper: UnifiedPaper): string[] {
+  return [
+    paper.semanticScholarId && `s2:${paper.semanticScholarId}`,
+    paper.doi && `doi:${paper.doi.toLowerCase()}`,
+    paper.pmid && `pmid:${paper.pmid}`,
+  ].filter((key): key is string => !!key);
+}
@@ -0,0 +1,306 @@
+/**
+ * Pari-mutuel Stake Pools (Phase 2)
+ *
+ * Users lock coins on YES or NO when they vote (see `escrowCoins`). When a
+ * market resolves, the losing pool is split pro-rata among winners:
+ *
+ *   winnings = floor(stake × L / W)
+ *   fee      = winnings − floor(winnings × (1 − HOUSE_FEE_RATE))
+ *   payout   = stake + winnings          (STAKE_PAYOUT)
+ *   burn     = fee                       (HOUSE_FEE_BURN)
+ *
+ * where W / L are the total coins staked on the winning / losing side.
+ * Rounding dust left over from flooring is never paid out, so it is burned
+ * along with the fee.
+ *
+ * If either pool is empty there is no counterparty, and every stake is
+ * refunded (STAKE_REFUND).
+ *
+ * A MIXED or INSUFFICIENT outcome has no winning side, so the market is
+ * voided instead: every stake is refunded and every vote cost is returned
+ * (VOTE_REFUND). No reputation is awarded.
+ *
+ * Every coin movement goes through `transferCoins` with an idempotency key
+ * derived from the hold ID, so settlement can be safely re-run after a
+ * partial failure.
+ */
+import type { ForecastSide } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { transferCoins, refundStake } from "@/lib/coin-service";
+import { HOUSE_FEE_RATE } from "@/lib/utils";
+
+// ── Types ───────────────────────────────────────────────────────────────
+
+export interface PoolHold {
+  id: string;
+  userId: string;
+  amount: number;
+  side: ForecastSide | null;
+}
+
+export interface StakePayout {
+  holdId: string;
+  userId: string;
+  stake: number;
+  /** Share of the losing pool before the house fee */
+  winnings: number;
+  /** Coins burned from the winnings */
+  fee: number;
+}
+
+export interface PoolSettlementPlan {
+  winningPool: number;
+  losingPool: number;
+  payouts: StakePayout[];
+  /** Hold IDs on the losing side */
+  forfeited: string[];
+  /** Hold IDs returned in full (no counterparty) */
+  refunded: string[];
+  totalFeeBurned: number;
+  /** Coins of the losing pool lost to rounding */
+  dust: number;
+}
+
+export interface StakeSettlementResult {
+  winningPool: number;
+  losingPool: number;
+  winners: number;
+  losers: number;
+  refunded: number;
+  totalPaidOut: number;
+  totalFeeBurned: number;
+  errors: string[];
+}
+
+export interface VoidMarketResult {
+  stakesRefunded: number;
+  votesRefunded: number;
+  errors: string[];
+}
+
+// ── Pure payout calculation ─────────────────────────────────────────────
+
+/**
+ * Work out who gets what for a resolved market.
+ * Holds without a side are treated as having no counterparty and refunded.
+ */
+export function calculatePoolPayouts(
+  holds: PoolHold[],
+  winningSide: ForecastSide,
+  feeRate: number = HOUSE_FEE_RATE
+): PoolSettlementPlan {
+  const sided = holds.filter((h) => h.side !== null);
+  const unsided = holds.filter((h) => h.side === null).map((h) => h.id);
+
+  const winners = sided.filter((h) => h.side === winningSide);
+  const losers = sided.filter((h) => h.side !== winningSide);
+
+  const winningPool = winners.reduce((sum, h) => sum + h.amount, 0);
+  const losingPool = losers.reduce((sum, h) => sum + h.amount, 0);
+
+  // No counterparty — everyone gets their stake back
+  if (winningPool === 0 || losingPool === 0) {
+    return {
+      winningPool,
+      losingPool,
+      payouts: [],
+      forfeited: [],
+      refunded: [...sided.map((h) => h.id), ...unsided],
+      totalFeeBurned: 0,
+      dust: 0,
+    };
+  }
+
+  let distributed = 0;
+  let totalFeeBurned = 0;
+
+  const payouts = winners.map((hold) => {
+    const winnings = Math.floor((hold.amount * losingPool) / winningPool);
+    const fee = winnings - Math.floor(winnings * (1 - feeRate));
+    distributed += winnings;
+    totalFeeBurned += fee;
+    return {
+      holdId: hold.id,
+      userId: hold.userId,
+      stake: hold.amount,
+      winnings,
+      fee,
+    };
+  });
+
+  return {
+    winningPool,
+    losingPool,
+    payouts,
+    forfeited: losers.map((h) => h.id),
+    refunded: unsided,
+    totalFeeBurned,
+    dust: losingPool - distributed,
+  };
+}
+
+// ── Settlement ──────────────────────────────────────────────────────────
+
+/**
+ * Settle every stake on a market once its outcome is known.
+ *
+ * The plan is computed over every stake still in escrow or already settled
+ * (LOCKED, RELEASED, FORFEITED), so pool sizes stay stable across re-runs;
+ * only holds still LOCKED are acted on. REFUNDED holds were returned to
+ * their owners and are no part of either pool.
+ */
+export async function settleMarketStakes(
+  marketId: string,
+  winningSide: ForecastSide
+): Promise<StakeSettlementResult> {
+  const holds = await prisma.coinHold.findMany({
+    where: { marketId, status: { not: "REFUNDED" } },
+    select: { id: true, userId: true, amount: true, side: true, status: true },
+  });
+
+  const plan = calculatePoolPayouts(holds, winningSide);
+  const locked = new Set(
+    holds.filter((h) => h.status === "LOCKED").map((h) => h.id)
+  );
+  const errors: string[] = [];
+  let totalPaidOut = 0;
+
+  for (const payout of plan.payouts) {
+    if (!locked.has(payout.holdId)) continue;
+
+    const paid = await transferCoins({
+      userId: payout.userId,
+      type: "STAKE_PAYOUT",
+      amount: payout.stake + payout.winnings,
+      note: `Pool payout on ${winningSide}`,
+      refType: "market",
+      refId: marketId,
+      metadata: {
+        stake: payout.stake,
+        winnings: payout.winnings,
+        winningPool: plan.winningPool,
+        losingPool: plan.losingPool,
+      },
+      idempotencyKey: `stake-payout-${payout.holdId}`,
+    });
+
+    if (!paid.success) {
+      errors.push(`Payout for hold ${payout.holdId}: ${paid.error}`);
+      continue;
+    }
+
+    if (payout.fee > 0) {
+      const burned = await transferCoins({
+        userId: payout.userId,
+        type: "HOUSE_FEE_BURN",
+        amount: -payout.fee,
+        note: "House fee on pool winnings",
+        refType: "market",
+        refId: marketId,
+        metadata: { winnings: payout.winnings },
+        idempotencyKey: `house-fee-${payout.holdId}`,
+      });
+
+      if (!burned.success) {
+        errors.push(`Fee burn for hold ${payout.holdId}: ${burned.error}`);
+        continue;
+      }
+    }
+
+    await prisma.coinHold.updateMany({
+      where: { id: payout.holdId, status: "LOCKED" },
+      data: { status: "RELEASED", releasedAt: new Date() },
+    });
+    totalPaidOut += payout.stake + payout.winnings - payout.fee;
+  }
+
+  const forfeited = plan.forfeited.filter((id) => locked.has(id));
+  if (forfeited.length > 0) {
+    await prisma.coinHold.updateMany({
+      where: { id: { in: forfeited }, status: "LOCKED" },
+      data: { status: "FORFEITED", releasedAt: new Date() },
+    });
+  }
+
+  for (const holdId of plan.refunded) {
+    if (!locked.has(holdId)) continue;
+    const refund = await refundStake(holdId);
+    if (!refund.success) {
+      errors.push(`Refund for hold ${holdId}: ${refund.error}`);
+    }
+  }
+
+  if (errors.length > 0) {
+    console.error(`[StakePool] Settlement errors for ${marketId}:`, errors);
+  }
+
+  return {
+    winningPool: plan.winningPool,
+    losingPool: plan.losingPool,
+    winners: plan.payouts.length,
+    losers: plan.forfeited.length,
+    refunded: plan.refunded.length,
+    totalPaidOut,
+    totalFeeBurned: plan.totalFeeBurned,
+    errors,
+  };
+}
+
+// ── Void markets ────────────────────────────────────────────────────────
+
+/**
+ * Void a market resolved without a winning side (MIXED / INSUFFICIENT).
+ * Refunds every locked stake and every VOTE_SPENT on the claim. Both are
+ * idempotent per hold / per spend event, so this can be re-run.
+ */
+export async function voidMarket(
+  marketId: string,
+  claimId: string
+): Promise<VoidMarketResult> {
+  const errors: string[] = [];
+  let stakesRefunded = 0;
+  let votesRefunded = 0;
+
+  const holds = await prisma.coinHold.findMany({
+    where: { marketId, status: "LOCKED" },
+    select: { id: true },
+  });
+
+  for (const hold of holds) {
+    const refund = await refundStake(hold.id);
+    if (refund.success) {
+      stakesRefunded++;
+    } else {
+      errors.push(`Refund for hold ${hold.id}: ${refund.error}`);
+    }
+  }
+
+  const voteSpends = await prisma.creditEvent.findMany({
+    where: { type: "VOTE_SPENT", refId: claimId },
+    select: { id: true, userId: true, amount: true },
+  });
+
+  for (const spend of voteSpends) {
+    const refund = await transferCoins({
+      userId: spend.userId,
+      type: "VOTE_REFUND",
+      amount: -spend.amount,
+      note: "Vote refunded — no clear verdict",
+      refType: "claim",
+      refId: claimId,
+      metadata: { spendEventId: spend.id },
+      idempotencyKey: `vote-refund-${spend.id}`,
+    });
+    if (refund.success) {
+      votesRefunded++;
+    } else {
+      errors.push(`Vote refund for event ${spend.id}: ${refund.error}`);
+    }
+  }
+
+  if (errors.length > 0) {
+    console.error(`[StakePool] Void errors for ${marketId}:`, errors);
+  }
+
+  return { stakesRefunded, votesRefunded, errors };
+}
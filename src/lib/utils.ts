@@ -72,6 +72,19 @@ export const CREDIT_REWARDS = {
   STREAK_7_DAYS: 10,          // REDUCED from 20 → 10 (future feature)
 } as const;
 
+/**
+ * Stake limits for pool betting (Phase 2)
+ */
+export const STAKE_LIMITS = {
+  MIN: 1,
+  MAX: 100,
+} as const;
+
+/**
+ * Share of each winner's pool winnings burned at settlement (Phase 2)
+ */
+export const HOUSE_FEE_RATE = 0.03;
+
 /**
  * Reveal timer duration in milliseconds (6 hours)
  */
@@ -11,8 +11,15 @@
  *   - pgvector extension enabled: CREATE EXTENSION IF NOT EXISTS vector;
  *   - DocumentChunk table with `embedding vector(1536)` column
  *   - Optionally an IVFFlat or HNSW index for performance at scale
+ *
+ * Chunks are keyed by (paperId, sha256(content)) so storing the same text
+ * twice — a re-run, or two claims sharing a paper — updates one row instead
+ * of inserting a duplicate, and callers can skip re-embedding it entirely.
  */
+import { createHash } from "crypto";
 import { prisma } from "@/lib/prisma";
+import type { SectionName } from "@/lib/chunker";
+import { groupChunksByPaper } from "@/lib/chunk-ranking";
 
 // ── Types ───────────────────────────────────────────────────────────────
 
@@ -21,10 +28,23 @@ export interface SimilarChunk {
   paperId: string;
   content: string;
   chunkIndex: number;
+  /** Section the chunk came from; null for chunks stored before sections */
+  section: SectionName | null;
+  sectionTitle: string | null;
+  startOffset: number | null;
+  endOffset: number | null;
   /** Cosine similarity (1.0 = identical, 0.0 = orthogonal) */
   similarity: number;
 }
 
+/** Section metadata accepted when storing a chunk */
+export interface ChunkSectionFields {
+  section?: SectionName;
+  sectionTitle?: string;
+  startOffset?: number;
+  endOffset?: number;
+}
+
 export interface VectorSearchOptions {
   /** Maximum number of results (default 10) */
   limit?: number;
@@ -34,6 +54,15 @@ export interface VectorSearchOptions {
   paperIds?: string[];
 }
 
+export interface GroupedSearchOptions extends VectorSearchOptions {
+  /** Chunks kept per paper (default 3) */
+  chunksPerPaper?: number;
+  /** Sections ranked ahead of near-equal matches elsewhere */
+  preferSections?: SectionName[];
+  /** Similarity bonus for preferred sections when ranking (default 0.05) */
+  sectionBoost?: number;
+}
+
 // ── Core search ─────────────────────────────────────────────────────────
 
 /**
@@ -69,6 +98,10 @@ export async function searchSimilarChunks(
       "paperId",
       content,
       "chunkIndex",
+      section,
+      "sectionTitle",
+      "startOffset",
+      "endOffset",
       1 - (embedding <=> $1::vector) AS similarity
     FROM "DocumentChunk"
     WHERE embedding IS NOT NULL
@@ -84,6 +117,10 @@ export async function searchSimilarChunks(
       paperId: string;
       content: string;
       chunkIndex: number;
+      section: string | null;
+      sectionTitle: string | null;
+      startOffset: number | null;
+      endOffset: number | null;
       similarity: number;
     }>
   >(query, ...params);
@@ -93,44 +130,104 @@ export async function searchSimilarChunks(
     paperId: row.paperId,
     content: row.content,
     chunkIndex: row.chunkIndex,
+    section: (row.section as SectionName | null) ?? null,
+    sectionTitle: row.sectionTitle ?? null,
+    startOffset: row.startOffset ?? null,
+    endOffset: row.endOffset ?? null,
     similarity: Number(row.similarity),
   }));
 }
 
 // ── Helpers ─────────────────────────────────────────────────────────────
 
+/** Idempotency key for a chunk's text */
+export function hashChunkContent(content: string): string {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+/** Deterministic row id, so re-storing a chunk keeps its id */
+function chunkId(paperId: string, contentHash: string): string {
+  return createHash("sha256")
+    .update(`${paperId}:${contentHash}`)
+    .digest("hex")
+    .slice(0, 32);
+}
+
+const INSERT_CHUNK_SQL = `
+  INSERT INTO "DocumentChunk" (id, "paperId", content, "chunkIndex", embedding, "tokenCount", section, "sectionTitle", "startOffset", "endOffset", "contentHash", "createdAt")
+  VALUES ($1, $2, $3, $4, $5::vector, $6, $7, $8, $9, $10, $11, NOW())
+  ON CONFLICT ("paperId", "contentHash") DO UPDATE SET
+    embedding = EXCLUDED.embedding,
+    "chunkIndex" = EXCLUDED."chunkIndex",
+    "tokenCount" = EXCLUDED."tokenCount",
+    section = EXCLUDED.section,
+    "sectionTitle" = EXCLUDED."sectionTitle",
+    "startOffset" = EXCLUDED."startOffset",
+    "endOffset" = EXCLUDED."endOffset"
+`;
+
+/**
+ * Find which chunks already have an embedding stored.
+ *
+ * Returns a set of `${paperId}:${contentHash}` keys, so the worker only
+ * sends new text to the embeddings API.
+ */
+export async function findEmbeddedChunkKeys(
+  chunks: Array<{ paperId: string; contentHash: string }>
+): Promise<Set<string>> {
+  if (chunks.length === 0) return new Set();
+
+  const rows = await prisma.$queryRawUnsafe<
+    Array<{ paperId: string; contentHash: string }>
+  >(
+    `
+    SELECT "paperId", "contentHash"
+    FROM "DocumentChunk"
+    WHERE "paperId" = ANY($1::text[])
+      AND "contentHash" = ANY($2::text[])
+      AND embedding IS NOT NULL
+    `,
+    [...new Set(chunks.map((c) => c.paperId))],
+    [...new Set(chunks.map((c) => c.contentHash))]
+  );
+
+  return new Set(rows.map((row) => `${row.paperId}:${row.contentHash}`));
+}
+
 /**
  * Store a chunk with its embedding in the DocumentChunk table.
  *
  * Uses raw SQL because Prisma can't write to `Unsupported` vector columns.
+ * Upserts on (paperId, contentHash).
  */
-export async function storeChunkWithEmbedding(params: {
-  id?: string;
-  paperId: string;
-  content: string;
-  chunkIndex: number;
-  embedding: number[];
-  tokenCount?: number;
-}): Promise<string> {
+export async function storeChunkWithEmbedding(
+  params: {
+    id?: string;
+    paperId: string;
+    content: string;
+    chunkIndex: number;
+    embedding: number[];
+    tokenCount?: number;
+  } & ChunkSectionFields
+): Promise<string> {
   const { paperId, content, chunkIndex, embedding, tokenCount } = params;
-  const id = params.id ?? crypto.randomUUID().replace(/-/g, "");
+  const contentHash = hashChunkContent(content);
+  const id = params.id ?? chunkId(paperId, contentHash);
   const vectorStr = `[${embedding.join(",")}]`;
 
   await prisma.$executeRawUnsafe(
-    `
-    INSERT INTO "DocumentChunk" (id, "paperId", content, "chunkIndex", embedding, "tokenCount", "createdAt")
-    VALUES ($1, $2, $3, $4, $5::vector, $6, NOW())
-    ON CONFLICT (id) DO UPDATE SET
-      embedding = EXCLUDED.embedding,
-      content = EXCLUDED.content,
-      "tokenCount" = EXCLUDED."tokenCount"
-    `,
+    INSERT_CHUNK_SQL,
     id,
     paperId,
     content,
     chunkIndex,
     vectorStr,
-    tokenCount ?? null
+    tokenCount ?? null,
+    params.section ?? null,
+    params.sectionTitle ?? null,
+    params.startOffset ?? null,
+    params.endOffset ?? null,
+    contentHash
   );
 
   return id;
@@ -138,6 +235,10 @@ export async function storeChunkWithEmbedding(params: {
 
 /**
  * Store multiple chunks with embeddings in a single transaction.
+ *
+ * Idempotent: re-storing a chunk refreshes its embedding and metadata in
+ * place. Rows for these papers stored before content hashing are deleted
+ * first, since they would otherwise duplicate the new ones.
  */
 export async function storeChunksWithEmbeddings(
   chunks: Array<{
@@ -146,24 +247,33 @@ export async function storeChunksWithEmbeddings(
     chunkIndex: number;
     embedding: number[];
     tokenCount?: number;
-  }>
+  } & ChunkSectionFields>
 ): Promise<string[]> {
   const ids: string[] = [];
   await prisma.$transaction(async (tx) => {
+    const paperIds = [...new Set(chunks.map((c) => c.paperId))];
+    await tx.$executeRawUnsafe(
+      `DELETE FROM "DocumentChunk" WHERE "paperId" = ANY($1::text[]) AND "contentHash" IS NULL`,
+      paperIds
+    );
+
     for (const chunk of chunks) {
-      const id = crypto.randomUUID().replace(/-/g, "");
+      const contentHash = hashChunkContent(chunk.content);
+      const id = chunkId(chunk.paperId, contentHash);
       const vectorStr = `[${chunk.embedding.join(",")}]`;
       await tx.$executeRawUnsafe(
-        `
-        INSERT INTO "DocumentChunk" (id, "paperId", content, "chunkIndex", embedding, "tokenCount", "createdAt")
-        VALUES ($1, $2, $3, $4, $5::vector, $6, NOW())
-        `,
+        INSERT_CHUNK_SQL,
         id,
         chunk.paperId,
         chunk.content,
         chunk.chunkIndex,
         vectorStr,
-        chunk.tokenCount ?? null
+        chunk.tokenCount ?? null,
+        chunk.section ?? null,
+        chunk.sectionTitle ?? null,
+        chunk.startOffset ?? null,
+        chunk.endOffset ?? null,
+        contentHash
       );
       ids.push(id);
     }
@@ -176,27 +286,28 @@ export async function storeChunksWithEmbeddings(
  *
  * Returns a map of paperId → chunks (sorted by similarity desc).
  * Useful for feeding the best context per paper into the LLM.
+ *
+ * `preferSections` ranks chunks from those sections (e.g. results,
+ * conclusion) ahead of near-equal matches elsewhere by adding
+ * `sectionBoost` to their similarity when choosing each paper's top N.
+ * Reported similarities are unchanged.
  */
 export async function searchChunksGroupedByPaper(
   queryEmbedding: number[],
-  options: VectorSearchOptions & { chunksPerPaper?: number } = {}
+  options: GroupedSearchOptions = {}
 ): Promise<Map<string, SimilarChunk[]>> {
-  const { chunksPerPaper = 3, ...searchOpts } = options;
+  const { chunksPerPaper = 3, preferSections, sectionBoost, ...searchOpts } =
+    options;
 
   // Fetch more than needed so we can pick top-N per paper
-  const allChunks = await searchSimilarChunks(queryEmbedding, {
+  const results = await searchSimilarChunks(queryEmbedding, {
     ...searchOpts,
     limit: (searchOpts.limit ?? 10) * chunksPerPaper,
   });
 
-  const grouped = new Map<string, SimilarChunk[]>();
-  for (const chunk of allChunks) {
-    const existing = grouped.get(chunk.paperId) ?? [];
-    if (existing.length < chunksPerPaper) {
-      existing.push(chunk);
-      grouped.set(chunk.paperId, existing);
-    }
-  }
-
-  return grouped;
+  return groupChunksByPaper(results, {
+    chunksPerPaper,
+    preferSections,
+    sectionBoost,
+  });
 }
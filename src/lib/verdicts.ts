@@ -0,0 +1,233 @@
+/**
+ * Verdict persistence
+ *
+ * Every dossier run that produces a SynthesisVerdict stores it as a new
+ * Verdict row (version 1, 2, 3… per claim) linked to its DossierJob.
+ * Market keeps the denormalised latest values for fast reads; the Verdict
+ * table keeps every field of every version. Citation markers in the
+ * detailed summary are stored alongside as VerdictCitation rows.
+ */
+
+import { prisma } from "@/lib/prisma";
+import type { ForecastSide, Prisma, VerdictOutcome } from "@prisma/client";
+import type { SynthesisVerdict } from "@/lib/prompts";
+import {
+  resolveCitationSources,
+  type CitationSource,
+  type ResolvedCitation,
+} from "@/lib/citations";
+
+const VERDICT_OUTCOMES: VerdictOutcome[] = [
+  "SUPPORTED",
+  "CONTRADICTED",
+  "MIXED",
+  "INSUFFICIENT",
+];
+
+/** Longest cited passage returned to the client */
+const MAX_EXCERPT_CHARS = 280;
+
+/** Fields needed to display a stored citation */
+export const citationSelect = {
+  key: true,
+  paperId: true,
+  chunkId: true,
+  paper: { select: { title: true } },
+  chunk: { select: { section: true, content: true } },
+} satisfies Prisma.VerdictCitationSelect;
+
+type CitationRow = Prisma.VerdictCitationGetPayload<{
+  select: typeof citationSelect;
+}>;
+
+export interface SaveVerdictOptions {
+  claimId: string;
+  dossierJobId?: string | null;
+  verdict: SynthesisVerdict;
+  evidenceCount: number;
+  /** Papers retrieved in this run, used to diff consecutive versions */
+  paperIds?: string[];
+  /** Citation keys offered in the synthesis prompt */
+  citationSources?: CitationSource[];
+  /** Confidence computed from evidence weights (src/lib/evidence-grading.ts) */
+  ruleConfidence?: number | null;
+  /** LLM and rule-based confidence disagree enough for admin review */
+  confidenceFlagged?: boolean;
+}
+
+/** Fields of a stored Verdict needed to build the history timeline */
+export interface VerdictVersionRow {
+  version: number;
+  outcome: VerdictOutcome;
+  confidence: number;
+  evidenceCount: number;
+  paperIds: string[];
+  createdAt: Date;
+}
+
+export interface PaperRef {
+  id: string;
+  title: string;
+}
+
+export interface VerdictHistoryEntry {
+  version: number;
+  outcome: VerdictOutcome;
+  confidence: number;
+  evidenceCount: number;
+  paperCount: number;
+  createdAt: Date;
+  /** Papers in this version but not the previous one (all papers for v1) */
+  addedPapers: PaperRef[];
+  /** Papers in the previous version but not this one */
+  removedPapers: PaperRef[];
+}
+
+/**
+ * Coerce the LLM's verdict string to a VerdictOutcome.
+ * Anything unrecognised is treated as INSUFFICIENT.
+ */
+export function toVerdictOutcome(value: string): VerdictOutcome {
+  const upper = value?.toUpperCase() as VerdictOutcome;
+  return VERDICT_OUTCOMES.includes(upper) ? upper : "INSUFFICIENT";
+}
+
+/**
+ * The YES/NO side an outcome resolves to. MIXED and INSUFFICIENT have no
+ * winning side.
+ */
+export function outcomeToSide(outcome: VerdictOutcome): ForecastSide | null {
+  if (outcome === "SUPPORTED") return "YES";
+  if (outcome === "CONTRADICTED") return "NO";
+  return null;
+}
+
+/**
+ * Inverse of `outcomeToSide` for YES/NO verdicts.
+ */
+export function sideToOutcome(side: ForecastSide): VerdictOutcome {
+  return side === "YES" ? "SUPPORTED" : "CONTRADICTED";
+}
+
+/**
+ * Store a synthesised verdict as the next version for its claim. A run
+ * saves one verdict: a retried run gets back the one it already saved.
+ */
+export async function saveVerdict(options: SaveVerdictOptions) {
+  const { claimId, dossierJobId, verdict, evidenceCount, paperIds } = options;
+  const citations = resolveCitationSources(
+    verdict.detailedSummary ?? "",
+    options.citationSources ?? []
+  );
+
+  return prisma.$transaction(async (tx) => {
+    if (dossierJobId) {
+      const existing = await tx.verdict.findUnique({ where: { dossierJobId } });
+      if (existing) return existing;
+    }
+
+    const latest = await tx.verdict.findFirst({
+      where: { claimId },
+      orderBy: { version: "desc" },
+      select: { version: true },
+    });
+
+    return tx.verdict.create({
+      data: {
+        claimId,
+        dossierJobId: dossierJobId ?? null,
+        version: (latest?.version ?? 0) + 1,
+        outcome: toVerdictOutcome(verdict.verdict),
+        confidence: verdict.confidence,
+        ruleConfidence: options.ruleConfidence ?? null,
+        confidenceFlagged: options.confidenceFlagged ?? false,
+        effectDirection: verdict.effectDirection ?? null,
+        strengthOfEvidence: verdict.strengthOfEvidence ?? null,
+        shortSummary: verdict.shortSummary ?? "",
+        detailedSummary: verdict.detailedSummary ?? "",
+        keyFactors: verdict.keyFactors ?? [],
+        caveats: verdict.caveats ?? [],
+        whatWouldChangeVerdict: verdict.whatWouldChangeVerdict ?? null,
+        recommendedAction: verdict.recommendedAction ?? null,
+        evidenceCount,
+        paperIds: paperIds ?? [],
+        ...(citations.length > 0 && {
+          citations: {
+            create: citations.map(({ key, paperId, chunkId }) => ({
+              key,
+              paperId,
+              chunkId,
+            })),
+          },
+        }),
+      },
+    });
+  });
+}
+
+/**
+ * Latest stored verdict for a claim with its citations, or null if none has
+ * been saved yet.
+ */
+export async function getLatestVerdict(claimId: string) {
+  return prisma.verdict.findFirst({
+    where: { claimId },
+    orderBy: { version: "desc" },
+    include: { citations: { select: citationSelect } },
+  });
+}
+
+/**
+ * Flatten stored citation rows for the client, ordered by key (P1, P1.1,
+ * P2…). Excerpts are trimmed to a tooltip-sized preview.
+ */
+export function formatCitations(rows: CitationRow[]): ResolvedCitation[] {
+  return rows
+    .map((row) => ({
+      key: row.key,
+      paperId: row.paperId,
+      chunkId: row.chunkId,
+      paperTitle: row.paper.title,
+      section: row.chunk?.section ?? null,
+      excerpt: row.chunk ? truncate(row.chunk.content, MAX_EXCERPT_CHARS) : null,
+    }))
+    .sort((a, b) => a.key.localeCompare(b.key, undefined, { numeric: true }));
+}
+
+function truncate(text: string, max: number): string {
+  return text.length <= max ? text : `${text.slice(0, max - 1).trimEnd()}…`;
+}
+
+/**
+ * Turn stored versions (any order) into a timeline, oldest first, with the
+ * papers added and removed since the previous version. Titles come from
+ * `paperTitles`; unknown IDs fall back to the ID itself.
+ */
+export function buildVerdictHistory(
+  versions: VerdictVersionRow[],
+  paperTitles: Map<string, string>,
+): VerdictHistoryEntry[] {
+  const toRef = (id: string): PaperRef => ({
+    id,
+    title: paperTitles.get(id) ?? id,
+  });
+
+  const sorted = [...versions].sort((a, b) => a.version - b.version);
+  let previous = new Set<string>();
+
+  return sorted.map((row) => {
+    const current = new Set(row.paperIds);
+    const entry: VerdictHistoryEntry = {
+      version: row.version,
+      outcome: row.outcome,
+      confidence: row.confidence,
+      evidenceCount: row.evidenceCount,
+      paperCount: current.size,
+      createdAt: row.createdAt,
+      addedPapers: [...current].filter((id) => !previous.has(id)).map(toRef),
+      removedPapers: [...previous].filter((id) => !current.has(id)).map(toRef),
+    };
+    previous = current;
+    return entry;
+  });
+}
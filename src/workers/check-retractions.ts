@@ -0,0 +1,59 @@
+/**
+ * Retraction Check
+ *
+ * One-shot job that re-checks stored papers for retractions and
+ * expressions of concern, and flags resolved claims whose verdict cited a
+ * paper since retracted (see src/lib/retraction-check.ts). Schedule it
+ * daily, e.g. as a Railway cron service.
+ *
+ * Usage:
+ *   npm run check:retractions -- [options]
+ *
+ *   --max-age-days <n>   re-check papers last checked longer ago (default 30)
+ *   --limit <n>          most papers per run (default 200)
+ *
+ * Exits non-zero on an invalid option or a database error.
+ */
+
+import { parseArgs } from "util";
+import { prisma } from "@/lib/prisma";
+import { checkStoredPapers } from "@/lib/retraction-check";
+
+const { values } = parseArgs({
+  options: {
+    "max-age-days": { type: "string" },
+    limit: { type: "string" },
+  },
+});
+
+function positiveInteger(name: string, raw: string | undefined): number | undefined {
+  if (raw === undefined) return undefined;
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 1) {
+    throw new Error(`--${name} must be a positive integer`);
+  }
+  return value;
+}
+
+async function main() {
+  const result = await checkStoredPapers({
+    maxAgeDays: positiveInteger("max-age-days", values["max-age-days"]),
+    limit: positiveInteger("limit", values.limit),
+    onError: (message, err) =>
+      console.warn(
+        `[Retraction Check] ${message}: ${err instanceof Error ? err.message : err}`
+      ),
+  });
+
+  console.log(
+    `[Retraction Check] Checked ${result.checked} papers: ${result.changed} changed, ` +
+      `${result.newlyRetracted.length} newly retracted, ${result.flaggedClaims} resolved claims flagged`
+  );
+}
+
+main()
+  .catch((err) => {
+    console.error("[Retraction Check] Error:", err instanceof Error ? err.message : err);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
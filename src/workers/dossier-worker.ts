@@ -1,87 +1,164 @@
 /**
  * Dossier Worker
  *
- * BullMQ worker that processes dossier-generation jobs through a 10-step
+ * BullMQ worker that processes dossier-generation jobs through a staged
  * RAG pipeline:
  *
- *   1. Load claim from DB
- *   2. Build search queries
- *   3. Search PubMed + arXiv + Semantic Scholar in parallel
- *   4. Deduplicate papers (DOI > PMID > title similarity)
- *   5. Store / upsert papers in DB
- *   6. Chunk text + generate embeddings + store
- *   7. Vector search for relevant chunks
- *   8. Extract evidence per paper (LLM)
- *   9. Synthesize verdict (LLM)
- *  10. Save verdict + update Market + finalise DossierJob
+ *   PLANNING    Load the claim, plan search queries (LLM PICO breakdown →
+ *               MeSH boolean PubMed query, Semantic Scholar phrasings, arXiv
+ *               categories), or reuse the plan stored on the DossierJob
+ *   SEARCHING   Search the claim's paper sources in parallel (PubMed,
+ *               Semantic Scholar and arXiv by default; Europe PMC,
+ *               ClinicalTrials.gov and Crossref enrichment per claim — see
+ *               src/lib/paper-sources.ts), deduplicate (DOI > PMID > title,
+ *               then near-duplicate titles; preprints are attached to their
+ *               published versions), snowball from the top reviews /
+ *               meta-analyses via Semantic Scholar citations
+ *   STORING     Upsert papers, linking preprints to published versions,
+ *               recording how snowballed papers were found and their
+ *               retraction status (retracted papers are not used as
+ *               evidence from here on)
+ *   EMBEDDING   Fetch PMC full text + section-aware chunk + embed new text
+ *   RETRIEVAL   Vector search for relevant chunks (results/conclusion
+ *               preferred)
+ *   EXTRACTION  Extract evidence per paper (LLM), graded by study design
+ *               (GRADE-style; an expression of concern rates a paper down)
+ *   SYNTHESIS   Synthesize verdict (LLM) from weighted cards, citing
+ *               papers/excerpts inline as [P1]/[P1.2]
+ *   SAVING      Save versioned Verdict + citations (confidence cross-checked
+ *               against the weights), update Market, finalise DossierJob
+ *
+ * Each completed stage's output is checkpointed, so a retry resumes after
+ * the last completed stage (src/lib/dossier-stages.ts). SAVING isn't
+ * checkpointed but is safe to repeat: a run saves at most one Verdict, and
+ * a retry gets that one back. Stage transitions, source counts, extracted
+ * evidence and errors are published live for the research view
+ * (src/lib/dossier-events.ts).
+ *
+ * Each queue job reports to one DossierJob row (`dossierJobId`) and is
+ * skipped if that row is no longer active. An INCREMENTAL run searches only
+ * for papers that appeared since `Market.lastDossierAt`, extracts evidence
+ * from those not yet linked to the claim, and synthesises the verdict from
+ * the new evidence plus the claim's stored evidence cards. It does not
+ * snowball, and keeps the current verdict when nothing new turns up. A
+ * RESOLVED claim's verdict is never re-synthesised: its new evidence is
+ * only stored. A full run on one stores its Verdict but leaves the
+ * market's status, outcome and summary as settled. New papers that might
+ * change the verdict are sent to the claim's subscribers via the
+ * paper-alerts queue (src/lib/paper-alerts.ts).
+ *
+ * Every LLM and embedding call is priced into the run's `DossierCost`
+ * ledger (src/lib/llm-costs.ts). Past the per-run budget no further papers
+ * are extracted; past the monthly budget runs fail before they start.
  *
  * Run separately from the Next.js app: `npm run worker`
  * For Railway: Deploy as a separate service or use a Procfile.
  */
 
-import { Worker, Job, type ConnectionOptions } from "bullmq";
+import {
+  Worker,
+  Job,
+  UnrecoverableError,
+  type ConnectionOptions,
+} from "bullmq";
+import { z } from "zod";
 import { createRedisConnection } from "@/lib/redis";
 import { prisma } from "@/lib/prisma";
 import { QUEUE_NAMES, DossierJobData } from "@/lib/queue";
-import { searchPubMed, fetchPubMedArticles, PubMedArticle } from "@/lib/pubmed";
-import { searchArxivHealth, ArxivArticle } from "@/lib/arxiv";
 import {
-  searchHealthPapers,
-  SemanticScholarPaper,
-} from "@/lib/semantic-scholar";
-import { chunkText } from "@/lib/chunker";
+  deduplicatePapers,
+  embedAbstracts,
+  paperSections,
+  UnifiedPaper,
+} from "@/lib/papers";
+import { getPaperSources } from "@/lib/paper-sources";
+import { snowball, type SnowballLink } from "@/lib/snowball";
+import { isExcludedFromEvidence, worseRetraction } from "@/lib/retractions";
+import { flagClaimsCitingRetracted, flagsClaims } from "@/lib/retraction-check";
+import {
+  mightChangeVerdict,
+  notifySubscribers,
+  NewFinding,
+} from "@/lib/paper-alerts";
+import { chunkSections, SECTION_LABELS, SectionName } from "@/lib/chunker";
+import { fetchPMCFullText, PMCFullText } from "@/lib/pmc-fulltext";
 import {
   generateEmbedding,
   generateEmbeddings,
-  openai,
-} from "@/lib/openai";
+  getLlmProvider,
+  completeJson,
+  withUsage,
+  LlmProvider,
+  LlmValidationFailure,
+} from "@/lib/llm";
+import {
+  CostLedger,
+  getCostBudgets,
+  jobCostUsd,
+  monthToDateCostUsd,
+} from "@/lib/llm-costs";
+import { publishDossierEvent } from "@/lib/dossier-events";
+import {
+  clearCheckpoints,
+  DOSSIER_STAGES,
+  loadCheckpoints,
+  saveCheckpoint,
+} from "@/lib/dossier-stages";
 import {
   storeChunksWithEmbeddings,
   searchChunksGroupedByPaper,
+  findEmbeddedChunkKeys,
+  hashChunkContent,
+  SimilarChunk,
 } from "@/lib/vector-search";
+import { RETRIEVAL_SETTINGS } from "@/lib/retrieval-settings";
+import { planSearch } from "@/lib/query-planner";
+import {
+  fallbackSearchPlan,
+  searchPlanSchema,
+  SearchPlan,
+} from "@/lib/search-plan";
+import {
+  paperCitationKey,
+  excerptCitationKey,
+  CitationSource,
+} from "@/lib/citations";
 import {
   buildEvidenceExtractionPrompt,
   buildVerdictSynthesisPrompt,
   EVIDENCE_EXTRACTION_SYSTEM,
   VERDICT_SYNTHESIS_SYSTEM,
-  ExtractedEvidence,
+  extractedEvidenceSchema,
+  synthesisVerdictSchema,
   SynthesisVerdict,
   EvidenceCardForSynthesis,
 } from "@/lib/prompts";
-import type { Stance } from "@prisma/client";
+import {
+  outcomeToSide,
+  saveVerdict,
+  toVerdictOutcome,
+} from "@/lib/verdicts";
+import {
+  gradeEvidence,
+  needsConfidenceReview,
+  ruleBasedConfidence,
+} from "@/lib/evidence-grading";
+import type {
+  Claim,
+  DossierStage,
+  Market,
+  Prisma,
+  RetractionStatus,
+  Stance,
+} from "@prisma/client";
 
 // ── Constants ───────────────────────────────────────────────────────────
 
 const MAX_PAPERS = 30; // cap per source to control costs
-const MAX_PAPERS_FOR_EVIDENCE = 15; // only extract evidence from top N
+const MAX_PAPERS_PER_JOB = 150; // snowballing only fills what search leaves
 const EMBEDDING_BATCH_SIZE = 50; // OpenAI batch limit
-const EXTRACTION_VERSION = "v1";
-
-// ── Unified paper type used internally during dedup ─────────────────────
-
-interface UnifiedPaper {
-  title: string;
-  abstract?: string;
-  doi?: string;
-  pmid?: string;
-  pmcid?: string;
-  arxivId?: string;
-  semanticScholarId?: string;
-  authors: string[];
-  journal?: string;
-  publishedYear?: number;
-  fullTextUrl?: string;
-}
-
-// ── Helper: normalise title for fuzzy dedup ─────────────────────────────
-
-function normaliseTitle(title: string): string {
-  return title
-    .toLowerCase()
-    .replace(/[^a-z0-9 ]/g, "")
-    .replace(/\s+/g, " ")
-    .trim();
-}
+const MAX_FULLTEXT_PAPERS = 10; // sequential PMC fetches, NCBI rate limits
+const EXTRACTION_VERSION = "v2";
 
 // ── Helper: map LLM stance to Prisma Stance enum ───────────────────────
 
@@ -97,548 +174,1197 @@ function mapStance(llmStance: string): Stance {
   }
 }
 
-// ── Helper: map verdict to ForecastSide ─────────────────────────────────
+// ── Helper: evidence card from an earlier run's extraction ─────────────
+
+const PRIOR_EVIDENCE_SELECT = {
+  paperId: true,
+  aiSummary: true,
+  studyType: true,
+  sampleSize: true,
+  stance: true,
+  evidenceWeight: true,
+  evidenceCertainty: true,
+  extractionJson: true,
+  paper: {
+    select: { title: true, publishedYear: true, retractionStatus: true },
+  },
+} satisfies Prisma.ClaimPaperSelect;
+
+type PriorEvidence = Prisma.ClaimPaperGetPayload<{
+  select: typeof PRIOR_EVIDENCE_SELECT;
+}>;
 
-function mapVerdict(verdict: string): "YES" | "NO" | null {
-  switch (verdict) {
-    case "SUPPORTED":
-      return "YES";
-    case "CONTRADICTED":
-      return "NO";
-    default:
-      return null; // MIXED or INSUFFICIENT → no clear verdict
-  }
-}
-
-// ── Source → UnifiedPaper converters ─────────────────────────────────────
+/**
+ * The parts of a stored extraction a prior card needs. Parsed leniently:
+ * extractions saved before `effect` / `pValue` were added still count.
+ */
+const storedExtractionSchema = z.object({
+  stance: z.enum(["SUPPORTS", "CONTRADICTS", "NEUTRAL", "INSUFFICIENT"]),
+  keyFindings: z.array(z.string()).catch([]),
+});
 
-function fromPubMed(article: PubMedArticle): UnifiedPaper {
-  return {
-    title: article.title,
-    abstract: article.abstract,
-    doi: article.doi,
-    pmid: article.pmid,
-    pmcid: article.pmcid,
-    authors: article.authors,
-    journal: article.journal,
-    publishedYear: article.publishedYear,
-    fullTextUrl: article.fullTextUrl,
-  };
+/** A ClaimPaper stance in the extraction vocabulary synthesis and grading use */
+function toExtractionStance(stance: Stance | null): string {
+  return stance === "REFUTES" ? "CONTRADICTS" : (stance ?? "NEUTRAL");
 }
 
-function fromArxiv(article: ArxivArticle): UnifiedPaper {
+function priorEvidenceCard(
+  link: PriorEvidence & { aiSummary: string },
+  citationKey: string
+): EvidenceCardForSynthesis {
+  const extraction = storedExtractionSchema.safeParse(link.extractionJson);
   return {
-    title: article.title,
-    abstract: article.abstract,
-    doi: article.doi,
-    arxivId: article.arxivId,
-    authors: article.authors,
-    publishedYear: article.publishedYear,
-    fullTextUrl: article.pdfUrl,
+    citationKey,
+    paperTitle: link.paper.title,
+    publishedYear: link.paper.publishedYear ?? undefined,
+    studyType: link.studyType ?? "Unknown",
+    sampleSize: link.sampleSize,
+    stance: extraction.success
+      ? extraction.data.stance
+      : toExtractionStance(link.stance),
+    summary: link.aiSummary,
+    keyFindings: extraction.success ? extraction.data.keyFindings : [],
+    evidenceWeight: link.evidenceWeight ?? undefined,
+    certainty: link.evidenceCertainty ?? undefined,
   };
 }
 
-function fromSemanticScholar(paper: SemanticScholarPaper): UnifiedPaper {
-  return {
-    title: paper.title,
-    abstract: paper.abstract ?? undefined,
-    doi: paper.externalIds?.DOI,
-    pmid: paper.externalIds?.PubMed,
-    pmcid: paper.externalIds?.PubMedCentral,
-    arxivId: paper.externalIds?.ArXiv,
-    semanticScholarId: paper.paperId,
-    authors: paper.authors.map((a) => a.name),
-    journal: paper.journal?.name,
-    publishedYear: paper.year ?? undefined,
-  };
+// ── Helper: find or create a Paper row ──────────────────────────────────
+
+async function upsertPaper(paper: UnifiedPaper) {
+  // Build a unique where clause — prefer DOI, then PMID, arXiv, S2, NCT
+  const existing = await prisma.paper.findFirst({
+    where: {
+      OR: [
+        ...(paper.doi ? [{ doi: paper.doi }] : []),
+        ...(paper.pmid ? [{ pmid: paper.pmid }] : []),
+        ...(paper.arxivId ? [{ arxivId: paper.arxivId }] : []),
+        ...(paper.semanticScholarId
+          ? [{ semanticScholarId: paper.semanticScholarId }]
+          : []),
+        ...(paper.nctId ? [{ nctId: paper.nctId }] : []),
+      ],
+    },
+  });
+
+  if (existing) {
+    // Keep a status the scheduled check found if this source doesn't know it
+    const retraction =
+      paper.retraction &&
+      worseRetraction(
+        {
+          status: existing.retractionStatus,
+          noticeUrl: existing.retractionNoticeUrl ?? undefined,
+        },
+        paper.retraction
+      );
+    // Flag claims relying on it before storing the status: the scheduled
+    // check never re-checks a paper already stored as retracted
+    if (retraction && flagsClaims(existing.retractionStatus, retraction.status)) {
+      await flagClaimsCitingRetracted([existing.id]);
+    }
+    return prisma.paper.update({
+      where: { id: existing.id },
+      data: {
+        doi: existing.doi ?? paper.doi,
+        pmid: existing.pmid ?? paper.pmid,
+        pmcid: existing.pmcid ?? paper.pmcid,
+        arxivId: existing.arxivId ?? paper.arxivId,
+        semanticScholarId:
+          existing.semanticScholarId ?? paper.semanticScholarId,
+        nctId: existing.nctId ?? paper.nctId,
+        abstract: existing.abstract ?? paper.abstract,
+        fullTextUrl: existing.fullTextUrl ?? paper.fullTextUrl,
+        journal: existing.journal ?? paper.journal,
+        ...(retraction && {
+          retractionStatus: retraction.status,
+          retractionNoticeUrl: retraction.noticeUrl ?? null,
+          retractionCheckedAt: new Date(),
+        }),
+      },
+    });
+  }
+
+  return prisma.paper.create({
+    data: {
+      title: paper.title,
+      abstract: paper.abstract,
+      doi: paper.doi,
+      pmid: paper.pmid,
+      pmcid: paper.pmcid,
+      arxivId: paper.arxivId,
+      semanticScholarId: paper.semanticScholarId,
+      nctId: paper.nctId,
+      authors: paper.authors,
+      journal: paper.journal,
+      publishedYear: paper.publishedYear,
+      fullTextUrl: paper.fullTextUrl,
+      ...(paper.retraction && {
+        retractionStatus: paper.retraction.status,
+        retractionNoticeUrl: paper.retraction.noticeUrl,
+        retractionCheckedAt: new Date(),
+      }),
+    },
+  });
 }
 
-// ── Deduplication ───────────────────────────────────────────────────────
+// ── Helper: checkpointed candidate papers ──────────────────────────────
 
 /**
- * Deduplicate papers by DOI > PMID > arXiv ID > normalised title.
- * Merges identifiers from later duplicates into the first-seen copy.
+ * A candidate paper as checkpointed. A snowball seed that is itself in the
+ * list is stored by index, so the seed keeps its identity when restored.
  */
-export function deduplicatePapers(papers: UnifiedPaper[]): UnifiedPaper[] {
-  const seen = new Map<string, UnifiedPaper>();
-  const titleIndex = new Map<string, string>(); // normTitle → dedup key
-
-  function getKeyAndMerge(paper: UnifiedPaper): string | null {
-    // Priority: DOI > PMID > arXivId > title
-    const doi = paper.doi?.toLowerCase();
-    const pmid = paper.pmid;
-    const arxiv = paper.arxivId;
-    const normTitle = normaliseTitle(paper.title);
-
-    // Check by DOI
-    if (doi && seen.has(`doi:${doi}`)) {
-      merge(seen.get(`doi:${doi}`)!, paper);
-      return null;
-    }
-    if (pmid && seen.has(`pmid:${pmid}`)) {
-      merge(seen.get(`pmid:${pmid}`)!, paper);
-      return null;
-    }
-    if (arxiv && seen.has(`arxiv:${arxiv}`)) {
-      merge(seen.get(`arxiv:${arxiv}`)!, paper);
-      return null;
-    }
-    // Fuzzy title match
-    if (titleIndex.has(normTitle)) {
-      const existingKey = titleIndex.get(normTitle)!;
-      merge(seen.get(existingKey)!, paper);
-      return null;
-    }
+type StoredCandidate = Omit<UnifiedPaper, "foundVia"> & {
+  foundVia?: { link: SnowballLink; seed: number | UnifiedPaper };
+};
+
+function toStoredCandidates(papers: UnifiedPaper[]): StoredCandidate[] {
+  return papers.map(({ foundVia, ...paper }) => {
+    if (!foundVia) return paper;
+    const index = papers.indexOf(foundVia.seed);
+    return {
+      ...paper,
+      foundVia: { link: foundVia.link, seed: index >= 0 ? index : foundVia.seed },
+    };
+  });
+}
 
-    // Not a duplicate — assign all keys
-    const primaryKey =
-      (doi ? `doi:${doi}` : null) ??
-      (pmid ? `pmid:${pmid}` : null) ??
-      (arxiv ? `arxiv:${arxiv}` : null) ??
-      `title:${normTitle}`;
-
-    if (doi) seen.set(`doi:${doi}`, paper);
-    if (pmid) seen.set(`pmid:${pmid}`, paper);
-    if (arxiv) seen.set(`arxiv:${arxiv}`, paper);
-    seen.set(primaryKey, paper);
-    titleIndex.set(normTitle, primaryKey);
-    return primaryKey;
-  }
+function fromStoredCandidates(stored: StoredCandidate[]): UnifiedPaper[] {
+  // Seeds are linked below, once every paper exists
+  const papers: UnifiedPaper[] = stored.map((candidate) => ({
+    ...candidate,
+    foundVia: undefined,
+  }));
+  stored.forEach(({ foundVia }, i) => {
+    if (!foundVia) return;
+    const seed =
+      typeof foundVia.seed === "number" ? papers[foundVia.seed] : foundVia.seed;
+    papers[i].foundVia = { link: foundVia.link, seed };
+  });
+  return papers;
+}
 
-  function merge(target: UnifiedPaper, source: UnifiedPaper) {
-    if (!target.doi && source.doi) target.doi = source.doi;
-    if (!target.pmid && source.pmid) target.pmid = source.pmid;
-    if (!target.pmcid && source.pmcid) target.pmcid = source.pmcid;
-    if (!target.arxivId && source.arxivId) target.arxivId = source.arxivId;
-    if (!target.semanticScholarId && source.semanticScholarId)
-      target.semanticScholarId = source.semanticScholarId;
-    if (!target.abstract && source.abstract) target.abstract = source.abstract;
-    if (!target.fullTextUrl && source.fullTextUrl)
-      target.fullTextUrl = source.fullTextUrl;
-    if (!target.journal && source.journal) target.journal = source.journal;
-    if (!target.publishedYear && source.publishedYear)
-      target.publishedYear = source.publishedYear;
-    if (target.authors.length === 0 && source.authors.length > 0)
-      target.authors = source.authors;
-  }
+// ── Stages ──────────────────────────────────────────────────────────────
+
+/** What every stage of one run works with */
+interface RunContext {
+  job: Job<DossierJobData>;
+  claimId: string;
+  dossierJobId: string;
+  claim: Claim;
+  /** Set for an incremental run: only papers published since */
+  since?: Date;
+  /** The claim's market before the run (incremental runs only) */
+  market: Pick<Market, "lastDossierAt" | "status" | "aiOutcome"> | null;
+  /** When the DossierJob was queued: papers linked since are this run's */
+  queuedAt?: Date;
+  llm: LlmProvider;
+  ledger: CostLedger;
+  log: (msg: string) => void;
+  /** Tracked across LLM stages and saved on the DossierJob for prompt QA */
+  validationFailures: (LlmValidationFailure & { paperTitle?: string })[];
+}
 
-  const unique: UnifiedPaper[] = [];
-  for (const paper of papers) {
-    const key = getKeyAndMerge(paper);
-    if (key !== null) {
-      unique.push(paper);
-    }
-  }
-  return unique;
+interface StoredPapers {
+  /** Paper IDs, parallel to the candidate papers */
+  paperIds: string[];
+  retractions: Record<string, RetractionStatus>;
+  /** Papers to extract: not retracted, and not already linked to the claim */
+  evidencePaperIds: string[];
+  /** Evidence extracted by earlier runs, which an incremental run reuses */
+  priorEvidence: PriorEvidence[];
 }
 
-// ── Core pipeline ───────────────────────────────────────────────────────
+interface EmbeddedChunks {
+  /** Chunks this run embedded and stored */
+  chunkIds: string[];
+  /** Chunks that were already embedded */
+  skipped: number;
+}
 
-export async function processDossierJob(
-  job: Job<DossierJobData>
+interface ExtractedEvidence {
+  cards: EvidenceCardForSynthesis[];
+  citationSources: CitationSource[];
+  /** New papers that might change the verdict subscribers have seen */
+  alertPaperIds: string[];
+}
+
+interface SynthesisedVerdict {
+  verdict: SynthesisVerdict | null;
+  /** Every card the verdict was synthesised from, heaviest first */
+  cards: EvidenceCardForSynthesis[];
+  citationSources: CitationSource[];
+}
+
+async function enterStage(
+  job: Job<DossierJobData>,
+  stage: DossierStage
 ): Promise<void> {
-  const { claimId } = job.data;
-  const log = (msg: string) =>
-    console.log(`[Dossier Worker] [${job.id}] ${msg}`);
+  const { label, progress } = DOSSIER_STAGES[stage];
+  await job.updateProgress(progress);
+  await prisma.dossierJob.update({
+    where: { id: job.data.dossierJobId },
+    data: { stage, progress },
+  });
+  await publishDossierEvent(job.data.dossierJobId, {
+    type: "stage",
+    stage,
+    label,
+    progress,
+  });
+}
 
-  log(`Starting job for claim: ${claimId}`);
+/** Planned queries, or the plan stored on the job by an admin or an earlier attempt */
+async function planQueries(
+  ctx: RunContext,
+  storedPlan: Prisma.JsonValue | undefined
+): Promise<SearchPlan> {
+  const { claim, dossierJobId, log } = ctx;
+
+  // An admin re-run arrives with its edited plan already on the job
+  const stored = searchPlanSchema.safeParse(storedPlan);
+  if (stored.success) {
+    log(`Using stored ${stored.data.source} search plan`);
+    return stored.data;
+  }
 
+  let searchPlan: SearchPlan;
   try {
-    // Update job status in database
-    await prisma.dossierJob.updateMany({
-      where: { claimId, status: "QUEUED" },
-      data: { status: "RUNNING", startedAt: new Date() },
+    searchPlan = await planSearch(ctx.llm, claim, (failure) => {
+      ctx.validationFailures.push(failure);
+      log(
+        `Invalid query plan (attempt ${failure.attempt}): ${failure.errors.join("; ")}`
+      );
     });
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    log(`Query planning error: ${msg} — falling back to title queries`);
+    searchPlan = fallbackSearchPlan(claim.title);
+  }
+  await prisma.dossierJob.update({
+    where: { id: dossierJobId },
+    data: { searchPlan: JSON.parse(JSON.stringify(searchPlan)) },
+  });
+  return searchPlan;
+}
 
-    // ── Step 1: Load claim ────────────────────────────────────────────
-    await job.updateProgress(5);
-    const claim = await prisma.claim.findUnique({
-      where: { id: claimId },
+/** Search, deduplicate, snowball and enrich: the run's candidate papers */
+async function searchPapers(
+  ctx: RunContext,
+  searchPlan: SearchPlan
+): Promise<UnifiedPaper[]> {
+  const { claim, dossierJobId, since, ledger, log } = ctx;
+
+  const sources = getPaperSources(claim.paperSources);
+  log(`Searching ${sources.search.map((s) => s.label).join(", ")}…`);
+
+  const results = await Promise.allSettled(
+    sources.search.map((source) =>
+      source.search(searchPlan, MAX_PAPERS, { since })
+    )
+  );
+
+  // Concatenated in registry order, so dedup keeps the earlier source's copy
+  const allPapers: UnifiedPaper[] = [];
+  const counts: { source: string; papers: number }[] = [];
+  results.forEach((result, i) => {
+    const { label } = sources.search[i];
+    if (result.status === "rejected") {
+      log(`${label} search failed: ${result.reason}`);
+      counts.push({ source: label, papers: 0 });
+      return;
+    }
+    allPapers.push(...result.value);
+    counts.push({ source: label, papers: result.value.length });
+  });
+  log(`Found: ${counts.map((c) => `${c.source}=${c.papers}`).join(", ")}`);
+  await publishDossierEvent(dossierJobId, { type: "sources", counts });
+
+  const { dedupAbstractSimilarity } = RETRIEVAL_SETTINGS;
+  const dedup = async (papers: UnifiedPaper[]) =>
+    deduplicatePapers(papers, {
+      abstractEmbeddings:
+        dedupAbstractSimilarity === null
+          ? undefined
+          : await embedAbstracts(papers, (texts) =>
+              generateEmbeddings(texts, ledger.record)
+            ),
+      minAbstractSimilarity: dedupAbstractSimilarity ?? undefined,
     });
+  let uniquePapers = await dedup(allPapers);
+  log(`Deduplicated: ${allPapers.length} → ${uniquePapers.length} papers`);
+
+  // Expand the top reviews / meta-analyses through their citations. The
+  // full run already did this around the claim's older papers.
+  const budget = since ? 0 : MAX_PAPERS_PER_JOB - uniquePapers.length;
+  const candidates = since
+    ? []
+    : await snowball(uniquePapers, {
+        budget,
+        onSeedError: (seed, err) =>
+          log(`Snowballing from "${seed.title}" failed: ${err}`),
+      });
+  if (candidates.length > 0) {
+    const before = uniquePapers.length;
+    uniquePapers = await dedup([...uniquePapers, ...candidates]);
+    log(
+      `Snowballing added ${uniquePapers.length - before} papers (${candidates.length} candidates)`
+    );
+  } else if (since) {
+    log("Skipped snowballing for an incremental run");
+  } else if (budget <= 0) {
+    log(`Skipped snowballing: ${uniquePapers.length} papers fill the budget`);
+  }
 
-    if (!claim) {
-      throw new Error(`Claim not found: ${claimId}`);
+  for (const source of sources.metadata) {
+    try {
+      uniquePapers = await source.enrich(uniquePapers);
+      log(`Enriched metadata from ${source.label}`);
+    } catch (err) {
+      log(`${source.label} enrichment failed: ${err}`);
+    }
+  }
+
+  return uniquePapers;
+}
+
+/** Upsert the candidates and link them to the claim */
+async function storePapers(
+  ctx: RunContext,
+  papers: UnifiedPaper[]
+): Promise<StoredPapers> {
+  const { claimId, since, queuedAt, log } = ctx;
+  log("Storing papers in database…");
+
+  // Evidence already extracted for the claim, which an incremental run
+  // reuses instead of extracting again. Links an earlier attempt of this
+  // run made are still to be extracted.
+  const priorEvidence: PriorEvidence[] = since
+    ? await prisma.claimPaper.findMany({
+        where: { claimId, ...(queuedAt && { createdAt: { lt: queuedAt } }) },
+        orderBy: { evidenceWeight: { sort: "desc", nulls: "last" } },
+        select: PRIOR_EVIDENCE_SELECT,
+      })
+    : [];
+  const priorPaperIds = new Set(priorEvidence.map((link) => link.paperId));
+
+  const paperIds: string[] = [];
+  const dbIdByPaper = new Map<UnifiedPaper, string>();
+  const retractions: Record<string, RetractionStatus> = {};
+  let linkedPreprints = 0;
+  for (const paper of papers) {
+    const dbPaper = await upsertPaper(paper);
+    dbIdByPaper.set(paper, dbPaper.id);
+    retractions[dbPaper.id] = dbPaper.retractionStatus;
+
+    // A preprint of this paper is stored and linked, but gets no
+    // ClaimPaper row so its evidence is not counted twice
+    if (paper.preprint) {
+      const dbPreprint = await upsertPaper(paper.preprint);
+      dbIdByPaper.set(paper.preprint, dbPreprint.id);
+      // One stored row may already carry both versions' identifiers
+      if (dbPreprint.id !== dbPaper.id) {
+        await prisma.paper.update({
+          where: { id: dbPreprint.id },
+          data: { publishedVersionId: dbPaper.id },
+        });
+        linkedPreprints++;
+      }
     }
-    log(`Loaded claim: "${claim.title}"`);
 
-    // ── Step 2: Build search queries ──────────────────────────────────
-    await job.updateProgress(10);
-    const baseQuery = claim.title;
-    const reviewQuery = `${claim.title} systematic review`;
-    log(`Search queries: "${baseQuery}" / "${reviewQuery}"`);
-
-    // ── Step 3: Search sources in parallel ────────────────────────────
-    await job.updateProgress(15);
-    log("Searching PubMed, arXiv, and Semantic Scholar…");
-
-    const [pubmedResult, arxivResult, s2Result] = await Promise.allSettled([
-      searchPubMed(reviewQuery, { maxResults: MAX_PAPERS }).then(
-        async (search) => {
-          if (search.ids.length === 0) return [];
-          return fetchPubMedArticles(search.ids);
+    // Ensure ClaimPaper join row exists. Seeds precede the papers
+    // snowballed from them, so their IDs are known by now.
+    const provenance = paper.foundVia
+      ? {
+          foundVia: paper.foundVia.link,
+          foundViaPaperId: dbIdByPaper.get(paper.foundVia.seed) ?? null,
         }
-      ),
-      searchArxivHealth(baseQuery, MAX_PAPERS).then((r) => r.articles),
-      searchHealthPapers(baseQuery, MAX_PAPERS).then((r) => r.papers),
-    ]);
-
-    const pubmedArticles: PubMedArticle[] =
-      pubmedResult.status === "fulfilled" ? pubmedResult.value : [];
-    const arxivArticles: ArxivArticle[] =
-      arxivResult.status === "fulfilled" ? arxivResult.value : [];
-    const s2Papers: SemanticScholarPaper[] =
-      s2Result.status === "fulfilled" ? s2Result.value : [];
-
-    // Log any source failures
-    if (pubmedResult.status === "rejected")
-      log(`PubMed search failed: ${pubmedResult.reason}`);
-    if (arxivResult.status === "rejected")
-      log(`arXiv search failed: ${arxivResult.reason}`);
-    if (s2Result.status === "rejected")
-      log(`Semantic Scholar search failed: ${s2Result.reason}`);
+      : {};
+    await prisma.claimPaper.upsert({
+      where: {
+        claimId_paperId: { claimId, paperId: dbPaper.id },
+      },
+      create: { claimId, paperId: dbPaper.id, ...provenance },
+      update: provenance,
+    });
 
+    paperIds.push(dbPaper.id);
+  }
+  log(
+    `Stored ${paperIds.length} papers` +
+      (linkedPreprints > 0
+        ? ` (${linkedPreprints} preprints linked to published versions)`
+        : "")
+  );
+
+  // Retracted papers and retraction notices are stored but never used
+  // as evidence
+  const unretractedPaperIds = paperIds.filter(
+    (id) => !isExcludedFromEvidence(retractions[id])
+  );
+  if (unretractedPaperIds.length < paperIds.length) {
     log(
-      `Found: PubMed=${pubmedArticles.length}, arXiv=${arxivArticles.length}, S2=${s2Papers.length}`
+      `Excluded ${paperIds.length - unretractedPaperIds.length} retracted papers / notices from evidence`
     );
+  }
+  const evidencePaperIds = unretractedPaperIds.filter(
+    (id) => !priorPaperIds.has(id)
+  );
+  if (evidencePaperIds.length < unretractedPaperIds.length) {
+    log(
+      `Skipped ${unretractedPaperIds.length - evidencePaperIds.length} papers already linked to the claim`
+    );
+  }
 
-    // ── Step 4: Deduplicate ───────────────────────────────────────────
-    await job.updateProgress(25);
-
-    const allPapers: UnifiedPaper[] = [
-      ...pubmedArticles.map(fromPubMed),
-      ...s2Papers.map(fromSemanticScholar),
-      ...arxivArticles.map(fromArxiv),
-    ];
-
-    const uniquePapers = deduplicatePapers(allPapers);
-    log(`Deduplicated: ${allPapers.length} → ${uniquePapers.length} papers`);
+  return { paperIds, retractions, evidencePaperIds, priorEvidence };
+}
 
-    if (uniquePapers.length === 0) {
-      log("No papers found — marking job as succeeded with no verdict.");
-      await prisma.dossierJob.updateMany({
-        where: { claimId, status: "RUNNING" },
-        data: { status: "SUCCEEDED", finishedAt: new Date(), progress: 100 },
-      });
-      return;
+/** Fetch PMC full text, chunk, and embed the text not embedded yet */
+async function embedPapers(
+  ctx: RunContext,
+  papers: UnifiedPaper[],
+  stored: StoredPapers
+): Promise<EmbeddedChunks> {
+  const { ledger, log } = ctx;
+  const { paperIds, evidencePaperIds } = stored;
+  log("Chunking and embedding texts…");
+
+  // Pull open-access full text for papers deposited in PMC; anything
+  // that fails or is withheld by the publisher falls back to the abstract
+  const fullTexts = new Map<string, PMCFullText>();
+  const pmcPapers = papers
+    .map((p, i) => ({ pmcid: p.pmcid, dbId: paperIds[i] }))
+    .filter(
+      (p): p is { pmcid: string; dbId: string } =>
+        !!p.pmcid && evidencePaperIds.includes(p.dbId)
+    )
+    .slice(0, MAX_FULLTEXT_PAPERS);
+
+  for (const paper of pmcPapers) {
+    try {
+      const fullText = await fetchPMCFullText(paper.pmcid);
+      if (fullText) fullTexts.set(paper.dbId, fullText);
+    } catch (err) {
+      log(
+        `Full text unavailable for ${paper.pmcid}: ${err instanceof Error ? err.message : err}`
+      );
     }
+  }
+  log(`Fetched full text for ${fullTexts.size}/${pmcPapers.length} PMC papers`);
+
+  // For each paper with an abstract or full text, chunk it and embed
+  const papersForChunking = papers
+    .map((p, i) => ({
+      ...p,
+      dbId: paperIds[i],
+    }))
+    .filter(
+      (p) =>
+        evidencePaperIds.includes(p.dbId) &&
+        ((p.abstract && p.abstract.length > 50) || fullTexts.has(p.dbId))
+    );
 
-    // ── Step 5: Upsert papers in DB ───────────────────────────────────
-    await job.updateProgress(30);
-    log("Storing papers in database…");
-
-    const paperDbIds: string[] = [];
-    for (const paper of uniquePapers) {
-      // Build a unique where clause — prefer DOI, then PMID, arXiv, S2
-      const existing = await prisma.paper.findFirst({
-        where: {
-          OR: [
-            ...(paper.doi ? [{ doi: paper.doi }] : []),
-            ...(paper.pmid ? [{ pmid: paper.pmid }] : []),
-            ...(paper.arxivId ? [{ arxivId: paper.arxivId }] : []),
-            ...(paper.semanticScholarId
-              ? [{ semanticScholarId: paper.semanticScholarId }]
-              : []),
-          ],
-        },
-      });
-
-      let dbPaper;
-      if (existing) {
-        dbPaper = await prisma.paper.update({
-          where: { id: existing.id },
-          data: {
-            doi: existing.doi ?? paper.doi,
-            pmid: existing.pmid ?? paper.pmid,
-            pmcid: existing.pmcid ?? paper.pmcid,
-            arxivId: existing.arxivId ?? paper.arxivId,
-            semanticScholarId:
-              existing.semanticScholarId ?? paper.semanticScholarId,
-            abstract: existing.abstract ?? paper.abstract,
-            fullTextUrl: existing.fullTextUrl ?? paper.fullTextUrl,
-            journal: existing.journal ?? paper.journal,
-          },
-        });
-      } else {
-        dbPaper = await prisma.paper.create({
-          data: {
-            title: paper.title,
-            abstract: paper.abstract,
-            doi: paper.doi,
-            pmid: paper.pmid,
-            pmcid: paper.pmcid,
-            arxivId: paper.arxivId,
-            semanticScholarId: paper.semanticScholarId,
-            authors: paper.authors,
-            journal: paper.journal,
-            publishedYear: paper.publishedYear,
-            fullTextUrl: paper.fullTextUrl,
-          },
+  const chunkIds: string[] = [];
+  let skipped = 0;
+  // Process in batches to manage memory and API limits
+  for (let i = 0; i < papersForChunking.length; i += EMBEDDING_BATCH_SIZE) {
+    const batch = papersForChunking.slice(i, i + EMBEDDING_BATCH_SIZE);
+
+    // Chunk all papers in this batch
+    const batchChunks: Array<{
+      paperId: string;
+      content: string;
+      chunkIndex: number;
+      tokenCount: number;
+      section: SectionName;
+      sectionTitle?: string;
+      startOffset: number;
+      endOffset: number;
+    }> = [];
+
+    for (const paper of batch) {
+      const chunks = chunkSections(
+        paperSections(paper.abstract, fullTexts.get(paper.dbId)),
+        {
+          maxChunkTokens: RETRIEVAL_SETTINGS.maxChunkTokens,
+          overlapTokens: RETRIEVAL_SETTINGS.overlapTokens,
+        }
+      );
+      for (const chunk of chunks) {
+        batchChunks.push({
+          paperId: paper.dbId,
+          content: chunk.content,
+          chunkIndex: chunk.chunkIndex,
+          tokenCount: chunk.estimatedTokens,
+          section: chunk.section,
+          sectionTitle: chunk.sectionTitle,
+          startOffset: chunk.startOffset,
+          endOffset: chunk.endOffset,
         });
       }
-
-      // Ensure ClaimPaper join row exists
-      await prisma.claimPaper.upsert({
-        where: {
-          claimId_paperId: { claimId, paperId: dbPaper.id },
-        },
-        create: { claimId, paperId: dbPaper.id },
-        update: {},
-      });
-
-      paperDbIds.push(dbPaper.id);
     }
-    log(`Stored ${paperDbIds.length} papers`);
 
-    // ── Step 6: Chunk + embed + store ─────────────────────────────────
-    await job.updateProgress(40);
-    log("Chunking and embedding texts…");
+    if (batchChunks.length === 0) continue;
 
-    // For each paper with an abstract, chunk it and embed
-    const papersForChunking = uniquePapers
-      .map((p, i) => ({
-        ...p,
-        dbId: paperDbIds[i],
+    // Skip text already embedded for this paper (earlier run, or another
+    // claim citing the same paper)
+    const hashes = batchChunks.map((c) => hashChunkContent(c.content));
+    const embedded = await findEmbeddedChunkKeys(
+      batchChunks.map((c, idx) => ({
+        paperId: c.paperId,
+        contentHash: hashes[idx],
       }))
-      .filter((p) => p.abstract && p.abstract.length > 50);
-
-    let totalChunksStored = 0;
-    // Process in batches to manage memory and API limits
-    for (let i = 0; i < papersForChunking.length; i += EMBEDDING_BATCH_SIZE) {
-      const batch = papersForChunking.slice(i, i + EMBEDDING_BATCH_SIZE);
-
-      // Chunk all papers in this batch
-      const batchChunks: Array<{
-        paperId: string;
-        content: string;
-        chunkIndex: number;
-        tokenCount: number;
-      }> = [];
-
-      for (const paper of batch) {
-        const chunks = chunkText(paper.abstract!, {
-          maxChunkTokens: 400,
-          overlapTokens: 80,
-        });
-        for (const chunk of chunks) {
-          batchChunks.push({
-            paperId: paper.dbId,
-            content: chunk.content,
-            chunkIndex: chunk.chunkIndex,
-            tokenCount: chunk.estimatedTokens,
-          });
-        }
-      }
-
-      if (batchChunks.length === 0) continue;
+    );
+    const newChunks = batchChunks.filter(
+      (c, idx) => !embedded.has(`${c.paperId}:${hashes[idx]}`)
+    );
+    skipped += batchChunks.length - newChunks.length;
+    if (newChunks.length === 0) continue;
 
-      // Generate embeddings for all chunks in this batch
-      const embeddings = await generateEmbeddings(
-        batchChunks.map((c) => c.content)
-      );
+    // Generate embeddings for the new chunks in this batch
+    const embeddings = await generateEmbeddings(
+      newChunks.map((c) => c.content),
+      ledger.record
+    );
 
-      // Store chunks with embeddings
-      await storeChunksWithEmbeddings(
-        batchChunks.map((chunk, idx) => ({
+    // Store chunks with embeddings
+    chunkIds.push(
+      ...(await storeChunksWithEmbeddings(
+        newChunks.map((chunk, idx) => ({
           ...chunk,
           embedding: embeddings[idx],
         }))
-      );
-
-      totalChunksStored += batchChunks.length;
-    }
-    log(`Stored ${totalChunksStored} chunks with embeddings`);
-
-    // ── Step 7: Vector search for relevant chunks ─────────────────────
-    await job.updateProgress(55);
-    log("Searching for relevant chunks…");
-
-    const queryEmbedding = await generateEmbedding(claim.title);
-    const groupedChunks = await searchChunksGroupedByPaper(queryEmbedding, {
-      paperIds: paperDbIds,
-      limit: MAX_PAPERS_FOR_EVIDENCE,
-      minSimilarity: 0.5,
-      chunksPerPaper: 3,
-    });
+      ))
+    );
+  }
+  log(
+    `Stored ${chunkIds.length} chunks with embeddings (${skipped} already embedded)`
+  );
 
-    log(`Found relevant chunks for ${groupedChunks.size} papers`);
+  return { chunkIds, skipped };
+}
 
-    // ── Step 8: Extract evidence per paper (LLM) ─────────────────────
-    await job.updateProgress(60);
-    log("Extracting evidence from papers…");
+/** The passages most relevant to the claim, by paper ID */
+async function retrievePassages(
+  ctx: RunContext,
+  stored: StoredPapers
+): Promise<Record<string, SimilarChunk[]>> {
+  const { claim, ledger, log } = ctx;
+  log("Searching for relevant chunks…");
+
+  const queryEmbedding = await generateEmbedding(claim.title, ledger.record);
+  const groupedChunks = await searchChunksGroupedByPaper(queryEmbedding, {
+    paperIds: stored.evidencePaperIds,
+    limit: RETRIEVAL_SETTINGS.maxPapersForEvidence,
+    minSimilarity: RETRIEVAL_SETTINGS.minSimilarity,
+    chunksPerPaper: RETRIEVAL_SETTINGS.chunksPerPaper,
+    preferSections: RETRIEVAL_SETTINGS.preferSections,
+  });
+
+  log(`Found relevant chunks for ${groupedChunks.size} papers`);
+  return Object.fromEntries(groupedChunks);
+}
 
-    // Pick the top papers (those with chunks, plus any remaining up to limit)
-    const papersWithEvidence = new Set(groupedChunks.keys());
-    const papersToProcess = paperDbIds
-      .filter(
-        (id) =>
-          papersWithEvidence.has(id) ||
-          uniquePapers[paperDbIds.indexOf(id)]?.abstract
-      )
-      .slice(0, MAX_PAPERS_FOR_EVIDENCE);
+/** Extract and grade evidence from each paper (LLM), saved on ClaimPaper */
+async function extractEvidence(
+  ctx: RunContext,
+  papers: UnifiedPaper[],
+  stored: StoredPapers,
+  passages: Record<string, SimilarChunk[]>
+): Promise<ExtractedEvidence> {
+  const { job, claim, claimId, dossierJobId, since, market, ledger, log } = ctx;
+  const { paperIds, retractions, evidencePaperIds } = stored;
+  log("Extracting evidence from papers…");
+
+  // Pick the top papers (those with chunks, plus any remaining up to limit)
+  const papersToProcess = evidencePaperIds
+    .filter((id) => id in passages || papers[paperIds.indexOf(id)]?.abstract)
+    .slice(0, RETRIEVAL_SETTINGS.maxPapersForEvidence);
+
+  const cards: EvidenceCardForSynthesis[] = [];
+  const citationSources: CitationSource[] = [];
+  const extractionErrors: string[] = [];
+  // What an incremental run newly extracted, checked for alerts
+  const newFindings: NewFinding[] = [];
+
+  // Progress runs through the stage up to where synthesis starts
+  const start = DOSSIER_STAGES.EXTRACTION.progress;
+  const span = DOSSIER_STAGES.SYNTHESIS.progress - start;
+
+  for (const [i, dbPaperId] of papersToProcess.entries()) {
+    // Over budget: synthesise from the papers extracted so far
+    if (ledger.overBudget) {
+      log(
+        `Run budget of $${ledger.budgetUsd} reached — skipping extraction for ${papersToProcess.length - i} papers`
+      );
+      break;
+    }
 
-    const evidenceCards: EvidenceCardForSynthesis[] = [];
-    const extractionErrors: string[] = [];
+    const paper = papers[paperIds.indexOf(dbPaperId)];
+    if (!paper) continue;
 
-    for (const dbPaperId of papersToProcess) {
-      const idx = paperDbIds.indexOf(dbPaperId);
-      const paper = uniquePapers[idx];
-      if (!paper) continue;
+    // Get relevant chunks for this paper
+    const chunks = passages[dbPaperId] ?? [];
+    // Label each excerpt with its section so the model can weigh results
+    // over background
+    const chunkTexts = chunks.map((c) =>
+      c.section ? `[${SECTION_LABELS[c.section]}] ${c.content}` : c.content
+    );
 
-      // Get relevant chunks for this paper
-      const chunks = groupedChunks.get(dbPaperId) ?? [];
-      const chunkTexts = chunks.map((c) => c.content);
+    try {
+      const userPrompt = buildEvidenceExtractionPrompt({
+        claimTitle: claim.title,
+        claimDescription: claim.description ?? undefined,
+        paperTitle: paper.title,
+        paperAbstract: paper.abstract,
+        relevantChunks: chunkTexts.length > 0 ? chunkTexts : undefined,
+      });
 
-      try {
-        const userPrompt = buildEvidenceExtractionPrompt({
-          claimTitle: claim.title,
-          claimDescription: claim.description ?? undefined,
+      const evidence = await completeJson(
+        ctx.llm,
+        {
+          task: "extraction",
+          system: EVIDENCE_EXTRACTION_SYSTEM,
+          user: userPrompt,
+        },
+        extractedEvidenceSchema,
+        (failure) => {
+          ctx.validationFailures.push({ ...failure, paperTitle: paper.title });
+          log(
+            `Invalid extraction for "${paper.title}" (attempt ${failure.attempt}): ${failure.errors.join("; ")}`
+          );
+        }
+      );
+      if (!evidence) {
+        extractionErrors.push(`No response for paper: ${paper.title}`);
+        await publishDossierEvent(dossierJobId, {
+          type: "error",
+          message: "No valid extraction",
           paperTitle: paper.title,
-          paperAbstract: paper.abstract,
-          relevantChunks: chunkTexts.length > 0 ? chunkTexts : undefined,
-        });
-
-        const response = await openai.chat.completions.create({
-          model: "gpt-4o-mini",
-          response_format: { type: "json_object" },
-          messages: [
-            { role: "system", content: EVIDENCE_EXTRACTION_SYSTEM },
-            { role: "user", content: userPrompt },
-          ],
-          temperature: 0.2,
-          max_tokens: 800,
         });
+        continue;
+      }
+      const grade = gradeEvidence({
+        ...evidence,
+        publishedYear: paper.publishedYear,
+        retractionStatus: retractions[dbPaperId],
+      });
 
-        const rawJson = response.choices[0]?.message?.content;
-        if (!rawJson) {
-          extractionErrors.push(`No response for paper: ${paper.title}`);
-          continue;
-        }
+      // Save extraction + grade to ClaimPaper
+      await prisma.claimPaper.update({
+        where: {
+          claimId_paperId: { claimId, paperId: dbPaperId },
+        },
+        data: {
+          abstractSnippet: (paper.abstract ?? "").slice(0, 500),
+          aiSummary: evidence.summary,
+          studyType: evidence.studyType,
+          sampleSize: evidence.sampleSize,
+          population: evidence.population || null,
+          duration: evidence.duration || null,
+          effectSize: evidence.effectSize || null,
+          pValue: evidence.pValue,
+          limitations: evidence.limitations,
+          relevanceScore: evidence.relevanceScore,
+          effectMeasure: evidence.effect?.measure ?? null,
+          effectValue: evidence.effect?.value ?? null,
+          effectCiLower: evidence.effect?.ciLower ?? null,
+          effectCiUpper: evidence.effect?.ciUpper ?? null,
+          stance: mapStance(evidence.stance),
+          confidenceScore: evidence.confidence,
+          evidenceWeight: grade.weight,
+          evidenceCertainty: grade.certainty,
+          extractionJson: JSON.parse(JSON.stringify(evidence)),
+          extractionVersion: EXTRACTION_VERSION,
+        },
+      });
 
-        const evidence: ExtractedEvidence = JSON.parse(rawJson);
-
-        // Save extraction to ClaimPaper
-        await prisma.claimPaper.update({
-          where: {
-            claimId_paperId: { claimId, paperId: dbPaperId },
-          },
-          data: {
-            abstractSnippet: (paper.abstract ?? "").slice(0, 500),
-            aiSummary: evidence.summary,
-            studyType: evidence.studyType,
-            sampleSize: evidence.sampleSize,
-            stance: mapStance(evidence.stance),
-            confidenceScore: evidence.confidence,
-            extractionJson: JSON.parse(JSON.stringify(evidence)),
-            extractionVersion: EXTRACTION_VERSION,
-          },
-        });
+      // Build evidence card for synthesis, keyed so the verdict can cite
+      // the paper (P3) or one of its retrieved passages (P3.2)
+      const citationKey = paperCitationKey(cards.length);
+      citationSources.push({
+        key: citationKey,
+        paperId: dbPaperId,
+        chunkId: null,
+      });
+      const excerpts = chunks.map((c, i) => {
+        const key = excerptCitationKey(citationKey, i);
+        citationSources.push({ key, paperId: dbPaperId, chunkId: c.id });
+        return {
+          citationKey: key,
+          sectionLabel: c.section ? SECTION_LABELS[c.section] : undefined,
+          text: c.content,
+        };
+      });
 
-        // Build evidence card for synthesis
-        evidenceCards.push({
+      cards.push({
+        citationKey,
+        paperTitle: paper.title,
+        publishedYear: paper.publishedYear,
+        studyType: evidence.studyType,
+        sampleSize: evidence.sampleSize,
+        stance: evidence.stance,
+        summary: evidence.summary,
+        keyFindings: evidence.keyFindings,
+        excerpts,
+        evidenceWeight: grade.weight,
+        certainty: grade.certainty,
+      });
+      await publishDossierEvent(dossierJobId, {
+        type: "evidence",
+        evidence: {
+          paperId: dbPaperId,
           paperTitle: paper.title,
+          doi: paper.doi,
+          pmid: paper.pmid,
+          arxivId: paper.arxivId,
+          journal: paper.journal,
           publishedYear: paper.publishedYear,
           studyType: evidence.studyType,
+          stance: mapStance(evidence.stance),
+          summary: evidence.summary,
           sampleSize: evidence.sampleSize,
+          population: evidence.population || null,
+          duration: evidence.duration || null,
+          effectSize: evidence.effectSize || null,
+          effect: evidence.effect ?? null,
+          confidenceScore: evidence.confidence,
+          evidenceWeight: grade.weight,
+        },
+      });
+      if (since) {
+        newFindings.push({
+          paperId: dbPaperId,
           stance: evidence.stance,
-          summary: evidence.summary,
-          keyFindings: evidence.keyFindings,
+          relevanceScore: evidence.relevanceScore,
+          evidenceWeight: grade.weight,
         });
-      } catch (err) {
-        const msg = err instanceof Error ? err.message : String(err);
-        extractionErrors.push(`Paper "${paper.title}": ${msg}`);
-        log(`Evidence extraction error: ${msg}`);
       }
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      extractionErrors.push(`Paper "${paper.title}": ${msg}`);
+      log(`Evidence extraction error: ${msg}`);
+      await publishDossierEvent(dossierJobId, {
+        type: "error",
+        message: msg,
+        paperTitle: paper.title,
+      });
+    }
 
-      // Update progress proportionally through evidence extraction (60-80%)
-      const pctDone =
-        (papersToProcess.indexOf(dbPaperId) + 1) / papersToProcess.length;
-      await job.updateProgress(Math.round(60 + pctDone * 20));
+    await job.updateProgress(
+      Math.round(start + ((i + 1) / papersToProcess.length) * span)
+    );
+  }
+
+  log(
+    `Extracted evidence from ${cards.length} papers (${extractionErrors.length} errors)`
+  );
+
+  // Compared with the verdict subscribers have seen, before any new one
+  const alertPaperIds = newFindings
+    .filter((finding) => mightChangeVerdict(finding, market?.aiOutcome))
+    .map((finding) => finding.paperId);
+
+  return { cards, citationSources, alertPaperIds };
+}
+
+/** Weigh the new evidence, with the claim's stored evidence if incremental */
+async function synthesiseVerdict(
+  ctx: RunContext,
+  stored: StoredPapers,
+  extracted: ExtractedEvidence
+): Promise<SynthesisedVerdict> {
+  const { claim, since, market, log } = ctx;
+  const cards = [...extracted.cards];
+  const citationSources = [...extracted.citationSources];
+
+  // New evidence is weighed together with what the claim already has;
+  // without any, the current verdict stands. A resolved claim's outcome
+  // is settled, so its new evidence is only stored.
+  let synthesise = cards.length > 0;
+  if (since && cards.length === 0) {
+    log("No new evidence — keeping the current verdict");
+  } else if (since && market?.status === "RESOLVED") {
+    log("Resolved claim — new evidence stored, verdict left as settled");
+    synthesise = false;
+  } else if (since) {
+    let reused = 0;
+    for (const link of stored.priorEvidence) {
+      if (cards.length >= RETRIEVAL_SETTINGS.maxPapersForEvidence) break;
+      const retraction =
+        stored.retractions[link.paperId] ?? link.paper.retractionStatus;
+      if (!link.aiSummary || isExcludedFromEvidence(retraction)) continue;
+
+      const citationKey = paperCitationKey(cards.length);
+      citationSources.push({ key: citationKey, paperId: link.paperId, chunkId: null });
+      cards.push(
+        priorEvidenceCard({ ...link, aiSummary: link.aiSummary }, citationKey)
+      );
+      reused++;
+    }
+    log(`Reused stored evidence from ${reused} papers`);
+  }
+
+  log("Synthesising verdict…");
+  let verdict: SynthesisVerdict | null = null;
+
+  if (synthesise) {
+    // Heaviest evidence first, so it leads the prompt
+    cards.sort((a, b) => (b.evidenceWeight ?? 0) - (a.evidenceWeight ?? 0));
+    try {
+      const userPrompt = buildVerdictSynthesisPrompt({
+        claimTitle: claim.title,
+        evidenceCards: cards,
+      });
+
+      verdict = await completeJson(
+        ctx.llm,
+        {
+          task: "synthesis",
+          system: VERDICT_SYNTHESIS_SYSTEM,
+          user: userPrompt,
+        },
+        synthesisVerdictSchema,
+        (failure) => {
+          ctx.validationFailures.push(failure);
+          log(
+            `Invalid synthesis (attempt ${failure.attempt}): ${failure.errors.join("; ")}`
+          );
+        }
+      );
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      log(`Verdict synthesis error: ${msg}`);
+      // Continue — we can still save partial results
     }
+  }
 
+  return { verdict, cards, citationSources };
+}
+
+/** Save the versioned verdict and update the claim's market */
+async function saveResults(
+  ctx: RunContext,
+  stored: StoredPapers,
+  synthesised: SynthesisedVerdict
+): Promise<void> {
+  const { claimId, dossierJobId, since, log } = ctx;
+  const { verdict, cards, citationSources } = synthesised;
+  log("Saving verdict and updating market…");
+
+  if (!verdict) {
+    await prisma.market.updateMany({
+      where: { claimId },
+      data: { lastDossierAt: new Date() },
+    });
+    return;
+  }
+
+  const outcome = toVerdictOutcome(verdict.verdict);
+  // Cross-check the LLM's confidence against the evidence weights
+  const ruleConfidence = ruleBasedConfidence(cards, outcome);
+  const confidenceFlagged = needsConfidenceReview(
+    verdict.confidence,
+    ruleConfidence
+  );
+  if (confidenceFlagged) {
     log(
-      `Extracted evidence from ${evidenceCards.length} papers (${extractionErrors.length} errors)`
+      `Confidence flagged for review: LLM ${verdict.confidence}, rules ${ruleConfidence}`
     );
+  }
 
-    // ── Step 9: Synthesise verdict (LLM) ──────────────────────────────
-    await job.updateProgress(85);
-    log("Synthesising verdict…");
+  // Keep every version; Market only holds the latest
+  const saved = await saveVerdict({
+    claimId,
+    dossierJobId,
+    verdict,
+    evidenceCount: cards.length,
+    // An incremental verdict still rests on the earlier runs' papers
+    paperIds: since
+      ? [
+          ...new Set([
+            ...stored.priorEvidence.map((link) => link.paperId),
+            ...stored.paperIds,
+          ]),
+        ]
+      : stored.paperIds,
+    citationSources,
+    ruleConfidence,
+    confidenceFlagged,
+  });
+  log(`Saved verdict version ${saved.version}`);
+
+  // A resolved market's outcome is settled: keep the verdict on record only
+  const { count } = await prisma.market.updateMany({
+    where: { claimId, status: { not: "RESOLVED" } },
+    data: {
+      aiConfidence: verdict.confidence,
+      aiRuleConfidence: ruleConfidence,
+      aiConfidenceFlagged: confidenceFlagged,
+      // The new verdict was synthesised without retracted papers
+      retractionFlagged: false,
+      aiOutcome: outcome,
+      aiVerdict: outcomeToSide(outcome),
+      consensusSummary: verdict.detailedSummary,
+      lastDossierAt: new Date(),
+      status: "ACTIVE", // Move from RESEARCHING → ACTIVE
+    },
+  });
+  if (count === 0) {
+    log("Resolved claim — verdict stored, market left as settled");
+    await prisma.market.updateMany({
+      where: { claimId },
+      data: { lastDossierAt: new Date() },
+    });
+  }
+}
 
-    let verdict: SynthesisVerdict | null = null;
+// ── Core pipeline ───────────────────────────────────────────────────────
 
-    if (evidenceCards.length > 0) {
-      try {
-        const userPrompt = buildVerdictSynthesisPrompt({
-          claimTitle: claim.title,
-          evidenceCards,
-        });
+export async function processDossierJob(
+  job: Job<DossierJobData>
+): Promise<void> {
+  const { claimId, dossierJobId } = job.data;
+  const log = (msg: string) =>
+    console.log(`[Dossier Worker] [${job.id}] ${msg}`);
 
-        const response = await openai.chat.completions.create({
-          model: "gpt-4o-mini",
-          response_format: { type: "json_object" },
-          messages: [
-            { role: "system", content: VERDICT_SYNTHESIS_SYSTEM },
-            { role: "user", content: userPrompt },
-          ],
-          temperature: 0.3,
-          max_tokens: 1200,
-        });
+  log(`Starting job for claim: ${claimId}`);
 
-        const rawJson = response.choices[0]?.message?.content;
-        if (rawJson) {
-          verdict = JSON.parse(rawJson) as SynthesisVerdict;
-        }
-      } catch (err) {
-        const msg = err instanceof Error ? err.message : String(err);
-        log(`Verdict synthesis error: ${msg}`);
-        // Continue — we can still save partial results
+  // Jobs queued before runs were tracked carry no DossierJob. Prisma drops
+  // an undefined `id`, so every `where: { id }` below would hit all rows.
+  if (!dossierJobId) {
+    throw new UnrecoverableError(
+      "Job has no dossierJobId; start a new research run for the claim"
+    );
+  }
+
+  // Only this run's row; one failed or finished meanwhile is not revived.
+  // RUNNING is let through for a job BullMQ re-runs after a stalled worker.
+  const started = await prisma.dossierJob.updateMany({
+    where: { id: dossierJobId, status: { in: ["QUEUED", "RUNNING"] } },
+    data: { status: "RUNNING", startedAt: new Date(), error: null },
+  });
+  if (started.count === 0) {
+    log(`DossierJob ${dossierJobId} is no longer active — skipping`);
+    return;
+  }
+
+  // Tracked across LLM steps and saved on the DossierJob for prompt QA
+  const validationFailures: RunContext["validationFailures"] = [];
+  const recordFailures = () =>
+    validationFailures.length > 0
+      ? { validationFailures: JSON.parse(JSON.stringify(validationFailures)) }
+      : {};
+
+  // Saved to the run's cost ledger whether it succeeds or fails
+  let costs: CostLedger | null = null;
+
+  try {
+    const budgets = getCostBudgets();
+    if (budgets.monthlyUsd !== null) {
+      const spent = await monthToDateCostUsd();
+      if (spent >= budgets.monthlyUsd) {
+        // Retrying can't help until the month turns over
+        throw new UnrecoverableError(
+          `Monthly LLM budget of $${budgets.monthlyUsd} reached ($${spent.toFixed(2)} spent)`
+        );
       }
     }
+    // A retry's budget is what earlier attempts left of it
+    const ledger = new CostLedger(
+      dossierJobId,
+      budgets.jobUsd,
+      budgets.jobUsd !== null ? await jobCostUsd(dossierJobId) : 0
+    );
+    costs = ledger;
+
+    await enterStage(job, "PLANNING");
+    const claim = await prisma.claim.findUnique({
+      where: { id: claimId },
+    });
+
+    if (!claim) {
+      throw new Error(`Claim not found: ${claimId}`);
+    }
+    log(`Loaded claim: "${claim.title}"`);
 
-    // ── Step 10: Save verdict + update Market + finalise ──────────────
-    await job.updateProgress(95);
-    log("Saving verdict and updating market…");
+    const dossierJob = await prisma.dossierJob.findUnique({
+      where: { id: dossierJobId },
+      select: { searchPlan: true, mode: true, createdAt: true },
+    });
 
-    // Update Market with AI verdict
-    if (verdict) {
-      await prisma.market.updateMany({
+    // An incremental run picks up where the last dossier left off
+    let since: Date | undefined;
+    let market: RunContext["market"] = null;
+    if (dossierJob?.mode === "INCREMENTAL") {
+      market = await prisma.market.findUnique({
         where: { claimId },
+        select: { lastDossierAt: true, status: true, aiOutcome: true },
+      });
+      if (market?.lastDossierAt) {
+        since = market.lastDossierAt;
+        log(`Incremental run: papers since ${since.toISOString()}`);
+      } else {
+        log("Incremental run without an earlier dossier — running in full");
+      }
+    }
+
+    const ctx: RunContext = {
+      job,
+      claimId,
+      dossierJobId,
+      claim,
+      since,
+      market,
+      queuedAt: dossierJob?.createdAt,
+      llm: withUsage(getLlmProvider(), ledger.record),
+      ledger,
+      log,
+      validationFailures,
+    };
+
+    // A retried run resumes after its last completed stage
+    const checkpoints = await loadCheckpoints(dossierJobId);
+    if (checkpoints.size > 0) {
+      log(`Resuming from checkpoints: ${[...checkpoints.keys()].join(", ")}`);
+    }
+    const runStage = async <T>(
+      stage: DossierStage,
+      run: () => Promise<T>
+    ): Promise<T> => {
+      if (checkpoints.has(stage)) return checkpoints.get(stage) as T;
+      await enterStage(job, stage);
+      const output = await run();
+      await saveCheckpoint(dossierJobId, stage, output);
+      return output;
+    };
+
+    const finish = async (verdict: SynthesisVerdict | null) => {
+      const calls = await ledger.save();
+      log(`Recorded ${calls} LLM calls costing $${ledger.totalUsd.toFixed(4)}`);
+
+      await job.updateProgress(100);
+      await prisma.dossierJob.update({
+        where: { id: dossierJobId },
         data: {
-          aiConfidence: verdict.confidence,
-          aiVerdict: mapVerdict(verdict.verdict),
-          consensusSummary: verdict.detailedSummary,
-          lastDossierAt: new Date(),
-          status: "ACTIVE", // Move from RESEARCHING → ACTIVE
+          status: "SUCCEEDED",
+          finishedAt: new Date(),
+          progress: 100,
+          ...recordFailures(),
         },
       });
-    } else {
+
+      await publishDossierEvent(dossierJobId, {
+        type: "done",
+        outcome: verdict ? toVerdictOutcome(verdict.verdict) : null,
+      });
+
+      // Nothing will resume the run now
+      try {
+        await clearCheckpoints(dossierJobId);
+      } catch (err) {
+        log(
+          `Could not clear checkpoints: ${err instanceof Error ? err.message : err}`
+        );
+      }
+    };
+
+    // The plan is kept on the DossierJob itself, so a retry reuses it
+    const searchPlan = await planQueries(ctx, dossierJob?.searchPlan);
+    log(`PubMed query: ${searchPlan.pubmedQuery}`);
+
+    const papers = fromStoredCandidates(
+      await runStage("SEARCHING", async () =>
+        toStoredCandidates(await searchPapers(ctx, searchPlan))
+      )
+    );
+
+    if (papers.length === 0) {
+      log("No papers found — marking job as succeeded with no verdict.");
       await prisma.market.updateMany({
         where: { claimId },
         data: { lastDossierAt: new Date() },
       });
+      await finish(null);
+      return;
     }
 
-    // Mark job as succeeded
-    await job.updateProgress(100);
-    await prisma.dossierJob.updateMany({
-      where: { claimId, status: "RUNNING" },
-      data: { status: "SUCCEEDED", finishedAt: new Date(), progress: 100 },
-    });
+    const stored = await runStage("STORING", () => storePapers(ctx, papers));
+    await runStage("EMBEDDING", () => embedPapers(ctx, papers, stored));
+    const passages = await runStage("RETRIEVAL", () =>
+      retrievePassages(ctx, stored)
+    );
+    const extracted = await runStage("EXTRACTION", () =>
+      extractEvidence(ctx, papers, stored, passages)
+    );
+    const synthesised = await runStage("SYNTHESIS", () =>
+      synthesiseVerdict(ctx, stored, extracted)
+    );
+
+    await enterStage(job, "SAVING");
+    await saveResults(ctx, stored, synthesised);
+    await finish(synthesised.verdict);
+
+    // The run has succeeded either way; alerts are best-effort
+    const { alertPaperIds } = extracted;
+    if (alertPaperIds.length > 0) {
+      try {
+        const notified = await notifySubscribers(
+          claimId,
+          dossierJobId,
+          alertPaperIds
+        );
+        log(
+          `${alertPaperIds.length} new papers might change the verdict; alerted ${notified} subscribers`
+        );
+      } catch (err) {
+        log(
+          `Could not queue paper alerts: ${err instanceof Error ? err.message : err}`
+        );
+      }
+    }
 
     log(
-      `Completed: ${uniquePapers.length} papers, ${evidenceCards.length} evidence cards, verdict=${verdict?.verdict ?? "none"}`
+      `Completed: ${papers.length} papers, ${synthesised.cards.length} evidence cards, verdict=${synthesised.verdict?.verdict ?? "none"}`
     );
   } catch (error) {
     console.error(`[Dossier Worker] Failed job for claim: ${claimId}`, error);
 
-    // Mark job as failed in database
+    // The calls made before the failure were still paid for
+    try {
+      await costs?.save();
+    } catch (err) {
+      console.error(`[Dossier Worker] Could not save costs for ${dossierJobId}`, err);
+    }
+
+    // Back to QUEUED while BullMQ has attempts left, so the row doesn't
+    // read FAILED while a retry is pending
+    const retrying =
+      !(error instanceof UnrecoverableError) &&
+      job.attemptsMade + 1 < (job.opts?.attempts ?? 1);
     await prisma.dossierJob.updateMany({
-      where: { claimId, status: "RUNNING" },
+      where: { id: dossierJobId, status: "RUNNING" },
       data: {
-        status: "FAILED",
-        finishedAt: new Date(),
+        status: retrying ? "QUEUED" : "FAILED",
+        ...(!retrying && { finishedAt: new Date() }),
         error: error instanceof Error ? error.message : "Unknown error",
+        ...recordFailures(),
       },
     });
+    await publishDossierEvent(dossierJobId, {
+      type: "error",
+      message: error instanceof Error ? error.message : "Unknown error",
+      retrying,
+    });
+
+    // Only a retry would resume from the checkpoints
+    if (!retrying) {
+      try {
+        await clearCheckpoints(dossierJobId);
+      } catch (err) {
+        console.error(`[Dossier Worker] Could not clear checkpoints for ${dossierJobId}`, err);
+      }
+    }
 
     throw error; // Re-throw to trigger BullMQ retry logic
   }
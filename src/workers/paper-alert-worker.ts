@@ -0,0 +1,77 @@
+/**
+ * Paper Alert Worker
+ *
+ * BullMQ worker for the paper-alerts queue. Each job tells one subscriber
+ * about the new papers a refresh run found that might change a claim's
+ * verdict (src/lib/paper-alerts.ts); it is stored as one `PaperAlert` per
+ * paper, listed by GET /api/alerts. Users who unsubscribed since the run
+ * are skipped, and a paper already alerted to a user is not alerted again.
+ *
+ * Run separately from the Next.js app: `npm run worker:alerts`
+ */
+
+import { Worker, Job, type ConnectionOptions } from "bullmq";
+import { createRedisConnection } from "@/lib/redis";
+import { prisma } from "@/lib/prisma";
+import { QUEUE_NAMES, PaperAlertJobData } from "@/lib/queue";
+
+// ── Core ────────────────────────────────────────────────────────────────
+
+export async function processPaperAlertJob(
+  job: Job<PaperAlertJobData>
+): Promise<number> {
+  const { claimId, userId, dossierJobId, paperIds } = job.data;
+
+  const subscription = await prisma.alertSubscription.findUnique({
+    where: { claimId_userId: { claimId, userId } },
+    select: { isActive: true },
+  });
+  if (!subscription?.isActive) {
+    console.log(
+      `[Paper Alert Worker] [${job.id}] ${userId} no longer subscribed to ${claimId} — skipping`
+    );
+    return 0;
+  }
+
+  const { count } = await prisma.paperAlert.createMany({
+    data: paperIds.map((paperId) => ({ userId, claimId, paperId, dossierJobId })),
+    skipDuplicates: true,
+  });
+  console.log(
+    `[Paper Alert Worker] [${job.id}] Alerted ${userId} to ${count} papers on ${claimId}`
+  );
+  return count;
+}
+
+// Create the worker
+const worker = new Worker<PaperAlertJobData>(
+  QUEUE_NAMES.PAPER_ALERTS,
+  processPaperAlertJob,
+  {
+    connection: createRedisConnection() as unknown as ConnectionOptions,
+  }
+);
+
+// Worker event handlers
+worker.on("failed", (job, error) => {
+  console.error(`[Paper Alert Worker] Job ${job?.id} failed:`, error.message);
+});
+
+worker.on("error", (error) => {
+  console.error("[Paper Alert Worker] Worker error:", error);
+});
+
+// Graceful shutdown
+process.on("SIGTERM", async () => {
+  console.log("[Paper Alert Worker] Received SIGTERM, closing worker...");
+  await worker.close();
+  process.exit(0);
+});
+
+process.on("SIGINT", async () => {
+  console.log("[Paper Alert Worker] Received SIGINT, closing worker...");
+  await worker.close();
+  process.exit(0);
+});
+
+console.log("[Paper Alert Worker] Worker started and listening for jobs...");
@@ -0,0 +1,66 @@
+/**
+ * Evidence Refresh
+ *
+ * One-shot job that queues an incremental dossier run for each ACTIVE or
+ * RESOLVED claim whose last dossier is older than the cut-off (see
+ * src/lib/evidence-refresh.ts). The dossier worker does the searching and
+ * extraction, and the paper-alerts worker notifies subscribers. Schedule it
+ * daily, e.g. as a Railway cron service.
+ *
+ * Usage:
+ *   npm run refresh:evidence -- [options]
+ *
+ *   --max-age-days <n>   refresh claims last researched longer ago (default 7)
+ *   --limit <n>          most claims per run (default 50)
+ *
+ * Exits non-zero on an invalid option, a database error, or when any
+ * claim could not be queued.
+ */
+
+import { parseArgs } from "util";
+import { prisma } from "@/lib/prisma";
+import { dossierQueue, paperAlertQueue } from "@/lib/queue";
+import { scheduleEvidenceRefresh } from "@/lib/evidence-refresh";
+
+const { values } = parseArgs({
+  options: {
+    "max-age-days": { type: "string" },
+    limit: { type: "string" },
+  },
+});
+
+function positiveInteger(name: string, raw: string | undefined): number | undefined {
+  if (raw === undefined) return undefined;
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 1) {
+    throw new Error(`--${name} must be a positive integer`);
+  }
+  return value;
+}
+
+async function main() {
+  const result = await scheduleEvidenceRefresh({
+    maxAgeDays: positiveInteger("max-age-days", values["max-age-days"]),
+    limit: positiveInteger("limit", values.limit),
+    onError: (message, err) =>
+      console.warn(
+        `[Evidence Refresh] ${message}: ${err instanceof Error ? err.message : err}`
+      ),
+  });
+
+  console.log(
+    `[Evidence Refresh] Queued ${result.queued.length} claims ` +
+      `(${result.skipped} already running, ${result.failed} failed)`
+  );
+  if (result.failed > 0) process.exitCode = 1;
+}
+
+main()
+  .catch((err) => {
+    console.error("[Evidence Refresh] Error:", err instanceof Error ? err.message : err);
+    process.exitCode = 1;
+  })
+  // The queues hold Redis connections open
+  .finally(() =>
+    Promise.all([prisma.$disconnect(), dossierQueue.close(), paperAlertQueue.close()])
+  );